@@ -12,6 +12,7 @@ module.exports = {
   moduleNameMapper: {
     // Handle module aliases
     '^@/(.*)$': '<rootDir>/src/$1',
+    '^wayrapp-shared$': '<rootDir>/../frontend-shared/index.ts',
     // Handle CSS module mocks
     '\\.css$': 'identity-obj-proxy',
   },
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AuditEntityType } from '../../utils/types';
+import { useAuditLogQuery } from '../../hooks/useAudit';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { Feedback } from '../ui/Feedback';
+import { Button } from '../ui/Button';
+
+interface ActivityPanelProps {
+  entityType: AuditEntityType;
+  entityId: string;
+}
+
+const PAGE_SIZE = 10;
+
+const actionStyles: Record<string, string> = {
+  create: 'bg-green-100 text-green-800',
+  delete: 'bg-red-100 text-red-800',
+  publish: 'bg-blue-100 text-blue-800',
+  rollback: 'bg-yellow-100 text-yellow-800',
+};
+
+/**
+ * Panel listing the audit log of a piece of content
+ * Features:
+ * - Changes newest first, with the actor role and the changed fields
+ * - Paging through older changes
+ * Only admins can read the audit log, so the panel should only be rendered for them.
+ */
+export const ActivityPanel: React.FC<ActivityPanelProps> = ({ entityType, entityId }) => {
+  const { t } = useTranslation();
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading, error } = useAuditLogQuery({ entityType, entityId, page, limit: PAGE_SIZE });
+  const entries = data?.data ?? [];
+  const totalPages = data?.meta.totalPages ?? 1;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-neutral-900">
+          {t('creator.components.activity.title', 'Activity')}
+        </h2>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <LoadingSpinner />
+        </div>
+      ) : error ? (
+        <Feedback
+          type="error"
+          message={t('creator.components.activity.loadError', 'Failed to load activity')}
+        />
+      ) : entries.length === 0 ? (
+        <p className="text-neutral-500 text-sm">
+          {t('creator.components.activity.empty', 'No changes have been recorded yet.')}
+        </p>
+      ) : (
+        <ul className="divide-y divide-neutral-200">
+          {entries.map(entry => {
+            const changedFields = Object.keys(entry.changes ?? {});
+            return (
+              <li key={entry.id} className="py-3">
+                <div className="flex items-center space-x-2">
+                  <span
+                    className={`px-2 py-0.5 rounded-full text-xs font-medium ${actionStyles[entry.action] ?? 'bg-neutral-100 text-neutral-800'}`}
+                  >
+                    {t(`creator.components.activity.actions.${entry.action}`, entry.action)}
+                  </span>
+                  <span className="text-sm text-neutral-700">
+                    {entry.actorId
+                      ? t('creator.components.activity.by', 'by {{actor}}', {
+                          actor: entry.actorRole ? `${entry.actorId} (${entry.actorRole})` : entry.actorId,
+                        })
+                      : t('creator.components.activity.system', 'by the system')}
+                  </span>
+                </div>
+                <div className="text-sm text-neutral-600">
+                  {new Date(entry.createdAt).toLocaleString()}
+                  {changedFields.length > 0 && (
+                    <span className="text-neutral-500"> · {changedFields.join(', ')}</span>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between mt-4">
+          <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            {t('common.buttons.previous', 'Previous')}
+          </Button>
+          <span className="text-sm text-neutral-600">
+            {t('creator.components.activity.page', 'Page {{page}} of {{total}}', { page, total: totalPages })}
+          </span>
+          <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+            {t('common.buttons.next', 'Next')}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ActivityPanel;
@@ -0,0 +1,235 @@
+import React, { useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CourseAnalyticsReport, CourseFunnelStep } from '../../utils/types';
+import { useCourseAnalyticsQuery } from '../../hooks/useCourses';
+import { courseService } from '../../services/courseService';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { Feedback } from '../ui/Feedback';
+import { Button } from '../ui/Button';
+
+interface CourseAnalyticsPanelProps {
+  courseId: string;
+}
+
+const EXPORT_REPORTS: CourseAnalyticsReport[] = ['activity', 'funnel', 'scores'];
+
+// Indentation of each funnel step, following the course hierarchy
+const FUNNEL_INDENT: Record<CourseFunnelStep['entityType'], string> = {
+  level: 'pl-0 font-semibold',
+  section: 'pl-4 font-medium',
+  module: 'pl-8',
+  lesson: 'pl-12 text-neutral-600',
+};
+
+const formatDuration = (seconds: number | null): string => {
+  if (seconds === null) return '—';
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+};
+
+/**
+ * Panel with the learner analytics of a course
+ * Features:
+ * - Enrollment, new and active learners for a range of days (the last 30 days by default)
+ * - Active learners per day
+ * - Drop-off through levels, sections, modules and lessons with median times and average scores
+ * - Distribution of lesson scores
+ * - CSV export of each table
+ */
+export const CourseAnalyticsPanel: React.FC<CourseAnalyticsPanelProps> = ({ courseId }) => {
+  const { t } = useTranslation();
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [exporting, setExporting] = useState<CourseAnalyticsReport | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const downloadLinkRef = useRef<HTMLAnchorElement>(null);
+
+  const filters = {
+    ...(from && { from }),
+    ...(to && { to }),
+  };
+  const { data: analytics, isLoading, error } = useCourseAnalyticsQuery(courseId, filters);
+
+  const handleExport = async (report: CourseAnalyticsReport) => {
+    setExporting(report);
+    setExportError(null);
+    try {
+      const csv = await courseService.exportCourseAnalytics(courseId, report, filters);
+      const link = downloadLinkRef.current;
+      if (link) {
+        const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+        link.href = url;
+        link.download = `${courseId}-${report}-${analytics?.from ?? from}-${analytics?.to ?? to}.csv`;
+        link.click();
+        URL.revokeObjectURL(url);
+      }
+    } catch (err: unknown) {
+      setExportError(
+        (err instanceof Error && err.message) || t('creator.dashboard.analytics.exportError', 'Failed to export the analytics')
+      );
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const maxDailyLearners = Math.max(1, ...(analytics?.activeLearners ?? []).map(day => day.learners));
+  const maxBucketCount = Math.max(1, ...(analytics?.scoreDistribution ?? []).map(bucket => bucket.count));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <label htmlFor="analytics-from" className="block text-sm font-medium text-neutral-700">
+            {t('creator.dashboard.analytics.from', 'From')}
+          </label>
+          <input
+            id="analytics-from"
+            type="date"
+            value={from || analytics?.from || ''}
+            max={to || analytics?.to}
+            onChange={event => setFrom(event.target.value)}
+            className="mt-1 block rounded-md border-neutral-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+          />
+        </div>
+        <div>
+          <label htmlFor="analytics-to" className="block text-sm font-medium text-neutral-700">
+            {t('creator.dashboard.analytics.to', 'To')}
+          </label>
+          <input
+            id="analytics-to"
+            type="date"
+            value={to || analytics?.to || ''}
+            min={from || analytics?.from}
+            onChange={event => setTo(event.target.value)}
+            className="mt-1 block rounded-md border-neutral-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+          />
+        </div>
+        <div className="flex flex-wrap gap-2 ml-auto">
+          {EXPORT_REPORTS.map(report => (
+            <Button
+              key={report}
+              variant="outline"
+              size="sm"
+              disabled={!analytics || exporting !== null}
+              onClick={() => handleExport(report)}
+            >
+              {t(`creator.dashboard.analytics.export.${report}`, `Export ${report} CSV`)}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {exportError && <Feedback type="error" message={exportError} />}
+      {/* Target of the CSV downloads */}
+      <a ref={downloadLinkRef} className="hidden" aria-hidden="true" />
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <LoadingSpinner />
+        </div>
+      ) : error || !analytics ? (
+        <Feedback
+          type="error"
+          message={error?.message || t('creator.dashboard.analytics.loadError', 'Failed to load the course analytics')}
+        />
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {([
+              ['totalLearners', 'Enrolled learners', analytics.enrollment.totalLearners],
+              ['newLearners', 'New learners', analytics.enrollment.newLearners],
+              ['activeLearners', 'Active learners', analytics.enrollment.activeLearners],
+            ] as const).map(([key, label, value]) => (
+              <div key={key} className="rounded-lg border border-neutral-200 p-4">
+                <div className="text-sm text-neutral-600">{t(`creator.dashboard.analytics.${key}`, label)}</div>
+                <div className="mt-1 text-2xl font-semibold text-neutral-900">{value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <h3 className="text-md font-semibold text-neutral-900 mb-2">
+              {t('creator.dashboard.analytics.dailyActive', 'Active learners per day')}
+            </h3>
+            <div className="flex items-end h-32 gap-px border-b border-neutral-200">
+              {analytics.activeLearners.map(day => (
+                <div
+                  key={day.date}
+                  title={`${day.date}: ${day.learners}`}
+                  className="flex-1 bg-primary-500 rounded-t-sm"
+                  style={{ height: `${(day.learners / maxDailyLearners) * 100}%` }}
+                />
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-neutral-500 mt-1">
+              <span>{analytics.from}</span>
+              <span>{analytics.to}</span>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-md font-semibold text-neutral-900 mb-2">
+              {t('creator.dashboard.analytics.funnel', 'Progress through the course')}
+            </h3>
+            {analytics.funnel.length === 0 ? (
+              <p className="text-neutral-500 text-sm">
+                {t('creator.dashboard.analytics.noContent', 'This course has no lessons yet.')}
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-neutral-200 text-sm">
+                  <thead>
+                    <tr className="text-left text-neutral-600">
+                      <th className="py-2 pr-4 font-medium">{t('creator.dashboard.analytics.columns.content', 'Content')}</th>
+                      <th className="py-2 pr-4 font-medium text-right">{t('creator.dashboard.analytics.columns.started', 'Started')}</th>
+                      <th className="py-2 pr-4 font-medium text-right">{t('creator.dashboard.analytics.columns.completed', 'Completed')}</th>
+                      <th className="py-2 pr-4 font-medium text-right">{t('creator.dashboard.analytics.columns.dropOff', 'Drop-off')}</th>
+                      <th className="py-2 pr-4 font-medium text-right">{t('creator.dashboard.analytics.columns.medianTime', 'Median time')}</th>
+                      <th className="py-2 font-medium text-right">{t('creator.dashboard.analytics.columns.averageScore', 'Average score')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-neutral-100">
+                    {analytics.funnel.map(step => (
+                      <tr key={`${step.entityType}:${step.id}`}>
+                        <td className={`py-2 pr-4 ${FUNNEL_INDENT[step.entityType]}`}>{step.name}</td>
+                        <td className="py-2 pr-4 text-right">{step.learnersStarted}</td>
+                        <td className="py-2 pr-4 text-right">{step.learnersCompleted}</td>
+                        <td className={`py-2 pr-4 text-right ${step.dropOffRate >= 50 ? 'text-red-600' : ''}`}>
+                          {step.dropOffRate}%
+                        </td>
+                        <td className="py-2 pr-4 text-right">{formatDuration(step.medianTimeSeconds)}</td>
+                        <td className="py-2 text-right">{step.averageScore ?? '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-md font-semibold text-neutral-900 mb-2">
+              {t('creator.dashboard.analytics.scores', 'Lesson scores')}
+            </h3>
+            <div className="space-y-1">
+              {analytics.scoreDistribution.map(bucket => (
+                <div key={bucket.min} className="flex items-center text-sm">
+                  <span className="w-16 text-neutral-600">{bucket.min}–{bucket.max}</span>
+                  <div className="flex-1 bg-neutral-100 rounded-sm h-4 mr-2">
+                    <div
+                      className="bg-primary-500 h-4 rounded-sm"
+                      style={{ width: `${(bucket.count / maxBucketCount) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-10 text-right text-neutral-900">{bucket.count}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CourseAnalyticsPanel;
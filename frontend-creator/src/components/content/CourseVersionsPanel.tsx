@@ -0,0 +1,204 @@
+import React, { useState, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CourseVersion } from '../../utils/types';
+import {
+  useCourseVersionsQuery,
+  useCourseVersionDiffQuery,
+  usePublishCourseMutation,
+  useRollbackCourseVersionMutation,
+} from '../../hooks/useCourses';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { Feedback } from '../ui/Feedback';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { ConfirmModal } from '../ui/Modal';
+
+interface CourseVersionsPanelProps {
+  courseId: string;
+}
+
+const changeStyles: Record<string, string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  modified: 'bg-yellow-100 text-yellow-800',
+};
+
+/**
+ * Panel for the draft and publish workflow of a course
+ * Features:
+ * - Publishing the current draft as a new version with optional release notes
+ * - Version history, newest first
+ * - Comparing a version with the current draft
+ * - Rolling the course back to a previous version after confirmation
+ */
+export const CourseVersionsPanel: React.FC<CourseVersionsPanelProps> = ({ courseId }) => {
+  const { t } = useTranslation();
+  const [notes, setNotes] = useState('');
+  const [comparedVersion, setComparedVersion] = useState<number | null>(null);
+  const [rollbackTarget, setRollbackTarget] = useState<CourseVersion | null>(null);
+
+  const { data: versions = [], isLoading, error } = useCourseVersionsQuery(courseId);
+  const diffQuery = useCourseVersionDiffQuery(courseId, comparedVersion);
+  const publishMutation = usePublishCourseMutation();
+  const rollbackMutation = useRollbackCourseVersionMutation();
+
+  const handlePublish = useCallback(() => {
+    const trimmedNotes = notes.trim();
+    publishMutation.mutate(
+      { id: courseId, ...(trimmedNotes && { notes: trimmedNotes }) },
+      { onSuccess: () => setNotes('') }
+    );
+  }, [courseId, notes, publishMutation]);
+
+  const handleToggleCompare = useCallback((version: number) => {
+    setComparedVersion(current => (current === version ? null : version));
+  }, []);
+
+  const handleConfirmRollback = useCallback(() => {
+    if (!rollbackTarget) return;
+    rollbackMutation.mutate(
+      { id: courseId, version: rollbackTarget.version },
+      {
+        onSettled: () => {
+          setRollbackTarget(null);
+          setComparedVersion(null);
+        },
+      }
+    );
+  }, [courseId, rollbackTarget, rollbackMutation]);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-neutral-900">
+          {t('creator.components.courseVersions.title', 'Versions')}
+        </h2>
+      </div>
+
+      <p className="text-sm text-neutral-600 mb-4">
+        {t(
+          'creator.components.courseVersions.description',
+          'Learners only receive published versions. Publish the draft to make your latest edits available.'
+        )}
+      </p>
+
+      {/* Publish */}
+      <div className="flex items-end space-x-3 mb-6">
+        <div className="flex-1">
+          <Input
+            label={t('creator.components.courseVersions.notes', 'Release notes')}
+            value={notes}
+            maxLength={500}
+            onChange={(event) => setNotes(event.target.value)}
+            fullWidth
+          />
+        </div>
+        <Button onClick={handlePublish} isLoading={publishMutation.isPending}>
+          {t('creator.components.courseVersions.publish', 'Publish draft')}
+        </Button>
+      </div>
+
+      {/* Version history */}
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <LoadingSpinner />
+        </div>
+      ) : error ? (
+        <Feedback
+          type="error"
+          message={t('creator.components.courseVersions.loadError', 'Failed to load versions')}
+        />
+      ) : versions.length === 0 ? (
+        <p className="text-neutral-500 text-sm">
+          {t('creator.components.courseVersions.empty', 'This course has not been published yet.')}
+        </p>
+      ) : (
+        <ul className="divide-y divide-neutral-200">
+          {versions.map((version, index) => (
+            <li key={version.id} className="py-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-neutral-900">
+                      {t('creator.components.courseVersions.version', 'Version {{version}}', { version: version.version })}
+                    </span>
+                    {index === 0 && (
+                      <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                        {t('creator.components.courseVersions.live', 'Live')}
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-sm text-neutral-600">
+                    {new Date(version.publishedAt).toLocaleString()}
+                    {version.notes && <span> · {version.notes}</span>}
+                  </div>
+                </div>
+                <div className="flex space-x-2">
+                  <Button variant="outline" size="sm" onClick={() => handleToggleCompare(version.version)}>
+                    {comparedVersion === version.version
+                      ? t('creator.components.courseVersions.hideChanges', 'Hide changes')
+                      : t('creator.components.courseVersions.compare', 'Compare with draft')}
+                  </Button>
+                  <Button variant="secondary" size="sm" onClick={() => setRollbackTarget(version)}>
+                    {t('creator.components.courseVersions.rollback', 'Roll back')}
+                  </Button>
+                </div>
+              </div>
+
+              {/* Changes in the draft since this version */}
+              {comparedVersion === version.version && (
+                <div className="mt-3 bg-neutral-50 rounded-md p-3">
+                  {diffQuery.isLoading ? (
+                    <LoadingSpinner size="sm" />
+                  ) : diffQuery.error ? (
+                    <Feedback
+                      type="error"
+                      message={t('creator.components.courseVersions.diffError', 'Failed to compare versions')}
+                    />
+                  ) : diffQuery.data && diffQuery.data.changes.length === 0 ? (
+                    <p className="text-sm text-neutral-600">
+                      {t('creator.components.courseVersions.noChanges', 'The draft matches this version.')}
+                    </p>
+                  ) : (
+                    <ul className="space-y-1 text-sm">
+                      {diffQuery.data?.changes.map(change => (
+                        <li key={`${change.entityType}:${change.entityId}`} className="flex items-center space-x-2">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${changeStyles[change.change]}`}>
+                            {t(`creator.components.courseVersions.changes.${change.change}`, change.change)}
+                          </span>
+                          <span className="text-neutral-700">
+                            {change.entityType} <code>{change.entityId}</code>
+                          </span>
+                          {change.fields.length > 0 && (
+                            <span className="text-neutral-500">({change.fields.join(', ')})</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <ConfirmModal
+        isOpen={rollbackTarget !== null}
+        onClose={() => setRollbackTarget(null)}
+        onConfirm={handleConfirmRollback}
+        title={t('creator.components.courseVersions.rollbackTitle', 'Roll back course')}
+        message={t(
+          'creator.components.courseVersions.rollbackConfirm',
+          'The draft will be replaced with version {{version}} and published as a new version. Content created since then will be deleted.',
+          { version: rollbackTarget?.version }
+        )}
+        confirmText={t('creator.components.courseVersions.rollback', 'Roll back')}
+        cancelText={t('common.buttons.cancel', 'Cancel')}
+        isLoading={rollbackMutation.isPending}
+      />
+    </div>
+  );
+};
+
+export default CourseVersionsPanel;
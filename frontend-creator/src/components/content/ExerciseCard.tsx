@@ -103,6 +103,10 @@ export const ExerciseCard: React.FC<ExerciseCardProps> = ({
         return data['content'] || t('creator.components.exerciseCard.noPreview', 'No preview available');
       case 'ordering':
         return data['items'] ? `${data['items'].length} items` : t('creator.components.exerciseCard.noPreview', 'No preview available');
+      case 'listening':
+        return data['transcript'] || data['correct_answers']?.[0] || t('creator.components.exerciseCard.noPreview', 'No preview available');
+      case 'speaking':
+        return data['prompt'] || t('creator.components.exerciseCard.noPreview', 'No preview available');
       default:
         return t('creator.components.exerciseCard.noPreview', 'No preview available');
     }
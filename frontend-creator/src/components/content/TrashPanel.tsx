@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { TrashEntityType } from '../../utils/types';
+import { useRestoreFromTrashMutation, useTrashQuery } from '../../hooks/useTrash';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { Feedback } from '../ui/Feedback';
+import { Button } from '../ui/Button';
+
+interface TrashPanelProps {
+  courseId?: string;
+  entityType?: TrashEntityType;
+}
+
+const PAGE_SIZE = 10;
+
+/**
+ * Panel listing deleted content that can still be restored
+ * Features:
+ * - Trash entries newest first, with the date each one will be purged
+ * - Restoring an entry together with the content deleted with it
+ * - Paging through older entries
+ * Only admins can read the trash, so the panel should only be rendered for them.
+ */
+export const TrashPanel: React.FC<TrashPanelProps> = ({ courseId, entityType }) => {
+  const { t } = useTranslation();
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading, error } = useTrashQuery({
+    page,
+    limit: PAGE_SIZE,
+    ...(courseId && { courseId }),
+    ...(entityType && { type: entityType }),
+  });
+  const restoreMutation = useRestoreFromTrashMutation();
+  const items = data?.data ?? [];
+  const totalPages = data?.meta.totalPages ?? 1;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-neutral-900">
+          {t('creator.components.trash.title', 'Trash')}
+        </h2>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <LoadingSpinner />
+        </div>
+      ) : error ? (
+        <Feedback
+          type="error"
+          message={t('creator.components.trash.loadError', 'Failed to load the trash')}
+        />
+      ) : items.length === 0 ? (
+        <p className="text-neutral-500 text-sm">
+          {t('creator.components.trash.empty', 'The trash is empty.')}
+        </p>
+      ) : (
+        <ul className="divide-y divide-neutral-200">
+          {items.map(item => (
+            <li key={`${item.entityType}:${item.id}`} className="py-3 flex items-center justify-between">
+              <div>
+                <div className="flex items-center space-x-2">
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-neutral-100 text-neutral-800">
+                    {t(`creator.components.trash.types.${item.entityType}`, item.entityType)}
+                  </span>
+                  <span className="text-sm text-neutral-900">{item.name ?? item.id}</span>
+                </div>
+                <div className="text-sm text-neutral-600">
+                  {t('creator.components.trash.dates', 'Deleted {{deleted}} · purged {{purge}}', {
+                    deleted: new Date(item.deletedAt).toLocaleString(),
+                    purge: new Date(item.purgeAt).toLocaleDateString(),
+                  })}
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={restoreMutation.isPending}
+                onClick={() => restoreMutation.mutate(item)}
+              >
+                {t('creator.components.trash.restore', 'Restore')}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between mt-4">
+          <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            {t('common.buttons.previous', 'Previous')}
+          </Button>
+          <span className="text-sm text-neutral-600">
+            {t('creator.components.trash.page', 'Page {{page}} of {{total}}', { page, total: totalPages })}
+          </span>
+          <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+            {t('common.buttons.next', 'Next')}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrashPanel;
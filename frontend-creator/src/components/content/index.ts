@@ -16,4 +16,7 @@ export { default as CreateOrEditSectionModal } from './CreateOrEditSectionModal'
 export { default as CreateOrEditModuleModal } from './CreateOrEditModuleModal';
 export { default as CreateOrEditLessonModal } from './CreateOrEditLessonModal';
 export { default as AssignedExercisesList } from './AssignedExercisesList';
-export { default as ExerciseAssignmentModal } from './ExerciseAssignmentModal';
\ No newline at end of file
+export { default as ExerciseAssignmentModal } from './ExerciseAssignmentModal';
+export { default as CourseVersionsPanel } from './CourseVersionsPanel';
+export { default as ActivityPanel } from './ActivityPanel';
+export { default as CourseAnalyticsPanel } from './CourseAnalyticsPanel';
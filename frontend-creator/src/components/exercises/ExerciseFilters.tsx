@@ -34,6 +34,8 @@ export const ExerciseFilters: React.FC<ExerciseFiltersProps> = ({
     'pairs',
     'informative',
     'ordering',
+    'listening',
+    'speaking',
   ];
 
   const clearAllFilters = () => {
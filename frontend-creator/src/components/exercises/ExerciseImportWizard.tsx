@@ -0,0 +1,399 @@
+import React, { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Select } from '../ui/Select';
+import { Feedback } from '../ui/Feedback';
+import { useImportExercisesMutation } from '../../hooks/useExercises';
+import { EXERCISE_IMPORT_FIELDS, EXERCISE_TYPES } from '../../utils/constants';
+import {
+  ExerciseImportFormat,
+  ExerciseImportRequest,
+  ExerciseImportResult,
+  ExerciseType,
+} from '../../utils/types';
+
+interface ExerciseImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Lesson the imported exercises are appended to by default */
+  lessonId?: string;
+}
+
+type WizardStep = 'upload' | 'mapping' | 'preview';
+
+const DELIMITERS: Record<ExerciseImportFormat, string> = { csv: ',', tsv: '\t' };
+const PREVIEW_LIMIT = 20;
+
+/**
+ * Reads the first record of a delimited file, honouring quoted fields
+ */
+const readFirstRecord = (content: string, delimiter: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = content.charCodeAt(0) === 0xfeff ? 1 : 0; index < content.length; index++) {
+    const char = content[index];
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      break;
+    } else {
+      field += char;
+    }
+  }
+
+  return [...fields, field];
+};
+
+/**
+ * Wizard importing exercises into the exercise bank from a spreadsheet saved as CSV or TSV
+ * Features:
+ * - Choosing the file, its format and the exercise type of its rows
+ * - Mapping file columns to exercise fields, several columns for list fields
+ * - Previewing the exercises and the errors of each row before importing
+ * - Optionally appending the imported exercises to a lesson
+ */
+export const ExerciseImportWizard: React.FC<ExerciseImportWizardProps> = ({ isOpen, onClose, lessonId }) => {
+  const { t } = useTranslation();
+  const importMutation = useImportExercisesMutation();
+
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [content, setContent] = useState('');
+  const [format, setFormat] = useState<ExerciseImportFormat>('csv');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [exerciseType, setExerciseType] = useState<ExerciseType>('translation');
+  const [targetLessonId, setTargetLessonId] = useState(lessonId ?? '');
+  const [mapping, setMapping] = useState<Record<string, string[]>>({});
+  const [preview, setPreview] = useState<ExerciseImportResult | null>(null);
+  const [imported, setImported] = useState<ExerciseImportResult | null>(null);
+
+  const fields = EXERCISE_IMPORT_FIELDS[exerciseType] ?? [];
+  const allFields: Array<{ field: string; required?: boolean; list?: boolean }> = [{ field: 'id' }, ...fields];
+
+  // Columns are offered by header name, or by position when the file has no header
+  const columns = useMemo(() => {
+    const firstRecord = content ? readFirstRecord(content, DELIMITERS[format]) : [];
+    return firstRecord.map((name, index) => hasHeader
+      ? { value: name.trim(), label: name.trim() || t('creator.components.exerciseImport.column', 'Column {{position}}', { position: index + 1 }) }
+      : { value: String(index + 1), label: t('creator.components.exerciseImport.column', 'Column {{position}}', { position: index + 1 }) }
+    );
+  }, [content, format, hasHeader, t]);
+
+  const missingFields = fields.filter(({ field, required }) => required && !mapping[field]?.length);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setContent('');
+    setMapping({});
+    setPreview(null);
+    setImported(null);
+    importMutation.reset();
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setFormat(/\.(tsv|tab)$/i.test(file.name) ? 'tsv' : 'csv');
+    setContent(await file.text());
+  };
+
+  const goToMapping = () => {
+    // Preselect the columns named after a field
+    const names = columns.map(column => column.value.toLowerCase());
+    setMapping(Object.fromEntries(
+      allFields
+        .map(({ field }) => [field, columns.filter((_, index) => names[index] === field).map(column => column.value)] as const)
+        .filter(([, selected]) => selected.length > 0)
+    ));
+    setStep('mapping');
+  };
+
+  const buildRequest = (): ExerciseImportRequest => ({
+    format,
+    content,
+    hasHeader,
+    exerciseType,
+    mapping: Object.fromEntries(
+      Object.entries(mapping)
+        .filter(([, selected]) => selected.length > 0)
+        .map(([field, selected]) => {
+          const values = selected.map(value => (hasHeader ? value : Number(value)));
+          const isList = fields.some(definition => definition.field === field && definition.list);
+          return [field, isList ? values : values[0]!];
+        })
+    ),
+    ...(targetLessonId.trim() && { lessonId: targetLessonId.trim() }),
+  });
+
+  const handlePreview = () => {
+    importMutation.mutate({ request: buildRequest(), dryRun: true }, {
+      onSuccess: (result) => {
+        setPreview(result);
+        setStep('preview');
+      },
+    });
+  };
+
+  const handleImport = () => {
+    importMutation.mutate({ request: buildRequest() }, {
+      onSuccess: (result) => setImported(result),
+    });
+  };
+
+  const summarize = (data: Record<string, any>): string => {
+    const text = Object.values(data).find(value => typeof value === 'string');
+    return typeof text === 'string' ? text : JSON.stringify(data);
+  };
+
+  const renderUpload = () => (
+    <div className="space-y-4">
+      <div>
+        <label htmlFor="exercise-import-file" className="block text-sm font-medium text-neutral-700 mb-1">
+          {t('creator.components.exerciseImport.file', 'File')}
+        </label>
+        <input
+          id="exercise-import-file"
+          type="file"
+          accept=".csv,.tsv,.tab,.txt,text/csv,text/tab-separated-values"
+          onChange={handleFileChange}
+          className="block w-full text-sm text-neutral-700"
+        />
+        {fileName && <p className="text-sm text-neutral-500 mt-1">{fileName}</p>}
+      </div>
+
+      <Select
+        id="exercise-import-format"
+        label={t('creator.components.exerciseImport.format', 'Format')}
+        value={format}
+        onChange={event => setFormat(event.target.value as ExerciseImportFormat)}
+        options={[
+          { value: 'csv', label: t('creator.components.exerciseImport.formats.csv', 'Comma-separated (CSV)') },
+          { value: 'tsv', label: t('creator.components.exerciseImport.formats.tsv', 'Tab-separated (TSV)') },
+        ]}
+        fullWidth
+      />
+
+      <label className="flex items-center space-x-2 text-sm text-neutral-700">
+        <input type="checkbox" checked={hasHeader} onChange={event => setHasHeader(event.target.checked)} />
+        <span>{t('creator.components.exerciseImport.hasHeader', 'The first row holds the column names')}</span>
+      </label>
+
+      <Select
+        id="exercise-import-type"
+        label={t('creator.components.exerciseImport.exerciseType', 'Exercise type')}
+        value={exerciseType}
+        onChange={event => setExerciseType(event.target.value as ExerciseType)}
+        options={EXERCISE_TYPES.map(type => ({ value: type.value, label: type.label }))}
+        fullWidth
+      />
+
+      <div>
+        <label htmlFor="exercise-import-lesson" className="block text-sm font-medium text-neutral-700 mb-1">
+          {t('creator.components.exerciseImport.lesson', 'Add to lesson (optional)')}
+        </label>
+        <input
+          id="exercise-import-lesson"
+          type="text"
+          value={targetLessonId}
+          onChange={event => setTargetLessonId(event.target.value)}
+          placeholder={t('creator.components.exerciseImport.lessonPlaceholder', 'Lesson ID')}
+          className="input w-full"
+        />
+      </div>
+    </div>
+  );
+
+  const renderMapping = () => (
+    <div className="space-y-4">
+      <p className="text-sm text-neutral-600">
+        {t(
+          'creator.components.exerciseImport.mappingHelp',
+          'Choose the column of each field. List fields take several columns, and their cells can hold several values separated by "|". Rows without an ID get one generated from their text.'
+        )}
+      </p>
+      {allFields.map(definition => {
+        const { field, required, list } = definition;
+        const selected = mapping[field] ?? [];
+
+        return (
+          <div key={field}>
+            <label htmlFor={`exercise-import-field-${field}`} className="block text-sm font-medium text-neutral-700 mb-1">
+              {field}
+              {required && <span className="text-error ml-1">*</span>}
+            </label>
+            <select
+              id={`exercise-import-field-${field}`}
+              className="input w-full"
+              multiple={!!list}
+              value={list ? selected : selected[0] ?? ''}
+              onChange={event => setMapping({
+                ...mapping,
+                [field]: Array.from(event.target.selectedOptions, option => option.value).filter(Boolean),
+              })}
+            >
+              {!list && <option value="">{t('creator.components.exerciseImport.notMapped', 'Not in the file')}</option>}
+              {columns.map(column => (
+                <option key={column.value} value={column.value}>{column.label}</option>
+              ))}
+            </select>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const renderPreview = (result: ExerciseImportResult) => (
+    <div className="space-y-4">
+      <Feedback
+        type={result.errors.length > 0 ? 'warning' : 'info'}
+        message={t(
+          'creator.components.exerciseImport.summary',
+          '{{valid}} of {{total}} rows are ready to import, {{errors}} problems found',
+          { valid: result.exercises.length, total: result.totalRows, errors: result.errors.length }
+        )}
+      />
+
+      {result.errors.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-neutral-900 mb-2">
+            {t('creator.components.exerciseImport.errors', 'Problems to fix in the file')}
+          </h4>
+          <ul className="divide-y divide-neutral-200 text-sm max-h-48 overflow-y-auto">
+            {result.errors.map((error, index) => (
+              <li key={index} className="py-1 text-error">
+                {t('creator.components.exerciseImport.rowError', 'Row {{row}}, {{field}}: {{message}}', { ...error })}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {result.exercises.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-neutral-900 mb-2">
+            {t('creator.components.exerciseImport.exercises', 'Exercises')}
+          </h4>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-neutral-500">
+                <th className="py-1 pr-2">{t('creator.components.exerciseImport.row', 'Row')}</th>
+                <th className="py-1 pr-2">ID</th>
+                <th className="py-1">{t('creator.components.exerciseImport.content', 'Content')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-200">
+              {result.exercises.slice(0, PREVIEW_LIMIT).map(exercise => (
+                <tr key={exercise.row}>
+                  <td className="py-1 pr-2 text-neutral-500">{exercise.row}</td>
+                  <td className="py-1 pr-2 font-mono">{exercise.id}</td>
+                  <td className="py-1 truncate max-w-xs">{summarize(exercise.data)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {result.exercises.length > PREVIEW_LIMIT && (
+            <p className="text-sm text-neutral-500 mt-1">
+              {t('creator.components.exerciseImport.more', 'And {{count}} more', { count: result.exercises.length - PREVIEW_LIMIT })}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderFooter = () => {
+    if (imported) {
+      return (
+        <div className="flex justify-end">
+          <Button onClick={handleClose}>{t('creator.components.exerciseImport.done', 'Done')}</Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex justify-between">
+        <Button
+          variant="outline"
+          disabled={step === 'upload' || importMutation.isPending}
+          onClick={() => setStep(step === 'preview' ? 'mapping' : 'upload')}
+        >
+          {t('common.buttons.back', 'Back')}
+        </Button>
+        {step === 'upload' && (
+          <Button disabled={!content} onClick={goToMapping}>
+            {t('common.buttons.next', 'Next')}
+          </Button>
+        )}
+        {step === 'mapping' && (
+          <Button disabled={missingFields.length > 0} isLoading={importMutation.isPending} onClick={handlePreview}>
+            {t('creator.components.exerciseImport.check', 'Check file')}
+          </Button>
+        )}
+        {step === 'preview' && (
+          <Button
+            disabled={!preview || preview.errors.length > 0 || preview.exercises.length === 0}
+            isLoading={importMutation.isPending}
+            onClick={handleImport}
+          >
+            {t('creator.components.exerciseImport.import', 'Import {{count}} exercises', { count: preview?.exercises.length ?? 0 })}
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title={t('creator.components.exerciseImport.title', 'Import exercises')}
+      size="xl"
+      closeOnOverlayClick={false}
+      footer={renderFooter()}
+    >
+      {importMutation.error && (
+        <div className="mb-4">
+          <Feedback type="error" message={(importMutation.error as Error).message} />
+        </div>
+      )}
+
+      {imported ? (
+        <Feedback
+          type="success"
+          message={t('creator.components.exerciseImport.imported', '{{count}} exercises imported', { count: imported.exercises.length })}
+        />
+      ) : (
+        <>
+          {step === 'upload' && renderUpload()}
+          {step === 'mapping' && renderMapping()}
+          {step === 'preview' && preview && renderPreview(preview)}
+        </>
+      )}
+    </Modal>
+  );
+};
+
+export default ExerciseImportWizard;
@@ -6,13 +6,20 @@ import {
     useExerciseAnalyticsQuery,
     useDuplicateExerciseMutation
 } from '../../hooks/useExercises';
-import { ExerciseDuplicationOptions } from '../../utils/types';
+import { ExerciseDuplicationOptions, ExerciseQualityFlag } from '../../utils/types';
 import { LoadingSpinner } from '../ui/LoadingSpinner';
 import { Feedback } from '../ui/Feedback';
 import { Button } from '../ui/Button';
 import { Modal } from '../ui/Modal';
 import { Card } from '../ui/Card';
 
+const FLAG_MESSAGES: Record<ExerciseQualityFlag, string> = {
+    too_easy: 'Nearly every learner answers this exercise correctly at the first attempt',
+    too_hard: 'Few learners answer this exercise correctly at the first attempt',
+    low_discrimination: 'Strong and weak learners do about as well on this exercise',
+    negative_discrimination: 'Weak learners do better than strong learners on this exercise; check the answer key',
+};
+
 interface ExerciseUsageDashboardProps {
     exerciseId: string;
     onClose?: () => void;
@@ -111,6 +118,8 @@ export const ExerciseUsageDashboard: React.FC<ExerciseUsageDashboardProps> = ({
         );
     }
 
+    const performance = analytics.performanceMetrics;
+
     return (
         <div className="space-y-6">
             {/* Header */}
@@ -196,37 +205,115 @@ export const ExerciseUsageDashboard: React.FC<ExerciseUsageDashboardProps> = ({
             </div>
 
             {/* Performance Metrics */}
-            {analytics.performanceMetrics.completionRate && (
+            {performance.totalAttempts > 0 ? (
                 <Card className="p-6">
-                    <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                    <h3 className="text-lg font-semibold text-gray-900 mb-1">
                         {t('exercises.usage.performance', 'Performance Metrics')}
                     </h3>
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                    <p className="text-sm text-gray-600 mb-4">
+                        {t('exercises.usage.attemptsSummary', '{{attempts}} attempts by {{learners}} learners', {
+                            attempts: performance.totalAttempts,
+                            learners: performance.uniqueLearners,
+                        })}
+                    </p>
+
+                    {performance.flags.length > 0 && (
+                        <div className="space-y-2 mb-4">
+                            {performance.flags.map((flag) => (
+                                <Feedback
+                                    key={flag}
+                                    type="warning"
+                                    message={t(`exercises.usage.flags.${flag}`, FLAG_MESSAGES[flag])}
+                                />
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-6">
                         <div className="text-center">
                             <div className="text-2xl font-bold text-green-600 mb-1">
-                                {analytics.performanceMetrics.completionRate}%
+                                {performance.completionRate}%
                             </div>
                             <div className="text-sm text-gray-600">
                                 {t('exercises.usage.completionRate', 'Completion Rate')}
                             </div>
                         </div>
+                        <div className="text-center">
+                            <div className="text-2xl font-bold text-green-600 mb-1">
+                                {performance.firstAttemptAccuracy}%
+                            </div>
+                            <div className="text-sm text-gray-600">
+                                {t('exercises.usage.firstAttemptAccuracy', 'First Attempt Accuracy')}
+                            </div>
+                        </div>
                         <div className="text-center">
                             <div className="text-2xl font-bold text-blue-600 mb-1">
-                                {analytics.performanceMetrics.averageScore}%
+                                {performance.averageScore}%
                             </div>
                             <div className="text-sm text-gray-600">
                                 {t('exercises.usage.averageScore', 'Average Score')}
                             </div>
                         </div>
+                        <div className="text-center">
+                            <div className="text-2xl font-bold text-blue-600 mb-1">
+                                {performance.accuracy}%
+                            </div>
+                            <div className="text-sm text-gray-600">
+                                {t('exercises.usage.accuracy', 'Correct Attempts')}
+                            </div>
+                        </div>
                         <div className="text-center">
                             <div className="text-2xl font-bold text-purple-600 mb-1">
-                                {analytics.performanceMetrics.averageTimeSpent}s
+                                {performance.averageTimeSpent !== null ? `${performance.averageTimeSpent}s` : '—'}
                             </div>
                             <div className="text-sm text-gray-600">
                                 {t('exercises.usage.averageTime', 'Average Time')}
                             </div>
                         </div>
+                        <div className="text-center">
+                            <div className="text-2xl font-bold text-purple-600 mb-1">
+                                {performance.discriminationIndex !== null ? performance.discriminationIndex.toFixed(2) : '—'}
+                            </div>
+                            <div className="text-sm text-gray-600">
+                                {t('exercises.usage.discriminationIndex', 'Discrimination Index')}
+                            </div>
+                        </div>
                     </div>
+
+                    {performance.commonWrongAnswers.length > 0 && (
+                        <div className="mt-6">
+                            <h4 className="text-md font-medium text-gray-700 mb-3">
+                                {t('exercises.usage.commonWrongAnswers', 'Common Wrong Answers')}
+                            </h4>
+                            <div className="space-y-2">
+                                {performance.commonWrongAnswers.map((wrongAnswer) => (
+                                    <div
+                                        key={JSON.stringify(wrongAnswer.answer)}
+                                        className="flex justify-between items-center p-3 bg-gray-50 rounded-lg"
+                                    >
+                                        <code className="text-sm text-gray-900 break-all">
+                                            {JSON.stringify(wrongAnswer.answer)}
+                                        </code>
+                                        <span className="text-sm text-gray-500 ml-4 whitespace-nowrap">
+                                            {t('exercises.usage.wrongAnswerCount', '{{count}} times ({{percentage}}%)', {
+                                                count: wrongAnswer.count,
+                                                percentage: wrongAnswer.percentage,
+                                            })}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </Card>
+            ) : (
+                <Card className="p-6">
+                    <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                        {t('exercises.usage.performance', 'Performance Metrics')}
+                    </h3>
+                    <p className="text-gray-600 text-center py-4">
+                        {t('exercises.usage.noAttempts', 'No learner has answered this exercise yet')}
+                    </p>
                 </Card>
             )}
 
@@ -50,9 +50,18 @@ const mockAnalytics = {
     averagePosition: 1.5
   },
   performanceMetrics: {
+    totalAttempts: 40,
+    uniqueLearners: 20,
     completionRate: 85,
+    accuracy: 60,
+    firstAttemptAccuracy: 55,
     averageScore: 78,
-    averageTimeSpent: 45
+    averageTimeSpent: 45,
+    discriminationIndex: -0.25,
+    commonWrongAnswers: [
+      { answer: { text: 'Hola mundos' }, count: 8, percentage: 50 }
+    ],
+    flags: ['negative_discrimination' as const]
   },
   trends: {
     weeklyUsage: [
@@ -131,6 +140,20 @@ describe('ExerciseUsageDashboard', () => {
     expect(screen.getByText('85%')).toBeInTheDocument(); // Completion rate
     expect(screen.getByText('78%')).toBeInTheDocument(); // Average score
     expect(screen.getByText('45s')).toBeInTheDocument(); // Average time
+    expect(screen.getByText('55%')).toBeInTheDocument(); // First attempt accuracy
+    expect(screen.getByText('-0.25')).toBeInTheDocument(); // Discrimination index
+  });
+
+  it('shows common wrong answers and quality warnings', async () => {
+    renderWithProviders(<ExerciseUsageDashboard exerciseId="exercise-001" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Common Wrong Answers')).toBeInTheDocument();
+    });
+
+    expect(screen.getByText('{"text":"Hola mundos"}')).toBeInTheDocument();
+    expect(screen.getByText('8 times (50%)')).toBeInTheDocument();
+    expect(screen.getByText(/Weak learners do better than strong learners/)).toBeInTheDocument();
   });
 
   it('shows lessons using the exercise', async () => {
@@ -27,6 +27,8 @@ import { PairsExerciseForm } from './exercise-types/PairsExerciseForm';
 import { InformativeExerciseForm } from './exercise-types/InformativeExerciseForm';
 import { OrderingExerciseForm } from './exercise-types/OrderingExerciseForm';
 import TranslationWordBankExerciseForm from './exercise-types/TranslationWordBankExerciseForm';
+import { ListeningExerciseForm } from './exercise-types/ListeningExerciseForm';
+import { SpeakingExerciseForm } from './exercise-types/SpeakingExerciseForm';
 
 // ============================================================================
 // Type Definitions
@@ -100,6 +102,17 @@ const getDefaultExerciseData = (exerciseType: ExerciseType): Record<string, any>
             return {
                 items: [],
             };
+        case 'listening':
+            return {
+                audio: {},
+                answer_mode: 'type',
+                correct_answers: [''],
+            };
+        case 'speaking':
+            return {
+                prompt: '',
+                expected_transcripts: [''],
+            };
         default:
             return {};
     }
@@ -250,6 +263,10 @@ export const DynamicExerciseForm: React.FC<DynamicExerciseFormProps> = ({
                 return <InformativeExerciseForm {...commonProps} />;
             case 'ordering':
                 return <OrderingExerciseForm {...commonProps} />;
+            case 'listening':
+                return <ListeningExerciseForm {...commonProps} />;
+            case 'speaking':
+                return <SpeakingExerciseForm {...commonProps} />;
             default:
                 return (
                     <div className="text-center py-8 text-gray-500">
@@ -170,6 +170,8 @@ const ExerciseAssignmentForm: React.FC<ExerciseAssignmentFormProps> = ({ lessonI
             pairs: t('creator.exerciseTypes.pairs', 'Pairs'),
             informative: t('creator.exerciseTypes.informative', 'Informative'),
             ordering: t('creator.exerciseTypes.ordering', 'Ordering'),
+            listening: t('creator.exerciseTypes.listening', 'Listening'),
+            speaking: t('creator.exerciseTypes.speaking', 'Speaking'),
         };
 
         return typeMap[type] || type;
@@ -195,6 +197,10 @@ const ExerciseAssignmentForm: React.FC<ExerciseAssignmentFormProps> = ({ lessonI
                 return exercise.data['content'] || '';
             case 'ordering':
                 return `${exercise.data['items']?.length || 0} items`;
+            case 'listening':
+                return exercise.data['transcript'] || exercise.data['correct_answers']?.[0] || '';
+            case 'speaking':
+                return exercise.data['prompt'] || '';
             default:
                 return '';
         }
@@ -357,6 +357,12 @@ export const getExercisePreview = (exerciseType: string, data: any): string => {
     case 'informative':
       return data.title || data.content || 'No content provided';
     
+    case 'listening':
+      return data.transcript || data.correct_answers?.[0] || 'No answer provided';
+    
+    case 'speaking':
+      return data.prompt || 'No prompt provided';
+    
     default:
       return 'Unknown exercise type';
   }
@@ -373,6 +379,8 @@ export const getExerciseTypeName = (exerciseType: string, t?: any): string => {
     pairs: t?.('creator.exerciseTypes.pairs', 'Matching Pairs') || 'Matching Pairs',
     informative: t?.('creator.exerciseTypes.informative', 'Informative') || 'Informative',
     ordering: t?.('creator.exerciseTypes.ordering', 'Ordering') || 'Ordering',
+    listening: t?.('creator.exerciseTypes.listening', 'Listening') || 'Listening',
+    speaking: t?.('creator.exerciseTypes.speaking', 'Speaking') || 'Speaking',
   };
 
   return typeMap[exerciseType] || exerciseType;
@@ -465,6 +465,142 @@ const TranslationWordBankPreview: React.FC<{ data: any }> = ({ data }) => {
   );
 };
 
+const AudioPlaceholder: React.FC<{ audio: any }> = ({ audio }) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="border border-gray-300 rounded-md p-2 bg-white">
+      <div className="text-center text-gray-500 py-6">
+        🎵 {audio.url
+          ? t('creator.preview.audioPreview', 'Audio: {{url}}', { url: audio.url })
+          : t('creator.preview.uploadedAudioPreview', 'Uploaded audio: {{id}}', { id: audio.media_id })}
+      </div>
+    </div>
+  );
+};
+
+const ListeningPreview: React.FC<{ data: any }> = ({ data }) => {
+  const { t } = useTranslation();
+
+  const hasAudio = !!(data.audio?.url || data.audio?.media_id);
+  const correctAnswers = (data.correct_answers || []).filter((answer: string) => answer && answer.trim());
+
+  if (!hasAudio || correctAnswers.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        {t('creator.preview.addAudioAndAnswers', 'Add the audio and a correct answer to see preview')}
+      </div>
+    );
+  }
+
+  const options = (data.options || []).filter((option: string) => option && option.trim());
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-blue-50 p-4 rounded-md">
+        <h4 className="font-medium text-blue-900 mb-3">
+          {data.answer_mode === 'choose'
+            ? t('creator.preview.chooseWhatYouHear', 'Choose what you hear:')
+            : t('creator.preview.typeWhatYouHear', 'Type what you hear:')}
+        </h4>
+
+        <AudioPlaceholder audio={data.audio} />
+
+        {data.max_plays && (
+          <p className="text-xs text-blue-700 mt-2">
+            {t('creator.preview.maxPlays', 'Can be played {{count}} times', { count: data.max_plays })}
+          </p>
+        )}
+
+        <div className="mt-4">
+          {data.answer_mode === 'choose' ? (
+            <div className="grid grid-cols-2 gap-2">
+              {options.map((option: string, index: number) => (
+                <button
+                  key={index}
+                  className="p-2 text-sm rounded border bg-white border-blue-200 text-gray-800"
+                  disabled
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <input
+              type="text"
+              className="w-full p-2 border border-gray-300 rounded-md"
+              placeholder={t('creator.preview.typeAnswer', 'Type your answer here...')}
+              disabled
+            />
+          )}
+        </div>
+
+        <div className="mt-3 text-xs text-blue-700">
+          <p>
+            <strong>{t('creator.preview.acceptedAnswers', 'Accepted answers:')}</strong> {correctAnswers.join(', ')}
+          </p>
+          {data.transcript && (
+            <p className="mt-1">
+              <strong>{t('creator.preview.transcript', 'Transcript:')}</strong> {data.transcript}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const SpeakingPreview: React.FC<{ data: any }> = ({ data }) => {
+  const { t } = useTranslation();
+
+  const transcripts = (data.expected_transcripts || []).filter((transcript: string) => transcript && transcript.trim());
+
+  if (!data.prompt || transcripts.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        {t('creator.preview.addPromptAndTranscripts', 'Add the prompt and an expected answer to see preview')}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-blue-50 p-4 rounded-md">
+        <h4 className="font-medium text-blue-900 mb-2">
+          {t('creator.preview.sayThis', 'Say it out loud:')}
+        </h4>
+        <p className="text-blue-800 mb-3">{data.prompt}</p>
+
+        {(data.reference_audio?.url || data.reference_audio?.media_id) && (
+          <AudioPlaceholder audio={data.reference_audio} />
+        )}
+
+        <div className="text-center mt-4">
+          <Button variant="outline" disabled>
+            🎤 {t('creator.preview.holdToRecord', 'Hold to record')}
+          </Button>
+          {data.max_recording_seconds && (
+            <p className="text-xs text-blue-700 mt-2">
+              {t('creator.preview.recordingLimit', 'Up to {{count}} seconds', { count: data.max_recording_seconds })}
+            </p>
+          )}
+        </div>
+
+        <div className="mt-3 text-xs text-blue-700">
+          <p>
+            <strong>{t('creator.preview.expectedAnswers', 'Expected answers:')}</strong> {transcripts.join(' / ')}
+          </p>
+          <p className="mt-1">
+            {t('creator.preview.requiredAccuracy', 'Passes with {{percent}}% of the words right', {
+              percent: Math.round((data.min_accuracy ?? 0.8) * 100),
+            })}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 // ============================================================================
 // Main Preview Component
 // ============================================================================
@@ -502,6 +638,10 @@ export const ExercisePreview: React.FC<ExercisePreviewProps> = ({
         return <InformativePreview data={exerciseData} />;
       case 'ordering':
         return <OrderingPreview data={exerciseData} />;
+      case 'listening':
+        return <ListeningPreview data={exerciseData} />;
+      case 'speaking':
+        return <SpeakingPreview data={exerciseData} />;
       default:
         return (
           <div className="text-center py-8 text-gray-500">
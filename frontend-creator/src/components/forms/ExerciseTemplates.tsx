@@ -303,6 +303,61 @@ const EXERCISE_TEMPLATES: Record<ExerciseType, ExerciseTemplate[]> = {
       tags: ['reading', 'sequence', 'intermediate'],
     },
   ],
+  // Listening templates leave the audio empty for the author to attach their own recording
+  listening: [
+    {
+      id: 'listen-and-type',
+      name: 'Listen and Type',
+      description: 'Write down a short phrase heard in a recording',
+      data: {
+        audio: {},
+        answer_mode: 'type',
+        correct_answers: ['Buenos días', 'Buen día'],
+        transcript: 'Buenos días',
+      },
+      tags: ['beginner', 'greetings', 'dictation'],
+    },
+    {
+      id: 'dialogue-comprehension',
+      name: 'Dialogue Comprehension',
+      description: 'Pick the answer to a question asked in a dialogue',
+      data: {
+        audio: {},
+        answer_mode: 'choose',
+        correct_answers: ['A las ocho'],
+        options: ['A las ocho', 'A las nueve', 'A las once', 'A la una'],
+        transcript: '¿A qué hora abre la tienda? Abre a las ocho.',
+        max_plays: 3,
+      },
+      tags: ['dialogue', 'comprehension', 'intermediate'],
+    },
+  ],
+  speaking: [
+    {
+      id: 'greet-aloud',
+      name: 'Greet Aloud',
+      description: 'Say a greeting appropriate for the situation',
+      data: {
+        prompt: 'Greet your teacher when you arrive in the morning',
+        expected_transcripts: ['Buenos días profesor', 'Buenos días profesora'],
+        min_accuracy: 0.8,
+        max_recording_seconds: 10,
+      },
+      tags: ['beginner', 'greetings', 'pronunciation'],
+    },
+    {
+      id: 'read-aloud',
+      name: 'Read Aloud',
+      description: 'Read a sentence from a reading passage out loud',
+      data: {
+        prompt: 'Read the sentence out loud: "Mi familia vive cerca del mar."',
+        expected_transcripts: ['Mi familia vive cerca del mar'],
+        min_accuracy: 0.9,
+        max_recording_seconds: 15,
+      },
+      tags: ['reading', 'pronunciation', 'intermediate'],
+    },
+  ],
 };
 
 // ============================================================================
@@ -10,6 +10,7 @@
  * @since 1.0.0
  */
 
+import { getExerciseDataSchema } from 'wayrapp-shared';
 import { ExerciseType } from '../../utils/types';
 
 // ============================================================================
@@ -110,6 +111,19 @@ const VALIDATION_RULES = {
       minDistractors: 1,
     },
   },
+  listening: {
+    required: ['audio', 'correct_answers'],
+    custom: {
+      minOptions: 2,
+      recommendedOptions: 3,
+    },
+  },
+  speaking: {
+    required: ['prompt', 'expected_transcripts'],
+    custom: {
+      maxTranscriptWords: 25,
+    },
+  },
 };
 
 // ============================================================================
@@ -592,6 +606,94 @@ const validateOrderingExercise = (data: any): ValidationError[] => {
   return errors;
 };
 
+/**
+ * Validates listening exercise data
+ */
+const validateListeningExercise = (data: any): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const rules = VALIDATION_RULES.listening;
+
+  if (!data.audio?.url && !data.audio?.media_id) {
+    errors.push({
+      field: 'audio',
+      message: 'An audio URL or uploaded media ID is required',
+      severity: 'error',
+    });
+  }
+
+  const correctAnswers = (data.correct_answers || []).filter((answer: string) => answer && answer.trim().length > 0);
+  if (correctAnswers.length === 0) {
+    errors.push({
+      field: 'correct_answers',
+      message: 'At least one correct answer is required',
+      severity: 'error',
+    });
+  }
+
+  if (data.answer_mode === 'choose') {
+    const options = (data.options || []).filter((option: string) => option && option.trim().length > 0);
+    if (options.length < rules.custom.minOptions) {
+      errors.push({
+        field: 'options',
+        message: `At least ${rules.custom.minOptions} options are required to choose from`,
+        severity: 'error',
+      });
+    } else if (options.length < rules.custom.recommendedOptions) {
+      errors.push({
+        field: 'options',
+        message: 'Consider adding more distractors so the answer cannot be guessed',
+        severity: 'info',
+      });
+    }
+  }
+
+  if (!data.transcript || data.transcript.trim().length === 0) {
+    errors.push({
+      field: 'transcript',
+      message: 'A transcript helps students check what they heard after answering',
+      severity: 'info',
+    });
+  }
+
+  return errors;
+};
+
+/**
+ * Validates speaking exercise data
+ */
+const validateSpeakingExercise = (data: any): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const rules = VALIDATION_RULES.speaking;
+
+  if (!data.prompt || data.prompt.trim().length === 0) {
+    errors.push({
+      field: 'prompt',
+      message: 'Prompt is required',
+      severity: 'error',
+    });
+  }
+
+  const transcripts = (data.expected_transcripts || []).filter((transcript: string) => transcript && transcript.trim().length > 0);
+  if (transcripts.length === 0) {
+    errors.push({
+      field: 'expected_transcripts',
+      message: 'At least one expected answer is required',
+      severity: 'error',
+    });
+  }
+
+  // Speech recognition makes more mistakes on long answers, which lowers the word accuracy
+  if (transcripts.some((transcript: string) => transcript.trim().split(/\s+/).length > rules.custom.maxTranscriptWords)) {
+    errors.push({
+      field: 'expected_transcripts',
+      message: `Answers longer than ${rules.custom.maxTranscriptWords} words are hard to grade from a recording`,
+      severity: 'warning',
+    });
+  }
+
+  return errors;
+};
+
 /**
  * Validates translation word bank exercise data
  */
@@ -771,6 +873,12 @@ export const validateExerciseData = async (
     case 'ordering':
       errors = validateOrderingExercise(data);
       break;
+    case 'listening':
+      errors = validateListeningExercise(data);
+      break;
+    case 'speaking':
+      errors = validateSpeakingExercise(data);
+      break;
     default:
       errors.push({
         field: 'exerciseType',
@@ -779,6 +887,21 @@ export const validateExerciseData = async (
       });
   }
 
+  // Enforce the shared API schema so anything that passes here is accepted by the server
+  const schemaResult = getExerciseDataSchema(exerciseType)?.safeParse(data);
+  if (schemaResult && !schemaResult.success) {
+    schemaResult.error.issues.forEach(issue => {
+      const field = String(issue.path[0] ?? 'data');
+      if (!errors.some(error => error.field === field && error.severity === 'error')) {
+        errors.push({
+          field,
+          message: issue.message,
+          severity: 'error',
+        });
+      }
+    });
+  }
+
   // Separate errors and warnings
   const actualErrors = errors.filter(e => e.severity === 'error');
   const warnings = errors.filter(e => e.severity === 'warning' || e.severity === 'info');
@@ -858,6 +981,12 @@ const calculateQualityScore = (
     case 'informative':
       if (data.media) score += 10;
       break;
+    case 'listening':
+      if (data.transcript && data.transcript.trim().length > 0) score += 5;
+      break;
+    case 'speaking':
+      if (data.reference_audio) score += 10;
+      break;
   }
 
   return Math.max(0, Math.min(100, score));
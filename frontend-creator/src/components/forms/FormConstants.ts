@@ -49,6 +49,8 @@ export const EXERCISE_TYPE_OPTIONS = [
   { value: 'pairs', label: 'Matching Pairs' },
   { value: 'informative', label: 'Informative' },
   { value: 'ordering', label: 'Ordering' },
+  { value: 'listening', label: 'Listening' },
+  { value: 'speaking', label: 'Speaking' },
 ] as const;
 
 // ============================================================================
@@ -169,6 +171,8 @@ export const EXERCISE_TYPE_DESCRIPTIONS = {
   pairs: 'Students match items from two columns or groups.',
   ordering: 'Students arrange items in the correct sequence or order.',
   informative: 'Informational content with optional media (images, videos, audio).',
+  listening: 'Students listen to an audio clip and type or choose what they hear.',
+  speaking: 'Students record themselves answering a prompt, graded by the transcript of their recording.',
 } as const;
 
 // ============================================================================
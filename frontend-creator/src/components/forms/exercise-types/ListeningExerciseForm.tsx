@@ -0,0 +1,237 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '../../ui/Button';
+
+interface ListeningExerciseFormProps {
+  data: any;
+  onChange: (field: string, value: any) => void;
+  errors?: any;
+}
+
+const MAX_CORRECT_ANSWERS = 10;
+const MAX_OPTIONS = 6;
+
+export const ListeningExerciseForm: React.FC<ListeningExerciseFormProps> = ({
+  data,
+  onChange,
+  errors,
+}) => {
+  const { t } = useTranslation();
+
+  const answerMode = data.answer_mode || 'type';
+  const correctAnswers: string[] = data.correct_answers || [];
+  const options: string[] = data.options || [];
+
+  const handleAudioChange = (field: 'url' | 'media_id', value: string) => {
+    const audio = { ...(data.audio || {}) };
+    if (value.trim()) {
+      audio[field] = value.trim();
+    } else {
+      delete audio[field];
+    }
+    onChange('audio', audio);
+  };
+
+  const handleListAdd = (field: 'correct_answers' | 'options', max: number) => {
+    const values = data[field] || [];
+    if (values.length < max) {
+      onChange(field, [...values, '']);
+    }
+  };
+
+  const handleListChange = (field: 'correct_answers' | 'options', index: number, value: string) => {
+    const values = [...(data[field] || [])];
+    values[index] = value;
+    onChange(field, values);
+  };
+
+  const handleListRemove = (field: 'correct_answers' | 'options', index: number) => {
+    const values = [...(data[field] || [])];
+    values.splice(index, 1);
+    onChange(field, values);
+  };
+
+  const renderList = (
+    field: 'correct_answers' | 'options',
+    values: string[],
+    max: number,
+    placeholder: (index: number) => string
+  ) => (
+    <div className="space-y-2">
+      {values.map((value, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <input
+            type="text"
+            className="input flex-1"
+            value={value}
+            onChange={(e) => handleListChange(field, index, e.target.value)}
+            placeholder={placeholder(index)}
+            maxLength={500}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => handleListRemove(field, index)}
+          >
+            {t('common.buttons.remove', 'Remove')}
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => handleListAdd(field, max)}
+        disabled={values.length >= max}
+      >
+        {field === 'options'
+          ? t('creator.forms.exercise.addOption', 'Add Option')
+          : t('creator.forms.exercise.addCorrectAnswer', 'Add Correct Answer')}
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Audio */}
+      <div className="p-4 border border-neutral-200 rounded-lg bg-neutral-50 space-y-3">
+        <h4 className="font-medium">
+          {t('creator.forms.exercise.audioClip', 'Audio Clip')}
+          <span className="text-error ml-1">*</span>
+        </h4>
+        <div>
+          <label htmlFor="audioUrl" className="block text-sm font-medium text-neutral-700 mb-1">
+            {t('creator.forms.exercise.audioUrl', 'Audio URL')}
+          </label>
+          <input
+            type="url"
+            id="audioUrl"
+            className="input w-full"
+            value={data.audio?.url || ''}
+            onChange={(e) => handleAudioChange('url', e.target.value)}
+            placeholder="https://example.com/audio.mp3"
+          />
+        </div>
+        <div>
+          <label htmlFor="audioMediaId" className="block text-sm font-medium text-neutral-700 mb-1">
+            {t('creator.forms.exercise.audioMediaId', 'Uploaded Media ID')}
+          </label>
+          <input
+            type="text"
+            id="audioMediaId"
+            className="input w-full"
+            value={data.audio?.media_id || ''}
+            onChange={(e) => handleAudioChange('media_id', e.target.value)}
+            placeholder={t('creator.forms.exercise.audioMediaIdPlaceholder', 'ID of an audio file in the media library')}
+          />
+        </div>
+        <p className="text-xs text-neutral-500">
+          {t('creator.forms.exercise.audioSourceHelp', 'Link the audio by URL or use the ID of an audio file uploaded to the media library.')}
+        </p>
+        {errors?.audio && (
+          <p className="text-sm text-error">{errors.audio}</p>
+        )}
+      </div>
+
+      {/* Answer Mode */}
+      <div>
+        <label htmlFor="answerMode" className="block text-sm font-medium text-neutral-700 mb-1">
+          {t('creator.forms.exercise.answerMode', 'How Students Answer')}
+        </label>
+        <select
+          id="answerMode"
+          className="input w-full"
+          value={answerMode}
+          onChange={(e) => onChange('answer_mode', e.target.value)}
+        >
+          <option value="type">
+            {t('creator.forms.exercise.answerModeType', 'Type what they hear')}
+          </option>
+          <option value="choose">
+            {t('creator.forms.exercise.answerModeChoose', 'Choose among options')}
+          </option>
+        </select>
+      </div>
+
+      {/* Correct Answers */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="block text-sm font-medium text-neutral-700">
+            {t('creator.forms.exercise.correctAnswers', 'Correct Answers')}
+            <span className="text-error ml-1">*</span>
+          </label>
+          <span className="text-xs text-gray-500">
+            {correctAnswers.length}/{MAX_CORRECT_ANSWERS}
+          </span>
+        </div>
+        {renderList('correct_answers', correctAnswers, MAX_CORRECT_ANSWERS, (index) =>
+          t('creator.forms.exercise.correctAnswerPlaceholder', 'Accepted answer {{number}}', { number: index + 1 })
+        )}
+        {errors?.correct_answers && (
+          <p className="mt-1 text-sm text-error">{errors.correct_answers}</p>
+        )}
+      </div>
+
+      {/* Options */}
+      {answerMode === 'choose' && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-sm font-medium text-neutral-700">
+              {t('creator.forms.exercise.options', 'Options')}
+              <span className="text-error ml-1">*</span>
+            </label>
+            <span className="text-xs text-gray-500">
+              {options.length}/{MAX_OPTIONS}
+            </span>
+          </div>
+          <p className="text-xs text-neutral-500 mb-2">
+            {t('creator.forms.exercise.optionsHelp', 'Include a correct answer and similar sounding distractors.')}
+          </p>
+          {renderList('options', options, MAX_OPTIONS, (index) =>
+            t('creator.forms.exercise.optionPlaceholder', 'Option {{number}}', { number: index + 1 })
+          )}
+          {errors?.options && (
+            <p className="mt-1 text-sm text-error">{errors.options}</p>
+          )}
+        </div>
+      )}
+
+      {/* Transcript */}
+      <div>
+        <label htmlFor="transcript" className="block text-sm font-medium text-neutral-700 mb-1">
+          {t('creator.forms.exercise.transcript', 'Transcript (Optional)')}
+        </label>
+        <textarea
+          id="transcript"
+          className="input w-full min-h-[80px]"
+          value={data.transcript || ''}
+          onChange={(e) => onChange('transcript', e.target.value)}
+          maxLength={1000}
+          placeholder={t('creator.forms.exercise.transcriptPlaceholder', 'Full text of the audio, shown after answering')}
+        />
+      </div>
+
+      {/* Max Plays */}
+      <div>
+        <label htmlFor="maxPlays" className="block text-sm font-medium text-neutral-700 mb-1">
+          {t('creator.forms.exercise.maxPlays', 'Maximum Plays (Optional)')}
+        </label>
+        <input
+          type="number"
+          id="maxPlays"
+          className="input w-32"
+          min={1}
+          max={10}
+          value={data.max_plays ?? ''}
+          onChange={(e) => onChange('max_plays', e.target.value === '' ? undefined : parseInt(e.target.value, 10))}
+        />
+        {errors?.max_plays && (
+          <p className="mt-1 text-sm text-error">{errors.max_plays}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ListeningExerciseForm;
@@ -0,0 +1,204 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '../../ui/Button';
+
+interface SpeakingExerciseFormProps {
+  data: any;
+  onChange: (field: string, value: any) => void;
+  errors?: any;
+}
+
+const MAX_EXPECTED_TRANSCRIPTS = 10;
+const DEFAULT_MIN_ACCURACY = 0.8;
+
+export const SpeakingExerciseForm: React.FC<SpeakingExerciseFormProps> = ({
+  data,
+  onChange,
+  errors,
+}) => {
+  const { t } = useTranslation();
+
+  const transcripts: string[] = data.expected_transcripts || [];
+
+  const handleTranscriptAdd = () => {
+    if (transcripts.length < MAX_EXPECTED_TRANSCRIPTS) {
+      onChange('expected_transcripts', [...transcripts, '']);
+    }
+  };
+
+  const handleTranscriptChange = (index: number, value: string) => {
+    const updated = [...transcripts];
+    updated[index] = value;
+    onChange('expected_transcripts', updated);
+  };
+
+  const handleTranscriptRemove = (index: number) => {
+    const updated = [...transcripts];
+    updated.splice(index, 1);
+    onChange('expected_transcripts', updated);
+  };
+
+  // The reference audio is optional, so it is removed when both fields are cleared
+  const handleReferenceAudioChange = (field: 'url' | 'media_id', value: string) => {
+    const audio = { ...(data.reference_audio || {}) };
+    if (value.trim()) {
+      audio[field] = value.trim();
+    } else {
+      delete audio[field];
+    }
+    onChange('reference_audio', Object.keys(audio).length > 0 ? audio : undefined);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Prompt */}
+      <div>
+        <label htmlFor="prompt" className="block text-sm font-medium text-neutral-700 mb-1">
+          {t('creator.forms.exercise.prompt', 'Prompt')}
+          <span className="text-error ml-1">*</span>
+        </label>
+        <textarea
+          id="prompt"
+          className="input w-full min-h-[80px]"
+          value={data.prompt || ''}
+          onChange={(e) => onChange('prompt', e.target.value)}
+          maxLength={1000}
+          placeholder={t('creator.forms.exercise.promptPlaceholder', 'What should the student say? e.g. Greet your teacher in the morning')}
+        />
+        {errors?.prompt && (
+          <p className="mt-1 text-sm text-error">{errors.prompt}</p>
+        )}
+      </div>
+
+      {/* Expected Transcripts */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="block text-sm font-medium text-neutral-700">
+            {t('creator.forms.exercise.expectedTranscripts', 'Expected Answers')}
+            <span className="text-error ml-1">*</span>
+          </label>
+          <span className="text-xs text-gray-500">
+            {transcripts.length}/{MAX_EXPECTED_TRANSCRIPTS}
+          </span>
+        </div>
+        <p className="text-xs text-neutral-500 mb-2">
+          {t(
+            'creator.forms.exercise.expectedTranscriptsHelp',
+            'The recording is transcribed on the student device and compared word by word with the closest expected answer.'
+          )}
+        </p>
+        <div className="space-y-2">
+          {transcripts.map((transcript, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <input
+                type="text"
+                className="input flex-1"
+                value={transcript}
+                onChange={(e) => handleTranscriptChange(index, e.target.value)}
+                maxLength={500}
+                placeholder={t('creator.forms.exercise.expectedTranscriptPlaceholder', 'Expected answer {{number}}', { number: index + 1 })}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => handleTranscriptRemove(index)}
+              >
+                {t('common.buttons.remove', 'Remove')}
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={handleTranscriptAdd}
+            disabled={transcripts.length >= MAX_EXPECTED_TRANSCRIPTS}
+          >
+            {t('creator.forms.exercise.addExpectedTranscript', 'Add Expected Answer')}
+          </Button>
+        </div>
+        {errors?.expected_transcripts && (
+          <p className="mt-1 text-sm text-error">{errors.expected_transcripts}</p>
+        )}
+      </div>
+
+      {/* Reference Audio */}
+      <div className="p-4 border border-neutral-200 rounded-lg bg-neutral-50 space-y-3">
+        <h4 className="font-medium">
+          {t('creator.forms.exercise.referenceAudio', 'Reference Pronunciation (Optional)')}
+        </h4>
+        <div>
+          <label htmlFor="referenceAudioUrl" className="block text-sm font-medium text-neutral-700 mb-1">
+            {t('creator.forms.exercise.audioUrl', 'Audio URL')}
+          </label>
+          <input
+            type="url"
+            id="referenceAudioUrl"
+            className="input w-full"
+            value={data.reference_audio?.url || ''}
+            onChange={(e) => handleReferenceAudioChange('url', e.target.value)}
+            placeholder="https://example.com/audio.mp3"
+          />
+        </div>
+        <div>
+          <label htmlFor="referenceAudioMediaId" className="block text-sm font-medium text-neutral-700 mb-1">
+            {t('creator.forms.exercise.audioMediaId', 'Uploaded Media ID')}
+          </label>
+          <input
+            type="text"
+            id="referenceAudioMediaId"
+            className="input w-full"
+            value={data.reference_audio?.media_id || ''}
+            onChange={(e) => handleReferenceAudioChange('media_id', e.target.value)}
+            placeholder={t('creator.forms.exercise.audioMediaIdPlaceholder', 'ID of an audio file in the media library')}
+          />
+        </div>
+        {errors?.reference_audio && (
+          <p className="text-sm text-error">{errors.reference_audio}</p>
+        )}
+      </div>
+
+      {/* Grading */}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="minAccuracy" className="block text-sm font-medium text-neutral-700 mb-1">
+            {t('creator.forms.exercise.minAccuracy', 'Required Accuracy (%)')}
+          </label>
+          <input
+            type="number"
+            id="minAccuracy"
+            className="input w-full"
+            min={50}
+            max={100}
+            step={5}
+            value={Math.round((data.min_accuracy ?? DEFAULT_MIN_ACCURACY) * 100)}
+            onChange={(e) => onChange('min_accuracy', e.target.value === '' ? undefined : parseInt(e.target.value, 10) / 100)}
+          />
+          {errors?.min_accuracy && (
+            <p className="mt-1 text-sm text-error">{errors.min_accuracy}</p>
+          )}
+        </div>
+        <div>
+          <label htmlFor="maxRecordingSeconds" className="block text-sm font-medium text-neutral-700 mb-1">
+            {t('creator.forms.exercise.maxRecordingSeconds', 'Recording Limit (seconds)')}
+          </label>
+          <input
+            type="number"
+            id="maxRecordingSeconds"
+            className="input w-full"
+            min={1}
+            max={120}
+            value={data.max_recording_seconds ?? ''}
+            onChange={(e) => onChange('max_recording_seconds', e.target.value === '' ? undefined : parseInt(e.target.value, 10))}
+          />
+          {errors?.max_recording_seconds && (
+            <p className="mt-1 text-sm text-error">{errors.max_recording_seconds}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SpeakingExerciseForm;
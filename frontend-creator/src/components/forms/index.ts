@@ -21,6 +21,8 @@ export { default as VOFExerciseForm } from './exercise-types/VOFExerciseForm';
 export { default as PairsExerciseForm } from './exercise-types/PairsExerciseForm';
 export { default as InformativeExerciseForm } from './exercise-types/InformativeExerciseForm';
 export { default as OrderingExerciseForm } from './exercise-types/OrderingExerciseForm';
+export { default as ListeningExerciseForm } from './exercise-types/ListeningExerciseForm';
+export { default as SpeakingExerciseForm } from './exercise-types/SpeakingExerciseForm';
 
 // Exercise utilities
 export { default as ExercisePreview } from './ExercisePreview';
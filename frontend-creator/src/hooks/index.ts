@@ -5,6 +5,8 @@ export * from './useSections';
 export * from './useModules';
 export * from './useLessons';
 export * from './useExercises';
+export * from './useAudit';
+export * from './useTrash';
 
 // Export generic CRUD hooks factory
 export * from './useCrudHooks';
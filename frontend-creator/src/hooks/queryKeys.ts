@@ -1,4 +1,4 @@
-import { PaginationParams } from '../utils/types';
+import { AuditLogFilters, CourseAnalyticsFilters, PaginationParams, TrashFilters } from '../utils/types';
 
 /**
  * Centralized query key factory for TanStack Query
@@ -14,6 +14,9 @@ export const queryKeys = {
     detail: (id: string) => [...queryKeys.courses.details(), id] as const,
     packages: () => [...queryKeys.courses.all, 'package'] as const,
     package: (id: string) => [...queryKeys.courses.packages(), id] as const,
+    versions: (id: string) => [...queryKeys.courses.detail(id), 'versions'] as const,
+    versionDiff: (id: string, version: number) => [...queryKeys.courses.versions(id), version, 'diff'] as const,
+    analytics: (id: string, filters: CourseAnalyticsFilters) => [...queryKeys.courses.detail(id), 'analytics', filters] as const,
   },
   
   // Levels
@@ -65,6 +68,20 @@ export const queryKeys = {
     details: () => [...queryKeys.exercises.all, 'detail'] as const,
     detail: (id: string) => [...queryKeys.exercises.details(), id] as const,
   },
+
+  // Audit log
+  audit: {
+    all: ['audit'] as const,
+    lists: () => [...queryKeys.audit.all, 'list'] as const,
+    list: (filters: AuditLogFilters) => [...queryKeys.audit.lists(), filters] as const,
+  },
+
+  // Trash
+  trash: {
+    all: ['trash'] as const,
+    lists: () => [...queryKeys.trash.all, 'list'] as const,
+    list: (filters: TrashFilters) => [...queryKeys.trash.lists(), filters] as const,
+  },
 };
 
 export default queryKeys;
\ No newline at end of file
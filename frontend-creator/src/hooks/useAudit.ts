@@ -0,0 +1,27 @@
+import { useQuery } from '@tanstack/react-query';
+import { auditService } from '../services/auditService';
+import { queryKeys } from './queryKeys';
+import { ApiClientError } from '../services/api';
+import { AuditLogFilters } from '../utils/types';
+
+/**
+ * Hook for fetching audit log entries, newest first
+ * @param filters Pagination and filters on actor, action and entity
+ * @param enabled Whether the query should be enabled (the audit log is admin only)
+ * @returns Query result with the audit entries and pagination metadata
+ */
+export const useAuditLogQuery = (filters: AuditLogFilters, enabled: boolean = true) => {
+  return useQuery({
+    queryKey: queryKeys.audit.list(filters),
+    queryFn: () => auditService.getAuditLog(filters),
+    enabled,
+    staleTime: 30 * 1000, // 30 seconds
+    retry: (failureCount, error: Error) => {
+      // Don't retry on 4xx errors
+      if (error instanceof ApiClientError && error.status >= 400 && error.status < 500) {
+        return false;
+      }
+      return failureCount < 3;
+    },
+  });
+};
@@ -1,9 +1,12 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { courseService } from '../services/courseService';
 import { queryKeys } from './queryKeys';
+import { ApiClientError } from '../services/api';
 import { useApiErrorHandler } from '../contexts/ErrorContext';
 import { 
   Course, 
+  CourseAnalyticsFilters,
+  CourseVersion,
   CreateCourseRequest, 
   UpdateCourseRequest, 
   PaginationParams 
@@ -158,6 +161,112 @@ export const useDeleteCourseMutation = () => {
   });
 };
 
+/**
+ * Hook for fetching the published versions of a course
+ * @param id Course ID
+ * @param enabled Whether the query should be enabled
+ * @returns Query result with the version history, newest first
+ */
+export const useCourseVersionsQuery = (id: string, enabled: boolean = true) => {
+  return useQuery({
+    queryKey: queryKeys.courses.versions(id),
+    queryFn: () => courseService.getCourseVersions(id),
+    enabled: enabled && !!id,
+    staleTime: 60 * 1000, // 1 minute
+  });
+};
+
+/**
+ * Hook for comparing a published version of a course with the current draft
+ * @param id Course ID
+ * @param version Version to compare, or null to skip the query
+ * @returns Query result with the content added, removed or modified since that version
+ */
+export const useCourseVersionDiffQuery = (id: string, version: number | null) => {
+  return useQuery({
+    queryKey: queryKeys.courses.versionDiff(id, version ?? 0),
+    queryFn: () => courseService.getCourseVersionDiff(id, version as number),
+    enabled: !!id && version !== null,
+    // The draft changes with every edit, so always compare against the latest content
+    staleTime: 0,
+  });
+};
+
+/**
+ * Hook for fetching the learner analytics of a course
+ * @param id Course ID, or an empty string to skip the query
+ * @param filters First and last day of the range (YYYY-MM-DD)
+ * @returns Query result with enrollment, daily activity, funnel and score distribution
+ */
+export const useCourseAnalyticsQuery = (id: string, filters: CourseAnalyticsFilters) => {
+  return useQuery({
+    queryKey: queryKeys.courses.analytics(id, filters),
+    queryFn: () => courseService.getCourseAnalytics(id, filters),
+    enabled: !!id,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: (failureCount, error: Error) => {
+      // Don't retry on 4xx errors
+      if (error instanceof ApiClientError && error.status >= 400 && error.status < 500) {
+        return false;
+      }
+      return failureCount < 3;
+    },
+  });
+};
+
+/**
+ * Hook for publishing the current draft of a course
+ * @returns Mutation object with mutate function and states
+ */
+export const usePublishCourseMutation = () => {
+  const queryClient = useQueryClient();
+  const { handleError, handleSuccess } = useApiErrorHandler();
+
+  return useMutation({
+    mutationFn: ({ id, notes }: { id: string; notes?: string }) => courseService.publishCourse(id, notes),
+    onSuccess: (version: CourseVersion) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.courses.versions(version.courseId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.courses.package(version.courseId) });
+
+      handleSuccess(`Version ${version.version} published successfully!`);
+    },
+    onError: (error) => {
+      console.error('Failed to publish course:', error);
+      handleError(error);
+    },
+  });
+};
+
+/**
+ * Hook for rolling a course back to a published version
+ * @returns Mutation object with mutate function and states
+ */
+export const useRollbackCourseVersionMutation = () => {
+  const queryClient = useQueryClient();
+  const { handleError, handleSuccess } = useApiErrorHandler();
+
+  return useMutation({
+    mutationFn: ({ id, version }: { id: string; version: number }) =>
+      courseService.rollbackCourseVersion(id, version),
+    onSuccess: (version: CourseVersion, { version: restoredVersion }) => {
+      // The rollback rewrites the draft, so every cached part of the course is stale
+      queryClient.invalidateQueries({ queryKey: queryKeys.courses.detail(version.courseId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.courses.package(version.courseId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.levels.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.sections.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.modules.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.lessons.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.exercises.all });
+
+      handleSuccess(`Course rolled back to version ${restoredVersion}`);
+    },
+    onError: (error) => {
+      console.error('Failed to roll back course:', error);
+      handleError(error);
+    },
+  });
+};
+
 // Export all hooks for easy importing
 export default {
   useCoursesQuery,
@@ -166,4 +275,9 @@ export default {
   useCreateCourseMutation,
   useUpdateCourseMutation,
   useDeleteCourseMutation,
+  useCourseVersionsQuery,
+  useCourseVersionDiffQuery,
+  useCourseAnalyticsQuery,
+  usePublishCourseMutation,
+  useRollbackCourseVersionMutation,
 };
\ No newline at end of file
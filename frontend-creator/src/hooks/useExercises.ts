@@ -6,7 +6,8 @@ import {
   CreateExerciseRequest, 
   UpdateExerciseRequest, 
   PaginationParams,
-  ExerciseDuplicationOptions
+  ExerciseDuplicationOptions,
+  ExerciseImportRequest
 } from '../utils/types';
 
 /**
@@ -350,6 +351,31 @@ export const useDuplicateExerciseMutation = () => {
   });
 };
 
+/**
+ * Hook for importing exercises from a CSV or TSV file
+ * Dry runs only preview the import, so they leave the cached exercises untouched.
+ * @returns Mutation object with mutate function and states
+ */
+export const useImportExercisesMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ request, dryRun = false }: { request: ExerciseImportRequest; dryRun?: boolean }) =>
+      exerciseService.importExercises(request, dryRun),
+    onSuccess: (result) => {
+      if (result.dryRun) return;
+
+      queryClient.invalidateQueries({ queryKey: queryKeys.exercises.lists() });
+      if (result.lessonId) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.lessons.all });
+      }
+    },
+    onError: (error) => {
+      console.error('Failed to import exercises:', error);
+    },
+  });
+};
+
 // Export all hooks for easy importing
 export default {
   useExercisesQuery,
@@ -363,4 +389,5 @@ export default {
   useExerciseAnalyticsQuery,
   useBatchExerciseUsageQuery,
   useDuplicateExerciseMutation,
+  useImportExercisesMutation,
 };
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { trashService } from '../services/trashService';
+import { queryKeys } from './queryKeys';
+import { ApiClientError } from '../services/api';
+import { useApiErrorHandler } from '../contexts/ErrorContext';
+import { TrashFilters, TrashItem } from '../utils/types';
+
+/**
+ * Hook for fetching trashed content, most recently deleted first
+ * @param filters Pagination and filters on entity type and course
+ * @param enabled Whether the query should be enabled (the trash is admin only)
+ * @returns Query result with the trash entries and pagination metadata
+ */
+export const useTrashQuery = (filters: TrashFilters, enabled: boolean = true) => {
+  return useQuery({
+    queryKey: queryKeys.trash.list(filters),
+    queryFn: () => trashService.getTrash(filters),
+    enabled,
+    staleTime: 30 * 1000, // 30 seconds
+    retry: (failureCount, error: Error) => {
+      // Don't retry on 4xx errors
+      if (error instanceof ApiClientError && error.status >= 400 && error.status < 500) {
+        return false;
+      }
+      return failureCount < 3;
+    },
+  });
+};
+
+/**
+ * Hook for restoring an entry from the trash
+ * @returns Mutation object with mutate function and states
+ */
+export const useRestoreFromTrashMutation = () => {
+  const queryClient = useQueryClient();
+  const { handleError, handleSuccess } = useApiErrorHandler();
+
+  return useMutation({
+    mutationFn: (item: TrashItem) => trashService.restore(item),
+    onSuccess: (_, item) => {
+      // Restoring brings back the content deleted with the entry, so every content list is stale
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.courses.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.levels.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.sections.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.modules.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.lessons.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.exercises.all });
+
+      handleSuccess(`Restored ${item.entityType} ${item.name ?? item.id}`);
+    },
+    onError: (error) => {
+      handleError(error);
+    },
+  });
+};
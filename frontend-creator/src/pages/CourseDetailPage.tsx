@@ -9,7 +9,11 @@ import { PageErrorBoundary } from '../components/error/ErrorBoundaryWrapper';
 import { WithLoading } from '../components/ui/LoadingStateProvider';
 import { LevelsSection } from '../components/content/LevelsSection';
 import { CreateOrEditLevelModal } from '../components/content/CreateOrEditLevelModal';
+import { CourseVersionsPanel } from '../components/content/CourseVersionsPanel';
+import { ActivityPanel } from '../components/content/ActivityPanel';
+import { TrashPanel } from '../components/content/TrashPanel';
 import { useCourseQuery } from '../hooks/useCourses';
+import { useAuth } from '../contexts/AuthContext';
 import { useEnhancedQuery } from '../hooks/useApiOperation';
 import { Level } from '../utils/types';
 
@@ -19,6 +23,9 @@ import { Level } from '../utils/types';
  * - Course header with metadata and edit options
  * - Levels management section with CRUD operations
  * - Modal-based level creation and editing
+ * - Publishing, comparing and rolling back course versions
+ * - Activity log of the course for admins
+ * - Trash of the course content for admins
  * - Breadcrumb navigation handled by Layout component
  */
 const CourseDetailPage: React.FC = () => {
@@ -26,6 +33,7 @@ const CourseDetailPage: React.FC = () => {
   const { courseId } = useParams<{ courseId: string }>();
   const navigate = useNavigate();
   const location = useLocation();
+  const { user } = useAuth();
 
   // Handle navigation state messages (e.g., from course creation)
   const [feedback, setFeedback] = useState<{ type: 'success' | 'error', message: string } | null>(null);
@@ -202,6 +210,31 @@ const CourseDetailPage: React.FC = () => {
                 />
               </div>
             </div>
+
+            {/* Versions */}
+            <div className="lg:col-span-4">
+              <div className="bg-white rounded-lg shadow-sm border border-neutral-200 p-6">
+                <CourseVersionsPanel courseId={course.id} />
+              </div>
+            </div>
+
+            {/* Activity */}
+            {user?.role === 'admin' && (
+              <div className="lg:col-span-4">
+                <div className="bg-white rounded-lg shadow-sm border border-neutral-200 p-6">
+                  <ActivityPanel entityType="course" entityId={course.id} />
+                </div>
+              </div>
+            )}
+
+            {/* Trash */}
+            {user?.role === 'admin' && (
+              <div className="lg:col-span-4">
+                <div className="bg-white rounded-lg shadow-sm border border-neutral-200 p-6">
+                  <TrashPanel courseId={course.id} />
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Level Modal */}
@@ -3,14 +3,17 @@ import { useNavigate } from 'react-router-dom';
 import Layout from '../components/layout/Layout';
 import PageTitle from '../components/layout/PageTitle';
 import { CourseCard } from '../components/content/CourseCard';
+import { TrashPanel } from '../components/content/TrashPanel';
 import { Button } from '../components/ui/Button';
 import { useCoursesQuery, useDeleteCourseMutation } from '../hooks/useCourses';
+import { useAuth } from '../contexts/AuthContext';
 import { Course } from '../utils/types';
 import { useTranslation } from 'react-i18next';
 
 const CoursesPage: React.FC = () => {
   const { t } = useTranslation();
   const navigate = useNavigate();
+  const { user } = useAuth();
   const pageTitle = t('common.navigation.courses');
 
   // State for search and pagination
@@ -241,6 +244,13 @@ const CoursesPage: React.FC = () => {
               )}
             </>
           )}
+
+          {/* Deleted courses */}
+          {user?.role === 'admin' && (
+            <div className="bg-white rounded-lg shadow-sm border border-neutral-200 p-6">
+              <TrashPanel entityType="course" />
+            </div>
+          )}
         </div>
       </Layout>
     </>
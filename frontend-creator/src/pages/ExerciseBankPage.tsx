@@ -1,12 +1,14 @@
 import React, { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { ExerciseBank } from '../components/exercises/ExerciseBank';
+import { ExerciseImportWizard } from '../components/exercises/ExerciseImportWizard';
 import { Exercise } from '../utils/types';
 
 export const ExerciseBankPage: React.FC = () => {
   const { t } = useTranslation();
   const [selectedExercises, setSelectedExercises] = useState<string[]>([]);
   const [selectionMode, setSelectionMode] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
   const handleSelectExercise = (exercise: Exercise) => {
     console.log('Selected exercise:', exercise);
@@ -41,6 +43,13 @@ export const ExerciseBankPage: React.FC = () => {
             </div>
             
             <div className="flex items-center space-x-3">
+              <button
+                type="button"
+                onClick={() => setIsImportOpen(true)}
+                className="px-4 py-2 text-sm font-medium rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                {t('exercises.bank.importFromFile', 'Import from File')}
+              </button>
               <button
                 type="button"
                 onClick={toggleSelectionMode}
@@ -67,6 +76,8 @@ export const ExerciseBankPage: React.FC = () => {
           selectedExercises={selectedExercises}
           onSelectionChange={setSelectedExercises}
         />
+
+        <ExerciseImportWizard isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} />
       </div>
     </div>
   );
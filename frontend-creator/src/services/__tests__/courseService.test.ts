@@ -38,7 +38,7 @@ describe('CourseService', () => {
 
       const result = await courseService.getCourses();
 
-      expect(mockApiClient.get).toHaveBeenCalledWith('/api/v1/courses', { params: undefined });
+      expect(mockApiClient.get).toHaveBeenCalledWith('/api/v1/courses', { params: { accessible: true } });
       expect(result).toEqual(mockPaginatedResponse);
     });
 
@@ -48,7 +48,7 @@ describe('CourseService', () => {
 
       const result = await courseService.getCourses(params);
 
-      expect(mockApiClient.get).toHaveBeenCalledWith('/api/v1/courses', { params });
+      expect(mockApiClient.get).toHaveBeenCalledWith('/api/v1/courses', { params: { accessible: true, ...params } });
       expect(result).toEqual(mockPaginatedResponse);
     });
 
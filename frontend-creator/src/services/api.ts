@@ -77,10 +77,11 @@ class ApiClient {
             }
 
             const response = await this.client.post('/auth/refresh', { refreshToken });
-            const { accessToken } = response.data.data.tokens;
+            const { accessToken, refreshToken: newRefreshToken } = response.data.data.tokens;
 
-            // Update the token in localStorage
+            // Update the tokens in localStorage; refresh tokens are single-use and rotate on every refresh
             localStorage.setItem(STORAGE_KEYS.ACCESS_TOKEN, accessToken);
+            localStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, newRefreshToken);
 
             // Notify all subscribers that the token has been refreshed
             this.refreshSubscribers.forEach((callback) => callback(accessToken));
@@ -211,9 +211,11 @@ class UnifiedApiClient {
             // SECURITY_AUDIT_TODO: Token refresh endpoint should validate the refresh token server-side
             // and implement rate limiting to prevent abuse. Consider adding CSRF protection.
             const response = await this.client.post('/auth/refresh', { refreshToken });
-            const { accessToken } = response.data.data.tokens;
+            const { accessToken, refreshToken: newRefreshToken } = response.data.data.tokens;
 
+            // Refresh tokens are single-use: the server rotates them on every refresh
             localStorage.setItem(STORAGE_KEYS.ACCESS_TOKEN, accessToken);
+            localStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, newRefreshToken);
 
             // Notify all subscribers
             this.refreshSubscribers.forEach((callback) => callback(accessToken));
@@ -0,0 +1,100 @@
+// frontend-creator/src/services/auditService.ts
+import apiClient, { ApiClientError } from './api';
+import { API_ENDPOINTS } from '../utils/constants';
+import { AuditLogEntry, AuditLogFilters, PaginatedResponse } from '../utils/types';
+
+/**
+ * Audit entry as returned by the API
+ */
+interface ApiAuditLogEntry {
+  id: string;
+  actor_id?: string | null;
+  actor_role?: AuditLogEntry['actorRole'];
+  action: string;
+  entity_type: AuditLogEntry['entityType'];
+  entity_id?: string | null;
+  changes?: AuditLogEntry['changes'];
+  ip_address?: string | null;
+  created_at: string;
+}
+
+/**
+ * Response of the audit log API
+ */
+interface AuditLogApiResponse {
+  data?: ApiAuditLogEntry[];
+  pagination?: Partial<PaginatedResponse<AuditLogEntry>['meta']>;
+}
+
+/**
+ * Service class for reading the audit log of content and user administration changes.
+ * The audit log is written by the backend on every change and is only available to admins.
+ */
+class AuditService {
+  /**
+   * Transform an audit entry from API format to frontend format
+   * @private
+   */
+  private transformEntryFromApi(apiEntry: ApiAuditLogEntry): AuditLogEntry {
+    return {
+      id: apiEntry.id,
+      actorId: apiEntry.actor_id ?? null,
+      actorRole: apiEntry.actor_role ?? null,
+      action: apiEntry.action,
+      entityType: apiEntry.entity_type,
+      entityId: apiEntry.entity_id ?? null,
+      changes: apiEntry.changes ?? null,
+      ipAddress: apiEntry.ip_address ?? null,
+      createdAt: apiEntry.created_at,
+    };
+  }
+
+  /**
+   * Get audit entries, newest first
+   * @param filters Pagination and filters on actor, action and entity
+   * @returns Paginated list of audit entries
+   */
+  async getAuditLog(filters: AuditLogFilters = {}): Promise<PaginatedResponse<AuditLogEntry>> {
+    try {
+      const response = await apiClient.get<AuditLogApiResponse>(API_ENDPOINTS.ADMIN.AUDIT, {
+        params: {
+          page: filters.page,
+          limit: filters.limit,
+          actor_id: filters.actorId,
+          action: filters.action,
+          entity_type: filters.entityType,
+          entity_id: filters.entityId,
+        },
+      });
+
+      if (!Array.isArray(response?.data)) {
+        throw new Error('Invalid response format from audit log API');
+      }
+
+      const pagination = response.pagination ?? {};
+      return {
+        data: response.data.map((entry) => this.transformEntryFromApi(entry)),
+        meta: {
+          total: pagination.total ?? response.data.length,
+          page: pagination.page ?? 1,
+          limit: pagination.limit ?? response.data.length,
+          totalPages: pagination.totalPages ?? 1,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof ApiClientError && error.status === 403) {
+        throw new Error('Only administrators can view the activity log');
+      }
+
+      if (error instanceof Error && error.message) {
+        throw error;
+      }
+
+      throw new Error('Failed to fetch activity. Please try again later.');
+    }
+  }
+}
+
+export const auditService = new AuditService();
+
+export default auditService;
@@ -1,14 +1,88 @@
 // frontend-creator/src/services/courseService.ts
-import apiClient from './api';
+import apiClient, { ApiClientError } from './api';
 import { API_ENDPOINTS } from '../utils/constants';
 import {
   Course,
+  CourseAnalytics,
+  CourseAnalyticsFilters,
+  CourseAnalyticsReport,
+  CourseFunnelStep,
+  CourseVersion,
+  CourseVersionDiff,
   CreateCourseRequest,
   UpdateCourseRequest,
   PaginatedResponse,
-  PaginationParams
+  PaginationParams,
+  VersionDiffEntry
 } from '../utils/types';
 
+/**
+ * Course version as returned by the API
+ */
+interface ApiCourseVersion {
+  id: string;
+  course_id: string;
+  version: number;
+  revision: number;
+  notes?: string | null;
+  published_by?: string | null;
+  published_at: string;
+}
+
+/**
+ * Version comparison as returned by the API
+ */
+interface ApiCourseVersionDiff {
+  course_id: string;
+  from: CourseVersionDiff['from'];
+  to: CourseVersionDiff['to'];
+  changes?: Array<{
+    entity_type: VersionDiffEntry['entityType'];
+    entity_id: string;
+    change: VersionDiffEntry['change'];
+    fields?: string[];
+  }>;
+}
+
+/**
+ * Funnel step of the course analytics as returned by the API
+ */
+interface ApiCourseFunnelStep {
+  entity_type: CourseFunnelStep['entityType'];
+  id: string;
+  name: string;
+  parent_id?: string | null;
+  learners_started: number;
+  learners_completed: number;
+  drop_off_rate: number;
+  median_time_seconds?: number | null;
+  average_score?: number | null;
+}
+
+/**
+ * Course analytics as returned by the API
+ */
+interface ApiCourseAnalytics {
+  course_id: string;
+  from: string;
+  to: string;
+  enrollment: {
+    total_learners: number;
+    new_learners: number;
+    active_learners: number;
+  };
+  active_learners?: CourseAnalytics['activeLearners'];
+  funnel?: ApiCourseFunnelStep[];
+  score_distribution?: CourseAnalytics['scoreDistribution'];
+}
+
+/**
+ * Response of the course analytics API
+ */
+interface CourseAnalyticsApiResponse {
+  data: ApiCourseAnalytics;
+}
+
 /**
  * Service class for managing course-related API operations in the language learning platform.
  * 
@@ -92,6 +166,25 @@ class CourseService {
    * @param {CreateCourseRequest | UpdateCourseRequest} courseData - Course data from frontend forms
    * @returns {any} Course data formatted for API consumption
    */
+  /**
+   * Transforms a course version from the snake_case API format to the frontend format.
+   *
+   * @private
+   * @param {ApiCourseVersion} apiVersion - Course version data received from the API
+   * @returns {CourseVersion} Course version formatted for frontend consumption
+   */
+  private transformVersionFromApi(apiVersion: ApiCourseVersion): CourseVersion {
+    return {
+      id: apiVersion.id,
+      courseId: apiVersion.course_id,
+      version: apiVersion.version,
+      revision: apiVersion.revision,
+      notes: apiVersion.notes ?? null,
+      publishedBy: apiVersion.published_by ?? null,
+      publishedAt: apiVersion.published_at,
+    };
+  }
+
   private transformCourseToApi(courseData: CreateCourseRequest | UpdateCourseRequest): any {
     // Currently, our types are aligned with the backend, so no transformation needed
     // This method is here for future use if data transformation becomes necessary
@@ -105,6 +198,9 @@ class CourseService {
    * and filtering by visibility (public/private). The response includes both the
    * course data and pagination metadata for building user interfaces.
    * 
+   * Only the courses the user collaborates on are listed (admins see every course),
+   * unless `accessible: false` is passed.
+   * 
    * @param {PaginationParams} [params] - Optional pagination and filtering parameters
    * @param {number} [params.page=1] - Page number to retrieve (1-based)
    * @param {number} [params.limit=20] - Number of courses per page
@@ -112,6 +208,7 @@ class CourseService {
    * @param {string} [params.sort] - Field to sort by
    * @param {'asc'|'desc'} [params.order] - Sort order
    * @param {boolean} [params.is_public] - Filter by course visibility
+   * @param {boolean} [params.accessible=true] - Only list the courses the user has a role in
    * @returns {Promise<PaginatedResponse<Course>>} Promise resolving to paginated course data
    * @throws {Error} When API request fails or returns invalid data
    * 
@@ -129,7 +226,9 @@ class CourseService {
    */
   async getCourses(params?: PaginationParams): Promise<PaginatedResponse<Course>> {
     try {
-      const response = await apiClient.get<any>(API_ENDPOINTS.COURSES.BASE, { params });
+      const response = await apiClient.get<any>(API_ENDPOINTS.COURSES.BASE, {
+        params: { accessible: true, ...params },
+      });
 
       // Extract data from API response format { data: courses, success: true, timestamp: ... }
       const coursesData = response.data || response;
@@ -503,6 +602,291 @@ class CourseService {
       throw new Error('Failed to fetch course package. Please try again later.');
     }
   }
+  /**
+   * Publishes the current draft of a course as a new immutable version.
+   * 
+   * Edits made in the creator are only delivered to learners once the course is published.
+   * Each publication gets the next version number and can later be compared with the draft
+   * or restored through a rollback.
+   * 
+   * @param {string} id - The unique identifier of the course to publish
+   * @param {string} [notes] - Optional release notes (max 500 characters)
+   * @returns {Promise<CourseVersion>} Promise resolving to the published version
+   * @throws {Error} When course ID is invalid, course not found, permission denied, or API fails
+   * 
+   * @example
+   * const version = await courseService.publishCourse('spanish-basics', 'Added A2 level');
+   * console.log(`Published version ${version.version}`);
+   */
+  async publishCourse(id: string, notes?: string): Promise<CourseVersion> {
+    if (!id || typeof id !== 'string') {
+      throw new Error('Course ID is required and must be a string');
+    }
+
+    try {
+      const response = await apiClient.post<{ data: ApiCourseVersion }>(
+        API_ENDPOINTS.COURSES.PUBLISH(id),
+        notes ? { notes } : {}
+      );
+      return this.transformVersionFromApi(response.data);
+    } catch (error: unknown) {
+
+      if (error instanceof ApiClientError && error.status === 404) {
+        throw new Error(`Course with ID ${id} not found`);
+      }
+
+      if (error instanceof ApiClientError && error.status === 403) {
+        throw new Error('You do not have permission to publish this course');
+      }
+
+      if (error instanceof Error && error.message) {
+        throw error;
+      }
+
+      throw new Error('Failed to publish course. Please try again later.');
+    }
+  }
+
+  /**
+   * Retrieves the published versions of a course, newest first.
+   * 
+   * @param {string} id - The unique identifier of the course
+   * @returns {Promise<CourseVersion[]>} Promise resolving to the version history
+   * @throws {Error} When course ID is invalid, course not found, or API fails
+   */
+  async getCourseVersions(id: string): Promise<CourseVersion[]> {
+    if (!id || typeof id !== 'string') {
+      throw new Error('Course ID is required and must be a string');
+    }
+
+    try {
+      const response = await apiClient.get<{ data: ApiCourseVersion[] }>(API_ENDPOINTS.COURSES.VERSIONS(id));
+      const versionsData = response.data;
+
+      if (!Array.isArray(versionsData)) {
+        throw new Error('Invalid response format from course versions API');
+      }
+
+      return versionsData.map(version => this.transformVersionFromApi(version));
+    } catch (error: unknown) {
+
+      if (error instanceof ApiClientError && error.status === 404) {
+        throw new Error(`Course with ID ${id} not found`);
+      }
+
+      if (error instanceof Error && error.message) {
+        throw error;
+      }
+
+      throw new Error('Failed to fetch course versions. Please try again later.');
+    }
+  }
+
+  /**
+   * Compares a published version with another version, or with the current draft when
+   * no other version is given.
+   * 
+   * @param {string} id - The unique identifier of the course
+   * @param {number} version - Version to compare from
+   * @param {number} [against] - Version to compare to; the current draft when omitted
+   * @returns {Promise<CourseVersionDiff>} Promise resolving to the content added, removed or modified
+   * @throws {Error} When the course or a version is not found, or API fails
+   * 
+   * @example
+   * // What changed in the draft since version 2?
+   * const diff = await courseService.getCourseVersionDiff('spanish-basics', 2);
+   */
+  async getCourseVersionDiff(id: string, version: number, against?: number): Promise<CourseVersionDiff> {
+    if (!id || typeof id !== 'string') {
+      throw new Error('Course ID is required and must be a string');
+    }
+
+    try {
+      const response = await apiClient.get<{ data: ApiCourseVersionDiff }>(API_ENDPOINTS.COURSES.VERSION_DIFF(id, version), {
+        params: against !== undefined ? { against } : undefined,
+      });
+      const diffData = response.data;
+
+      if (!diffData) {
+        throw new Error('Invalid response format from course version diff API');
+      }
+
+      return {
+        courseId: diffData.course_id,
+        from: diffData.from,
+        to: diffData.to,
+        changes: (diffData.changes ?? []).map((change) => ({
+          entityType: change.entity_type,
+          entityId: change.entity_id,
+          change: change.change,
+          fields: change.fields ?? [],
+        })),
+      };
+    } catch (error: unknown) {
+
+      if (error instanceof ApiClientError && error.status === 404) {
+        throw new Error(`Version ${version} of course ${id} not found`);
+      }
+
+      if (error instanceof Error && error.message) {
+        throw error;
+      }
+
+      throw new Error('Failed to compare course versions. Please try again later.');
+    }
+  }
+
+  /**
+   * Restores the draft of a course to a published version and publishes it as a new version.
+   * 
+   * Content created after that version is deleted and content removed since is recreated,
+   * so this should always be confirmed by the user first.
+   * 
+   * @param {string} id - The unique identifier of the course
+   * @param {number} version - Version to roll back to
+   * @returns {Promise<CourseVersion>} Promise resolving to the new version holding the restored content
+   * @throws {Error} When the course or version is not found, permission denied, or API fails
+   */
+  async rollbackCourseVersion(id: string, version: number): Promise<CourseVersion> {
+    if (!id || typeof id !== 'string') {
+      throw new Error('Course ID is required and must be a string');
+    }
+
+    try {
+      const response = await apiClient.post<{ data: ApiCourseVersion }>(API_ENDPOINTS.COURSES.VERSION_ROLLBACK(id, version));
+      return this.transformVersionFromApi(response.data);
+    } catch (error: unknown) {
+
+      if (error instanceof ApiClientError && error.status === 404) {
+        throw new Error(`Version ${version} of course ${id} not found`);
+      }
+
+      if (error instanceof ApiClientError && error.status === 403) {
+        throw new Error('You do not have permission to roll back this course');
+      }
+
+      if (error instanceof Error && error.message) {
+        throw error;
+      }
+
+      throw new Error('Failed to roll back course. Please try again later.');
+    }
+  }
+
+  /**
+   * Retrieves the learner analytics of a course for a range of days.
+   * 
+   * The analytics report enrollment, active learners per day, the drop-off through levels,
+   * sections, modules and lessons, lesson times and the distribution of lesson scores.
+   * Without a range the backend reports the last 30 days.
+   * 
+   * @param {string} id - The unique identifier of the course
+   * @param {CourseAnalyticsFilters} [filters] - First and last day of the range (YYYY-MM-DD)
+   * @returns {Promise<CourseAnalytics>} Promise resolving to the course analytics
+   * @throws {Error} When course ID is invalid, course not found, permission denied, or API fails
+   * 
+   * @example
+   * const analytics = await courseService.getCourseAnalytics('spanish-basics', { from: '2025-01-01', to: '2025-01-31' });
+   * console.log(`${analytics.enrollment.activeLearners} active learners`);
+   */
+  async getCourseAnalytics(id: string, filters: CourseAnalyticsFilters = {}): Promise<CourseAnalytics> {
+    if (!id || typeof id !== 'string') {
+      throw new Error('Course ID is required and must be a string');
+    }
+
+    try {
+      const response = await apiClient.get<CourseAnalyticsApiResponse>(API_ENDPOINTS.COURSES.ANALYTICS(id), {
+        params: { from: filters.from, to: filters.to },
+      });
+      const analyticsData = response.data;
+
+      if (!analyticsData?.enrollment) {
+        throw new Error('Invalid response format from course analytics API');
+      }
+
+      return {
+        courseId: analyticsData.course_id,
+        from: analyticsData.from,
+        to: analyticsData.to,
+        enrollment: {
+          totalLearners: analyticsData.enrollment.total_learners,
+          newLearners: analyticsData.enrollment.new_learners,
+          activeLearners: analyticsData.enrollment.active_learners,
+        },
+        activeLearners: analyticsData.active_learners ?? [],
+        funnel: (analyticsData.funnel ?? []).map((step) => ({
+          entityType: step.entity_type,
+          id: step.id,
+          name: step.name,
+          parentId: step.parent_id ?? null,
+          learnersStarted: step.learners_started,
+          learnersCompleted: step.learners_completed,
+          dropOffRate: step.drop_off_rate,
+          medianTimeSeconds: step.median_time_seconds ?? null,
+          averageScore: step.average_score ?? null,
+        })),
+        scoreDistribution: analyticsData.score_distribution ?? [],
+      };
+    } catch (error: unknown) {
+      if (error instanceof ApiClientError && error.status === 404) {
+        throw new Error(`Course with ID ${id} not found`);
+      }
+
+      if (error instanceof ApiClientError && error.status === 403) {
+        throw new Error('You do not have permission to view the analytics of this course');
+      }
+
+      if (error instanceof Error && error.message) {
+        throw error;
+      }
+
+      throw new Error('Failed to fetch course analytics. Please try again later.');
+    }
+  }
+
+  /**
+   * Exports one table of the learner analytics of a course as CSV.
+   * 
+   * @param {string} id - The unique identifier of the course
+   * @param {CourseAnalyticsReport} report - Table to export: daily activity, funnel or scores
+   * @param {CourseAnalyticsFilters} [filters] - First and last day of the range (YYYY-MM-DD)
+   * @returns {Promise<string>} Promise resolving to the CSV content
+   * @throws {Error} When course ID is invalid, course not found, permission denied, or API fails
+   * 
+   * @example
+   * const csv = await courseService.exportCourseAnalytics('spanish-basics', 'funnel');
+   * const blob = new Blob([csv], { type: 'text/csv' });
+   */
+  async exportCourseAnalytics(
+    id: string,
+    report: CourseAnalyticsReport,
+    filters: CourseAnalyticsFilters = {}
+  ): Promise<string> {
+    if (!id || typeof id !== 'string') {
+      throw new Error('Course ID is required and must be a string');
+    }
+
+    try {
+      return await apiClient.get<string>(API_ENDPOINTS.COURSES.ANALYTICS(id), {
+        params: { from: filters.from, to: filters.to, format: 'csv', report },
+        responseType: 'text',
+      });
+    } catch (error: unknown) {
+      if (error instanceof ApiClientError && error.status === 404) {
+        throw new Error(`Course with ID ${id} not found`);
+      }
+
+      if (error instanceof ApiClientError && error.status === 403) {
+        throw new Error('You do not have permission to view the analytics of this course');
+      }
+
+      if (error instanceof Error && error.message) {
+        throw error;
+      }
+
+      throw new Error('Failed to export course analytics. Please try again later.');
+    }
+  }
 }
 
 /**
@@ -80,10 +80,11 @@ class ErrorRecoveryService {
           // Try to refresh the token
           const response = await apiClient.post('/auth/refresh', { refreshToken });
           const responseData = response as any;
-          const { accessToken } = responseData.data.tokens;
+          const { accessToken, refreshToken: newRefreshToken } = responseData.data.tokens;
 
-          // Update the token in localStorage
+          // Update the tokens in localStorage; refresh tokens are single-use and rotate on every refresh
           localStorage.setItem('access_token', accessToken);
+          localStorage.setItem('refresh_token', newRefreshToken);
 
           return { tokenRefreshed: true };
         } catch (refreshError) {
@@ -9,7 +9,9 @@ import {
   ExerciseUsage,
   ExerciseDeleteImpact,
   ExerciseDuplicationOptions,
-  ExerciseAnalytics
+  ExerciseAnalytics,
+  ExerciseImportRequest,
+  ExerciseImportResult
 } from '../utils/types';
 
 class ExerciseService {
@@ -206,6 +208,48 @@ class ExerciseService {
       throw error;
     }
   }
+
+  /**
+   * Import exercises from a CSV or TSV file
+   * @param request File content, column mapping and optional lesson to append the exercises to
+   * @param dryRun Only validate the rows and preview the exercises, without creating them
+   * @returns Exercises read from the file and the errors found in its rows
+   */
+  async importExercises(request: ExerciseImportRequest, dryRun: boolean = false): Promise<ExerciseImportResult> {
+    try {
+      const response: any = await apiClient.post<any>(
+        API_ENDPOINTS.EXERCISES.IMPORT,
+        {
+          format: request.format,
+          content: request.content,
+          has_header: request.hasHeader,
+          exercise_type: request.exerciseType,
+          mapping: request.mapping,
+          ...(request.lessonId && { lesson_id: request.lessonId }),
+        },
+        { params: dryRun ? { dry_run: true } : undefined }
+      );
+      // Handle wrapped API response format
+      const result: any = response.data || response;
+      return {
+        dryRun: result.dry_run,
+        exerciseType: result.exercise_type,
+        lessonId: result.lesson_id ?? null,
+        totalRows: result.total_rows,
+        exercises: (result.exercises ?? []).map((exercise: any) => ({
+          row: exercise.row,
+          id: exercise.id,
+          exerciseType: exercise.exercise_type,
+          data: exercise.data,
+          ...(exercise.order !== undefined && { order: exercise.order }),
+        })),
+        errors: result.errors ?? [],
+      };
+    } catch (error) {
+      console.error('Failed to import exercises:', error);
+      throw error;
+    }
+  }
 }
 
 // Create and export exercise service instance
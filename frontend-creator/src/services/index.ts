@@ -7,6 +7,8 @@ export { default as sectionService } from './sectionService';
 export { default as moduleService } from './moduleService';
 export { default as lessonService } from './lessonService';
 export { default as exerciseService } from './exerciseService';
+export { default as auditService } from './auditService';
+export { default as trashService } from './trashService';
 
 // Re-export types from api.ts
 export { ApiClientError } from './api';
\ No newline at end of file
@@ -0,0 +1,115 @@
+// frontend-creator/src/services/trashService.ts
+import apiClient, { ApiClientError } from './api';
+import { API_ENDPOINTS } from '../utils/constants';
+import { PaginatedResponse, TrashFilters, TrashItem } from '../utils/types';
+
+/**
+ * Trash entry as returned by the API
+ */
+interface ApiTrashItem {
+  entity_type: TrashItem['entityType'];
+  id: string;
+  name?: string | null;
+  parent_id?: string | null;
+  course_id?: string | null;
+  deleted_at: string;
+  purge_at: string;
+}
+
+/**
+ * Response of the trash API
+ */
+interface TrashApiResponse {
+  data?: ApiTrashItem[];
+  meta?: Partial<PaginatedResponse<TrashItem>['meta']>;
+}
+
+/**
+ * Service class for the trash of deleted course content.
+ * Deleted content stays in the trash until the retention window passes and only admins can
+ * list or restore it.
+ */
+class TrashService {
+  /**
+   * Transform a trash entry from API format to frontend format
+   * @private
+   */
+  private transformItemFromApi(apiItem: ApiTrashItem): TrashItem {
+    return {
+      entityType: apiItem.entity_type,
+      id: apiItem.id,
+      name: apiItem.name ?? null,
+      parentId: apiItem.parent_id ?? null,
+      courseId: apiItem.course_id ?? null,
+      deletedAt: apiItem.deleted_at,
+      purgeAt: apiItem.purge_at,
+    };
+  }
+
+  /**
+   * Get trashed content, most recently deleted first
+   * @param filters Pagination and filters on entity type and course
+   * @returns Paginated list of trash entries
+   */
+  async getTrash(filters: TrashFilters = {}): Promise<PaginatedResponse<TrashItem>> {
+    try {
+      const response = await apiClient.get<TrashApiResponse>(API_ENDPOINTS.TRASH.BASE, {
+        params: {
+          page: filters.page,
+          limit: filters.limit,
+          type: filters.type,
+          course_id: filters.courseId,
+        },
+      });
+
+      if (!Array.isArray(response?.data)) {
+        throw new Error('Invalid response format from trash API');
+      }
+
+      const meta = response.meta ?? {};
+      return {
+        data: response.data.map((item) => this.transformItemFromApi(item)),
+        meta: {
+          total: meta.total ?? response.data.length,
+          page: meta.page ?? 1,
+          limit: meta.limit ?? response.data.length,
+          totalPages: meta.totalPages ?? 1,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof ApiClientError && error.status === 403) {
+        throw new Error('Only administrators can view the trash');
+      }
+
+      if (error instanceof Error && error.message) {
+        throw error;
+      }
+
+      throw new Error('Failed to fetch the trash. Please try again later.');
+    }
+  }
+
+  /**
+   * Restore an entry from the trash together with the content deleted with it
+   * @param item Trash entry to restore
+   */
+  async restore(item: TrashItem): Promise<void> {
+    try {
+      await apiClient.post<unknown>(API_ENDPOINTS.TRASH.RESTORE(item));
+    } catch (error: unknown) {
+      if (error instanceof ApiClientError && error.status === 409) {
+        throw new Error(error.message || 'Restore the parent of this content first');
+      }
+
+      if (error instanceof Error && error.message) {
+        throw error;
+      }
+
+      throw new Error('Failed to restore. Please try again later.');
+    }
+  }
+}
+
+export const trashService = new TrashService();
+
+export default trashService;
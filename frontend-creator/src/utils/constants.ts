@@ -85,6 +85,11 @@ export const API_ENDPOINTS = {
     BASE: '/courses',
     DETAIL: (id: string) => `/courses/${id}`,
     PACKAGE: (id: string) => `/courses/${id}/package`,
+    PUBLISH: (id: string) => `/courses/${id}/publish`,
+    VERSIONS: (id: string) => `/courses/${id}/versions`,
+    VERSION_DIFF: (id: string, version: number) => `/courses/${id}/versions/${version}/diff`,
+    VERSION_ROLLBACK: (id: string, version: number) => `/courses/${id}/versions/${version}/rollback`,
+    ANALYTICS: (id: string) => `/courses/${id}/analytics`,
     LEVELS: (courseId: string) => `/courses/${courseId}/levels`,
   },
   LEVELS: {
@@ -115,11 +120,32 @@ export const API_ENDPOINTS = {
   EXERCISES: {
     BASE: '/exercises',
     DETAIL: (id: string) => `/exercises/${id}`,
+    IMPORT: '/exercises/import',
   },
   PROGRESS: {
     BASE: '/progress',
     USER: '/progress/user',
   },
+  ADMIN: {
+    AUDIT: '/admin/audit',
+  },
+  TRASH: {
+    BASE: '/trash',
+    RESTORE: (item: { entityType: string; id: string; parentId: string | null }) => {
+      switch (item.entityType) {
+        case 'level':
+          return `/courses/${item.parentId}/levels/${item.id}/restore`;
+        case 'section':
+          return `/levels/${item.parentId}/sections/${item.id}/restore`;
+        case 'module':
+          return `/sections/${item.parentId}/modules/${item.id}/restore`;
+        case 'lesson':
+          return `/modules/${item.parentId}/lessons/${item.id}/restore`;
+        default:
+          return `/${item.entityType}s/${item.id}/restore`;
+      }
+    },
+  },
 };
 
 /**
@@ -181,8 +207,72 @@ export const EXERCISE_TYPES = [
   { value: 'pairs', label: 'Pairs' },
   { value: 'informative', label: 'Informative' },
   { value: 'ordering', label: 'Ordering' },
+  { value: 'listening', label: 'Listening' },
+  { value: 'speaking', label: 'Speaking' },
 ];
 
+/**
+ * Exercise fields that spreadsheet columns can be mapped to when importing exercises from a file.
+ * Mirrors the field list of the `POST /exercises/import` endpoint.
+ * 
+ * List fields accept several columns, and their cells can hold several values separated by "|".
+ * Every type also accepts an optional `id` column; rows without one get a generated ID.
+ * 
+ * @constant {Record<string, Array<{field: string, required?: boolean, list?: boolean}>>} EXERCISE_IMPORT_FIELDS
+ * 
+ * @example
+ * // Fields the import wizard asks the author to map
+ * const fields = EXERCISE_IMPORT_FIELDS['translation'];
+ */
+export const EXERCISE_IMPORT_FIELDS: Record<string, Array<{ field: string; required?: boolean; list?: boolean }>> = {
+  translation: [
+    { field: 'source_text', required: true },
+    { field: 'target_text', required: true },
+    { field: 'hints', list: true },
+  ],
+  'translation-word-bank': [
+    { field: 'source_text', required: true },
+    { field: 'target_text', required: true },
+    { field: 'correct_words', required: true, list: true },
+    { field: 'word_bank', required: true, list: true },
+  ],
+  'fill-in-the-blank': [
+    { field: 'text', required: true },
+    { field: 'answers', required: true, list: true },
+  ],
+  vof: [
+    { field: 'statement', required: true },
+    { field: 'is_true', required: true },
+    { field: 'explanation' },
+  ],
+  pairs: [
+    { field: 'left', required: true, list: true },
+    { field: 'right', required: true, list: true },
+  ],
+  informative: [
+    { field: 'title' },
+    { field: 'content', required: true },
+    { field: 'media_type' },
+    { field: 'media_url' },
+    { field: 'media_alt' },
+  ],
+  ordering: [
+    { field: 'items', required: true, list: true },
+  ],
+  listening: [
+    { field: 'audio_url', required: true },
+    { field: 'answer_mode' },
+    { field: 'correct_answers', required: true, list: true },
+    { field: 'options', list: true },
+    { field: 'transcript' },
+  ],
+  speaking: [
+    { field: 'prompt', required: true },
+    { field: 'expected_transcripts', required: true, list: true },
+    { field: 'reference_audio_url' },
+  ],
+};
+
 /**
  * Local storage keys for client-side data persistence.
  * Provides standardized keys for storing user authentication data, preferences,
@@ -220,5 +310,6 @@ export default {
   API_ENDPOINTS,
   MODULE_TYPES,
   EXERCISE_TYPES,
+  EXERCISE_IMPORT_FIELDS,
   STORAGE_KEYS,
 };
\ No newline at end of file
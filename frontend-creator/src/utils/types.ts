@@ -14,6 +14,7 @@ export interface PaginationParams {
   sort?: string;
   order?: 'asc' | 'desc';
   is_public?: boolean;
+  accessible?: boolean;
 }
 
 export interface PaginatedResponse<T> {
@@ -93,6 +94,119 @@ export interface UpdateCourseRequest {
   isPublic?: boolean;
 }
 
+// Course Version Types
+export interface CourseVersion {
+  id: string;
+  courseId: string;
+  version: number;
+  revision: number;
+  notes: string | null;
+  publishedBy: string | null;
+  publishedAt: string;
+}
+
+export interface VersionDiffEntry {
+  entityType: 'course' | 'level' | 'section' | 'module' | 'lesson' | 'exercise';
+  entityId: string;
+  change: 'added' | 'removed' | 'modified';
+  fields: string[];
+}
+
+export interface CourseVersionDiff {
+  courseId: string;
+  from: number;
+  to: number | 'draft';
+  changes: VersionDiffEntry[];
+}
+
+// Course Analytics Types
+export type CourseAnalyticsReport = 'activity' | 'funnel' | 'scores';
+
+export interface CourseAnalyticsFilters {
+  from?: string;
+  to?: string;
+}
+
+export interface CourseFunnelStep {
+  entityType: 'level' | 'section' | 'module' | 'lesson';
+  id: string;
+  name: string;
+  parentId: string | null;
+  learnersStarted: number;
+  learnersCompleted: number;
+  dropOffRate: number;
+  medianTimeSeconds: number | null;
+  averageScore: number | null;
+}
+
+export interface CourseAnalytics {
+  courseId: string;
+  from: string;
+  to: string;
+  enrollment: {
+    totalLearners: number;
+    newLearners: number;
+    activeLearners: number;
+  };
+  activeLearners: Array<{ date: string; learners: number }>;
+  funnel: CourseFunnelStep[];
+  scoreDistribution: Array<{ min: number; max: number; count: number }>;
+}
+
+// Audit Log Types
+export type AuditEntityType =
+  | 'course'
+  | 'level'
+  | 'section'
+  | 'module'
+  | 'lesson'
+  | 'exercise'
+  | 'unlock_rule'
+  | 'course_version'
+  | 'course_collaborator'
+  | 'user';
+
+export interface AuditLogEntry {
+  id: string;
+  actorId: string | null;
+  actorRole: 'student' | 'content_creator' | 'admin' | null;
+  action: string;
+  entityType: AuditEntityType;
+  entityId: string | null;
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+  ipAddress: string | null;
+  createdAt: string;
+}
+
+export interface AuditLogFilters {
+  page?: number;
+  limit?: number;
+  actorId?: string;
+  action?: string;
+  entityType?: AuditEntityType;
+  entityId?: string;
+}
+
+// Trash Types
+export type TrashEntityType = 'course' | 'level' | 'section' | 'module' | 'lesson' | 'exercise';
+
+export interface TrashItem {
+  entityType: TrashEntityType;
+  id: string;
+  name: string | null;
+  parentId: string | null;
+  courseId: string | null;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+export interface TrashFilters {
+  page?: number;
+  limit?: number;
+  type?: TrashEntityType;
+  courseId?: string;
+}
+
 // Level Types
 export interface Level {
   id: string;
@@ -198,7 +312,9 @@ export type ExerciseType =
   | 'vof'
   | 'pairs'
   | 'informative'
-  | 'ordering';
+  | 'ordering'
+  | 'listening'
+  | 'speaking';
 
 export interface Exercise {
   id: string;
@@ -219,6 +335,44 @@ export interface UpdateExerciseRequest {
   data?: Record<string, any>;
 }
 
+// Exercise Import Types
+export type ExerciseImportFormat = 'csv' | 'tsv';
+
+// File columns are referenced by header name, or by position starting at 1
+export type ExerciseImportColumn = string | number;
+
+export interface ExerciseImportRequest {
+  format: ExerciseImportFormat;
+  content: string;
+  hasHeader: boolean;
+  exerciseType: ExerciseType;
+  mapping: Record<string, ExerciseImportColumn | ExerciseImportColumn[]>;
+  lessonId?: string;
+}
+
+export interface ImportedExerciseRow {
+  row: number;
+  id: string;
+  exerciseType: ExerciseType;
+  data: Record<string, any>;
+  order?: number;
+}
+
+export interface ExerciseImportRowError {
+  row: number;
+  field: string;
+  message: string;
+}
+
+export interface ExerciseImportResult {
+  dryRun: boolean;
+  exerciseType: ExerciseType;
+  lessonId: string | null;
+  totalRows: number;
+  exercises: ImportedExerciseRow[];
+  errors: ExerciseImportRowError[];
+}
+
 // Exercise Assignment Types
 export interface ExerciseAssignment {
   id: string;
@@ -281,6 +435,14 @@ export interface ExerciseDuplicationOptions {
   preserveUsage?: boolean;
 }
 
+export type ExerciseQualityFlag = 'too_easy' | 'too_hard' | 'low_discrimination' | 'negative_discrimination';
+
+export interface ExerciseWrongAnswer {
+  answer: Record<string, any>;
+  count: number;
+  percentage: number;
+}
+
 export interface ExerciseAnalytics {
   exerciseId: string;
   usageStats: {
@@ -290,9 +452,16 @@ export interface ExerciseAnalytics {
     averagePosition: number;
   };
   performanceMetrics: {
-    completionRate?: number;
-    averageScore?: number;
-    averageTimeSpent?: number;
+    totalAttempts: number;
+    uniqueLearners: number;
+    completionRate: number;
+    accuracy: number;
+    firstAttemptAccuracy: number;
+    averageScore: number;
+    averageTimeSpent: number | null;
+    discriminationIndex: number | null;
+    commonWrongAnswers: ExerciseWrongAnswer[];
+    flags: ExerciseQualityFlag[];
   };
   trends: {
     weeklyUsage: Array<{ week: string; count: number }>;
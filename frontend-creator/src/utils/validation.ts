@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { ListeningDataSchema, SpeakingDataSchema } from 'wayrapp-shared';
 
 // Enhanced validation utilities
 export const createFieldValidator = (fieldName: string) => ({
@@ -254,6 +255,10 @@ export const getExerciseDataSchema = (exerciseType: string) => {
       return orderingExerciseDataSchema;
     case 'informative':
       return informativeExerciseDataSchema;
+    case 'listening':
+      return ListeningDataSchema;
+    case 'speaking':
+      return SpeakingDataSchema;
     default:
       return z.record(z.unknown());
   }
@@ -268,7 +273,9 @@ export const exerciseSchema = z.object({
     'vof',
     'pairs',
     'informative',
-    'ordering'
+    'ordering',
+    'listening',
+    'speaking'
   ]),
   data: z.record(z.unknown()),
 }).refine((data) => {
@@ -11,6 +11,7 @@
  */
 
 import { z } from 'zod';
+import { ListeningDataSchema, SpeakingDataSchema } from 'wayrapp-shared';
 import { FIELD_CONSTRAINTS, VALIDATION_PATTERNS } from '../../components/forms/FormConstants';
 
 // ============================================================================
@@ -311,7 +312,7 @@ const baseExerciseSchema = z.object({
         .regex(VALIDATION_PATTERNS.ID_PATTERN, 'Exercise ID can only contain lowercase letters, numbers, and hyphens')
         .refine(val => !val.startsWith('-') && !val.endsWith('-'), 'Exercise ID cannot start or end with a hyphen'),
 
-    exerciseType: z.enum(['translation', 'fill-in-the-blank', 'vof', 'pairs', 'informative', 'ordering'], {
+    exerciseType: z.enum(['translation', 'fill-in-the-blank', 'vof', 'pairs', 'informative', 'ordering', 'listening', 'speaking'], {
         errorMap: () => ({ message: 'Please select a valid exercise type' }),
     }),
 
@@ -322,6 +323,9 @@ const baseExerciseSchema = z.object({
         pairsExerciseDataSchema,
         informativeExerciseDataSchema,
         orderingExerciseDataSchema,
+        // Audio exercise types use the API data format shared with the backend
+        ListeningDataSchema,
+        SpeakingDataSchema,
     ]),
 
     createdAt: z.date().optional(),
@@ -347,6 +351,10 @@ export const exerciseSchema = baseExerciseSchema.refine(
                 return informativeExerciseDataSchema.safeParse(data.data).success;
             case 'ordering':
                 return orderingExerciseDataSchema.safeParse(data.data).success;
+            case 'listening':
+                return ListeningDataSchema.safeParse(data.data).success;
+            case 'speaking':
+                return SpeakingDataSchema.safeParse(data.data).success;
             default:
                 return false;
         }
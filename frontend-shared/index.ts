@@ -2,4 +2,5 @@
 // This file will contain shared types, utilities, and components
 
 export * from './types';
-export * from './utils';
\ No newline at end of file
+export * from './utils';
+export * from './schemas';
\ No newline at end of file
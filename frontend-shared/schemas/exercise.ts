@@ -0,0 +1,368 @@
+// frontend-shared/schemas/exercise.ts
+
+/**
+ * Type-specific exercise data schemas shared by the WayrApp frontend applications.
+ *
+ * The backend re-exports these schemas from `src/shared/schemas/exercise.schemas.ts` and
+ * enforces them on exercise create, update and duplicate requests, so an exercise that passes
+ * client-side validation in the creator app is accepted by the API. They describe the API
+ * format (snake_case fields, dash-separated exercise types).
+ *
+ * @module ExerciseSchemas
+ * @category Schemas
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * import { getExerciseDataSchema } from 'wayrapp-shared';
+ *
+ * const result = getExerciseDataSchema('pairs')?.safeParse(formData);
+ * if (result && !result.success) {
+ *   result.error.issues.forEach(issue => console.log(issue.path.join('.'), issue.message));
+ * }
+ */
+
+import { z } from 'zod';
+
+const requiredText = (field: string, max: number) =>
+  z
+    .string({ required_error: `${field} is required`, invalid_type_error: `${field} must be a string` })
+    .trim()
+    .min(1, `${field} is required`)
+    .max(max, `${field} must be ${max} characters or less`);
+
+/**
+ * Translation exercise data: translate source_text into target_text with optional hints
+ */
+export const TranslationDataSchema = z
+  .object({
+    source_text: requiredText('Source text', 1000),
+    target_text: requiredText('Target text', 1000),
+    hints: z.array(requiredText('Hint', 200)).max(5, 'Maximum 5 hints allowed').optional(),
+  })
+  .passthrough();
+
+/**
+ * Translation word bank exercise data: build target_text from a bank of words with distractors
+ */
+export const TranslationWordBankDataSchema = z
+  .object({
+    source_text: requiredText('Source text', 1000),
+    target_text: requiredText('Target text', 1000),
+    correct_words: z
+      .array(requiredText('Correct word', 100))
+      .min(1, 'At least one correct word is required'),
+    word_bank: z
+      .array(requiredText('Word bank word', 100))
+      .min(1, 'At least one word is required in the word bank'),
+  })
+  .passthrough()
+  .superRefine((data, ctx) => {
+    const bank = data.word_bank.map(word => word.toLowerCase());
+    const missingWords = data.correct_words.filter(word => !bank.includes(word.toLowerCase()));
+    if (missingWords.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['word_bank'],
+        message: `Correct words not found in word bank: ${missingWords.join(', ')}`,
+      });
+    }
+    if (data.word_bank.length <= data.correct_words.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['word_bank'],
+        message: 'Word bank must include distractor words in addition to the correct words',
+      });
+    }
+  });
+
+/**
+ * Fill-in-the-blank exercise data: text with blanks, each accepting one or more answers
+ */
+export const FillInTheBlankDataSchema = z
+  .object({
+    text: requiredText('Text', 1000),
+    blanks: z
+      .array(
+        z
+          .object({
+            position: z
+              .number({ required_error: 'Blank position is required' })
+              .int('Blank position must be an integer')
+              .min(0, 'Blank position cannot be negative'),
+            correct_answers: z
+              .array(requiredText('Correct answer', 200))
+              .min(1, 'At least one correct answer is required'),
+            hints: z.array(requiredText('Hint', 200)).optional(),
+          })
+          .passthrough()
+      )
+      .min(1, 'At least one blank is required')
+      .max(10, 'Maximum 10 blanks allowed'),
+  })
+  .passthrough();
+
+/**
+ * True/false (vof) exercise data: a statement and whether it is true
+ */
+export const VofDataSchema = z
+  .object({
+    statement: requiredText('Statement', 1000),
+    is_true: z.boolean({
+      required_error: 'is_true is required',
+      invalid_type_error: 'is_true must be a boolean',
+    }),
+    explanation: z.string().max(500, 'Explanation must be 500 characters or less').optional(),
+  })
+  .passthrough();
+
+/**
+ * Pairs exercise data: items to match between a left and a right column
+ */
+export const PairsDataSchema = z
+  .object({
+    pairs: z
+      .array(
+        z
+          .object({
+            left: requiredText('Left item', 200),
+            right: requiredText('Right item', 200),
+          })
+          .passthrough()
+      )
+      .min(2, 'At least 2 pairs are required'),
+  })
+  .passthrough();
+
+/**
+ * Informative exercise data: content shown to the learner with optional media, either linked by
+ * URL or uploaded to the media library and referenced by media_id
+ */
+export const InformativeDataSchema = z
+  .object({
+    title: z.string().max(200, 'Title must be 200 characters or less').optional(),
+    content: requiredText('Content', 5000),
+    media: z
+      .object({
+        type: z.enum(['image', 'video', 'audio'], {
+          errorMap: () => ({ message: 'Media type must be image, video or audio' }),
+        }),
+        url: z.string().url('Invalid media URL format').optional(),
+        media_id: z.string().uuid('Invalid media ID format').optional(),
+        alt: z.string().max(200, 'Alt text must be 200 characters or less').optional(),
+      })
+      .passthrough()
+      .refine(media => media.url !== undefined || media.media_id !== undefined, {
+        message: 'Media requires a url or an uploaded media_id',
+        path: ['url'],
+      })
+      .optional(),
+  })
+  .passthrough();
+
+/**
+ * Ordering exercise data: items whose correct_order values form the sequence 1..n
+ */
+export const OrderingDataSchema = z
+  .object({
+    items: z
+      .array(
+        z
+          .object({
+            id: z.string().optional(),
+            text: requiredText('Item text', 500),
+            correct_order: z
+              .number({ required_error: 'correct_order is required' })
+              .int('correct_order must be an integer')
+              .min(1, 'correct_order must start from 1'),
+          })
+          .passthrough()
+      )
+      .min(2, 'At least 2 items are required'),
+  })
+  .passthrough()
+  .superRefine((data, ctx) => {
+    const orders = data.items.map(item => item.correct_order).sort((a, b) => a - b);
+    if (orders.some((order, index) => order !== index + 1)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['items'],
+        message: 'correct_order values must form a sequence starting from 1',
+      });
+    }
+  });
+
+/**
+ * Audio clip of an exercise, either uploaded to the media library and referenced by media_id or
+ * linked by URL
+ */
+export const AudioSourceSchema = z
+  .object({
+    media_id: z.string().uuid('Invalid media ID format').optional(),
+    url: z.string().url('Invalid audio URL format').optional(),
+  })
+  .passthrough()
+  .refine(audio => audio.url !== undefined || audio.media_id !== undefined, {
+    message: 'Audio requires a url or an uploaded media_id',
+    path: ['url'],
+  });
+
+/**
+ * Listening exercise data: an audio prompt whose content the learner types or picks among options
+ */
+export const ListeningDataSchema = z
+  .object({
+    audio: AudioSourceSchema,
+    answer_mode: z.enum(['type', 'choose'], {
+      errorMap: () => ({ message: 'Answer mode must be type or choose' }),
+    }),
+    correct_answers: z
+      .array(requiredText('Correct answer', 500))
+      .min(1, 'At least one correct answer is required')
+      .max(10, 'Maximum 10 correct answers allowed'),
+    options: z.array(requiredText('Option', 500)).max(6, 'Maximum 6 options allowed').optional(),
+    transcript: z.string().max(1000, 'Transcript must be 1000 characters or less').optional(),
+    max_plays: z
+      .number()
+      .int('max_plays must be an integer')
+      .min(1, 'max_plays must be at least 1')
+      .max(10, 'max_plays must be 10 or less')
+      .optional(),
+  })
+  .passthrough()
+  .superRefine((data, ctx) => {
+    if (data.answer_mode !== 'choose') {
+      return;
+    }
+    const options = data.options ?? [];
+    if (options.length < 2) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['options'],
+        message: 'At least 2 options are required to choose from',
+      });
+      return;
+    }
+    const lowerOptions = options.map(option => option.toLowerCase());
+    if (!data.correct_answers.some(answer => lowerOptions.includes(answer.toLowerCase()))) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['options'],
+        message: 'Options must include a correct answer',
+      });
+    }
+  });
+
+/**
+ * Speaking exercise data: a prompt the learner answers by recording themselves. The client
+ * transcribes the recording and the transcript is graded against the expected transcripts.
+ */
+export const SpeakingDataSchema = z
+  .object({
+    prompt: requiredText('Prompt', 1000),
+    expected_transcripts: z
+      .array(requiredText('Expected transcript', 500))
+      .min(1, 'At least one expected transcript is required')
+      .max(10, 'Maximum 10 expected transcripts allowed'),
+    reference_audio: AudioSourceSchema.optional(),
+    min_accuracy: z
+      .number()
+      .min(0.5, 'min_accuracy must be at least 0.5')
+      .max(1, 'min_accuracy must be 1 or less')
+      .optional(),
+    max_recording_seconds: z
+      .number()
+      .int('max_recording_seconds must be an integer')
+      .min(1, 'max_recording_seconds must be at least 1')
+      .max(120, 'max_recording_seconds must be 120 or less')
+      .optional(),
+  })
+  .passthrough();
+
+/**
+ * Data schema for each exercise type, keyed by the API exercise type name
+ */
+export const EXERCISE_DATA_SCHEMAS = {
+  translation: TranslationDataSchema,
+  'translation-word-bank': TranslationWordBankDataSchema,
+  'fill-in-the-blank': FillInTheBlankDataSchema,
+  vof: VofDataSchema,
+  pairs: PairsDataSchema,
+  informative: InformativeDataSchema,
+  ordering: OrderingDataSchema,
+  listening: ListeningDataSchema,
+  speaking: SpeakingDataSchema,
+} as const;
+
+export type ExerciseDataType = keyof typeof EXERCISE_DATA_SCHEMAS;
+
+/**
+ * Discriminated union of `{ exercise_type, data }` pairs, one member per exercise type
+ */
+export const ExerciseDataUnionSchema = z.discriminatedUnion('exercise_type', [
+  z.object({ exercise_type: z.literal('translation'), data: TranslationDataSchema }),
+  z.object({ exercise_type: z.literal('translation-word-bank'), data: TranslationWordBankDataSchema }),
+  z.object({ exercise_type: z.literal('fill-in-the-blank'), data: FillInTheBlankDataSchema }),
+  z.object({ exercise_type: z.literal('vof'), data: VofDataSchema }),
+  z.object({ exercise_type: z.literal('pairs'), data: PairsDataSchema }),
+  z.object({ exercise_type: z.literal('informative'), data: InformativeDataSchema }),
+  z.object({ exercise_type: z.literal('ordering'), data: OrderingDataSchema }),
+  z.object({ exercise_type: z.literal('listening'), data: ListeningDataSchema }),
+  z.object({ exercise_type: z.literal('speaking'), data: SpeakingDataSchema }),
+]);
+
+/**
+ * Returns the data schema for an exercise type.
+ *
+ * Accepts both the API format (`fill-in-the-blank`) and the database enum format
+ * (`fill_in_the_blank`), since services receive either depending on the call site.
+ *
+ * @param {string} exerciseType - Exercise type in API or database format
+ * @returns {z.ZodTypeAny | undefined} The matching data schema, or undefined for unknown types
+ */
+export const getExerciseDataSchema = (exerciseType: string): z.ZodTypeAny | undefined =>
+  EXERCISE_DATA_SCHEMAS[exerciseType.replace(/_/g, '-') as ExerciseDataType];
+
+/**
+ * Validates exercise data against the schema for its exercise type.
+ *
+ * Issues are reported with paths relative to the exercise payload (`data.pairs.0.left`) so
+ * the global error handler returns the same field-level details as the `validate` middleware.
+ *
+ * @param {string} exerciseType - Exercise type in API or database format
+ * @param {unknown} data - Exercise data to validate
+ * @returns {void}
+ * @throws {ZodError} When the exercise type is unknown or the data does not match its schema
+ */
+export const assertExerciseData = (exerciseType: string, data: unknown): void => {
+  const schema = getExerciseDataSchema(exerciseType);
+  if (!schema) {
+    throw new z.ZodError([
+      {
+        code: z.ZodIssueCode.custom,
+        path: ['exercise_type'],
+        message: `Unknown exercise type: ${exerciseType}`,
+      },
+    ]);
+  }
+
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new z.ZodError(
+      result.error.issues.map(issue => ({ ...issue, path: ['data', ...issue.path] }))
+    );
+  }
+};
+
+// Type exports
+export type TranslationData = z.infer<typeof TranslationDataSchema>;
+export type TranslationWordBankData = z.infer<typeof TranslationWordBankDataSchema>;
+export type FillInTheBlankData = z.infer<typeof FillInTheBlankDataSchema>;
+export type VofData = z.infer<typeof VofDataSchema>;
+export type PairsData = z.infer<typeof PairsDataSchema>;
+export type InformativeData = z.infer<typeof InformativeDataSchema>;
+export type OrderingData = z.infer<typeof OrderingDataSchema>;
+export type AudioSource = z.infer<typeof AudioSourceSchema>;
+export type ListeningData = z.infer<typeof ListeningDataSchema>;
+export type SpeakingData = z.infer<typeof SpeakingDataSchema>;
+export type ExerciseDataUnion = z.infer<typeof ExerciseDataUnionSchema>;
@@ -0,0 +1,2 @@
+// Shared validation schemas
+export * from './exercise';
@@ -26,6 +26,8 @@ module.exports = {
   setupFilesAfterEnv: ['<rootDir>/src/shared/test/setup.ts'],
 
   moduleNameMapper: {
-    '^@/(.*)$': '<rootDir>/src/$1'
+    '^@/(.*)$': '<rootDir>/src/$1',
+    // Test against the shared schema sources instead of the package build
+    '^wayrapp-shared/schemas$': '<rootDir>/frontend-shared/schemas/index.ts'
   }
 };
\ No newline at end of file
@@ -33,7 +33,9 @@ module.exports = {
   ],
   setupFilesAfterEnv: ['<rootDir>/src/shared/test/setup.ts'],
   moduleNameMapper: {
-    '^@/(.*)$': '<rootDir>/src/$1'
+    '^@/(.*)$': '<rootDir>/src/$1',
+    // Test against the shared schema sources instead of the package build
+    '^wayrapp-shared/schemas$': '<rootDir>/frontend-shared/schemas/index.ts'
   },
   testTimeout: 30000, // Longer timeout for integration tests
   forceExit: true,
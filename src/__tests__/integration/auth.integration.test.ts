@@ -10,6 +10,7 @@ import app from "../../app";
 import { prisma } from "../../shared/database/connection";
 import { UserFactory } from "../../shared/test/factories/userFactory";
 import bcrypt from "bcryptjs";
+import { hashToken } from "../../shared/utils/auth";
 
 describe("Authentication Integration Tests", () => {
   const API_BASE = "/api/v1";
@@ -407,11 +408,11 @@ describe("Authentication Integration Tests", () => {
       expect(response.body.success).toBe(true);
       expect(response.body.data.message).toContain("logged out");
 
-      // Verify token is revoked
-      const revokedToken = await prisma.revokedToken.findFirst({
-        where: { token: refreshToken },
+      // Verify the session of the token is revoked
+      const session = await prisma.userSession.findFirst({
+        where: { refreshTokens: { some: { tokenHash: hashToken(refreshToken) } } },
       });
-      expect(revokedToken).toBeTruthy();
+      expect(session?.revokedAt).toBeTruthy();
     });
 
     it("should require authentication for logout", async () => {
@@ -717,6 +717,12 @@ describe('Content Management Integration Tests', () => {
         }
       });
 
+      const { authToken: adminToken } = await TestFactory.createUser({ role: 'admin' });
+      await request(app)
+        .post(`${API_BASE}/courses/${packagedCourse.id}/publish`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(201);
+
       // EXECUTE
       const response = await request(app)
         .get(`${API_BASE}/courses/${packagedCourse.id}/package`)
@@ -772,6 +778,12 @@ describe('Content Management Integration Tests', () => {
         }
       });
 
+      const { authToken: adminToken } = await TestFactory.createUser({ role: 'admin' });
+      await request(app)
+        .post(`${API_BASE}/courses/${packagedCourse.id}/publish`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(201);
+
       // EXECUTE
       const response = await request(app)
         .get(`${API_BASE}/courses/${packagedCourse.id}/package`)
@@ -780,6 +792,22 @@ describe('Content Management Integration Tests', () => {
       // ASSERT
       expect(response.body.data).toHaveProperty('package_version');
       expect(response.body.data.package_version).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/);
+      expect(response.body.data.version).toBe(1);
+    });
+
+    it('should not deliver draft content before the course is published', async () => {
+      // SETUP: Create fresh, isolated data for this test
+      const draftCourse = await TestFactory.prisma.course.create({
+        data: CourseFactory.build({
+          id: 'test-package-3',
+          name: 'Draft Course'
+        })
+      });
+
+      // EXECUTE & ASSERT
+      await request(app)
+        .get(`${API_BASE}/courses/${draftCourse.id}/package`)
+        .expect(404);
     });
   });
 
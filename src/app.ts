@@ -147,6 +147,8 @@ import {
   createExerciseRoutes,
 } from "@/modules/content/routes";
 import { createProgressRoutes } from "@/modules/progress/routes/progressRoutes";
+import { createAuditRoutes } from "@/modules/audit/routes/auditRoutes";
+import { createMediaRoutes } from "@/modules/media/routes/mediaRoutes";
 import { prisma } from "@/shared/database/connection";
 
 // Import dependencies for DI container
@@ -155,6 +157,14 @@ import { AuthController } from '@/modules/users/controllers/authController';
 import { UserService } from '@/modules/users/services/userService';
 import { UserRepository } from '@/modules/users/repositories/userRepository';
 import { TokenBlacklistService } from '@/modules/users/services/tokenBlacklistService';
+import { AuthTokenService } from '@/modules/users/services/authTokenService';
+import { AccountService } from '@/modules/users/services/accountService';
+import { mailTransport } from '@/shared/utils/mailer';
+import { UserIdentityRepository } from '@/modules/users/repositories/userIdentityRepository';
+import { OidcLoginService } from '@/modules/users/services/oidcLoginService';
+import { loadOidcProviders } from '@/shared/utils/oidcClient';
+import { SessionService } from '@/modules/users/services/sessionService';
+import { TwoFactorService } from '@/modules/users/services/twoFactorService';
 
 // --- DEPENDENCY INJECTION CONTAINER ---
 const prismaClient = new PrismaClient();
@@ -162,8 +172,14 @@ const prismaClient = new PrismaClient();
 // User Module Dependencies
 const userRepository = new UserRepository(prismaClient);
 const tokenBlacklistService = new TokenBlacklistService(prismaClient);
+const authTokenService = new AuthTokenService(prismaClient);
 const userService = new UserService(userRepository);
-const authController = new AuthController(userService, tokenBlacklistService);
+const accountService = new AccountService(userRepository, authTokenService, mailTransport);
+const userIdentityRepository = new UserIdentityRepository(prismaClient);
+const oidcLoginService = new OidcLoginService(prismaClient, userRepository, userIdentityRepository, loadOidcProviders());
+const sessionService = new SessionService(prismaClient);
+const twoFactorService = new TwoFactorService(prismaClient, authTokenService);
+const authController = new AuthController(userService, tokenBlacklistService, accountService, oidcLoginService, sessionService, twoFactorService);
 
 // ... (Instantiate other modules' dependencies here in the future)
 
@@ -185,6 +201,7 @@ app.get("/api", (_req, res) => {
       courses: `${API_BASE}/courses`,
       exercises: `${API_BASE}/exercises`,
       progress: `${API_BASE}/progress`,
+      media: `${API_BASE}/media`,
     },
   });
 });
@@ -754,6 +771,12 @@ app.use(API_BASE, createExerciseRoutes(prisma));
 // Progress routes
 app.use(API_BASE, createProgressRoutes(prisma));
 
+// Media routes
+app.use(API_BASE, createMediaRoutes(prisma));
+
+// Admin routes
+app.use(`${API_BASE}/admin`, createAuditRoutes(prisma));
+
 // Detailed documentation endpoints
 app.get("/api/docs/overview", (_req, res) => {
   res.json({
@@ -1231,6 +1254,8 @@ app.get("/api/docs/packaged-content", (_req, res) => {
     features: {
       single_request: "Complete course with all nested content in one request",
       versioning: "Last-modified timestamps for update checking",
+      publishing: "Only the latest published version of a course is delivered; draft edits stay private until published",
+      delta_sync: "Only the content changed since a course revision, with tombstones for deletions",
       caching: "15-minute in-memory cache with automatic invalidation",
       http_caching: "Proper cache headers for client-side caching",
     },
@@ -1245,14 +1270,28 @@ app.get("/api/docs/packaged-content", (_req, res) => {
       response_304: "Returns 304 Not Modified if content unchanged",
       response_200: "Returns full package if content updated",
     },
+    incremental_sync: {
+      path: `${API_BASE}/courses/:id/package/changes?since=<revision>`,
+      description: "Created, updated and deleted content since the revision of a previously downloaded package",
+      tombstones: "Deleted entities are listed in `deleted`; deleting a parent removes its children",
+    },
+    publishing: {
+      publish: `POST ${API_BASE}/courses/:id/publish`,
+      versions: `GET ${API_BASE}/courses/:id/versions`,
+      diff: `GET ${API_BASE}/courses/:id/versions/:version/diff?against=<version>`,
+      rollback: `POST ${API_BASE}/courses/:id/versions/:version/rollback`,
+      authentication: "Content creator or admin",
+    },
     response_structure: {
       course: "Complete course information",
       levels: "Array of levels with nested sections, modules, lessons",
-      package_version: "Timestamp of most recent content update",
+      package_version: "Publication timestamp of the delivered version",
+      revision: "Course revision the delivered version was published at",
+      version: "Published version number",
     },
     caching_strategy: {
       ttl: "15 minutes for packaged courses",
-      invalidation: "Automatic when any content in hierarchy changes",
+      invalidation: "Automatic when a course is published or any content in hierarchy changes",
       memory_management: "Periodic cleanup of expired entries",
     },
     performance: {
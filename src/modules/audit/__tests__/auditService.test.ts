@@ -0,0 +1,122 @@
+/**
+ * Audit Service Tests
+ * Unit tests for recording audit entries, snapshot diffs and the audit log query
+ */
+
+import { AuditService, diffSnapshots } from '../services/auditService';
+import { AuditRepository } from '../repositories/auditRepository';
+import { AuditQuerySchema } from '../types';
+
+const mockAuditRepository = {
+  create: jest.fn(),
+  findMany: jest.fn(),
+  findSnapshot: jest.fn(),
+} as unknown as jest.Mocked<AuditRepository>;
+
+describe('AuditService', () => {
+  let auditService: AuditService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    auditService = new AuditService(mockAuditRepository);
+  });
+
+  describe('diffSnapshots', () => {
+    it('should list changed fields and ignore updatedAt', () => {
+      const changes = diffSnapshots(
+        { id: 'lesson-1', experiencePoints: 10, order: 1, updatedAt: '2024-01-01T00:00:00.000Z' },
+        { id: 'lesson-1', experiencePoints: 20, order: 1, updatedAt: '2024-01-02T00:00:00.000Z' }
+      );
+
+      expect(changes).toEqual({ experiencePoints: { from: 10, to: 20 } });
+    });
+
+    it('should compare nested values as a whole', () => {
+      const changes = diffSnapshots(
+        { levels: [{ id: 'a', order: 1 }, { id: 'b', order: 2 }] },
+        { levels: [{ id: 'b', order: 1 }, { id: 'a', order: 2 }] }
+      );
+
+      expect(changes['levels']).toEqual({
+        from: [{ id: 'a', order: 1 }, { id: 'b', order: 2 }],
+        to: [{ id: 'b', order: 1 }, { id: 'a', order: 2 }],
+      });
+    });
+
+    it('should report every field of created and deleted entities', () => {
+      expect(diffSnapshots(null, { id: 'x', name: 'New' })).toEqual({
+        id: { from: null, to: 'x' },
+        name: { from: null, to: 'New' },
+      });
+      expect(diffSnapshots({ id: 'x' }, null)).toEqual({ id: { from: 'x', to: null } });
+    });
+  });
+
+  describe('record', () => {
+    it('should store the actor, the snapshots and their diff', async () => {
+      await auditService.record({
+        actor_id: 'user-1',
+        actor_role: 'content_creator',
+        action: 'update',
+        entity_type: 'course',
+        entity_id: 'course-1',
+        before: { name: 'Old' },
+        after: { name: 'New' },
+        ip_address: '203.0.113.7',
+      });
+
+      expect(mockAuditRepository.create).toHaveBeenCalledWith({
+        actorId: 'user-1',
+        actorRole: 'content_creator',
+        action: 'update',
+        entityType: 'course',
+        entityId: 'course-1',
+        before: { name: 'Old' },
+        after: { name: 'New' },
+        changes: { name: { from: 'Old', to: 'New' } },
+        ipAddress: '203.0.113.7',
+      });
+    });
+
+    it('should not store changes when no snapshot was taken', async () => {
+      await auditService.record({ action: 'follow', entity_type: 'user', entity_id: 'user-2' });
+
+      expect(mockAuditRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        actorId: null,
+        before: null,
+        after: null,
+        changes: null,
+      }));
+    });
+  });
+
+  describe('getEntries', () => {
+    it('should pass the filters to the repository and paginate the result', async () => {
+      mockAuditRepository.findMany.mockResolvedValue({ entries: [], total: 120 });
+      const query = AuditQuerySchema.parse({ page: '2', entity_type: 'lesson', entity_id: 'lesson-1' });
+
+      const result = await auditService.getEntries(query);
+
+      expect(mockAuditRepository.findMany).toHaveBeenCalledWith({ entity_type: 'lesson', entity_id: 'lesson-1' }, 2, 50);
+      expect(result.pagination).toEqual({
+        page: 2,
+        limit: 50,
+        total: 120,
+        totalPages: 3,
+        hasNext: true,
+        hasPrev: true,
+      });
+    });
+  });
+
+  describe('AuditQuerySchema', () => {
+    it('should reject time ranges that end before they start', () => {
+      const result = AuditQuerySchema.safeParse({
+        from: '2024-02-01T00:00:00Z',
+        to: '2024-01-01T00:00:00Z',
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+});
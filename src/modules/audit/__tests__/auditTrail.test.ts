@@ -0,0 +1,142 @@
+/**
+ * Audit Trail Middleware Tests
+ * Unit tests for snapshotting entities around mutating requests and recording audit entries
+ */
+
+import { EventEmitter } from 'events';
+import { Response } from 'express';
+import { createAuditMiddleware } from '../middleware/auditTrail';
+import { AuditService } from '../services/auditService';
+import { mockAuthRequest, mockRequest, mockResponse } from '@/shared/test/mocks';
+
+jest.mock('../services/auditService');
+jest.mock('@/shared/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const mockAuditService = {
+  record: jest.fn(),
+  snapshot: jest.fn(),
+} as unknown as jest.Mocked<AuditService>;
+
+(AuditService as jest.MockedClass<typeof AuditService>).mockImplementation(() => mockAuditService);
+
+const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('audit middleware', () => {
+  const audit = createAuditMiddleware({} as any);
+  const next = jest.fn();
+
+  const createResponse = (statusCode = 200): Response =>
+    Object.assign(new EventEmitter(), mockResponse(), { statusCode }) as unknown as Response;
+
+  const respond = async (res: Response, body: unknown) => {
+    res.json(body);
+    res.emit('finish');
+    await flushPromises();
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should record the entity before and after a successful update', async () => {
+    mockAuditService.snapshot
+      .mockResolvedValueOnce({ id: 'lesson-1', experiencePoints: 10 })
+      .mockResolvedValueOnce({ id: 'lesson-1', experiencePoints: 20 });
+    const req = mockAuthRequest({ id: 'user-1', role: 'content_creator' }, { params: { id: 'lesson-1' } });
+    const res = createResponse();
+
+    await audit('update', 'lesson')(req, res, next);
+    expect(next).toHaveBeenCalledWith();
+    await respond(res, { success: true, data: { id: 'lesson-1' } });
+
+    expect(mockAuditService.snapshot).toHaveBeenCalledWith('lesson', 'lesson-1');
+    expect(mockAuditService.record).toHaveBeenCalledWith({
+      actor_id: 'user-1',
+      actor_role: 'content_creator',
+      action: 'update',
+      entity_type: 'lesson',
+      entity_id: 'lesson-1',
+      before: { id: 'lesson-1', experiencePoints: 10 },
+      after: { id: 'lesson-1', experiencePoints: 20 },
+      ip_address: '127.0.0.1',
+    });
+  });
+
+  it('should take the ID of created entities from the response data', async () => {
+    mockAuditService.snapshot.mockResolvedValue({ id: 'course-1' });
+    const res = createResponse(201);
+
+    await audit('create', 'course')(mockAuthRequest(), res, next);
+    await respond(res, { success: true, data: { id: 'course-1' } });
+
+    expect(mockAuditService.snapshot).toHaveBeenCalledTimes(1);
+    expect(mockAuditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      entity_id: 'course-1',
+      before: null,
+      after: { id: 'course-1' },
+    }));
+  });
+
+  it('should use the entity ID resolver of the route', async () => {
+    const res = createResponse();
+
+    await audit('reorder', 'course', { entityId: (req) => req.params['courseId'] })(
+      mockRequest({ params: { courseId: 'course-1' } }),
+      res,
+      next
+    );
+    await respond(res, { success: true });
+
+    expect(mockAuditService.snapshot).toHaveBeenCalledWith('course', 'course-1');
+    expect(mockAuditService.record).toHaveBeenCalledWith(expect.objectContaining({ entity_id: 'course-1' }));
+  });
+
+  it('should skip snapshots when disabled', async () => {
+    const res = createResponse();
+
+    await audit('follow', 'user', { snapshot: false })(mockRequest({ params: { id: 'user-2' } }), res, next);
+    await respond(res, { success: true });
+
+    expect(mockAuditService.snapshot).not.toHaveBeenCalled();
+    expect(mockAuditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      entity_id: 'user-2',
+      before: null,
+      after: null,
+    }));
+  });
+
+  it('should not record requests the route skips', async () => {
+    const res = createResponse();
+    const req = mockRequest({ query: { dry_run: 'true' } });
+
+    await audit('import', 'course', { skip: (request) => request.query['dry_run'] === 'true' })(req, res, next);
+    await respond(res, { success: true, data: { course_id: 'course-1' } });
+
+    expect(next).toHaveBeenCalled();
+    expect(mockAuditService.snapshot).not.toHaveBeenCalled();
+    expect(mockAuditService.record).not.toHaveBeenCalled();
+  });
+
+  it('should not record failed requests', async () => {
+    const res = createResponse(404);
+
+    await audit('delete', 'level')(mockRequest({ params: { id: 'missing' } }), res, next);
+    await respond(res, { success: false });
+
+    expect(mockAuditService.record).not.toHaveBeenCalled();
+  });
+
+  it('should not fail the request when the snapshot cannot be loaded', async () => {
+    mockAuditService.snapshot.mockRejectedValue(new Error('connection lost'));
+
+    await audit('update', 'module')(mockRequest({ params: { id: 'module-1' } }), createResponse(), next);
+
+    expect(next).toHaveBeenCalledWith();
+  });
+});
@@ -0,0 +1,78 @@
+// src/modules/audit/controllers/auditController.ts
+
+/**
+ * HTTP API controller for the audit log.
+ *
+ * This controller exposes the audit log of content and user administration changes to
+ * administrators. It handles request/response concerns only; entries are written by the audit
+ * trail middleware and listed by the AuditService layer.
+ *
+ * @module AuditController
+ * @category Audit
+ * @category Controllers
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const auditService = new AuditService(auditRepository);
+ * const auditController = new AuditController(auditService);
+ *
+ * router.get('/admin/audit', auditController.getEntries);
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { AuditService } from '../services/auditService';
+import { AuditQuery } from '../types';
+import { HttpStatus } from '@/shared/types';
+
+/**
+ * HTTP API controller for audit log operations.
+ *
+ * @class AuditController
+ */
+export class AuditController {
+  /**
+   * Creates an instance of AuditController.
+   *
+   * @param {AuditService} auditService - Service layer for the audit log
+   */
+  constructor(private auditService: AuditService) {}
+
+  /**
+   * Lists audit entries newest first.
+   *
+   * Handles GET /api/admin/audit endpoint. Requires the admin role.
+   *
+   * @param {Request} req - Express request object with page, limit, actor_id, action, entity_type, entity_id, from and to query parameters
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function for error handling
+   * @returns {Promise<void>} Promise that resolves when response is sent
+   *
+   * @example
+   * // GET /api/admin/audit?entity_type=lesson&entity_id=lesson-1
+   * // Response format:
+   * {
+   *   "success": true,
+   *   "data": [{
+   *     "action": "update",
+   *     "entity_type": "lesson",
+   *     "entity_id": "lesson-1",
+   *     "changes": { "experiencePoints": { "from": 10, "to": 20 } }
+   *   }],
+   *   "pagination": { "page": 1, "limit": 50, "total": 1, "totalPages": 1, "hasNext": false, "hasPrev": false }
+   * }
+   */
+  getEntries = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await this.auditService.getEntries(req.query as unknown as AuditQuery);
+
+      res.status(HttpStatus.OK).json({
+        success: true,
+        data: result.data,
+        pagination: result.pagination,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,119 @@
+// src/modules/audit/middleware/auditTrail.ts
+
+/**
+ * Audit trail middleware for mutating routes.
+ *
+ * `audit(action, entityType)` is placed right before the route handler. It snapshots the entity
+ * before the handler runs, captures the response body, and once a successful response has been
+ * sent it snapshots the entity again and appends an entry to the audit log (see AuditService). The
+ * entity ID comes from `req.params.id` or, for created entities, from the `id` of the response
+ * data; routes addressing another entity pass their own `entityId` resolver.
+ *
+ * Auditing never fails a request: errors while loading snapshots or storing the entry are logged
+ * and the response is left untouched. Failed requests (status 400 and above) are not recorded, nor
+ * are requests a route marks as changing nothing with `skip`.
+ *
+ * @module AuditTrailMiddleware
+ * @category Middleware
+ * @category Audit
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const audit = createAuditMiddleware(prisma);
+ *
+ * router.put('/courses/:id',
+ *   authenticateToken,
+ *   requireRole(['admin', 'content_creator']),
+ *   validate({ params: CourseParamSchema, body: UpdateCourseSchema }),
+ *   requireCourseRole('editor'),
+ *   audit('update', 'course'),
+ *   contentController.updateCourse
+ * );
+ *
+ * // Reordering levels changes the course they belong to
+ * audit('reorder', 'course', { entityId: (req) => req.params['courseId'] })
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { AuditService } from '../services/auditService';
+import { AuditRepository } from '../repositories/auditRepository';
+import { AuditEntityType, AuditSnapshot } from '../types';
+import { logger } from '@/shared/utils/logger';
+
+export interface AuditOptions {
+  /**
+   * Resolves the audited entity. Called before the handler without response data and after a
+   * successful response with it.
+   */
+  entityId?: (req: Request, data?: any) => string | undefined;
+  /** Whether to store before/after snapshots of the entity (defaults to true) */
+  snapshot?: boolean;
+  /** Leaves out successful requests that changed nothing, such as dry runs */
+  skip?: (req: Request) => boolean;
+}
+
+const defaultEntityId = (req: Request, data?: any): string | undefined =>
+  req.params['id'] ?? (typeof data?.id === 'string' ? data.id : undefined);
+
+/**
+ * Creates the `audit` middleware factory bound to a database client.
+ *
+ * @param {PrismaClient} prisma - Prisma database client
+ * @returns {(action: string, entityType: AuditEntityType, options?: AuditOptions) => RequestHandler} Factory of audit middleware
+ */
+export const createAuditMiddleware = (prisma: PrismaClient) => {
+  const auditService = new AuditService(new AuditRepository(prisma));
+
+  return (action: string, entityType: AuditEntityType, options: AuditOptions = {}): RequestHandler => {
+    const resolveEntityId = options.entityId ?? defaultEntityId;
+    const withSnapshots = options.snapshot ?? true;
+
+    const takeSnapshot = async (entityId: string | undefined): Promise<AuditSnapshot | null> =>
+      withSnapshots && entityId ? await auditService.snapshot(entityType, entityId) : null;
+
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      if (options.skip?.(req)) {
+        next();
+        return;
+      }
+
+      let before: AuditSnapshot | null = null;
+      try {
+        before = await takeSnapshot(resolveEntityId(req));
+      } catch (error) {
+        logger.error('Failed to load audit snapshot', { action, entityType, error });
+      }
+
+      let responseData: any;
+      const json = res.json.bind(res);
+      res.json = (body?: any) => {
+        responseData = body?.data;
+        return json(body);
+      };
+
+      res.on('finish', async () => {
+        if (res.statusCode >= 400) return;
+
+        try {
+          const entityId = resolveEntityId(req, responseData);
+          await auditService.record({
+            actor_id: req.user?.sub,
+            actor_role: req.user?.role,
+            action,
+            entity_type: entityType,
+            entity_id: entityId,
+            before,
+            after: await takeSnapshot(entityId),
+            ip_address: req.ip,
+          });
+        } catch (error) {
+          logger.error('Failed to record audit entry', { action, entityType, error });
+        }
+      });
+
+      next();
+    };
+  };
+};
@@ -0,0 +1,2 @@
+export { createAuditMiddleware } from './auditTrail';
+export type { AuditOptions } from './auditTrail';
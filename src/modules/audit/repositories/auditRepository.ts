@@ -0,0 +1,160 @@
+// src/modules/audit/repositories/auditRepository.ts
+
+/**
+ * Data access layer for the audit log using Prisma ORM.
+ *
+ * Audit entries are only ever inserted (`audit_logs` is append-only), and listed newest first with
+ * filters on actor, action, entity and time range. The repository also loads the snapshots the
+ * audit trail compares: the database row of an entity, with the order of its children for the
+ * content hierarchy so that reorders show up as changes of the parent. Secrets such as password
+ * hashes never enter a snapshot.
+ *
+ * @module AuditRepository
+ * @category Audit
+ * @category Repositories
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const auditRepository = new AuditRepository(prisma);
+ *
+ * const before = await auditRepository.findSnapshot("lesson", "lesson-1");
+ * const { entries, total } = await auditRepository.findMany({ entity_type: "lesson" }, 1, 50);
+ */
+
+import { Prisma, PrismaClient, Role } from "@prisma/client";
+import {
+  AuditChanges,
+  AuditEntityType,
+  AuditLogEntry,
+  AuditLogFilters,
+  AuditSnapshot,
+} from "../types";
+
+const childOrder = {
+  where: { deletedAt: null },
+  select: { id: true, order: true },
+  orderBy: { order: "asc" },
+} as const;
+
+const toJson = (value: object | null) =>
+  value === null ? Prisma.DbNull : (value as unknown as Prisma.InputJsonValue);
+
+export class AuditRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(data: {
+    actorId: string | null;
+    actorRole: Role | null;
+    action: string;
+    entityType: AuditEntityType;
+    entityId: string | null;
+    before: AuditSnapshot | null;
+    after: AuditSnapshot | null;
+    changes: AuditChanges | null;
+    ipAddress: string | null;
+  }): Promise<void> {
+    await this.prisma.auditLog.create({
+      data: {
+        ...data,
+        before: toJson(data.before),
+        after: toJson(data.after),
+        changes: toJson(data.changes),
+      },
+    });
+  }
+
+  async findMany(
+    filters: AuditLogFilters,
+    page: number,
+    limit: number,
+  ): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const where: Prisma.AuditLogWhereInput = {
+      ...(filters.actor_id && { actorId: filters.actor_id }),
+      ...(filters.action && { action: filters.action }),
+      ...(filters.entity_type && { entityType: filters.entity_type }),
+      ...(filters.entity_id && { entityId: filters.entity_id }),
+      ...((filters.from || filters.to) && {
+        createdAt: {
+          ...(filters.from && { gte: filters.from }),
+          ...(filters.to && { lte: filters.to }),
+        },
+      }),
+    };
+
+    const [entries, total] = await Promise.all([
+      this.prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.auditLog.count({ where }),
+    ]);
+
+    return {
+      entries: entries.map((entry) => ({
+        id: entry.id,
+        actor_id: entry.actorId,
+        actor_role: entry.actorRole,
+        action: entry.action,
+        entity_type: entry.entityType as AuditEntityType,
+        entity_id: entry.entityId,
+        before: entry.before as AuditSnapshot | null,
+        after: entry.after as AuditSnapshot | null,
+        changes: entry.changes as unknown as AuditChanges | null,
+        ip_address: entry.ipAddress,
+        created_at: entry.createdAt,
+      })),
+      total,
+    };
+  }
+
+  /**
+   * Loads the current state of an entity, or null when it does not exist.
+   * Course collaborators are identified as `courseId:userId`.
+   */
+  async findSnapshot(entityType: AuditEntityType, entityId: string): Promise<AuditSnapshot | null> {
+    const row = await this.findRow(entityType, entityId);
+    return row ? (JSON.parse(JSON.stringify(row)) as AuditSnapshot) : null;
+  }
+
+  private async findRow(entityType: AuditEntityType, id: string): Promise<object | null> {
+    switch (entityType) {
+      case "course":
+        return await this.prisma.course.findUnique({ where: { id }, include: { levels: childOrder } });
+      case "level":
+        return await this.prisma.level.findUnique({ where: { id }, include: { sections: childOrder } });
+      case "section":
+        return await this.prisma.section.findUnique({ where: { id }, include: { modules: childOrder } });
+      case "module":
+        return await this.prisma.module.findUnique({ where: { id }, include: { lessons: childOrder } });
+      case "lesson":
+        return await this.prisma.lesson.findUnique({
+          where: { id },
+          include: {
+            exercises: {
+              where: { exercise: { deletedAt: null } },
+              select: { exerciseId: true, order: true },
+              orderBy: { order: "asc" },
+            },
+          },
+        });
+      case "exercise":
+        return await this.prisma.exercise.findUnique({ where: { id } });
+      case "unlock_rule":
+        return await this.prisma.unlockRule.findUnique({ where: { id } });
+      case "course_version":
+        return await this.prisma.courseVersion.findUnique({ where: { id }, omit: { snapshot: true } });
+      case "course_collaborator": {
+        const [courseId, userId] = id.split(":");
+        if (!courseId || !userId) return null;
+        return await this.prisma.courseCollaborator.findUnique({ where: { courseId_userId: { courseId, userId } } });
+      }
+      case "user":
+        return await this.prisma.user.findUnique({ where: { id }, omit: { passwordHash: true } });
+      case "media":
+        return await this.prisma.mediaAsset.findUnique({ where: { id } });
+    }
+  }
+}
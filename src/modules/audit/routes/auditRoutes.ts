@@ -0,0 +1,147 @@
+// src/modules/audit/routes/auditRoutes.ts
+
+/**
+ * Express routing configuration for the audit log.
+ *
+ * The audit log records every change made through the content and user administration routes:
+ * who made it, with which role and from which address, what action was taken on which entity,
+ * and the state of the entity before and after the change. Entries are written by the audit trail
+ * middleware placed on those routes; this module only exposes them to administrators.
+ *
+ * @module AuditRoutes
+ * @category Audit
+ * @category Routes
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * // Mount audit routes in main application
+ * import { createAuditRoutes } from '@/modules/audit/routes/auditRoutes';
+ * import { prisma } from '@/shared/database/connection';
+ *
+ * app.use('/api/v1/admin', createAuditRoutes(prisma));
+ *
+ * @example
+ * // Available audit endpoints:
+ * // GET /api/v1/admin/audit - List audit entries with filters (admin only)
+ */
+
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { AuditController } from '../controllers/auditController';
+import { AuditService } from '../services/auditService';
+import { AuditRepository } from '../repositories/auditRepository';
+import { AuditQuerySchema } from '../types';
+import { authenticateToken, requireRole } from '@/shared/middleware/auth';
+import { validate } from '@/shared/middleware/validation';
+
+/**
+ * Creates an Express router with the audit log routes.
+ *
+ * @param {PrismaClient} prisma - Prisma database client instance
+ * @returns {Router} Configured Express router with the audit log endpoints
+ */
+export function createAuditRoutes(prisma: PrismaClient): Router {
+  const router = Router();
+
+  const auditRepository = new AuditRepository(prisma);
+  const auditService = new AuditService(auditRepository);
+  const auditController = new AuditController(auditService);
+
+  /**
+   * @swagger
+   * /api/v1/admin/audit:
+   *   get:
+   *     tags:
+   *       - Audit
+   *       - Admin
+   *     summary: List audit log entries
+   *     description: List changes made through the content and user administration routes, newest first. Each entry names the actor, the action and the entity, and holds snapshots of the entity before and after the change together with the changed fields. Password hashes are never stored. Failed requests are not recorded.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: page
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           default: 1
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *           default: 50
+   *       - in: query
+   *         name: actor_id
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: Only changes made by this user
+   *       - in: query
+   *         name: action
+   *         schema:
+   *           type: string
+   *         description: Only this action (e.g. create, update, delete, reorder, publish)
+   *         example: "update"
+   *       - in: query
+   *         name: entity_type
+   *         schema:
+   *           type: string
+   *           enum: [course, level, section, module, lesson, exercise, unlock_rule, course_version, course_collaborator, user, media]
+   *         description: Only changes to this kind of entity
+   *       - in: query
+   *         name: entity_id
+   *         schema:
+   *           type: string
+   *         description: Only changes to this entity. Course collaborators are identified as courseId:userId.
+   *         example: "spanish-101"
+   *       - in: query
+   *         name: from
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *         description: Only changes made at or after this time
+   *       - in: query
+   *         name: to
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *         description: Only changes made at or before this time
+   *     responses:
+   *       200:
+   *         description: Audit entries retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/AuditLogEntry'
+   *                 pagination:
+   *                   $ref: '#/components/schemas/PaginationInfo'
+   *       400:
+   *         description: Invalid query parameters
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       403:
+   *         description: Admin role required
+   */
+  router.get(
+    '/audit',
+    authenticateToken,
+    requireRole('admin'),
+    validate({ query: AuditQuerySchema }),
+    auditController.getEntries
+  );
+
+  return router;
+}
+
+export default createAuditRoutes;
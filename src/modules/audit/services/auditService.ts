@@ -0,0 +1,138 @@
+// src/modules/audit/services/auditService.ts
+
+/**
+ * Audit log service for content and user administration changes.
+ *
+ * Every mutating content and user route records who did what to which entity, together with the
+ * state of the entity before and after the change. The service stores those entries and computes
+ * the field-level diff between both snapshots, so the activity of a course or a user can be read
+ * without comparing whole documents. Timestamps maintained by the database (`updatedAt`) are left
+ * out of the diff. Entries are never updated or deleted; administrators query them newest first.
+ *
+ * @module AuditService
+ * @category Audit
+ * @category Services
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const auditService = new AuditService(new AuditRepository(prisma));
+ *
+ * await auditService.record({
+ *   actor_id: 'user-123',
+ *   actor_role: 'content_creator',
+ *   action: 'update',
+ *   entity_type: 'lesson',
+ *   entity_id: 'lesson-1',
+ *   before: { id: 'lesson-1', experiencePoints: 10 },
+ *   after: { id: 'lesson-1', experiencePoints: 20 },
+ * });
+ *
+ * const page = await auditService.getEntries({ page: 1, limit: 50, entity_type: 'lesson' });
+ */
+
+import { AuditRepository } from "../repositories/auditRepository";
+import {
+  AuditChanges,
+  AuditEntityType,
+  AuditLogEntry,
+  AuditQuery,
+  AuditRecordInput,
+  AuditSnapshot,
+} from "../types";
+import { PaginatedResult } from "@/shared/types";
+import { createPaginationResult } from "@/shared/utils/repositoryHelpers";
+
+const IGNORED_FIELDS = new Set(["updatedAt"]);
+
+/**
+ * Compares two snapshots field by field.
+ *
+ * Nested values (such as child order lists or exercise data) are compared as a whole.
+ *
+ * @param {AuditSnapshot | null} before - State before the change, null for created entities
+ * @param {AuditSnapshot | null} after - State after the change, null for deleted entities
+ * @returns {AuditChanges} Changed fields with their old and new values
+ */
+export function diffSnapshots(
+  before: AuditSnapshot | null,
+  after: AuditSnapshot | null,
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Business logic layer for the audit log.
+ *
+ * @class AuditService
+ */
+export class AuditService {
+  /**
+   * Creates an instance of AuditService.
+   *
+   * @param {AuditRepository} auditRepository - Repository for audit entries and entity snapshots
+   */
+  constructor(private auditRepository: AuditRepository) {}
+
+  /**
+   * Appends an entry to the audit log.
+   *
+   * Changes are only stored when at least one snapshot is known.
+   *
+   * @param {AuditRecordInput} input - Actor, action, entity and snapshots of the change
+   * @returns {Promise<void>} Promise that resolves once the entry is stored
+   */
+  async record(input: AuditRecordInput): Promise<void> {
+    const before = input.before ?? null;
+    const after = input.after ?? null;
+
+    await this.auditRepository.create({
+      actorId: input.actor_id ?? null,
+      actorRole: input.actor_role ?? null,
+      action: input.action,
+      entityType: input.entity_type,
+      entityId: input.entity_id ?? null,
+      before,
+      after,
+      changes: before || after ? diffSnapshots(before, after) : null,
+      ipAddress: input.ip_address ?? null,
+    });
+  }
+
+  /**
+   * Loads the current state of an entity for a later comparison.
+   *
+   * @param {AuditEntityType} entityType - Type of the entity
+   * @param {string} entityId - Entity ID (`courseId:userId` for course collaborators)
+   * @returns {Promise<AuditSnapshot | null>} Snapshot, or null when the entity does not exist
+   */
+  async snapshot(entityType: AuditEntityType, entityId: string): Promise<AuditSnapshot | null> {
+    return await this.auditRepository.findSnapshot(entityType, entityId);
+  }
+
+  /**
+   * Lists audit entries newest first.
+   *
+   * @param {AuditQuery} query - Pagination and filters on actor, action, entity and time range
+   * @returns {Promise<PaginatedResult<AuditLogEntry>>} Page of audit entries
+   */
+  async getEntries(query: AuditQuery): Promise<PaginatedResult<AuditLogEntry>> {
+    const { page, limit, ...filters } = query;
+    const { entries, total } = await this.auditRepository.findMany(filters, page, limit);
+
+    return createPaginationResult(entries, total, page, limit);
+  }
+}
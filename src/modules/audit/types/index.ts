@@ -0,0 +1,92 @@
+import { z } from "zod";
+import { UserRole } from "@/shared/types";
+
+// Audit module types and interfaces
+
+export const AUDIT_ENTITY_TYPES = [
+  "course",
+  "level",
+  "section",
+  "module",
+  "lesson",
+  "exercise",
+  "unlock_rule",
+  "course_version",
+  "course_collaborator",
+  "user",
+  "media",
+] as const;
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+/** JSON copy of an entity as stored in the database */
+export type AuditSnapshot = Record<string, unknown>;
+
+export interface AuditFieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+/** Changed fields between two snapshots */
+export type AuditChanges = Record<string, AuditFieldChange>;
+
+export interface AuditLogEntry {
+  id: string;
+  actor_id: string | null;
+  actor_role: UserRole | null;
+  action: string;
+  entity_type: AuditEntityType;
+  entity_id: string | null;
+  before: AuditSnapshot | null;
+  after: AuditSnapshot | null;
+  changes: AuditChanges | null;
+  ip_address: string | null;
+  created_at: Date;
+}
+
+export interface AuditRecordInput {
+  actor_id?: string | undefined;
+  actor_role?: UserRole | undefined;
+  action: string;
+  entity_type: AuditEntityType;
+  entity_id?: string | undefined;
+  before?: AuditSnapshot | null | undefined;
+  after?: AuditSnapshot | null | undefined;
+  ip_address?: string | undefined;
+}
+
+export interface AuditLogFilters {
+  actor_id?: string | undefined;
+  action?: string | undefined;
+  entity_type?: AuditEntityType | undefined;
+  entity_id?: string | undefined;
+  from?: Date | undefined;
+  to?: Date | undefined;
+}
+
+// Validation schemas
+export const AuditQuerySchema = z
+  .object({
+    page: z
+      .string()
+      .optional()
+      .transform((val) => (val ? parseInt(val, 10) : 1))
+      .pipe(z.number().int().min(1)),
+    limit: z
+      .string()
+      .optional()
+      .transform((val) => (val ? parseInt(val, 10) : 50))
+      .pipe(z.number().int().min(1).max(100)),
+    actor_id: z.string().uuid("Invalid actor ID format").optional(),
+    action: z.string().min(1).max(50).optional(),
+    entity_type: z.enum(AUDIT_ENTITY_TYPES).optional(),
+    entity_id: z.string().min(1).max(100).optional(),
+    from: z.string().datetime({ offset: true }).transform((val) => new Date(val)).optional(),
+    to: z.string().datetime({ offset: true }).transform((val) => new Date(val)).optional(),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: "from must not be after to",
+    path: ["from"],
+  });
+
+export type AuditQuery = z.infer<typeof AuditQuerySchema>;
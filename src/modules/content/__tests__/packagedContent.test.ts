@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
-import { ContentService } from '../services';
+import { ContentService, CourseVersionService } from '../services';
+import { CourseVersionRepository } from '../repositories';
 import { cacheService } from '../../../shared/utils';
 
 // Mock the logger to avoid console output during tests
@@ -43,6 +44,7 @@ describe('Packaged Content API', () => {
       name: 'Test Course',
       description: 'Test Description',
       isPublic: true,
+      revision: 7,
       createdAt: new Date('2024-01-01T00:00:00Z'),
       updatedAt: new Date('2024-01-02T00:00:00Z'),
       levels: [
@@ -106,38 +108,24 @@ describe('Packaged Content API', () => {
       ]
     };
 
-    beforeEach(() => {
-      // Mock Prisma queries
-      jest.spyOn(prisma.course, 'findUnique').mockImplementation((args: any) => {
-        if (args?.include) {
-          // Full packaged course query
-          return Promise.resolve(mockCourseData as any) as any;
-        } else if (args?.select) {
-          // Timestamp query for versioning
-          return Promise.resolve({
-            id: mockCourseData.id,
-            updatedAt: mockCourseData.updatedAt,
-            levels: mockCourseData.levels.map(level => ({
-              updatedAt: level.updatedAt,
-              sections: level.sections.map(section => ({
-                updatedAt: section.updatedAt,
-                modules: section.modules.map(module => ({
-                  updatedAt: module.updatedAt,
-                  lessons: module.lessons.map(lesson => ({
-                    updatedAt: lesson.updatedAt,
-                    exercises: lesson.exercises.map(exercise => ({
-                      exercise: {
-                        updatedAt: exercise.exercise.updatedAt
-                      }
-                    }))
-                  }))
-                }))
-              }))
-            }))
-          } as any) as any;
-        }
-        return Promise.resolve(null) as any;
-      });
+    const publishedAt = new Date('2024-01-03T00:00:00Z');
+
+    beforeEach(async () => {
+      // The published snapshot is taken from the draft course tree
+      jest.spyOn(prisma.course, 'findUnique').mockResolvedValue(mockCourseData as any);
+      const draft = await new CourseVersionRepository(prisma).findCourseTree('test-course-001');
+
+      jest.spyOn(prisma.courseVersion, 'findFirst').mockResolvedValue({
+        id: 'test-version-001',
+        courseId: 'test-course-001',
+        version: 1,
+        revision: 7,
+        // Snapshots are stored as JSON
+        snapshot: JSON.parse(JSON.stringify(draft?.snapshot)),
+        notes: null,
+        publishedBy: null,
+        publishedAt
+      } as any);
     });
 
     afterEach(() => {
@@ -160,13 +148,17 @@ describe('Packaged Content API', () => {
       }
     });
 
-    it('should include correct package version timestamp', async () => {
+    it('should use the publication date as package version', async () => {
       const result = await contentService.getPackagedCourse('test-course-001');
 
-      expect(result?.package_version).toBeDefined();
-      // The package version should be the latest update time from the hierarchy
-      const expectedLatestTime = new Date('2024-01-02T00:00:00Z'); // Course updated time is latest
-      expect(result?.package_version).toBe(expectedLatestTime.toISOString());
+      expect(result?.package_version).toBe(publishedAt.toISOString());
+    });
+
+    it('should include the published version and revision for incremental sync', async () => {
+      const result = await contentService.getPackagedCourse('test-course-001');
+
+      expect(result?.version).toBe(1);
+      expect(result?.revision).toBe(7);
     });
 
     it('should cache the packaged course result', async () => {
@@ -177,11 +169,11 @@ describe('Packaged Content API', () => {
       const result2 = await contentService.getPackagedCourse('test-course-001');
 
       expect(result1).toEqual(result2);
-      expect(prisma.course.findUnique).toHaveBeenCalledTimes(2); // Once for timestamp, once for full data
+      expect(prisma.courseVersion.findFirst).toHaveBeenCalledTimes(1);
     });
 
     it('should return null when content is not modified (If-Modified-Since)', async () => {
-      const ifModifiedSince = '2024-01-03T00:00:00Z'; // After the latest update
+      const ifModifiedSince = '2024-01-04T00:00:00Z'; // After the publication
       
       const result = await contentService.getPackagedCourse('test-course-001', ifModifiedSince);
 
@@ -189,7 +181,7 @@ describe('Packaged Content API', () => {
     });
 
     it('should return content when it has been modified (If-Modified-Since)', async () => {
-      const ifModifiedSince = '2024-01-01T00:00:00Z'; // Before the latest update
+      const ifModifiedSince = '2024-01-01T00:00:00Z'; // Before the publication
       
       const result = await contentService.getPackagedCourse('test-course-001', ifModifiedSince);
 
@@ -198,11 +190,46 @@ describe('Packaged Content API', () => {
     });
 
     it('should throw error for non-existent course', async () => {
-      jest.spyOn(prisma.course, 'findUnique').mockResolvedValue(null);
+      jest.spyOn(prisma.courseVersion, 'findFirst').mockResolvedValue(null);
+      jest.spyOn(prisma.course, 'count').mockResolvedValue(0);
 
       await expect(contentService.getPackagedCourse('non-existent-course'))
         .rejects.toThrow("Course with ID 'non-existent-course' not found");
     });
+
+    it('should not deliver courses that have never been published', async () => {
+      jest.spyOn(prisma.courseVersion, 'findFirst').mockResolvedValue(null);
+      jest.spyOn(prisma.course, 'count').mockResolvedValue(1);
+
+      await expect(contentService.getPackagedCourse('test-course-001'))
+        .rejects.toThrow("Course with ID 'test-course-001' has not been published yet");
+    });
+
+    it('should snapshot the draft course tree when publishing', async () => {
+      const create = jest.fn().mockImplementation(({ data }) => Promise.resolve({
+        id: 'test-version-002',
+        ...data,
+        publishedAt
+      }));
+      jest.spyOn(prisma, '$transaction').mockImplementation((callback: any) => callback({
+        courseVersion: {
+          aggregate: jest.fn().mockResolvedValue({ _max: { version: 1 } }),
+          create
+        }
+      }));
+      const deleteSpy = jest.spyOn(cacheService, 'delete');
+
+      const version = await new CourseVersionService(prisma).publish('test-course-001', 'user-001', { notes: 'First lesson' });
+
+      expect(version).toMatchObject({ version: 2, revision: 7, notes: 'First lesson', published_by: 'user-001' });
+      expect(deleteSpy).toHaveBeenCalledWith('packaged_course:test-course-001');
+
+      const { snapshot } = create.mock.calls[0][0].data;
+      const lesson = snapshot.levels[0].sections[0].modules[0].lessons[0];
+      expect(snapshot.course).toMatchObject({ id: 'test-course-001', source_language: 'pt-BR', target_language: 'en' });
+      expect(lesson).toMatchObject({ id: 'test-lesson-001', module_id: 'test-module-001', experience_points: 10 });
+      expect(lesson.exercises[0]).toMatchObject({ exercise_id: 'test-exercise-001', exercise: { exercise_type: 'translation' } });
+    });
   });
 
   describe('cache invalidation', () => {
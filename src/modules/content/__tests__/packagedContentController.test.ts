@@ -27,6 +27,12 @@ describe('Packaged Content Controller', () => {
     
     // Set up the route
     app.get('/api/courses/:id/package', contentController.getPackagedCourse);
+
+    // Same route for an authenticated learner
+    app.get('/api/learner/courses/:id/package', (req, _res, next) => {
+      req.user = { sub: 'learner-001', email: 'learner@example.com', role: 'student' } as any;
+      next();
+    }, contentController.getPackagedCourse);
   });
 
   afterAll(async () => {
@@ -46,7 +52,10 @@ describe('Packaged Content Controller', () => {
         updated_at: new Date('2024-01-02T00:00:00Z')
       },
       levels: [],
-      package_version: '2024-01-02T00:00:00.000Z'
+      revision: 3,
+      version: 1,
+      package_version: '2024-01-02T00:00:00.000Z',
+      media: []
     };
 
     const expectedResponseData = {
@@ -61,7 +70,10 @@ describe('Packaged Content Controller', () => {
         updated_at: '2024-01-02T00:00:00.000Z'
       },
       levels: [],
-      package_version: '2024-01-02T00:00:00.000Z'
+      revision: 3,
+      version: 1,
+      package_version: '2024-01-02T00:00:00.000Z',
+      media: []
     };
 
     beforeEach(() => {
@@ -112,6 +124,21 @@ describe('Packaged Content Controller', () => {
       expect(response.body.data).toEqual(expectedResponseData);
     });
 
+    it('should add the learner lock state to authenticated requests', async () => {
+      const applyUnlockState = jest.spyOn(contentController['unlockRuleService'], 'applyUnlockState')
+        .mockImplementation(async (_userId, packagedCourse) => ({ ...packagedCourse, levels: [] }));
+
+      const response = await request(app)
+        .get('/api/learner/courses/test-course-001/package')
+        .set('If-Modified-Since', 'Wed, 03 Jan 2024 00:00:00 GMT')
+        .expect(HttpStatus.OK);
+
+      expect(contentController['contentService'].getPackagedCourse).toHaveBeenCalledWith('test-course-001', undefined);
+      expect(applyUnlockState).toHaveBeenCalledWith('learner-001', mockPackagedCourse);
+      expect(response.body.data).toEqual(expectedResponseData);
+      expect(response.headers['cache-control']).toBe('private, no-cache');
+    });
+
     it('should return 404 for missing course ID', async () => {
       await request(app)
         .get('/api/courses//package')
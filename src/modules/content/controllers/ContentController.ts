@@ -61,7 +61,7 @@
  */
 
 import { Request, Response, NextFunction } from "express";
-import { ContentService } from "../services";
+import { ContentService, UnlockRuleService } from "../services";
 import { PrismaClient } from "@prisma/client";
 import {
     CreateCourseSchema,
@@ -74,7 +74,8 @@ import {
     CreateModuleDto,
     ReorderModulesSchema,
     ReorderSectionsSchema,
-    ReorderLevelsSchema
+    ReorderLevelsSchema,
+    PackageChangesQuery
 } from "../schemas";
 import { ApiResponse, ErrorCodes, HttpStatus } from "../../../shared/types";
 import { AppError } from "@/shared/middleware";
@@ -86,6 +87,7 @@ import { AppError } from "@/shared/middleware";
  */
 export class ContentController {
     private contentService: ContentService;
+    private unlockRuleService: UnlockRuleService;
 
     /**
      * Creates a new ContentController instance with initialized content service
@@ -94,6 +96,7 @@ export class ContentController {
      */
     constructor(prisma: PrismaClient) {
         this.contentService = new ContentService(prisma);
+        this.unlockRuleService = new UnlockRuleService(prisma);
     }
 
     // Course endpoints
@@ -123,7 +126,8 @@ export class ContentController {
     ): Promise<void> => {
         try {
             const validatedData = CreateCourseSchema.parse(req.body);
-            const course = await this.contentService.createCourse(validatedData as any);
+            // The creator becomes the owner of the course
+            const course = await this.contentService.createCourse(validatedData as any, req.user?.sub);
 
             const response: ApiResponse = {
                 data: course,
@@ -192,6 +196,8 @@ export class ContentController {
      * @param {NextFunction} next - Express next function for error handling
      * @returns {Promise<void>} Promise that resolves when response is sent
      * 
+     * @throws {AppError} When `accessible=true` is requested without authentication
+     * 
      * @example
      * // GET /api/courses?page=1&limit=10&search=spanish&sortBy=name&sortOrder=asc
      * // Response: { data: Course[], success: true, timestamp: '2024-01-01T00:00:00.000Z' }
@@ -216,6 +222,25 @@ export class ContentController {
                 options.search = req.query['search'] as string;
             }
 
+            // Restrict the list to the courses the user can work on; admins can access every course
+            if (String(req.query['accessible']) === 'true') {
+                if (!req.user) {
+                    throw new AppError(
+                        "Authentication required",
+                        HttpStatus.UNAUTHORIZED,
+                        ErrorCodes.AUTHENTICATION_ERROR,
+                    );
+                }
+                if (req.user.role !== 'admin') {
+                    options.filters = { ...options.filters, collaborator_id: req.user.sub };
+                }
+            }
+
+            // Private courses are only listed to their learners and collaborators; admins see every course
+            if (req.user?.role !== 'admin') {
+                options.filters = { ...options.filters, reader_id: req.user?.sub ?? null };
+            }
+
             const result = await this.contentService.getCourses(options);
 
             const response: ApiResponse = {
@@ -339,6 +364,10 @@ export class ContentController {
      * Implements conditional requests using If-Modified-Since headers and comprehensive caching strategies
      * for optimal content delivery performance.
      * 
+     * When the request is authenticated, every level, section, module and lesson carries a `locked` flag
+     * for the learner. These personalized responses change as the learner progresses, so they skip
+     * conditional requests and are marked as private.
+     * 
      * @param {Request} req - Express request object with course ID in params and optional If-Modified-Since header
      * @param {Response} res - Express response object for sending HTTP response with caching headers
      * @param {NextFunction} next - Express next function for error handling
@@ -368,8 +397,10 @@ export class ContentController {
                 );
             }
 
+            const userId = req.user?.sub;
+
             // Get If-Modified-Since header for conditional requests
-            const ifModifiedSince = req.headers['if-modified-since'] as string;
+            const ifModifiedSince = userId ? undefined : req.headers['if-modified-since'] as string;
             
             const packagedCourse = await this.contentService.getPackagedCourse(id, ifModifiedSince);
 
@@ -379,16 +410,72 @@ export class ContentController {
                 return;
             }
 
-            // Set caching headers
-            res.set({
-                'Last-Modified': new Date(packagedCourse.package_version).toUTCString(),
-                'Cache-Control': 'public, max-age=900', // Cache for 15 minutes
-                'ETag': `"${packagedCourse.package_version}"`,
-                'Content-Type': 'application/json'
-            });
+            if (userId) {
+                res.set({
+                    'Cache-Control': 'private, no-cache',
+                    'Vary': 'Authorization',
+                    'Content-Type': 'application/json'
+                });
+            } else {
+                // Set caching headers
+                res.set({
+                    'Last-Modified': new Date(packagedCourse.package_version).toUTCString(),
+                    'Cache-Control': 'public, max-age=900', // Cache for 15 minutes
+                    'ETag': `"${packagedCourse.package_version}"`,
+                    'Content-Type': 'application/json'
+                });
+            }
+
+            const response: ApiResponse = {
+                data: userId
+                    ? await this.unlockRuleService.applyUnlockState(userId, packagedCourse)
+                    : packagedCourse,
+                success: true,
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(HttpStatus.OK).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Retrieves the content changes of a course after a package revision for incremental offline sync.
+     * The revision is parsed from the `since` query parameter by the validation middleware.
+     *
+     * @param {Request} req - Express request object with course ID in params and revision in query
+     * @param {Response} res - Express response object for sending HTTP response
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Promise that resolves when response is sent
+     *
+     * @throws {AppError} When course ID parameter is missing
+     * @throws {AppError} When course is not found or the revision is ahead of the course (handled by service layer)
+     *
+     * @example
+     * // GET /api/courses/spanish-101/package/changes?since=42
+     * // Response: { data: { revision: 45, lessons: [...], deleted: [...] }, success: true, timestamp: '2024-01-01T00:00:00.000Z' }
+     */
+    getPackageChanges = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            const { id } = req.params;
+            if (!id) {
+                throw new AppError(
+                    "Course ID is required in URL parameters.",
+                    HttpStatus.BAD_REQUEST,
+                    ErrorCodes.VALIDATION_ERROR,
+                );
+            }
+
+            const { since } = req.query as unknown as PackageChangesQuery;
+            const changes = await this.contentService.getPackageChanges(id, since);
 
             const response: ApiResponse = {
-                data: packagedCourse,
+                data: changes,
                 success: true,
                 timestamp: new Date().toISOString(),
             };
@@ -564,7 +651,7 @@ export class ContentController {
      * @returns {Promise<void>} Promise that resolves when response is sent
      * 
      * @throws {AppError} When level ID parameter is missing or invalid
-     * @throws {AppError} When level with specified ID is not found (handled by service layer)
+     * @throws {AppError} When level with specified ID is not found in the course (handled by service layer)
      */
     updateLevel = async (
         req: Request,
@@ -572,8 +659,15 @@ export class ContentController {
         next: NextFunction,
     ): Promise<void> => {
         try {
-            const { id } = req.params;
+            const { id, courseId } = req.params;
             if (!id) {
+                throw new AppError(
+                    "Level ID is required in URL parameters.",
+                    HttpStatus.BAD_REQUEST,
+                    ErrorCodes.VALIDATION_ERROR,
+                );
+            }
+            if (!courseId) {
                 throw new AppError(
                     "Course ID is required in URL parameters.",
                     HttpStatus.BAD_REQUEST,
@@ -581,7 +675,7 @@ export class ContentController {
                 );
             }
             const updateData = req.body;
-            const level = await this.contentService.updateLevel(id, updateData);
+            const level = await this.contentService.updateLevel(id, courseId, updateData);
 
             const response: ApiResponse = {
                 data: level,
@@ -794,16 +888,23 @@ export class ContentController {
         next: NextFunction,
     ): Promise<void> => {
         try {
-            const { id } = req.params;
+            const { id, levelId } = req.params;
             if (!id) {
                 throw new AppError(
-                    "Course ID is required in URL parameters.",
+                    "Section ID is required in URL parameters.",
+                    HttpStatus.BAD_REQUEST,
+                    ErrorCodes.VALIDATION_ERROR,
+                );
+            }
+            if (!levelId) {
+                throw new AppError(
+                    "Level ID is required in URL parameters.",
                     HttpStatus.BAD_REQUEST,
                     ErrorCodes.VALIDATION_ERROR,
                 );
             }
             const updateData = req.body;
-            const section = await this.contentService.updateSection(id, updateData);
+            const section = await this.contentService.updateSection(id, levelId, updateData);
 
             const response: ApiResponse = {
                 data: section,
@@ -1026,16 +1127,23 @@ export class ContentController {
         next: NextFunction,
     ): Promise<void> => {
         try {
-            const { id } = req.params;
+            const { id, sectionId } = req.params;
             if (!id) {
                 throw new AppError(
-                    "Course ID is required in URL parameters.",
+                    "Module ID is required in URL parameters.",
+                    HttpStatus.BAD_REQUEST,
+                    ErrorCodes.VALIDATION_ERROR,
+                );
+            }
+            if (!sectionId) {
+                throw new AppError(
+                    "Section ID is required in URL parameters.",
                     HttpStatus.BAD_REQUEST,
                     ErrorCodes.VALIDATION_ERROR,
                 );
             }
             const updateData = req.body;
-            const module = await this.contentService.updateModule(id, updateData);
+            const module = await this.contentService.updateModule(id, sectionId, updateData);
 
             const response: ApiResponse = {
                 data: module,
@@ -0,0 +1,103 @@
+// src/modules/content/controllers/CourseAnalyticsController.ts
+
+/**
+ * HTTP controller for the learner analytics of a course.
+ *
+ * Analytics are returned as JSON by default. With `format=csv` one table of the analytics, chosen
+ * with `report`, is sent as a CSV file download instead.
+ *
+ * @module CourseAnalyticsController
+ * @category Controllers
+ * @category Content
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const courseAnalyticsController = new CourseAnalyticsController(prisma);
+ *
+ * router.get('/courses/:id/analytics', courseAnalyticsController.getCourseAnalytics);
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient } from "@prisma/client";
+import { CourseAnalyticsService } from "../services";
+import { CourseAnalyticsQuery } from "../types";
+import { ApiResponse, ErrorCodes, HttpStatus } from "../../../shared/types";
+import { AppError } from "@/shared/middleware";
+
+/**
+ * HTTP controller class for course analytics.
+ */
+export class CourseAnalyticsController {
+    private courseAnalyticsService: CourseAnalyticsService;
+
+    /**
+     * Initializes the CourseAnalyticsController with required service dependencies.
+     *
+     * @param {PrismaClient} prisma - Prisma database client for service layer initialization
+     */
+    constructor(prisma: PrismaClient) {
+        this.courseAnalyticsService = new CourseAnalyticsService(prisma);
+    }
+
+    /**
+     * Retrieves the analytics of a course for a range of days, as JSON or as a CSV table.
+     * The query is validated by the validation middleware, which also applies the defaults.
+     *
+     * @param {Request} req - Express request object with course ID in params and from, to, format and report query parameters
+     * @param {Response} res - Express response object
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     *
+     * @example
+     * // GET /api/v1/courses/spanish-101/analytics?from=2025-01-01&to=2025-01-31
+     * // Response: { "data": { "enrollment": { ... }, "active_learners": [ ... ], "funnel": [ ... ], ... }, "success": true, ... }
+     *
+     * @example
+     * // GET /api/v1/courses/spanish-101/analytics?format=csv&report=activity
+     * // Response: date,active_learners\r\n2025-01-01,12\r\n...
+     */
+    getCourseAnalytics = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            const { id } = req.params;
+            if (!id) {
+                throw new AppError(
+                    "Course ID is required in URL parameters.",
+                    HttpStatus.BAD_REQUEST,
+                    ErrorCodes.VALIDATION_ERROR,
+                );
+            }
+
+            const query = req.query as unknown as CourseAnalyticsQuery;
+            const analytics = await this.courseAnalyticsService.getCourseAnalytics(id, {
+                from: query.from,
+                to: query.to,
+            });
+
+            if (query.format === "csv") {
+                res.set({
+                    'Content-Type': 'text/csv; charset=utf-8',
+                    'Content-Disposition': `attachment; filename="${id}-${query.report}-${analytics.from}-${analytics.to}.csv"`,
+                    'Cache-Control': 'private, no-cache',
+                });
+                res.status(HttpStatus.OK).send(this.courseAnalyticsService.toCsv(analytics, query.report));
+                return;
+            }
+
+            const response: ApiResponse = {
+                data: analytics,
+                success: true,
+                message: "Course analytics retrieved successfully",
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(HttpStatus.OK).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+}
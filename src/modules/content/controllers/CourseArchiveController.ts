@@ -0,0 +1,123 @@
+// src/modules/content/controllers/CourseArchiveController.ts
+
+/**
+ * HTTP controller for moving courses between environments as portable archives.
+ *
+ * The export endpoint sends the archive itself as a JSON file download, so the downloaded file can
+ * be posted to the import endpoint of another environment as it is. Imports report the conflicting
+ * IDs and, when IDs are remapped, the new ID of every remapped piece of content.
+ *
+ * @module CourseArchiveController
+ * @category Controllers
+ * @category Content
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const courseArchiveController = new CourseArchiveController(prisma);
+ *
+ * router.get('/courses/:id/export', courseArchiveController.exportCourse);
+ * router.post('/courses/import', courseArchiveController.importCourse);
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient } from "@prisma/client";
+import { CourseArchiveService } from "../services";
+import { CourseArchive, ImportCourseQuery } from "../types";
+import { ApiResponse, ErrorCodes, HttpStatus } from "../../../shared/types";
+import { AppError } from "@/shared/middleware";
+
+/**
+ * HTTP controller class for course archive export and import.
+ */
+export class CourseArchiveController {
+    private courseArchiveService: CourseArchiveService;
+
+    /**
+     * Initializes the CourseArchiveController with required service dependencies.
+     *
+     * @param {PrismaClient} prisma - Prisma database client for service layer initialization
+     */
+    constructor(prisma: PrismaClient) {
+        this.courseArchiveService = new CourseArchiveService(prisma);
+    }
+
+    /**
+     * Exports the current content of a course as an archive file.
+     *
+     * @param {Request} req - Express request object with course ID in params
+     * @param {Response} res - Express response object
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     *
+     * @example
+     * // GET /api/v1/courses/spanish-101/export
+     * // Response: { "format": "wayrapp-course-archive", "format_version": 1, "course": { ... }, "levels": [ ... ], ... }
+     */
+    exportCourse = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            const { id } = req.params;
+            if (!id) {
+                throw new AppError(
+                    "Course ID is required in URL parameters.",
+                    HttpStatus.BAD_REQUEST,
+                    ErrorCodes.VALIDATION_ERROR,
+                );
+            }
+
+            const archive = await this.courseArchiveService.exportCourse(id);
+
+            res.set({
+                'Content-Disposition': `attachment; filename="${id}.course.json"`,
+                'Cache-Control': 'private, no-cache',
+            });
+            res.status(HttpStatus.OK).json(archive);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Imports an archive as a new course owned by the requesting user.
+     * The archive is validated by the validation middleware, which also parses the import options.
+     *
+     * @param {Request} req - Express request object with the archive in body and id_strategy and dry_run query parameters
+     * @param {Response} res - Express response object
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     *
+     * @example
+     * // POST /api/v1/courses/import?id_strategy=remap
+     * // Body: the archive returned by GET /api/v1/courses/spanish-101/export
+     * // Response: { "data": { "course_id": "spanish-101-2", "id_map": { "course": { "spanish-101": "spanish-101-2" } }, ... }, "success": true, ... }
+     */
+    importCourse = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            const query = req.query as unknown as ImportCourseQuery;
+            const result = await this.courseArchiveService.importCourse(
+                req.body as CourseArchive,
+                { id_strategy: query.id_strategy, dry_run: query.dry_run },
+                req.user?.sub,
+            );
+
+            const response: ApiResponse = {
+                data: result,
+                success: true,
+                message: result.dry_run ? "Course archive checked successfully" : "Course imported successfully",
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(result.dry_run ? HttpStatus.OK : HttpStatus.CREATED).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+}
@@ -0,0 +1,297 @@
+// src/modules/content/controllers/CourseCollaboratorController.ts
+
+/**
+ * HTTP controller for course collaborators and invitations.
+ *
+ * Owners of a course manage its collaborators through the `/courses/:id/collaborators` endpoints:
+ * they invite content creators by email with a course role, change roles and remove collaborators.
+ * Invited users list their pending invitations and accept or decline them through the
+ * `/course-invitations` endpoints. Course role checks are done by the `requireCourseRole`
+ * middleware on the routes.
+ *
+ * @module CourseCollaboratorController
+ * @category Controllers
+ * @category Content
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const courseCollaboratorController = new CourseCollaboratorController(prisma);
+ *
+ * router.get('/courses/:id/collaborators', courseCollaboratorController.getCollaborators);
+ * router.post('/courses/:id/collaborators', courseCollaboratorController.inviteCollaborator);
+ * router.put('/courses/:id/collaborators/:userId', courseCollaboratorController.updateCollaborator);
+ * router.delete('/courses/:id/collaborators/:userId', courseCollaboratorController.removeCollaborator);
+ * router.get('/course-invitations', courseCollaboratorController.getInvitations);
+ * router.post('/course-invitations/:courseId/accept', courseCollaboratorController.acceptInvitation);
+ * router.delete('/course-invitations/:courseId', courseCollaboratorController.declineInvitation);
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient } from "@prisma/client";
+import { CourseCollaboratorService } from "../services";
+import { InviteCollaboratorDto, UpdateCollaboratorDto } from "../types";
+import { ApiResponse, ErrorCodes, HttpStatus, JWTPayload } from "../../../shared/types";
+import { AppError } from "@/shared/middleware";
+
+/**
+ * HTTP controller class for managing course collaborators and answering invitations.
+ */
+export class CourseCollaboratorController {
+    private courseCollaboratorService: CourseCollaboratorService;
+
+    /**
+     * Initializes the CourseCollaboratorController with required service dependencies.
+     *
+     * @param {PrismaClient} prisma - Prisma database client for service layer initialization
+     */
+    constructor(prisma: PrismaClient) {
+        this.courseCollaboratorService = new CourseCollaboratorService(prisma);
+    }
+
+    /**
+     * Lists the collaborators of a course, including pending invitations.
+     *
+     * @param {Request} req - Express request object with course ID in params
+     * @param {Response} res - Express response object
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     */
+    getCollaborators = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            const collaborators = await this.courseCollaboratorService.getCollaborators(this.requireParam(req, "id"));
+
+            const response: ApiResponse = {
+                data: collaborators,
+                success: true,
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(HttpStatus.OK).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Invites a user to a course with a role.
+     *
+     * @param {Request} req - Express request object with course ID in params and email and role in body
+     * @param {Response} res - Express response object
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     *
+     * @example
+     * // POST /api/v1/courses/spanish-101/collaborators
+     * // Body: { "email": "ana@example.com", "role": "editor" }
+     * // Response: { "data": { "user_id": "...", "role": "editor", "accepted_at": null, ... }, "success": true, ... }
+     */
+    inviteCollaborator = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            const user = this.requireUser(req);
+            const invitation = await this.courseCollaboratorService.invite(
+                this.requireParam(req, "id"),
+                user.sub,
+                req.body as InviteCollaboratorDto,
+            );
+
+            const response: ApiResponse = {
+                data: invitation,
+                success: true,
+                message: "Invitation sent successfully",
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(HttpStatus.CREATED).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Changes the role of a collaborator.
+     *
+     * @param {Request} req - Express request object with course ID and user ID in params and role in body
+     * @param {Response} res - Express response object
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     */
+    updateCollaborator = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            const { role } = req.body as UpdateCollaboratorDto;
+            const collaborator = await this.courseCollaboratorService.updateRole(
+                this.requireParam(req, "id"),
+                this.requireParam(req, "userId"),
+                role,
+            );
+
+            const response: ApiResponse = {
+                data: collaborator,
+                success: true,
+                message: "Collaborator updated successfully",
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(HttpStatus.OK).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Removes a collaborator from a course or withdraws a pending invitation.
+     *
+     * @param {Request} req - Express request object with course ID and user ID in params
+     * @param {Response} res - Express response object
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     */
+    removeCollaborator = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            await this.courseCollaboratorService.removeCollaborator(
+                this.requireParam(req, "id"),
+                this.requireParam(req, "userId"),
+            );
+
+            const response: ApiResponse = {
+                success: true,
+                message: "Collaborator removed successfully",
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(HttpStatus.OK).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Lists the pending course invitations of the authenticated user.
+     *
+     * @param {Request} req - Express request object with the authenticated user
+     * @param {Response} res - Express response object
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     */
+    getInvitations = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            const invitations = await this.courseCollaboratorService.getInvitations(this.requireUser(req).sub);
+
+            const response: ApiResponse = {
+                data: invitations,
+                success: true,
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(HttpStatus.OK).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Accepts an invitation to a course.
+     *
+     * @param {Request} req - Express request object with course ID in params
+     * @param {Response} res - Express response object
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     */
+    acceptInvitation = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            const collaborator = await this.courseCollaboratorService.acceptInvitation(
+                this.requireUser(req).sub,
+                this.requireParam(req, "courseId"),
+            );
+
+            const response: ApiResponse = {
+                data: collaborator,
+                success: true,
+                message: "Invitation accepted",
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(HttpStatus.OK).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Declines an invitation to a course.
+     *
+     * @param {Request} req - Express request object with course ID in params
+     * @param {Response} res - Express response object
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     */
+    declineInvitation = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            await this.courseCollaboratorService.declineInvitation(
+                this.requireUser(req).sub,
+                this.requireParam(req, "courseId"),
+            );
+
+            const response: ApiResponse = {
+                success: true,
+                message: "Invitation declined",
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(HttpStatus.OK).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    private requireUser(req: Request): JWTPayload {
+        if (!req.user) {
+            throw new AppError(
+                "Authentication required",
+                HttpStatus.UNAUTHORIZED,
+                ErrorCodes.AUTHENTICATION_ERROR,
+            );
+        }
+        return req.user;
+    }
+
+    private requireParam(req: Request, name: string): string {
+        const value = req.params[name];
+        if (!value) {
+            throw new AppError(
+                `${name} is required in URL parameters.`,
+                HttpStatus.BAD_REQUEST,
+                ErrorCodes.VALIDATION_ERROR,
+            );
+        }
+        return value;
+    }
+}
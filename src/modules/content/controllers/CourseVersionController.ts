@@ -0,0 +1,246 @@
+// src/modules/content/controllers/CourseVersionController.ts
+
+/**
+ * HTTP controller for the course draft and publish workflow.
+ *
+ * Content creators edit the draft of a course through the regular content endpoints and use these
+ * endpoints to publish it as an immutable version, browse the version history, compare versions
+ * with each other or with the current draft, and roll the course back to a previous version.
+ * Learners only ever receive the latest published version through the packaged course endpoints.
+ *
+ * @module CourseVersionController
+ * @category Controllers
+ * @category Content
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const courseVersionController = new CourseVersionController(prisma);
+ *
+ * router.post('/courses/:id/publish', courseVersionController.publish);
+ * router.get('/courses/:id/versions', courseVersionController.getVersions);
+ * router.get('/courses/:id/versions/:version', courseVersionController.getVersion);
+ * router.get('/courses/:id/versions/:version/diff', courseVersionController.diffVersion);
+ * router.post('/courses/:id/versions/:version/rollback', courseVersionController.rollback);
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient } from "@prisma/client";
+import { CourseVersionService } from "../services";
+import { CourseVersionDiffQuery, PublishCourseDto } from "../types";
+import { ApiResponse, ErrorCodes, HttpStatus } from "../../../shared/types";
+import { AppError } from "@/shared/middleware";
+
+/**
+ * HTTP controller class for publishing, comparing and rolling back course versions.
+ */
+export class CourseVersionController {
+    private courseVersionService: CourseVersionService;
+
+    /**
+     * Initializes the CourseVersionController with required service dependencies.
+     *
+     * @param {PrismaClient} prisma - Prisma database client for service layer initialization
+     */
+    constructor(prisma: PrismaClient) {
+        this.courseVersionService = new CourseVersionService(prisma);
+    }
+
+    /**
+     * Publishes the current draft of a course as a new version.
+     *
+     * @param {Request} req - Express request object with course ID in params and optional release notes in body
+     * @param {Response} res - Express response object
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     *
+     * @example
+     * // POST /api/v1/courses/spanish-101/publish
+     * // Body: { "notes": "Added the A2 level" }
+     * // Response: { "data": { "version": 3, "revision": 57, "published_at": "..." }, "success": true, ... }
+     */
+    publish = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            const { id } = req.params;
+            if (!id) {
+                throw new AppError(
+                    "Course ID is required in URL parameters.",
+                    HttpStatus.BAD_REQUEST,
+                    ErrorCodes.VALIDATION_ERROR,
+                );
+            }
+
+            const version = await this.courseVersionService.publish(id, req.user?.sub, req.body as PublishCourseDto);
+
+            const response: ApiResponse = {
+                data: version,
+                success: true,
+                message: "Course published successfully",
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(HttpStatus.CREATED).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Lists the published versions of a course, newest first.
+     *
+     * @param {Request} req - Express request object with course ID in params
+     * @param {Response} res - Express response object
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     */
+    getVersions = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            const { id } = req.params;
+            if (!id) {
+                throw new AppError(
+                    "Course ID is required in URL parameters.",
+                    HttpStatus.BAD_REQUEST,
+                    ErrorCodes.VALIDATION_ERROR,
+                );
+            }
+
+            const versions = await this.courseVersionService.getVersions(id);
+
+            const response: ApiResponse = {
+                data: versions,
+                success: true,
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(HttpStatus.OK).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Retrieves a published version of a course with its content snapshot.
+     *
+     * @param {Request} req - Express request object with course ID and version number in params
+     * @param {Response} res - Express response object
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     */
+    getVersion = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            const { id, version } = req.params;
+            if (!id || !version) {
+                throw new AppError(
+                    "Course ID and version are required in URL parameters.",
+                    HttpStatus.BAD_REQUEST,
+                    ErrorCodes.VALIDATION_ERROR,
+                );
+            }
+
+            const courseVersion = await this.courseVersionService.getVersion(id, Number(version));
+
+            const response: ApiResponse = {
+                data: courseVersion,
+                success: true,
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(HttpStatus.OK).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Compares a published version with another version, or with the current draft when the
+     * `against` query parameter is omitted.
+     *
+     * @param {Request} req - Express request object with course ID and version number in params
+     * @param {Response} res - Express response object
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     *
+     * @example
+     * // GET /api/v1/courses/spanish-101/versions/2/diff
+     * // Response: { "data": { "from": 2, "to": "draft", "changes": [{ "entity_type": "lesson", "change": "modified", "fields": ["name"] }] }, ... }
+     */
+    diffVersion = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            const { id, version } = req.params;
+            if (!id || !version) {
+                throw new AppError(
+                    "Course ID and version are required in URL parameters.",
+                    HttpStatus.BAD_REQUEST,
+                    ErrorCodes.VALIDATION_ERROR,
+                );
+            }
+
+            const { against } = req.query as unknown as CourseVersionDiffQuery;
+            const diff = await this.courseVersionService.diff(id, Number(version), against);
+
+            const response: ApiResponse = {
+                data: diff,
+                success: true,
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(HttpStatus.OK).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Restores the draft of a course to a published version and publishes it as a new version.
+     *
+     * @param {Request} req - Express request object with course ID and version number in params
+     * @param {Response} res - Express response object
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     */
+    rollback = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            const { id, version } = req.params;
+            if (!id || !version) {
+                throw new AppError(
+                    "Course ID and version are required in URL parameters.",
+                    HttpStatus.BAD_REQUEST,
+                    ErrorCodes.VALIDATION_ERROR,
+                );
+            }
+
+            const courseVersion = await this.courseVersionService.rollback(id, Number(version), req.user?.sub);
+
+            const response: ApiResponse = {
+                data: courseVersion,
+                success: true,
+                message: `Course rolled back to version ${version}`,
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(HttpStatus.CREATED).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+}
@@ -0,0 +1,252 @@
+// src/modules/content/controllers/EnrollmentController.ts
+
+/**
+ * HTTP controller for learner enrollments and course invite codes.
+ *
+ * Learners join and leave courses through `/courses/:id/enroll` and list the courses they joined,
+ * with their progress, through `/users/me/courses`. Private courses are joined with an invite code,
+ * which course owners manage through the `/courses/:id/invite-code` endpoints. Course role checks
+ * are done by the `requireCourseRole` middleware on the routes.
+ *
+ * @module EnrollmentController
+ * @category Controllers
+ * @category Content
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const enrollmentController = new EnrollmentController(prisma);
+ *
+ * router.post('/courses/:id/enroll', enrollmentController.enroll);
+ * router.delete('/courses/:id/enroll', enrollmentController.unenroll);
+ * router.get('/users/me/courses', enrollmentController.getMyCourses);
+ * router.get('/courses/:id/invite-code', enrollmentController.getInviteCode);
+ * router.post('/courses/:id/invite-code', enrollmentController.rotateInviteCode);
+ * router.delete('/courses/:id/invite-code', enrollmentController.disableInviteCode);
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient } from "@prisma/client";
+import { EnrollmentService } from "../services";
+import { EnrollCourseDto, EnrolledCoursesQuery } from "../types";
+import { ApiResponse, ErrorCodes, HttpStatus, JWTPayload } from "../../../shared/types";
+import { AppError } from "@/shared/middleware";
+
+/**
+ * HTTP controller class for enrollments and invite codes.
+ */
+export class EnrollmentController {
+    private enrollmentService: EnrollmentService;
+
+    /**
+     * Initializes the EnrollmentController with required service dependencies.
+     *
+     * @param {PrismaClient} prisma - Prisma database client for service layer initialization
+     */
+    constructor(prisma: PrismaClient) {
+        this.enrollmentService = new EnrollmentService(prisma);
+    }
+
+    /**
+     * Enrolls the authenticated user in a course. Responds with 201 when the enrollment is
+     * created and 200 when the user was already enrolled.
+     *
+     * @param {Request} req - Express request object with course ID in params and optional invite code in body
+     * @param {Response} res - Express response object
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     */
+    enroll = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            const { invite_code } = req.body as EnrollCourseDto;
+            const { enrollment, created } = await this.enrollmentService.enroll(
+                this.requireUser(req).sub,
+                this.requireParam(req, "id"),
+                invite_code,
+            );
+
+            const response: ApiResponse = {
+                data: enrollment,
+                success: true,
+                message: created ? "Enrolled successfully" : "Already enrolled",
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(created ? HttpStatus.CREATED : HttpStatus.OK).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Removes the authenticated user from a course.
+     *
+     * @param {Request} req - Express request object with course ID in params
+     * @param {Response} res - Express response object
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     */
+    unenroll = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            await this.enrollmentService.unenroll(
+                this.requireUser(req).sub,
+                this.requireParam(req, "id"),
+            );
+
+            const response: ApiResponse = {
+                success: true,
+                message: "Unenrolled successfully",
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(HttpStatus.OK).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Lists the courses the authenticated user is enrolled in, with their progress.
+     *
+     * @param {Request} req - Express request object with optional status in query
+     * @param {Response} res - Express response object
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     */
+    getMyCourses = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            const { status } = req.query as EnrolledCoursesQuery;
+            const courses = await this.enrollmentService.getEnrolledCourses(this.requireUser(req).sub, status);
+
+            const response: ApiResponse = {
+                data: courses,
+                success: true,
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(HttpStatus.OK).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Returns the invite code of a course.
+     *
+     * @param {Request} req - Express request object with course ID in params
+     * @param {Response} res - Express response object
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     */
+    getInviteCode = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            const inviteCode = await this.enrollmentService.getInviteCode(this.requireParam(req, "id"));
+
+            const response: ApiResponse = {
+                data: inviteCode,
+                success: true,
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(HttpStatus.OK).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Creates a new invite code for a course, replacing the previous one.
+     *
+     * @param {Request} req - Express request object with course ID in params
+     * @param {Response} res - Express response object
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     */
+    rotateInviteCode = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            const inviteCode = await this.enrollmentService.rotateInviteCode(this.requireParam(req, "id"));
+
+            const response: ApiResponse = {
+                data: inviteCode,
+                success: true,
+                message: "Invite code created successfully",
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(HttpStatus.OK).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Removes the invite code of a course.
+     *
+     * @param {Request} req - Express request object with course ID in params
+     * @param {Response} res - Express response object
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     */
+    disableInviteCode = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            await this.enrollmentService.disableInviteCode(this.requireParam(req, "id"));
+
+            const response: ApiResponse = {
+                success: true,
+                message: "Invite code disabled",
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(HttpStatus.OK).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    private requireUser(req: Request): JWTPayload {
+        if (!req.user) {
+            throw new AppError(
+                "Authentication required",
+                HttpStatus.UNAUTHORIZED,
+                ErrorCodes.AUTHENTICATION_ERROR,
+            );
+        }
+        return req.user;
+    }
+
+    private requireParam(req: Request, name: string): string {
+        const value = req.params[name];
+        if (!value) {
+            throw new AppError(
+                `${name} is required in URL parameters.`,
+                HttpStatus.BAD_REQUEST,
+                ErrorCodes.VALIDATION_ERROR,
+            );
+        }
+        return value;
+    }
+}
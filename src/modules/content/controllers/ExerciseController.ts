@@ -53,19 +53,22 @@
  * router.put('/exercises/:id', exerciseController.updateExercise);
  * router.delete('/exercises/:id', exerciseController.deleteExercise);
  * 
+ * // Bulk import from CSV/TSV files
+ * router.post('/exercises/import', exerciseController.importExercises);
+ * 
  * // Type-specific filtering endpoint
  * router.get('/exercises/type/:type', exerciseController.getExercisesByType);
  */
 
 import { Request, Response, NextFunction } from "express";
-import { ExerciseService } from "../services";
+import { ExerciseImportService, ExerciseService } from "../services";
 import { PrismaClient } from "@prisma/client";
 import {
     CreateExerciseSchema,
     UpdateExerciseSchema,
     ExerciseQuery,
 } from "../schemas";
-import { CreateExerciseDto } from "../types";
+import { CreateExerciseDto, ImportExercisesDto, ImportExercisesQuery } from "../types";
 import { ApiResponse, ErrorCodes, HttpStatus } from "../../../shared/types";
 import { AppError } from "@/shared/middleware";
 
@@ -78,6 +81,7 @@ import { AppError } from "@/shared/middleware";
  */
 export class ExerciseController {
     private exerciseService: ExerciseService;
+    private exerciseImportService: ExerciseImportService;
 
     /**
      * Initializes the ExerciseController with required service dependencies.
@@ -86,6 +90,7 @@ export class ExerciseController {
      */
     constructor(prisma: PrismaClient) {
         this.exerciseService = new ExerciseService(prisma);
+        this.exerciseImportService = new ExerciseImportService(prisma);
     }
 
     /**
@@ -140,6 +145,49 @@ export class ExerciseController {
         }
     };
 
+    /**
+     * Imports exercises from a CSV or TSV file, or previews the import on dry runs.
+     * 
+     * The request body is validated by the validation middleware, which also parses the dry_run
+     * query parameter. Dry runs respond with HTTP 200 and the row errors; imports respond with
+     * HTTP 201 and fail with per-row validation errors when any row is invalid.
+     * 
+     * @param {Request} req - Express request object with the file content and column mapping in body
+     * @param {Response} res - Express response object for sending HTTP response
+     * @param {NextFunction} next - Express next function for error handling middleware
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     * 
+     * @example
+     * // POST /api/exercises/import?dry_run=true
+     * // Request body: { "format": "csv", "exercise_type": "translation", "content": "english,spanish\nHello,Hola", "mapping": { "source_text": "english", "target_text": "spanish" } }
+     * // Response: { "data": { "dry_run": true, "total_rows": 1, "exercises": [ ... ], "errors": [] }, "success": true, ... }
+     */
+    importExercises = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            const query = req.query as unknown as ImportExercisesQuery;
+            const result = await this.exerciseImportService.importExercises(
+                req.body as ImportExercisesDto,
+                { dry_run: query.dry_run },
+                req.user,
+            );
+
+            const response: ApiResponse = {
+                data: result,
+                success: true,
+                message: result.dry_run ? 'Exercise import checked successfully' : 'Exercises imported successfully',
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(result.dry_run ? HttpStatus.OK : HttpStatus.CREATED).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+
     /**
      * Retrieves a single exercise by its unique identifier with comprehensive validation.
      * 
@@ -54,10 +54,14 @@
  * router.post('/lessons/:lessonId/exercises', lessonController.assignExerciseToLesson);
  * router.delete('/lessons/:lessonId/exercises/:exerciseId', lessonController.unassignExerciseFromLesson);
  * router.put('/lessons/:lessonId/exercises/reorder', lessonController.reorderLessonExercises);
+ *
+ * // Lesson play endpoint
+ * router.post('/lessons/:lessonId/attempts', lessonController.submitLessonAttempt);
  */
 
 import { Request, Response, NextFunction } from "express";
-import { LessonService } from "../services";
+import { LessonService, ExerciseGradingService } from "../services";
+import { ExerciseAnswerInput } from "../services/ExerciseGradingService";
 import { PrismaClient } from "@prisma/client";
 import {
     CreateLessonSchema,
@@ -66,6 +70,7 @@ import {
     AssignExerciseToLessonSchema,
     ReorderExercisesSchema,
     ReorderLessonsSchema,
+    LessonAttemptDto,
 } from "../schemas";
 import { CreateLessonDto, AssignExerciseToLessonDto } from "../types";
 import { ApiResponse, ErrorCodes, HttpStatus } from "../../../shared/types";
@@ -80,6 +85,7 @@ import { AppError } from "@/shared/middleware";
  */
 export class LessonController {
     private lessonService: LessonService;
+    private exerciseGradingService: ExerciseGradingService;
 
     /**
      * Initializes the LessonController with required service dependencies.
@@ -88,6 +94,7 @@ export class LessonController {
      */
     constructor(prisma: PrismaClient) {
         this.lessonService = new LessonService(prisma);
+        this.exerciseGradingService = new ExerciseGradingService(prisma);
     }
 
     /**
@@ -650,4 +657,58 @@ export class LessonController {
             next(error);
         }
     };
-}
\ No newline at end of file
+
+    /**
+     * Grades a learner's answers for every exercise in a lesson and records the attempts.
+     * 
+     * Extracts lesson ID from URL parameters, reads the answers already validated by the route
+     * against LessonAttemptSchema, delegates grading to the exercise grading service with the
+     * authenticated user's ID so each answer is stored as an exercise attempt, and returns the
+     * graded results with HTTP 200 status.
+     * 
+     * @param {Request} req - Express request object containing lessonId in params and answers array in body
+     * @param {Response} res - Express response object for sending HTTP response
+     * @param {NextFunction} next - Express next function for error handling middleware
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     * @throws {AppError} When lesson ID is missing from URL parameters
+     * @throws {Error} When the lesson is not found or grading fails
+     * 
+     * @example
+     * // POST /api/lessons/lesson-basic-intro/attempts
+     * // Request body: { "answers": [{ "exercise_id": "ex-001", "answer": "hola" }] }
+     * // Response: { "data": { graded lesson attempt }, "success": true, "timestamp": "2024-01-01T00:00:00.000Z" }
+     */
+    submitLessonAttempt = async (
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> => {
+        try {
+            const { lessonId } = req.params;
+            if (!lessonId) {
+                throw new AppError(
+                    "Lesson ID is required in URL parameters.",
+                    HttpStatus.BAD_REQUEST,
+                    ErrorCodes.VALIDATION_ERROR,
+                );
+            }
+
+            const { answers } = req.body as LessonAttemptDto;
+            const attempt = await this.exerciseGradingService.gradeLessonAttempt(
+                lessonId,
+                answers as ExerciseAnswerInput[],
+                req.user?.sub,
+            );
+
+            const response: ApiResponse = {
+                data: attempt,
+                success: true,
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(HttpStatus.OK).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+}
@@ -0,0 +1,141 @@
+// src/modules/content/controllers/TrashController.ts
+
+/**
+ * HTTP controller for the trash of deleted course content.
+ *
+ * Deleted courses, levels, sections, modules, lessons and exercises stay in the trash for the
+ * retention window before they are purged. These endpoints let admins list the trash and restore
+ * content from it; each restore route mirrors the route the content was deleted from.
+ *
+ * @module TrashController
+ * @category Controllers
+ * @category Content
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const trashController = new TrashController(prisma);
+ *
+ * router.get('/trash', authenticateToken, requireRole(['admin']), trashController.getTrash);
+ * router.post('/exercises/:id/restore', authenticateToken, requireRole(['admin']), trashController.restoreExercise);
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient } from "@prisma/client";
+import { TrashService } from "../services";
+import { ContentEntityType, TrashQuery } from "../types";
+import { ApiResponse, ErrorCodes, HttpStatus } from "../../../shared/types";
+import { AppError } from "@/shared/middleware";
+
+export class TrashController {
+    private trashService: TrashService;
+
+    /**
+     * Initializes the TrashController with required service dependencies.
+     *
+     * @param {PrismaClient} prisma - Prisma database client for service layer initialization
+     */
+    constructor(prisma: PrismaClient) {
+        this.trashService = new TrashService(prisma);
+    }
+
+    /**
+     * Lists trashed content that can be restored, most recently deleted first.
+     *
+     * @param {Request} req - Express request object with page, limit, type and course_id query parameters
+     * @param {Response} res - Express response object
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     *
+     * @example
+     * // GET /api/v1/trash?type=lesson&course_id=spanish-101
+     * // Response: { "data": [{ "entity_type": "lesson", "id": "lesson-001", "purge_at": "..." }], "meta": { ... }, "success": true, ... }
+     */
+    getTrash = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            const query = req.query as unknown as TrashQuery;
+            const result = await this.trashService.getTrash({
+                page: query.page,
+                limit: query.limit,
+                ...(query.type && { type: query.type }),
+                ...(query.course_id && { course_id: query.course_id }),
+            });
+
+            const response: ApiResponse = {
+                data: result.data,
+                meta: {
+                    page: result.pagination.page,
+                    limit: result.pagination.limit,
+                    total: result.pagination.total,
+                    totalPages: result.pagination.totalPages,
+                },
+                success: true,
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(HttpStatus.OK).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /** Restores a course with its content. POST /courses/:id/restore */
+    restoreCourse = this.createRestoreHandler("course", "Course");
+
+    /** Restores a level of a course with its content. POST /courses/:courseId/levels/:id/restore */
+    restoreLevel = this.createRestoreHandler("level", "Level", "courseId");
+
+    /** Restores a section of a level with its content. POST /levels/:levelId/sections/:id/restore */
+    restoreSection = this.createRestoreHandler("section", "Section", "levelId");
+
+    /** Restores a module of a section with its lessons. POST /sections/:sectionId/modules/:id/restore */
+    restoreModule = this.createRestoreHandler("module", "Module", "sectionId");
+
+    /** Restores a lesson of a module. POST /modules/:moduleId/lessons/:id/restore */
+    restoreLesson = this.createRestoreHandler("lesson", "Lesson", "moduleId");
+
+    /** Restores an exercise into the lessons using it. POST /exercises/:id/restore */
+    restoreExercise = this.createRestoreHandler("exercise", "Exercise");
+
+    /**
+     * Builds the handler restoring one type of content, checking the parent given in the route.
+     *
+     * @private
+     */
+    private createRestoreHandler(entityType: ContentEntityType, entityName: string, parentParam?: string) {
+        return async (
+            req: Request,
+            res: Response,
+            next: NextFunction,
+        ): Promise<void> => {
+            try {
+                const { id } = req.params;
+                const parentId = parentParam ? req.params[parentParam] : undefined;
+                if (!id || (parentParam && !parentId)) {
+                    throw new AppError(
+                        `${entityName} ID is required in URL parameters.`,
+                        HttpStatus.BAD_REQUEST,
+                        ErrorCodes.VALIDATION_ERROR,
+                    );
+                }
+
+                const entity = await this.trashService.restore(entityType, id, parentId);
+
+                const response: ApiResponse = {
+                    data: entity,
+                    success: true,
+                    message: `${entityName} restored successfully`,
+                    timestamp: new Date().toISOString(),
+                };
+
+                res.status(HttpStatus.OK).json(response);
+            } catch (error) {
+                next(error);
+            }
+        };
+    }
+}
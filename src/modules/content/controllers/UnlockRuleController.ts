@@ -0,0 +1,218 @@
+// src/modules/content/controllers/UnlockRuleController.ts
+
+/**
+ * HTTP controller for course unlock rules.
+ *
+ * Content creators use these endpoints to attach declarative unlock rules (previous lesson
+ * completed, minimum score, level exam passed, XP threshold) to the levels, sections, modules and
+ * lessons of a course. Learners can retrieve the evaluated lock state of a whole course. Rule
+ * evaluation lives in the UnlockRuleService, which is also used by the progress module to reject
+ * completions of locked lessons.
+ *
+ * @module UnlockRuleController
+ * @category Controllers
+ * @category Content
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const unlockRuleController = new UnlockRuleController(prisma);
+ *
+ * router.get('/courses/:courseId/unlock-rules', unlockRuleController.getRules);
+ * router.post('/courses/:courseId/unlock-rules', unlockRuleController.createRule);
+ * router.delete('/courses/:courseId/unlock-rules/:id', unlockRuleController.deleteRule);
+ * router.get('/courses/:courseId/unlock-status', unlockRuleController.getUnlockStatus);
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient } from "@prisma/client";
+import { UnlockRuleService } from "../services";
+import { CreateUnlockRuleDto } from "../types";
+import { ApiResponse, ErrorCodes, HttpStatus } from "../../../shared/types";
+import { AppError } from "@/shared/middleware";
+
+/**
+ * HTTP controller class for unlock rule management and evaluation.
+ */
+export class UnlockRuleController {
+    private unlockRuleService: UnlockRuleService;
+
+    /**
+     * Initializes the UnlockRuleController with required service dependencies.
+     *
+     * @param {PrismaClient} prisma - Prisma database client for service layer initialization
+     */
+    constructor(prisma: PrismaClient) {
+        this.unlockRuleService = new UnlockRuleService(prisma);
+    }
+
+    /**
+     * Lists the unlock rules of a course.
+     *
+     * @param {Request} req - Express request object with course ID in params
+     * @param {Response} res - Express response object
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     *
+     * @example
+     * // GET /api/v1/courses/spanish-101/unlock-rules
+     * // Response: { "data": [{ "id": "...", "target_type": "level", "rule_type": "xp_threshold", ... }], "success": true, "timestamp": "..." }
+     */
+    getRules = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            const { courseId } = req.params;
+            if (!courseId) {
+                throw new AppError(
+                    "Course ID is required in URL parameters.",
+                    HttpStatus.BAD_REQUEST,
+                    ErrorCodes.VALIDATION_ERROR,
+                );
+            }
+
+            const rules = await this.unlockRuleService.getRules(courseId);
+
+            const response: ApiResponse = {
+                data: rules,
+                success: true,
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(HttpStatus.OK).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Attaches an unlock rule to content of a course.
+     *
+     * @param {Request} req - Express request object with course ID in params and rule definition in body
+     * @param {Response} res - Express response object
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     *
+     * @example
+     * // POST /api/v1/courses/spanish-101/unlock-rules
+     * // Body: { "target_type": "module", "target_id": "module-002", "rule_type": "minimum_score", "min_score": 80 }
+     */
+    createRule = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            const { courseId } = req.params;
+            if (!courseId) {
+                throw new AppError(
+                    "Course ID is required in URL parameters.",
+                    HttpStatus.BAD_REQUEST,
+                    ErrorCodes.VALIDATION_ERROR,
+                );
+            }
+
+            const rule = await this.unlockRuleService.createRule(courseId, req.body as CreateUnlockRuleDto);
+
+            const response: ApiResponse = {
+                data: rule,
+                success: true,
+                message: "Unlock rule created successfully",
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(HttpStatus.CREATED).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Removes an unlock rule from a course.
+     *
+     * @param {Request} req - Express request object with course ID and rule ID in params
+     * @param {Response} res - Express response object
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     */
+    deleteRule = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            const { courseId, id } = req.params;
+            if (!courseId || !id) {
+                throw new AppError(
+                    "Course ID and unlock rule ID are required in URL parameters.",
+                    HttpStatus.BAD_REQUEST,
+                    ErrorCodes.VALIDATION_ERROR,
+                );
+            }
+
+            await this.unlockRuleService.deleteRule(courseId, id);
+
+            const response: ApiResponse = {
+                success: true,
+                message: "Unlock rule deleted successfully",
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(HttpStatus.OK).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * Evaluates the lock state of every level, section, module and lesson of a course for the
+     * authenticated learner.
+     *
+     * @param {Request} req - Express request object with course ID in params
+     * @param {Response} res - Express response object
+     * @param {NextFunction} next - Express next function for error handling
+     * @returns {Promise<void>} Resolves when response is sent or error is passed to middleware
+     *
+     * @example
+     * // GET /api/v1/courses/spanish-101/unlock-status
+     * // Response: { "data": { "course_id": "spanish-101", "items": [{ "target_type": "lesson", "target_id": "...", "locked": true, "unmet_rules": [...] }] }, ... }
+     */
+    getUnlockStatus = async (
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> => {
+        try {
+            const { courseId } = req.params;
+            const userId = req.user?.sub;
+            if (!courseId) {
+                throw new AppError(
+                    "Course ID is required in URL parameters.",
+                    HttpStatus.BAD_REQUEST,
+                    ErrorCodes.VALIDATION_ERROR,
+                );
+            }
+            if (!userId) {
+                throw new AppError(
+                    "User not authenticated",
+                    HttpStatus.UNAUTHORIZED,
+                    ErrorCodes.AUTHENTICATION_ERROR,
+                );
+            }
+
+            const status = await this.unlockRuleService.getCourseUnlockStatus(userId, courseId);
+
+            const response: ApiResponse = {
+                data: status,
+                success: true,
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(HttpStatus.OK).json(response);
+        } catch (error) {
+            next(error);
+        }
+    };
+}
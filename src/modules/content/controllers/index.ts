@@ -1,3 +1,10 @@
 export { ContentController } from './ContentController';
 export { LessonController } from './LessonController';
-export { ExerciseController } from './ExerciseController';
\ No newline at end of file
+export { ExerciseController } from './ExerciseController';
+export { UnlockRuleController } from './UnlockRuleController';
+export { CourseVersionController } from './CourseVersionController';
+export { CourseCollaboratorController } from './CourseCollaboratorController';
+export { TrashController } from './TrashController';
+export { CourseArchiveController } from './CourseArchiveController';
+export { CourseAnalyticsController } from './CourseAnalyticsController';
+export { EnrollmentController } from './EnrollmentController';
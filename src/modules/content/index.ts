@@ -4,4 +4,5 @@ export * from './schemas';
 export * from './repositories';
 export * from './services';
 export * from './controllers';
+export * from './middleware';
 export * from './routes';
\ No newline at end of file
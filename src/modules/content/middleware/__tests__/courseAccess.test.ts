@@ -0,0 +1,210 @@
+// src/modules/content/middleware/__tests__/courseAccess.test.ts
+
+import { createCourseReaderMiddleware, createCourseRoleMiddleware, createExerciseCourseRoleMiddleware } from '../courseAccess';
+import { CourseCollaboratorService } from '../../services/CourseCollaboratorService';
+import { EnrollmentService } from '../../services/EnrollmentService';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+import { ErrorCodes, HttpStatus, JWTPayload } from '../../../../shared/types';
+import { mockRequest, mockResponse } from '../../../../shared/test/mocks';
+
+jest.mock('../../services/CourseCollaboratorService');
+jest.mock('../../services/EnrollmentService');
+jest.mock('../../../../shared/utils/logger', () => ({
+    logger: {
+        warn: jest.fn(),
+    },
+}));
+
+/**
+ * Test suite for the requireCourseRole, requireExerciseCourseRole and requireCourseReader middleware,
+ * covering the admin bypass, the resolution of the course from route parameters, the course role
+ * check and read access to private courses.
+ */
+describe('requireCourseRole', () => {
+    let mockService: jest.Mocked<CourseCollaboratorService>;
+    let requireCourseRole: ReturnType<typeof createCourseRoleMiddleware>;
+    const next = jest.fn();
+
+    const user = (role: JWTPayload['role']): JWTPayload => ({
+        sub: 'user-1',
+        email: 'ana@example.com',
+        role,
+        iat: 1234567890,
+        exp: 9999999999,
+    });
+
+    beforeEach(() => {
+        next.mockReset();
+        mockService = {
+            resolveCourseId: jest.fn(),
+            hasCourseRole: jest.fn(),
+        } as any;
+        (CourseCollaboratorService as jest.MockedClass<typeof CourseCollaboratorService>).mockImplementation(() => mockService);
+
+        requireCourseRole = createCourseRoleMiddleware({} as any);
+    });
+
+    it('should allow collaborators with a high enough role', async () => {
+        mockService.resolveCourseId.mockResolvedValue('course-1');
+        mockService.hasCourseRole.mockResolvedValue(true);
+        const req = mockRequest({ user: user('content_creator'), params: { lessonId: 'lesson-1' } });
+
+        await requireCourseRole('editor')(req, mockResponse(), next);
+
+        expect(mockService.resolveCourseId).toHaveBeenCalledWith({ lessonId: 'lesson-1' });
+        expect(mockService.hasCourseRole).toHaveBeenCalledWith('user-1', 'course-1', 'editor');
+        expect(next).toHaveBeenCalledWith();
+    });
+
+    it('should deny users without a high enough role in the course', async () => {
+        mockService.resolveCourseId.mockResolvedValue('course-1');
+        mockService.hasCourseRole.mockResolvedValue(false);
+        const req = mockRequest({ user: user('content_creator'), params: { id: 'course-1' } });
+
+        await requireCourseRole('owner')(req, mockResponse(), next);
+
+        expect(next).toHaveBeenCalledWith(
+            new AppError('Insufficient course permissions', HttpStatus.FORBIDDEN, ErrorCodes.AUTHORIZATION_ERROR)
+        );
+    });
+
+    it('should let admins through without a course role', async () => {
+        const req = mockRequest({ user: user('admin'), params: { id: 'course-1' } });
+
+        await requireCourseRole('owner')(req, mockResponse(), next);
+
+        expect(next).toHaveBeenCalledWith();
+        expect(mockService.resolveCourseId).not.toHaveBeenCalled();
+    });
+
+    it('should report content that does not belong to any course as not found', async () => {
+        mockService.resolveCourseId.mockResolvedValue(null);
+        const req = mockRequest({ user: user('content_creator'), params: { sectionId: 'missing' } });
+
+        await requireCourseRole('viewer')(req, mockResponse(), next);
+
+        expect(next).toHaveBeenCalledWith(
+            new AppError('Course not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND)
+        );
+    });
+
+    it('should require authentication', async () => {
+        await requireCourseRole('viewer')(mockRequest({ params: { id: 'course-1' } }), mockResponse(), next);
+
+        expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: HttpStatus.UNAUTHORIZED }));
+    });
+});
+
+describe('requireExerciseCourseRole', () => {
+    let mockService: jest.Mocked<CourseCollaboratorService>;
+    let requireExerciseCourseRole: ReturnType<typeof createExerciseCourseRoleMiddleware>;
+    const next = jest.fn();
+
+    const user = (role: JWTPayload['role']): JWTPayload => ({
+        sub: 'user-1',
+        email: 'ana@example.com',
+        role,
+        iat: 1234567890,
+        exp: 9999999999,
+    });
+
+    beforeEach(() => {
+        next.mockReset();
+        mockService = {
+            hasRoleInExerciseCourses: jest.fn(),
+        } as any;
+        (CourseCollaboratorService as jest.MockedClass<typeof CourseCollaboratorService>).mockImplementation(() => mockService);
+
+        requireExerciseCourseRole = createExerciseCourseRoleMiddleware({} as any);
+    });
+
+    it('should allow users with the role in every course using the exercise', async () => {
+        mockService.hasRoleInExerciseCourses.mockResolvedValue(true);
+        const req = mockRequest({ user: user('content_creator'), params: { id: 'exercise-1' } });
+
+        await requireExerciseCourseRole('editor')(req, mockResponse(), next);
+
+        expect(mockService.hasRoleInExerciseCourses).toHaveBeenCalledWith('user-1', 'exercise-1', 'editor');
+        expect(next).toHaveBeenCalledWith();
+    });
+
+    it('should deny users without the role in a course using the exercise', async () => {
+        mockService.hasRoleInExerciseCourses.mockResolvedValue(false);
+        const req = mockRequest({ user: user('content_creator'), params: { id: 'exercise-1' } });
+
+        await requireExerciseCourseRole('editor')(req, mockResponse(), next);
+
+        expect(next).toHaveBeenCalledWith(
+            new AppError('Insufficient course permissions', HttpStatus.FORBIDDEN, ErrorCodes.AUTHORIZATION_ERROR)
+        );
+    });
+
+    it('should let admins through without a course role', async () => {
+        const req = mockRequest({ user: user('admin'), params: { id: 'exercise-1' } });
+
+        await requireExerciseCourseRole('editor')(req, mockResponse(), next);
+
+        expect(next).toHaveBeenCalledWith();
+        expect(mockService.hasRoleInExerciseCourses).not.toHaveBeenCalled();
+    });
+});
+
+describe('requireCourseReader', () => {
+    let mockCollaboratorService: jest.Mocked<CourseCollaboratorService>;
+    let mockEnrollmentService: jest.Mocked<EnrollmentService>;
+    let requireCourseReader: ReturnType<typeof createCourseReaderMiddleware>;
+    const next = jest.fn();
+
+    const learner: JWTPayload = {
+        sub: 'user-1',
+        email: 'ana@example.com',
+        role: 'student',
+        iat: 1234567890,
+        exp: 9999999999,
+    };
+
+    beforeEach(() => {
+        next.mockReset();
+        mockCollaboratorService = {
+            resolveCourseId: jest.fn().mockResolvedValue('course-1'),
+        } as any;
+        mockEnrollmentService = {
+            canReadCourse: jest.fn(),
+        } as any;
+        (CourseCollaboratorService as jest.MockedClass<typeof CourseCollaboratorService>).mockImplementation(() => mockCollaboratorService);
+        (EnrollmentService as jest.MockedClass<typeof EnrollmentService>).mockImplementation(() => mockEnrollmentService);
+
+        requireCourseReader = createCourseReaderMiddleware({} as any);
+    });
+
+    it('should allow users who can read the course', async () => {
+        mockEnrollmentService.canReadCourse.mockResolvedValue(true);
+        const req = mockRequest({ user: learner, params: { moduleId: 'module-1' } });
+
+        await requireCourseReader(req, mockResponse(), next);
+
+        expect(mockCollaboratorService.resolveCourseId).toHaveBeenCalledWith({ moduleId: 'module-1' });
+        expect(mockEnrollmentService.canReadCourse).toHaveBeenCalledWith('course-1', learner);
+        expect(next).toHaveBeenCalledWith();
+    });
+
+    it('should report private courses as not found to users who cannot read them', async () => {
+        mockEnrollmentService.canReadCourse.mockResolvedValue(false);
+
+        await requireCourseReader(mockRequest({ user: undefined, params: { id: 'course-1' } }), mockResponse(), next);
+
+        expect(mockEnrollmentService.canReadCourse).toHaveBeenCalledWith('course-1', undefined);
+        expect(next).toHaveBeenCalledWith(
+            new AppError('Course not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND)
+        );
+    });
+
+    it('should leave content that does not exist to the controller', async () => {
+        mockCollaboratorService.resolveCourseId.mockResolvedValue(null);
+
+        await requireCourseReader(mockRequest({ params: { lessonId: 'missing' } }), mockResponse(), next);
+
+        expect(next).toHaveBeenCalledWith();
+        expect(mockEnrollmentService.canReadCourse).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,166 @@
+// src/modules/content/middleware/courseAccess.ts
+
+/**
+ * Course-level authorization middleware.
+ *
+ * `requireRole` decides what a user may do across the platform; `requireCourseRole` decides what
+ * they may do in one course, based on their collaborator role in it (see CourseCollaboratorService).
+ * The course is resolved from the route parameters, so the same middleware protects course, level,
+ * section, module and lesson routes. Admins pass without a collaborator role.
+ *
+ * `requireExerciseCourseRole` protects changes to an exercise, which can be shared by several
+ * courses: it requires the role in every course with a lesson using the exercise.
+ *
+ * `requireCourseReader` protects the content of private courses, which only their enrolled learners,
+ * their collaborators and admins can read (see EnrollmentService). Public courses pass for everyone,
+ * so it runs after `optionalAuth` on public routes.
+ *
+ * Runs after `authenticateToken`, and after parameter validation so malformed IDs never reach the
+ * database.
+ *
+ * @module CourseAccessMiddleware
+ * @category Middleware
+ * @category Content
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const requireCourseRole = createCourseRoleMiddleware(prisma);
+ *
+ * router.put('/modules/:moduleId/lessons/:id',
+ *   authenticateToken,
+ *   requireRole(['admin', 'content_creator']),
+ *   validate({ params: ModuleParamSchema.extend({ id: IdParamSchema.shape.id }), body: UpdateLessonSchema }),
+ *   requireCourseRole('editor'),
+ *   lessonController.updateLesson
+ * );
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { CourseCollaboratorService } from '../services/CourseCollaboratorService';
+import { EnrollmentService } from '../services/EnrollmentService';
+import { CourseRole } from '../types';
+import { AppError } from '../../../shared/middleware/errorHandler';
+import { ErrorCodes, HttpStatus } from '../../../shared/types';
+import { logger } from '../../../shared/utils/logger';
+
+/**
+ * Creates the `requireCourseRole` middleware factory bound to a database client.
+ *
+ * @param {PrismaClient} prisma - Prisma database client
+ * @returns {(minRole: CourseRole) => RequestHandler} Factory of middleware requiring at least `minRole` in the course
+ */
+export const createCourseRoleMiddleware = (prisma: PrismaClient) => {
+  const courseCollaboratorService = new CourseCollaboratorService(prisma);
+
+  return (minRole: CourseRole): RequestHandler =>
+    async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+      try {
+        if (!req.user) {
+          throw new AppError('Authentication required', HttpStatus.UNAUTHORIZED, ErrorCodes.AUTHENTICATION_ERROR);
+        }
+
+        if (req.user.role === 'admin') {
+          return next();
+        }
+
+        const courseId = await courseCollaboratorService.resolveCourseId(req.params);
+        if (!courseId) {
+          throw new AppError('Course not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+        }
+
+        const allowed = await courseCollaboratorService.hasCourseRole(req.user.sub, courseId, minRole);
+        if (!allowed) {
+          logger.warn('Access denied - insufficient course role', {
+            userId: req.user.sub,
+            courseId,
+            requiredRole: minRole
+          });
+
+          throw new AppError('Insufficient course permissions', HttpStatus.FORBIDDEN, ErrorCodes.AUTHORIZATION_ERROR);
+        }
+
+        next();
+      } catch (error) {
+        next(error);
+      }
+    };
+};
+
+/**
+ * Creates the `requireExerciseCourseRole` middleware factory bound to a database client. The
+ * exercise is read from the `id` route parameter.
+ *
+ * @param {PrismaClient} prisma - Prisma database client
+ * @returns {(minRole: CourseRole) => RequestHandler} Factory of middleware requiring at least `minRole` in every course using the exercise
+ */
+export const createExerciseCourseRoleMiddleware = (prisma: PrismaClient) => {
+  const courseCollaboratorService = new CourseCollaboratorService(prisma);
+
+  return (minRole: CourseRole): RequestHandler =>
+    async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+      try {
+        if (!req.user) {
+          throw new AppError('Authentication required', HttpStatus.UNAUTHORIZED, ErrorCodes.AUTHENTICATION_ERROR);
+        }
+
+        if (req.user.role === 'admin') {
+          return next();
+        }
+
+        const exerciseId = req.params['id'];
+        const allowed = !!exerciseId
+          && await courseCollaboratorService.hasRoleInExerciseCourses(req.user.sub, exerciseId, minRole);
+        if (!allowed) {
+          logger.warn('Access denied - insufficient course role for exercise', {
+            userId: req.user.sub,
+            exerciseId,
+            requiredRole: minRole
+          });
+
+          throw new AppError('Insufficient course permissions', HttpStatus.FORBIDDEN, ErrorCodes.AUTHORIZATION_ERROR);
+        }
+
+        next();
+      } catch (error) {
+        next(error);
+      }
+    };
+};
+
+/**
+ * Creates the `requireCourseReader` middleware bound to a database client. Private courses are
+ * reported as not found to users who cannot read them, so their existence is not disclosed. Requests
+ * for content that does not exist are passed on for the controller to report.
+ *
+ * @param {PrismaClient} prisma - Prisma database client
+ * @returns {RequestHandler} Middleware requiring read access to the course the route targets
+ */
+export const createCourseReaderMiddleware = (prisma: PrismaClient): RequestHandler => {
+  const courseCollaboratorService = new CourseCollaboratorService(prisma);
+  const enrollmentService = new EnrollmentService(prisma);
+
+  return async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const courseId = await courseCollaboratorService.resolveCourseId(req.params);
+      if (!courseId) {
+        return next();
+      }
+
+      const allowed = await enrollmentService.canReadCourse(courseId, req.user);
+      if (!allowed) {
+        logger.warn('Access denied - private course', {
+          userId: req.user?.sub,
+          courseId
+        });
+
+        throw new AppError('Course not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
@@ -0,0 +1 @@
+export { createCourseReaderMiddleware, createCourseRoleMiddleware, createExerciseCourseRoleMiddleware } from './courseAccess';
@@ -0,0 +1,129 @@
+import { PrismaClient } from "@prisma/client";
+import {
+  ContentChange,
+  ContentChangeInput,
+  ContentChangeOperation,
+  ContentEntityType,
+} from "../types";
+
+export class ContentChangeRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Increments the course revision and records the changes under the new revision.
+   * Returns the new revision.
+   */
+  async recordChanges(courseId: string, changes: ContentChangeInput[]): Promise<number> {
+    return await this.prisma.$transaction(async (tx) => {
+      const course = await tx.course.update({
+        where: { id: courseId },
+        data: { revision: { increment: 1 } },
+        select: { revision: true },
+      });
+
+      await tx.contentChange.createMany({
+        data: changes.map((change) => ({
+          courseId,
+          revision: course.revision,
+          entityType: change.entity_type,
+          entityId: change.entity_id,
+          operation: change.operation,
+        })),
+      });
+
+      return course.revision;
+    });
+  }
+
+  async findCourseRevision(courseId: string): Promise<number | null> {
+    const course = await this.prisma.course.findUnique({
+      where: { id: courseId },
+      select: { revision: true },
+    });
+
+    return course?.revision ?? null;
+  }
+
+  async findChangesBetween(courseId: string, since: number, until: number): Promise<ContentChange[]> {
+    const changes = await this.prisma.contentChange.findMany({
+      where: { courseId, revision: { gt: since, lte: until } },
+      orderBy: [{ revision: "asc" }, { changedAt: "asc" }],
+      select: { entityType: true, entityId: true, operation: true, revision: true },
+    });
+
+    return changes.map((change) => ({
+      entity_type: change.entityType as ContentEntityType,
+      entity_id: change.entityId,
+      operation: change.operation as ContentChangeOperation,
+      revision: change.revision,
+    }));
+  }
+
+  /**
+   * Resolves the course a level, section, module or lesson belongs to.
+   * Returns null when the content does not exist.
+   */
+  async findCourseId(
+    entityType: "level" | "section" | "module" | "lesson",
+    entityId: string,
+  ): Promise<string | null> {
+    switch (entityType) {
+      case "level": {
+        const level = await this.prisma.level.findUnique({
+          where: { id: entityId },
+          select: { courseId: true },
+        });
+        return level?.courseId ?? null;
+      }
+      case "section": {
+        const section = await this.prisma.section.findUnique({
+          where: { id: entityId },
+          select: { level: { select: { courseId: true } } },
+        });
+        return section?.level.courseId ?? null;
+      }
+      case "module": {
+        const module = await this.prisma.module.findUnique({
+          where: { id: entityId },
+          select: { section: { select: { level: { select: { courseId: true } } } } },
+        });
+        return module?.section.level.courseId ?? null;
+      }
+      case "lesson": {
+        const lesson = await this.prisma.lesson.findUnique({
+          where: { id: entityId },
+          select: {
+            module: {
+              select: { section: { select: { level: { select: { courseId: true } } } } },
+            },
+          },
+        });
+        return lesson?.module.section.level.courseId ?? null;
+      }
+    }
+  }
+
+  /**
+   * Lists the lessons an exercise is assigned to, together with their course.
+   */
+  async findExerciseUsage(exerciseId: string): Promise<{ course_id: string; lesson_id: string }[]> {
+    const assignments = await this.prisma.lessonExercise.findMany({
+      where: { exerciseId },
+      select: {
+        lessonId: true,
+        lesson: {
+          select: {
+            module: {
+              select: { section: { select: { level: { select: { courseId: true } } } } },
+            },
+          },
+        },
+      },
+    });
+
+    return assignments.map((assignment) => ({
+      course_id: assignment.lesson.module.section.level.courseId,
+      lesson_id: assignment.lessonId,
+    }));
+  }
+}
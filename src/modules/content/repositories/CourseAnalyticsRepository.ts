@@ -0,0 +1,115 @@
+import { PrismaClient } from "@prisma/client";
+import { CourseAnalyticsOutline, CourseLessonCompletion, LessonActivity } from "../types";
+
+export class CourseAnalyticsRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Loads the ordered level → section → module → lesson structure of a course with names.
+   * Content in the trash is left out.
+   */
+  async findCourseOutline(courseId: string): Promise<CourseAnalyticsOutline | null> {
+    const course = await this.prisma.course.findUnique({
+      where: { id: courseId, deletedAt: null },
+      select: {
+        id: true,
+        levels: {
+          where: { deletedAt: null },
+          orderBy: { order: "asc" },
+          select: {
+            id: true,
+            name: true,
+            sections: {
+              where: { deletedAt: null },
+              orderBy: { order: "asc" },
+              select: {
+                id: true,
+                name: true,
+                modules: {
+                  where: { deletedAt: null },
+                  orderBy: { order: "asc" },
+                  select: {
+                    id: true,
+                    name: true,
+                    lessons: {
+                      where: { deletedAt: null },
+                      orderBy: { order: "asc" },
+                      select: { id: true, name: true },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!course) return null;
+
+    return { course_id: course.id, levels: course.levels };
+  }
+
+  /**
+   * Counts the learners enrolled in a course before a date, and those of them who enrolled on or after another date.
+   */
+  async countEnrollments(courseId: string, since: Date, until: Date): Promise<{ total: number; new: number }> {
+    const [total, recent] = await Promise.all([
+      this.prisma.enrollment.count({ where: { courseId, enrolledAt: { lt: until } } }),
+      this.prisma.enrollment.count({ where: { courseId, enrolledAt: { gte: since, lt: until } } }),
+    ]);
+
+    return { total, new: recent };
+  }
+
+  /**
+   * Lists the completions of the given lessons made before a date.
+   */
+  async findCompletions(lessonIds: string[], until: Date): Promise<CourseLessonCompletion[]> {
+    const completions = await this.prisma.lessonCompletion.findMany({
+      where: { lessonId: { in: lessonIds }, completedAt: { lt: until } },
+      select: { userId: true, lessonId: true, completedAt: true, score: true, timeSpentSeconds: true },
+    });
+
+    return completions.map((completion) => ({
+      user_id: completion.userId,
+      lesson_id: completion.lessonId,
+      date: completion.completedAt,
+      score: completion.score,
+      time_spent_seconds: completion.timeSpentSeconds,
+    }));
+  }
+
+  /**
+   * Lists, for every learner and lesson, the first exercise attempt made in the lesson before a date.
+   */
+  async findFirstAttempts(lessonIds: string[], until: Date): Promise<LessonActivity[]> {
+    const groups = await this.prisma.exerciseAttempt.groupBy({
+      by: ["userId", "lessonId"],
+      where: { lessonId: { in: lessonIds }, createdAt: { lt: until } },
+      _min: { createdAt: true },
+    });
+
+    return groups.map((group) => ({
+      user_id: group.userId,
+      lesson_id: group.lessonId,
+      date: group._min.createdAt as Date,
+    }));
+  }
+
+  /**
+   * Lists the exercise attempts made in the given lessons between two dates.
+   */
+  async findAttempts(lessonIds: string[], since: Date, until: Date): Promise<LessonActivity[]> {
+    const attempts = await this.prisma.exerciseAttempt.findMany({
+      where: { lessonId: { in: lessonIds }, createdAt: { gte: since, lt: until } },
+      select: { userId: true, lessonId: true, createdAt: true },
+    });
+
+    return attempts.map((attempt) => ({
+      user_id: attempt.userId,
+      lesson_id: attempt.lessonId,
+      date: attempt.createdAt,
+    }));
+  }
+}
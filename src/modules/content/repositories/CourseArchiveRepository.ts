@@ -0,0 +1,135 @@
+import { ExerciseType, ModuleType, Prisma, PrismaClient } from "@prisma/client";
+import { ArchiveConflict, ContentEntityType, CourseArchive } from "../types";
+
+/**
+ * Bulk reads and writes for course archives.
+ *
+ * Imports create the whole course in one transaction, so a failing archive leaves nothing behind.
+ * The archive is expected to be validated and its IDs final (preserved or remapped) before it gets here.
+ */
+export class CourseArchiveRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Finds which of the given IDs are already taken, counting content in the trash.
+   */
+  async findTakenIds(ids: Record<ContentEntityType, string[]>): Promise<ArchiveConflict[]> {
+    const select = { id: true } as const;
+    const [courses, levels, sections, modules, lessons, exercises] = await Promise.all([
+      this.prisma.course.findMany({ where: { id: { in: ids.course } }, select }),
+      this.prisma.level.findMany({ where: { id: { in: ids.level } }, select }),
+      this.prisma.section.findMany({ where: { id: { in: ids.section } }, select }),
+      this.prisma.module.findMany({ where: { id: { in: ids.module } }, select }),
+      this.prisma.lesson.findMany({ where: { id: { in: ids.lesson } }, select }),
+      this.prisma.exercise.findMany({ where: { id: { in: ids.exercise } }, select }),
+    ]);
+
+    const conflicts = (entityType: ContentEntityType, rows: { id: string }[]): ArchiveConflict[] =>
+      rows.map((row) => ({ entity_type: entityType, id: row.id }));
+
+    return [
+      ...conflicts("course", courses),
+      ...conflicts("level", levels),
+      ...conflicts("section", sections),
+      ...conflicts("module", modules),
+      ...conflicts("lesson", lessons),
+      ...conflicts("exercise", exercises),
+    ];
+  }
+
+  /**
+   * Creates the course, its content, its exercises and its unlock rules from an archive.
+   * The importing user becomes the owner of the course.
+   */
+  async importCourse(archive: CourseArchive, ownerId?: string): Promise<void> {
+    const levels = archive.levels;
+    const sections = levels.flatMap((level) => level.sections.map((section) => ({ ...section, level_id: level.id })));
+    const modules = sections.flatMap((section) => section.modules.map((module) => ({ ...module, section_id: section.id })));
+    const lessons = modules.flatMap((module) => module.lessons.map((lesson) => ({ ...lesson, module_id: module.id })));
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.course.create({
+        data: {
+          id: archive.course.id,
+          sourceLanguage: archive.course.source_language,
+          targetLanguage: archive.course.target_language,
+          name: archive.course.name,
+          description: archive.course.description ?? null,
+          isPublic: archive.course.is_public,
+          ...(ownerId && {
+            collaborators: {
+              create: { userId: ownerId, role: "owner", acceptedAt: new Date() },
+            },
+          }),
+        },
+      });
+
+      await tx.level.createMany({
+        data: levels.map((level) => ({
+          id: level.id,
+          courseId: archive.course.id,
+          code: level.code,
+          name: level.name,
+          order: level.order,
+        })),
+      });
+      await tx.section.createMany({
+        data: sections.map((section) => ({
+          id: section.id,
+          levelId: section.level_id,
+          name: section.name,
+          order: section.order,
+        })),
+      });
+      await tx.module.createMany({
+        data: modules.map((module) => ({
+          id: module.id,
+          sectionId: module.section_id,
+          moduleType: module.module_type as ModuleType,
+          name: module.name,
+          order: module.order,
+        })),
+      });
+      await tx.lesson.createMany({
+        data: lessons.map((lesson) => ({
+          id: lesson.id,
+          moduleId: lesson.module_id,
+          name: lesson.name,
+          description: lesson.description ?? null,
+          experiencePoints: lesson.experience_points,
+          order: lesson.order,
+        })),
+      });
+
+      // Archives use the API exercise type names
+      await tx.exercise.createMany({
+        data: archive.exercises.map((exercise) => ({
+          id: exercise.id,
+          exerciseType: exercise.exercise_type.replace(/-/g, "_") as ExerciseType,
+          data: exercise.data as Prisma.InputJsonValue,
+        })),
+      });
+      await tx.lessonExercise.createMany({
+        data: lessons.flatMap((lesson) =>
+          lesson.exercises.map((assignment) => ({
+            lessonId: lesson.id,
+            exerciseId: assignment.exercise_id,
+            order: assignment.order,
+          }))
+        ),
+      });
+
+      await tx.unlockRule.createMany({
+        data: archive.unlock_rules.map((rule) => ({
+          courseId: archive.course.id,
+          targetType: rule.target_type,
+          targetId: rule.target_id,
+          ruleType: rule.rule_type,
+          referenceId: rule.reference_id ?? null,
+          minScore: rule.min_score ?? null,
+          minExperience: rule.min_experience ?? null,
+        })),
+      });
+    }, { timeout: 60000 });
+  }
+}
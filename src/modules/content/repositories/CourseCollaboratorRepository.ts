@@ -0,0 +1,141 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import { CourseCollaborator, CourseInvitation, CourseRole } from "../types";
+
+const collaboratorInclude = {
+  user: { select: { email: true, username: true } },
+} satisfies Prisma.CourseCollaboratorInclude;
+
+type PrismaCourseCollaborator = Prisma.CourseCollaboratorGetPayload<{ include: typeof collaboratorInclude }>;
+
+export class CourseCollaboratorRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Returns the role of a user in a course, or null when the user is not a collaborator
+   * or has not accepted the invitation yet.
+   */
+  async findRole(courseId: string, userId: string): Promise<CourseRole | null> {
+    const collaborator = await this.prisma.courseCollaborator.findUnique({
+      where: { courseId_userId: { courseId, userId } },
+      select: { role: true, acceptedAt: true },
+    });
+
+    return collaborator?.acceptedAt ? collaborator.role : null;
+  }
+
+  async find(courseId: string, userId: string): Promise<CourseCollaborator | null> {
+    const collaborator = await this.prisma.courseCollaborator.findUnique({
+      where: { courseId_userId: { courseId, userId } },
+      include: collaboratorInclude,
+    });
+
+    return collaborator ? this.mapPrismaToModel(collaborator) : null;
+  }
+
+  async findByCourseId(courseId: string): Promise<CourseCollaborator[]> {
+    const collaborators = await this.prisma.courseCollaborator.findMany({
+      where: { courseId },
+      include: collaboratorInclude,
+      orderBy: { createdAt: "asc" },
+    });
+
+    return collaborators.map((collaborator) => this.mapPrismaToModel(collaborator));
+  }
+
+  /**
+   * Stores a pending invitation.
+   */
+  async create(courseId: string, userId: string, role: CourseRole, invitedBy: string): Promise<CourseCollaborator> {
+    const collaborator = await this.prisma.courseCollaborator.create({
+      data: { courseId, userId, role, invitedBy },
+      include: collaboratorInclude,
+    });
+
+    return this.mapPrismaToModel(collaborator);
+  }
+
+  async updateRole(courseId: string, userId: string, role: CourseRole): Promise<CourseCollaborator> {
+    const collaborator = await this.prisma.courseCollaborator.update({
+      where: { courseId_userId: { courseId, userId } },
+      data: { role },
+      include: collaboratorInclude,
+    });
+
+    return this.mapPrismaToModel(collaborator);
+  }
+
+  async delete(courseId: string, userId: string): Promise<boolean> {
+    const { count } = await this.prisma.courseCollaborator.deleteMany({
+      where: { courseId, userId },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Counts the owners that have accepted their role.
+   */
+  async countOwners(courseId: string): Promise<number> {
+    return await this.prisma.courseCollaborator.count({
+      where: { courseId, role: "owner", acceptedAt: { not: null } },
+    });
+  }
+
+  async findInvitationsByUserId(userId: string): Promise<CourseInvitation[]> {
+    const invitations = await this.prisma.courseCollaborator.findMany({
+      where: { userId, acceptedAt: null },
+      include: { course: { select: { name: true } } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return invitations.map((invitation) => ({
+      course_id: invitation.courseId,
+      course_name: invitation.course.name,
+      role: invitation.role,
+      invited_by: invitation.invitedBy,
+      invited_at: invitation.createdAt,
+    }));
+  }
+
+  /**
+   * Accepts a pending invitation. Returns false when there is none.
+   */
+  async acceptInvitation(courseId: string, userId: string): Promise<boolean> {
+    const { count } = await this.prisma.courseCollaborator.updateMany({
+      where: { courseId, userId, acceptedAt: null },
+      data: { acceptedAt: new Date() },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Deletes a pending invitation. Returns false when there is none.
+   */
+  async deleteInvitation(courseId: string, userId: string): Promise<boolean> {
+    const { count } = await this.prisma.courseCollaborator.deleteMany({
+      where: { courseId, userId, acceptedAt: null },
+    });
+    return count > 0;
+  }
+
+  async findActiveUserIdByEmail(email: string): Promise<string | null> {
+    const user = await this.prisma.user.findFirst({
+      where: { email, isActive: true },
+      select: { id: true },
+    });
+    return user?.id ?? null;
+  }
+
+  private mapPrismaToModel(collaborator: PrismaCourseCollaborator): CourseCollaborator {
+    return {
+      course_id: collaborator.courseId,
+      user_id: collaborator.userId,
+      email: collaborator.user.email,
+      username: collaborator.user.username,
+      role: collaborator.role,
+      invited_by: collaborator.invitedBy,
+      accepted_at: collaborator.acceptedAt,
+      created_at: collaborator.createdAt,
+      updated_at: collaborator.updatedAt,
+    };
+  }
+}
@@ -70,7 +70,7 @@ import {
 const courseWithCountsPayload = Prisma.validator<Prisma.CourseDefaultArgs>()({
   include: {
     _count: {
-      select: { levels: true },
+      select: { levels: { where: { deletedAt: null } } },
     },
   },
 });
@@ -104,10 +104,11 @@ export class CourseRepository {
    * @param {string} data.name - Display name of the course
    * @param {string} [data.description] - Optional detailed description of the course
    * @param {boolean} [data.is_public] - Whether the course is publicly accessible (defaults to true)
+   * @param {string} [data.owner_id] - User who becomes the owner of the course
    * @returns {Promise<Course>} Promise resolving to the created course with transformed field names
    * @throws {Error} When database operation fails or constraint violations occur
    */
-  async create(data: CreateCourseDto & { id: string }): Promise<Course> {
+  async create(data: CreateCourseDto & { id: string; owner_id?: string }): Promise<Course> {
     const course = await this.prisma.course.create({
       data: {
         id: data.id,
@@ -116,6 +117,11 @@ export class CourseRepository {
         name: data.name,
         ...(data.description && { description: data.description }),
         isPublic: data.is_public ?? true,
+        ...(data.owner_id && {
+          collaborators: {
+            create: { userId: data.owner_id, role: "owner", acceptedAt: new Date() },
+          },
+        }),
       },
     });
 
@@ -140,10 +146,10 @@ export class CourseRepository {
    */
   async findById(id: string): Promise<(Course & { levels_count: number }) | null> {
     const course = await this.prisma.course.findUnique({
-      where: { id },
+      where: { id, deletedAt: null },
       include: {
         _count: {
-          select: { levels: true },
+          select: { levels: { where: { deletedAt: null } } },
         },
       },
     });
@@ -162,7 +168,10 @@ export class CourseRepository {
    * @param {number} [options.page=1] - Page number for pagination (1-based)
    * @param {number} [options.limit=20] - Maximum number of courses per page
    * @param {string} [options.search] - Text search query applied to course names and descriptions
-   * @param {Record<string, any>} [options.filters] - Filter conditions (supports 'is_public' boolean filter)
+   * @param {Record<string, any>} [options.filters] - Filter conditions (supports 'is_public' boolean filter,
+   * 'collaborator_id' to list only the courses a user has accepted a collaborator role in, and 'reader_id' to
+   * list only public courses and the private courses a user is enrolled in or collaborates on; null lists only
+   * public courses)
    * @param {string} [options.sortBy='created_at'] - Field to sort by (must be in allowed sort fields)
    * @param {'asc' | 'desc'} [options.sortOrder='desc'] - Sort direction
    * @returns {Promise<PaginatedResult<Course & { levels_count: number }>>} Promise resolving to paginated course results with level counts
@@ -173,7 +182,26 @@ export class CourseRepository {
     const searchWhere = buildTextSearchWhere(search, ['name', 'description']);
     const isPublicWhere = buildBooleanFilterWhere(filters["is_public"], 'isPublic');
 
-    const where = combineWhereConditions(searchWhere, isPublicWhere);
+    const collaboratorWhere = filters["collaborator_id"]
+      ? { collaborators: { some: { userId: filters["collaborator_id"], acceptedAt: { not: null } } } }
+      : {};
+
+    const readerId: string | null | undefined = filters["reader_id"];
+    const readerWhere = readerId !== undefined
+      ? {
+          OR: [
+            { isPublic: true },
+            ...(readerId
+              ? [
+                  { enrollments: { some: { userId: readerId } } },
+                  { collaborators: { some: { userId: readerId, acceptedAt: { not: null } } } },
+                ]
+              : []),
+          ],
+        }
+      : {};
+
+    const where = combineWhereConditions({ deletedAt: null }, searchWhere, isPublicWhere, collaboratorWhere, readerWhere);
 
     const [courses, total] = await Promise.all([
       this.prisma.course.findMany({
@@ -181,7 +209,7 @@ export class CourseRepository {
         where,
         include: {
           _count: {
-            select: { levels: true },
+            select: { levels: { where: { deletedAt: null } } },
           },
         },
       }),
@@ -222,7 +250,7 @@ export class CourseRepository {
       data: updateData,
       include: {
         _count: {
-          select: { levels: true },
+          select: { levels: { where: { deletedAt: null } } },
         },
       },
     });
@@ -230,38 +258,54 @@ export class CourseRepository {
     return this.mapPrismaToModel(course);
   }
 
-  /**
-   * Deletes a course from the database by its unique identifier.
-   * Handles deletion gracefully with error catching to prevent application crashes.
-   * 
-   * @param {string} id - Unique identifier of the course to delete
-   * @returns {Promise<boolean>} Promise resolving to true if deletion succeeded, false if failed or course not found
-   */
-  async delete(id: string): Promise<boolean> {
-    try {
-      await this.prisma.course.delete({
-        where: { id },
-      });
-      return true;
-    } catch (error) {
-      return false;
-    }
-  }
-
   /**
    * Checks if a course exists in the database by its unique identifier.
    * Uses efficient count query to determine existence without retrieving full course data.
+   * Courses in the trash are treated as missing.
    * 
    * @param {string} id - Unique identifier of the course to check
    * @returns {Promise<boolean>} Promise resolving to true if course exists, false otherwise
    */
   async exists(id: string): Promise<boolean> {
+    const count = await this.prisma.course.count({
+      where: { id, deletedAt: null },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Checks whether an ID is used by any course, including courses in the trash.
+   * Trashed courses keep their ID until they are purged, so new courses cannot reuse it.
+   * 
+   * @param {string} id - Course identifier to check
+   * @returns {Promise<boolean>} Promise resolving to true if the ID is taken
+   */
+  async isIdTaken(id: string): Promise<boolean> {
     const count = await this.prisma.course.count({
       where: { id },
     });
     return count > 0;
   }
 
+  /**
+   * Lists the courses with a lesson that uses an exercise, including courses in the trash,
+   * which keep their lessons until they are purged.
+   * 
+   * @param {string} exerciseId - Exercise identifier
+   * @returns {Promise<string[]>} Promise resolving to the IDs of the courses using the exercise
+   */
+  async findIdsUsingExercise(exerciseId: string): Promise<string[]> {
+    const courses = await this.prisma.course.findMany({
+      where: {
+        levels: { some: { sections: { some: { modules: { some: { lessons: { some: {
+          exercises: { some: { exerciseId } },
+        } } } } } } } },
+      },
+      select: { id: true },
+    });
+    return courses.map((course) => course.id);
+  }
+
   /**
    * Maps Prisma course model to application Course interface with field name transformation.
    * Converts database field names (camelCase) to application field names (snake_case) and
@@ -0,0 +1,345 @@
+import { ExerciseType, Prisma, PrismaClient } from "@prisma/client";
+import {
+  CourseSnapshot,
+  CourseVersion,
+  CourseVersionDetail,
+  Exercise,
+  Module,
+  PackagedLesson,
+} from "../types";
+
+const versionSelect = {
+  id: true,
+  courseId: true,
+  version: true,
+  revision: true,
+  notes: true,
+  publishedBy: true,
+  publishedAt: true,
+} satisfies Prisma.CourseVersionSelect;
+
+export class CourseVersionRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Stores a snapshot as the next version of the course.
+   */
+  async create(
+    courseId: string,
+    data: { revision: number; snapshot: CourseSnapshot; notes?: string | undefined; published_by?: string | undefined },
+  ): Promise<CourseVersion> {
+    const version = await this.prisma.$transaction(async (tx) => {
+      const latest = await tx.courseVersion.aggregate({
+        where: { courseId },
+        _max: { version: true },
+      });
+
+      return await tx.courseVersion.create({
+        data: {
+          courseId,
+          version: (latest._max.version ?? 0) + 1,
+          revision: data.revision,
+          snapshot: data.snapshot as unknown as Prisma.InputJsonValue,
+          notes: data.notes ?? null,
+          publishedBy: data.published_by ?? null,
+        },
+        select: versionSelect,
+      });
+    });
+
+    return this.mapPrismaToModel(version);
+  }
+
+  async findByCourseId(courseId: string): Promise<CourseVersion[]> {
+    const versions = await this.prisma.courseVersion.findMany({
+      where: { courseId },
+      orderBy: { version: "desc" },
+      select: versionSelect,
+    });
+
+    return versions.map((version) => this.mapPrismaToModel(version));
+  }
+
+  async findByVersion(courseId: string, version: number): Promise<CourseVersionDetail | null> {
+    const courseVersion = await this.prisma.courseVersion.findUnique({
+      where: { courseId_version: { courseId, version } },
+    });
+
+    return courseVersion ? this.mapPrismaToDetail(courseVersion) : null;
+  }
+
+  /**
+   * Loads the latest published version of a course. Courses in the trash have none.
+   */
+  async findLatest(courseId: string): Promise<CourseVersionDetail | null> {
+    const courseVersion = await this.prisma.courseVersion.findFirst({
+      where: { courseId, course: { deletedAt: null } },
+      orderBy: { version: "desc" },
+    });
+
+    return courseVersion ? this.mapPrismaToDetail(courseVersion) : null;
+  }
+
+  /**
+   * Loads the current (draft) content of a course in package shape, together with its revision.
+   * Returns null when the course does not exist.
+   */
+  async findCourseTree(courseId: string): Promise<{ revision: number; snapshot: CourseSnapshot } | null> {
+    const course = await this.prisma.course.findUnique({
+      where: { id: courseId, deletedAt: null },
+      include: {
+        levels: {
+          where: { deletedAt: null },
+          orderBy: { order: "asc" },
+          include: {
+            sections: {
+              where: { deletedAt: null },
+              orderBy: { order: "asc" },
+              include: {
+                modules: {
+                  where: { deletedAt: null },
+                  orderBy: { order: "asc" },
+                  include: {
+                    lessons: {
+                      where: { deletedAt: null },
+                      orderBy: { order: "asc" },
+                      include: {
+                        exercises: {
+                          where: { exercise: { deletedAt: null } },
+                          orderBy: { order: "asc" },
+                          include: { exercise: true },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!course) return null;
+
+    return {
+      revision: course.revision,
+      snapshot: {
+        course: {
+          id: course.id,
+          source_language: course.sourceLanguage,
+          target_language: course.targetLanguage,
+          name: course.name,
+          description: course.description ?? "",
+          is_public: course.isPublic,
+          created_at: course.createdAt,
+          updated_at: course.updatedAt,
+        },
+        levels: course.levels.map((level) => ({
+          id: level.id,
+          course_id: level.courseId,
+          code: level.code,
+          name: level.name,
+          order: level.order,
+          created_at: level.createdAt,
+          updated_at: level.updatedAt,
+          sections: level.sections.map((section) => ({
+            id: section.id,
+            level_id: section.levelId,
+            name: section.name,
+            order: section.order,
+            created_at: section.createdAt,
+            updated_at: section.updatedAt,
+            modules: section.modules.map((module) => ({
+              id: module.id,
+              section_id: module.sectionId,
+              module_type: module.moduleType as Module["module_type"],
+              name: module.name,
+              order: module.order,
+              created_at: module.createdAt,
+              updated_at: module.updatedAt,
+              lessons: module.lessons.map((lesson): PackagedLesson => ({
+                id: lesson.id,
+                module_id: lesson.moduleId,
+                name: lesson.name,
+                ...(lesson.description && { description: lesson.description }),
+                experience_points: lesson.experiencePoints,
+                order: lesson.order,
+                created_at: lesson.createdAt,
+                updated_at: lesson.updatedAt,
+                exercises: lesson.exercises.map((lessonExercise) => ({
+                  lesson_id: lessonExercise.lessonId,
+                  exercise_id: lessonExercise.exerciseId,
+                  order: lessonExercise.order,
+                  exercise: {
+                    id: lessonExercise.exercise.id,
+                    exercise_type: lessonExercise.exercise.exerciseType as Exercise["exercise_type"],
+                    data: lessonExercise.exercise.data,
+                    created_at: lessonExercise.exercise.createdAt,
+                    updated_at: lessonExercise.exercise.updatedAt,
+                  },
+                })),
+              })),
+            })),
+          })),
+        })),
+      },
+    };
+  }
+
+  /**
+   * Replaces the current content of a course with a snapshot.
+   *
+   * Content missing from the snapshot is deleted, content in the snapshot is recreated or updated
+   * in place, so learner progress on lessons that still exist is kept. Exercises are restored to
+   * their snapshot data, which also affects other lessons using them. Content of the snapshot that
+   * was moved to the trash is taken out of it again.
+   */
+  async restoreCourseTree(courseId: string, snapshot: CourseSnapshot): Promise<void> {
+    const levels = snapshot.levels;
+    const sections = levels.flatMap((level) => level.sections);
+    const modules = sections.flatMap((section) => section.modules);
+    const lessons = modules.flatMap((module) => module.lessons);
+    const assignments = lessons.flatMap((lesson) => lesson.exercises);
+    const exercises = [...new Map(assignments.map((assignment) => [assignment.exercise_id, assignment.exercise])).values()];
+    const lessonIds = lessons.map((lesson) => lesson.id);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.course.update({
+        where: { id: courseId },
+        data: {
+          sourceLanguage: snapshot.course.source_language,
+          targetLanguage: snapshot.course.target_language,
+          name: snapshot.course.name,
+          description: snapshot.course.description || null,
+        },
+      });
+
+      // Delete content that is not part of the snapshot, together with its children
+      await tx.level.deleteMany({
+        where: { courseId, id: { notIn: levels.map((level) => level.id) } },
+      });
+      await tx.section.deleteMany({
+        where: { level: { courseId }, id: { notIn: sections.map((section) => section.id) } },
+      });
+      await tx.module.deleteMany({
+        where: { section: { level: { courseId } }, id: { notIn: modules.map((module) => module.id) } },
+      });
+      await tx.lesson.deleteMany({
+        where: { module: { section: { level: { courseId } } }, id: { notIn: lessonIds } },
+      });
+
+      // Set remaining content to temporary negative orders (and temporary level codes)
+      // to avoid constraint violations while restoring the snapshot positions
+      const remainingLevels = await tx.level.findMany({ where: { courseId }, select: { id: true } });
+      for (const [index, level] of remainingLevels.entries()) {
+        await tx.level.update({
+          where: { id: level.id },
+          data: { order: -(index + 1), code: `~${index + 1}` },
+        });
+      }
+      const remainingSections = await tx.section.findMany({ where: { level: { courseId } }, select: { id: true } });
+      for (const [index, section] of remainingSections.entries()) {
+        await tx.section.update({ where: { id: section.id }, data: { order: -(index + 1) } });
+      }
+      const remainingModules = await tx.module.findMany({
+        where: { section: { level: { courseId } } },
+        select: { id: true },
+      });
+      for (const [index, module] of remainingModules.entries()) {
+        await tx.module.update({ where: { id: module.id }, data: { order: -(index + 1) } });
+      }
+      const remainingLessons = await tx.lesson.findMany({
+        where: { module: { section: { level: { courseId } } } },
+        select: { id: true },
+      });
+      for (const [index, lesson] of remainingLessons.entries()) {
+        await tx.lesson.update({ where: { id: lesson.id }, data: { order: -(index + 1) } });
+      }
+
+      for (const level of levels) {
+        const data = { code: level.code, name: level.name, order: level.order };
+        await tx.level.upsert({
+          where: { id: level.id },
+          create: { id: level.id, courseId, ...data },
+          update: { ...data, deletedAt: null },
+        });
+      }
+      for (const section of sections) {
+        const data = { levelId: section.level_id, name: section.name, order: section.order };
+        await tx.section.upsert({
+          where: { id: section.id },
+          create: { id: section.id, ...data },
+          update: { ...data, deletedAt: null },
+        });
+      }
+      for (const module of modules) {
+        const data = {
+          sectionId: module.section_id,
+          moduleType: module.module_type,
+          name: module.name,
+          order: module.order,
+        };
+        await tx.module.upsert({
+          where: { id: module.id },
+          create: { id: module.id, ...data },
+          update: { ...data, deletedAt: null },
+        });
+      }
+      for (const lesson of lessons) {
+        const data = {
+          moduleId: lesson.module_id,
+          name: lesson.name,
+          description: lesson.description ?? null,
+          experiencePoints: lesson.experience_points,
+          order: lesson.order,
+        };
+        await tx.lesson.upsert({
+          where: { id: lesson.id },
+          create: { id: lesson.id, ...data },
+          update: { ...data, deletedAt: null },
+        });
+      }
+      for (const exercise of exercises) {
+        // Packaged exercises keep the database exercise type values
+        const data = {
+          exerciseType: exercise.exercise_type as ExerciseType,
+          data: exercise.data as Prisma.InputJsonValue,
+        };
+        await tx.exercise.upsert({
+          where: { id: exercise.id },
+          create: { id: exercise.id, ...data },
+          update: { ...data, deletedAt: null },
+        });
+      }
+
+      await tx.lessonExercise.deleteMany({ where: { lessonId: { in: lessonIds } } });
+      await tx.lessonExercise.createMany({
+        data: assignments.map((assignment) => ({
+          lessonId: assignment.lesson_id,
+          exerciseId: assignment.exercise_id,
+          order: assignment.order,
+        })),
+      });
+    }, { timeout: 60000 });
+  }
+
+  private mapPrismaToModel(version: Prisma.CourseVersionGetPayload<{ select: typeof versionSelect }>): CourseVersion {
+    return {
+      id: version.id,
+      course_id: version.courseId,
+      version: version.version,
+      revision: version.revision,
+      notes: version.notes,
+      published_by: version.publishedBy,
+      published_at: version.publishedAt,
+    };
+  }
+
+  private mapPrismaToDetail(version: Prisma.CourseVersionGetPayload<object>): CourseVersionDetail {
+    return {
+      ...this.mapPrismaToModel(version),
+      snapshot: version.snapshot as unknown as CourseSnapshot,
+    };
+  }
+}
@@ -0,0 +1,196 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import { EnrolledCourse, Enrollment, EnrollmentStatus } from "../types";
+import { UserRole } from "../../../shared/types";
+
+const enrolledCourseInclude = {
+  course: { select: { id: true, name: true, sourceLanguage: true, targetLanguage: true, isPublic: true } },
+} satisfies Prisma.EnrollmentInclude;
+
+type PrismaEnrollment = Prisma.EnrollmentGetPayload<object>;
+
+/**
+ * Position of a learner in a course, derived from the lessons they have completed
+ */
+export interface EnrollmentPosition {
+  status: EnrollmentStatus;
+  current_lesson_id: string | null;
+  completed_at: Date | null;
+}
+
+export class EnrollmentRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Returns the visibility and invite code of a course, or null when it does not exist or is in the trash.
+   */
+  async findCourse(courseId: string): Promise<{ id: string; is_public: boolean; invite_code: string | null } | null> {
+    const course = await this.prisma.course.findFirst({
+      where: { id: courseId, deletedAt: null },
+      select: { id: true, isPublic: true, inviteCode: true },
+    });
+
+    return course ? { id: course.id, is_public: course.isPublic, invite_code: course.inviteCode } : null;
+  }
+
+  async updateInviteCode(courseId: string, inviteCode: string | null): Promise<void> {
+    await this.prisma.course.update({
+      where: { id: courseId },
+      data: { inviteCode },
+    });
+  }
+
+  async find(userId: string, courseId: string): Promise<Enrollment | null> {
+    const enrollment = await this.prisma.enrollment.findUnique({
+      where: { userId_courseId: { userId, courseId } },
+    });
+
+    return enrollment ? this.mapPrismaToModel(enrollment) : null;
+  }
+
+  async create(userId: string, courseId: string, position: EnrollmentPosition): Promise<Enrollment> {
+    const enrollment = await this.prisma.enrollment.create({
+      data: {
+        userId,
+        courseId,
+        status: position.status,
+        currentLessonId: position.current_lesson_id,
+        completedAt: position.completed_at,
+      },
+    });
+
+    return this.mapPrismaToModel(enrollment);
+  }
+
+  async updatePosition(userId: string, courseId: string, position: EnrollmentPosition): Promise<Enrollment> {
+    const enrollment = await this.prisma.enrollment.update({
+      where: { userId_courseId: { userId, courseId } },
+      data: {
+        status: position.status,
+        currentLessonId: position.current_lesson_id,
+        completedAt: position.completed_at,
+      },
+    });
+
+    return this.mapPrismaToModel(enrollment);
+  }
+
+  async delete(userId: string, courseId: string): Promise<boolean> {
+    const { count } = await this.prisma.enrollment.deleteMany({
+      where: { userId, courseId },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Whether a user is enrolled in a course or has accepted a collaborator role in it.
+   */
+  async isMember(userId: string, courseId: string): Promise<boolean> {
+    const count = await this.prisma.course.count({
+      where: {
+        id: courseId,
+        OR: [
+          { enrollments: { some: { userId } } },
+          { collaborators: { some: { userId, acceptedAt: { not: null } } } },
+        ],
+      },
+    });
+    return count > 0;
+  }
+
+  async findUserRole(userId: string): Promise<UserRole | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true },
+    });
+    return user?.role ?? null;
+  }
+
+  /**
+   * Lists the enrollments of a learner in courses that are not in the trash, newest first.
+   * Progress is left at zero for the service to fill in.
+   */
+  async findByUserId(userId: string, status?: EnrollmentStatus): Promise<EnrolledCourse[]> {
+    const enrollments = await this.prisma.enrollment.findMany({
+      where: { userId, course: { deletedAt: null }, ...(status && { status }) },
+      include: enrolledCourseInclude,
+      orderBy: { enrolledAt: "desc" },
+    });
+
+    return enrollments.map((enrollment) => ({
+      ...this.mapPrismaToModel(enrollment),
+      course: {
+        id: enrollment.course.id,
+        name: enrollment.course.name,
+        source_language: enrollment.course.sourceLanguage,
+        target_language: enrollment.course.targetLanguage,
+        is_public: enrollment.course.isPublic,
+      },
+      lessons_completed: 0,
+      total_lessons: 0,
+      progress_percentage: 0,
+    }));
+  }
+
+  /**
+   * Lists the lessons of each course in course order: by level, section, module and lesson order.
+   * Content in the trash is left out.
+   */
+  async findLessonIdsByCourse(courseIds: string[]): Promise<Map<string, string[]>> {
+    const lessons = await this.prisma.lesson.findMany({
+      where: {
+        deletedAt: null,
+        module: {
+          deletedAt: null,
+          section: { deletedAt: null, level: { deletedAt: null, courseId: { in: courseIds } } },
+        },
+      },
+      select: { id: true, module: { select: { section: { select: { level: { select: { courseId: true } } } } } } },
+      orderBy: [
+        { module: { section: { level: { order: "asc" } } } },
+        { module: { section: { order: "asc" } } },
+        { module: { order: "asc" } },
+        { order: "asc" },
+      ],
+    });
+
+    const lessonIdsByCourse = new Map<string, string[]>(courseIds.map((courseId) => [courseId, []]));
+    for (const lesson of lessons) {
+      lessonIdsByCourse.get(lesson.module.section.level.courseId)?.push(lesson.id);
+    }
+    return lessonIdsByCourse;
+  }
+
+  /**
+   * Returns the courses the given lessons belong to.
+   */
+  async findCourseIdsByLessonIds(lessonIds: string[]): Promise<string[]> {
+    const levels = await this.prisma.level.findMany({
+      where: { sections: { some: { modules: { some: { lessons: { some: { id: { in: lessonIds } } } } } } } },
+      select: { courseId: true },
+      distinct: ["courseId"],
+    });
+
+    return levels.map((level) => level.courseId);
+  }
+
+  async findCompletedLessonIds(userId: string, lessonIds: string[]): Promise<Set<string>> {
+    const completions = await this.prisma.lessonCompletion.findMany({
+      where: { userId, lessonId: { in: lessonIds } },
+      select: { lessonId: true },
+    });
+
+    return new Set(completions.map((completion) => completion.lessonId));
+  }
+
+  private mapPrismaToModel(enrollment: PrismaEnrollment): Enrollment {
+    return {
+      user_id: enrollment.userId,
+      course_id: enrollment.courseId,
+      status: enrollment.status,
+      current_lesson_id: enrollment.currentLessonId,
+      enrolled_at: enrollment.enrolledAt,
+      completed_at: enrollment.completedAt,
+      updated_at: enrollment.updatedAt,
+    };
+  }
+}
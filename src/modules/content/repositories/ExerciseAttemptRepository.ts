@@ -0,0 +1,183 @@
+import { PrismaClient } from "@prisma/client";
+import {
+  CreateExerciseAttemptDto,
+  ExerciseAnswerCount,
+  ExerciseAttemptStats,
+  FirstExerciseAttempt,
+} from "../types";
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export class ExerciseAttemptRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Records graded answers, numbering each one after the learner's previous attempts at the
+   * same exercise. Returns the number of attempts recorded.
+   */
+  async createMany(attempts: CreateExerciseAttemptDto[]): Promise<number> {
+    if (attempts.length === 0) {
+      return 0;
+    }
+
+    return await this.prisma.$transaction(async (tx) => {
+      const previous = await tx.exerciseAttempt.groupBy({
+        by: ["userId", "exerciseId"],
+        where: {
+          userId: { in: [...new Set(attempts.map((attempt) => attempt.user_id))] },
+          exerciseId: { in: [...new Set(attempts.map((attempt) => attempt.exercise_id))] },
+        },
+        _count: { _all: true },
+      });
+
+      const counts = new Map(
+        previous.map((group) => [`${group.userId}:${group.exerciseId}`, group._count._all]),
+      );
+
+      const result = await tx.exerciseAttempt.createMany({
+        data: attempts.map((attempt) => {
+          const key = `${attempt.user_id}:${attempt.exercise_id}`;
+          const attemptNumber = (counts.get(key) ?? 0) + 1;
+          counts.set(key, attemptNumber);
+
+          return {
+            userId: attempt.user_id,
+            exerciseId: attempt.exercise_id,
+            lessonId: attempt.lesson_id,
+            answer: attempt.answer,
+            correct: attempt.correct,
+            score: attempt.score,
+            durationSeconds: attempt.duration_seconds ?? null,
+            attemptNumber,
+          };
+        }),
+      });
+
+      return result.count;
+    });
+  }
+
+  /**
+   * Counts and averages the attempts at an exercise in the database.
+   */
+  async getStats(exerciseId: string): Promise<ExerciseAttemptStats> {
+    const [row] = await this.prisma.$queryRaw<
+      {
+        total_attempts: number;
+        correct_attempts: number;
+        unique_learners: number;
+        learners_correct: number;
+        average_score: number | null;
+        average_duration_seconds: number | null;
+        lesson_ids: string[] | null;
+      }[]
+    >`
+      SELECT COUNT(*)::int AS total_attempts,
+             COUNT(*) FILTER (WHERE correct)::int AS correct_attempts,
+             COUNT(DISTINCT user_id)::int AS unique_learners,
+             COUNT(DISTINCT user_id) FILTER (WHERE correct)::int AS learners_correct,
+             AVG(score)::float AS average_score,
+             AVG(duration_seconds)::float AS average_duration_seconds,
+             ARRAY_AGG(DISTINCT lesson_id) AS lesson_ids
+      FROM exercise_attempts
+      WHERE exercise_id = ${exerciseId}
+    `;
+
+    return {
+      total_attempts: row?.total_attempts ?? 0,
+      correct_attempts: row?.correct_attempts ?? 0,
+      unique_learners: row?.unique_learners ?? 0,
+      learners_correct: row?.learners_correct ?? 0,
+      average_score: row?.average_score ?? null,
+      average_duration_seconds: row?.average_duration_seconds ?? null,
+      lesson_ids: row?.lesson_ids ?? [],
+    };
+  }
+
+  /**
+   * Loads the first attempt of each learner at an exercise.
+   */
+  async findFirstAttempts(exerciseId: string): Promise<FirstExerciseAttempt[]> {
+    const attempts = await this.prisma.exerciseAttempt.findMany({
+      where: { exerciseId, attemptNumber: 1 },
+      select: { userId: true, correct: true },
+      distinct: ["userId"],
+    });
+
+    return attempts.map((attempt) => ({ user_id: attempt.userId, correct: attempt.correct }));
+  }
+
+  /**
+   * Groups the wrong answers to an exercise and returns the most frequent ones. Answers are
+   * compared as JSONB, so the order of their keys does not matter.
+   */
+  async findCommonWrongAnswers(exerciseId: string, limit: number): Promise<ExerciseAnswerCount[]> {
+    return await this.prisma.$queryRaw<ExerciseAnswerCount[]>`
+      SELECT answer, COUNT(*)::int AS count
+      FROM exercise_attempts
+      WHERE exercise_id = ${exerciseId} AND NOT correct
+      GROUP BY answer
+      ORDER BY count DESC
+      LIMIT ${limit}
+    `;
+  }
+
+  /**
+   * Counts the attempts at an exercise in each of the last weeks, keyed by how many whole weeks
+   * before `now` they were made (0 for the last seven days).
+   */
+  async countByWeek(exerciseId: string, now: Date, weeks: number): Promise<Map<number, number>> {
+    const since = new Date(now.getTime() - weeks * WEEK_MS);
+    const rows = await this.prisma.$queryRaw<{ weeks_ago: number; count: number }[]>`
+      SELECT FLOOR(EXTRACT(EPOCH FROM (${now}::timestamptz - created_at)) / ${WEEK_MS / 1000})::int AS weeks_ago,
+             COUNT(*)::int AS count
+      FROM exercise_attempts
+      WHERE exercise_id = ${exerciseId} AND created_at > ${since} AND created_at <= ${now}
+      GROUP BY weeks_ago
+    `;
+
+    return new Map(rows.map((row) => [row.weeks_ago, row.count]));
+  }
+
+  /**
+   * Counts the attempts at an exercise in each calendar month (UTC) since a date, keyed by
+   * `YYYY-MM`.
+   */
+  async countByMonth(exerciseId: string, since: Date): Promise<Map<string, number>> {
+    const rows = await this.prisma.$queryRaw<{ month: string; count: number }[]>`
+      SELECT TO_CHAR(created_at AT TIME ZONE 'UTC', 'YYYY-MM') AS month,
+             COUNT(*)::int AS count
+      FROM exercise_attempts
+      WHERE exercise_id = ${exerciseId} AND created_at >= ${since}
+      GROUP BY month
+    `;
+
+    return new Map(rows.map((row) => [row.month, row.count]));
+  }
+
+  /**
+   * Averages each learner's scores on the other exercises of the given lessons.
+   * Learners without attempts at other exercises are left out.
+   */
+  async findRestScores(
+    exerciseId: string,
+    lessonIds: string[],
+    userIds: string[],
+  ): Promise<Map<string, number>> {
+    const groups = await this.prisma.exerciseAttempt.groupBy({
+      by: ["userId"],
+      where: {
+        lessonId: { in: lessonIds },
+        userId: { in: userIds },
+        exerciseId: { not: exerciseId },
+      },
+      _avg: { score: true },
+    });
+
+    return new Map(
+      groups
+        .filter((group) => group._avg.score !== null)
+        .map((group) => [group.userId, group._avg.score as number]),
+    );
+  }
+}
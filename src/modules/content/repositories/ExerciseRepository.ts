@@ -109,6 +109,44 @@ export class ExerciseRepository {
     return this.mapPrismaToModel(exercise);
   }
 
+  /**
+   * Creates several exercises in one transaction, optionally assigning them to a lesson in the
+   * given order. Either every exercise is created and assigned, or none is.
+   * 
+   * @param {Pick<Exercise, 'id' | 'exercise_type' | 'data'>[]} exercises - Exercises to create, in assignment order
+   * @param {Object} [assignTo] - Lesson to assign the exercises to
+   * @param {string} assignTo.lessonId - Lesson identifier
+   * @param {number} assignTo.firstOrder - Order of the first exercise in the lesson
+   * @returns {Promise<number>} Promise resolving to the number of created exercises
+   * @throws {Error} When database operation fails or constraint violations occur
+   */
+  async createMany(
+    exercises: Pick<Exercise, 'id' | 'exercise_type' | 'data'>[],
+    assignTo?: { lessonId: string; firstOrder: number }
+  ): Promise<number> {
+    return await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.exercise.createMany({
+        data: exercises.map((exercise) => ({
+          id: exercise.id,
+          exerciseType: exercise.exercise_type.replace(/-/g, '_') as any,
+          data: exercise.data,
+        })),
+      });
+
+      if (assignTo) {
+        await tx.lessonExercise.createMany({
+          data: exercises.map((exercise, index) => ({
+            lessonId: assignTo.lessonId,
+            exerciseId: exercise.id,
+            order: assignTo.firstOrder + index,
+          })),
+        });
+      }
+
+      return count;
+    });
+  }
+
   /**
    * Retrieves a single exercise by its unique identifier with complete type-specific data.
    * Returns the exercise with transformed field names and type formatting for API compatibility.
@@ -118,7 +156,7 @@ export class ExerciseRepository {
    */
   async findById(id: string): Promise<Exercise | null> {
     const exercise = await this.prisma.exercise.findUnique({
-      where: { id },
+      where: { id, deletedAt: null },
     });
 
     if (!exercise) return null;
@@ -155,7 +193,7 @@ export class ExerciseRepository {
       ? buildEnumFilterWhere(filters["exercise_type"].replace('-', '_'), 'exerciseType')
       : {};
 
-    const where = combineWhereConditions(exerciseTypeWhere);
+    const where = combineWhereConditions({ deletedAt: null }, exerciseTypeWhere);
 
     const [exercises, total] = await Promise.all([
       this.prisma.exercise.findMany({
@@ -198,33 +236,28 @@ export class ExerciseRepository {
     return this.mapPrismaToModel(exercise);
   }
 
-  /**
-   * Deletes an exercise from the database by its unique identifier.
-   * Handles deletion gracefully with error catching to prevent application crashes.
-   * Cascade deletion will automatically remove associated lesson-exercise relationships.
-   * 
-   * @param {string} id - Unique identifier of the exercise to delete
-   * @returns {Promise<boolean>} Promise resolving to true if deletion succeeded, false if failed or exercise not found
-   */
-  async delete(id: string): Promise<boolean> {
-    try {
-      await this.prisma.exercise.delete({
-        where: { id },
-      });
-      return true;
-    } catch (error) {
-      return false;
-    }
-  }
-
   /**
    * Checks if an exercise exists in the database by its unique identifier.
    * Uses efficient count query to determine existence without retrieving full exercise data.
+   * Exercises in the trash are treated as missing.
    * 
    * @param {string} id - Unique identifier of the exercise to check
    * @returns {Promise<boolean>} Promise resolving to true if exercise exists, false otherwise
    */
   async exists(id: string): Promise<boolean> {
+    const count = await this.prisma.exercise.count({
+      where: { id, deletedAt: null },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Checks whether an ID is used by any exercise, including exercises in the trash.
+   * 
+   * @param {string} id - Exercise identifier to check
+   * @returns {Promise<boolean>} Promise resolving to true if the ID is taken
+   */
+  async isIdTaken(id: string): Promise<boolean> {
     const count = await this.prisma.exercise.count({
       where: { id },
     });
@@ -254,7 +287,7 @@ export class ExerciseRepository {
     );
 
     const prismaExerciseType = exerciseType.replace('-', '_') as any;
-    const where = { exerciseType: prismaExerciseType };
+    const where = { exerciseType: prismaExerciseType, deletedAt: null };
 
     const [exercises, total] = await Promise.all([
       this.prisma.exercise.findMany({
@@ -285,6 +318,7 @@ export class ExerciseRepository {
         id: {
           in: ids,
         },
+        deletedAt: null,
       },
     });
 
@@ -123,10 +123,12 @@ export class LessonRepository {
     const lesson = await this.prisma.lesson.findUnique({
       where: {
         id,
-        moduleId
+        moduleId,
+        deletedAt: null
       },
       include: {
         exercises: {
+          where: { exercise: { deletedAt: null } },
           include: {
             exercise: true,
           },
@@ -182,6 +184,7 @@ export class LessonRepository {
     );
 
     const where = combineWhereConditions(
+      { deletedAt: null },
       moduleWhere,
       experiencePointsWhere
     );
@@ -192,6 +195,7 @@ export class LessonRepository {
         where,
         include: {
           exercises: {
+            where: { exercise: { deletedAt: null } },
             include: {
               exercise: true,
             },
@@ -239,7 +243,7 @@ export class LessonRepository {
     // Build where conditions
     const moduleWhere = filters["module_id"] ? { moduleId: filters["module_id"] } : {};
 
-    const where = combineWhereConditions(moduleWhere);
+    const where = combineWhereConditions({ deletedAt: null }, moduleWhere);
 
     const [lessons, total] = await Promise.all([
       this.prisma.lesson.findMany({
@@ -247,6 +251,7 @@ export class LessonRepository {
         where,
         include: {
           exercises: {
+            where: { exercise: { deletedAt: null } },
             include: {
               exercise: true,
             },
@@ -297,6 +302,7 @@ export class LessonRepository {
       data: updateData,
       include: {
         exercises: {
+          where: { exercise: { deletedAt: null } },
           include: {
             exercise: true,
           },
@@ -313,40 +319,28 @@ export class LessonRepository {
     };
   }
 
-  /**
-   * Deletes a lesson from the database by its unique identifier and module ID.
-   * Handles deletion gracefully with error catching to prevent application crashes.
-   * Cascade deletion will automatically remove associated lesson-exercise relationships.
-   * Uses composite key lookup to prevent horizontal access vulnerabilities.
-   * 
-   * @param {string} id - Unique identifier of the lesson to delete
-   * @param {string} moduleId - Module identifier to ensure lesson belongs to the correct module
-   * @returns {Promise<boolean>} Promise resolving to true if deletion succeeded, false if failed or lesson not found
-   */
-  async delete(id: string, moduleId: string): Promise<boolean> {
-    try {
-      await this.prisma.lesson.delete({
-        where: {
-          id,
-          moduleId
-        },
-      });
-      return true;
-    } catch (error) {
-      return false;
-    }
-  }
-
-
-
   /**
    * Checks if a lesson exists in the database by its unique identifier.
    * Uses efficient count query to determine existence without retrieving full lesson data.
+   * Lessons in the trash are treated as missing.
    * 
    * @param {string} id - Unique identifier of the lesson to check
    * @returns {Promise<boolean>} Promise resolving to true if lesson exists, false otherwise
    */
   async exists(id: string): Promise<boolean> {
+    const count = await this.prisma.lesson.count({
+      where: { id, deletedAt: null },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Checks whether an ID is used by any lesson, including lessons in the trash.
+   * 
+   * @param {string} id - Lesson identifier to check
+   * @returns {Promise<boolean>} Promise resolving to true if the ID is taken
+   */
+  async isIdTaken(id: string): Promise<boolean> {
     const count = await this.prisma.lesson.count({
       where: { id },
     });
@@ -418,7 +412,7 @@ export class LessonRepository {
    */
   async getLessonExercises(lessonId: string): Promise<LessonExercise[]> {
     const lessonExercises = await this.prisma.lessonExercise.findMany({
-      where: { lessonId },
+      where: { lessonId, exercise: { deletedAt: null } },
       include: {
         exercise: true,
       },
@@ -31,10 +31,10 @@ export class LevelRepository {
 
   async findById(id: string): Promise<Level | null> {
     const level = await this.prisma.level.findUnique({
-      where: { id },
+      where: { id, deletedAt: null },
       include: {
         _count: {
-          select: { sections: true }
+          select: { sections: { where: { deletedAt: null } } }
         }
       }
     });
@@ -64,13 +64,14 @@ export class LevelRepository {
     const codeWhere = filters['code'] ? { code: filters['code'] } : {};
 
     const where = combineWhereConditions(
+      { deletedAt: null },
       courseWhere,
       searchWhere,
       codeWhere
     );
 
     // Build include for child counts
-    const include = buildChildCountInclude(['sections']);
+    const include = buildChildCountInclude(['sections'], { deletedAt: null });
 
     const [levels, total] = await Promise.all([
       this.prisma.level.findMany({
@@ -110,13 +111,14 @@ export class LevelRepository {
     const codeWhere = filters['code'] ? { code: filters['code'] } : {};
 
     const where = combineWhereConditions(
+      { deletedAt: null },
       searchWhere,
       courseWhere,
       codeWhere
     );
 
     // Build include for child counts
-    const include = buildChildCountInclude(['sections']);
+    const include = buildChildCountInclude(['sections'], { deletedAt: null });
 
     const [levels, total] = await Promise.all([
       this.prisma.level.findMany({
@@ -151,7 +153,7 @@ export class LevelRepository {
       data: updateData,
       include: {
         _count: {
-          select: { sections: true }
+          select: { sections: { where: { deletedAt: null } } }
         }
       }
     });
@@ -162,24 +164,26 @@ export class LevelRepository {
     };
   }
 
-  async delete(id: string): Promise<boolean> {
-    try {
-      await this.prisma.level.delete({
-        where: { id }
-      });
-      return true;
-    } catch (error) {
-      return false;
-    }
+  async exists(id: string): Promise<boolean> {
+    const count = await this.prisma.level.count({
+      where: { id, deletedAt: null }
+    });
+    return count > 0;
   }
 
-  async exists(id: string): Promise<boolean> {
+  /**
+   * Checks whether an ID is used by any level, including levels in the trash
+   */
+  async isIdTaken(id: string): Promise<boolean> {
     const count = await this.prisma.level.count({
       where: { id }
     });
     return count > 0;
   }
 
+  /**
+   * Checks whether a code is used in a course. Levels in the trash keep their code so they can be restored.
+   */
   async existsInCourse(courseId: string, code: string, excludeId?: string): Promise<boolean> {
     const where: any = { courseId, code };
     if (excludeId) {
@@ -191,7 +195,7 @@ export class LevelRepository {
   }
 
   async existsOrderInCourse(courseId: string, order: number, excludeId?: string): Promise<boolean> {
-    const where: any = { courseId, order };
+    const where: any = { courseId, order, deletedAt: null };
     if (excludeId) {
       where.id = { not: excludeId };
     }
@@ -229,7 +233,7 @@ export class LevelRepository {
         // Validate that all levels belong to the specified course
         for (const levelId of levelIds) {
           const level = await tx.level.findUnique({
-            where: { id: levelId },
+            where: { id: levelId, deletedAt: null },
             select: { courseId: true }
           });
           
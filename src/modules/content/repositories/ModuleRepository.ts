@@ -32,10 +32,10 @@ export class ModuleRepository {
 
   async findById(id: string): Promise<Module | null> {
     const module = await this.prisma.module.findUnique({
-      where: { id },
+      where: { id, deletedAt: null },
       include: {
         _count: {
-          select: { lessons: true },
+          select: { lessons: { where: { deletedAt: null } } },
         },
       },
     });
@@ -68,13 +68,14 @@ export class ModuleRepository {
     const moduleTypeWhere = buildEnumFilterWhere(filters["module_type"], 'moduleType');
 
     const where = combineWhereConditions(
+      { deletedAt: null },
       sectionWhere,
       searchWhere,
       moduleTypeWhere
     );
 
     // Build include for child counts
-    const include = buildChildCountInclude(['lessons']);
+    const include = buildChildCountInclude(['lessons'], { deletedAt: null });
 
     const [modules, total] = await Promise.all([
       this.prisma.module.findMany({
@@ -114,13 +115,14 @@ export class ModuleRepository {
     const sectionWhere = filters["section_id"] ? { sectionId: filters["section_id"] } : {};
 
     const where = combineWhereConditions(
+      { deletedAt: null },
       searchWhere,
       moduleTypeWhere,
       sectionWhere
     );
 
     // Build include for child counts
-    const include = buildChildCountInclude(['lessons']);
+    const include = buildChildCountInclude(['lessons'], { deletedAt: null });
 
     const [modules, total] = await Promise.all([
       this.prisma.module.findMany({
@@ -158,7 +160,7 @@ export class ModuleRepository {
       data: updateData,
       include: {
         _count: {
-          select: { lessons: true },
+          select: { lessons: { where: { deletedAt: null } } },
         },
       },
     });
@@ -169,18 +171,17 @@ export class ModuleRepository {
     };
   }
 
-  async delete(id: string): Promise<boolean> {
-    try {
-      await this.prisma.module.delete({
-        where: { id },
-      });
-      return true;
-    } catch (error) {
-      return false;
-    }
+  async exists(id: string): Promise<boolean> {
+    const count = await this.prisma.module.count({
+      where: { id, deletedAt: null },
+    });
+    return count > 0;
   }
 
-  async exists(id: string): Promise<boolean> {
+  /**
+   * Checks whether an ID is used by any module, including modules in the trash
+   */
+  async isIdTaken(id: string): Promise<boolean> {
     const count = await this.prisma.module.count({
       where: { id },
     });
@@ -192,7 +193,7 @@ export class ModuleRepository {
     order: number,
     excludeId?: string,
   ): Promise<boolean> {
-    const where: any = { sectionId, order };
+    const where: any = { sectionId, order, deletedAt: null };
     if (excludeId) {
       where.id = { not: excludeId };
     }
@@ -206,7 +207,7 @@ export class ModuleRepository {
     order: number,
     excludeId?: string,
   ): Promise<boolean> {
-    const where: any = { moduleId, order };
+    const where: any = { moduleId, order, deletedAt: null };
     if (excludeId) {
       where.id = { not: excludeId };
     }
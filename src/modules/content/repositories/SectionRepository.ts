@@ -30,10 +30,10 @@ export class SectionRepository {
 
   async findById(id: string): Promise<Section | null> {
     const section = await this.prisma.section.findUnique({
-      where: { id },
+      where: { id, deletedAt: null },
       include: {
         _count: {
-          select: { modules: true }
+          select: { modules: { where: { deletedAt: null } } }
         }
       }
     });
@@ -62,12 +62,13 @@ export class SectionRepository {
     const levelWhere = { levelId };
 
     const where = combineWhereConditions(
+      { deletedAt: null },
       levelWhere,
       searchWhere
     );
 
     // Build include for child counts
-    const include = buildChildCountInclude(['modules']);
+    const include = buildChildCountInclude(['modules'], { deletedAt: null });
 
     const [sections, total] = await Promise.all([
       this.prisma.section.findMany({
@@ -106,12 +107,13 @@ export class SectionRepository {
     const levelWhere = filters['level_id'] ? { levelId: filters['level_id'] } : {};
 
     const where = combineWhereConditions(
+      { deletedAt: null },
       searchWhere,
       levelWhere
     );
 
     // Build include for child counts
-    const include = buildChildCountInclude(['modules']);
+    const include = buildChildCountInclude(['modules'], { deletedAt: null });
 
     const [sections, total] = await Promise.all([
       this.prisma.section.findMany({
@@ -145,7 +147,7 @@ export class SectionRepository {
       data: updateData,
       include: {
         _count: {
-          select: { modules: true }
+          select: { modules: { where: { deletedAt: null } } }
         }
       }
     });
@@ -156,18 +158,17 @@ export class SectionRepository {
     };
   }
 
-  async delete(id: string): Promise<boolean> {
-    try {
-      await this.prisma.section.delete({
-        where: { id }
-      });
-      return true;
-    } catch (error) {
-      return false;
-    }
+  async exists(id: string): Promise<boolean> {
+    const count = await this.prisma.section.count({
+      where: { id, deletedAt: null }
+    });
+    return count > 0;
   }
 
-  async exists(id: string): Promise<boolean> {
+  /**
+   * Checks whether an ID is used by any section, including sections in the trash
+   */
+  async isIdTaken(id: string): Promise<boolean> {
     const count = await this.prisma.section.count({
       where: { id }
     });
@@ -175,7 +176,7 @@ export class SectionRepository {
   }
 
   async existsOrderInLevel(levelId: string, order: number, excludeId?: string): Promise<boolean> {
-    const where: any = { levelId, order };
+    const where: any = { levelId, order, deletedAt: null };
     if (excludeId) {
       where.id = { not: excludeId };
     }
@@ -213,7 +214,7 @@ export class SectionRepository {
         // Validate that all sections belong to the specified level
         for (const sectionId of sectionIds) {
           const section = await tx.section.findUnique({
-            where: { id: sectionId },
+            where: { id: sectionId, deletedAt: null },
             select: { levelId: true }
           });
 
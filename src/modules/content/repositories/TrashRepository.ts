@@ -0,0 +1,484 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import { ContentEntityType, TrashEntry, TrashFilters, TrashedContent } from "../types";
+
+type TransactionClient = Prisma.TransactionClient;
+
+type RestoredContent = { entity_type: ContentEntityType; entity_id: string };
+
+// Filters on the content below an entity; every level of the hierarchy is trashed and restored together
+interface DescendantFilters {
+  level?: Prisma.LevelWhereInput;
+  section?: Prisma.SectionWhereInput;
+  module?: Prisma.ModuleWhereInput;
+  lesson?: Prisma.LessonWhereInput;
+}
+
+const descendantFilters = (entityType: ContentEntityType, id: string): DescendantFilters => {
+  switch (entityType) {
+    case "course":
+      return {
+        level: { courseId: id },
+        section: { level: { courseId: id } },
+        module: { section: { level: { courseId: id } } },
+        lesson: { module: { section: { level: { courseId: id } } } },
+      };
+    case "level":
+      return {
+        section: { levelId: id },
+        module: { section: { levelId: id } },
+        lesson: { module: { section: { levelId: id } } },
+      };
+    case "section":
+      return {
+        module: { sectionId: id },
+        lesson: { module: { sectionId: id } },
+      };
+    case "module":
+      return { lesson: { moduleId: id } };
+    default:
+      return {};
+  }
+};
+
+/**
+ * Soft deletion of course content.
+ *
+ * Deleting content sets `deletedAt` on the entity and on every descendant that is not already in the
+ * trash, all with the same timestamp. Restoring an entity takes back exactly the descendants that were
+ * trashed with it, so content deleted on its own earlier stays in the trash. Exercises have no
+ * descendants; their lesson assignments are kept and hidden while the exercise is in the trash.
+ */
+export class TrashRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Moves an entity and its active descendants to the trash.
+   * Returns false when the entity does not exist or is already in the trash.
+   */
+  async moveToTrash(entityType: ContentEntityType, id: string): Promise<boolean> {
+    const now = new Date();
+
+    return await this.prisma.$transaction(async (tx) => {
+      const trashed = await this.updateDeletedAt(tx, entityType, { id, deletedAt: null }, now);
+      if (trashed === 0) {
+        return false;
+      }
+
+      const filters = descendantFilters(entityType, id);
+      if (filters.level) {
+        await tx.level.updateMany({ where: { ...filters.level, deletedAt: null }, data: { deletedAt: now } });
+      }
+      if (filters.section) {
+        await tx.section.updateMany({ where: { ...filters.section, deletedAt: null }, data: { deletedAt: now } });
+      }
+      if (filters.module) {
+        await tx.module.updateMany({ where: { ...filters.module, deletedAt: null }, data: { deletedAt: now } });
+      }
+      if (filters.lesson) {
+        await tx.lesson.updateMany({ where: { ...filters.lesson, deletedAt: null }, data: { deletedAt: now } });
+      }
+
+      return true;
+    });
+  }
+
+  /**
+   * Takes an entity out of the trash together with the descendants trashed with it.
+   *
+   * When an active sibling took the order position of the entity in the meantime, the entity is
+   * moved to the end of its parent. Returns the restored entities, or an empty list when the
+   * entity is not in the trash.
+   */
+  async restore(entityType: ContentEntityType, id: string, deletedAt: Date): Promise<RestoredContent[]> {
+    return await this.prisma.$transaction(async (tx) => {
+      const restoredRoot = await this.updateDeletedAt(tx, entityType, { id, deletedAt }, null);
+      if (restoredRoot === 0) {
+        return [];
+      }
+
+      await this.moveAfterActiveSiblings(tx, entityType, id);
+
+      const restored: RestoredContent[] = [{ entity_type: entityType, entity_id: id }];
+      const filters = descendantFilters(entityType, id);
+      if (filters.level) {
+        const where = { ...filters.level, deletedAt };
+        const levels = await tx.level.findMany({ where, select: { id: true } });
+        await tx.level.updateMany({ where, data: { deletedAt: null } });
+        restored.push(...levels.map((level) => ({ entity_type: "level" as const, entity_id: level.id })));
+      }
+      if (filters.section) {
+        const where = { ...filters.section, deletedAt };
+        const sections = await tx.section.findMany({ where, select: { id: true } });
+        await tx.section.updateMany({ where, data: { deletedAt: null } });
+        restored.push(...sections.map((section) => ({ entity_type: "section" as const, entity_id: section.id })));
+      }
+      if (filters.module) {
+        const where = { ...filters.module, deletedAt };
+        const modules = await tx.module.findMany({ where, select: { id: true } });
+        await tx.module.updateMany({ where, data: { deletedAt: null } });
+        restored.push(...modules.map((module) => ({ entity_type: "module" as const, entity_id: module.id })));
+      }
+      if (filters.lesson) {
+        const where = { ...filters.lesson, deletedAt };
+        const lessons = await tx.lesson.findMany({ where, select: { id: true } });
+        await tx.lesson.updateMany({ where, data: { deletedAt: null } });
+        restored.push(...lessons.map((lesson) => ({ entity_type: "lesson" as const, entity_id: lesson.id })));
+      }
+
+      return restored;
+    });
+  }
+
+  /**
+   * Loads a trashed entity with its parent, or null when the entity is not in the trash.
+   */
+  async findTrashed(entityType: ContentEntityType, id: string): Promise<TrashedContent | null> {
+    const where = { id, deletedAt: { not: null } };
+
+    switch (entityType) {
+      case "course": {
+        const course = await this.prisma.course.findFirst({ where, select: { deletedAt: true } });
+        return course && { deleted_at: course.deletedAt!, parent_id: null, parent_deleted: false, course_id: id };
+      }
+      case "level": {
+        const level = await this.prisma.level.findFirst({
+          where,
+          select: { deletedAt: true, courseId: true, course: { select: { deletedAt: true } } },
+        });
+        return level && {
+          deleted_at: level.deletedAt!,
+          parent_id: level.courseId,
+          parent_deleted: level.course.deletedAt !== null,
+          course_id: level.courseId,
+        };
+      }
+      case "section": {
+        const section = await this.prisma.section.findFirst({
+          where,
+          select: { deletedAt: true, levelId: true, level: { select: { deletedAt: true, courseId: true } } },
+        });
+        return section && {
+          deleted_at: section.deletedAt!,
+          parent_id: section.levelId,
+          parent_deleted: section.level.deletedAt !== null,
+          course_id: section.level.courseId,
+        };
+      }
+      case "module": {
+        const module = await this.prisma.module.findFirst({
+          where,
+          select: {
+            deletedAt: true,
+            sectionId: true,
+            section: { select: { deletedAt: true, level: { select: { courseId: true } } } },
+          },
+        });
+        return module && {
+          deleted_at: module.deletedAt!,
+          parent_id: module.sectionId,
+          parent_deleted: module.section.deletedAt !== null,
+          course_id: module.section.level.courseId,
+        };
+      }
+      case "lesson": {
+        const lesson = await this.prisma.lesson.findFirst({
+          where,
+          select: {
+            deletedAt: true,
+            moduleId: true,
+            module: { select: { deletedAt: true, section: { select: { level: { select: { courseId: true } } } } } },
+          },
+        });
+        return lesson && {
+          deleted_at: lesson.deletedAt!,
+          parent_id: lesson.moduleId,
+          parent_deleted: lesson.module.deletedAt !== null,
+          course_id: lesson.module.section.level.courseId,
+        };
+      }
+      case "exercise": {
+        const exercise = await this.prisma.exercise.findFirst({ where, select: { deletedAt: true } });
+        return exercise && { deleted_at: exercise.deletedAt!, parent_id: null, parent_deleted: false, course_id: null };
+      }
+    }
+  }
+
+  /**
+   * Lists trashed entities that can be restored on their own, most recently deleted first.
+   * Content trashed together with its parent is left out; it comes back when the parent is restored.
+   * Exercises do not belong to a course and are left out when filtering by course.
+   */
+  async findTrash(filters: TrashFilters, page: number, limit: number): Promise<{ entries: TrashEntry[]; total: number }> {
+    const types: ContentEntityType[] = filters.type
+      ? [filters.type]
+      : ["course", "level", "section", "module", "lesson", "exercise"];
+    // Entries are merged across types, so each type contributes at most the entries up to the requested page
+    const take = page * limit;
+
+    const results = await Promise.all(types.map((type) => this.findTrashOfType(type, filters.course_id, take)));
+    const entries = results
+      .flatMap((result) => result.entries)
+      .sort((a, b) => b.deleted_at.getTime() - a.deleted_at.getTime())
+      .slice((page - 1) * limit, take);
+    const total = results.reduce((sum, result) => sum + result.total, 0);
+
+    return { entries, total };
+  }
+
+  /**
+   * Deletes content that has been in the trash since before the cutoff, with all its children.
+   * Returns the number of entities deleted at the top of their trashed subtree or on their own.
+   */
+  async purgeDeletedBefore(cutoff: Date): Promise<number> {
+    const where = { deletedAt: { lt: cutoff } };
+
+    // Parents first, deleting a parent cascades to its children
+    const results = await this.prisma.$transaction([
+      this.prisma.course.deleteMany({ where }),
+      this.prisma.level.deleteMany({ where }),
+      this.prisma.section.deleteMany({ where }),
+      this.prisma.module.deleteMany({ where }),
+      this.prisma.lesson.deleteMany({ where }),
+      this.prisma.exercise.deleteMany({ where }),
+    ]);
+
+    return results.reduce((sum, result) => sum + result.count, 0);
+  }
+
+  private async findTrashOfType(
+    entityType: ContentEntityType,
+    courseId: string | undefined,
+    take: number,
+  ): Promise<{ entries: TrashEntry[]; total: number }> {
+    const trashed = { deletedAt: { not: null } };
+    const orderBy = { deletedAt: "desc" } as const;
+
+    switch (entityType) {
+      case "course": {
+        const where: Prisma.CourseWhereInput = { ...trashed, ...(courseId && { id: courseId }) };
+        const [courses, total] = await Promise.all([
+          this.prisma.course.findMany({ where, orderBy, take, select: { id: true, name: true, deletedAt: true } }),
+          this.prisma.course.count({ where }),
+        ]);
+        return {
+          entries: courses.map((course) => ({
+            entity_type: "course",
+            id: course.id,
+            name: course.name,
+            parent_id: null,
+            course_id: course.id,
+            deleted_at: course.deletedAt!,
+          })),
+          total,
+        };
+      }
+      case "level": {
+        const where: Prisma.LevelWhereInput = {
+          ...trashed,
+          course: { deletedAt: null },
+          ...(courseId && { courseId }),
+        };
+        const [levels, total] = await Promise.all([
+          this.prisma.level.findMany({
+            where,
+            orderBy,
+            take,
+            select: { id: true, name: true, courseId: true, deletedAt: true },
+          }),
+          this.prisma.level.count({ where }),
+        ]);
+        return {
+          entries: levels.map((level) => ({
+            entity_type: "level",
+            id: level.id,
+            name: level.name,
+            parent_id: level.courseId,
+            course_id: level.courseId,
+            deleted_at: level.deletedAt!,
+          })),
+          total,
+        };
+      }
+      case "section": {
+        const where: Prisma.SectionWhereInput = {
+          ...trashed,
+          level: { deletedAt: null, ...(courseId && { courseId }) },
+        };
+        const [sections, total] = await Promise.all([
+          this.prisma.section.findMany({
+            where,
+            orderBy,
+            take,
+            select: { id: true, name: true, levelId: true, deletedAt: true, level: { select: { courseId: true } } },
+          }),
+          this.prisma.section.count({ where }),
+        ]);
+        return {
+          entries: sections.map((section) => ({
+            entity_type: "section",
+            id: section.id,
+            name: section.name,
+            parent_id: section.levelId,
+            course_id: section.level.courseId,
+            deleted_at: section.deletedAt!,
+          })),
+          total,
+        };
+      }
+      case "module": {
+        const where: Prisma.ModuleWhereInput = {
+          ...trashed,
+          section: { deletedAt: null, ...(courseId && { level: { courseId } }) },
+        };
+        const [modules, total] = await Promise.all([
+          this.prisma.module.findMany({
+            where,
+            orderBy,
+            take,
+            select: {
+              id: true,
+              name: true,
+              sectionId: true,
+              deletedAt: true,
+              section: { select: { level: { select: { courseId: true } } } },
+            },
+          }),
+          this.prisma.module.count({ where }),
+        ]);
+        return {
+          entries: modules.map((module) => ({
+            entity_type: "module",
+            id: module.id,
+            name: module.name,
+            parent_id: module.sectionId,
+            course_id: module.section.level.courseId,
+            deleted_at: module.deletedAt!,
+          })),
+          total,
+        };
+      }
+      case "lesson": {
+        const where: Prisma.LessonWhereInput = {
+          ...trashed,
+          module: { deletedAt: null, ...(courseId && { section: { level: { courseId } } }) },
+        };
+        const [lessons, total] = await Promise.all([
+          this.prisma.lesson.findMany({
+            where,
+            orderBy,
+            take,
+            select: {
+              id: true,
+              name: true,
+              moduleId: true,
+              deletedAt: true,
+              module: { select: { section: { select: { level: { select: { courseId: true } } } } } },
+            },
+          }),
+          this.prisma.lesson.count({ where }),
+        ]);
+        return {
+          entries: lessons.map((lesson) => ({
+            entity_type: "lesson",
+            id: lesson.id,
+            name: lesson.name,
+            parent_id: lesson.moduleId,
+            course_id: lesson.module.section.level.courseId,
+            deleted_at: lesson.deletedAt!,
+          })),
+          total,
+        };
+      }
+      case "exercise": {
+        if (courseId) {
+          return { entries: [], total: 0 };
+        }
+        const [exercises, total] = await Promise.all([
+          this.prisma.exercise.findMany({ where: trashed, orderBy, take, select: { id: true, deletedAt: true } }),
+          this.prisma.exercise.count({ where: trashed }),
+        ]);
+        return {
+          entries: exercises.map((exercise) => ({
+            entity_type: "exercise",
+            id: exercise.id,
+            name: null,
+            parent_id: null,
+            course_id: null,
+            deleted_at: exercise.deletedAt!,
+          })),
+          total,
+        };
+      }
+    }
+  }
+
+  private async updateDeletedAt(
+    tx: TransactionClient,
+    entityType: ContentEntityType,
+    where: { id: string; deletedAt: Date | null },
+    deletedAt: Date | null,
+  ): Promise<number> {
+    const data = { deletedAt };
+
+    switch (entityType) {
+      case "course":
+        return (await tx.course.updateMany({ where, data })).count;
+      case "level":
+        return (await tx.level.updateMany({ where, data })).count;
+      case "section":
+        return (await tx.section.updateMany({ where, data })).count;
+      case "module":
+        return (await tx.module.updateMany({ where, data })).count;
+      case "lesson":
+        return (await tx.lesson.updateMany({ where, data })).count;
+      case "exercise":
+        return (await tx.exercise.updateMany({ where, data })).count;
+    }
+  }
+
+  /**
+   * Moves a restored entity after its active siblings when another entity took its order position.
+   */
+  private async moveAfterActiveSiblings(tx: TransactionClient, entityType: ContentEntityType, id: string): Promise<void> {
+    switch (entityType) {
+      case "level": {
+        const level = await tx.level.findUniqueOrThrow({ where: { id }, select: { courseId: true, order: true } });
+        const siblings = { courseId: level.courseId, deletedAt: null, id: { not: id } };
+        if (await tx.level.count({ where: { ...siblings, order: level.order } })) {
+          const { _max } = await tx.level.aggregate({ where: siblings, _max: { order: true } });
+          await tx.level.update({ where: { id }, data: { order: (_max.order ?? 0) + 1 } });
+        }
+        return;
+      }
+      case "section": {
+        const section = await tx.section.findUniqueOrThrow({ where: { id }, select: { levelId: true, order: true } });
+        const siblings = { levelId: section.levelId, deletedAt: null, id: { not: id } };
+        if (await tx.section.count({ where: { ...siblings, order: section.order } })) {
+          const { _max } = await tx.section.aggregate({ where: siblings, _max: { order: true } });
+          await tx.section.update({ where: { id }, data: { order: (_max.order ?? 0) + 1 } });
+        }
+        return;
+      }
+      case "module": {
+        const module = await tx.module.findUniqueOrThrow({ where: { id }, select: { sectionId: true, order: true } });
+        const siblings = { sectionId: module.sectionId, deletedAt: null, id: { not: id } };
+        if (await tx.module.count({ where: { ...siblings, order: module.order } })) {
+          const { _max } = await tx.module.aggregate({ where: siblings, _max: { order: true } });
+          await tx.module.update({ where: { id }, data: { order: (_max.order ?? 0) + 1 } });
+        }
+        return;
+      }
+      case "lesson": {
+        const lesson = await tx.lesson.findUniqueOrThrow({ where: { id }, select: { moduleId: true, order: true } });
+        const siblings = { moduleId: lesson.moduleId, deletedAt: null, id: { not: id } };
+        if (await tx.lesson.count({ where: { ...siblings, order: lesson.order } })) {
+          const { _max } = await tx.lesson.aggregate({ where: siblings, _max: { order: true } });
+          await tx.lesson.update({ where: { id }, data: { order: (_max.order ?? 0) + 1 } });
+        }
+        return;
+      }
+      default:
+        return;
+    }
+  }
+}
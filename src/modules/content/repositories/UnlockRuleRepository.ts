@@ -0,0 +1,196 @@
+import { PrismaClient, UnlockRule as PrismaUnlockRule } from "@prisma/client";
+import {
+  UnlockRule,
+  UnlockTargetType,
+  UnlockRuleType,
+  CreateUnlockRuleDto,
+  CourseOutline,
+  Module,
+} from "../types";
+
+export class UnlockRuleRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(courseId: string, data: CreateUnlockRuleDto): Promise<UnlockRule> {
+    const rule = await this.prisma.unlockRule.create({
+      data: {
+        courseId,
+        targetType: data.target_type,
+        targetId: data.target_id,
+        ruleType: data.rule_type,
+        referenceId: data.reference_id ?? null,
+        minScore: data.min_score ?? null,
+        minExperience: data.min_experience ?? null,
+      },
+    });
+
+    return this.mapPrismaToModel(rule);
+  }
+
+  async findById(id: string): Promise<UnlockRule | null> {
+    const rule = await this.prisma.unlockRule.findUnique({
+      where: { id },
+    });
+
+    return rule ? this.mapPrismaToModel(rule) : null;
+  }
+
+  async findByCourseId(courseId: string): Promise<UnlockRule[]> {
+    const rules = await this.prisma.unlockRule.findMany({
+      where: { courseId },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return rules.map((rule) => this.mapPrismaToModel(rule));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await this.prisma.unlockRule.delete({
+        where: { id },
+      });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Resolves the course a level, section, module or lesson belongs to.
+   * Returns null when the content does not exist.
+   */
+  async findTargetCourseId(
+    targetType: UnlockTargetType,
+    targetId: string,
+  ): Promise<string | null> {
+    switch (targetType) {
+      case "level": {
+        const level = await this.prisma.level.findUnique({
+          where: { id: targetId, deletedAt: null },
+          select: { courseId: true },
+        });
+        return level?.courseId ?? null;
+      }
+      case "section": {
+        const section = await this.prisma.section.findUnique({
+          where: { id: targetId, deletedAt: null },
+          select: { level: { select: { courseId: true } } },
+        });
+        return section?.level.courseId ?? null;
+      }
+      case "module": {
+        const module = await this.prisma.module.findUnique({
+          where: { id: targetId, deletedAt: null },
+          select: { section: { select: { level: { select: { courseId: true } } } } },
+        });
+        return module?.section.level.courseId ?? null;
+      }
+      case "lesson": {
+        const lesson = await this.prisma.lesson.findUnique({
+          where: { id: targetId, deletedAt: null },
+          select: {
+            module: {
+              select: { section: { select: { level: { select: { courseId: true } } } } },
+            },
+          },
+        });
+        return lesson?.module.section.level.courseId ?? null;
+      }
+    }
+  }
+
+  /**
+   * Loads the ordered level → section → module → lesson identifiers of a course.
+   */
+  async findCourseOutline(courseId: string): Promise<CourseOutline | null> {
+    const course = await this.prisma.course.findUnique({
+      where: { id: courseId, deletedAt: null },
+      select: {
+        id: true,
+        levels: {
+          where: { deletedAt: null },
+          orderBy: { order: "asc" },
+          select: {
+            id: true,
+            sections: {
+              where: { deletedAt: null },
+              orderBy: { order: "asc" },
+              select: {
+                id: true,
+                modules: {
+                  where: { deletedAt: null },
+                  orderBy: { order: "asc" },
+                  select: {
+                    id: true,
+                    moduleType: true,
+                    lessons: {
+                      where: { deletedAt: null },
+                      orderBy: { order: "asc" },
+                      select: { id: true },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!course) return null;
+
+    return {
+      course_id: course.id,
+      levels: course.levels.map((level) => ({
+        id: level.id,
+        sections: level.sections.map((section) => ({
+          id: section.id,
+          modules: section.modules.map((module) => ({
+            id: module.id,
+            module_type: module.moduleType as Module["module_type"],
+            lessons: module.lessons,
+          })),
+        })),
+      })),
+    };
+  }
+
+  /**
+   * Returns the completion score of every lesson the user has completed among the given lessons.
+   */
+  async findLessonScores(
+    userId: string,
+    lessonIds: string[],
+  ): Promise<Map<string, number | null>> {
+    const completions = await this.prisma.lessonCompletion.findMany({
+      where: { userId, lessonId: { in: lessonIds } },
+      select: { lessonId: true, score: true },
+    });
+
+    return new Map(completions.map((completion) => [completion.lessonId, completion.score]));
+  }
+
+  async findUserExperience(userId: string): Promise<number> {
+    const progress = await this.prisma.userProgress.findUnique({
+      where: { userId },
+      select: { experiencePoints: true },
+    });
+
+    return progress?.experiencePoints ?? 0;
+  }
+
+  private mapPrismaToModel(rule: PrismaUnlockRule): UnlockRule {
+    return {
+      id: rule.id,
+      course_id: rule.courseId,
+      target_type: rule.targetType as UnlockTargetType,
+      target_id: rule.targetId,
+      rule_type: rule.ruleType as UnlockRuleType,
+      reference_id: rule.referenceId,
+      min_score: rule.minScore,
+      min_experience: rule.minExperience,
+      created_at: rule.createdAt,
+      updated_at: rule.updatedAt,
+    };
+  }
+}
@@ -3,4 +3,13 @@ export { LevelRepository } from './LevelRepository';
 export { SectionRepository } from './SectionRepository';
 export { ModuleRepository } from './ModuleRepository';
 export { LessonRepository } from './LessonRepository';
-export { ExerciseRepository } from './ExerciseRepository';
\ No newline at end of file
+export { ExerciseRepository } from './ExerciseRepository';
+export { UnlockRuleRepository } from './UnlockRuleRepository';
+export { ContentChangeRepository } from './ContentChangeRepository';
+export { CourseVersionRepository } from './CourseVersionRepository';
+export { CourseCollaboratorRepository } from './CourseCollaboratorRepository';
+export { TrashRepository } from './TrashRepository';
+export { CourseArchiveRepository } from './CourseArchiveRepository';
+export { ExerciseAttemptRepository } from './ExerciseAttemptRepository';
+export { CourseAnalyticsRepository } from './CourseAnalyticsRepository';
+export { EnrollmentRepository } from './EnrollmentRepository';
@@ -44,16 +44,27 @@
  * // POST /api/v1/courses - Create course (content_creator/admin)
  * // GET /api/v1/courses/:id - Get specific course
  * // GET /api/v1/courses/:id/package - Get packaged course for offline
+ * // GET /api/v1/courses/:id/export - Export a course archive (content_creator/admin)
+ * // POST /api/v1/courses/import - Import a course archive (content_creator/admin)
+ * // GET /api/v1/courses/:id/analytics - Learner analytics of a course (content_creator/admin)
+ * // POST /api/v1/courses/:id/enroll - Join a course, with an invite code for private courses
+ * // DELETE /api/v1/courses/:id/enroll - Leave a course
+ * // GET /api/v1/users/me/courses - Courses the learner joined, with progress
+ * // POST /api/v1/courses/:id/invite-code - Create a new invite code for a course (course owner)
  * // GET /api/v1/courses/:courseId/levels - List levels in course
  * // GET /api/v1/levels/:levelId/sections - List sections in level
  * // GET /api/v1/sections/:sectionId/modules - List modules in section
+ * // GET /api/v1/courses/:courseId/unlock-rules - List unlock rules of a course
+ * // GET /api/v1/courses/:courseId/unlock-status - Lock state of a course for the learner
  */
 
 import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
-import { ContentController } from '../controllers';
+import { ContentController, CourseAnalyticsController, CourseArchiveController, CourseCollaboratorController, CourseVersionController, EnrollmentController, TrashController, UnlockRuleController } from '../controllers';
+import { createCourseReaderMiddleware, createCourseRoleMiddleware } from '../middleware';
+import { createAuditMiddleware } from '../../audit/middleware';
 import { validate } from '../../../shared/middleware/validation';
-import { authenticateToken, requireRole } from '../../../shared/middleware/auth';
+import { authenticateToken, optionalAuth, requirePermission, requireRole } from '../../../shared/middleware/auth';
 import { paginationMiddleware } from '../../../shared/middleware/pagination';
 import { SORT_FIELDS } from '../../../shared/utils/repositoryHelpers';
 import {
@@ -72,11 +83,27 @@ import {
   ReorderModulesSchema,
   ReorderSectionsSchema,
   ReorderLevelsSchema,
+  CreateUnlockRuleSchema,
+  UnlockRuleParamSchema,
+  PackageChangesQuerySchema,
+  PublishCourseSchema,
+  CourseVersionParamSchema,
+  CourseVersionDiffQuerySchema,
   CourseParamSchema,
+  InviteCollaboratorSchema,
+  UpdateCollaboratorSchema,
+  CollaboratorParamSchema,
   LevelParamSchema,
   SectionParamSchema,
+  TrashQuerySchema,
+  CourseArchiveSchema,
+  ImportCourseQuerySchema,
+  CourseAnalyticsQuerySchema,
+  EnrollCourseSchema,
+  EnrolledCoursesQuerySchema,
   // ModuleParamSchema
 } from '../schemas';
+import { ImportCourseQuery } from '../types';
 import { IdParamSchema } from '../../../shared/schemas/common';
 
 /**
@@ -97,6 +124,16 @@ import { IdParamSchema } from '../../../shared/schemas/common';
 export function createContentRoutes(prisma: PrismaClient): Router {
   const router = Router();
   const contentController = new ContentController(prisma);
+  const unlockRuleController = new UnlockRuleController(prisma);
+  const courseVersionController = new CourseVersionController(prisma);
+  const courseCollaboratorController = new CourseCollaboratorController(prisma);
+  const trashController = new TrashController(prisma);
+  const courseArchiveController = new CourseArchiveController(prisma);
+  const courseAnalyticsController = new CourseAnalyticsController(prisma);
+  const enrollmentController = new EnrollmentController(prisma);
+  const requireCourseRole = createCourseRoleMiddleware(prisma);
+  const requireCourseReader = createCourseReaderMiddleware(prisma);
+  const audit = createAuditMiddleware(prisma);
 
   /**
    * Course management routes
@@ -112,7 +149,7 @@ export function createContentRoutes(prisma: PrismaClient): Router {
    *     tags:
    *       - Courses
    *     summary: List courses with pagination and filtering
-   *     description: Retrieve a paginated list of courses with optional filtering by language and search capabilities. Public access - no authentication required.
+   *     description: Retrieve a paginated list of courses with optional filtering by language and search capabilities. Public access - no authentication required. Private courses are only listed to their enrolled learners, their collaborators and admins.
    *     parameters:
    *       - in: query
    *         name: page
@@ -169,6 +206,13 @@ export function createContentRoutes(prisma: PrismaClient): Router {
    *           type: string
    *         description: Search term for course name and description
    *         example: "spanish"
+   *       - in: query
+   *         name: accessible
+   *         schema:
+   *           type: string
+   *           enum: ['true', 'false']
+   *         description: Only list the courses the authenticated user collaborates on (admins get every course). Requires authentication.
+   *         example: "true"
    *     responses:
    *       200:
    *         description: Courses retrieved successfully
@@ -211,8 +255,11 @@ export function createContentRoutes(prisma: PrismaClient): Router {
    *           application/json:
    *             schema:
    *               $ref: '#/components/schemas/Error'
+   *       401:
+   *         description: Authentication required for accessible=true
    */
   router.get('/courses',
+    optionalAuth,
     validate({ query: CourseQuerySchema }),
     paginationMiddleware({
       allowedSortFields: SORT_FIELDS.COURSE,
@@ -230,7 +277,7 @@ export function createContentRoutes(prisma: PrismaClient): Router {
    *     tags:
    *       - Courses
    *     summary: Create a new course
-   *     description: Create a new language learning course with hierarchical content structure. Requires authentication and content_creator or admin role.
+   *     description: Create a new language learning course with hierarchical content structure. Requires authentication and content_creator or admin role. The creator becomes the owner of the course.
    *     security:
    *       - bearerAuth: []
    *     requestBody:
@@ -328,6 +375,7 @@ export function createContentRoutes(prisma: PrismaClient): Router {
     authenticateToken,
     requireRole(['admin', 'content_creator']),
     validate({ body: CreateCourseSchema }),
+    audit('create', 'course'),
     contentController.createCourse
   );
 
@@ -338,7 +386,10 @@ export function createContentRoutes(prisma: PrismaClient): Router {
    *     tags:
    *       - Courses
    *     summary: Get course by ID
-   *     description: Retrieve detailed information for a specific course including metadata and structure overview. Public access - no authentication required.
+   *     description: Retrieve detailed information for a specific course including metadata and structure overview. Public access - no authentication required. Private courses can only be read by their enrolled learners, their collaborators and admins, and are reported as not found to anyone else.
+   *     security:
+   *       - {}
+   *       - bearerAuth: []
    *     parameters:
    *       - in: path
    *         name: id
@@ -387,7 +438,9 @@ export function createContentRoutes(prisma: PrismaClient): Router {
    *               $ref: '#/components/schemas/Error'
    */
   router.get('/courses/:id',
+    optionalAuth,
     validate({ params: IdParamSchema }),
+    requireCourseReader,
     contentController.getCourse
   );
 
@@ -493,6 +546,8 @@ export function createContentRoutes(prisma: PrismaClient): Router {
       params: IdParamSchema,
       body: UpdateCourseSchema
     }),
+    requireCourseRole('editor'),
+    audit('update', 'course'),
     contentController.updateCourse
   );
 
@@ -503,7 +558,7 @@ export function createContentRoutes(prisma: PrismaClient): Router {
    *     tags:
    *       - Courses
    *     summary: Delete course
-   *     description: Permanently delete a course and all its associated content (levels, sections, modules, lessons). This action cannot be undone. Requires authentication and admin role.
+   *     description: Delete a course and all its associated content (levels, sections, modules, lessons). The course is moved to the trash and can be restored until it is purged. Requires authentication and admin role.
    *     security:
    *       - bearerAuth: []
    *     parameters:
@@ -574,9 +629,60 @@ export function createContentRoutes(prisma: PrismaClient): Router {
     authenticateToken,
     requireRole(['admin']),
     validate({ params: IdParamSchema }),
+    audit('delete', 'course'),
     contentController.deleteCourse
   );
 
+  /**
+   * @swagger
+   * /api/v1/courses/{id}/restore:
+   *   post:
+   *     tags:
+   *       - Courses
+   *     summary: Restore course
+   *     description: Restore a course from the trash together with the levels, sections, modules and lessons deleted with it (requires admin role)
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 20
+   *         description: Course ID
+   *         example: "qu-es-beginner"
+   *     responses:
+   *       200:
+   *         description: Course restored successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   $ref: '#/components/schemas/Course'
+   *                 message:
+   *                   type: string
+   *                   example: Course restored successfully
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       403:
+   *         description: Insufficient permissions (admin required)
+   *       404:
+   *         description: Course not found in the trash
+   */
+  router.post('/courses/:id/restore',
+    authenticateToken,
+    requireRole(['admin']),
+    validate({ params: IdParamSchema }),
+    audit('restore', 'course'),
+    trashController.restoreCourse
+  );
+
   /**
    * @swagger
    * /api/v1/courses/{id}/package:
@@ -584,7 +690,14 @@ export function createContentRoutes(prisma: PrismaClient): Router {
    *     tags:
    *       - Courses
    *     summary: Get packaged course for offline use
-   *     description: Retrieve complete course structure with all nested content (levels, sections, modules, lessons, exercises) optimized for offline learning. Public access - no authentication required.
+   *     description: |
+   *       Retrieve complete course structure with all nested content (levels, sections, modules, lessons, exercises) optimized for offline learning. Public access - no authentication required.
+   *       Private courses can only be downloaded by their enrolled learners, their collaborators and admins, and are reported as not found to anyone else.
+   *       The package holds the latest published version of the course; draft changes are delivered once the course is published again.
+   *       When a valid access token is sent, every level, section, module and lesson includes a `locked` flag evaluated from the course unlock rules for that learner. Personalized responses are private and ignore If-Modified-Since.
+   *     security:
+   *       - {}
+   *       - bearerAuth: []
    *     parameters:
    *       - in: path
    *         name: id
@@ -623,6 +736,9 @@ export function createContentRoutes(prisma: PrismaClient): Router {
    *                             type: string
    *                           order:
    *                             type: integer
+   *                           locked:
+   *                             type: boolean
+   *                             description: Only present for authenticated requests
    *                           sections:
    *                             type: array
    *                             items:
@@ -656,10 +772,33 @@ export function createContentRoutes(prisma: PrismaClient): Router {
    *                                               type: string
    *                                             name:
    *                                               type: string
+   *                                             locked:
+   *                                               type: boolean
+   *                                               description: Only present for authenticated requests
    *                                             exercises:
    *                                               type: array
    *                                               items:
    *                                                 $ref: '#/components/schemas/Exercise'
+   *                     revision:
+   *                       type: integer
+   *                       description: Course revision of the package, used to request incremental changes
+   *                       example: 42
+   *                     version:
+   *                       type: integer
+   *                       description: Published version of the course held in the package
+   *                       example: 3
+   *                     media:
+   *                       type: array
+   *                       description: Uploaded media referenced by the exercises by media_id, to download for offline use from each url
+   *                       items:
+   *                         allOf:
+   *                           - $ref: '#/components/schemas/MediaAsset'
+   *                           - type: object
+   *                             properties:
+   *                               exercise_ids:
+   *                                 type: array
+   *                                 items:
+   *                                   type: string
    *                     packageInfo:
    *                       type: object
    *                       properties:
@@ -681,17 +820,1523 @@ export function createContentRoutes(prisma: PrismaClient): Router {
    *         content:
    *           application/json:
    *             schema:
-   *               $ref: '#/components/schemas/Error'
+   *               $ref: '#/components/schemas/Error'
+   *       404:
+   *         description: Course not found or not published yet
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  router.get('/courses/:id/package',
+    optionalAuth,
+    validate({ params: IdParamSchema }),
+    requireCourseReader,
+    contentController.getPackagedCourse
+  );
+
+  /**
+   * @swagger
+   * /api/v1/courses/{id}/package/changes:
+   *   get:
+   *     tags:
+   *       - Courses
+   *     summary: Get course content changes since a package revision
+   *     description: |
+   *       Returns the published content created, updated or deleted after the given revision, up to the latest published version, so offline clients can update a downloaded package without downloading the whole course again.
+   *       Created and updated entities are returned flat with their parent IDs, without nested children. Lessons include their exercise assignments as in the packaged course.
+   *       Deleted entities are returned as tombstones; deleting a parent removes its whole subtree. Public access - no authentication required.
+   *     security: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 20
+   *         description: Course ID (unique identifier)
+   *         example: "qu-es-beginner"
+   *       - in: query
+   *         name: since
+   *         required: true
+   *         schema:
+   *           type: integer
+   *           minimum: 0
+   *         description: Revision of the package held by the client
+   *         example: 42
+   *     responses:
+   *       200:
+   *         description: Changes retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     course_id:
+   *                       type: string
+   *                     since:
+   *                       type: integer
+   *                       example: 42
+   *                     revision:
+   *                       type: integer
+   *                       description: Revision of the latest published version, to be sent as `since` on the next sync
+   *                       example: 45
+   *                     course:
+   *                       nullable: true
+   *                       allOf:
+   *                         - $ref: '#/components/schemas/Course'
+   *                     levels:
+   *                       type: array
+   *                       items:
+   *                         type: object
+   *                         description: Level with its course_id, without nested children
+   *                     sections:
+   *                       type: array
+   *                       items:
+   *                         type: object
+   *                         description: Section with its level_id, without nested children
+   *                     modules:
+   *                       type: array
+   *                       items:
+   *                         type: object
+   *                         description: Module with its section_id, without nested children
+   *                     lessons:
+   *                       type: array
+   *                       items:
+   *                         $ref: '#/components/schemas/Lesson'
+   *                     exercises:
+   *                       type: array
+   *                       items:
+   *                         $ref: '#/components/schemas/Exercise'
+   *                     deleted:
+   *                       type: array
+   *                       items:
+   *                         type: object
+   *                         properties:
+   *                           entity_type:
+   *                             type: string
+   *                             enum: [course, level, section, module, lesson, exercise]
+   *                           entity_id:
+   *                             type: string
+   *                           revision:
+   *                             type: integer
+   *                     media:
+   *                       type: array
+   *                       description: Uploaded media referenced by the changed exercises and lessons
+   *                       items:
+   *                         allOf:
+   *                           - $ref: '#/components/schemas/MediaAsset'
+   *                           - type: object
+   *                             properties:
+   *                               exercise_ids:
+   *                                 type: array
+   *                                 items:
+   *                                   type: string
+   *       400:
+   *         description: Invalid course ID or revision
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       404:
+   *         description: Course not found or not published yet
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       409:
+   *         description: Revision is ahead of the published revision; the full package must be downloaded again
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  router.get('/courses/:id/package/changes',
+    optionalAuth,
+    validate({ params: IdParamSchema, query: PackageChangesQuerySchema }),
+    requireCourseReader,
+    contentController.getPackageChanges
+  );
+
+  /**
+   * Course archive routes
+   *
+   * Archives move a course between environments: the export of one environment is posted as it is
+   * to the import of another, which creates it as a new course.
+   */
+
+  /**
+   * @swagger
+   * /api/v1/courses/import:
+   *   post:
+   *     tags:
+   *       - Courses
+   *     summary: Import a course archive
+   *     description: |
+   *       Create a new course from an archive exported with GET /api/v1/courses/{id}/export. The whole archive is validated first, including the exercise data and the references between its content. Uploaded media that exercises reference by media_id are not part of the archive and must already exist in this environment with the kind the exercise expects. Archive IDs that are already taken in this environment, including content in the trash, are reported as conflicts.
+   *
+   *       With `id_strategy=preserve` (default) the archive IDs are kept and the import fails with 409 when any of them is taken. With `id_strategy=remap` taken IDs get new IDs generated from the content names, and the response maps each remapped ID to its new ID. The course is created in a single transaction, owned by the importing user. `dry_run=true` reports conflicts and remapped IDs without importing.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: id_strategy
+   *         schema:
+   *           type: string
+   *           enum: [preserve, remap]
+   *           default: preserve
+   *         description: Whether to keep the archive IDs or assign new IDs to the taken ones
+   *       - in: query
+   *         name: dry_run
+   *         schema:
+   *           type: boolean
+   *           default: false
+   *         description: Only check the archive against this environment
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/CourseArchive'
+   *     responses:
+   *       200:
+   *         description: Archive checked successfully (dry run)
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   $ref: '#/components/schemas/CourseImportResult'
+   *       201:
+   *         description: Course imported successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   $ref: '#/components/schemas/CourseImportResult'
+   *       400:
+   *         description: Invalid archive, unsupported archive format version, broken references or uploaded media missing from this environment
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       403:
+   *         description: Insufficient permissions (content_creator or admin required)
+   *       409:
+   *         description: Archive IDs already exist and id_strategy is preserve
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  router.post('/courses/import',
+    authenticateToken,
+    requireRole(['admin', 'content_creator']),
+    validate({ query: ImportCourseQuerySchema, body: CourseArchiveSchema }),
+    audit('import', 'course', {
+      entityId: (_req, data) => data?.course_id,
+      skip: (req) => (req.query as unknown as ImportCourseQuery).dry_run,
+    }),
+    courseArchiveController.importCourse
+  );
+
+  /**
+   * @swagger
+   * /api/v1/courses/{id}/export:
+   *   get:
+   *     tags:
+   *       - Courses
+   *     summary: Export a course archive
+   *     description: Download the current (draft) content of a course as a versioned, self-describing archive with the course tree, the exercises used by its lessons, its unlock rules and a manifest of the media the exercises link to. Content in the trash is not exported. The response body is the archive itself, sent as a file download, and can be posted to POST /api/v1/courses/import as it is.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 20
+   *         description: Course ID
+   *         example: "qu-es-beginner"
+   *     responses:
+   *       200:
+   *         description: Course archive
+   *         headers:
+   *           Content-Disposition:
+   *             schema:
+   *               type: string
+   *             example: 'attachment; filename="qu-es-beginner.course.json"'
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/CourseArchive'
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: Course not found
+   */
+  router.get('/courses/:id/export',
+    authenticateToken,
+    requireRole(['admin', 'content_creator']),
+    validate({ params: IdParamSchema }),
+    requireCourseRole('viewer'),
+    courseArchiveController.exportCourse
+  );
+
+  /**
+   * @swagger
+   * /api/v1/courses/{id}/analytics:
+   *   get:
+   *     tags:
+   *       - Courses
+   *       - Analytics
+   *     summary: Get learner analytics of a course
+   *     description: |
+   *       Enrollment, active learners per day, drop-off through the levels, sections, modules and lessons of the course,
+   *       median lesson times and score distributions for a range of days (UTC). The range defaults to the last 30 days
+   *       and cannot exceed 366 days. With `format=csv`, the table chosen with `report` is sent as a CSV file download.
+   *       Requires the `read:analytics` permission and a role in the course.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 20
+   *         description: Course ID
+   *         example: "spanish-101"
+   *       - in: query
+   *         name: from
+   *         schema:
+   *           type: string
+   *           format: date
+   *         description: First day of the range
+   *         example: "2025-01-01"
+   *       - in: query
+   *         name: to
+   *         schema:
+   *           type: string
+   *           format: date
+   *         description: Last day of the range, today by default
+   *         example: "2025-01-30"
+   *       - in: query
+   *         name: format
+   *         schema:
+   *           type: string
+   *           enum: [json, csv]
+   *           default: json
+   *       - in: query
+   *         name: report
+   *         schema:
+   *           type: string
+   *           enum: [activity, funnel, scores]
+   *           default: funnel
+   *         description: Table exported when the format is csv
+   *     responses:
+   *       200:
+   *         description: Course analytics
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   $ref: '#/components/schemas/CourseAnalytics'
+   *           text/csv:
+   *             schema:
+   *               type: string
+   *               example: "date,active_learners\r\n2025-01-01,24\r\n"
+   *       400:
+   *         description: Invalid date range
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: Course not found
+   */
+  router.get('/courses/:id/analytics',
+    authenticateToken,
+    requirePermission('read:analytics'),
+    validate({ params: IdParamSchema, query: CourseAnalyticsQuerySchema }),
+    requireCourseRole('viewer'),
+    courseAnalyticsController.getCourseAnalytics
+  );
+
+  /**
+   * Course version routes (nested under courses)
+   *
+   * Content edits change the draft of a course. Publishing snapshots the draft into an immutable
+   * version, which is what learners receive in the packaged course.
+   */
+
+  /**
+   * @swagger
+   * /api/v1/courses/{id}/publish:
+   *   post:
+   *     tags:
+   *       - Courses
+   *     summary: Publish the course draft
+   *     description: Snapshot the current course hierarchy (levels, sections, modules, lessons, exercise assignments and exercise data) into a new immutable version. Packaged course delivery switches to the new version.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 20
+   *         description: Course ID
+   *         example: "qu-es-beginner"
+   *     requestBody:
+   *       required: false
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               notes:
+   *                 type: string
+   *                 maxLength: 500
+   *                 example: "Added the A2 level"
+   *     responses:
+   *       201:
+   *         description: Course published successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   $ref: '#/components/schemas/CourseVersion'
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: Course not found
+   */
+  router.post('/courses/:id/publish',
+    authenticateToken,
+    requireRole(['admin', 'content_creator']),
+    validate({ params: IdParamSchema, body: PublishCourseSchema }),
+    requireCourseRole('reviewer'),
+    audit('publish', 'course_version', { entityId: (_req, data) => data?.id }),
+    courseVersionController.publish
+  );
+
+  /**
+   * @swagger
+   * /api/v1/courses/{id}/versions:
+   *   get:
+   *     tags:
+   *       - Courses
+   *     summary: List published versions of a course
+   *     description: Retrieve the version history of a course, newest first, without the content snapshots.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 20
+   *         description: Course ID
+   *         example: "qu-es-beginner"
+   *     responses:
+   *       200:
+   *         description: Versions retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/CourseVersion'
+   *       404:
+   *         description: Course not found
+   */
+  router.get('/courses/:id/versions',
+    authenticateToken,
+    requireRole(['admin', 'content_creator']),
+    validate({ params: IdParamSchema }),
+    requireCourseRole('viewer'),
+    courseVersionController.getVersions
+  );
+
+  /**
+   * @swagger
+   * /api/v1/courses/{id}/versions/{version}:
+   *   get:
+   *     tags:
+   *       - Courses
+   *     summary: Get a published version of a course
+   *     description: Retrieve a published version together with its content snapshot, in the packaged course format.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 20
+   *         description: Course ID
+   *       - in: path
+   *         name: version
+   *         required: true
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *         description: Version number
+   *     responses:
+   *       200:
+   *         description: Version retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   allOf:
+   *                     - $ref: '#/components/schemas/CourseVersion'
+   *                     - type: object
+   *                       properties:
+   *                         snapshot:
+   *                           type: object
+   *                           description: Course and levels as in the packaged course
+   *       404:
+   *         description: Version not found
+   */
+  router.get('/courses/:id/versions/:version',
+    authenticateToken,
+    requireRole(['admin', 'content_creator']),
+    validate({ params: IdParamSchema.extend({ version: CourseVersionParamSchema.shape.version }) }),
+    requireCourseRole('viewer'),
+    courseVersionController.getVersion
+  );
+
+  /**
+   * @swagger
+   * /api/v1/courses/{id}/versions/{version}/diff:
+   *   get:
+   *     tags:
+   *       - Courses
+   *     summary: Compare a version with another version or the draft
+   *     description: |
+   *       List the levels, sections, modules, lessons and exercises added, removed or modified from the given version to the `against` version, or to the current draft when `against` is omitted.
+   *       Modified entries name the changed fields; timestamps are ignored. Lesson exercise assignments are compared as the `exercises` field of the lesson.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 20
+   *         description: Course ID
+   *       - in: path
+   *         name: version
+   *         required: true
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *         description: Version to compare from
+   *       - in: query
+   *         name: against
+   *         required: false
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *         description: Version to compare to (defaults to the current draft)
+   *     responses:
+   *       200:
+   *         description: Differences retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     course_id:
+   *                       type: string
+   *                     from:
+   *                       type: integer
+   *                       example: 2
+   *                     to:
+   *                       oneOf:
+   *                         - type: integer
+   *                         - type: string
+   *                           enum: [draft]
+   *                     changes:
+   *                       type: array
+   *                       items:
+   *                         type: object
+   *                         properties:
+   *                           entity_type:
+   *                             type: string
+   *                             enum: [course, level, section, module, lesson, exercise]
+   *                           entity_id:
+   *                             type: string
+   *                           change:
+   *                             type: string
+   *                             enum: [added, removed, modified]
+   *                           fields:
+   *                             type: array
+   *                             items:
+   *                               type: string
+   *                             example: ["name", "order"]
+   *       404:
+   *         description: Course or version not found
+   */
+  router.get('/courses/:id/versions/:version/diff',
+    authenticateToken,
+    requireRole(['admin', 'content_creator']),
+    validate({
+      params: IdParamSchema.extend({ version: CourseVersionParamSchema.shape.version }),
+      query: CourseVersionDiffQuerySchema
+    }),
+    requireCourseRole('viewer'),
+    courseVersionController.diffVersion
+  );
+
+  /**
+   * @swagger
+   * /api/v1/courses/{id}/versions/{version}/rollback:
+   *   post:
+   *     tags:
+   *       - Courses
+   *     summary: Roll a course back to a published version
+   *     description: |
+   *       Restore the course draft to the content of the given version and publish it as a new version. Content added after the version is deleted, removed content is recreated and modified content is restored; exercises are restored to their data at that version.
+   *       The version history is kept, and offline clients receive the rollback through incremental sync.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 20
+   *         description: Course ID
+   *       - in: path
+   *         name: version
+   *         required: true
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *         description: Version to roll back to
+   *     responses:
+   *       201:
+   *         description: Course rolled back and published as a new version
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   $ref: '#/components/schemas/CourseVersion'
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: Course or version not found
+   */
+  router.post('/courses/:id/versions/:version/rollback',
+    authenticateToken,
+    requireRole(['admin', 'content_creator']),
+    validate({ params: IdParamSchema.extend({ version: CourseVersionParamSchema.shape.version }) }),
+    requireCourseRole('editor'),
+    audit('rollback', 'course'),
+    courseVersionController.rollback
+  );
+
+  /**
+   * Course collaborator routes
+   * 
+   * Owners invite content creators to their courses with a course role (owner, editor,
+   * reviewer or viewer). Invited users accept or decline their invitations.
+   */
+
+  /**
+   * @swagger
+   * /api/v1/courses/{id}/collaborators:
+   *   get:
+   *     tags:
+   *       - Courses
+   *     summary: List course collaborators
+   *     description: List the collaborators of a course and their roles, including pending invitations. Requires any role in the course.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 20
+   *         description: Course ID
+   *         example: "qu-es-beginner"
+   *     responses:
+   *       200:
+   *         description: Collaborators retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/CourseCollaborator'
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient course permissions
+   *       404:
+   *         description: Course not found
+   */
+  router.get('/courses/:id/collaborators',
+    authenticateToken,
+    requireRole(['admin', 'content_creator']),
+    validate({ params: IdParamSchema }),
+    requireCourseRole('viewer'),
+    courseCollaboratorController.getCollaborators
+  );
+
+  /**
+   * @swagger
+   * /api/v1/courses/{id}/collaborators:
+   *   post:
+   *     tags:
+   *       - Courses
+   *     summary: Invite a collaborator
+   *     description: Invite a user to a course by email. The role applies once the user accepts the invitation. Requires the owner role in the course.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 20
+   *         description: Course ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - email
+   *               - role
+   *             properties:
+   *               email:
+   *                 type: string
+   *                 format: email
+   *                 example: "ana@example.com"
+   *               role:
+   *                 $ref: '#/components/schemas/CourseRole'
+   *     responses:
+   *       201:
+   *         description: Invitation sent successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   $ref: '#/components/schemas/CourseCollaborator'
+   *       403:
+   *         description: Insufficient course permissions
+   *       404:
+   *         description: Course or user not found
+   *       409:
+   *         description: User is already a collaborator or invited
+   */
+  router.post('/courses/:id/collaborators',
+    authenticateToken,
+    requireRole(['admin', 'content_creator']),
+    validate({ params: IdParamSchema, body: InviteCollaboratorSchema }),
+    requireCourseRole('owner'),
+    audit('invite', 'course_collaborator', { entityId: (req, data) => data && `${req.params['id']}:${data.user_id}` }),
+    courseCollaboratorController.inviteCollaborator
+  );
+
+  /**
+   * @swagger
+   * /api/v1/courses/{id}/collaborators/{userId}:
+   *   put:
+   *     tags:
+   *       - Courses
+   *     summary: Change a collaborator's role
+   *     description: Change the course role of a collaborator or pending invitation. A course always keeps at least one owner. Requires the owner role in the course.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 20
+   *         description: Course ID
+   *       - in: path
+   *         name: userId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: Collaborator user ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - role
+   *             properties:
+   *               role:
+   *                 $ref: '#/components/schemas/CourseRole'
+   *     responses:
+   *       200:
+   *         description: Collaborator updated successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   $ref: '#/components/schemas/CourseCollaborator'
+   *       403:
+   *         description: Insufficient course permissions
+   *       404:
+   *         description: Course or collaborator not found
+   *       409:
+   *         description: The collaborator is the last owner of the course
+   */
+  router.put('/courses/:id/collaborators/:userId',
+    authenticateToken,
+    requireRole(['admin', 'content_creator']),
+    validate({ params: CollaboratorParamSchema, body: UpdateCollaboratorSchema }),
+    requireCourseRole('owner'),
+    audit('update_role', 'course_collaborator', { entityId: (req) => `${req.params['id']}:${req.params['userId']}` }),
+    courseCollaboratorController.updateCollaborator
+  );
+
+  /**
+   * @swagger
+   * /api/v1/courses/{id}/collaborators/{userId}:
+   *   delete:
+   *     tags:
+   *       - Courses
+   *     summary: Remove a collaborator
+   *     description: Remove a collaborator from a course or withdraw a pending invitation. A course always keeps at least one owner. Requires the owner role in the course.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 20
+   *         description: Course ID
+   *       - in: path
+   *         name: userId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: Collaborator user ID
+   *     responses:
+   *       200:
+   *         description: Collaborator removed successfully
+   *       403:
+   *         description: Insufficient course permissions
+   *       404:
+   *         description: Course or collaborator not found
+   *       409:
+   *         description: The collaborator is the last owner of the course
+   */
+  router.delete('/courses/:id/collaborators/:userId',
+    authenticateToken,
+    requireRole(['admin', 'content_creator']),
+    validate({ params: CollaboratorParamSchema }),
+    requireCourseRole('owner'),
+    audit('remove', 'course_collaborator', { entityId: (req) => `${req.params['id']}:${req.params['userId']}` }),
+    courseCollaboratorController.removeCollaborator
+  );
+
+  /**
+   * @swagger
+   * /api/v1/course-invitations:
+   *   get:
+   *     tags:
+   *       - Courses
+   *     summary: List my course invitations
+   *     description: List the pending course invitations of the authenticated user, newest first.
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Invitations retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/CourseInvitation'
+   *       401:
+   *         description: Authentication required
+   */
+  router.get('/course-invitations',
+    authenticateToken,
+    courseCollaboratorController.getInvitations
+  );
+
+  /**
+   * @swagger
+   * /api/v1/course-invitations/{courseId}/accept:
+   *   post:
+   *     tags:
+   *       - Courses
+   *     summary: Accept a course invitation
+   *     description: Accept an invitation to a course, giving the authenticated user the invited role.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: courseId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 20
+   *         description: Course ID
+   *     responses:
+   *       200:
+   *         description: Invitation accepted
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   $ref: '#/components/schemas/CourseCollaborator'
+   *       404:
+   *         description: Invitation not found
+   */
+  router.post('/course-invitations/:courseId/accept',
+    authenticateToken,
+    validate({ params: CourseParamSchema }),
+    audit('accept', 'course_collaborator', { entityId: (req) => `${req.params['courseId']}:${req.user?.sub}` }),
+    courseCollaboratorController.acceptInvitation
+  );
+
+  /**
+   * @swagger
+   * /api/v1/course-invitations/{courseId}:
+   *   delete:
+   *     tags:
+   *       - Courses
+   *     summary: Decline a course invitation
+   *     description: Decline a pending invitation to a course.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: courseId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 20
+   *         description: Course ID
+   *     responses:
+   *       200:
+   *         description: Invitation declined
+   *       404:
+   *         description: Invitation not found
+   */
+  router.delete('/course-invitations/:courseId',
+    authenticateToken,
+    validate({ params: CourseParamSchema }),
+    audit('decline', 'course_collaborator', { entityId: (req) => `${req.params['courseId']}:${req.user?.sub}` }),
+    courseCollaboratorController.declineInvitation
+  );
+
+  /**
+   * Enrollment routes
+   *
+   * Learners join public courses freely and private courses with an invite code.
+   * Course owners manage the invite code of their courses.
+   */
+
+  /**
+   * @swagger
+   * /api/v1/courses/{id}/enroll:
+   *   post:
+   *     tags:
+   *       - Courses
+   *     summary: Enroll in a course
+   *     description: Enroll the authenticated user in a course. Private courses require the course's invite code. Enrolling again returns the existing enrollment.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 20
+   *         description: Course ID
+   *     requestBody:
+   *       required: false
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               invite_code:
+   *                 type: string
+   *                 maxLength: 16
+   *                 description: Invite code of a private course, not case-sensitive
+   *                 example: "K7QPM2XWZD"
+   *     responses:
+   *       200:
+   *         description: Already enrolled
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   $ref: '#/components/schemas/Enrollment'
+   *       201:
+   *         description: Enrolled successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   $ref: '#/components/schemas/Enrollment'
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: The course is private and the invite code is missing or wrong
+   *       404:
+   *         description: Course not found
+   *   delete:
+   *     tags:
+   *       - Courses
+   *     summary: Unenroll from a course
+   *     description: Remove the authenticated user from a course. Lesson completions are kept and count again if the user enrolls later.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 20
+   *         description: Course ID
+   *     responses:
+   *       200:
+   *         description: Unenrolled successfully
+   *       401:
+   *         description: Authentication required
+   *       404:
+   *         description: Not enrolled in the course
+   */
+  router.post('/courses/:id/enroll',
+    authenticateToken,
+    validate({ params: IdParamSchema, body: EnrollCourseSchema }),
+    enrollmentController.enroll
+  );
+
+  router.delete('/courses/:id/enroll',
+    authenticateToken,
+    validate({ params: IdParamSchema }),
+    enrollmentController.unenroll
+  );
+
+  /**
+   * @swagger
+   * /api/v1/users/me/courses:
+   *   get:
+   *     tags:
+   *       - Courses
+   *       - User
+   *     summary: List my courses
+   *     description: List the courses the authenticated user is enrolled in, most recently joined first, with the lessons completed and the progress percentage of each.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [active, completed]
+   *         description: Only list active or only list completed courses
+   *     responses:
+   *       200:
+   *         description: Courses retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/EnrolledCourse'
+   *       401:
+   *         description: Authentication required
+   */
+  router.get('/users/me/courses',
+    authenticateToken,
+    validate({ query: EnrolledCoursesQuerySchema }),
+    enrollmentController.getMyCourses
+  );
+
+  /**
+   * @swagger
+   * /api/v1/courses/{id}/invite-code:
+   *   get:
+   *     tags:
+   *       - Courses
+   *     summary: Get the invite code of a course
+   *     description: Get the code learners use to join the course while it is private. Requires the editor role in the course.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 20
+   *         description: Course ID
+   *     responses:
+   *       200:
+   *         description: Invite code retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   $ref: '#/components/schemas/CourseInviteCode'
+   *       403:
+   *         description: Insufficient course permissions
+   *       404:
+   *         description: Course not found
+   *   post:
+   *     tags:
+   *       - Courses
+   *     summary: Create a new invite code
+   *     description: Create a new invite code for the course. The previous code stops working; learners who already joined stay enrolled. Requires the owner role in the course.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 20
+   *         description: Course ID
+   *     responses:
+   *       200:
+   *         description: Invite code created successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   $ref: '#/components/schemas/CourseInviteCode'
+   *       403:
+   *         description: Insufficient course permissions
+   *       404:
+   *         description: Course not found
+   *   delete:
+   *     tags:
+   *       - Courses
+   *     summary: Disable the invite code
+   *     description: Remove the invite code of the course so it can no longer be joined with a code. Requires the owner role in the course.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 20
+   *         description: Course ID
+   *     responses:
+   *       200:
+   *         description: Invite code disabled
+   *       403:
+   *         description: Insufficient course permissions
+   *       404:
+   *         description: Course not found
+   */
+  router.get('/courses/:id/invite-code',
+    authenticateToken,
+    requireRole(['admin', 'content_creator']),
+    validate({ params: IdParamSchema }),
+    requireCourseRole('editor'),
+    enrollmentController.getInviteCode
+  );
+
+  router.post('/courses/:id/invite-code',
+    authenticateToken,
+    requireRole(['admin', 'content_creator']),
+    validate({ params: IdParamSchema }),
+    requireCourseRole('owner'),
+    audit('rotate_invite_code', 'course'),
+    enrollmentController.rotateInviteCode
+  );
+
+  router.delete('/courses/:id/invite-code',
+    authenticateToken,
+    requireRole(['admin', 'content_creator']),
+    validate({ params: IdParamSchema }),
+    requireCourseRole('owner'),
+    audit('disable_invite_code', 'course'),
+    enrollmentController.disableInviteCode
+  );
+
+  /**
+   * Unlock rule routes (nested under courses)
+   *
+   * Unlock rules gate levels, sections, modules and lessons behind learner progress.
+   * Rules are managed by content creators and evaluated per learner.
+   */
+
+  /**
+   * @swagger
+   * /api/v1/courses/{courseId}/unlock-rules:
+   *   get:
+   *     tags:
+   *       - Courses
+   *     summary: List unlock rules of a course
+   *     description: Retrieve every unlock rule attached to the levels, sections, modules and lessons of a course. Public access - no authentication required.
+   *     parameters:
+   *       - in: path
+   *         name: courseId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 20
+   *         description: Course ID
+   *         example: "qu-es-beginner"
+   *     responses:
+   *       200:
+   *         description: Unlock rules retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/UnlockRule'
+   *       404:
+   *         description: Course not found
+   *   post:
+   *     tags:
+   *       - Courses
+   *     summary: Create an unlock rule
+   *     description: |
+   *       Attach an unlock rule to a level, section, module or lesson of the course. Content is unlocked when all its rules are met and its parent content is unlocked.
+   *       - `previous_lesson_completed`: `reference_id` lesson completed (defaults to the lesson right before the target)
+   *       - `minimum_score`: `reference_id` lesson (same default) completed with at least `min_score`
+   *       - `level_exam_passed`: exam lessons of the `reference_id` level (defaults to the previous level) completed with at least `min_score` (defaults to 70)
+   *       - `xp_threshold`: at least `min_experience` experience points
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: courseId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 20
+   *         description: Course ID
+   *         example: "qu-es-beginner"
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - target_type
+   *               - target_id
+   *               - rule_type
+   *             properties:
+   *               target_type:
+   *                 type: string
+   *                 enum: [level, section, module, lesson]
+   *                 example: "module"
+   *               target_id:
+   *                 type: string
+   *                 maxLength: 60
+   *                 example: "module-002"
+   *               rule_type:
+   *                 type: string
+   *                 enum: [previous_lesson_completed, minimum_score, level_exam_passed, xp_threshold]
+   *                 example: "minimum_score"
+   *               reference_id:
+   *                 type: string
+   *                 maxLength: 60
+   *                 description: Lesson (or level for level_exam_passed) the rule refers to
+   *                 example: "lesson-010"
+   *               min_score:
+   *                 type: integer
+   *                 minimum: 0
+   *                 maximum: 100
+   *                 example: 80
+   *               min_experience:
+   *                 type: integer
+   *                 minimum: 1
+   *                 example: 500
+   *     responses:
+   *       201:
+   *         description: Unlock rule created successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   $ref: '#/components/schemas/UnlockRule'
+   *       400:
+   *         description: Invalid rule definition or reference outside the course
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       403:
+   *         description: Insufficient permissions (content_creator or admin required)
+   *       404:
+   *         description: Target content not found in the course
+   */
+  router.get('/courses/:courseId/unlock-rules',
+    optionalAuth,
+    validate({ params: CourseParamSchema }),
+    requireCourseReader,
+    unlockRuleController.getRules
+  );
+
+  router.post('/courses/:courseId/unlock-rules',
+    authenticateToken,
+    requireRole(['admin', 'content_creator']),
+    validate({
+      params: CourseParamSchema,
+      body: CreateUnlockRuleSchema
+    }),
+    requireCourseRole('editor'),
+    audit('create', 'unlock_rule'),
+    unlockRuleController.createRule
+  );
+
+  /**
+   * @swagger
+   * /api/v1/courses/{courseId}/unlock-rules/{id}:
+   *   delete:
+   *     tags:
+   *       - Courses
+   *     summary: Delete an unlock rule
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: courseId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 20
+   *         description: Course ID
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: Unlock rule ID
+   *     responses:
+   *       200:
+   *         description: Unlock rule deleted successfully
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       403:
+   *         description: Insufficient permissions (content_creator or admin required)
+   *       404:
+   *         description: Unlock rule not found in the course
+   */
+  router.delete('/courses/:courseId/unlock-rules/:id',
+    authenticateToken,
+    requireRole(['admin', 'content_creator']),
+    validate({
+      params: CourseParamSchema.extend({ id: UnlockRuleParamSchema.shape.id })
+    }),
+    requireCourseRole('editor'),
+    audit('delete', 'unlock_rule'),
+    unlockRuleController.deleteRule
+  );
+
+  /**
+   * @swagger
+   * /api/v1/courses/{courseId}/unlock-status:
+   *   get:
+   *     tags:
+   *       - Courses
+   *     summary: Get the learner's lock state for a course
+   *     description: Evaluate the unlock rules of the course for the authenticated learner. Items are returned in course order and the unmet rules of an item include those of its parents.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: courseId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 20
+   *         description: Course ID
+   *     responses:
+   *       200:
+   *         description: Lock state evaluated successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     course_id:
+   *                       type: string
+   *                       example: "qu-es-beginner"
+   *                     items:
+   *                       type: array
+   *                       items:
+   *                         type: object
+   *                         properties:
+   *                           target_type:
+   *                             type: string
+   *                             enum: [level, section, module, lesson]
+   *                           target_id:
+   *                             type: string
+   *                           locked:
+   *                             type: boolean
+   *                           unmet_rules:
+   *                             type: array
+   *                             items:
+   *                               $ref: '#/components/schemas/UnlockRule'
+   *       401:
+   *         description: Invalid or missing authentication token
    *       404:
-   *         description: Course not found or not available for packaging
-   *         content:
-   *           application/json:
-   *             schema:
-   *               $ref: '#/components/schemas/Error'
+   *         description: Course not found
    */
-  router.get('/courses/:id/package',
-    validate({ params: IdParamSchema }),
-    contentController.getPackagedCourse
+  router.get('/courses/:courseId/unlock-status',
+    authenticateToken,
+    validate({ params: CourseParamSchema }),
+    unlockRuleController.getUnlockStatus
   );
 
   /**
@@ -787,6 +2432,7 @@ export function createContentRoutes(prisma: PrismaClient): Router {
    *         description: Course not found
    */
   router.get('/courses/:courseId/levels',
+    optionalAuth,
     validate({
       params: CourseParamSchema,
       query: LevelQuerySchema
@@ -797,6 +2443,7 @@ export function createContentRoutes(prisma: PrismaClient): Router {
       allowedFilters: ['code'],
       searchFields: ['name']
     }),
+    requireCourseReader,
     contentController.getLevelsByCourse
   );
 
@@ -885,6 +2532,8 @@ export function createContentRoutes(prisma: PrismaClient): Router {
       params: CourseParamSchema,
       body: CreateLevelSchema.omit({ course_id: true })
     }),
+    requireCourseRole('editor'),
+    audit('create', 'level'),
     contentController.createLevel
   );
 
@@ -932,9 +2581,11 @@ export function createContentRoutes(prisma: PrismaClient): Router {
    *         description: Course or level not found
    */
   router.get('/courses/:courseId/levels/:id',
+    optionalAuth,
     validate({
       params: CourseParamSchema.extend({ id: IdParamSchema.shape.id })
     }),
+    requireCourseReader,
     contentController.getLevel
   );
 
@@ -1014,7 +2665,7 @@ export function createContentRoutes(prisma: PrismaClient): Router {
    *       403:
    *         description: Insufficient permissions (content_creator or admin required)
    *       404:
-   *         description: Course or level not found
+   *         description: Course not found, or level not found in the course
    *       409:
    *         description: Level with this code already exists in the course
    */
@@ -1090,6 +2741,8 @@ export function createContentRoutes(prisma: PrismaClient): Router {
       params: CourseParamSchema,
       body: ReorderLevelsSchema
     }),
+    requireCourseRole('editor'),
+    audit('reorder', 'course', { entityId: (req) => req.params['courseId'] }),
     contentController.reorderCourseLevels
   );
 
@@ -1100,6 +2753,8 @@ export function createContentRoutes(prisma: PrismaClient): Router {
       params: CourseParamSchema.extend({ id: IdParamSchema.shape.id }),
       body: UpdateLevelSchema
     }),
+    requireCourseRole('editor'),
+    audit('update', 'level'),
     contentController.updateLevel
   );
 
@@ -1111,7 +2766,7 @@ export function createContentRoutes(prisma: PrismaClient): Router {
    *       - Content
    *       - Levels
    *     summary: Delete level
-   *     description: Delete a level from a course (requires admin role)
+   *     description: Move a level and its content to the trash, from where it can be restored until it is purged (requires admin role)
    *     security:
    *       - bearerAuth: []
    *     parameters:
@@ -1161,9 +2816,73 @@ export function createContentRoutes(prisma: PrismaClient): Router {
     validate({
       params: CourseParamSchema.extend({ id: IdParamSchema.shape.id })
     }),
+    audit('delete', 'level'),
     contentController.deleteLevel
   );
 
+  /**
+   * @swagger
+   * /api/v1/courses/{courseId}/levels/{id}/restore:
+   *   post:
+   *     tags:
+   *       - Content
+   *       - Levels
+   *     summary: Restore level
+   *     description: Restore a level of the course from the trash together with the content deleted with it (requires admin role)
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: courseId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 20
+   *         description: Course ID
+   *         example: "qu-es-beginner"
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Level ID
+   *         example: "level-001"
+   *     responses:
+   *       200:
+   *         description: Level restored successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   description: The restored level
+   *                 message:
+   *                   type: string
+   *                   example: Level restored successfully
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       403:
+   *         description: Insufficient permissions (admin required)
+   *       404:
+   *         description: Level not found in the trash of the course
+   *       409:
+   *         description: The course is in the trash and must be restored first
+   */
+  router.post('/courses/:courseId/levels/:id/restore',
+    authenticateToken,
+    requireRole(['admin']),
+    validate({
+      params: CourseParamSchema.extend({ id: IdParamSchema.shape.id })
+    }),
+    audit('restore', 'level'),
+    trashController.restoreLevel
+  );
+
   /**
    * Section management routes (nested under levels)
    * 
@@ -1250,6 +2969,7 @@ export function createContentRoutes(prisma: PrismaClient): Router {
    *         description: Level not found
    */
   router.get('/levels/:levelId/sections',
+    optionalAuth,
     validate({
       params: LevelParamSchema,
       query: SectionQuerySchema
@@ -1260,6 +2980,7 @@ export function createContentRoutes(prisma: PrismaClient): Router {
       allowedFilters: [],
       searchFields: ['name']
     }),
+    requireCourseReader,
     contentController.getSectionsByLevel
   );
 
@@ -1340,6 +3061,8 @@ export function createContentRoutes(prisma: PrismaClient): Router {
       params: LevelParamSchema,
       body: CreateSectionSchema.omit({ level_id: true })
     }),
+    requireCourseRole('editor'),
+    audit('create', 'section'),
     contentController.createSection
   );
 
@@ -1386,9 +3109,11 @@ export function createContentRoutes(prisma: PrismaClient): Router {
    *         description: Level or section not found
    */
   router.get('/levels/:levelId/sections/:id',
+    optionalAuth,
     validate({
       params: LevelParamSchema.extend({ id: IdParamSchema.shape.id })
     }),
+    requireCourseReader,
     contentController.getSection
   );
 
@@ -1463,7 +3188,7 @@ export function createContentRoutes(prisma: PrismaClient): Router {
    *       403:
    *         description: Insufficient permissions (content_creator or admin required)
    *       404:
-   *         description: Level or section not found
+   *         description: Level not found, or section not found in the level
    */
 
   /**
@@ -1537,6 +3262,8 @@ export function createContentRoutes(prisma: PrismaClient): Router {
       params: LevelParamSchema,
       body: ReorderSectionsSchema
     }),
+    requireCourseRole('editor'),
+    audit('reorder', 'level', { entityId: (req) => req.params['levelId'] }),
     contentController.reorderLevelSections
   );
 
@@ -1547,6 +3274,8 @@ export function createContentRoutes(prisma: PrismaClient): Router {
       params: LevelParamSchema.extend({ id: IdParamSchema.shape.id }),
       body: UpdateSectionSchema
     }),
+    requireCourseRole('editor'),
+    audit('update', 'section'),
     contentController.updateSection
   );
 
@@ -1558,7 +3287,7 @@ export function createContentRoutes(prisma: PrismaClient): Router {
    *       - Content
    *       - Sections
    *     summary: Delete section
-   *     description: Delete a section from a level (requires admin role)
+   *     description: Move a section and its content to the trash, from where it can be restored until it is purged (requires admin role)
    *     security:
    *       - bearerAuth: []
    *     parameters:
@@ -1607,9 +3336,72 @@ export function createContentRoutes(prisma: PrismaClient): Router {
     validate({
       params: LevelParamSchema.extend({ id: IdParamSchema.shape.id })
     }),
+    audit('delete', 'section'),
     contentController.deleteSection
   );
 
+  /**
+   * @swagger
+   * /api/v1/levels/{levelId}/sections/{id}/restore:
+   *   post:
+   *     tags:
+   *       - Content
+   *       - Sections
+   *     summary: Restore section
+   *     description: Restore a section of the level from the trash together with the content deleted with it (requires admin role)
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: levelId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Level ID
+   *         example: "level-001"
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Section ID
+   *         example: "section-001"
+   *     responses:
+   *       200:
+   *         description: Section restored successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   description: The restored section
+   *                 message:
+   *                   type: string
+   *                   example: Section restored successfully
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       403:
+   *         description: Insufficient permissions (admin required)
+   *       404:
+   *         description: Section not found in the trash of the level
+   *       409:
+   *         description: The level is in the trash and must be restored first
+   */
+  router.post('/levels/:levelId/sections/:id/restore',
+    authenticateToken,
+    requireRole(['admin']),
+    validate({
+      params: LevelParamSchema.extend({ id: IdParamSchema.shape.id })
+    }),
+    audit('restore', 'section'),
+    trashController.restoreSection
+  );
+
   /**
    * Module management routes (nested under sections)
    * 
@@ -1703,6 +3495,7 @@ export function createContentRoutes(prisma: PrismaClient): Router {
    *         description: Section not found
    */
   router.get('/sections/:sectionId/modules',
+    optionalAuth,
     validate({
       params: SectionParamSchema,
       query: ModuleQuerySchema
@@ -1713,6 +3506,7 @@ export function createContentRoutes(prisma: PrismaClient): Router {
       allowedFilters: ['module_type'],
       searchFields: ['name']
     }),
+    requireCourseReader,
     contentController.getModulesBySection
   );
 
@@ -1803,6 +3597,8 @@ export function createContentRoutes(prisma: PrismaClient): Router {
       params: SectionParamSchema,
       body: CreateModuleSchema.omit({ section_id: true })
     }),
+    requireCourseRole('editor'),
+    audit('create', 'module'),
     contentController.createModule
   );
 
@@ -1849,9 +3645,11 @@ export function createContentRoutes(prisma: PrismaClient): Router {
    *         description: Section or module not found
    */
   router.get('/sections/:sectionId/modules/:id',
+    optionalAuth,
     validate({
       params: SectionParamSchema.extend({ id: IdParamSchema.shape.id })
     }),
+    requireCourseReader,
     contentController.getModule
   );
 
@@ -1935,7 +3733,7 @@ export function createContentRoutes(prisma: PrismaClient): Router {
    *       403:
    *         description: Insufficient permissions (content_creator or admin required)
    *       404:
-   *         description: Section or module not found
+   *         description: Section not found, or module not found in the section
    */
 
   /**
@@ -2009,6 +3807,8 @@ export function createContentRoutes(prisma: PrismaClient): Router {
       params: SectionParamSchema,
       body: ReorderModulesSchema
     }),
+    requireCourseRole('editor'),
+    audit('reorder', 'section', { entityId: (req) => req.params['sectionId'] }),
     contentController.reorderSectionModules
   );
 
@@ -2019,6 +3819,8 @@ export function createContentRoutes(prisma: PrismaClient): Router {
       params: SectionParamSchema.extend({ id: IdParamSchema.shape.id }),
       body: UpdateModuleSchema
     }),
+    requireCourseRole('editor'),
+    audit('update', 'module'),
     contentController.updateModule
   );
 
@@ -2030,7 +3832,7 @@ export function createContentRoutes(prisma: PrismaClient): Router {
    *       - Content
    *       - Modules
    *     summary: Delete module
-   *     description: Delete a module from a section (requires admin role)
+   *     description: Move a module and its lessons to the trash, from where it can be restored until it is purged (requires admin role)
    *     security:
    *       - bearerAuth: []
    *     parameters:
@@ -2079,8 +3881,148 @@ export function createContentRoutes(prisma: PrismaClient): Router {
     validate({
       params: SectionParamSchema.extend({ id: IdParamSchema.shape.id })
     }),
+    audit('delete', 'module'),
     contentController.deleteModule
   );
 
+  /**
+   * @swagger
+   * /api/v1/sections/{sectionId}/modules/{id}/restore:
+   *   post:
+   *     tags:
+   *       - Content
+   *       - Modules
+   *     summary: Restore module
+   *     description: Restore a module of the section from the trash together with the lessons deleted with it (requires admin role)
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: sectionId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Section ID
+   *         example: "section-001"
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Module ID
+   *         example: "module-001"
+   *     responses:
+   *       200:
+   *         description: Module restored successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   description: The restored module
+   *                 message:
+   *                   type: string
+   *                   example: Module restored successfully
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       403:
+   *         description: Insufficient permissions (admin required)
+   *       404:
+   *         description: Module not found in the trash of the section
+   *       409:
+   *         description: The section is in the trash and must be restored first
+   */
+  router.post('/sections/:sectionId/modules/:id/restore',
+    authenticateToken,
+    requireRole(['admin']),
+    validate({
+      params: SectionParamSchema.extend({ id: IdParamSchema.shape.id })
+    }),
+    audit('restore', 'module'),
+    trashController.restoreModule
+  );
+
+  /**
+   * Trash routes
+   *
+   * Deleted content is kept in the trash until the retention window passes. Admins list the
+   * trash here and restore content through the restore route of each content type.
+   */
+
+  /**
+   * @swagger
+   * /api/v1/trash:
+   *   get:
+   *     tags:
+   *       - Content
+   *     summary: List trashed content
+   *     description: List deleted content that can be restored, most recently deleted first, with the date it will be purged. Content deleted together with its parent is restored with the parent and is not listed (requires admin role)
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: page
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           default: 1
+   *         description: Page number
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *           default: 20
+   *         description: Number of items per page
+   *       - in: query
+   *         name: type
+   *         schema:
+   *           type: string
+   *           enum: [course, level, section, module, lesson, exercise]
+   *         description: Only list content of this type
+   *       - in: query
+   *         name: course_id
+   *         schema:
+   *           type: string
+   *           maxLength: 20
+   *         description: Only list content of this course (exercises are not listed)
+   *         example: "qu-es-beginner"
+   *     responses:
+   *       200:
+   *         description: Trash retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/TrashItem'
+   *                 meta:
+   *                   $ref: '#/components/schemas/PaginationInfo'
+   *       400:
+   *         description: Invalid query parameters
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       403:
+   *         description: Insufficient permissions (admin required)
+   */
+  router.get('/trash',
+    authenticateToken,
+    requireRole(['admin']),
+    validate({ query: TrashQuerySchema }),
+    trashController.getTrash
+  );
+
   return router;
 }
\ No newline at end of file
@@ -45,10 +45,12 @@
  * // Available exercise management endpoints:
  * // GET /api/v1/exercises - List all exercises with filtering
  * // POST /api/v1/exercises - Create exercise (content_creator/admin)
+ * // POST /api/v1/exercises/import - Import exercises from a CSV/TSV file (content_creator/admin)
  * // GET /api/v1/exercises/:id - Get exercise by ID
  * // PUT /api/v1/exercises/:id - Update exercise (content_creator/admin)
  * // DELETE /api/v1/exercises/:id - Delete exercise (admin only)
  * // GET /api/v1/exercises/type/:type - Get exercises by type
+ * // POST /api/v1/exercises/:id/submit - Grade a learner answer server-side
  * 
  * @example
  * // Supported exercise types:
@@ -58,21 +60,30 @@
  * // - pairs: Match related items or concepts
  * // - informative: Educational content presentation
  * // - ordering: Arrange items in correct sequence
+ * // - listening: Type or choose what an audio clip says
+ * // - speaking: Record an answer to a prompt, graded by its transcript
  */
 
 import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
-import { ExerciseController } from '../controllers';
+import { ExerciseController, TrashController } from '../controllers';
 import { validate } from '../../../shared/middleware/validation';
 import { authenticateToken, requireRole } from '../../../shared/middleware/auth';
 import {
   CreateExerciseSchema,
   UpdateExerciseSchema,
   ExerciseQuerySchema,
+  SubmitExerciseAnswerSchema,
+  ImportExercisesSchema,
+  ImportExercisesQuerySchema,
 } from '../schemas';
+import { ImportExercisesQuery } from '../types';
 import { IdParamSchema } from '../../../shared/schemas/common';
 import { z } from 'zod';
 import { ExerciseUsageService } from '../services/ExerciseUsageService';
+import { ExerciseGradingService } from '../services/ExerciseGradingService';
+import { createAuditMiddleware } from '../../audit/middleware';
+import { createExerciseCourseRoleMiddleware } from '../middleware';
 
 /**
  * Creates and configures an Express router with exercise management routes.
@@ -113,7 +124,11 @@ import { ExerciseUsageService } from '../services/ExerciseUsageService';
 export function createExerciseRoutes(prisma: PrismaClient): Router {
   const router = Router();
   const exerciseController = new ExerciseController(prisma);
+  const trashController = new TrashController(prisma);
   const exerciseUsageService = new ExerciseUsageService(prisma);
+  const exerciseGradingService = new ExerciseGradingService(prisma);
+  const audit = createAuditMiddleware(prisma);
+  const requireExerciseCourseRole = createExerciseCourseRoleMiddleware(prisma);
 
   // Exercise routes
 
@@ -159,7 +174,7 @@ export function createExerciseRoutes(prisma: PrismaClient): Router {
    *         name: exercise_type
    *         schema:
    *           type: string
-   *           enum: [translation, fill-in-the-blank, vof, pairs, informative, ordering]
+   *           enum: [translation, fill-in-the-blank, vof, pairs, informative, ordering, listening, speaking]
    *         description: Filter by exercise type
    *         example: "translation"
    *       - in: query
@@ -221,7 +236,7 @@ export function createExerciseRoutes(prisma: PrismaClient): Router {
    *                 example: "exercise-001"
    *               exercise_type:
    *                 type: string
-   *                 enum: [translation, fill-in-the-blank, vof, pairs, informative, ordering]
+   *                 enum: [translation, fill-in-the-blank, vof, pairs, informative, ordering, listening, speaking]
    *                 example: "translation"
    *               data:
    *                 type: object
@@ -259,9 +274,145 @@ export function createExerciseRoutes(prisma: PrismaClient): Router {
     authenticateToken,
     requireRole(['admin', 'content_creator']),
     validate({ body: CreateExerciseSchema }),
+    audit('create', 'exercise'),
     exerciseController.createExercise
   );
 
+  /**
+   * @swagger
+   * /api/v1/exercises/import:
+   *   post:
+   *     tags:
+   *       - Content
+   *       - Exercises
+   *     summary: Import exercises from a CSV or TSV file
+   *     description: |
+   *       Create exercises of one type from the rows of a spreadsheet saved as CSV or TSV (requires content_creator or admin role).
+   *       The mapping assigns file columns, by header name or by position starting at 1, to the fields of the exercise type:
+   *       - translation: source_text*, target_text*, hints
+   *       - translation-word-bank: source_text*, target_text*, correct_words*, word_bank*
+   *       - fill-in-the-blank: text*, answers* (one column per blank)
+   *       - vof: statement*, is_true* (true/false, yes/no, 1/0), explanation
+   *       - pairs: left*, right* (items matched by position)
+   *       - informative: title, content*, media_type, media_url, media_alt
+   *       - ordering: items* (in their correct order)
+   *       - listening: audio_url*, answer_mode (type or choose, default type), correct_answers*, options, transcript
+   *       - speaking: prompt*, expected_transcripts*, reference_audio_url
+   *
+   *       Every type also accepts an id column; rows without one get an ID generated from their text.
+   *       List fields can be mapped to several columns, and their cells can hold several values separated by "|".
+   *       With dry_run=true the exercises and row errors are returned without creating anything. Otherwise
+   *       the import fails with one validation error per invalid row and field, or creates every exercise in
+   *       one transaction. With lesson_id the exercises are appended to the lesson in row order, which requires
+   *       the editor role in the course of the lesson.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: dry_run
+   *         schema:
+   *           type: boolean
+   *           default: false
+   *         description: Validate the file and preview the exercises without creating them
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - content
+   *               - exercise_type
+   *               - mapping
+   *             properties:
+   *               format:
+   *                 type: string
+   *                 enum: [csv, tsv]
+   *                 default: csv
+   *               content:
+   *                 type: string
+   *                 description: File content
+   *                 example: "english,spanish,hints\nHello,Hola,greeting\nThank you,Gracias,polite|common"
+   *               has_header:
+   *                 type: boolean
+   *                 default: true
+   *                 description: Whether the first row holds the column names
+   *               exercise_type:
+   *                 type: string
+   *                 enum: [translation, translation-word-bank, fill-in-the-blank, vof, pairs, informative, ordering, listening, speaking]
+   *                 example: "translation"
+   *               mapping:
+   *                 type: object
+   *                 description: Column, or list of columns, of each exercise field
+   *                 additionalProperties:
+   *                   oneOf:
+   *                     - type: string
+   *                     - type: integer
+   *                     - type: array
+   *                       items:
+   *                         oneOf:
+   *                           - type: string
+   *                           - type: integer
+   *                 example:
+   *                   source_text: "english"
+   *                   target_text: "spanish"
+   *                   hints: "hints"
+   *               lesson_id:
+   *                 type: string
+   *                 maxLength: 60
+   *                 description: Lesson to append the imported exercises to
+   *                 example: "lesson-greetings"
+   *     responses:
+   *       200:
+   *         description: File checked (dry run)
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Exercise import checked successfully
+   *                 data:
+   *                   $ref: '#/components/schemas/ExerciseImportResult'
+   *       201:
+   *         description: Exercises imported successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Exercises imported successfully
+   *                 data:
+   *                   $ref: '#/components/schemas/ExerciseImportResult'
+   *       400:
+   *         description: Invalid mapping, unreadable file, missing columns or lesson, or invalid rows (details list each row and field, e.g. rows.3.data.target_text)
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       403:
+   *         description: Insufficient permissions (content_creator or admin required, and editor role in the lesson course)
+   *       409:
+   *         description: An exercise ID was taken while importing
+   */
+  router.post('/exercises/import',
+    authenticateToken,
+    requireRole(['admin', 'content_creator']),
+    validate({ query: ImportExercisesQuerySchema, body: ImportExercisesSchema }),
+    audit('import', 'exercise', {
+      snapshot: false,
+      skip: (req) => (req.query as unknown as ImportExercisesQuery).dry_run,
+    }),
+    exerciseController.importExercises
+  );
+
   /**
    * @swagger
    * /api/v1/exercises/{id}:
@@ -311,7 +462,7 @@ export function createExerciseRoutes(prisma: PrismaClient): Router {
    *       - Content
    *       - Exercises
    *     summary: Update exercise
-   *     description: Update an existing exercise with partial data (requires content_creator or admin role)
+   *     description: Update an existing exercise with partial data (requires content_creator or admin role). Exercises are shared between courses, so content creators also need the editor role in every course with a lesson using the exercise
    *     security:
    *       - bearerAuth: []
    *     parameters:
@@ -332,7 +483,7 @@ export function createExerciseRoutes(prisma: PrismaClient): Router {
    *             properties:
    *               exercise_type:
    *                 type: string
-   *                 enum: [translation, fill-in-the-blank, vof, pairs, informative, ordering]
+   *                 enum: [translation, fill-in-the-blank, vof, pairs, informative, ordering, listening, speaking]
    *                 example: "translation"
    *               data:
    *                 type: object
@@ -362,7 +513,7 @@ export function createExerciseRoutes(prisma: PrismaClient): Router {
    *       401:
    *         description: Invalid or missing authentication token
    *       403:
-   *         description: Insufficient permissions (content_creator or admin required)
+   *         description: Insufficient permissions (content_creator or admin required, and the editor role in every course using the exercise)
    *       404:
    *         description: Exercise not found
    */
@@ -373,6 +524,8 @@ export function createExerciseRoutes(prisma: PrismaClient): Router {
       params: IdParamSchema,
       body: UpdateExerciseSchema
     }),
+    requireExerciseCourseRole('editor'),
+    audit('update', 'exercise'),
     exerciseController.updateExercise
   );
 
@@ -384,7 +537,7 @@ export function createExerciseRoutes(prisma: PrismaClient): Router {
    *       - Content
    *       - Exercises
    *     summary: Delete exercise
-   *     description: Delete an exercise from the system (requires admin role)
+   *     description: Move an exercise to the trash, which removes it from the lessons using it until it is restored or purged (requires admin role)
    *     security:
    *       - bearerAuth: []
    *     parameters:
@@ -425,9 +578,61 @@ export function createExerciseRoutes(prisma: PrismaClient): Router {
     authenticateToken,
     requireRole(['admin']),
     validate({ params: IdParamSchema }),
+    audit('delete', 'exercise'),
     exerciseController.deleteExercise
   );
 
+  /**
+   * @swagger
+   * /api/v1/exercises/{id}/restore:
+   *   post:
+   *     tags:
+   *       - Content
+   *       - Exercises
+   *     summary: Restore exercise
+   *     description: Restore an exercise from the trash, which puts it back in the lessons using it (requires admin role)
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 15
+   *         description: Exercise ID
+   *         example: "exercise-001"
+   *     responses:
+   *       200:
+   *         description: Exercise restored successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   $ref: '#/components/schemas/Exercise'
+   *                 message:
+   *                   type: string
+   *                   example: Exercise restored successfully
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       403:
+   *         description: Insufficient permissions (admin required)
+   *       404:
+   *         description: Exercise not found in the trash
+   */
+  router.post('/exercises/:id/restore',
+    authenticateToken,
+    requireRole(['admin']),
+    validate({ params: IdParamSchema }),
+    audit('restore', 'exercise'),
+    trashController.restoreExercise
+  );
+
   // Exercise by type routes
 
   /**
@@ -445,7 +650,7 @@ export function createExerciseRoutes(prisma: PrismaClient): Router {
    *         required: true
    *         schema:
    *           type: string
-   *           enum: [translation, fill-in-the-blank, vof, pairs, informative, ordering]
+   *           enum: [translation, fill-in-the-blank, vof, pairs, informative, ordering, listening, speaking]
    *         description: Exercise type to filter by
    *         example: "translation"
    *       - in: query
@@ -507,7 +712,7 @@ export function createExerciseRoutes(prisma: PrismaClient): Router {
   router.get('/exercises/type/:type',
     validate({
       params: z.object({
-        type: z.enum(['translation', 'translation-word-bank', 'fill-in-the-blank', 'vof', 'pairs', 'informative', 'ordering'])
+        type: z.enum(['translation', 'translation-word-bank', 'fill-in-the-blank', 'vof', 'pairs', 'informative', 'ordering', 'listening', 'speaking'])
       }),
       query: ExerciseQuerySchema
     }),
@@ -755,6 +960,7 @@ export function createExerciseRoutes(prisma: PrismaClient): Router {
         preserveUsage: z.boolean().optional().default(false)
       })
     }),
+    audit('duplicate', 'exercise', { entityId: (_req, data) => data?.id }),
     async (req, res, next) => {
       try {
         const exerciseId = req.params['id'];
@@ -783,7 +989,11 @@ export function createExerciseRoutes(prisma: PrismaClient): Router {
    *       - Exercises
    *       - Analytics
    *     summary: Get exercise analytics
-   *     description: Retrieve comprehensive analytics for a specific exercise including usage trends and performance metrics
+   *     description: |
+   *       Retrieve comprehensive analytics for a specific exercise including usage trends and performance metrics.
+   *       Performance metrics and trends are computed from the attempts recorded while learners play lessons.
+   *       The discrimination index compares the first-attempt accuracy of the top and bottom 27% of learners, ranked by
+   *       their score on the rest of the lesson; it is null until enough learners have played the lessons.
    *     security:
    *       - bearerAuth: []
    *     parameters:
@@ -824,10 +1034,60 @@ export function createExerciseRoutes(prisma: PrismaClient): Router {
    *                     performanceMetrics:
    *                       type: object
    *                       properties:
+   *                         totalAttempts:
+   *                           type: integer
+   *                           example: 120
+   *                         uniqueLearners:
+   *                           type: integer
+   *                           example: 80
    *                         completionRate:
-   *                           type: number
+   *                           type: integer
+   *                           description: Percentage of learners who answered correctly at least once
+   *                           example: 90
+   *                         accuracy:
+   *                           type: integer
+   *                           description: Percentage of attempts answered correctly
+   *                           example: 70
+   *                         firstAttemptAccuracy:
+   *                           type: integer
+   *                           description: Percentage of learners who answered correctly at their first attempt
+   *                           example: 65
    *                         averageScore:
+   *                           type: integer
+   *                           description: Average partial-credit score of the attempts, as a percentage
+   *                           example: 78
+   *                         averageTimeSpent:
+   *                           type: integer
+   *                           nullable: true
+   *                           description: Average seconds spent per attempt
+   *                           example: 14
+   *                         discriminationIndex:
    *                           type: number
+   *                           nullable: true
+   *                           minimum: -1
+   *                           maximum: 1
+   *                           example: 0.42
+   *                         commonWrongAnswers:
+   *                           type: array
+   *                           items:
+   *                             type: object
+   *                             properties:
+   *                               answer:
+   *                                 type: object
+   *                                 example:
+   *                                   text: "Hola mundos"
+   *                               count:
+   *                                 type: integer
+   *                                 example: 12
+   *                               percentage:
+   *                                 type: integer
+   *                                 description: Share of the wrong attempts
+   *                                 example: 33
+   *                         flags:
+   *                           type: array
+   *                           items:
+   *                             type: string
+   *                             enum: [too_easy, too_hard, low_discrimination, negative_discrimination]
    *                     trends:
    *                       type: object
    *                       properties:
@@ -926,5 +1186,118 @@ export function createExerciseRoutes(prisma: PrismaClient): Router {
     }
   );
 
+  /**
+   * @swagger
+   * /api/v1/exercises/{id}/submit:
+   *   post:
+   *     tags:
+   *       - Content
+   *       - Exercises
+   *     summary: Submit an answer for grading
+   *     description: |
+   *       Grade a learner answer against the stored exercise data. The answer payload depends on the exercise type:
+   *       translation `{ text }`, translation-word-bank `{ words: [] }`, fill-in-the-blank `{ blanks: [] }` (in blank position order),
+   *       vof `{ value: boolean }`, pairs `{ pairs: [{ left, right }] }`, ordering `{ order: [] }` (indexes into the exercise items),
+   *       listening `{ text }` (the typed or chosen answer), speaking `{ transcript }` (transcribed by the client from the learner recording).
+   *       Speaking transcripts are compared word by word and pass when they reach the min_accuracy of the exercise (0.8 by default).
+   *       Informative exercises are not gradable and always report a score of 1.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 15
+   *         description: Exercise ID
+   *         example: "exercise-001"
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - answer
+   *             properties:
+   *               answer:
+   *                 type: object
+   *                 description: Type-specific answer payload
+   *                 example:
+   *                   text: "Hola mundo"
+   *     responses:
+   *       200:
+   *         description: Answer graded successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     exercise_id:
+   *                       type: string
+   *                       example: "exercise-001"
+   *                     exercise_type:
+   *                       type: string
+   *                       example: "translation"
+   *                     gradable:
+   *                       type: boolean
+   *                       example: true
+   *                     correct:
+   *                       type: boolean
+   *                       example: true
+   *                     score:
+   *                       type: number
+   *                       minimum: 0
+   *                       maximum: 1
+   *                       example: 1
+   *                     items:
+   *                       type: array
+   *                       items:
+   *                         type: object
+   *                         properties:
+   *                           index:
+   *                             type: integer
+   *                           correct:
+   *                             type: boolean
+   *                           expected: {}
+   *                           given: {}
+   *       400:
+   *         description: Invalid answer payload
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       404:
+   *         description: Exercise not found
+   */
+  router.post('/exercises/:id/submit',
+    authenticateToken,
+    validate({
+      params: IdParamSchema,
+      body: SubmitExerciseAnswerSchema
+    }),
+    async (req, res, next) => {
+      try {
+        const exerciseId = req.params['id'];
+        if (!exerciseId) {
+          res.status(400).json({ success: false, message: 'Exercise ID is required' });
+          return;
+        }
+        const result = await exerciseGradingService.gradeExercise(exerciseId, req.body.answer);
+        res.json({
+          success: true,
+          data: result
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
   return router;
 }
\ No newline at end of file
@@ -55,13 +55,16 @@
  * // POST /api/v1/lessons/:lessonId/exercises - Assign exercise to lesson
  * // DELETE /api/v1/lessons/:lessonId/exercises/:exerciseId - Unassign exercise
  * // PUT /api/v1/lessons/:lessonId/exercises/reorder - Reorder exercises
+ * // POST /api/v1/lessons/:lessonId/attempts - Grade answers for every lesson exercise
  */
 
 import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
-import { LessonController } from '../controllers';
+import { LessonController, TrashController } from '../controllers';
 import { validate } from '../../../shared/middleware/validation';
-import { authenticateToken, requireRole } from '../../../shared/middleware/auth';
+import { authenticateToken, optionalAuth, requireRole } from '../../../shared/middleware/auth';
+import { createCourseReaderMiddleware, createCourseRoleMiddleware } from '../middleware';
+import { createAuditMiddleware } from '../../audit/middleware';
 import {
   CreateLessonSchema,
   UpdateLessonSchema,
@@ -72,6 +75,7 @@ import {
   ModuleParamSchema,
   LessonParamSchema,
   ExerciseParamSchema,
+  LessonAttemptSchema,
 } from '../schemas';
 import { IdParamSchema } from '../../../shared/schemas/common';
 
@@ -115,6 +119,10 @@ import { IdParamSchema } from '../../../shared/schemas/common';
 export function createLessonRoutes(prisma: PrismaClient): Router {
   const router = Router();
   const lessonController = new LessonController(prisma);
+  const trashController = new TrashController(prisma);
+  const requireCourseRole = createCourseRoleMiddleware(prisma);
+  const requireCourseReader = createCourseReaderMiddleware(prisma);
+  const audit = createAuditMiddleware(prisma);
 
   // Lesson routes (nested under modules)
 
@@ -192,10 +200,12 @@ export function createLessonRoutes(prisma: PrismaClient): Router {
    *         description: Module not found
    */
   router.get('/modules/:moduleId/lessons',
+    optionalAuth,
     validate({
       params: ModuleParamSchema,
       query: LessonQuerySchema
     }),
+    requireCourseReader,
     lessonController.getLessonsByModule
   );
 
@@ -282,6 +292,8 @@ export function createLessonRoutes(prisma: PrismaClient): Router {
       params: ModuleParamSchema,
       body: CreateLessonSchema.omit({ module_id: true })
     }),
+    requireCourseRole('editor'),
+    audit('create', 'lesson'),
     lessonController.createLesson
   );
 
@@ -356,6 +368,8 @@ export function createLessonRoutes(prisma: PrismaClient): Router {
       params: ModuleParamSchema,
       body: ReorderLessonsSchema
     }),
+    requireCourseRole('editor'),
+    audit('reorder', 'module', { entityId: (req) => req.params['moduleId'] }),
     lessonController.reorderModuleLessons
   );
 
@@ -402,9 +416,11 @@ export function createLessonRoutes(prisma: PrismaClient): Router {
    *         description: Module or lesson not found
    */
   router.get('/modules/:moduleId/lessons/:id',
+    optionalAuth,
     validate({
       params: ModuleParamSchema.extend({ id: IdParamSchema.shape.id })
     }),
+    requireCourseReader,
     lessonController.getLesson
   );
 
@@ -489,6 +505,8 @@ export function createLessonRoutes(prisma: PrismaClient): Router {
       params: ModuleParamSchema.extend({ id: IdParamSchema.shape.id }),
       body: UpdateLessonSchema
     }),
+    requireCourseRole('editor'),
+    audit('update', 'lesson'),
     lessonController.updateLesson
   );
 
@@ -500,7 +518,7 @@ export function createLessonRoutes(prisma: PrismaClient): Router {
    *       - Content
    *       - Lessons
    *     summary: Delete lesson
-   *     description: Delete a lesson from a module (requires admin role)
+   *     description: Move a lesson to the trash, from where it can be restored until it is purged (requires admin role)
    *     security:
    *       - bearerAuth: []
    *     parameters:
@@ -549,9 +567,71 @@ export function createLessonRoutes(prisma: PrismaClient): Router {
     validate({
       params: ModuleParamSchema.extend({ id: IdParamSchema.shape.id })
     }),
+    audit('delete', 'lesson'),
     lessonController.deleteLesson
   );
 
+  /**
+   * @swagger
+   * /api/v1/modules/{moduleId}/lessons/{id}/restore:
+   *   post:
+   *     tags:
+   *       - Content
+   *       - Lessons
+   *     summary: Restore lesson
+   *     description: Restore a lesson of the module from the trash with its exercise assignments (requires admin role)
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: moduleId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Module ID
+   *         example: "module-001"
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Lesson ID
+   *         example: "lesson-001"
+   *     responses:
+   *       200:
+   *         description: Lesson restored successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   $ref: '#/components/schemas/Lesson'
+   *                 message:
+   *                   type: string
+   *                   example: Lesson restored successfully
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       403:
+   *         description: Insufficient permissions (admin required)
+   *       404:
+   *         description: Lesson not found in the trash of the module
+   *       409:
+   *         description: The module is in the trash and must be restored first
+   */
+  router.post('/modules/:moduleId/lessons/:id/restore',
+    authenticateToken,
+    requireRole(['admin']),
+    validate({
+      params: ModuleParamSchema.extend({ id: IdParamSchema.shape.id })
+    }),
+    audit('restore', 'lesson'),
+    trashController.restoreLesson
+  );
+
 
 
   // Lesson-Exercise assignment routes
@@ -605,7 +685,9 @@ export function createLessonRoutes(prisma: PrismaClient): Router {
    *         description: Lesson not found
    */
   router.get('/lessons/:lessonId/exercises',
+    optionalAuth,
     validate({ params: LessonParamSchema }),
+    requireCourseReader,
     lessonController.getLessonExercises
   );
 
@@ -695,6 +777,8 @@ export function createLessonRoutes(prisma: PrismaClient): Router {
       params: LessonParamSchema,
       body: AssignExerciseToLessonSchema
     }),
+    requireCourseRole('editor'),
+    audit('assign_exercise', 'lesson', { entityId: (req) => req.params['lessonId'] }),
     lessonController.assignExerciseToLesson
   );
 
@@ -756,6 +840,8 @@ export function createLessonRoutes(prisma: PrismaClient): Router {
         exerciseId: ExerciseParamSchema.shape.exerciseId
       })
     }),
+    requireCourseRole('editor'),
+    audit('unassign_exercise', 'lesson', { entityId: (req) => req.params['lessonId'] }),
     lessonController.unassignExerciseFromLesson
   );
 
@@ -836,8 +922,115 @@ export function createLessonRoutes(prisma: PrismaClient): Router {
       params: LessonParamSchema,
       body: ReorderExercisesSchema
     }),
+    requireCourseRole('editor'),
+    audit('reorder_exercises', 'lesson', { entityId: (req) => req.params['lessonId'] }),
     lessonController.reorderLessonExercises
   );
 
+  /**
+   * @swagger
+   * /api/v1/lessons/{lessonId}/attempts:
+   *   post:
+   *     tags:
+   *       - Content
+   *       - Lessons
+   *       - Exercises
+   *     summary: Grade a lesson attempt
+   *     description: |
+   *       Grade the learner answers for every exercise assigned to the lesson in a single request.
+   *       Exercises without an answer count as incorrect and informative exercises are excluded from the score.
+   *       The returned score (0-100) is the same value stored when the lesson is completed with answers.
+   *       Each answer is recorded as an attempt for exercise analytics.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: lessonId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 60
+   *         description: Lesson ID
+   *         example: "lesson-001"
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - answers
+   *             properties:
+   *               answers:
+   *                 type: array
+   *                 items:
+   *                   type: object
+   *                   required:
+   *                     - exercise_id
+   *                     - answer
+   *                   properties:
+   *                     exercise_id:
+   *                       type: string
+   *                       maxLength: 15
+   *                       example: "exercise-001"
+   *                     answer:
+   *                       type: object
+   *                       description: Type-specific answer payload (see POST /exercises/{id}/submit)
+   *                       example:
+   *                         value: true
+   *                     duration_seconds:
+   *                       type: integer
+   *                       minimum: 0
+   *                       description: Seconds the learner spent on the exercise
+   *                       example: 12
+   *     responses:
+   *       200:
+   *         description: Lesson attempt graded successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     lesson_id:
+   *                       type: string
+   *                       example: "lesson-001"
+   *                     score:
+   *                       type: integer
+   *                       minimum: 0
+   *                       maximum: 100
+   *                       example: 75
+   *                     correct_count:
+   *                       type: integer
+   *                       example: 3
+   *                     gradable_count:
+   *                       type: integer
+   *                       example: 4
+   *                     results:
+   *                       type: array
+   *                       items:
+   *                         type: object
+   *       400:
+   *         description: Invalid answers or answers for exercises not assigned to the lesson
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       404:
+   *         description: Lesson not found
+   */
+  router.post('/lessons/:lessonId/attempts',
+    authenticateToken,
+    validate({
+      params: LessonParamSchema,
+      body: LessonAttemptSchema
+    }),
+    requireCourseReader,
+    lessonController.submitLessonAttempt
+  );
+
   return router;
 }
\ No newline at end of file
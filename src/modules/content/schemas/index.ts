@@ -9,8 +9,14 @@ import {
   ExerciseTypeSchema,
   JsonSchema,
   BasePaginationSchema,
+  EmailSchema,
+  TimeSecondsSchema,
   // IdParamSchema
 } from "../../../shared/schemas/common";
+import {
+  ExerciseDataUnionSchema,
+  getExerciseDataSchema,
+} from "../../../shared/schemas/exercise.schemas";
 
 // Course validation schemas
 export const CreateCourseSchema = z.object({
@@ -34,6 +40,10 @@ export const CourseQuerySchema = BasePaginationSchema.extend({
     .string()
     .optional()
     .transform((val) => val === undefined ? undefined : val === "true"),
+  accessible: z
+    .string()
+    .optional()
+    .transform((val) => val === undefined ? undefined : val === "true"),
 });
 
 // Level validation schemas
@@ -126,18 +136,38 @@ export const UpdateLessonSchema = CreateLessonSchema.partial().omit({
 export const LessonQuerySchema = BasePaginationSchema;
 
 // Exercise validation schemas
-export const CreateExerciseSchema = z.object({
-  id: z
-    .string()
-    .min(1, "Exercise ID is required")
-    .max(15, "Exercise ID too long"),
-  exercise_type: ExerciseTypeSchema,
-  data: JsonSchema,
-});
-
-export const UpdateExerciseSchema = CreateExerciseSchema.partial().omit({
-  id: true,
-});
+export const CreateExerciseSchema = ExerciseDataUnionSchema.and(
+  z.object({
+    id: z
+      .string()
+      .min(1, "Exercise ID is required")
+      .max(15, "Exercise ID too long"),
+  })
+);
+
+// Updates may omit exercise_type; data-only updates are checked against the stored type by ExerciseService
+export const UpdateExerciseSchema = z
+  .object({
+    exercise_type: ExerciseTypeSchema.optional(),
+    data: JsonSchema.optional(),
+  })
+  .superRefine((value, ctx) => {
+    if (!value.exercise_type) {
+      return;
+    }
+    if (value.data === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["data"],
+        message: "data is required when changing exercise_type",
+      });
+      return;
+    }
+    const result = getExerciseDataSchema(value.exercise_type)?.safeParse(value.data);
+    result?.error?.issues.forEach((issue) =>
+      ctx.addIssue({ ...issue, path: ["data", ...issue.path] })
+    );
+  });
 
 export const ExerciseQuerySchema = BasePaginationSchema.extend({
   exercise_type: ExerciseTypeSchema.optional(),
@@ -182,6 +212,31 @@ export const ReorderLevelsSchema = z.object({
     .min(1, "At least one level ID is required"),
 });
 
+// Answer grading schemas
+export const ExerciseAnswerSchema = z.record(z.any());
+
+// Seconds the learner spent on an exercise before answering it
+export const AnswerDurationSchema = TimeSecondsSchema.max(86400, "Duration too long");
+
+export const SubmitExerciseAnswerSchema = z.object({
+  answer: ExerciseAnswerSchema,
+});
+
+export const LessonAttemptSchema = z.object({
+  answers: z
+    .array(
+      z.object({
+        exercise_id: z
+          .string()
+          .min(1, "Exercise ID is required")
+          .max(15, "Exercise ID too long"),
+        answer: ExerciseAnswerSchema,
+        duration_seconds: AnswerDurationSchema.optional(),
+      })
+    )
+    .max(100, "Too many answers in a single attempt"),
+});
+
 // Parameter validation schemas
 export const CourseParamSchema = z.object({
   courseId: z
@@ -225,6 +280,496 @@ export const ExerciseParamSchema = z.object({
     .max(15, "Exercise ID too long"),
 });
 
+// Unlock rule validation schemas
+export const UnlockTargetTypeSchema = z.enum(["level", "section", "module", "lesson"]);
+
+export const UnlockRuleTypeSchema = z.enum([
+  "previous_lesson_completed",
+  "minimum_score",
+  "level_exam_passed",
+  "xp_threshold",
+]);
+
+export const CreateUnlockRuleSchema = z
+  .object({
+    target_type: UnlockTargetTypeSchema,
+    target_id: z
+      .string()
+      .min(1, "Target ID is required")
+      .max(60, "Target ID too long"),
+    rule_type: UnlockRuleTypeSchema,
+    reference_id: z
+      .string()
+      .min(1, "Reference ID cannot be empty")
+      .max(60, "Reference ID too long")
+      .optional(),
+    min_score: z
+      .number()
+      .int("Minimum score must be an integer")
+      .min(0, "Minimum score must be between 0 and 100")
+      .max(100, "Minimum score must be between 0 and 100")
+      .optional(),
+    min_experience: z
+      .number()
+      .int("Minimum experience must be an integer")
+      .positive("Minimum experience must be positive")
+      .optional(),
+  })
+  .superRefine((rule, ctx) => {
+    if (rule.rule_type === "minimum_score" && rule.min_score === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["min_score"],
+        message: "min_score is required for minimum_score rules",
+      });
+    }
+    if (rule.rule_type === "xp_threshold") {
+      if (rule.min_experience === undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["min_experience"],
+          message: "min_experience is required for xp_threshold rules",
+        });
+      }
+      if (rule.reference_id !== undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["reference_id"],
+          message: "xp_threshold rules do not reference other content",
+        });
+      }
+    }
+  });
+
+export const UnlockRuleParamSchema = z.object({
+  id: z.string().uuid("Invalid unlock rule ID format"),
+});
+
+// Course version schemas
+const VersionNumberSchema = z
+  .string()
+  .regex(/^\d+$/, "Version must be a positive integer")
+  .transform((val) => parseInt(val, 10))
+  .refine((val) => val > 0, "Version must be a positive integer");
+
+export const PublishCourseSchema = z.object({
+  notes: z.string().max(500, "Notes too long").optional(),
+});
+
+export const CourseVersionParamSchema = z.object({
+  version: VersionNumberSchema,
+});
+
+export const CourseVersionDiffQuerySchema = z.object({
+  against: VersionNumberSchema.optional(),
+});
+
+// Course collaborator schemas
+export const CourseRoleSchema = z.enum(["owner", "editor", "reviewer", "viewer"]);
+
+export const InviteCollaboratorSchema = z.object({
+  email: EmailSchema,
+  role: CourseRoleSchema,
+});
+
+export const UpdateCollaboratorSchema = z.object({
+  role: CourseRoleSchema,
+});
+
+export const CollaboratorParamSchema = z.object({
+  id: z
+    .string()
+    .min(1, "Course ID is required")
+    .max(20, "Course ID too long"),
+  userId: z.string().uuid("Invalid user ID format"),
+});
+
+// Enrollment schemas
+export const EnrollCourseSchema = z.object({
+  // Required to join a private course
+  invite_code: z.string().trim().min(1, "Invite code cannot be empty").max(16, "Invite code too long").optional(),
+});
+
+export const EnrolledCoursesQuerySchema = z.object({
+  status: z.enum(["active", "completed"]).optional(),
+});
+
+// Incremental package sync schemas
+export const PackageChangesQuerySchema = z.object({
+  since: z
+    .string()
+    .regex(/^\d+$/, "Revision must be a non-negative integer")
+    .transform((val) => parseInt(val, 10)),
+});
+
+// Trash schemas
+export const ContentEntityTypeSchema = z.enum(["course", "level", "section", "module", "lesson", "exercise"]);
+
+export const TrashQuerySchema = BasePaginationSchema.extend({
+  type: ContentEntityTypeSchema.optional(),
+  course_id: z.string().max(20, "Course ID too long").optional(),
+});
+
+// Course archive schemas
+export const COURSE_ARCHIVE_FORMAT = "wayrapp-course-archive";
+export const COURSE_ARCHIVE_FORMAT_VERSION = 1;
+
+const ArchiveLessonSchema = CreateLessonSchema.omit({ module_id: true }).extend({
+  exercises: z.array(
+    z.object({
+      exercise_id: z
+        .string()
+        .min(1, "Exercise ID is required")
+        .max(15, "Exercise ID too long"),
+      order: OrderSchema,
+    })
+  ),
+});
+
+const ArchiveModuleSchema = CreateModuleSchema.omit({ section_id: true }).extend({
+  lessons: z.array(ArchiveLessonSchema),
+});
+
+const ArchiveSectionSchema = CreateSectionSchema.omit({ level_id: true }).extend({
+  modules: z.array(ArchiveModuleSchema),
+});
+
+const ArchiveLevelSchema = CreateLevelSchema.omit({ course_id: true }).extend({
+  sections: z.array(ArchiveSectionSchema),
+});
+
+// Media linked by URL, or uploaded to the media library and referenced by media_id
+export const ArchiveMediaSchema = z
+  .object({
+    url: z.string().url("Invalid media URL format").optional(),
+    media_id: z.string().uuid("Invalid media ID").optional(),
+    type: z.enum(["image", "video", "audio"]).nullable(),
+    exercise_ids: z.array(z.string()),
+  })
+  .refine((media) => (media.url === undefined) !== (media.media_id === undefined), {
+    message: "Media must have either a url or a media_id",
+  });
+
+/**
+ * Adds an issue for every value that appears more than once, at the path of the repeated entry.
+ */
+const addDuplicateIssues = (
+  ctx: z.RefinementCtx,
+  entries: { value: string | number; path: (string | number)[] }[],
+  message: (value: string | number) => string
+): void => {
+  const seen = new Set<string | number>();
+  for (const entry of entries) {
+    if (seen.has(entry.value)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: entry.path, message: message(entry.value) });
+    }
+    seen.add(entry.value);
+  }
+};
+
+// Archives are checked as a whole: IDs are unique per content type, sibling orders and level codes
+// do not repeat, and every exercise and unlock rule reference points into the archive
+export const CourseArchiveSchema = z
+  .object({
+    format: z.literal(COURSE_ARCHIVE_FORMAT, {
+      errorMap: () => ({ message: "Not a course archive" }),
+    }),
+    format_version: z.literal(COURSE_ARCHIVE_FORMAT_VERSION, {
+      errorMap: () => ({ message: `Unsupported archive format version, expected ${COURSE_ARCHIVE_FORMAT_VERSION}` }),
+    }),
+    exported_at: z.string().datetime("Invalid export date"),
+    course: CreateCourseSchema.extend({
+      id: z.string().min(1, "Course ID is required").max(20, "Course ID too long"),
+    }),
+    levels: z.array(ArchiveLevelSchema),
+    exercises: z.array(CreateExerciseSchema),
+    unlock_rules: z.array(CreateUnlockRuleSchema).default([]),
+    media: z.array(ArchiveMediaSchema).default([]),
+  })
+  .superRefine((archive, ctx) => {
+    const ids = { level: [], section: [], module: [], lesson: [] } as Record<
+      z.infer<typeof UnlockTargetTypeSchema>,
+      { value: string; path: (string | number)[] }[]
+    >;
+
+    addDuplicateIssues(
+      ctx,
+      archive.levels.map((level, l) => ({ value: level.code, path: ["levels", l, "code"] })),
+      (code) => `Level code '${code}' is used more than once`
+    );
+    addDuplicateIssues(
+      ctx,
+      archive.levels.map((level, l) => ({ value: level.order, path: ["levels", l, "order"] })),
+      (order) => `Level order ${order} is used more than once`
+    );
+
+    archive.levels.forEach((level, l) => {
+      const levelPath = ["levels", l];
+      ids.level.push({ value: level.id, path: [...levelPath, "id"] });
+      addDuplicateIssues(
+        ctx,
+        level.sections.map((section, s) => ({ value: section.order, path: [...levelPath, "sections", s, "order"] })),
+        (order) => `Section order ${order} is used more than once in level '${level.id}'`
+      );
+
+      level.sections.forEach((section, s) => {
+        const sectionPath = [...levelPath, "sections", s];
+        ids.section.push({ value: section.id, path: [...sectionPath, "id"] });
+        addDuplicateIssues(
+          ctx,
+          section.modules.map((module, m) => ({ value: module.order, path: [...sectionPath, "modules", m, "order"] })),
+          (order) => `Module order ${order} is used more than once in section '${section.id}'`
+        );
+
+        section.modules.forEach((module, m) => {
+          const modulePath = [...sectionPath, "modules", m];
+          ids.module.push({ value: module.id, path: [...modulePath, "id"] });
+          addDuplicateIssues(
+            ctx,
+            module.lessons.map((lesson, n) => ({ value: lesson.order, path: [...modulePath, "lessons", n, "order"] })),
+            (order) => `Lesson order ${order} is used more than once in module '${module.id}'`
+          );
+
+          module.lessons.forEach((lesson, n) => {
+            const lessonPath = [...modulePath, "lessons", n];
+            ids.lesson.push({ value: lesson.id, path: [...lessonPath, "id"] });
+            addDuplicateIssues(
+              ctx,
+              lesson.exercises.map((exercise, e) => ({ value: exercise.exercise_id, path: [...lessonPath, "exercises", e, "exercise_id"] })),
+              (id) => `Exercise '${id}' is assigned more than once to lesson '${lesson.id}'`
+            );
+            addDuplicateIssues(
+              ctx,
+              lesson.exercises.map((exercise, e) => ({ value: exercise.order, path: [...lessonPath, "exercises", e, "order"] })),
+              (order) => `Exercise order ${order} is used more than once in lesson '${lesson.id}'`
+            );
+          });
+        });
+      });
+    });
+
+    for (const [type, entries] of Object.entries(ids)) {
+      addDuplicateIssues(ctx, entries, (id) => `${type} ID '${id}' is used more than once`);
+    }
+
+    const exerciseIds = archive.exercises.map((exercise, e) => ({ value: exercise.id, path: ["exercises", e, "id"] }));
+    addDuplicateIssues(ctx, exerciseIds, (id) => `exercise ID '${id}' is used more than once`);
+
+    const knownExercises = new Set(exerciseIds.map((entry) => entry.value));
+    archive.levels.forEach((level, l) =>
+      level.sections.forEach((section, s) =>
+        section.modules.forEach((module, m) =>
+          module.lessons.forEach((lesson, n) =>
+            lesson.exercises.forEach((exercise, e) => {
+              if (!knownExercises.has(exercise.exercise_id)) {
+                ctx.addIssue({
+                  code: z.ZodIssueCode.custom,
+                  path: ["levels", l, "sections", s, "modules", m, "lessons", n, "exercises", e, "exercise_id"],
+                  message: `Exercise '${exercise.exercise_id}' is not part of the archive`,
+                });
+              }
+            })
+          )
+        )
+      )
+    );
+
+    const known = Object.fromEntries(
+      Object.entries(ids).map(([type, entries]) => [type, new Set(entries.map((entry) => entry.value))])
+    ) as Record<z.infer<typeof UnlockTargetTypeSchema>, Set<string>>;
+    archive.unlock_rules.forEach((rule, r) => {
+      if (!known[rule.target_type].has(rule.target_id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["unlock_rules", r, "target_id"],
+          message: `${rule.target_type} '${rule.target_id}' is not part of the archive`,
+        });
+      }
+      const referenceType = rule.rule_type === "level_exam_passed" ? "level" : "lesson";
+      if (rule.reference_id && !known[referenceType].has(rule.reference_id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["unlock_rules", r, "reference_id"],
+          message: `${referenceType} '${rule.reference_id}' is not part of the archive`,
+        });
+      }
+    });
+  });
+
+export const ImportCourseQuerySchema = z.object({
+  id_strategy: z.enum(["preserve", "remap"]).optional().default("preserve"),
+  dry_run: z
+    .string()
+    .optional()
+    .transform((val) => val === "true"),
+});
+
+// Exercise import schemas
+export const MAX_IMPORTED_EXERCISES = 1000;
+
+interface ExerciseImportField {
+  required?: boolean;
+  // List fields collect the cells of every mapped column, split on "|"
+  list?: boolean;
+}
+
+/**
+ * Fields of each exercise type that spreadsheet columns can be mapped to. Rows without a mapped
+ * `id` get one generated from their text.
+ */
+export const EXERCISE_IMPORT_FIELDS: Record<
+  z.infer<typeof ExerciseTypeSchema>,
+  Record<string, ExerciseImportField>
+> = {
+  translation: {
+    id: {},
+    source_text: { required: true },
+    target_text: { required: true },
+    hints: { list: true },
+  },
+  "translation-word-bank": {
+    id: {},
+    source_text: { required: true },
+    target_text: { required: true },
+    correct_words: { required: true, list: true },
+    word_bank: { required: true, list: true },
+  },
+  // One answers column per blank, alternative answers separated by "|"
+  "fill-in-the-blank": {
+    id: {},
+    text: { required: true },
+    answers: { required: true, list: true },
+  },
+  vof: {
+    id: {},
+    statement: { required: true },
+    is_true: { required: true },
+    explanation: {},
+  },
+  // Left and right items are matched by position
+  pairs: {
+    id: {},
+    left: { required: true, list: true },
+    right: { required: true, list: true },
+  },
+  informative: {
+    id: {},
+    title: {},
+    content: { required: true },
+    media_type: {},
+    media_url: {},
+    media_alt: {},
+  },
+  // Items in their correct order
+  ordering: {
+    id: {},
+    items: { required: true, list: true },
+  },
+  listening: {
+    id: {},
+    audio_url: { required: true },
+    answer_mode: {},
+    correct_answers: { required: true, list: true },
+    options: { list: true },
+    transcript: {},
+  },
+  speaking: {
+    id: {},
+    prompt: { required: true },
+    expected_transcripts: { required: true, list: true },
+    reference_audio_url: {},
+  },
+};
+
+// Columns are referenced by header name, or by position starting at 1
+const ImportColumnSchema = z.union([
+  z.string().min(1, "Column name cannot be empty"),
+  z.number().int().min(1, "Column positions start at 1"),
+]);
+
+export const ImportExercisesSchema = z
+  .object({
+    format: z.enum(["csv", "tsv"]).optional().default("csv"),
+    content: z
+      .string()
+      .min(1, "File content is required")
+      .max(5_000_000, "File content cannot exceed 5000000 characters"),
+    has_header: z.boolean().optional().default(true),
+    exercise_type: ExerciseTypeSchema,
+    mapping: z.record(
+      z.string(),
+      z.union([ImportColumnSchema, z.array(ImportColumnSchema).min(1, "At least one column is required")])
+    ),
+    lesson_id: z.string().min(1, "Lesson ID is required").max(60, "Lesson ID too long").optional(),
+  })
+  .superRefine((value, ctx) => {
+    const fields = EXERCISE_IMPORT_FIELDS[value.exercise_type];
+
+    Object.entries(value.mapping).forEach(([field, columns]) => {
+      if (!fields[field]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["mapping", field],
+          message: `Unknown field '${field}' for ${value.exercise_type} exercises`,
+        });
+        return;
+      }
+      if (Array.isArray(columns) && columns.length > 1 && !fields[field]!.list) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["mapping", field],
+          message: `Field '${field}' takes a single column`,
+        });
+      }
+      if (!value.has_header && [columns].flat().some((column) => typeof column === "string")) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["mapping", field],
+          message: "Columns must be referenced by position when the file has no header",
+        });
+      }
+    });
+
+    Object.entries(fields).forEach(([field, definition]) => {
+      if (definition.required && value.mapping[field] === undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["mapping", field],
+          message: `Field '${field}' must be mapped to a column`,
+        });
+      }
+    });
+  });
+
+export const ImportExercisesQuerySchema = z.object({
+  dry_run: z
+    .string()
+    .optional()
+    .transform((val) => val === "true"),
+});
+
+// Course analytics schemas
+export const CourseAnalyticsFormatSchema = z.enum(["json", "csv"]);
+
+export const CourseAnalyticsReportSchema = z.enum(["activity", "funnel", "scores"]);
+
+const AnalyticsDaySchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must use the YYYY-MM-DD format");
+
+export const CourseAnalyticsQuerySchema = z
+  .object({
+    from: AnalyticsDaySchema.optional(),
+    to: AnalyticsDaySchema.optional(),
+    format: CourseAnalyticsFormatSchema.default("json"),
+    // Table exported when the format is csv
+    report: CourseAnalyticsReportSchema.default("funnel"),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: "from must not be after to",
+    path: ["from"],
+  });
+
 // Type exports
 export type CreateCourseDto = z.infer<typeof CreateCourseSchema>;
 export type UpdateCourseDto = z.infer<typeof UpdateCourseSchema>;
@@ -258,3 +803,22 @@ export type ReorderLessonsDto = z.infer<typeof ReorderLessonsSchema>;
 export type ReorderModulesDto = z.infer<typeof ReorderModulesSchema>;
 export type ReorderSectionsDto = z.infer<typeof ReorderSectionsSchema>;
 export type ReorderLevelsDto = z.infer<typeof ReorderLevelsSchema>;
+
+export type SubmitExerciseAnswerDto = z.infer<typeof SubmitExerciseAnswerSchema>;
+export type LessonAttemptDto = z.infer<typeof LessonAttemptSchema>;
+export type CreateUnlockRuleDto = z.infer<typeof CreateUnlockRuleSchema>;
+export type PackageChangesQuery = z.infer<typeof PackageChangesQuerySchema>;
+export type PublishCourseDto = z.infer<typeof PublishCourseSchema>;
+export type CourseVersionDiffQuery = z.infer<typeof CourseVersionDiffQuerySchema>;
+export type InviteCollaboratorDto = z.infer<typeof InviteCollaboratorSchema>;
+export type UpdateCollaboratorDto = z.infer<typeof UpdateCollaboratorSchema>;
+export type EnrollCourseDto = z.infer<typeof EnrollCourseSchema>;
+export type EnrolledCoursesQuery = z.infer<typeof EnrolledCoursesQuerySchema>;
+export type TrashQuery = z.infer<typeof TrashQuerySchema>;
+export type CourseArchive = z.infer<typeof CourseArchiveSchema>;
+export type ArchiveMedia = z.infer<typeof ArchiveMediaSchema>;
+export type ImportCourseQuery = z.infer<typeof ImportCourseQuerySchema>;
+export type ImportExercisesDto = z.infer<typeof ImportExercisesSchema>;
+export type ImportExercisesQuery = z.infer<typeof ImportExercisesQuerySchema>;
+export type CourseAnalyticsQuery = z.infer<typeof CourseAnalyticsQuerySchema>;
+export type CourseAnalyticsReport = z.infer<typeof CourseAnalyticsReportSchema>;
@@ -0,0 +1,291 @@
+// src/modules/content/services/ContentChangeService.ts
+
+/**
+ * Content change log and incremental package sync for offline clients.
+ *
+ * Every course carries a revision number that increases by one on each draft content modification.
+ * Content services record what they changed (created or updated entities as `upsert`, deleted
+ * entities as `delete`) together with the new revision, so that mobile clients holding a package
+ * at revision N can download only what changed after N instead of the whole course tree.
+ *
+ * Clients only receive published content. Each published course version stores the revision it
+ * was taken at, so a change set covers the changes recorded up to the revision of the latest
+ * published version, and the entity data is read from that version's snapshot rather than from the
+ * draft. A change set contains every level, section, module, lesson and exercise created or
+ * updated in that range, without nested children, and a tombstone for every deleted entity.
+ * Deleting a parent removes its children, so clients drop the whole subtree of a tombstone.
+ * Lessons include their exercise assignments and exercise data as in the packaged course, since
+ * assigning or reordering exercises is recorded as a lesson update.
+ *
+ * @module ContentChangeService
+ * @category Content
+ * @category Services
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const contentChangeService = new ContentChangeService(prisma);
+ *
+ * // Record a lesson update from a content service
+ * await contentChangeService.recordChange('spanish-101', 'lesson', 'lesson-001', 'upsert');
+ *
+ * // Client holds the published package at revision 42
+ * const changes = await contentChangeService.getChangesSince('spanish-101', 42);
+ * console.log(changes.revision, changes.lessons.length, changes.deleted.length);
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { ContentChangeRepository, CourseVersionRepository } from '../repositories';
+import {
+  ContentChange,
+  ContentChangeInput,
+  ContentChangeOperation,
+  ContentEntityType,
+  ContentTombstone,
+  Course,
+  CourseSnapshot,
+  Exercise,
+  Level,
+  Module,
+  PackageChanges,
+  PackagedLesson,
+  Section
+} from '../types';
+import { AppError } from '../../../shared/middleware/errorHandler';
+import { ErrorCodes, HttpStatus } from '../../../shared/types';
+import { cacheService, CACHE_KEYS } from '../../../shared/utils';
+
+/**
+ * Service for recording content changes and building incremental package updates.
+ *
+ * @class ContentChangeService
+ */
+export class ContentChangeService {
+  private contentChangeRepository: ContentChangeRepository;
+  private courseVersionRepository: CourseVersionRepository;
+
+  /**
+   * Creates a new ContentChangeService instance.
+   *
+   * @param {PrismaClient} prisma - Prisma database client
+   */
+  constructor(prisma: PrismaClient) {
+    this.contentChangeRepository = new ContentChangeRepository(prisma);
+    this.courseVersionRepository = new CourseVersionRepository(prisma);
+  }
+
+  /**
+   * Records a set of changes to a course under a single new revision.
+   *
+   * @param {string} courseId - Course the changed content belongs to
+   * @param {ContentChangeInput[]} changes - Changed entities
+   * @returns {Promise<void>}
+   */
+  async recordChanges(courseId: string, changes: ContentChangeInput[]): Promise<void> {
+    if (changes.length === 0) {
+      return;
+    }
+
+    await this.contentChangeRepository.recordChanges(courseId, changes);
+    await cacheService.delete(CACHE_KEYS.PACKAGED_COURSE(courseId));
+  }
+
+  /**
+   * Records a change to a single entity of a course.
+   *
+   * @param {string} courseId - Course the changed content belongs to
+   * @param {ContentEntityType} entityType - Type of the changed entity
+   * @param {string} entityId - Identifier of the changed entity
+   * @param {ContentChangeOperation} operation - `upsert` for created or updated entities, `delete` for deleted ones
+   * @returns {Promise<void>}
+   */
+  async recordChange(
+    courseId: string,
+    entityType: ContentEntityType,
+    entityId: string,
+    operation: ContentChangeOperation
+  ): Promise<void> {
+    await this.recordChanges(courseId, [{ entity_type: entityType, entity_id: entityId, operation }]);
+  }
+
+  /**
+   * Records a change to a module or lesson, resolving the course it belongs to.
+   * Content deletions must be recorded before deleting, while the course can still be resolved.
+   *
+   * @param {'module' | 'lesson'} parentType - Type of the entity used to resolve the course
+   * @param {string} parentId - Identifier of the entity used to resolve the course
+   * @param {ContentChangeInput[]} changes - Changed entities
+   * @returns {Promise<void>}
+   */
+  async recordChangesWithin(parentType: 'module' | 'lesson', parentId: string, changes: ContentChangeInput[]): Promise<void> {
+    const courseId = await this.contentChangeRepository.findCourseId(parentType, parentId);
+    if (courseId) {
+      await this.recordChanges(courseId, changes);
+    }
+  }
+
+  /**
+   * Records an exercise change in every course that uses the exercise.
+   *
+   * Deleting an exercise removes it from its lessons, so the lessons are recorded as updated
+   * together with the exercise tombstone. Restoring it from the trash puts it back in its lessons.
+   *
+   * @param {string} exerciseId - Exercise identifier
+   * @param {ContentChangeOperation} operation - `upsert` for updates, `delete` for deletions
+   * @param {boolean} [lessonsChanged] - Whether the lessons using the exercise changed too, by default only on deletions
+   * @returns {Promise<void>}
+   */
+  async recordExerciseChange(
+    exerciseId: string,
+    operation: ContentChangeOperation,
+    lessonsChanged: boolean = operation === 'delete'
+  ): Promise<void> {
+    const usage = await this.contentChangeRepository.findExerciseUsage(exerciseId);
+    const lessonsByCourse = new Map<string, string[]>();
+    for (const { course_id, lesson_id } of usage) {
+      lessonsByCourse.set(course_id, [...(lessonsByCourse.get(course_id) ?? []), lesson_id]);
+    }
+
+    for (const [courseId, lessonIds] of lessonsByCourse) {
+      const lessonChanges: ContentChangeInput[] = lessonsChanged
+        ? lessonIds.map(lessonId => ({ entity_type: 'lesson', entity_id: lessonId, operation: 'upsert' }))
+        : [];
+
+      await this.recordChanges(courseId, [
+        { entity_type: 'exercise', entity_id: exerciseId, operation },
+        ...lessonChanges
+      ]);
+    }
+  }
+
+  /**
+   * Builds the published changes of a course after a revision.
+   *
+   * Only the latest change of each entity is considered. Entities missing from the published
+   * snapshot were removed together with a deleted parent, whose tombstone covers them.
+   *
+   * @param {string} courseId - Course identifier
+   * @param {number} since - Revision of the package held by the client
+   * @returns {Promise<Omit<PackageChanges, 'media'>>} Created, updated and deleted content since the revision
+   * @throws {AppError} When the course does not exist or has not been published (404), or the revision is ahead of the published version (409)
+   */
+  async getChangesSince(courseId: string, since: number): Promise<Omit<PackageChanges, 'media'>> {
+    const published = await this.courseVersionRepository.findLatest(courseId);
+    if (!published) {
+      const revision = await this.contentChangeRepository.findCourseRevision(courseId);
+      throw new AppError(
+        revision === null
+          ? `Course with ID '${courseId}' not found`
+          : `Course with ID '${courseId}' has not been published yet`,
+        HttpStatus.NOT_FOUND,
+        ErrorCodes.NOT_FOUND
+      );
+    }
+
+    if (since > published.revision) {
+      throw new AppError(
+        `Revision ${since} is ahead of published revision ${published.revision}. Download the full package again`,
+        HttpStatus.CONFLICT,
+        ErrorCodes.CONFLICT
+      );
+    }
+
+    const changes = await this.contentChangeRepository.findChangesBetween(courseId, since, published.revision);
+
+    // Changes are ordered by revision, so later changes replace earlier ones
+    const latest = new Map<string, ContentChange>();
+    for (const change of changes) {
+      latest.set(`${change.entity_type}:${change.entity_id}`, change);
+    }
+
+    const content = this.indexSnapshot(published.snapshot);
+    const result: Omit<PackageChanges, 'media'> = {
+      course_id: courseId,
+      since,
+      revision: published.revision,
+      course: null,
+      levels: [],
+      sections: [],
+      modules: [],
+      lessons: [],
+      exercises: [],
+      deleted: []
+    };
+
+    for (const change of latest.values()) {
+      if (change.operation === 'delete') {
+        const tombstone: ContentTombstone = { entity_type: change.entity_type, entity_id: change.entity_id, revision: change.revision };
+        result.deleted.push(tombstone);
+        continue;
+      }
+
+      switch (change.entity_type) {
+        case 'course':
+          result.course = content.course;
+          break;
+        case 'level':
+          this.pushIfPresent(result.levels, content.levels.get(change.entity_id));
+          break;
+        case 'section':
+          this.pushIfPresent(result.sections, content.sections.get(change.entity_id));
+          break;
+        case 'module':
+          this.pushIfPresent(result.modules, content.modules.get(change.entity_id));
+          break;
+        case 'lesson':
+          this.pushIfPresent(result.lessons, content.lessons.get(change.entity_id));
+          break;
+        case 'exercise':
+          this.pushIfPresent(result.exercises, content.exercises.get(change.entity_id));
+          break;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Indexes the content of a snapshot by identifier, without nested children.
+   */
+  private indexSnapshot(snapshot: CourseSnapshot): {
+    course: Course;
+    levels: Map<string, Level>;
+    sections: Map<string, Section>;
+    modules: Map<string, Module>;
+    lessons: Map<string, PackagedLesson>;
+    exercises: Map<string, Exercise>;
+  } {
+    const index = {
+      course: snapshot.course,
+      levels: new Map<string, Level>(),
+      sections: new Map<string, Section>(),
+      modules: new Map<string, Module>(),
+      lessons: new Map<string, PackagedLesson>(),
+      exercises: new Map<string, Exercise>()
+    };
+
+    for (const { sections, locked: _levelLocked, ...level } of snapshot.levels) {
+      index.levels.set(level.id, level);
+      for (const { modules, locked: _sectionLocked, ...section } of sections) {
+        index.sections.set(section.id, section);
+        for (const { lessons, locked: _moduleLocked, ...module } of modules) {
+          index.modules.set(module.id, module);
+          for (const { locked: _lessonLocked, ...lesson } of lessons) {
+            index.lessons.set(lesson.id, lesson);
+            for (const assignment of lesson.exercises) {
+              index.exercises.set(assignment.exercise_id, assignment.exercise);
+            }
+          }
+        }
+      }
+    }
+
+    return index;
+  }
+
+  private pushIfPresent<T>(items: T[], item: T | undefined): void {
+    if (item) {
+      items.push(item);
+    }
+  }
+}
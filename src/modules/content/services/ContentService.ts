@@ -58,6 +58,9 @@
  *   console.log('Course not modified since specified date');
  * }
  * 
+ * // Download only what changed since the revision of the held package
+ * const changes = await contentService.getPackageChanges('spanish-101', packagedCourse.revision);
+ * 
  * @example
  * // Hierarchical content creation with validation
  * const level = await contentService.createLevel({
@@ -81,7 +84,8 @@ import {
   CourseRepository,
   LevelRepository,
   SectionRepository,
-  ModuleRepository
+  ModuleRepository,
+  TrashRepository
 } from '../repositories';
 import {
   Course,
@@ -92,12 +96,18 @@ import {
   CreateLevelDto,
   CreateSectionDto,
   CreateModuleDto,
-  PackagedCourse
+  PackagedCourse,
+  PackagedLesson,
+  PackageChanges
 } from '../types';
 import { PaginatedResult, QueryOptions, ErrorCodes, HttpStatus } from '../../../shared/types';
 import { cacheService, CACHE_KEYS, logger } from '../../../shared/utils';
 import { AppError } from '../../../shared/middleware';
 import { generateUniqueId, ID_MAX_LENGTHS } from '../../../shared/utils/idGenerator';
+import { ContentChangeService } from './ContentChangeService';
+import { CourseVersionService } from './CourseVersionService';
+import { MediaService } from '../../media/services/mediaService';
+import { MediaRepository } from '../../media/repositories/mediaRepository';
 
 /**
  * Main service class implementing comprehensive educational content management operations.
@@ -114,6 +124,10 @@ export class ContentService {
   private levelRepository: LevelRepository;
   private sectionRepository: SectionRepository;
   private moduleRepository: ModuleRepository;
+  private trashRepository: TrashRepository;
+  private contentChangeService: ContentChangeService;
+  private courseVersionService: CourseVersionService;
+  private mediaService: MediaService;
 
   /**
    * Creates a new ContentService instance with initialized repositories for all content entities.
@@ -124,11 +138,15 @@ export class ContentService {
    * 
    * @param {PrismaClient} prisma - Prisma database client for data access operations across all repositories
    */
-  constructor(private prisma: PrismaClient) {
+  constructor(prisma: PrismaClient) {
     this.courseRepository = new CourseRepository(prisma);
     this.levelRepository = new LevelRepository(prisma);
     this.sectionRepository = new SectionRepository(prisma);
     this.moduleRepository = new ModuleRepository(prisma);
+    this.trashRepository = new TrashRepository(prisma);
+    this.contentChangeService = new ContentChangeService(prisma);
+    this.courseVersionService = new CourseVersionService(prisma);
+    this.mediaService = new MediaService(new MediaRepository(prisma));
   }
 
   // Course operations
@@ -142,10 +160,11 @@ export class ContentService {
    * @param {string} data.name - Display name of the course
    * @param {string} [data.description] - Optional course description
    * @param {boolean} [data.is_public] - Whether the course is publicly accessible
+   * @param {string} [ownerId] - User who becomes the owner of the course
    * @returns {Promise<Course>} The created course object with timestamps
    * @throws {AppError} When a course with the same ID already exists
    */
-  async createCourse(data: CreateCourseDto): Promise<Course> {
+  async createCourse(data: CreateCourseDto, ownerId?: string): Promise<Course> {
     let courseId = data.id;
 
     // Generate ID from name if not provided
@@ -154,19 +173,19 @@ export class ContentService {
         data.name,
         ID_MAX_LENGTHS.COURSE,
         async (id: string) => {
-          return await this.courseRepository.exists(id);
+          return await this.courseRepository.isIdTaken(id);
         }
       );
     } else {
       // Check if provided ID already exists
-      const existingCourse = await this.courseRepository.exists(courseId);
+      const existingCourse = await this.courseRepository.isIdTaken(courseId);
       if (existingCourse) {
         throw new AppError(`Course with ID '${courseId}' already exists`, HttpStatus.CONFLICT, ErrorCodes.CONFLICT);
       }
     }
 
     // Create course with generated or provided ID
-    const courseData = { ...data, id: courseId } as CreateCourseDto & { id: string };
+    const courseData = { ...data, id: courseId, ...(ownerId && { owner_id: ownerId }) } as CreateCourseDto & { id: string; owner_id?: string };
     return await this.courseRepository.create(courseData);
   }
 
@@ -223,6 +242,9 @@ export class ContentService {
 
     const result = await this.courseRepository.update(id, data);
 
+    // Record the change for incremental package sync
+    await this.contentChangeService.recordChange(id, 'course', id, 'upsert');
+
     // Invalidate packaged course cache
     await this.invalidatePackagedCourseCache(id);
 
@@ -230,7 +252,7 @@ export class ContentService {
   }
 
   /**
-   * Deletes a course and all its associated content, with cache invalidation.
+   * Moves a course and all its associated content to the trash, with cache invalidation.
    * 
    * @param {string} id - The unique identifier of the course to delete
    * @returns {Promise<void>} Resolves when the course is successfully deleted
@@ -242,7 +264,7 @@ export class ContentService {
       throw new AppError(`Course with ID '${id}' not found`, HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
     }
 
-    const success = await this.courseRepository.delete(id);
+    const success = await this.trashRepository.moveToTrash('course', id);
     if (!success) {
       throw new AppError(`Failed to delete course with ID '${id}'`, HttpStatus.INTERNAL_SERVER_ERROR, ErrorCodes.INTERNAL_ERROR);
     }
@@ -275,7 +297,7 @@ export class ContentService {
     }
 
     // Check if level with same ID already exists
-    const existingLevel = await this.levelRepository.exists(data.id);
+    const existingLevel = await this.levelRepository.isIdTaken(data.id);
     if (existingLevel) {
       throw new AppError(`Level with ID '${data.id}' already exists`, HttpStatus.CONFLICT, ErrorCodes.CONFLICT);
     }
@@ -294,6 +316,9 @@ export class ContentService {
 
     const result = await this.levelRepository.create(data);
 
+    // Record the change for incremental package sync
+    await this.contentChangeService.recordChange(data.course_id, 'level', result.id, 'upsert');
+
     // Invalidate packaged course cache
     await this.invalidatePackagedCourseCache(data.course_id);
 
@@ -341,17 +366,18 @@ export class ContentService {
    * Updates an existing level with validation for code and order uniqueness within the course.
    * 
    * @param {string} id - The unique identifier of the level to update
+   * @param {string} courseId - The unique identifier of the course the level must belong to
    * @param {Partial<Omit<CreateLevelDto, 'id' | 'course_id'>>} data - Partial level data to update
    * @param {string} [data.code] - Updated level code (must be unique within course)
    * @param {string} [data.name] - Updated level name
    * @param {number} [data.order] - Updated order position (must be unique within course)
    * @returns {Promise<Level>} The updated level object
-   * @throws {AppError} When level doesn't exist or code/order conflicts occur
+   * @throws {AppError} When level doesn't exist in the course or code/order conflicts occur
    */
-  async updateLevel(id: string, data: Partial<Omit<CreateLevelDto, 'id' | 'course_id'>>): Promise<Level> {
-    // Check if level exists
+  async updateLevel(id: string, courseId: string, data: Partial<Omit<CreateLevelDto, 'id' | 'course_id'>>): Promise<Level> {
+    // Check if level exists and belongs to the specified course
     const existingLevel = await this.levelRepository.findById(id);
-    if (!existingLevel) {
+    if (!existingLevel || existingLevel.course_id !== courseId) {
       throw new AppError(`Level with ID '${id}' not found`, HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
     }
 
@@ -373,6 +399,9 @@ export class ContentService {
 
     const result = await this.levelRepository.update(id, data);
 
+    // Record the change for incremental package sync
+    await this.contentChangeService.recordChange(existingLevel.course_id, 'level', id, 'upsert');
+
     // Invalidate packaged course cache
     await this.invalidatePackagedCourseCache(existingLevel.course_id);
 
@@ -380,7 +409,7 @@ export class ContentService {
   }
 
   /**
-   * Deletes a level and all its associated content with cache invalidation.
+   * Moves a level and all its associated content to the trash with cache invalidation.
    * 
    * @param {string} id - The unique identifier of the level to delete
    * @returns {Promise<void>} Resolves when the level is successfully deleted
@@ -393,11 +422,14 @@ export class ContentService {
       throw new AppError(`Level with ID '${id}' not found`, HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
     }
 
-    const success = await this.levelRepository.delete(id);
+    const success = await this.trashRepository.moveToTrash('level', id);
     if (!success) {
       throw new AppError(`Failed to delete level with ID '${id}'`, HttpStatus.INTERNAL_SERVER_ERROR, ErrorCodes.INTERNAL_ERROR);
     }
 
+    // Record the change for incremental package sync
+    await this.contentChangeService.recordChange(existingLevel.course_id, 'level', id, 'delete');
+
     // Invalidate packaged course cache
     await this.invalidatePackagedCourseCache(existingLevel.course_id);
   }
@@ -422,7 +454,7 @@ export class ContentService {
     }
 
     // Check if section with same ID already exists
-    const existingSection = await this.sectionRepository.exists(data.id);
+    const existingSection = await this.sectionRepository.isIdTaken(data.id);
     if (existingSection) {
       throw new AppError(`Section with ID '${data.id}' already exists`, HttpStatus.CONFLICT, ErrorCodes.CONFLICT);
     }
@@ -435,6 +467,9 @@ export class ContentService {
 
     const result = await this.sectionRepository.create(data);
 
+    // Record the change for incremental package sync
+    await this.contentChangeService.recordChange(level.course_id, 'section', result.id, 'upsert');
+
     // Invalidate packaged course cache
     await this.invalidatePackagedCourseCache(level.course_id);
 
@@ -482,16 +517,17 @@ export class ContentService {
    * Updates an existing section with validation for order uniqueness within the level.
    * 
    * @param {string} id - The unique identifier of the section to update
+   * @param {string} levelId - The unique identifier of the level the section must belong to
    * @param {Partial<Omit<CreateSectionDto, 'id' | 'level_id'>>} data - Partial section data to update
    * @param {string} [data.name] - Updated section name
    * @param {number} [data.order] - Updated order position (must be unique within level)
    * @returns {Promise<Section>} The updated section object
-   * @throws {AppError} When section doesn't exist, parent level doesn't exist, or order conflicts occur
+   * @throws {AppError} When section doesn't exist in the level, parent level doesn't exist, or order conflicts occur
    */
-  async updateSection(id: string, data: Partial<Omit<CreateSectionDto, 'id' | 'level_id'>>): Promise<Section> {
-    // Check if section exists
+  async updateSection(id: string, levelId: string, data: Partial<Omit<CreateSectionDto, 'id' | 'level_id'>>): Promise<Section> {
+    // Check if section exists and belongs to the specified level
     const existingSection = await this.sectionRepository.findById(id);
-    if (!existingSection) {
+    if (!existingSection || existingSection.level_id !== levelId) {
       throw new AppError(`Section with ID '${id}' not found`, HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
     }
 
@@ -511,6 +547,9 @@ export class ContentService {
 
     const result = await this.sectionRepository.update(id, data);
 
+    // Record the change for incremental package sync
+    await this.contentChangeService.recordChange(level.course_id, 'section', id, 'upsert');
+
     // Invalidate packaged course cache
     await this.invalidatePackagedCourseCache(level.course_id);
 
@@ -518,7 +557,7 @@ export class ContentService {
   }
 
   /**
-   * Deletes a section and all its associated content with cache invalidation.
+   * Moves a section and all its associated content to the trash with cache invalidation.
    * 
    * @param {string} id - The unique identifier of the section to delete
    * @returns {Promise<void>} Resolves when the section is successfully deleted
@@ -537,11 +576,14 @@ export class ContentService {
       throw new AppError(`Level with ID '${existingSection.level_id}' not found`, HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
     }
 
-    const success = await this.sectionRepository.delete(id);
+    const success = await this.trashRepository.moveToTrash('section', id);
     if (!success) {
       throw new AppError(`Failed to delete section with ID '${id}'`, HttpStatus.INTERNAL_SERVER_ERROR, ErrorCodes.INTERNAL_ERROR);
     }
 
+    // Record the change for incremental package sync
+    await this.contentChangeService.recordChange(level.course_id, 'section', id, 'delete');
+
     // Invalidate packaged course cache
     await this.invalidatePackagedCourseCache(level.course_id);
   }
@@ -573,7 +615,7 @@ export class ContentService {
     }
 
     // Check if module with same ID already exists
-    const existingModule = await this.moduleRepository.exists(data.id);
+    const existingModule = await this.moduleRepository.isIdTaken(data.id);
     if (existingModule) {
       throw new AppError(`Module with ID '${data.id}' already exists`, HttpStatus.CONFLICT, ErrorCodes.CONFLICT);
     }
@@ -586,6 +628,9 @@ export class ContentService {
 
     const result = await this.moduleRepository.create(data);
 
+    // Record the change for incremental package sync
+    await this.contentChangeService.recordChange(level.course_id, 'module', result.id, 'upsert');
+
     // Invalidate packaged course cache
     await this.invalidatePackagedCourseCache(level.course_id);
 
@@ -634,17 +679,18 @@ export class ContentService {
    * Updates an existing module with validation for order uniqueness within the section.
    * 
    * @param {string} id - The unique identifier of the module to update
+   * @param {string} sectionId - The unique identifier of the section the module must belong to
    * @param {Partial<Omit<CreateModuleDto, 'id' | 'section_id'>>} data - Partial module data to update
    * @param {'informative'|'basic_lesson'|'reading'|'dialogue'|'exam'} [data.module_type] - Updated module type
    * @param {string} [data.name] - Updated module name
    * @param {number} [data.order] - Updated order position (must be unique within section)
    * @returns {Promise<Module>} The updated module object
-   * @throws {AppError} When module doesn't exist, parent section/level doesn't exist, or order conflicts occur
+   * @throws {AppError} When module doesn't exist in the section, parent section/level doesn't exist, or order conflicts occur
    */
-  async updateModule(id: string, data: Partial<Omit<CreateModuleDto, 'id' | 'section_id'>>): Promise<Module> {
-    // Check if module exists
+  async updateModule(id: string, sectionId: string, data: Partial<Omit<CreateModuleDto, 'id' | 'section_id'>>): Promise<Module> {
+    // Check if module exists and belongs to the specified section
     const existingModule = await this.moduleRepository.findById(id);
-    if (!existingModule) {
+    if (!existingModule || existingModule.section_id !== sectionId) {
       throw new AppError(`Module with ID '${id}' not found`, HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
     }
 
@@ -669,6 +715,9 @@ export class ContentService {
 
     const result = await this.moduleRepository.update(id, data);
 
+    // Record the change for incremental package sync
+    await this.contentChangeService.recordChange(level.course_id, 'module', id, 'upsert');
+
     // Invalidate packaged course cache
     await this.invalidatePackagedCourseCache(level.course_id);
 
@@ -676,7 +725,7 @@ export class ContentService {
   }
 
   /**
-   * Deletes a module and all its associated content with cache invalidation.
+   * Moves a module and all its associated content to the trash with cache invalidation.
    * 
    * @param {string} id - The unique identifier of the module to delete
    * @returns {Promise<void>} Resolves when the module is successfully deleted
@@ -700,11 +749,14 @@ export class ContentService {
       throw new AppError(`Level with ID '${section.level_id}' not found`, HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
     }
 
-    const success = await this.moduleRepository.delete(id);
+    const success = await this.trashRepository.moveToTrash('module', id);
     if (!success) {
       throw new AppError(`Failed to delete module with ID '${id}'`, HttpStatus.INTERNAL_SERVER_ERROR, ErrorCodes.INTERNAL_ERROR);
     }
 
+    // Record the change for incremental package sync
+    await this.contentChangeService.recordChange(level.course_id, 'module', id, 'delete');
+
     // Invalidate packaged course cache
     await this.invalidatePackagedCourseCache(level.course_id);
   }
@@ -715,13 +767,16 @@ export class ContentService {
    * 
    * This method creates a comprehensive package containing the entire course hierarchy
    * (course → levels → sections → modules → lessons → exercises) optimized for offline use.
-   * Implements intelligent caching with 15-minute TTL and supports conditional requests
-   * via If-Modified-Since headers for efficient bandwidth usage.
+   * The package holds the latest published version of the course; draft edits are not delivered
+   * until the course is published again. The `media` manifest lists the uploaded files the
+   * exercises reference by `media_id`, so clients can download them for offline use. Implements
+   * intelligent caching with 15-minute TTL and supports conditional requests via If-Modified-Since
+   * headers for efficient bandwidth usage.
    * 
    * @param {string} courseId - The unique identifier of the course to package
    * @param {string} [ifModifiedSince] - Optional If-Modified-Since header value for conditional requests
    * @returns {Promise<PackagedCourse | null>} Complete packaged course or null if not modified since specified date
-   * @throws {AppError} When course doesn't exist or packaging fails
+   * @throws {AppError} When course doesn't exist, has not been published or packaging fails
    * 
    * @example
    * ```typescript
@@ -758,175 +813,27 @@ export class ContentService {
         return cachedResult;
       }
 
-      // Get the latest updated timestamp for the entire course hierarchy
-      const courseWithTimestamp = await this.prisma.course.findUnique({
-        where: { id: courseId },
-        select: {
-          id: true,
-          updatedAt: true,
-          levels: {
-            select: {
-              updatedAt: true,
-              sections: {
-                select: {
-                  updatedAt: true,
-                  modules: {
-                    select: {
-                      updatedAt: true,
-                      lessons: {
-                        select: {
-                          updatedAt: true,
-                          exercises: {
-                            select: {
-                              exercise: {
-                                select: {
-                                  updatedAt: true
-                                }
-                              }
-                            }
-                          }
-                        }
-                      }
-                    }
-                  }
-                }
-              }
-            }
-          }
-        }
-      });
-
-      if (!courseWithTimestamp) {
-        throw new AppError(`Course with ID '${courseId}' not found`, HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
-      }
-
-      // Calculate the most recent update timestamp across the entire hierarchy
-      const allTimestamps = [
-        courseWithTimestamp.updatedAt,
-        ...courseWithTimestamp.levels.flatMap(level => [
-          level.updatedAt,
-          ...level.sections.flatMap(section => [
-            section.updatedAt,
-            ...section.modules.flatMap(module => [
-              module.updatedAt,
-              ...module.lessons.flatMap(lesson => [
-                lesson.updatedAt,
-                ...lesson.exercises.map(le => le.exercise.updatedAt)
-              ])
-            ])
-          ])
-        ])
-      ];
-
-      const latestUpdateTime = new Date(Math.max(...allTimestamps.map(t => t.getTime())));
+      // Learners always receive the latest published version, never the draft
+      const published = await this.courseVersionService.getPublishedVersion(courseId);
 
       // Check if client's version is up to date
       if (ifModifiedSince) {
         const clientVersion = new Date(ifModifiedSince);
-        if (latestUpdateTime <= clientVersion) {
+        if (published.published_at <= clientVersion) {
           logger.debug(`Course ${courseId} not modified since ${ifModifiedSince}`);
           return null; // Return null to indicate 304 Not Modified
         }
       }
 
-      // Fetch the complete packaged course data with optimized query
-      const packagedCourse = await this.prisma.course.findUnique({
-        where: { id: courseId },
-        include: {
-          levels: {
-            orderBy: { order: 'asc' },
-            include: {
-              sections: {
-                orderBy: { order: 'asc' },
-                include: {
-                  modules: {
-                    orderBy: { order: 'asc' },
-                    include: {
-                      lessons: {
-                        orderBy: { order: 'asc' },
-                        include: {
-                          exercises: {
-                            orderBy: { order: 'asc' },
-                            include: {
-                              exercise: true
-                            }
-                          }
-                        }
-                      }
-                    }
-                  }
-                }
-              }
-            }
-          }
-        }
-      });
-
-      if (!packagedCourse) {
-        throw new AppError(`Course with ID '${courseId}' not found`, HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
-      }
-
-      // Transform the data to match the PackagedCourse interface
+      const lessons = published.snapshot.levels.flatMap(level =>
+        level.sections.flatMap(section => section.modules.flatMap(module => module.lessons))
+      );
       const result: PackagedCourse = {
-        course: {
-          id: packagedCourse.id,
-          source_language: packagedCourse.sourceLanguage,
-          target_language: packagedCourse.targetLanguage,
-          name: packagedCourse.name,
-          description: packagedCourse.description ?? '',
-          is_public: packagedCourse.isPublic,
-          created_at: packagedCourse.createdAt,
-          updated_at: packagedCourse.updatedAt
-        },
-        levels: packagedCourse.levels.map(level => ({
-          id: level.id,
-          course_id: level.courseId,
-          code: level.code,
-          name: level.name,
-          order: level.order,
-          created_at: level.createdAt,
-          updated_at: level.updatedAt,
-          sections: level.sections.map(section => ({
-            id: section.id,
-            level_id: section.levelId,
-            name: section.name,
-            order: section.order,
-            created_at: section.createdAt,
-            updated_at: section.updatedAt,
-            modules: section.modules.map(module => ({
-              id: module.id,
-              section_id: module.sectionId,
-              module_type: module.moduleType as 'informative' | 'basic_lesson' | 'reading' | 'dialogue' | 'exam',
-              name: module.name,
-              order: module.order,
-              created_at: module.createdAt,
-              updated_at: module.updatedAt,
-              lessons: module.lessons.map(lesson => ({
-                id: lesson.id,
-                module_id: lesson.moduleId,
-                name: lesson.name,
-                ...(lesson.description && { description: lesson.description }),
-                experience_points: lesson.experiencePoints,
-                order: lesson.order,
-                created_at: lesson.createdAt,
-                updated_at: lesson.updatedAt,
-                exercises: lesson.exercises.map(lessonExercise => ({
-                  lesson_id: lessonExercise.lessonId,
-                  exercise_id: lessonExercise.exerciseId,
-                  order: lessonExercise.order,
-                  exercise: {
-                    id: lessonExercise.exercise.id,
-                    exercise_type: lessonExercise.exercise.exerciseType as 'translation' | 'fill-in-the-blank' | 'vof' | 'pairs' | 'informative' | 'ordering',
-                    data: lessonExercise.exercise.data,
-                    created_at: lessonExercise.exercise.createdAt,
-                    updated_at: lessonExercise.exercise.updatedAt
-                  }
-                }))
-              }))
-            }))
-          }))
-        })),
-        package_version: latestUpdateTime.toISOString()
+        ...published.snapshot,
+        package_version: published.published_at.toISOString(),
+        revision: published.revision,
+        version: published.version,
+        media: await this.mediaService.getManifest(this.getLessonExercises(lessons))
       };
 
       // Cache the result for 15 minutes (packaged courses are large and expensive to generate)
@@ -941,6 +848,40 @@ export class ContentService {
     }
   }
 
+  /**
+   * Retrieves the content of a course created, updated or deleted after a revision.
+   * 
+   * Offline clients pass the `revision` of the packaged course they hold and apply the returned
+   * changes instead of downloading the whole package again. Deleted content is returned as
+   * tombstones, and the media referenced by the changed exercises and lessons as a manifest.
+   * 
+   * @param {string} courseId - The unique identifier of the course
+   * @param {number} since - Course revision held by the client
+   * @returns {Promise<PackageChanges>} Changed entities, tombstones and the current course revision
+   * @throws {AppError} When the course doesn't exist or the revision is ahead of the course
+   * 
+   * @example
+   * ```typescript
+   * const changes = await contentService.getPackageChanges('spanish-101', 42);
+   * console.log(changes.revision); // e.g. 45
+   * ```
+   */
+  async getPackageChanges(courseId: string, since: number): Promise<PackageChanges> {
+    const changes = await this.contentChangeService.getChangesSince(courseId, since);
+    const exercises = [...changes.exercises, ...this.getLessonExercises(changes.lessons)];
+
+    return { ...changes, media: await this.mediaService.getManifest(exercises) };
+  }
+
+  /**
+   * Lists the exercises assigned to packaged lessons, for the media manifest
+   */
+  private getLessonExercises(lessons: PackagedLesson[]): { id: string; data: unknown }[] {
+    return lessons.flatMap(lesson =>
+      lesson.exercises.flatMap(assignment => (assignment.exercise ? [assignment.exercise] : []))
+    );
+  }
+
   /**
    * Reorders modules within a section by updating their position sequence.
    * 
@@ -1030,6 +971,8 @@ export class ContentService {
     if (section) {
       const level = await this.levelRepository.findById(section.level_id);
       if (level) {
+        // Record the change for incremental package sync
+        await this.contentChangeService.recordChanges(level.course_id, moduleIds.map(moduleId => ({ entity_type: 'module', entity_id: moduleId, operation: 'upsert' })));
         await this.invalidatePackagedCourseCache(level.course_id);
       }
     }
@@ -1122,6 +1065,8 @@ export class ContentService {
     // Invalidate packaged course cache
     const level = await this.levelRepository.findById(levelId);
     if (level) {
+      // Record the change for incremental package sync
+      await this.contentChangeService.recordChanges(level.course_id, sectionIds.map(sectionId => ({ entity_type: 'section', entity_id: sectionId, operation: 'upsert' })));
       await this.invalidatePackagedCourseCache(level.course_id);
     }
   }
@@ -1210,6 +1155,9 @@ export class ContentService {
       );
     }
 
+    // Record the change for incremental package sync
+    await this.contentChangeService.recordChanges(courseId, levelIds.map(levelId => ({ entity_type: 'level', entity_id: levelId, operation: 'upsert' })));
+
     // Invalidate packaged course cache
     await this.invalidatePackagedCourseCache(courseId);
   }
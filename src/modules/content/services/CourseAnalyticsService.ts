@@ -0,0 +1,351 @@
+// src/modules/content/services/CourseAnalyticsService.ts
+
+/**
+ * Learner analytics of a course for its creators.
+ *
+ * Analytics are computed from the course enrollments and what learners do in the lessons of the
+ * course: lesson completions and the exercise attempts recorded while playing lessons. For a range
+ * of calendar days (UTC), the analytics report:
+ *
+ * - enrollment: learners enrolled by the end of the range, learners who enrolled within it and
+ *   learners active within it;
+ * - active learners per day;
+ * - a funnel of the course structure: for every level, section, module and lesson, how many of the
+ *   learners active in the range have started it and how many have completed all of its lessons,
+ *   and the share that dropped off; started and completed lessons are counted up to the end of the
+ *   range, so the funnel describes how far the active learners got;
+ * - the median time and average score of the lesson completions made within the range, per step;
+ * - the distribution of those scores in buckets of 10 points.
+ *
+ * The range defaults to the last 30 days and cannot exceed 366 days. Each table can also be
+ * exported as CSV for spreadsheets.
+ *
+ * @module CourseAnalyticsService
+ * @category Content
+ * @category Services
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const courseAnalyticsService = new CourseAnalyticsService(prisma);
+ *
+ * const analytics = await courseAnalyticsService.getCourseAnalytics('spanish-101', { from: '2025-01-01', to: '2025-01-31' });
+ * console.log(analytics.enrollment.active_learners);
+ *
+ * // Same data as a CSV table
+ * const csv = courseAnalyticsService.toCsv(analytics, 'funnel');
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { CourseAnalyticsRepository } from '../repositories';
+import {
+  CourseAnalytics,
+  CourseAnalyticsReport,
+  CourseFunnelStep,
+  CourseLessonCompletion,
+  LessonActivity,
+  ScoreBucket
+} from '../types';
+import { AppError } from '../../../shared/middleware/errorHandler';
+import { ErrorCodes, HttpStatus } from '../../../shared/types';
+import { addDays, dateToDay, dayToDate, daysBetween } from '../../../shared/utils/timezone';
+import { toDelimited } from '../../../shared/utils/csv';
+
+/**
+ * Default number of days covered by the analytics
+ */
+const ANALYTICS_DEFAULT_DAYS = 30;
+
+/**
+ * Longest range of days the analytics can cover
+ */
+export const ANALYTICS_MAX_DAYS = 366;
+
+/**
+ * Width of the score distribution buckets, in score points
+ */
+const SCORE_BUCKET_SIZE = 10;
+
+/**
+ * Service computing course analytics from enrollments, lesson completions and exercise attempts.
+ */
+export class CourseAnalyticsService {
+  private courseAnalyticsRepository: CourseAnalyticsRepository;
+
+  /**
+   * Creates a new CourseAnalyticsService instance
+   *
+   * @param {PrismaClient} prisma - Initialized Prisma client for database operations
+   */
+  constructor(prisma: PrismaClient) {
+    this.courseAnalyticsRepository = new CourseAnalyticsRepository(prisma);
+  }
+
+  /**
+   * Computes the analytics of a course for a range of days.
+   *
+   * @param {string} courseId - The unique course identifier
+   * @param {{ from?: string; to?: string }} range - Optional first and last day of the range (YYYY-MM-DD, UTC)
+   * @returns {Promise<CourseAnalytics>} Promise resolving to enrollment, activity, funnel and score analytics
+   * @throws {AppError} When the course is not found (404 NOT_FOUND)
+   * @throws {AppError} When the range is longer than 366 days (400 VALIDATION_ERROR)
+   */
+  async getCourseAnalytics(
+    courseId: string,
+    range: { from?: string | undefined; to?: string | undefined } = {}
+  ): Promise<CourseAnalytics> {
+    const to = range.to ?? dateToDay(new Date());
+    const from = range.from ?? addDays(to, -(ANALYTICS_DEFAULT_DAYS - 1));
+
+    if (daysBetween(from, to) + 1 > ANALYTICS_MAX_DAYS) {
+      throw new AppError(
+        `Analytics range cannot exceed ${ANALYTICS_MAX_DAYS} days`,
+        HttpStatus.BAD_REQUEST,
+        ErrorCodes.VALIDATION_ERROR
+      );
+    }
+
+    const outline = await this.courseAnalyticsRepository.findCourseOutline(courseId);
+    if (!outline) {
+      throw new AppError(
+        `Course '${courseId}' not found`,
+        HttpStatus.NOT_FOUND,
+        ErrorCodes.NOT_FOUND
+      );
+    }
+
+    const since = dayToDate(from);
+    const until = dayToDate(addDays(to, 1));
+    const lessonIds = outline.levels.flatMap(level =>
+      level.sections.flatMap(section =>
+        section.modules.flatMap(module => module.lessons.map(lesson => lesson.id))
+      )
+    );
+
+    const [completions, firstAttempts, attempts] = lessonIds.length > 0
+      ? await Promise.all([
+        this.courseAnalyticsRepository.findCompletions(lessonIds, until),
+        this.courseAnalyticsRepository.findFirstAttempts(lessonIds, until),
+        this.courseAnalyticsRepository.findAttempts(lessonIds, since, until),
+      ])
+      : [[], [], []];
+    const enrollments = await this.courseAnalyticsRepository.countEnrollments(courseId, since, until);
+
+    const inRange = (activity: LessonActivity) => activity.date >= since;
+    const rangeCompletions = completions.filter(inRange);
+
+    // Active learners per day
+    const dailyLearners = new Map<string, Set<string>>();
+    for (const activity of [...rangeCompletions, ...attempts]) {
+      const day = dateToDay(activity.date);
+      const learners = dailyLearners.get(day) ?? new Set<string>();
+      learners.add(activity.user_id);
+      dailyLearners.set(day, learners);
+    }
+    const activeLearners = new Set([...rangeCompletions, ...attempts].map(activity => activity.user_id));
+
+    // Lessons each active learner has started and completed by the end of the range
+    const started = new Map<string, Set<string>>();
+    const completed = new Map<string, Set<string>>();
+    for (const activity of [...completions, ...firstAttempts]) {
+      if (activeLearners.has(activity.user_id)) {
+        this.addLesson(started, activity);
+      }
+    }
+    for (const completion of completions) {
+      if (activeLearners.has(completion.user_id)) {
+        this.addLesson(completed, completion);
+      }
+    }
+
+    const step = (
+      entity_type: CourseFunnelStep['entity_type'],
+      id: string,
+      name: string,
+      parent_id: string | null,
+      stepLessonIds: string[]
+    ): CourseFunnelStep =>
+      this.buildFunnelStep(entity_type, id, name, parent_id, stepLessonIds, started, completed, rangeCompletions);
+
+    const funnel: CourseFunnelStep[] = [];
+    for (const level of outline.levels) {
+      const levelLessons = level.sections.flatMap(section =>
+        section.modules.flatMap(module => module.lessons.map(lesson => lesson.id))
+      );
+      funnel.push(step('level', level.id, level.name, null, levelLessons));
+
+      for (const section of level.sections) {
+        const sectionLessons = section.modules.flatMap(module => module.lessons.map(lesson => lesson.id));
+        funnel.push(step('section', section.id, section.name, level.id, sectionLessons));
+
+        for (const module of section.modules) {
+          funnel.push(step('module', module.id, module.name, section.id, module.lessons.map(lesson => lesson.id)));
+
+          for (const lesson of module.lessons) {
+            funnel.push(step('lesson', lesson.id, lesson.name, module.id, [lesson.id]));
+          }
+        }
+      }
+    }
+
+    return {
+      course_id: courseId,
+      from,
+      to,
+      enrollment: {
+        total_learners: enrollments.total,
+        new_learners: enrollments.new,
+        active_learners: activeLearners.size,
+      },
+      active_learners: Array.from({ length: daysBetween(from, to) + 1 }, (_, i) => {
+        const date = addDays(from, i);
+        return { date, learners: dailyLearners.get(date)?.size ?? 0 };
+      }),
+      funnel,
+      score_distribution: this.buildScoreDistribution(rangeCompletions),
+    };
+  }
+
+  /**
+   * Writes one table of the analytics as CSV.
+   *
+   * @param {CourseAnalytics} analytics - Analytics returned by getCourseAnalytics
+   * @param {CourseAnalyticsReport} report - Table to write: activity, funnel or scores
+   * @returns {string} CSV text with a header record
+   */
+  toCsv(analytics: CourseAnalytics, report: CourseAnalyticsReport): string {
+    switch (report) {
+      case 'activity':
+        return toDelimited([
+          ['date', 'active_learners'],
+          ...analytics.active_learners.map(day => [day.date, day.learners]),
+        ]);
+      case 'scores':
+        return toDelimited([
+          ['min_score', 'max_score', 'completions'],
+          ...analytics.score_distribution.map(bucket => [bucket.min, bucket.max, bucket.count]),
+        ]);
+      case 'funnel':
+        return toDelimited([
+          [
+            'entity_type',
+            'id',
+            'name',
+            'parent_id',
+            'learners_started',
+            'learners_completed',
+            'drop_off_rate',
+            'median_time_seconds',
+            'average_score',
+          ],
+          ...analytics.funnel.map(step => [
+            step.entity_type,
+            step.id,
+            step.name,
+            step.parent_id,
+            step.learners_started,
+            step.learners_completed,
+            step.drop_off_rate,
+            step.median_time_seconds,
+            step.average_score,
+          ]),
+        ]);
+    }
+  }
+
+  /**
+   * Counts the learners who started and completed the lessons of a funnel step, and summarizes
+   * the completions of those lessons made within the range.
+   *
+   * @private
+   */
+  private buildFunnelStep(
+    entity_type: CourseFunnelStep['entity_type'],
+    id: string,
+    name: string,
+    parent_id: string | null,
+    lessonIds: string[],
+    started: Map<string, Set<string>>,
+    completed: Map<string, Set<string>>,
+    rangeCompletions: CourseLessonCompletion[]
+  ): CourseFunnelStep {
+    const learnersStarted = [...started.values()]
+      .filter(lessons => lessonIds.some(lessonId => lessons.has(lessonId))).length;
+    const learnersCompleted = lessonIds.length > 0
+      ? [...completed.values()].filter(lessons => lessonIds.every(lessonId => lessons.has(lessonId))).length
+      : 0;
+
+    const stepLessons = new Set(lessonIds);
+    const stepCompletions = rangeCompletions.filter(completion => stepLessons.has(completion.lesson_id));
+    const times = stepCompletions
+      .map(completion => completion.time_spent_seconds)
+      .filter((time): time is number => time !== null);
+    const scores = stepCompletions
+      .map(completion => completion.score)
+      .filter((score): score is number => score !== null);
+
+    return {
+      entity_type,
+      id,
+      name,
+      parent_id,
+      learners_started: learnersStarted,
+      learners_completed: learnersCompleted,
+      drop_off_rate: learnersStarted > 0
+        ? Math.round(((learnersStarted - learnersCompleted) / learnersStarted) * 100)
+        : 0,
+      median_time_seconds: this.median(times),
+      average_score: scores.length > 0
+        ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length)
+        : null,
+    };
+  }
+
+  /**
+   * Counts completion scores in buckets of 10 points; the last bucket includes 100.
+   *
+   * @private
+   */
+  private buildScoreDistribution(completions: CourseLessonCompletion[]): ScoreBucket[] {
+    const buckets: ScoreBucket[] = Array.from({ length: 100 / SCORE_BUCKET_SIZE }, (_, i) => ({
+      min: i * SCORE_BUCKET_SIZE,
+      max: i * SCORE_BUCKET_SIZE + SCORE_BUCKET_SIZE - 1,
+      count: 0,
+    }));
+    buckets[buckets.length - 1]!.max = 100;
+
+    for (const completion of completions) {
+      if (completion.score === null) continue;
+      const index = Math.min(Math.floor(completion.score / SCORE_BUCKET_SIZE), buckets.length - 1);
+      buckets[Math.max(index, 0)]!.count++;
+    }
+
+    return buckets;
+  }
+
+  /**
+   * Records that a learner played a lesson.
+   *
+   * @private
+   */
+  private addLesson(lessonsByLearner: Map<string, Set<string>>, activity: LessonActivity): void {
+    const lessons = lessonsByLearner.get(activity.user_id) ?? new Set<string>();
+    lessons.add(activity.lesson_id);
+    lessonsByLearner.set(activity.user_id, lessons);
+  }
+
+  /**
+   * Middle value of a list of numbers, rounded; null for an empty list.
+   *
+   * @private
+   */
+  private median(values: number[]): number | null {
+    if (values.length === 0) return null;
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1
+      ? sorted[middle]!
+      : Math.round((sorted[middle - 1]! + sorted[middle]!) / 2);
+  }
+}
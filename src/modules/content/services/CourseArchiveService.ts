@@ -0,0 +1,406 @@
+// src/modules/content/services/CourseArchiveService.ts
+
+/**
+ * Course import and export in a portable archive format.
+ *
+ * An archive is a self-describing JSON document that moves a course between environments. It holds
+ * the current (draft) content tree of the course without timestamps, every exercise used by its
+ * lessons, the unlock rules of the course and a manifest of the media the exercises link to by URL
+ * or reference by `media_id`. Media files are not part of the archive. The
+ * `format` and `format_version` fields identify the document, so importers can reject archives they
+ * do not understand. Content in the trash is not exported.
+ *
+ * Imports validate the whole archive up front (see CourseArchiveSchema), check that the uploaded
+ * media the exercises reference exist in this environment with the expected kind (media IDs are
+ * never remapped: upload the files first), look up which of the archive IDs are already taken in
+ * this environment, and then either preserve the archive IDs, failing with a
+ * conflict when any is taken, or remap the taken IDs to new ones generated from the content names
+ * the same way the content endpoints generate them. The course is created in a single transaction
+ * and the importing user becomes its owner. Dry runs report the conflicts and the remapped IDs
+ * without writing anything.
+ *
+ * @module CourseArchiveService
+ * @category Content
+ * @category Services
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const courseArchiveService = new CourseArchiveService(prisma);
+ *
+ * // Export a course from one environment
+ * const archive = await courseArchiveService.exportCourse('spanish-101');
+ *
+ * // Check it against another environment, then import it with new IDs where needed
+ * const report = await courseArchiveService.importCourse(archive, { id_strategy: 'remap', dry_run: true });
+ * const result = await courseArchiveService.importCourse(archive, { id_strategy: 'remap' }, userId);
+ */
+
+import { PrismaClient } from '@prisma/client';
+import {
+  CourseArchiveRepository,
+  CourseRepository,
+  CourseVersionRepository,
+  ExerciseRepository,
+  LessonRepository,
+  LevelRepository,
+  ModuleRepository,
+  SectionRepository,
+  UnlockRuleRepository
+} from '../repositories';
+import {
+  ArchiveConflict,
+  ArchiveIdStrategy,
+  ArchiveMedia,
+  COURSE_ARCHIVE_FORMAT,
+  COURSE_ARCHIVE_FORMAT_VERSION,
+  ContentEntityType,
+  CourseArchive,
+  CourseImportResult,
+  PackagedLevel
+} from '../types';
+import { MediaService } from '../../media/services/mediaService';
+import { MediaRepository } from '../../media/repositories/mediaRepository';
+import { ErrorCodes, HttpStatus } from '../../../shared/types';
+import { AppError } from '../../../shared/middleware/errorHandler';
+import { generateUniqueId, ID_MAX_LENGTHS } from '../../../shared/utils/idGenerator';
+
+const ID_MAX_LENGTH_BY_TYPE: Record<ContentEntityType, number> = {
+  course: ID_MAX_LENGTHS.COURSE,
+  level: ID_MAX_LENGTHS.LEVEL,
+  section: ID_MAX_LENGTHS.SECTION,
+  module: ID_MAX_LENGTHS.MODULE,
+  lesson: ID_MAX_LENGTHS.LESSON,
+  exercise: ID_MAX_LENGTHS.EXERCISE,
+};
+
+// Number of conflicting IDs named in the error message of a failed import
+const CONFLICTS_IN_MESSAGE = 5;
+
+type IdMap = Partial<Record<ContentEntityType, Record<string, string>>>;
+
+type ArchiveExercise = CourseArchive['exercises'][number];
+
+/**
+ * Service for exporting courses to archives and importing archives as new courses.
+ */
+export class CourseArchiveService {
+  private courseArchiveRepository: CourseArchiveRepository;
+  private courseVersionRepository: CourseVersionRepository;
+  private unlockRuleRepository: UnlockRuleRepository;
+  private mediaService: MediaService;
+  private idRepositories: Record<ContentEntityType, { isIdTaken(id: string): Promise<boolean> }>;
+
+  /**
+   * @param {PrismaClient} prisma - Prisma database client for repository initialization
+   */
+  constructor(prisma: PrismaClient) {
+    this.courseArchiveRepository = new CourseArchiveRepository(prisma);
+    this.courseVersionRepository = new CourseVersionRepository(prisma);
+    this.unlockRuleRepository = new UnlockRuleRepository(prisma);
+    this.mediaService = new MediaService(new MediaRepository(prisma));
+    this.idRepositories = {
+      course: new CourseRepository(prisma),
+      level: new LevelRepository(prisma),
+      section: new SectionRepository(prisma),
+      module: new ModuleRepository(prisma),
+      lesson: new LessonRepository(prisma),
+      exercise: new ExerciseRepository(prisma),
+    };
+  }
+
+  /**
+   * Exports the current content of a course as an archive.
+   *
+   * @param {string} courseId - Course to export
+   * @returns {Promise<CourseArchive>} Archive with the course tree, its exercises, unlock rules and media manifest
+   * @throws {AppError} When the course does not exist (404)
+   */
+  async exportCourse(courseId: string): Promise<CourseArchive> {
+    const tree = await this.courseVersionRepository.findCourseTree(courseId);
+    if (!tree) {
+      throw new AppError(`Course with ID '${courseId}' not found`, HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+
+    const { course, levels } = tree.snapshot;
+    const exercises = new Map<string, ArchiveExercise>();
+    const archiveLevels = levels.map((level) => this.toArchiveLevel(level, exercises));
+
+    // Rules on content in the trash are left out, like the content itself
+    const contentIds = new Set(
+      levels.flatMap((level) => [
+        `level:${level.id}`,
+        ...level.sections.flatMap((section) => [
+          `section:${section.id}`,
+          ...section.modules.flatMap((module) => [
+            `module:${module.id}`,
+            ...module.lessons.map((lesson) => `lesson:${lesson.id}`),
+          ]),
+        ]),
+      ])
+    );
+    const rules = await this.unlockRuleRepository.findByCourseId(courseId);
+    const unlockRules = rules
+      .filter((rule) => {
+        const referenceType = rule.rule_type === 'level_exam_passed' ? 'level' : 'lesson';
+        return contentIds.has(`${rule.target_type}:${rule.target_id}`)
+          && (!rule.reference_id || contentIds.has(`${referenceType}:${rule.reference_id}`));
+      })
+      .map((rule) => ({
+        target_type: rule.target_type,
+        target_id: rule.target_id,
+        rule_type: rule.rule_type,
+        ...(rule.reference_id && { reference_id: rule.reference_id }),
+        ...(rule.min_score !== null && { min_score: rule.min_score }),
+        ...(rule.min_experience !== null && { min_experience: rule.min_experience }),
+      }));
+
+    return {
+      format: COURSE_ARCHIVE_FORMAT,
+      format_version: COURSE_ARCHIVE_FORMAT_VERSION,
+      exported_at: new Date().toISOString(),
+      course: {
+        id: course.id,
+        source_language: course.source_language,
+        target_language: course.target_language,
+        name: course.name,
+        ...(course.description && { description: course.description }),
+        is_public: course.is_public,
+      },
+      levels: archiveLevels,
+      exercises: [...exercises.values()],
+      unlock_rules: unlockRules,
+      media: await this.collectMedia([...exercises].map(([id, exercise]) => ({ id, data: exercise.data }))),
+    };
+  }
+
+  /**
+   * Imports an archive as a new course.
+   *
+   * @param {CourseArchive} archive - Validated archive
+   * @param {{ id_strategy?: ArchiveIdStrategy; dry_run?: boolean }} [options] - Whether to preserve or remap taken IDs, and whether to only report
+   * @param {string} [ownerId] - User who becomes the owner of the imported course
+   * @returns {Promise<CourseImportResult>} Imported course ID, conflicts, remapped IDs and content counts
+   * @throws {ZodError} When exercises reference uploaded media missing from this environment or of another kind
+   * @throws {AppError} When IDs are preserved and some are already taken (409)
+   */
+  async importCourse(
+    archive: CourseArchive,
+    options: { id_strategy?: ArchiveIdStrategy; dry_run?: boolean } = {},
+    ownerId?: string
+  ): Promise<CourseImportResult> {
+    const idStrategy = options.id_strategy ?? 'preserve';
+    const dryRun = options.dry_run ?? false;
+
+    await this.mediaService.assertMediaReferences(archive.exercises, ['exercises']);
+    const conflicts = await this.courseArchiveRepository.findTakenIds(this.collectIds(archive));
+
+    let imported = archive;
+    let idMap: IdMap = {};
+    if (idStrategy === 'remap') {
+      idMap = await this.remapIds(archive, conflicts);
+      imported = this.applyIdMap(archive, idMap);
+    } else if (conflicts.length > 0 && !dryRun) {
+      const named = conflicts.slice(0, CONFLICTS_IN_MESSAGE).map((conflict) => `${conflict.entity_type} '${conflict.id}'`);
+      const more = conflicts.length > CONFLICTS_IN_MESSAGE ? ` and ${conflicts.length - CONFLICTS_IN_MESSAGE} more` : '';
+      throw new AppError(
+        `Archive IDs already exist: ${named.join(', ')}${more}. Import with id_strategy=remap to assign new IDs`,
+        HttpStatus.CONFLICT,
+        ErrorCodes.CONFLICT
+      );
+    }
+
+    if (!dryRun) {
+      await this.courseArchiveRepository.importCourse(imported, ownerId);
+    }
+
+    const sections = archive.levels.flatMap((level) => level.sections);
+    const modules = sections.flatMap((section) => section.modules);
+    return {
+      course_id: imported.course.id,
+      id_strategy: idStrategy,
+      dry_run: dryRun,
+      conflicts,
+      id_map: idMap,
+      counts: {
+        levels: archive.levels.length,
+        sections: sections.length,
+        modules: modules.length,
+        lessons: modules.reduce((total, module) => total + module.lessons.length, 0),
+        exercises: archive.exercises.length,
+        unlock_rules: archive.unlock_rules.length,
+      },
+    };
+  }
+
+  private toArchiveLevel(level: PackagedLevel, exercises: Map<string, ArchiveExercise>): CourseArchive['levels'][number] {
+    return {
+      id: level.id,
+      code: level.code,
+      name: level.name,
+      order: level.order,
+      sections: level.sections.map((section) => ({
+        id: section.id,
+        name: section.name,
+        order: section.order,
+        modules: section.modules.map((module) => ({
+          id: module.id,
+          module_type: module.module_type,
+          name: module.name,
+          order: module.order,
+          lessons: module.lessons.map((lesson) => ({
+            id: lesson.id,
+            name: lesson.name,
+            ...(lesson.description && { description: lesson.description }),
+            experience_points: lesson.experience_points,
+            order: lesson.order,
+            exercises: lesson.exercises.map((assignment) => {
+              // Course trees keep the database exercise type names, archives use the API names
+              exercises.set(assignment.exercise_id, {
+                id: assignment.exercise_id,
+                exercise_type: assignment.exercise.exercise_type.replace(/_/g, '-'),
+                data: assignment.exercise.data,
+              } as ArchiveExercise);
+              return { exercise_id: assignment.exercise_id, order: assignment.order };
+            }),
+          })),
+        })),
+      })),
+    };
+  }
+
+  /**
+   * Lists the media URLs linked by exercise data, such as the media of informative exercises, and
+   * the uploaded media referenced by `media_id`. References to deleted uploads are left out.
+   */
+  private async collectMedia(exercises: { id: string; data: unknown }[]): Promise<ArchiveMedia[]> {
+    const media = new Map<string, ArchiveMedia>();
+
+    const visit = (value: unknown, exerciseId: string): void => {
+      if (Array.isArray(value)) {
+        value.forEach((item) => visit(item, exerciseId));
+        return;
+      }
+      if (!value || typeof value !== 'object') {
+        return;
+      }
+
+      const record = value as Record<string, unknown>;
+      if (typeof record['url'] === 'string') {
+        const type = ['image', 'video', 'audio'].includes(record['type'] as string)
+          ? (record['type'] as ArchiveMedia['type'])
+          : null;
+        const entry = media.get(record['url']) ?? { url: record['url'], type, exercise_ids: [] };
+        if (!entry.exercise_ids.includes(exerciseId)) {
+          entry.exercise_ids.push(exerciseId);
+        }
+        media.set(record['url'], entry);
+      }
+      Object.values(record).forEach((child) => visit(child, exerciseId));
+    };
+
+    exercises.forEach((exercise) => visit(exercise.data, exercise.id));
+
+    const uploads = await this.mediaService.getManifest(exercises);
+    return [
+      ...media.values(),
+      ...uploads.map((asset) => ({ media_id: asset.id, type: asset.kind, exercise_ids: asset.exercise_ids })),
+    ];
+  }
+
+  private collectIds(archive: CourseArchive): Record<ContentEntityType, string[]> {
+    const sections = archive.levels.flatMap((level) => level.sections);
+    const modules = sections.flatMap((section) => section.modules);
+    return {
+      course: [archive.course.id],
+      level: archive.levels.map((level) => level.id),
+      section: sections.map((section) => section.id),
+      module: modules.map((module) => module.id),
+      lesson: modules.flatMap((module) => module.lessons.map((lesson) => lesson.id)),
+      exercise: archive.exercises.map((exercise) => exercise.id),
+    };
+  }
+
+  /**
+   * Generates new IDs for the taken archive IDs. Content is named after its name, like content
+   * created through the API; exercises have no name and keep their ID with a numeric suffix.
+   */
+  private async remapIds(archive: CourseArchive, conflicts: ArchiveConflict[]): Promise<IdMap> {
+    const ids = this.collectIds(archive);
+    const names = new Map<string, string>([[`course:${archive.course.id}`, archive.course.name]]);
+    for (const level of archive.levels) {
+      names.set(`level:${level.id}`, level.name);
+      for (const section of level.sections) {
+        names.set(`section:${section.id}`, section.name);
+        for (const module of section.modules) {
+          names.set(`module:${module.id}`, module.name);
+          for (const lesson of module.lessons) {
+            names.set(`lesson:${lesson.id}`, lesson.name);
+          }
+        }
+      }
+    }
+
+    // New IDs must not collide with other archive IDs either
+    const claimed = Object.fromEntries(
+      Object.entries(ids).map(([entityType, entityIds]) => [entityType, new Set(entityIds)])
+    ) as Record<ContentEntityType, Set<string>>;
+
+    const idMap: IdMap = {};
+    for (const conflict of conflicts) {
+      const { entity_type: entityType, id } = conflict;
+      const newId = await generateUniqueId(
+        names.get(`${entityType}:${id}`) ?? id,
+        ID_MAX_LENGTH_BY_TYPE[entityType],
+        async (candidate: string) =>
+          claimed[entityType].has(candidate) || await this.idRepositories[entityType].isIdTaken(candidate)
+      );
+
+      claimed[entityType].add(newId);
+      idMap[entityType] = { ...idMap[entityType], [id]: newId };
+    }
+
+    return idMap;
+  }
+
+  private applyIdMap(archive: CourseArchive, idMap: IdMap): CourseArchive {
+    const mapId = (entityType: ContentEntityType, id: string): string => idMap[entityType]?.[id] ?? id;
+
+    return {
+      ...archive,
+      course: { ...archive.course, id: mapId('course', archive.course.id) },
+      levels: archive.levels.map((level) => ({
+        ...level,
+        id: mapId('level', level.id),
+        sections: level.sections.map((section) => ({
+          ...section,
+          id: mapId('section', section.id),
+          modules: section.modules.map((module) => ({
+            ...module,
+            id: mapId('module', module.id),
+            lessons: module.lessons.map((lesson) => ({
+              ...lesson,
+              id: mapId('lesson', lesson.id),
+              exercises: lesson.exercises.map((assignment) => ({
+                ...assignment,
+                exercise_id: mapId('exercise', assignment.exercise_id),
+              })),
+            })),
+          })),
+        })),
+      })),
+      exercises: archive.exercises.map((exercise) => ({ ...exercise, id: mapId('exercise', exercise.id) })),
+      unlock_rules: archive.unlock_rules.map((rule) => ({
+        ...rule,
+        target_id: mapId(rule.target_type, rule.target_id),
+        ...(rule.reference_id && {
+          reference_id: mapId(rule.rule_type === 'level_exam_passed' ? 'level' : 'lesson', rule.reference_id),
+        }),
+      })),
+      media: archive.media.map((entry) => ({
+        ...entry,
+        exercise_ids: entry.exercise_ids.map((exerciseId) => mapId('exercise', exerciseId)),
+      })),
+    };
+  }
+}
@@ -0,0 +1,286 @@
+// src/modules/content/services/CourseCollaboratorService.ts
+
+/**
+ * Per-course roles for content creators.
+ *
+ * The global `content_creator` role only allows a user to create courses. Access to an existing
+ * course comes from a role in that course, from least to most privileged:
+ *
+ * - `viewer` can browse the draft and the published versions of the course
+ * - `reviewer` can also publish the draft as a new version
+ * - `editor` can also change the content of the course and roll it back
+ * - `owner` can also invite collaborators, change their roles and remove them
+ *
+ * The creator of a course becomes its owner. Other users join a course by invitation: owners invite
+ * users by email, and the role applies once the invited user accepts. A course always keeps at least
+ * one owner. Admins have every role in every course.
+ *
+ * @module CourseCollaboratorService
+ * @category Content
+ * @category Services
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const courseCollaboratorService = new CourseCollaboratorService(prisma);
+ *
+ * // Invite a content creator to edit a course
+ * await courseCollaboratorService.invite('spanish-101', ownerId, { email: 'ana@example.com', role: 'editor' });
+ *
+ * // The invited user accepts
+ * await courseCollaboratorService.acceptInvitation(anaId, 'spanish-101');
+ *
+ * // Check access to a lesson of the course
+ * const courseId = await courseCollaboratorService.resolveCourseId({ lessonId: 'lesson-1' });
+ * const canEdit = await courseCollaboratorService.hasCourseRole(anaId, courseId!, 'editor');
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { CourseCollaboratorRepository, CourseRepository, UnlockRuleRepository } from '../repositories';
+import { CourseCollaborator, CourseInvitation, CourseRole, InviteCollaboratorDto } from '../types';
+import { AppError } from '../../../shared/middleware/errorHandler';
+import { ErrorCodes, HttpStatus } from '../../../shared/types';
+import { logger } from '../../../shared/utils/logger';
+
+/**
+ * Rank of each course role, higher ranks include the permissions of lower ones
+ */
+export const COURSE_ROLE_RANK: Record<CourseRole, number> = {
+  viewer: 1,
+  reviewer: 2,
+  editor: 3,
+  owner: 4,
+};
+
+/**
+ * Route parameters a course can be resolved from, in order of precedence. A plain `id` is only
+ * used when no other parameter is present, since it names the child resource on nested routes.
+ */
+export interface CourseRouteParams {
+  courseId?: string | undefined;
+  levelId?: string | undefined;
+  sectionId?: string | undefined;
+  moduleId?: string | undefined;
+  lessonId?: string | undefined;
+  id?: string | undefined;
+}
+
+/**
+ * Service for course ownership, collaborator roles and invitations.
+ *
+ * @class CourseCollaboratorService
+ */
+export class CourseCollaboratorService {
+  private courseCollaboratorRepository: CourseCollaboratorRepository;
+  private courseRepository: CourseRepository;
+  private unlockRuleRepository: UnlockRuleRepository;
+
+  /**
+   * Creates a new CourseCollaboratorService instance.
+   *
+   * @param {PrismaClient} prisma - Prisma database client
+   */
+  constructor(prisma: PrismaClient) {
+    this.courseCollaboratorRepository = new CourseCollaboratorRepository(prisma);
+    this.courseRepository = new CourseRepository(prisma);
+    this.unlockRuleRepository = new UnlockRuleRepository(prisma);
+  }
+
+  /**
+   * Resolves the course a request targets from its route parameters.
+   *
+   * @param {CourseRouteParams} params - Route parameters
+   * @returns {Promise<string | null>} The course ID, or null when the course or content does not exist
+   */
+  async resolveCourseId(params: CourseRouteParams): Promise<string | null> {
+    if (params.courseId) {
+      return await this.findExistingCourse(params.courseId);
+    }
+    if (params.levelId) {
+      return await this.unlockRuleRepository.findTargetCourseId('level', params.levelId);
+    }
+    if (params.sectionId) {
+      return await this.unlockRuleRepository.findTargetCourseId('section', params.sectionId);
+    }
+    if (params.moduleId) {
+      return await this.unlockRuleRepository.findTargetCourseId('module', params.moduleId);
+    }
+    if (params.lessonId) {
+      return await this.unlockRuleRepository.findTargetCourseId('lesson', params.lessonId);
+    }
+    if (params.id) {
+      return await this.findExistingCourse(params.id);
+    }
+    return null;
+  }
+
+  /**
+   * Checks whether a user has at least a role in a course.
+   *
+   * @param {string} userId - User ID
+   * @param {string} courseId - Course ID
+   * @param {CourseRole} minRole - Least privileged role that grants access
+   * @returns {Promise<boolean>} True when the user has accepted a role ranked at least as high
+   */
+  async hasCourseRole(userId: string, courseId: string, minRole: CourseRole): Promise<boolean> {
+    const role = await this.courseCollaboratorRepository.findRole(courseId, userId);
+    return role !== null && COURSE_ROLE_RANK[role] >= COURSE_ROLE_RANK[minRole];
+  }
+
+  /**
+   * Checks whether a user has at least a role in every course using an exercise. Exercises are
+   * shared between courses, so changing one changes each course that uses it. Exercises no course
+   * uses yet belong to the shared exercise bank and need no course role.
+   *
+   * @param {string} userId - User ID
+   * @param {string} exerciseId - Exercise ID
+   * @param {CourseRole} minRole - Least privileged role that grants access
+   * @returns {Promise<boolean>} True when the user has a role ranked at least as high in every course using the exercise
+   */
+  async hasRoleInExerciseCourses(userId: string, exerciseId: string, minRole: CourseRole): Promise<boolean> {
+    const courseIds = await this.courseRepository.findIdsUsingExercise(exerciseId);
+    for (const courseId of courseIds) {
+      if (!(await this.hasCourseRole(userId, courseId, minRole))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Lists the collaborators of a course, including pending invitations.
+   *
+   * @param {string} courseId - Course ID
+   * @returns {Promise<CourseCollaborator[]>} Collaborators in the order they were added
+   */
+  async getCollaborators(courseId: string): Promise<CourseCollaborator[]> {
+    return await this.courseCollaboratorRepository.findByCourseId(courseId);
+  }
+
+  /**
+   * Invites a user to a course. The role applies once the user accepts.
+   *
+   * @param {string} courseId - Course ID
+   * @param {string} invitedBy - ID of the inviting user
+   * @param {InviteCollaboratorDto} data - Email of the user to invite and the role to give them
+   * @returns {Promise<CourseCollaborator>} The pending invitation
+   * @throws {AppError} When no active user has the email (404) or the user is already a collaborator or invited (409)
+   */
+  async invite(courseId: string, invitedBy: string, data: InviteCollaboratorDto): Promise<CourseCollaborator> {
+    const userId = await this.courseCollaboratorRepository.findActiveUserIdByEmail(data.email);
+    if (!userId) {
+      throw new AppError('User not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+
+    const existing = await this.courseCollaboratorRepository.find(courseId, userId);
+    if (existing) {
+      throw new AppError(
+        existing.accepted_at ? 'User is already a collaborator on this course' : 'User has already been invited to this course',
+        HttpStatus.CONFLICT,
+        ErrorCodes.CONFLICT
+      );
+    }
+
+    const invitation = await this.courseCollaboratorRepository.create(courseId, userId, data.role, invitedBy);
+    logger.info('Course collaborator invited', { courseId, userId, role: data.role, invitedBy });
+
+    return invitation;
+  }
+
+  /**
+   * Changes the role of a collaborator or pending invitation.
+   *
+   * @param {string} courseId - Course ID
+   * @param {string} userId - Collaborator user ID
+   * @param {CourseRole} role - New role
+   * @returns {Promise<CourseCollaborator>} The updated collaborator
+   * @throws {AppError} When the user is not a collaborator (404) or is the last owner (409)
+   */
+  async updateRole(courseId: string, userId: string, role: CourseRole): Promise<CourseCollaborator> {
+    const collaborator = await this.findCollaborator(courseId, userId);
+    if (role !== 'owner') {
+      await this.assertNotLastOwner(collaborator);
+    }
+
+    return await this.courseCollaboratorRepository.updateRole(courseId, userId, role);
+  }
+
+  /**
+   * Removes a collaborator from a course or withdraws an invitation.
+   *
+   * @param {string} courseId - Course ID
+   * @param {string} userId - Collaborator user ID
+   * @throws {AppError} When the user is not a collaborator (404) or is the last owner (409)
+   */
+  async removeCollaborator(courseId: string, userId: string): Promise<void> {
+    const collaborator = await this.findCollaborator(courseId, userId);
+    await this.assertNotLastOwner(collaborator);
+
+    await this.courseCollaboratorRepository.delete(courseId, userId);
+    logger.info('Course collaborator removed', { courseId, userId });
+  }
+
+  /**
+   * Lists the pending invitations of a user.
+   *
+   * @param {string} userId - User ID
+   * @returns {Promise<CourseInvitation[]>} Invitations, newest first
+   */
+  async getInvitations(userId: string): Promise<CourseInvitation[]> {
+    return await this.courseCollaboratorRepository.findInvitationsByUserId(userId);
+  }
+
+  /**
+   * Accepts an invitation, giving the user the invited role in the course.
+   *
+   * @param {string} userId - Invited user ID
+   * @param {string} courseId - Course ID
+   * @returns {Promise<CourseCollaborator>} The collaborator
+   * @throws {AppError} When the user has no pending invitation to the course (404)
+   */
+  async acceptInvitation(userId: string, courseId: string): Promise<CourseCollaborator> {
+    const accepted = await this.courseCollaboratorRepository.acceptInvitation(courseId, userId);
+    if (!accepted) {
+      throw new AppError('Invitation not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+
+    return await this.findCollaborator(courseId, userId);
+  }
+
+  /**
+   * Declines an invitation.
+   *
+   * @param {string} userId - Invited user ID
+   * @param {string} courseId - Course ID
+   * @throws {AppError} When the user has no pending invitation to the course (404)
+   */
+  async declineInvitation(userId: string, courseId: string): Promise<void> {
+    const declined = await this.courseCollaboratorRepository.deleteInvitation(courseId, userId);
+    if (!declined) {
+      throw new AppError('Invitation not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+  }
+
+  private async findExistingCourse(courseId: string): Promise<string | null> {
+    return (await this.courseRepository.exists(courseId)) ? courseId : null;
+  }
+
+  private async findCollaborator(courseId: string, userId: string): Promise<CourseCollaborator> {
+    const collaborator = await this.courseCollaboratorRepository.find(courseId, userId);
+    if (!collaborator) {
+      throw new AppError('Collaborator not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+    return collaborator;
+  }
+
+  private async assertNotLastOwner(collaborator: CourseCollaborator): Promise<void> {
+    if (collaborator.role !== 'owner' || !collaborator.accepted_at) {
+      return;
+    }
+
+    const owners = await this.courseCollaboratorRepository.countOwners(collaborator.course_id);
+    if (owners <= 1) {
+      throw new AppError('A course must keep at least one owner', HttpStatus.CONFLICT, ErrorCodes.CONFLICT);
+    }
+  }
+}
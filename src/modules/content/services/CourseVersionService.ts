@@ -0,0 +1,309 @@
+// src/modules/content/services/CourseVersionService.ts
+
+/**
+ * Draft and publish workflow for courses.
+ *
+ * Content creators edit the draft of a course: every create, update, delete and reorder through
+ * the content services changes the draft immediately. Learners never see the draft. Publishing a
+ * course snapshots its whole hierarchy (course, levels, sections, modules, lessons, exercise
+ * assignments and exercise data) into an immutable, numbered version, and packaged course delivery
+ * and incremental sync always serve the latest published version.
+ *
+ * Versions can be compared with each other or with the current draft, and a course can be rolled
+ * back to a previous version. Rolling back restores the draft to the snapshot of that version and
+ * publishes it as a new version, so the version history is never rewritten and offline clients
+ * receive the rollback as regular changes.
+ *
+ * @module CourseVersionService
+ * @category Content
+ * @category Services
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const courseVersionService = new CourseVersionService(prisma);
+ *
+ * // Publish the current draft
+ * const version = await courseVersionService.publish('spanish-101', userId, { notes: 'Added A2 level' });
+ *
+ * // Compare version 1 with the current draft
+ * const diff = await courseVersionService.diff('spanish-101', 1);
+ *
+ * // Restore version 1 and publish it again
+ * await courseVersionService.rollback('spanish-101', 1, userId);
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { CourseRepository, CourseVersionRepository } from '../repositories';
+import {
+  ContentChangeInput,
+  ContentEntityType,
+  CourseSnapshot,
+  CourseVersion,
+  CourseVersionDetail,
+  CourseVersionDiff,
+  PublishCourseDto,
+  VersionDiffEntry
+} from '../types';
+import { AppError } from '../../../shared/middleware/errorHandler';
+import { ErrorCodes, HttpStatus } from '../../../shared/types';
+import { cacheService, CACHE_KEYS } from '../../../shared/utils';
+import { ContentChangeService } from './ContentChangeService';
+
+interface SnapshotEntity {
+  entity_type: ContentEntityType;
+  entity_id: string;
+  fields: Record<string, unknown>;
+}
+
+/**
+ * Service for publishing, comparing and rolling back course versions.
+ *
+ * @class CourseVersionService
+ */
+export class CourseVersionService {
+  private courseVersionRepository: CourseVersionRepository;
+  private courseRepository: CourseRepository;
+  private contentChangeService: ContentChangeService;
+
+  /**
+   * Creates a new CourseVersionService instance.
+   *
+   * @param {PrismaClient} prisma - Prisma database client
+   */
+  constructor(prisma: PrismaClient) {
+    this.courseVersionRepository = new CourseVersionRepository(prisma);
+    this.courseRepository = new CourseRepository(prisma);
+    this.contentChangeService = new ContentChangeService(prisma);
+  }
+
+  /**
+   * Snapshots the current draft of a course into a new published version.
+   *
+   * @param {string} courseId - Course identifier
+   * @param {string | undefined} userId - User publishing the course
+   * @param {PublishCourseDto} data - Optional release notes
+   * @returns {Promise<CourseVersion>} The published version
+   * @throws {AppError} When the course does not exist (404)
+   */
+  async publish(courseId: string, userId: string | undefined, data: PublishCourseDto = {}): Promise<CourseVersion> {
+    const draft = await this.courseVersionRepository.findCourseTree(courseId);
+    if (!draft) {
+      throw new AppError(`Course with ID '${courseId}' not found`, HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+
+    const version = await this.courseVersionRepository.create(courseId, {
+      revision: draft.revision,
+      snapshot: draft.snapshot,
+      notes: data.notes,
+      published_by: userId
+    });
+
+    // Packaged course delivery switches to the new version
+    await cacheService.delete(CACHE_KEYS.PACKAGED_COURSE(courseId));
+
+    return version;
+  }
+
+  /**
+   * Lists the published versions of a course, newest first, without their snapshots.
+   *
+   * @param {string} courseId - Course identifier
+   * @returns {Promise<CourseVersion[]>} Published versions
+   * @throws {AppError} When the course does not exist (404)
+   */
+  async getVersions(courseId: string): Promise<CourseVersion[]> {
+    const courseExists = await this.courseRepository.exists(courseId);
+    if (!courseExists) {
+      throw new AppError(`Course with ID '${courseId}' not found`, HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+
+    return await this.courseVersionRepository.findByCourseId(courseId);
+  }
+
+  /**
+   * Retrieves a published version of a course with its snapshot.
+   *
+   * @param {string} courseId - Course identifier
+   * @param {number} version - Version number
+   * @returns {Promise<CourseVersionDetail>} The version and its snapshot
+   * @throws {AppError} When the version does not exist (404)
+   */
+  async getVersion(courseId: string, version: number): Promise<CourseVersionDetail> {
+    const courseVersion = await this.courseVersionRepository.findByVersion(courseId, version);
+    if (!courseVersion) {
+      throw new AppError(
+        `Version ${version} of course '${courseId}' not found`,
+        HttpStatus.NOT_FOUND,
+        ErrorCodes.NOT_FOUND
+      );
+    }
+
+    return courseVersion;
+  }
+
+  /**
+   * Retrieves the latest published version of a course, which is the version delivered to learners.
+   *
+   * @param {string} courseId - Course identifier
+   * @returns {Promise<CourseVersionDetail>} The latest version and its snapshot
+   * @throws {AppError} When the course does not exist or has not been published (404)
+   */
+  async getPublishedVersion(courseId: string): Promise<CourseVersionDetail> {
+    const published = await this.courseVersionRepository.findLatest(courseId);
+    if (!published) {
+      const courseExists = await this.courseRepository.exists(courseId);
+      throw new AppError(
+        courseExists
+          ? `Course with ID '${courseId}' has not been published yet`
+          : `Course with ID '${courseId}' not found`,
+        HttpStatus.NOT_FOUND,
+        ErrorCodes.NOT_FOUND
+      );
+    }
+
+    return published;
+  }
+
+  /**
+   * Compares a published version with another version or, when none is given, with the current draft.
+   *
+   * @param {string} courseId - Course identifier
+   * @param {number} version - Version to compare from
+   * @param {number} [against] - Version to compare to; the current draft when omitted
+   * @returns {Promise<CourseVersionDiff>} Content added, removed or modified between both
+   * @throws {AppError} When a version or the course does not exist (404)
+   */
+  async diff(courseId: string, version: number, against?: number): Promise<CourseVersionDiff> {
+    const from = await this.getVersion(courseId, version);
+    const to = against !== undefined
+      ? (await this.getVersion(courseId, against)).snapshot
+      : await this.getDraft(courseId);
+
+    return {
+      course_id: courseId,
+      from: version,
+      to: against ?? 'draft',
+      changes: this.diffSnapshots(from.snapshot, to)
+    };
+  }
+
+  /**
+   * Restores the draft of a course to a published version and publishes it as a new version.
+   *
+   * Content added after the version is deleted, content removed since is recreated and modified
+   * content is restored. The restored content is recorded as changed so offline clients pick up
+   * the rollback through incremental sync.
+   *
+   * @param {string} courseId - Course identifier
+   * @param {number} version - Version to roll back to
+   * @param {string | undefined} userId - User performing the rollback
+   * @returns {Promise<CourseVersion>} The new version holding the restored content
+   * @throws {AppError} When the version or the course does not exist (404)
+   */
+  async rollback(courseId: string, version: number, userId: string | undefined): Promise<CourseVersion> {
+    const target = await this.getVersion(courseId, version);
+    const draft = await this.getDraft(courseId);
+
+    await this.courseVersionRepository.restoreCourseTree(courseId, target.snapshot);
+
+    const changes: ContentChangeInput[] = this.diffSnapshots(draft, target.snapshot).map(entry => ({
+      entity_type: entry.entity_type,
+      entity_id: entry.entity_id,
+      operation: entry.change === 'removed' ? 'delete' : 'upsert'
+    }));
+    await this.contentChangeService.recordChanges(courseId, changes);
+
+    return await this.publish(courseId, userId, { notes: `Rollback to version ${version}` });
+  }
+
+  private async getDraft(courseId: string): Promise<CourseSnapshot> {
+    const draft = await this.courseVersionRepository.findCourseTree(courseId);
+    if (!draft) {
+      throw new AppError(`Course with ID '${courseId}' not found`, HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+
+    return draft.snapshot;
+  }
+
+  /**
+   * Lists the entities added, removed or modified from one snapshot to another, in course order.
+   * Timestamps are ignored, as restoring or republishing content changes them without changing the content.
+   */
+  private diffSnapshots(from: CourseSnapshot, to: CourseSnapshot): VersionDiffEntry[] {
+    const fromEntities = this.flattenSnapshot(from);
+    const toEntities = this.flattenSnapshot(to);
+    const changes: VersionDiffEntry[] = [];
+
+    for (const [key, entity] of toEntities) {
+      const previous = fromEntities.get(key);
+      if (!previous) {
+        changes.push({ entity_type: entity.entity_type, entity_id: entity.entity_id, change: 'added', fields: [] });
+        continue;
+      }
+
+      const fields = Object.keys(entity.fields).filter(
+        field => JSON.stringify(entity.fields[field]) !== JSON.stringify(previous.fields[field])
+      );
+      if (fields.length > 0) {
+        changes.push({ entity_type: entity.entity_type, entity_id: entity.entity_id, change: 'modified', fields });
+      }
+    }
+
+    for (const [key, entity] of fromEntities) {
+      if (!toEntities.has(key)) {
+        changes.push({ entity_type: entity.entity_type, entity_id: entity.entity_id, change: 'removed', fields: [] });
+      }
+    }
+
+    return changes;
+  }
+
+  private flattenSnapshot(snapshot: CourseSnapshot): Map<string, SnapshotEntity> {
+    const entities = new Map<string, SnapshotEntity>();
+    const add = (entity_type: ContentEntityType, entity_id: string, fields: Record<string, unknown>): void => {
+      entities.set(`${entity_type}:${entity_id}`, { entity_type, entity_id, fields });
+    };
+
+    const { course } = snapshot;
+    add('course', course.id, {
+      name: course.name,
+      description: course.description,
+      source_language: course.source_language,
+      target_language: course.target_language
+    });
+
+    for (const level of snapshot.levels) {
+      add('level', level.id, { code: level.code, name: level.name, order: level.order });
+      for (const section of level.sections) {
+        add('section', section.id, { level_id: section.level_id, name: section.name, order: section.order });
+        for (const module of section.modules) {
+          add('module', module.id, {
+            section_id: module.section_id,
+            module_type: module.module_type,
+            name: module.name,
+            order: module.order
+          });
+          for (const lesson of module.lessons) {
+            add('lesson', lesson.id, {
+              module_id: lesson.module_id,
+              name: lesson.name,
+              description: lesson.description ?? null,
+              experience_points: lesson.experience_points,
+              order: lesson.order,
+              exercises: lesson.exercises.map(assignment => ({ exercise_id: assignment.exercise_id, order: assignment.order }))
+            });
+            for (const assignment of lesson.exercises) {
+              add('exercise', assignment.exercise_id, {
+                exercise_type: assignment.exercise.exercise_type,
+                data: assignment.exercise.data
+              });
+            }
+          }
+        }
+      }
+    }
+
+    return entities;
+  }
+}
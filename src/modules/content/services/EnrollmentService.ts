@@ -0,0 +1,284 @@
+// src/modules/content/services/EnrollmentService.ts
+
+/**
+ * Course enrollment for learners.
+ *
+ * Learners join a course by enrolling in it. Public courses are open to everyone, while private
+ * courses can only be joined with the course's invite code, which owners create, rotate and disable.
+ * Learners who complete a lesson of a public course they have not joined are enrolled automatically.
+ * Private courses can only be read and played by their enrolled learners, their collaborators and admins.
+ *
+ * Each enrollment keeps the learner's position in the course: the current lesson is the first
+ * lesson, in course order, that the learner has not completed yet. Once every lesson is completed the
+ * enrollment is marked as completed. The position is updated whenever the learner completes a lesson.
+ * Unenrolling removes the enrollment but keeps the learner's lesson completions, so the position is
+ * restored when the learner joins again.
+ *
+ * @module EnrollmentService
+ * @category Content
+ * @category Services
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const enrollmentService = new EnrollmentService(prisma);
+ *
+ * // The owner shares a private course
+ * const { invite_code } = await enrollmentService.rotateInviteCode('spanish-101');
+ *
+ * // A learner joins it with the code
+ * await enrollmentService.enroll(learnerId, 'spanish-101', invite_code!);
+ *
+ * // The learner's courses with their progress
+ * const courses = await enrollmentService.getEnrolledCourses(learnerId);
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { EnrollmentRepository } from '../repositories';
+import { EnrollmentPosition } from '../repositories/EnrollmentRepository';
+import { CourseInviteCode, EnrolledCourse, Enrollment, EnrollmentStatus } from '../types';
+import { AppError } from '../../../shared/middleware/errorHandler';
+import { ErrorCodes, HttpStatus, JWTPayload } from '../../../shared/types';
+import { base32Encode } from '../../../shared/utils/totp';
+import { logger } from '../../../shared/utils/logger';
+
+/**
+ * Invite codes are 10 base32 characters, compared without regard to case
+ */
+const generateInviteCode = (): string => base32Encode(randomBytes(7)).slice(0, 10);
+
+/**
+ * Service for learner enrollments and course invite codes.
+ *
+ * @class EnrollmentService
+ */
+export class EnrollmentService {
+  private enrollmentRepository: EnrollmentRepository;
+
+  /**
+   * Creates a new EnrollmentService instance.
+   *
+   * @param {PrismaClient} prisma - Prisma database client
+   */
+  constructor(prisma: PrismaClient) {
+    this.enrollmentRepository = new EnrollmentRepository(prisma);
+  }
+
+  /**
+   * Enrolls a learner in a course. Enrolling again returns the existing enrollment.
+   *
+   * @param {string} userId - Learner ID
+   * @param {string} courseId - Course ID
+   * @param {string} [inviteCode] - Invite code, required for private courses
+   * @returns {Promise<{ enrollment: Enrollment; created: boolean }>} The enrollment and whether it was created
+   * @throws {AppError} When the course does not exist (404) or is private and the invite code is missing or wrong (403)
+   */
+  async enroll(userId: string, courseId: string, inviteCode?: string): Promise<{ enrollment: Enrollment; created: boolean }> {
+    const course = await this.enrollmentRepository.findCourse(courseId);
+    if (!course) {
+      throw new AppError('Course not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+
+    const existing = await this.enrollmentRepository.find(userId, courseId);
+    if (existing) {
+      return { enrollment: existing, created: false };
+    }
+
+    if (!course.is_public && (!course.invite_code || inviteCode?.toUpperCase() !== course.invite_code)) {
+      throw new AppError(
+        'A valid invite code is required to join this course',
+        HttpStatus.FORBIDDEN,
+        ErrorCodes.AUTHORIZATION_ERROR
+      );
+    }
+
+    const position = await this.findPosition(userId, courseId);
+    const enrollment = await this.enrollmentRepository.create(userId, courseId, position);
+    logger.info('Learner enrolled in course', { userId, courseId });
+
+    return { enrollment, created: true };
+  }
+
+  /**
+   * Removes a learner from a course. Lesson completions are kept.
+   *
+   * @param {string} userId - Learner ID
+   * @param {string} courseId - Course ID
+   * @throws {AppError} When the learner is not enrolled in the course (404)
+   */
+  async unenroll(userId: string, courseId: string): Promise<void> {
+    const deleted = await this.enrollmentRepository.delete(userId, courseId);
+    if (!deleted) {
+      throw new AppError('Enrollment not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+
+    logger.info('Learner unenrolled from course', { userId, courseId });
+  }
+
+  /**
+   * Lists the courses a learner is enrolled in with their progress, most recently joined first.
+   *
+   * @param {string} userId - Learner ID
+   * @param {EnrollmentStatus} [status] - Only list active or only list completed enrollments
+   * @returns {Promise<EnrolledCourse[]>} Enrolled courses with completed and total lesson counts
+   */
+  async getEnrolledCourses(userId: string, status?: EnrollmentStatus): Promise<EnrolledCourse[]> {
+    const enrollments = await this.enrollmentRepository.findByUserId(userId, status);
+    if (enrollments.length === 0) {
+      return [];
+    }
+
+    const lessonIdsByCourse = await this.enrollmentRepository.findLessonIdsByCourse(
+      enrollments.map(enrollment => enrollment.course_id)
+    );
+    const completed = await this.enrollmentRepository.findCompletedLessonIds(
+      userId,
+      [...lessonIdsByCourse.values()].flat()
+    );
+
+    return enrollments.map(enrollment => {
+      const lessonIds = lessonIdsByCourse.get(enrollment.course_id) ?? [];
+      const lessonsCompleted = lessonIds.filter(lessonId => completed.has(lessonId)).length;
+
+      return {
+        ...enrollment,
+        lessons_completed: lessonsCompleted,
+        total_lessons: lessonIds.length,
+        progress_percentage: lessonIds.length > 0 ? Math.round((lessonsCompleted / lessonIds.length) * 100) : 0,
+      };
+    });
+  }
+
+  /**
+   * Checks whether a user may read a course. Public courses can be read by everyone, private
+   * courses only by their enrolled learners, their collaborators and admins.
+   *
+   * @param {string} courseId - Course ID
+   * @param {Pick<JWTPayload, 'sub' | 'role'>} [user] - Authenticated user, if any
+   * @returns {Promise<boolean>} True when the course exists and the user may read it
+   */
+  async canReadCourse(courseId: string, user?: Pick<JWTPayload, 'sub' | 'role'>): Promise<boolean> {
+    const course = await this.enrollmentRepository.findCourse(courseId);
+    if (!course) {
+      return false;
+    }
+
+    if (course.is_public || user?.role === 'admin') {
+      return true;
+    }
+
+    return !!user && await this.enrollmentRepository.isMember(user.sub, courseId);
+  }
+
+  /**
+   * Checks whether a learner may complete a lesson, which requires being able to read its course.
+   *
+   * @param {string} userId - Learner ID
+   * @param {string} lessonId - Lesson ID
+   * @returns {Promise<boolean>} True when the learner may read the course of the lesson
+   */
+  async canPlayLesson(userId: string, lessonId: string): Promise<boolean> {
+    const [courseId] = await this.enrollmentRepository.findCourseIdsByLessonIds([lessonId]);
+    if (!courseId) {
+      return false;
+    }
+
+    const role = await this.enrollmentRepository.findUserRole(userId);
+    return await this.canReadCourse(courseId, role ? { sub: userId, role } : undefined);
+  }
+
+  /**
+   * Moves learners forward in the courses of the lessons they completed. Learners who are not
+   * enrolled in a public course yet are enrolled; private courses must be joined explicitly.
+   *
+   * @param {string} userId - Learner ID
+   * @param {string[]} lessonIds - IDs of the lessons just completed
+   */
+  async recordLessonCompletions(userId: string, lessonIds: string[]): Promise<void> {
+    if (lessonIds.length === 0) {
+      return;
+    }
+
+    const courseIds = await this.enrollmentRepository.findCourseIdsByLessonIds(lessonIds);
+    for (const courseId of courseIds) {
+      const enrollment = await this.enrollmentRepository.find(userId, courseId);
+      if (enrollment) {
+        await this.enrollmentRepository.updatePosition(userId, courseId, await this.findPosition(userId, courseId, enrollment));
+        continue;
+      }
+
+      const course = await this.enrollmentRepository.findCourse(courseId);
+      if (course?.is_public) {
+        await this.enrollmentRepository.create(userId, courseId, await this.findPosition(userId, courseId));
+        logger.info('Learner enrolled in course by completing a lesson', { userId, courseId });
+      }
+    }
+  }
+
+  /**
+   * Returns the invite code of a course.
+   *
+   * @param {string} courseId - Course ID
+   * @returns {Promise<CourseInviteCode>} The invite code, null when none is set
+   * @throws {AppError} When the course does not exist (404)
+   */
+  async getInviteCode(courseId: string): Promise<CourseInviteCode> {
+    const course = await this.findCourse(courseId);
+    return { course_id: courseId, invite_code: course.invite_code };
+  }
+
+  /**
+   * Creates a new invite code for a course. The previous code stops working.
+   *
+   * @param {string} courseId - Course ID
+   * @returns {Promise<CourseInviteCode>} The new invite code
+   * @throws {AppError} When the course does not exist (404)
+   */
+  async rotateInviteCode(courseId: string): Promise<CourseInviteCode> {
+    await this.findCourse(courseId);
+
+    const inviteCode = generateInviteCode();
+    await this.enrollmentRepository.updateInviteCode(courseId, inviteCode);
+    logger.info('Course invite code rotated', { courseId });
+
+    return { course_id: courseId, invite_code: inviteCode };
+  }
+
+  /**
+   * Removes the invite code of a course, so the course can no longer be joined with a code.
+   * Learners who already joined stay enrolled.
+   *
+   * @param {string} courseId - Course ID
+   * @throws {AppError} When the course does not exist (404)
+   */
+  async disableInviteCode(courseId: string): Promise<void> {
+    await this.findCourse(courseId);
+    await this.enrollmentRepository.updateInviteCode(courseId, null);
+    logger.info('Course invite code disabled', { courseId });
+  }
+
+  private async findCourse(courseId: string): Promise<{ id: string; is_public: boolean; invite_code: string | null }> {
+    const course = await this.enrollmentRepository.findCourse(courseId);
+    if (!course) {
+      throw new AppError('Course not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+    return course;
+  }
+
+  /**
+   * Finds the first lesson of the course the learner has not completed. A course the learner
+   * has finished keeps the date it was first completed on.
+   */
+  private async findPosition(userId: string, courseId: string, enrollment?: Enrollment): Promise<EnrollmentPosition> {
+    const lessonIds = (await this.enrollmentRepository.findLessonIdsByCourse([courseId])).get(courseId) ?? [];
+    const completed = await this.enrollmentRepository.findCompletedLessonIds(userId, lessonIds);
+    const currentLessonId = lessonIds.find(lessonId => !completed.has(lessonId)) ?? null;
+
+    if (lessonIds.length > 0 && currentLessonId === null) {
+      return { status: 'completed', current_lesson_id: null, completed_at: enrollment?.completed_at ?? new Date() };
+    }
+
+    return { status: 'active', current_lesson_id: currentLessonId, completed_at: null };
+  }
+}
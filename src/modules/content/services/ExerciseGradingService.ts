@@ -0,0 +1,544 @@
+// src/modules/content/services/ExerciseGradingService.ts
+
+/**
+ * Server-side answer grading service for the WayrApp language learning platform.
+ *
+ * This service grades learner answers against the exercise data stored in the database, so
+ * scores no longer have to be trusted from the client. It supports every exercise type
+ * (translation, translation-word-bank, fill-in-the-blank, vof, pairs, ordering, listening, speaking
+ * and informative)
+ * and reports per-item correctness together with a normalized score between 0 and 1.
+ *
+ * Grading is deliberately lenient with formatting: free-text answers are compared after
+ * lowercasing, trimming, collapsing whitespace and stripping punctuation, so "¡Hola!" and
+ * "hola" are considered the same answer. Informative exercises have nothing to answer and are
+ * reported as non-gradable so they do not affect lesson scores.
+ *
+ * Speaking exercises are graded from a transcript of the learner recording produced by the
+ * client (speech recognition runs on the device). Since recognizers rarely return a perfect
+ * transcript, it passes when its word accuracy against the closest expected transcript reaches
+ * the min_accuracy of the exercise.
+ *
+ * Lesson attempts grade every exercise assigned to a lesson in one call. Exercises that the
+ * learner did not answer count as incorrect, and the lesson score is the average normalized
+ * score of the gradable exercises expressed as an integer percentage (0-100), which is the
+ * same scale used by LessonCompletion.score.
+ *
+ * Answers given while playing a lesson are recorded as exercise attempts when the learner is
+ * known, which powers per-exercise analytics. Answers to informative exercises and exercises the
+ * learner skipped are not recorded.
+ *
+ * @module ExerciseGradingService
+ * @category Content
+ * @category Services
+ * @category Exercise
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * // Initialize service with Prisma client
+ * const gradingService = new ExerciseGradingService(prisma);
+ *
+ * // Grade a single answer
+ * const result = await gradingService.gradeExercise('vof-001', { value: true });
+ * console.log(result.correct, result.score); // true, 1
+ *
+ * // Grade a whole lesson attempt
+ * const attempt = await gradingService.gradeLessonAttempt('lesson-001', [
+ *   { exercise_id: 'trans-001', answer: { text: 'Hola' } },
+ *   { exercise_id: 'pairs-001', answer: { pairs: [{ left: 'dog', right: 'perro' }] } }
+ * ]);
+ * console.log(attempt.score); // 0-100
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { ExerciseAttemptRepository, ExerciseRepository } from '../repositories';
+import { Exercise } from '../types';
+import { AppError } from '../../../shared/middleware/errorHandler';
+import { HttpStatus, ErrorCodes } from '../../../shared/types';
+
+/**
+ * Word accuracy a speaking transcript needs when the exercise does not set min_accuracy
+ */
+export const DEFAULT_SPEAKING_MIN_ACCURACY = 0.8;
+
+/**
+ * Correctness of a single gradable item within an exercise (a blank, a pair, a word position...)
+ */
+export interface GradedItem {
+  index: number;
+  correct: boolean;
+  expected: any;
+  given: any;
+}
+
+/**
+ * Result of grading one learner answer against one exercise
+ */
+export interface ExerciseGradingResult {
+  exercise_id: string;
+  exercise_type: Exercise['exercise_type'];
+  gradable: boolean;
+  correct: boolean;
+  score: number;
+  items: GradedItem[];
+}
+
+/**
+ * A learner answer for one exercise inside a lesson attempt
+ */
+export interface ExerciseAnswerInput {
+  exercise_id: string;
+  answer: Record<string, any>;
+  duration_seconds?: number | undefined;
+}
+
+/**
+ * Result of grading every exercise of a lesson
+ */
+export interface LessonAttemptResult {
+  lesson_id: string;
+  score: number;
+  correct_count: number;
+  gradable_count: number;
+  results: ExerciseGradingResult[];
+}
+
+/**
+ * Service class for grading learner answers against stored exercise data.
+ *
+ * Loads exercises through the ExerciseRepository and applies type-specific grading rules,
+ * either for a single exercise or for every exercise assigned to a lesson.
+ */
+export class ExerciseGradingService {
+  private exerciseRepository: ExerciseRepository;
+  private exerciseAttemptRepository: ExerciseAttemptRepository;
+
+  /**
+   * Creates a new ExerciseGradingService instance
+   *
+   * @param {PrismaClient} prisma - Initialized Prisma client for database operations
+   */
+  constructor(private prisma: PrismaClient) {
+    this.exerciseRepository = new ExerciseRepository(prisma);
+    this.exerciseAttemptRepository = new ExerciseAttemptRepository(prisma);
+  }
+
+  /**
+   * Grades a learner answer for a single exercise.
+   *
+   * @param {string} exerciseId - The unique exercise identifier
+   * @param {Record<string, any>} answer - Type-specific learner answer payload
+   * @returns {Promise<ExerciseGradingResult>} Promise resolving to per-item correctness and normalized score
+   * @throws {AppError} When exercise with the specified ID is not found (404 NOT_FOUND)
+   *
+   * @example
+   * const result = await gradingService.gradeExercise('fill-001', { blanks: ['am', 'from'] });
+   * result.items.forEach(item => console.log(item.index, item.correct));
+   */
+  async gradeExercise(
+    exerciseId: string,
+    answer: Record<string, any>
+  ): Promise<ExerciseGradingResult> {
+    const exercise = await this.exerciseRepository.findById(exerciseId);
+    if (!exercise) {
+      throw new AppError(
+        `Exercise '${exerciseId}' not found`,
+        HttpStatus.NOT_FOUND,
+        ErrorCodes.NOT_FOUND
+      );
+    }
+
+    return this.grade(exercise, answer);
+  }
+
+  /**
+   * Grades a batch of learner answers against every exercise assigned to a lesson.
+   *
+   * Exercises without an answer are graded as incorrect. Answers for exercises that are not
+   * assigned to the lesson are rejected so a client cannot inflate its score. When the learner
+   * is given, each graded answer is recorded as an attempt.
+   *
+   * @param {string} lessonId - The unique lesson identifier
+   * @param {ExerciseAnswerInput[]} answers - Learner answers keyed by exercise ID
+   * @param {string} [userId] - Learner playing the lesson
+   * @returns {Promise<LessonAttemptResult>} Promise resolving to per-exercise results and lesson score (0-100)
+   * @throws {AppError} When lesson is not found (404 NOT_FOUND) or an answer targets an exercise outside the lesson (400 VALIDATION_ERROR)
+   *
+   * @example
+   * const attempt = await gradingService.gradeLessonAttempt('lesson-001', [
+   *   { exercise_id: 'vof-001', answer: { value: false } }
+   * ]);
+   */
+  async gradeLessonAttempt(
+    lessonId: string,
+    answers: ExerciseAnswerInput[],
+    userId?: string
+  ): Promise<LessonAttemptResult> {
+    const lesson = await this.prisma.lesson.findUnique({
+      where: { id: lessonId, deletedAt: null },
+      select: { id: true },
+    });
+
+    if (!lesson) {
+      throw new AppError(
+        `Lesson '${lessonId}' not found`,
+        HttpStatus.NOT_FOUND,
+        ErrorCodes.NOT_FOUND
+      );
+    }
+
+    const assignments = await this.prisma.lessonExercise.findMany({
+      where: { lessonId },
+      orderBy: { order: 'asc' },
+      select: { exerciseId: true },
+    });
+
+    const assignedIds = assignments.map(assignment => assignment.exerciseId);
+    const unknownIds = answers
+      .map(answer => answer.exercise_id)
+      .filter(exerciseId => !assignedIds.includes(exerciseId));
+
+    if (unknownIds.length > 0) {
+      throw new AppError(
+        `Exercises [${unknownIds.join(', ')}] are not assigned to lesson '${lessonId}'`,
+        HttpStatus.BAD_REQUEST,
+        ErrorCodes.VALIDATION_ERROR
+      );
+    }
+
+    const exercises = await this.exerciseRepository.findByIds(assignedIds);
+    const exercisesById = new Map(exercises.map(exercise => [exercise.id, exercise]));
+    const answersById = new Map(answers.map(answer => [answer.exercise_id, answer]));
+
+    const results: ExerciseGradingResult[] = [];
+    for (const exerciseId of assignedIds) {
+      const exercise = exercisesById.get(exerciseId);
+      if (!exercise) {
+        continue;
+      }
+      results.push(this.grade(exercise, answersById.get(exerciseId)?.answer ?? {}));
+    }
+
+    if (userId) {
+      await this.exerciseAttemptRepository.createMany(
+        results
+          .filter(result => result.gradable && answersById.has(result.exercise_id))
+          .map(result => {
+            const input = answersById.get(result.exercise_id)!;
+            return {
+              user_id: userId,
+              exercise_id: result.exercise_id,
+              lesson_id: lessonId,
+              answer: input.answer,
+              correct: result.correct,
+              score: result.score,
+              duration_seconds: input.duration_seconds,
+            };
+          })
+      );
+    }
+
+    const gradable = results.filter(result => result.gradable);
+    const totalScore = gradable.reduce((sum, result) => sum + result.score, 0);
+
+    return {
+      lesson_id: lessonId,
+      score: gradable.length > 0 ? Math.round((totalScore / gradable.length) * 100) : 100,
+      correct_count: gradable.filter(result => result.correct).length,
+      gradable_count: gradable.length,
+      results,
+    };
+  }
+
+  /**
+   * Grades a learner answer against an already loaded exercise.
+   *
+   * @param {Exercise} exercise - Exercise with its stored type-specific data
+   * @param {Record<string, any>} answer - Type-specific learner answer payload
+   * @returns {ExerciseGradingResult} Per-item correctness and normalized score
+   * @throws {AppError} When the exercise type is unknown (400 VALIDATION_ERROR)
+   */
+  grade(exercise: Exercise, answer: Record<string, any>): ExerciseGradingResult {
+    const data = exercise.data || {};
+    const given = answer || {};
+    let items: GradedItem[];
+
+    switch (exercise.exercise_type) {
+      case 'translation':
+        items = this.gradeTranslation(data, given);
+        break;
+      case 'translation-word-bank':
+        items = this.gradeTranslationWordBank(data, given);
+        break;
+      case 'fill-in-the-blank':
+        items = this.gradeFillInTheBlank(data, given);
+        break;
+      case 'vof':
+        items = this.gradeVof(data, given);
+        break;
+      case 'pairs':
+        items = this.gradePairs(data, given);
+        break;
+      case 'ordering':
+        items = this.gradeOrdering(data, given);
+        break;
+      case 'listening':
+        items = this.gradeListening(data, given);
+        break;
+      case 'speaking':
+        items = this.gradeSpeaking(data, given);
+        break;
+      case 'informative':
+        return {
+          exercise_id: exercise.id,
+          exercise_type: exercise.exercise_type,
+          gradable: false,
+          correct: true,
+          score: 1,
+          items: [],
+        };
+      default:
+        throw new AppError(
+          `Unknown exercise type: ${exercise.exercise_type}`,
+          HttpStatus.BAD_REQUEST,
+          ErrorCodes.VALIDATION_ERROR
+        );
+    }
+
+    const correctItems = items.filter(item => item.correct).length;
+    const score = items.length > 0 ? correctItems / items.length : 0;
+
+    return {
+      exercise_id: exercise.id,
+      exercise_type: exercise.exercise_type,
+      gradable: true,
+      correct: items.length > 0 && correctItems === items.length,
+      score: Math.round(score * 100) / 100,
+      items,
+    };
+  }
+
+  /**
+   * Grades a translation answer (`{ text }`) against the stored target text.
+   *
+   * @private
+   */
+  private gradeTranslation(data: any, answer: any): GradedItem[] {
+    return [{
+      index: 0,
+      correct: this.matchesText(answer.text, [data.target_text]),
+      expected: data.target_text,
+      given: answer.text ?? null,
+    }];
+  }
+
+  /**
+   * Grades a word bank answer (`{ words }`) position by position against correct_words.
+   *
+   * @private
+   */
+  private gradeTranslationWordBank(data: any, answer: any): GradedItem[] {
+    const correctWords: string[] = Array.isArray(data.correct_words) ? data.correct_words : [];
+    const words: any[] = Array.isArray(answer.words) ? answer.words : [];
+
+    const items = correctWords.map((word, index) => ({
+      index,
+      correct: this.matchesText(words[index], [word]),
+      expected: word,
+      given: words[index] ?? null,
+    }));
+
+    // Extra words beyond the expected sentence make the answer wrong
+    if (words.length > correctWords.length) {
+      items.push({
+        index: correctWords.length,
+        correct: false,
+        expected: null,
+        given: words.slice(correctWords.length),
+      });
+    }
+
+    return items;
+  }
+
+  /**
+   * Grades a fill-in-the-blank answer (`{ blanks }`), one answer per blank in position order.
+   *
+   * @private
+   */
+  private gradeFillInTheBlank(data: any, answer: any): GradedItem[] {
+    const blanks: any[] = Array.isArray(data.blanks)
+      ? [...data.blanks].sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+      : [];
+    const given: any[] = Array.isArray(answer.blanks) ? answer.blanks : [];
+
+    return blanks.map((blank, index) => ({
+      index,
+      correct: this.matchesText(given[index], blank.correct_answers || []),
+      expected: blank.correct_answers || [],
+      given: given[index] ?? null,
+    }));
+  }
+
+  /**
+   * Grades a true/false answer (`{ value }`).
+   *
+   * @private
+   */
+  private gradeVof(data: any, answer: any): GradedItem[] {
+    return [{
+      index: 0,
+      correct: typeof answer.value === 'boolean' && answer.value === data.is_true,
+      expected: data.is_true,
+      given: answer.value ?? null,
+    }];
+  }
+
+  /**
+   * Grades a pairs answer (`{ pairs: [{ left, right }] }`), one item per stored pair.
+   *
+   * @private
+   */
+  private gradePairs(data: any, answer: any): GradedItem[] {
+    const pairs: any[] = Array.isArray(data.pairs) ? data.pairs : [];
+    const given: any[] = Array.isArray(answer.pairs) ? answer.pairs : [];
+
+    return pairs.map((pair, index) => {
+      const match = given.find(candidate => this.matchesText(candidate?.left, [pair.left]));
+      return {
+        index,
+        correct: !!match && this.matchesText(match.right, [pair.right]),
+        expected: { left: pair.left, right: pair.right },
+        given: match ?? null,
+      };
+    });
+  }
+
+  /**
+   * Grades an ordering answer (`{ order }`), where order lists indexes into data.items
+   * in the sequence chosen by the learner.
+   *
+   * @private
+   */
+  private gradeOrdering(data: any, answer: any): GradedItem[] {
+    const items: any[] = Array.isArray(data.items) ? data.items : [];
+    const order: any[] = Array.isArray(answer.order) ? answer.order : [];
+
+    return items.map((_, position) => {
+      const expected = items.findIndex(item => item.correct_order === position + 1);
+      return {
+        index: position,
+        correct: order[position] === expected,
+        expected,
+        given: order[position] ?? null,
+      };
+    });
+  }
+
+  /**
+   * Grades a listening answer (`{ text }`), typed or picked among the options, against the
+   * correct answers.
+   *
+   * @private
+   */
+  private gradeListening(data: any, answer: any): GradedItem[] {
+    const correctAnswers: unknown[] = Array.isArray(data.correct_answers) ? data.correct_answers : [];
+    return [{
+      index: 0,
+      correct: this.matchesText(answer.text, correctAnswers),
+      expected: correctAnswers,
+      given: answer.text ?? null,
+    }];
+  }
+
+  /**
+   * Grades a speaking answer (`{ transcript }`) by its word accuracy against the closest
+   * expected transcript.
+   *
+   * @private
+   */
+  private gradeSpeaking(data: any, answer: any): GradedItem[] {
+    const expectedTranscripts: string[] = Array.isArray(data.expected_transcripts)
+      ? data.expected_transcripts.filter((transcript: unknown) => typeof transcript === 'string')
+      : [];
+    const minAccuracy = typeof data.min_accuracy === 'number' ? data.min_accuracy : DEFAULT_SPEAKING_MIN_ACCURACY;
+    const transcript = typeof answer.transcript === 'string' ? answer.transcript : '';
+
+    let best = { transcript: expectedTranscripts[0] ?? null, accuracy: 0 };
+    for (const expected of expectedTranscripts) {
+      const accuracy = this.wordAccuracy(transcript, expected);
+      if (accuracy > best.accuracy) {
+        best = { transcript: expected, accuracy };
+      }
+    }
+
+    return [{
+      index: 0,
+      correct: best.accuracy > 0 && best.accuracy >= minAccuracy,
+      expected: best.transcript,
+      given: answer.transcript ?? null,
+    }];
+  }
+
+  /**
+   * Computes the word accuracy of a transcript against an expected one: 1 minus the word edit
+   * distance (insertions, deletions and substitutions) divided by the length of the longer text.
+   *
+   * @private
+   */
+  private wordAccuracy(transcript: string, expected: string): number {
+    const given = this.normalizeText(transcript).split(' ').filter(Boolean);
+    const target = this.normalizeText(expected).split(' ').filter(Boolean);
+    const length = Math.max(given.length, target.length);
+    if (given.length === 0 || target.length === 0) {
+      return 0;
+    }
+
+    let previous = Array.from({ length: target.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= given.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= target.length; j++) {
+        current[j] = Math.min(
+          previous[j]! + 1,
+          current[j - 1]! + 1,
+          previous[j - 1]! + (given[i - 1] === target[j - 1] ? 0 : 1)
+        );
+      }
+      previous = current;
+    }
+
+    return 1 - previous[target.length]! / length;
+  }
+
+  /**
+   * Checks whether a free-text answer matches any accepted answer after normalization.
+   *
+   * @private
+   */
+  private matchesText(value: unknown, accepted: unknown[]): boolean {
+    if (typeof value !== 'string') {
+      return false;
+    }
+    const normalized = this.normalizeText(value);
+    if (normalized.length === 0) {
+      return false;
+    }
+    return accepted.some(candidate =>
+      typeof candidate === 'string' && this.normalizeText(candidate) === normalized
+    );
+  }
+
+  /**
+   * Normalizes text for lenient comparison (case, punctuation and whitespace insensitive).
+   *
+   * @private
+   */
+  private normalizeText(value: string): string {
+    return value
+      .toLowerCase()
+      .replace(/[.,!?¡¿;:"'()]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
@@ -0,0 +1,408 @@
+// src/modules/content/services/ExerciseImportService.ts
+
+/**
+ * Bulk import of exercises from spreadsheets into the exercise bank.
+ *
+ * Authors save a sheet as CSV or TSV and map its columns to the fields of one exercise type (see
+ * EXERCISE_IMPORT_FIELDS). Every row becomes one exercise, validated against the data schema of its
+ * type, so problems are reported per row and field. Cells of list fields (hints, word banks, pairs,
+ * ordering items) hold several values separated by "|", or the field is mapped to several columns.
+ * Rows without an ID column get IDs generated from their text, the same way the creator does.
+ *
+ * A dry run returns the exercises the import would create together with the row errors. An import
+ * creates nothing unless every row is valid; the exercises are then created in one transaction and,
+ * when a lesson is given, appended to it in row order.
+ *
+ * @module ExerciseImportService
+ * @category Content
+ * @category Services
+ * @category Exercise
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const exerciseImportService = new ExerciseImportService(prisma);
+ *
+ * const request = {
+ *   format: 'csv',
+ *   has_header: true,
+ *   exercise_type: 'translation',
+ *   content: 'english,spanish\nHello,Hola\nGoodbye,Adiós',
+ *   mapping: { source_text: 'english', target_text: 'spanish' },
+ *   lesson_id: 'lesson-greetings'
+ * };
+ *
+ * // Preview the exercises and row errors, then import
+ * const preview = await exerciseImportService.importExercises(request, { dry_run: true }, req.user);
+ * const result = await exerciseImportService.importExercises(request, {}, req.user);
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { ExerciseRepository, LessonRepository } from '../repositories';
+import {
+  ExerciseImportResult,
+  ExerciseImportRowError,
+  ImportedExerciseRow,
+  ImportExercisesDto,
+  MAX_IMPORTED_EXERCISES
+} from '../types';
+import { ErrorCodes, HttpStatus, JWTPayload } from '../../../shared/types';
+import { AppError } from '../../../shared/middleware/errorHandler';
+import { ExerciseDataUnionSchema } from '../../../shared/schemas/exercise.schemas';
+import { DELIMITERS, parseDelimited } from '../../../shared/utils/csv';
+import { ENTITY_ID_CONFIGS, generateUniqueId, ID_MAX_LENGTHS } from '../../../shared/utils/idGenerator';
+import { ContentChangeService } from './ContentChangeService';
+import { CourseCollaboratorService } from './CourseCollaboratorService';
+
+const LIST_SEPARATOR = '|';
+
+const TRUE_VALUES = ['true', 'yes', 'y', 't', '1', 'verdadero', 'v', 'si', 'sí'];
+const FALSE_VALUES = ['false', 'no', 'n', 'f', '0', 'falso'];
+
+// Fields whose text names the generated exercise IDs, the first one with a value is used
+const ID_SOURCE_FIELDS: Record<ImportExercisesDto['exercise_type'], string[]> = {
+  translation: ['source_text'],
+  'translation-word-bank': ['source_text'],
+  'fill-in-the-blank': ['text'],
+  vof: ['statement'],
+  pairs: ['left'],
+  informative: ['title', 'content'],
+  ordering: ['items'],
+  listening: ['correct_answers'],
+  speaking: ['prompt'],
+};
+
+// Trimmed cells of the columns mapped to each field, in mapping order
+type RowCells = Record<string, string[]>;
+
+/**
+ * Service for importing exercises from CSV and TSV files.
+ */
+export class ExerciseImportService {
+  private exerciseRepository: ExerciseRepository;
+  private lessonRepository: LessonRepository;
+  private contentChangeService: ContentChangeService;
+  private courseCollaboratorService: CourseCollaboratorService;
+
+  /**
+   * Initializes the ExerciseImportService with required repository dependencies.
+   *
+   * @param {PrismaClient} prisma - Prisma database client for repository initialization
+   */
+  constructor(prisma: PrismaClient) {
+    this.exerciseRepository = new ExerciseRepository(prisma);
+    this.lessonRepository = new LessonRepository(prisma);
+    this.contentChangeService = new ContentChangeService(prisma);
+    this.courseCollaboratorService = new CourseCollaboratorService(prisma);
+  }
+
+  /**
+   * Reads exercises from a file and imports them, or only previews them on dry runs.
+   *
+   * @param {ImportExercisesDto} data - File content, format, exercise type, column mapping and target lesson
+   * @param {{ dry_run?: boolean }} [options={}] - Import options
+   * @param {JWTPayload} [user] - Importing user; assigning to a lesson requires the editor role in its course
+   * @returns {Promise<ExerciseImportResult>} The exercises read from the file and the row errors
+   * @throws {AppError} When the file cannot be read, has no rows or too many, or a mapped column does not exist (400)
+   * @throws {AppError} When the lesson does not exist (400) or the user cannot edit its course (403)
+   * @throws {ZodError} When importing a file with invalid rows, with one issue per row and field
+   */
+  async importExercises(
+    data: ImportExercisesDto,
+    options: { dry_run?: boolean } = {},
+    user?: JWTPayload
+  ): Promise<ExerciseImportResult> {
+    const dryRun = options.dry_run ?? false;
+
+    let records: string[][];
+    try {
+      records = parseDelimited(data.content, DELIMITERS[data.format]);
+    } catch (error) {
+      throw new AppError(
+        `Could not read the file: ${(error as Error).message}`,
+        HttpStatus.BAD_REQUEST,
+        ErrorCodes.VALIDATION_ERROR
+      );
+    }
+
+    const header = data.has_header ? records.shift() ?? [] : null;
+    const firstRow = data.has_header ? 2 : 1;
+    const columns = this.resolveColumns(data.mapping, header);
+
+    const rows = records
+      .map((cells, index) => ({ row: firstRow + index, cells }))
+      .filter(({ cells }) => cells.some((cell) => cell.trim() !== ''));
+    if (rows.length === 0) {
+      throw new AppError('The file has no exercise rows', HttpStatus.BAD_REQUEST, ErrorCodes.VALIDATION_ERROR);
+    }
+    if (rows.length > MAX_IMPORTED_EXERCISES) {
+      throw new AppError(
+        `The file has ${rows.length} rows; at most ${MAX_IMPORTED_EXERCISES} exercises can be imported at once`,
+        HttpStatus.BAD_REQUEST,
+        ErrorCodes.VALIDATION_ERROR
+      );
+    }
+
+    const firstOrder = data.lesson_id ? await this.findNextLessonOrder(data.lesson_id, user) : undefined;
+
+    const rowCells = rows.map(({ row, cells }) => ({ row, cells: this.readRow(cells, columns) }));
+    const errors: ExerciseImportRowError[] = [];
+    const exercises: ImportedExerciseRow[] = [];
+
+    // IDs given in the file are claimed first, so generated IDs never take them
+    const claimedIds = new Set<string>();
+    const givenIds = new Map<number, string>();
+    for (const { row, cells } of rowCells) {
+      const id = cells['id']?.[0];
+      if (!id) continue;
+
+      const error = id.length > ID_MAX_LENGTHS.EXERCISE
+        ? `Exercise ID must be ${ID_MAX_LENGTHS.EXERCISE} characters or less`
+        : claimedIds.has(id)
+          ? `Exercise ID '${id}' is used by another row`
+          : await this.exerciseRepository.isIdTaken(id)
+            ? `Exercise with ID '${id}' already exists`
+            : null;
+      if (error) {
+        errors.push({ row, field: 'id', message: error });
+      }
+      claimedIds.add(id);
+      givenIds.set(row, id);
+    }
+
+    for (const { row, cells } of rowCells) {
+      const result = ExerciseDataUnionSchema.safeParse({
+        exercise_type: data.exercise_type,
+        data: this.buildExerciseData(data.exercise_type, cells),
+      });
+      if (!result.success) {
+        errors.push(...result.error.issues.map((issue) => ({ row, field: issue.path.join('.'), message: issue.message })));
+        continue;
+      }
+      if (errors.some((error) => error.row === row)) continue;
+
+      const id = givenIds.get(row) ?? await this.generateId(data.exercise_type, cells, claimedIds);
+      claimedIds.add(id);
+      exercises.push({
+        row,
+        id,
+        exercise_type: data.exercise_type,
+        data: result.data.data,
+        ...(firstOrder !== undefined && { order: firstOrder + exercises.length }),
+      });
+    }
+
+    errors.sort((a, b) => a.row - b.row);
+
+    if (!dryRun) {
+      if (errors.length > 0) {
+        throw new z.ZodError(errors.map((error) => ({
+          code: z.ZodIssueCode.custom,
+          path: ['rows', error.row, error.field],
+          message: error.message,
+        })));
+      }
+
+      await this.exerciseRepository.createMany(
+        exercises,
+        data.lesson_id && firstOrder !== undefined ? { lessonId: data.lesson_id, firstOrder } : undefined
+      );
+
+      if (data.lesson_id) {
+        await this.contentChangeService.recordChangesWithin('lesson', data.lesson_id, [
+          { entity_type: 'lesson', entity_id: data.lesson_id, operation: 'upsert' }
+        ]);
+      }
+    }
+
+    return {
+      dry_run: dryRun,
+      exercise_type: data.exercise_type,
+      lesson_id: data.lesson_id ?? null,
+      total_rows: rows.length,
+      exercises,
+      errors,
+    };
+  }
+
+  /**
+   * Checks that exercises can be appended to a lesson and returns the order of the first one.
+   */
+  private async findNextLessonOrder(lessonId: string, user?: JWTPayload): Promise<number> {
+    const lessonExists = await this.lessonRepository.exists(lessonId);
+    if (!lessonExists) {
+      throw new AppError(
+        `Lesson with ID '${lessonId}' not found`,
+        HttpStatus.BAD_REQUEST,
+        ErrorCodes.VALIDATION_ERROR
+      );
+    }
+
+    if (user?.role !== 'admin') {
+      const courseId = await this.courseCollaboratorService.resolveCourseId({ lessonId });
+      const allowed = !!user && !!courseId
+        && await this.courseCollaboratorService.hasCourseRole(user.sub, courseId, 'editor');
+      if (!allowed) {
+        throw new AppError('Insufficient course permissions', HttpStatus.FORBIDDEN, ErrorCodes.AUTHORIZATION_ERROR);
+      }
+    }
+
+    const assignments = await this.lessonRepository.getLessonExercises(lessonId);
+    return Math.max(0, ...assignments.map((assignment) => assignment.order)) + 1;
+  }
+
+  /**
+   * Resolves the mapped columns of each field to zero-based positions.
+   */
+  private resolveColumns(mapping: ImportExercisesDto['mapping'], header: string[] | null): Record<string, number[]> {
+    const headerNames = header?.map((name) => name.trim().toLowerCase());
+
+    return Object.fromEntries(Object.entries(mapping).map(([field, columns]) => [
+      field,
+      [columns].flat().map((column) => {
+        const position = typeof column === 'number'
+          ? column - 1
+          : headerNames?.indexOf(column.trim().toLowerCase()) ?? -1;
+
+        if (position < 0 || (headerNames && position >= headerNames.length)) {
+          throw new AppError(
+            typeof column === 'number'
+              ? `Column ${column} mapped to '${field}' is not in the file`
+              : `Column '${column}' mapped to '${field}' is not in the file header`,
+            HttpStatus.BAD_REQUEST,
+            ErrorCodes.VALIDATION_ERROR
+          );
+        }
+        return position;
+      }),
+    ]));
+  }
+
+  private readRow(cells: string[], columns: Record<string, number[]>): RowCells {
+    return Object.fromEntries(Object.entries(columns).map(([field, positions]) => [
+      field,
+      positions.map((position) => (cells[position] ?? '').trim()),
+    ]));
+  }
+
+  /**
+   * Builds the exercise data of a row. Validation is left to the data schema of the exercise type.
+   */
+  private buildExerciseData(exerciseType: ImportExercisesDto['exercise_type'], cells: RowCells): Record<string, unknown> {
+    const text = (field: string): string | undefined => cells[field]?.[0] || undefined;
+    const list = (field: string): string[] => (cells[field] ?? []).flatMap(splitList);
+
+    switch (exerciseType) {
+      case 'translation': {
+        const hints = list('hints');
+        return {
+          source_text: text('source_text'),
+          target_text: text('target_text'),
+          ...(hints.length > 0 && { hints }),
+        };
+      }
+      case 'translation-word-bank':
+        return {
+          source_text: text('source_text'),
+          target_text: text('target_text'),
+          correct_words: list('correct_words'),
+          word_bank: list('word_bank'),
+        };
+      case 'fill-in-the-blank':
+        return {
+          text: text('text'),
+          blanks: (cells['answers'] ?? [])
+            .filter((cell) => cell !== '')
+            .map((cell, position) => ({ position, correct_answers: splitList(cell) })),
+        };
+      case 'vof': {
+        const isTrue = text('is_true');
+        const explanation = text('explanation');
+        return {
+          statement: text('statement'),
+          is_true: parseBoolean(isTrue) ?? isTrue,
+          ...(explanation && { explanation }),
+        };
+      }
+      case 'pairs': {
+        const left = list('left');
+        const right = list('right');
+        return {
+          pairs: Array.from({ length: Math.max(left.length, right.length) }, (_, index) => ({
+            left: left[index] ?? '',
+            right: right[index] ?? '',
+          })),
+        };
+      }
+      case 'informative': {
+        const title = text('title');
+        const mediaUrl = text('media_url');
+        const mediaAlt = text('media_alt');
+        return {
+          ...(title && { title }),
+          content: text('content'),
+          ...(mediaUrl && {
+            media: {
+              type: text('media_type')?.toLowerCase(),
+              url: mediaUrl,
+              ...(mediaAlt && { alt: mediaAlt }),
+            },
+          }),
+        };
+      }
+      case 'ordering':
+        return {
+          items: list('items').map((item, index) => ({ text: item, correct_order: index + 1 })),
+        };
+      case 'listening': {
+        const options = list('options');
+        const transcript = text('transcript');
+        return {
+          audio: { url: text('audio_url') },
+          answer_mode: text('answer_mode')?.toLowerCase() ?? 'type',
+          correct_answers: list('correct_answers'),
+          ...(options.length > 0 && { options }),
+          ...(transcript && { transcript }),
+        };
+      }
+      case 'speaking': {
+        const referenceAudioUrl = text('reference_audio_url');
+        return {
+          prompt: text('prompt'),
+          expected_transcripts: list('expected_transcripts'),
+          ...(referenceAudioUrl && { reference_audio: { url: referenceAudioUrl } }),
+        };
+      }
+    }
+  }
+
+  private async generateId(
+    exerciseType: ImportExercisesDto['exercise_type'],
+    cells: RowCells,
+    claimedIds: Set<string>
+  ): Promise<string> {
+    const source = ID_SOURCE_FIELDS[exerciseType]
+      .map((field) => (cells[field] ?? []).flatMap(splitList)[0])
+      .find((value) => value !== undefined);
+
+    return await generateUniqueId(
+      source ?? exerciseType,
+      ID_MAX_LENGTHS.EXERCISE,
+      async (candidate: string) => claimedIds.has(candidate) || await this.exerciseRepository.isIdTaken(candidate),
+      undefined,
+      ENTITY_ID_CONFIGS.EXERCISE
+    );
+  }
+}
+
+const splitList = (cell: string): string[] =>
+  cell.split(LIST_SEPARATOR).map((value) => value.trim()).filter((value) => value !== '');
+
+const parseBoolean = (value: string | undefined): boolean | undefined => {
+  const normalized = value?.toLowerCase();
+  if (normalized === undefined) return undefined;
+  if (TRUE_VALUES.includes(normalized)) return true;
+  if (FALSE_VALUES.includes(normalized)) return false;
+  return undefined;
+};
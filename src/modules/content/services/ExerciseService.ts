@@ -20,10 +20,10 @@
  * data validation for all supported exercise types. The service integrates with the repository layer
  * for data persistence and provides detailed error handling for all business rule violations.
  * 
- * Exercise data validation is performed through private methods that ensure each exercise type
- * contains the required fields and follows the correct data structure. This includes validating
- * translation pairs, blank positions and answers, boolean statements, matching pairs, informative
- * content, and ordering sequences with proper numbering.
+ * Exercise data validation is delegated to the shared exercise data schemas, which ensure each
+ * exercise type contains the required fields and follows the correct data structure. This includes
+ * validating translation pairs, word banks, blank positions and answers, boolean statements, matching
+ * pairs, informative content, and ordering sequences with proper numbering.
  * 
  * @module ExerciseService
  * @category Content
@@ -68,13 +68,17 @@
  */
 
 import { PrismaClient } from '@prisma/client';
-import { ExerciseRepository } from '../repositories';
+import { ExerciseRepository, TrashRepository } from '../repositories';
 import {
   Exercise,
   CreateExerciseDto
 } from '../types';
 import { PaginatedResult, QueryOptions, HttpStatus, ErrorCodes } from '../../../shared/types';
 import { AppError } from '../../../shared/middleware/errorHandler';
+import { assertExerciseData } from '../../../shared/schemas/exercise.schemas';
+import { ContentChangeService } from './ContentChangeService';
+import { MediaService } from '../../media/services/mediaService';
+import { MediaRepository } from '../../media/repositories/mediaRepository';
 
 /**
  * Service class for comprehensive exercise management operations within the WayrApp content system.
@@ -84,6 +88,9 @@ import { AppError } from '../../../shared/middleware/errorHandler';
  */
 export class ExerciseService {
   private exerciseRepository: ExerciseRepository;
+  private trashRepository: TrashRepository;
+  private contentChangeService: ContentChangeService;
+  private mediaService: MediaService;
 
   /**
    * Initializes the ExerciseService with required repository dependencies.
@@ -92,6 +99,9 @@ export class ExerciseService {
    */
   constructor(prisma: PrismaClient) {
     this.exerciseRepository = new ExerciseRepository(prisma);
+    this.trashRepository = new TrashRepository(prisma);
+    this.contentChangeService = new ContentChangeService(prisma);
+    this.mediaService = new MediaService(new MediaRepository(prisma));
   }
 
   /**
@@ -124,7 +134,7 @@ export class ExerciseService {
    */
   async createExercise(data: CreateExerciseDto): Promise<Exercise> {
     // Check if exercise with same ID already exists
-    const existingExercise = await this.exerciseRepository.exists(data.id);
+    const existingExercise = await this.exerciseRepository.isIdTaken(data.id);
     if (existingExercise) {
       throw new AppError(
         `Exercise with ID '${data.id}' already exists`,
@@ -134,7 +144,7 @@ export class ExerciseService {
     }
 
     // Validate exercise data based on type
-    this.validateExerciseData(data.exercise_type, data.data);
+    await this.validateExerciseData(data.exercise_type, data.data);
 
     return await this.exerciseRepository.create(data);
   }
@@ -262,23 +272,28 @@ export class ExerciseService {
 
     // Validate exercise data if provided
     if (data.exercise_type && data.data) {
-      this.validateExerciseData(data.exercise_type, data.data);
+      await this.validateExerciseData(data.exercise_type, data.data);
     } else if (data.data) {
       // If only data is provided, get current exercise to validate against its type
       const currentExercise = await this.exerciseRepository.findById(id);
       if (currentExercise) {
-        this.validateExerciseData(currentExercise.exercise_type, data.data);
+        await this.validateExerciseData(currentExercise.exercise_type, data.data);
       }
     }
 
-    return await this.exerciseRepository.update(id, data);
+    const result = await this.exerciseRepository.update(id, data);
+
+    // Record the change in every course using the exercise for incremental package sync
+    await this.contentChangeService.recordExerciseChange(id, 'upsert');
+
+    return result;
   }
 
   /**
-   * Permanently deletes an exercise and removes it from all lesson assignments.
+   * Moves an exercise to the trash, which removes it from the lessons using it.
    * 
    * Validates exercise existence before deletion and ensures the operation completes successfully.
-   * This operation may cascade to remove exercise assignments from lessons.
+   * Lesson assignments are kept while the exercise is in the trash, so a restore puts it back in its lessons.
    * 
    * @param {string} id - The unique exercise identifier
    * @returns {Promise<void>} Resolves when deletion is complete
@@ -287,7 +302,7 @@ export class ExerciseService {
    * 
    * @example
    * await exerciseService.deleteExercise('exercise-translate-hello');
-   * // Exercise is now permanently deleted from the system
+   * // Exercise is now in the trash until it is restored or purged
    */
   async deleteExercise(id: string): Promise<void> {
     const existingExercise = await this.exerciseRepository.exists(id);
@@ -299,7 +314,10 @@ export class ExerciseService {
       );
     }
 
-    const success = await this.exerciseRepository.delete(id);
+    // Record the deletion while the lessons using the exercise can still be resolved
+    await this.contentChangeService.recordExerciseChange(id, 'delete');
+
+    const success = await this.trashRepository.moveToTrash('exercise', id);
     if (!success) {
       throw new AppError(
         `Failed to delete exercise with ID '${id}'`,
@@ -337,341 +355,19 @@ export class ExerciseService {
   /**
    * Validates exercise data against type-specific schema requirements.
    * 
-   * Performs comprehensive validation of exercise data based on the exercise type,
-   * ensuring all required fields are present and properly formatted.
+   * Delegates to the shared exercise data schemas so the API, the validation middleware and
+   * the creator app apply the same rules. Accepts exercise types in API or database format.
+   * Uploaded media referenced by `media_id` must exist and be of the kind the data states.
    * 
    * @private
    * @param {string} exerciseType - The exercise type to validate against
    * @param {any} data - The exercise data object to validate
-   * @returns {void}
-   * @throws {Error} When data is not a valid object
-   * @throws {Error} When exercise type is unknown
-   * @throws {Error} When data validation fails for the specific exercise type
-   */
-  private validateExerciseData(exerciseType: string, data: any): void {
-    if (!data || typeof data !== 'object') {
-      throw new AppError(
-        'Exercise data must be a valid object',
-        HttpStatus.BAD_REQUEST,
-        ErrorCodes.VALIDATION_ERROR
-      );
-    }
-
-    switch (exerciseType) {
-      case 'translation':
-        this.validateTranslationData(data);
-        break;
-      case 'translation_word_bank':
-        this.validateTranslationWordBankData(data);
-        break;
-      case 'fill_in_the_blank':
-        this.validateFillInTheBlankData(data);
-        break;
-      case 'vof':
-        this.validateVofData(data);
-        break;
-      case 'pairs':
-        this.validatePairsData(data);
-        break;
-      case 'informative':
-        this.validateInformativeData(data);
-        break;
-      case 'ordering':
-        this.validateOrderingData(data);
-        break;
-      default:
-        throw new AppError(
-          `Unknown exercise type: ${exerciseType}`,
-          HttpStatus.BAD_REQUEST,
-          ErrorCodes.VALIDATION_ERROR
-        );
-    }
-  }
-
-  /**
-   * Helper method to throw validation errors consistently.
-   */
-  private throwValidationError(message: string): never {
-    throw new AppError(message, HttpStatus.BAD_REQUEST, ErrorCodes.VALIDATION_ERROR);
-  }
-
-  /**
-   * Validates translation exercise data structure and required fields.
-   * 
-   * @private
-   * @param {any} data - Translation exercise data to validate
-   * @param {string} data.source_text - Source language text to translate
-   * @param {string} data.target_text - Target language translation
-   * @param {string[]} [data.hints] - Optional hints array
-   * @returns {void}
-   * @throws {Error} When source_text is missing or invalid
-   * @throws {Error} When target_text is missing or invalid
-   * @throws {Error} When hints is provided but not an array
-   */
-  private validateTranslationData(data: any): void {
-    if (!data.source_text || typeof data.source_text !== 'string') {
-      throw new AppError(
-        'Translation exercise must have a valid source_text',
-        HttpStatus.BAD_REQUEST,
-        ErrorCodes.VALIDATION_ERROR
-      );
-    }
-    if (!data.target_text || typeof data.target_text !== 'string') {
-      throw new AppError(
-        'Translation exercise must have a valid target_text',
-        HttpStatus.BAD_REQUEST,
-        ErrorCodes.VALIDATION_ERROR
-      );
-    }
-    if (data.hints && !Array.isArray(data.hints)) {
-      throw new AppError(
-        'Translation exercise hints must be an array',
-        HttpStatus.BAD_REQUEST,
-        ErrorCodes.VALIDATION_ERROR
-      );
-    }
-  }
-
-  /**
-   * Validates translation word bank exercise data structure and required fields.
-   * 
-   * @private
-   * @param {any} data - Translation word bank exercise data to validate
-   * @param {string} data.source_text - Source language text to translate
-   * @param {string} data.target_text - Target language translation
-   * @param {string[]} data.correct_words - Array of correct words from target text
-   * @param {string[]} data.word_bank - Array of words including correct words and distractors
-   * @returns {void}
-   * @throws {Error} When source_text is missing or invalid
-   * @throws {Error} When target_text is missing or invalid
-   * @throws {Error} When correct_words is missing or invalid
-   * @throws {Error} When word_bank is missing or invalid
-   * @throws {Error} When correct_words are not all present in word_bank
+   * @returns {Promise<void>}
+   * @throws {ZodError} When exercise type is unknown, data does not match the type schema or
+   *   references unknown media, with field-level issues such as `data.items.0.text`
    */
-  private validateTranslationWordBankData(data: any): void {
-    if (!data.source_text || typeof data.source_text !== 'string') {
-      throw new AppError(
-        'Translation word bank exercise must have a valid source_text',
-        HttpStatus.BAD_REQUEST,
-        ErrorCodes.VALIDATION_ERROR
-      );
-    }
-    if (!data.target_text || typeof data.target_text !== 'string') {
-      throw new AppError(
-        'Translation word bank exercise must have a valid target_text',
-        HttpStatus.BAD_REQUEST,
-        ErrorCodes.VALIDATION_ERROR
-      );
-    }
-    if (!data.correct_words || !Array.isArray(data.correct_words) || data.correct_words.length === 0) {
-      throw new AppError(
-        'Translation word bank exercise must have a valid correct_words array with at least one word',
-        HttpStatus.BAD_REQUEST,
-        ErrorCodes.VALIDATION_ERROR
-      );
-    }
-    if (!data.word_bank || !Array.isArray(data.word_bank) || data.word_bank.length === 0) {
-      throw new AppError(
-        'Translation word bank exercise must have a valid word_bank array with at least one word',
-        HttpStatus.BAD_REQUEST,
-        ErrorCodes.VALIDATION_ERROR
-      );
-    }
-
-    // Validate that all correct words are present in the word bank
-    const missingWords = data.correct_words.filter((word: string) => !data.word_bank.includes(word));
-    if (missingWords.length > 0) {
-      throw new AppError(
-        `Translation word bank exercise: correct words [${missingWords.join(', ')}] must be present in word_bank`,
-        HttpStatus.BAD_REQUEST,
-        ErrorCodes.VALIDATION_ERROR
-      );
-    }
-
-    // Validate that word bank has more words than just correct words (should have distractors)
-    if (data.word_bank.length <= data.correct_words.length) {
-      throw new AppError(
-        'Translation word bank exercise must have distractor words in addition to correct words',
-        HttpStatus.BAD_REQUEST,
-        ErrorCodes.VALIDATION_ERROR
-      );
-    }
-
-    // Validate that all words in arrays are strings
-    data.correct_words.forEach((word: any, index: number) => {
-      if (typeof word !== 'string' || word.trim().length === 0) {
-        throw new AppError(
-          `Translation word bank exercise: correct_words[${index}] must be a non-empty string`,
-          HttpStatus.BAD_REQUEST,
-          ErrorCodes.VALIDATION_ERROR
-        );
-      }
-    });
-
-    data.word_bank.forEach((word: any, index: number) => {
-      if (typeof word !== 'string' || word.trim().length === 0) {
-        throw new AppError(
-          `Translation word bank exercise: word_bank[${index}] must be a non-empty string`,
-          HttpStatus.BAD_REQUEST,
-          ErrorCodes.VALIDATION_ERROR
-        );
-      }
-    });
-  }
-
-  /**
-   * Validates fill-in-the-blank exercise data structure and blank configurations.
-   * 
-   * @private
-   * @param {any} data - Fill-in-the-blank exercise data to validate
-   * @param {string} data.text - Text with blank positions
-   * @param {Array} data.blanks - Array of blank configurations
-   * @param {number} data.blanks[].position - Character position of the blank
-   * @param {string[]} data.blanks[].correct_answers - Array of correct answers for the blank
-   * @param {string[]} [data.blanks[].hints] - Optional hints for the blank
-   * @returns {void}
-   * @throws {Error} When text is missing or invalid
-   * @throws {Error} When blanks array is missing or invalid
-   * @throws {Error} When blank position is not a number
-   * @throws {Error} When blank has no correct answers
-   * @throws {Error} When blank hints is not an array
-   */
-  private validateFillInTheBlankData(data: any): void {
-    if (!data.text || typeof data.text !== 'string') {
-      this.throwValidationError('Fill-in-the-blank exercise must have a valid text');
-    }
-    if (!data.blanks || !Array.isArray(data.blanks)) {
-      this.throwValidationError('Fill-in-the-blank exercise must have a valid blanks array');
-    }
-
-    data.blanks.forEach((blank: any, index: number) => {
-      if (typeof blank.position !== 'number') {
-        this.throwValidationError(`Blank at index ${index} must have a valid position number`);
-      }
-      if (!blank.correct_answers || !Array.isArray(blank.correct_answers) || blank.correct_answers.length === 0) {
-        this.throwValidationError(`Blank at index ${index} must have at least one correct answer`);
-      }
-      if (blank.hints && !Array.isArray(blank.hints)) {
-        this.throwValidationError(`Blank at index ${index} hints must be an array`);
-      }
-    });
-  }
-
-  /**
-   * Validates true/false (VOF) exercise data structure and required fields.
-   * 
-   * @private
-   * @param {any} data - VOF exercise data to validate
-   * @param {string} data.statement - Statement to evaluate as true or false
-   * @param {boolean} data.is_true - Whether the statement is true or false
-   * @param {string} [data.explanation] - Optional explanation for the answer
-   * @returns {void}
-   * @throws {Error} When statement is missing or invalid
-   * @throws {Error} When is_true is not a boolean value
-   * @throws {Error} When explanation is provided but not a string
-   */
-  private validateVofData(data: any): void {
-    if (!data.statement || typeof data.statement !== 'string') {
-      this.throwValidationError('VOF exercise must have a valid statement');
-    }
-    if (typeof data.is_true !== 'boolean') {
-      this.throwValidationError('VOF exercise must have a valid is_true boolean value');
-    }
-    if (data.explanation && typeof data.explanation !== 'string') {
-      this.throwValidationError('VOF exercise explanation must be a string');
-    }
-  }
-
-  /**
-   * Validates pairs matching exercise data structure and pair configurations.
-   * 
-   * @private
-   * @param {any} data - Pairs exercise data to validate
-   * @param {Array} data.pairs - Array of left-right pair objects
-   * @param {string} data.pairs[].left - Left side of the pair to match
-   * @param {string} data.pairs[].right - Right side of the pair to match
-   * @returns {void}
-   * @throws {Error} When pairs array is missing or invalid
-   * @throws {Error} When pairs array is empty
-   * @throws {Error} When pair left value is missing or invalid
-   * @throws {Error} When pair right value is missing or invalid
-   */
-  private validatePairsData(data: any): void {
-    if (!data.pairs || !Array.isArray(data.pairs)) {
-      this.throwValidationError('Pairs exercise must have a valid pairs array');
-    }
-    if (data.pairs.length === 0) {
-      this.throwValidationError('Pairs exercise must have at least one pair');
-    }
-
-    data.pairs.forEach((pair: any, index: number) => {
-      if (!pair.left || typeof pair.left !== 'string') {
-        this.throwValidationError(`Pair at index ${index} must have a valid left value`);
-      }
-      if (!pair.right || typeof pair.right !== 'string') {
-        this.throwValidationError(`Pair at index ${index} must have a valid right value`);
-      }
-    });
-  }
-
-  /**
-   * Validates informative exercise data structure and content requirements.
-   * 
-   * @private
-   * @param {any} data - Informative exercise data to validate
-   * @param {string} data.content - Main content to display to the user
-   * @param {string} [data.title] - Optional title for the informative content
-   * @returns {void}
-   * @throws {Error} When content is missing or invalid
-   * @throws {Error} When title is provided but not a string
-   */
-  private validateInformativeData(data: any): void {
-    if (!data.content || typeof data.content !== 'string') {
-      this.throwValidationError('Informative exercise must have valid content');
-    }
-    if (data.title && typeof data.title !== 'string') {
-      this.throwValidationError('Informative exercise title must be a string');
-    }
-  }
-
-  /**
-   * Validates ordering exercise data structure and sequence requirements.
-   * 
-   * @private
-   * @param {any} data - Ordering exercise data to validate
-   * @param {Array} data.items - Array of items to be ordered
-   * @param {string} data.items[].text - Text content of the item
-   * @param {number} data.items[].correct_order - Correct position in the sequence (starting from 1)
-   * @returns {void}
-   * @throws {Error} When items array is missing or invalid
-   * @throws {Error} When items array has fewer than 2 items
-   * @throws {Error} When item text is missing or invalid
-   * @throws {Error} When item correct_order is not a number
-   * @throws {Error} When correct_order values don't form a valid sequence starting from 1
-   */
-  private validateOrderingData(data: any): void {
-    if (!data.items || !Array.isArray(data.items)) {
-      this.throwValidationError('Ordering exercise must have a valid items array');
-    }
-    if (data.items.length < 2) {
-      this.throwValidationError('Ordering exercise must have at least 2 items');
-    }
-
-    data.items.forEach((item: any, index: number) => {
-      if (!item.text || typeof item.text !== 'string') {
-        this.throwValidationError(`Item at index ${index} must have valid text`);
-      }
-      if (typeof item.correct_order !== 'number') {
-        this.throwValidationError(`Item at index ${index} must have a valid correct_order number`);
-      }
-    });
-
-    // Validate that correct_order values form a valid sequence
-    const orders = data.items.map((item: any) => item.correct_order).sort((a: number, b: number) => a - b);
-    for (let i = 0; i < orders.length; i++) {
-      if (orders[i] !== i + 1) {
-        this.throwValidationError('Ordering exercise correct_order values must form a sequence starting from 1');
-      }
-    }
+  private async validateExerciseData(exerciseType: string, data: any): Promise<void> {
+    assertExerciseData(exerciseType, data);
+    await this.mediaService.assertMediaReferences(data);
   }
 }
\ No newline at end of file
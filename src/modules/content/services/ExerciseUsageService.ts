@@ -15,6 +15,12 @@
  * with repository layers for data persistence and provides comprehensive error handling
  * for all business rule violations.
  * 
+ * Performance metrics come from the exercise attempts recorded while learners play lessons,
+ * so they describe the exercise itself rather than the lessons it appears in. Besides accuracy
+ * and timing, the analytics report the most common wrong answers and the discrimination index
+ * of the exercise (how much better strong learners do on it than weak learners), and flag
+ * exercises that look broken, too easy or too hard.
+ * 
  * @module ExerciseUsageService
  * @category Services
  * @category Content
@@ -40,10 +46,13 @@
  */
 
 import { PrismaClient } from '@prisma/client';
-import { ExerciseRepository } from '../repositories';
-import { Exercise, CreateExerciseDto } from '../types';
+import { ExerciseAttemptRepository, ExerciseRepository } from '../repositories';
+import { Exercise, CreateExerciseDto, ExerciseAttemptStats, FirstExerciseAttempt } from '../types';
 import { AppError } from '../../../shared/middleware/errorHandler';
 import { HttpStatus, ErrorCodes } from '../../../shared/types';
+import { assertExerciseData } from '../../../shared/schemas/exercise.schemas';
+import { MediaService } from '../../media/services/mediaService';
+import { MediaRepository } from '../../media/repositories/mediaRepository';
 
 /**
  * Interface for exercise usage statistics
@@ -96,6 +105,44 @@ export interface ExerciseDuplicationOptions {
   preserveUsage?: boolean;
 }
 
+/**
+ * Share of learners in the top and bottom groups used for the discrimination index
+ */
+const DISCRIMINATION_GROUP_SHARE = 0.27;
+
+/**
+ * Learners with scores on the rest of the lesson needed to compute the discrimination index
+ */
+export const MIN_DISCRIMINATION_LEARNERS = 10;
+
+/**
+ * Learners needed before an exercise is flagged as too easy or too hard
+ */
+export const MIN_FLAGGED_LEARNERS = 10;
+
+/**
+ * Number of wrong answers listed in the analytics
+ */
+const COMMON_WRONG_ANSWERS_LIMIT = 5;
+
+/**
+ * Possible problems with an exercise, detected from learner attempts:
+ * - too_easy: nearly every learner answers correctly at the first attempt
+ * - too_hard: few learners answer correctly at the first attempt
+ * - low_discrimination: strong and weak learners do about as well
+ * - negative_discrimination: weak learners do better than strong learners, often a wrong answer key
+ */
+export type ExerciseQualityFlag = 'too_easy' | 'too_hard' | 'low_discrimination' | 'negative_discrimination';
+
+/**
+ * A wrong answer given by learners, with how often it was given
+ */
+export interface CommonWrongAnswer {
+  answer: Record<string, any>;
+  count: number;
+  percentage: number;
+}
+
 /**
  * Interface for exercise analytics
  */
@@ -108,9 +155,22 @@ export interface ExerciseAnalytics {
     averagePosition: number;
   };
   performanceMetrics: {
-    completionRate?: number;
-    averageScore?: number;
-    averageTimeSpent?: number;
+    totalAttempts: number;
+    uniqueLearners: number;
+    // Percentage of learners who answered correctly at least once
+    completionRate: number;
+    // Percentage of attempts answered correctly
+    accuracy: number;
+    // Percentage of learners who answered correctly at their first attempt
+    firstAttemptAccuracy: number;
+    // Average partial-credit score of the attempts, as a percentage
+    averageScore: number;
+    // Average seconds spent per attempt, when reported by the client
+    averageTimeSpent: number | null;
+    // Between -1 and 1, null until enough learners have played the lessons
+    discriminationIndex: number | null;
+    commonWrongAnswers: CommonWrongAnswer[];
+    flags: ExerciseQualityFlag[];
   };
   trends: {
     weeklyUsage: Array<{ week: string; count: number }>;
@@ -128,6 +188,8 @@ export interface ExerciseAnalytics {
  */
 export class ExerciseUsageService {
   private exerciseRepository: ExerciseRepository;
+  private exerciseAttemptRepository: ExerciseAttemptRepository;
+  private mediaService: MediaService;
 
   /**
    * Creates a new ExerciseUsageService instance
@@ -136,6 +198,8 @@ export class ExerciseUsageService {
    */
   constructor(private prisma: PrismaClient) {
     this.exerciseRepository = new ExerciseRepository(prisma);
+    this.exerciseAttemptRepository = new ExerciseAttemptRepository(prisma);
+    this.mediaService = new MediaService(new MediaRepository(prisma));
   }
 
   /**
@@ -347,6 +411,7 @@ export class ExerciseUsageService {
    * @param {ExerciseDuplicationOptions} options - Duplication configuration options
    * @returns {Promise<Exercise>} Promise resolving to the created duplicate exercise
    * @throws {Error} When source exercise is not found or duplicate ID already exists
+   * @throws {ZodError} When the modifications produce invalid data for the exercise type or reference missing media
    * 
    * @example
    * const duplicate = await exerciseUsageService.duplicateExercise('exercise-001', {
@@ -372,7 +437,7 @@ export class ExerciseUsageService {
     }
 
     // Check if target ID already exists
-    const existingExercise = await this.exerciseRepository.findById(options.id);
+    const existingExercise = await this.exerciseRepository.isIdTaken(options.id);
     if (existingExercise) {
       throw new AppError(
         `Exercise with ID '${options.id}' already exists`,
@@ -391,6 +456,11 @@ export class ExerciseUsageService {
       }
     };
 
+    // Modifications must still produce valid data for the exercise type, such as the audio
+    // clip of a listening exercise replaced by another uploaded clip
+    assertExerciseData(duplicateData.exercise_type, duplicateData.data);
+    await this.mediaService.assertMediaReferences(duplicateData.data);
+
     // Create the duplicate exercise
     const duplicateExercise = await this.exerciseRepository.create(duplicateData);
 
@@ -422,16 +492,20 @@ export class ExerciseUsageService {
    * 
    * Provides detailed analytics including usage statistics, performance metrics,
    * and usage trends over time. Useful for content creators to understand
-   * how their exercises are being used and performing.
+   * how their exercises are being used and to find broken or too easy items.
+   * 
+   * Performance metrics are computed from the recorded exercise attempts. The discrimination
+   * index compares the first attempts of the top and bottom 27% of learners, ranked by their
+   * average score on the other exercises of the lessons where they met this one.
    * 
    * @param {string} exerciseId - The unique exercise identifier
    * @returns {Promise<ExerciseAnalytics>} Promise resolving to comprehensive analytics
-   * @throws {Error} When exercise with the specified ID is not found
+   * @throws {AppError} When exercise with the specified ID is not found (404 NOT_FOUND)
    * 
    * @example
    * const analytics = await exerciseUsageService.getExerciseAnalytics('exercise-001');
    * console.log(`Used in ${analytics.usageStats.uniqueLessons} lessons`);
-   * console.log(`Average completion rate: ${analytics.performanceMetrics.completionRate}%`);
+   * console.log(`First attempt accuracy: ${analytics.performanceMetrics.firstAttemptAccuracy}%`);
    */
   async getExerciseAnalytics(exerciseId: string): Promise<ExerciseAnalytics> {
     // Check if exercise exists
@@ -462,8 +536,7 @@ export class ExerciseUsageService {
                   }
                 }
               }
-            },
-            completions: true
+            }
           }
         }
       }
@@ -478,31 +551,7 @@ export class ExerciseUsageService {
       ? lessonAssignments.reduce((sum, la) => sum + la.order, 0) / totalAssignments
       : 0;
 
-    // Calculate performance metrics (placeholder - would need actual completion data)
-    const allCompletions = lessonAssignments.flatMap(la => la.lesson.completions);
-    const completionRate = allCompletions.length > 0 ? 85 : 0; // Placeholder
-    const averageScore = allCompletions.length > 0 ? 78 : 0; // Placeholder
-    const averageTimeSpent = allCompletions.length > 0 ? 45 : 0; // Placeholder
-
-    // Generate usage trends (simplified - would need actual time-series data)
-    const now = new Date();
-    const weeklyUsage = Array.from({ length: 12 }, (_, i) => {
-      const weekStart = new Date(now.getTime() - (i * 7 * 24 * 60 * 60 * 1000));
-      const weekString = weekStart.toISOString().split('T')[0];
-      return {
-        week: weekString || '',
-        count: Math.floor(Math.random() * 10) // Placeholder
-      };
-    }).reverse();
-
-    const monthlyUsage = Array.from({ length: 6 }, (_, i) => {
-      const monthStart = new Date(now.getFullYear(), now.getMonth() - i, 1);
-      const monthString = monthStart.toISOString().split('T')[0]?.substring(0, 7);
-      return {
-        month: monthString || '',
-        count: Math.floor(Math.random() * 30) // Placeholder
-      };
-    }).reverse();
+    const stats = await this.exerciseAttemptRepository.getStats(exerciseId);
 
     return {
       exerciseId,
@@ -512,18 +561,166 @@ export class ExerciseUsageService {
         uniqueCourses,
         averagePosition
       },
-      performanceMetrics: {
-        completionRate,
-        averageScore,
-        averageTimeSpent
-      },
-      trends: {
-        weeklyUsage,
-        monthlyUsage
+      performanceMetrics: await this.calculatePerformanceMetrics(exerciseId, stats),
+      trends: await this.calculateTrends(exerciseId, new Date())
+    };
+  }
+
+  /**
+   * Computes accuracy, timing, common wrong answers, discrimination and quality flags
+   * from the aggregated attempts at an exercise.
+   * 
+   * @private
+   */
+  private async calculatePerformanceMetrics(
+    exerciseId: string,
+    stats: ExerciseAttemptStats
+  ): Promise<ExerciseAnalytics['performanceMetrics']> {
+    const firstAttempts = stats.total_attempts > 0
+      ? await this.exerciseAttemptRepository.findFirstAttempts(exerciseId)
+      : [];
+
+    const uniqueLearners = stats.unique_learners;
+    const firstCorrect = firstAttempts.filter(attempt => attempt.correct).length;
+
+    const firstAttemptAccuracy = this.percentage(firstCorrect, firstAttempts.length);
+    const discriminationIndex = await this.calculateDiscriminationIndex(exerciseId, stats.lesson_ids, firstAttempts);
+
+    const flags: ExerciseQualityFlag[] = [];
+    if (uniqueLearners >= MIN_FLAGGED_LEARNERS) {
+      if (firstAttemptAccuracy >= 95) {
+        flags.push('too_easy');
+      } else if (firstAttemptAccuracy <= 20) {
+        flags.push('too_hard');
+      }
+    }
+    if (discriminationIndex !== null) {
+      if (discriminationIndex < 0) {
+        flags.push('negative_discrimination');
+      } else if (discriminationIndex < 0.2) {
+        flags.push('low_discrimination');
       }
+    }
+
+    return {
+      totalAttempts: stats.total_attempts,
+      uniqueLearners,
+      completionRate: this.percentage(stats.learners_correct, uniqueLearners),
+      accuracy: this.percentage(stats.correct_attempts, stats.total_attempts),
+      firstAttemptAccuracy,
+      averageScore: Math.round((stats.average_score ?? 0) * 100),
+      averageTimeSpent: stats.average_duration_seconds !== null
+        ? Math.round(stats.average_duration_seconds)
+        : null,
+      discriminationIndex,
+      commonWrongAnswers: await this.findCommonWrongAnswers(
+        exerciseId,
+        stats.total_attempts - stats.correct_attempts
+      ),
+      flags
     };
   }
 
+  /**
+   * Upper-lower discrimination index: the first-attempt accuracy of the top 27% of learners
+   * minus that of the bottom 27%, ranked by their average score on the other exercises of the
+   * same lessons. Returns null when too few learners have such a score.
+   * 
+   * @private
+   */
+  private async calculateDiscriminationIndex(
+    exerciseId: string,
+    lessonIds: string[],
+    firstAttempts: FirstExerciseAttempt[]
+  ): Promise<number | null> {
+    if (firstAttempts.length < MIN_DISCRIMINATION_LEARNERS) {
+      return null;
+    }
+
+    const firstAttemptByLearner = new Map(firstAttempts.map(attempt => [attempt.user_id, attempt]));
+    const restScores = await this.exerciseAttemptRepository.findRestScores(
+      exerciseId,
+      lessonIds,
+      [...firstAttemptByLearner.keys()]
+    );
+
+    const ranked = [...restScores.entries()]
+      .sort(([, a], [, b]) => b - a)
+      .map(([userId]) => firstAttemptByLearner.get(userId)!);
+
+    if (ranked.length < MIN_DISCRIMINATION_LEARNERS) {
+      return null;
+    }
+
+    const groupSize = Math.round(ranked.length * DISCRIMINATION_GROUP_SHARE);
+    const accuracy = (group: FirstExerciseAttempt[]) =>
+      group.filter(attempt => attempt.correct).length / group.length;
+
+    const index = accuracy(ranked.slice(0, groupSize)) - accuracy(ranked.slice(-groupSize));
+    return Math.round(index * 100) / 100;
+  }
+
+  /**
+   * Returns the most frequent wrong answers, with their share of all wrong attempts.
+   * 
+   * @private
+   */
+  private async findCommonWrongAnswers(exerciseId: string, wrongAttempts: number): Promise<CommonWrongAnswer[]> {
+    if (wrongAttempts === 0) {
+      return [];
+    }
+
+    const answers = await this.exerciseAttemptRepository.findCommonWrongAnswers(exerciseId, COMMON_WRONG_ANSWERS_LIMIT);
+    return answers.map(({ answer, count }) => ({
+      answer,
+      count,
+      percentage: this.percentage(count, wrongAttempts)
+    }));
+  }
+
+  /**
+   * Counts attempts in each of the last 12 weeks and the last 6 calendar months.
+   * 
+   * @private
+   */
+  private async calculateTrends(exerciseId: string, now: Date): Promise<ExerciseAnalytics['trends']> {
+    const weekMs = 7 * 24 * 60 * 60 * 1000;
+    const firstMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 5, 1));
+
+    const [weeklyCounts, monthlyCounts] = await Promise.all([
+      this.exerciseAttemptRepository.countByWeek(exerciseId, now, 12),
+      this.exerciseAttemptRepository.countByMonth(exerciseId, firstMonth)
+    ]);
+
+    const weeklyUsage = Array.from({ length: 12 }, (_, i) => {
+      const weekStart = now.getTime() - ((i + 1) * weekMs);
+      return {
+        week: new Date(weekStart).toISOString().split('T')[0] || '',
+        count: weeklyCounts.get(i) ?? 0
+      };
+    }).reverse();
+
+    const monthlyUsage = Array.from({ length: 6 }, (_, i) => {
+      const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i, 1));
+      const month = monthStart.toISOString().substring(0, 7);
+      return {
+        month,
+        count: monthlyCounts.get(month) ?? 0
+      };
+    }).reverse();
+
+    return { weeklyUsage, monthlyUsage };
+  }
+
+  /**
+   * Rounds a ratio to an integer percentage, 0 when there is nothing to count.
+   * 
+   * @private
+   */
+  private percentage(part: number, total: number): number {
+    return total > 0 ? Math.round((part / total) * 100) : 0;
+  }
+
   /**
    * Retrieves usage statistics for multiple exercises in batch.
    * 
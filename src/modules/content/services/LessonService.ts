@@ -58,7 +58,7 @@
  */
 
 import { PrismaClient } from '@prisma/client';
-import { LessonRepository, ExerciseRepository, ModuleRepository } from '../repositories';
+import { LessonRepository, ExerciseRepository, ModuleRepository, TrashRepository } from '../repositories';
 import {
   Lesson,
   CreateLessonDto,
@@ -68,6 +68,7 @@ import {
 import { PaginatedResult, QueryOptions } from '../../../shared/types';
 import { AppError } from '../../../shared/middleware/errorHandler';
 import { HttpStatus, ErrorCodes } from '../../../shared/types';
+import { ContentChangeService } from './ContentChangeService';
 
 /**
  * Service class for comprehensive lesson management operations within the WayrApp content system.
@@ -80,6 +81,8 @@ export class LessonService {
   private lessonRepository: LessonRepository;
   private exerciseRepository: ExerciseRepository;
   private moduleRepository: ModuleRepository;
+  private trashRepository: TrashRepository;
+  private contentChangeService: ContentChangeService;
 
   /**
    * Initializes the LessonService with required repository dependencies.
@@ -90,6 +93,8 @@ export class LessonService {
     this.lessonRepository = new LessonRepository(prisma);
     this.exerciseRepository = new ExerciseRepository(prisma);
     this.moduleRepository = new ModuleRepository(prisma);
+    this.trashRepository = new TrashRepository(prisma);
+    this.contentChangeService = new ContentChangeService(prisma);
   }
 
   /**
@@ -124,7 +129,7 @@ export class LessonService {
     }
 
     // Check if lesson with same ID already exists
-    const existingLesson = await this.lessonRepository.exists(data.id);
+    const existingLesson = await this.lessonRepository.isIdTaken(data.id);
     if (existingLesson) {
       throw new AppError(
         `Lesson with ID '${data.id}' already exists`,
@@ -143,7 +148,14 @@ export class LessonService {
       );
     }
 
-    return await this.lessonRepository.create(data);
+    const result = await this.lessonRepository.create(data);
+
+    // Record the change for incremental package sync
+    await this.contentChangeService.recordChangesWithin('module', data.module_id, [
+      { entity_type: 'lesson', entity_id: result.id, operation: 'upsert' }
+    ]);
+
+    return result;
   }
 
   /**
@@ -278,15 +290,21 @@ export class LessonService {
       }
     }
 
-    return await this.lessonRepository.update(id, moduleId, data);
+    const result = await this.lessonRepository.update(id, moduleId, data);
+
+    // Record the change for incremental package sync
+    await this.contentChangeService.recordChangesWithin('module', moduleId, [
+      { entity_type: 'lesson', entity_id: id, operation: 'upsert' }
+    ]);
+
+    return result;
   }
 
   /**
-   * Permanently deletes a lesson and all its associated exercise assignments.
+   * Moves a lesson to the trash together with its exercise assignments.
    * Uses composite key lookup to prevent horizontal access vulnerabilities.
    * 
    * Validates lesson existence before deletion and ensures the operation completes successfully.
-   * This operation cascades to remove all lesson-exercise relationships.
    * 
    * @param {string} id - The unique lesson identifier
    * @param {string} moduleId - The module identifier to ensure lesson belongs to the correct module
@@ -296,7 +314,7 @@ export class LessonService {
    * 
    * @example
    * await lessonService.deleteLesson('lesson-intro-greetings', 'module-basic-conversation');
-   * // Lesson and all its exercise assignments are now deleted
+   * // Lesson is now in the trash, its exercise assignments are kept for a restore
    */
   async deleteLesson(id: string, moduleId: string): Promise<void> {
     // Check if lesson exists and belongs to the specified module
@@ -309,7 +327,7 @@ export class LessonService {
       );
     }
 
-    const success = await this.lessonRepository.delete(id, moduleId);
+    const success = await this.trashRepository.moveToTrash('lesson', id);
     if (!success) {
       throw new AppError(
         `Failed to delete lesson with ID '${id}'`,
@@ -317,6 +335,11 @@ export class LessonService {
         ErrorCodes.DATABASE_ERROR
       );
     }
+
+    // Record the change for incremental package sync
+    await this.contentChangeService.recordChangesWithin('module', moduleId, [
+      { entity_type: 'lesson', entity_id: id, operation: 'delete' }
+    ]);
   }
 
   /**
@@ -385,7 +408,14 @@ export class LessonService {
       );
     }
 
-    return await this.lessonRepository.assignExercise(lessonId, data.exercise_id, data.order);
+    const result = await this.lessonRepository.assignExercise(lessonId, data.exercise_id, data.order);
+
+    // Exercise assignments are part of the lesson in the package
+    await this.contentChangeService.recordChangesWithin('lesson', lessonId, [
+      { entity_type: 'lesson', entity_id: lessonId, operation: 'upsert' }
+    ]);
+
+    return result;
   }
 
   /**
@@ -446,6 +476,11 @@ export class LessonService {
         ErrorCodes.DATABASE_ERROR
       );
     }
+
+    // Exercise assignments are part of the lesson in the package
+    await this.contentChangeService.recordChangesWithin('lesson', lessonId, [
+      { entity_type: 'lesson', entity_id: lessonId, operation: 'upsert' }
+    ]);
   }
 
   /**
@@ -556,6 +591,11 @@ export class LessonService {
         ErrorCodes.DATABASE_ERROR
       );
     }
+
+    // Exercise assignments are part of the lesson in the package
+    await this.contentChangeService.recordChangesWithin('lesson', lessonId, [
+      { entity_type: 'lesson', entity_id: lessonId, operation: 'upsert' }
+    ]);
   }
 
   /**
@@ -641,5 +681,10 @@ export class LessonService {
         ErrorCodes.DATABASE_ERROR
       );
     }
+
+    // Record the change for incremental package sync
+    await this.contentChangeService.recordChangesWithin('module', moduleId, lessonIds.map(lessonId => ({
+      entity_type: 'lesson' as const, entity_id: lessonId, operation: 'upsert' as const
+    })));
   }
 }
\ No newline at end of file
@@ -0,0 +1,218 @@
+// src/modules/content/services/TrashService.ts
+
+/**
+ * Trash for deleted course content.
+ *
+ * Deleting a course, level, section, module, lesson or exercise moves it to the trash instead of
+ * removing it: the content disappears from every query, course tree and published package but keeps
+ * its ID, its children and the learner progress recorded on it. Admins can list the trash and restore
+ * an entry, which brings back the children that were deleted with it. Children deleted together with
+ * their parent can only come back with the parent, and content whose parent is in the trash cannot be
+ * restored until the parent is.
+ *
+ * Trashed content is deleted for good once it has been in the trash for longer than the retention
+ * window (CONTENT_TRASH_RETENTION_DAYS, 30 days by default). The purge runs with the scheduled
+ * database cleanup.
+ *
+ * @module TrashService
+ * @category Content
+ * @category Services
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const trashService = new TrashService(prisma);
+ *
+ * // List the lessons deleted from a course
+ * const trash = await trashService.getTrash({ type: 'lesson', course_id: 'spanish-101' });
+ *
+ * // Restore one of them into its module
+ * const lesson = await trashService.restore('lesson', 'lesson-001', 'module-greetings');
+ */
+
+import { PrismaClient } from '@prisma/client';
+import {
+  CourseRepository,
+  ExerciseRepository,
+  LessonRepository,
+  LevelRepository,
+  ModuleRepository,
+  SectionRepository,
+  TrashRepository
+} from '../repositories';
+import {
+  ContentEntityType,
+  Course,
+  Exercise,
+  Lesson,
+  Level,
+  Module,
+  Section,
+  TrashFilters,
+  TrashItem
+} from '../types';
+import { PaginatedResult, ErrorCodes, HttpStatus } from '../../../shared/types';
+import { AppError } from '../../../shared/middleware/errorHandler';
+import { cacheService, CACHE_KEYS, logger } from '../../../shared/utils';
+import { createPaginationResult, sanitizeLimit, sanitizePage } from '../../../shared/utils/repositoryHelpers';
+import { ContentChangeService } from './ContentChangeService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ENTITY_NAMES: Record<ContentEntityType, string> = {
+  course: 'Course',
+  level: 'Level',
+  section: 'Section',
+  module: 'Module',
+  lesson: 'Lesson',
+  exercise: 'Exercise',
+};
+
+const PARENT_TYPES: Partial<Record<ContentEntityType, ContentEntityType>> = {
+  level: 'course',
+  section: 'level',
+  module: 'section',
+  lesson: 'module',
+};
+
+export type RestoredEntity = Course | Level | Section | Module | Lesson | Exercise;
+
+/**
+ * Service for listing, restoring and purging trashed content.
+ */
+export class TrashService {
+  private trashRepository: TrashRepository;
+  private courseRepository: CourseRepository;
+  private levelRepository: LevelRepository;
+  private sectionRepository: SectionRepository;
+  private moduleRepository: ModuleRepository;
+  private lessonRepository: LessonRepository;
+  private exerciseRepository: ExerciseRepository;
+  private contentChangeService: ContentChangeService;
+
+  /**
+   * @param {PrismaClient} prisma - Prisma database client for repository initialization
+   * @param {number} [retentionDays] - Days trashed content is kept before it is purged
+   */
+  constructor(
+    prisma: PrismaClient,
+    private retentionDays: number = parseInt(process.env['CONTENT_TRASH_RETENTION_DAYS'] || '30')
+  ) {
+    this.trashRepository = new TrashRepository(prisma);
+    this.courseRepository = new CourseRepository(prisma);
+    this.levelRepository = new LevelRepository(prisma);
+    this.sectionRepository = new SectionRepository(prisma);
+    this.moduleRepository = new ModuleRepository(prisma);
+    this.lessonRepository = new LessonRepository(prisma);
+    this.exerciseRepository = new ExerciseRepository(prisma);
+    this.contentChangeService = new ContentChangeService(prisma);
+  }
+
+  /**
+   * Lists the trashed content that can be restored, most recently deleted first.
+   *
+   * @param {TrashFilters & { page?: number; limit?: number }} [options] - Entity type and course filters with pagination
+   * @returns {Promise<PaginatedResult<TrashItem>>} Trash entries with the date they will be purged
+   */
+  async getTrash(options: TrashFilters & { page?: number; limit?: number } = {}): Promise<PaginatedResult<TrashItem>> {
+    const page = sanitizePage(options.page);
+    const limit = sanitizeLimit(options.limit);
+    const filters: TrashFilters = {
+      ...(options.type && { type: options.type }),
+      ...(options.course_id && { course_id: options.course_id }),
+    };
+
+    const { entries, total } = await this.trashRepository.findTrash(filters, page, limit);
+    const items = entries.map(entry => ({
+      ...entry,
+      purge_at: new Date(entry.deleted_at.getTime() + this.retentionDays * DAY_MS),
+    }));
+
+    return createPaginationResult(items, total, page, limit);
+  }
+
+  /**
+   * Takes content out of the trash together with the children deleted with it.
+   *
+   * @param {ContentEntityType} entityType - Type of the trashed entity
+   * @param {string} id - Identifier of the trashed entity
+   * @param {string} [parentId] - Parent the entity must belong to, as given in the restore route
+   * @returns {Promise<RestoredEntity>} The restored entity
+   * @throws {AppError} When the entity is not in the trash under the parent (404), or the parent is in the trash (409)
+   */
+  async restore(entityType: ContentEntityType, id: string, parentId?: string): Promise<RestoredEntity> {
+    const entityName = ENTITY_NAMES[entityType];
+    const trashed = await this.trashRepository.findTrashed(entityType, id);
+    if (!trashed || (parentId !== undefined && trashed.parent_id !== parentId)) {
+      throw new AppError(`${entityName} with ID '${id}' is not in the trash`, HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+
+    if (trashed.parent_deleted) {
+      const parentName = ENTITY_NAMES[PARENT_TYPES[entityType]!].toLowerCase();
+      throw new AppError(
+        `${entityName} with ID '${id}' belongs to a ${parentName} in the trash. Restore the ${parentName} '${trashed.parent_id}' first`,
+        HttpStatus.CONFLICT,
+        ErrorCodes.CONFLICT
+      );
+    }
+
+    const restored = await this.trashRepository.restore(entityType, id, trashed.deleted_at);
+    if (restored.length === 0) {
+      throw new AppError(`${entityName} with ID '${id}' is not in the trash`, HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+
+    // Record the restored content for incremental package sync; courses are synced as a whole package
+    if (entityType === 'exercise') {
+      await this.contentChangeService.recordExerciseChange(id, 'upsert', true);
+    } else if (trashed.course_id && entityType !== 'course') {
+      await this.contentChangeService.recordChanges(
+        trashed.course_id,
+        restored.map(entity => ({ ...entity, operation: 'upsert' as const }))
+      );
+    }
+
+    if (trashed.course_id) {
+      await cacheService.delete(CACHE_KEYS.PACKAGED_COURSE(trashed.course_id));
+    }
+
+    const entity = await this.findRestored(entityType, id, trashed.parent_id);
+    if (!entity) {
+      throw new AppError(`Failed to restore ${entityName.toLowerCase()} with ID '${id}'`, HttpStatus.INTERNAL_SERVER_ERROR, ErrorCodes.INTERNAL_ERROR);
+    }
+
+    return entity;
+  }
+
+  /**
+   * Deletes content that has been in the trash for longer than the retention window.
+   *
+   * @returns {Promise<number>} Number of purged entities, not counting the children purged with them
+   */
+  async purgeExpired(): Promise<number> {
+    const cutoff = new Date(Date.now() - this.retentionDays * DAY_MS);
+    const purged = await this.trashRepository.purgeDeletedBefore(cutoff);
+
+    if (purged > 0) {
+      logger.info(`Purged ${purged} content entities trashed before ${cutoff.toISOString()}`);
+    }
+
+    return purged;
+  }
+
+  private async findRestored(entityType: ContentEntityType, id: string, parentId: string | null): Promise<RestoredEntity | null> {
+    switch (entityType) {
+      case 'course':
+        return await this.courseRepository.findById(id);
+      case 'level':
+        return await this.levelRepository.findById(id);
+      case 'section':
+        return await this.sectionRepository.findById(id);
+      case 'module':
+        return await this.moduleRepository.findById(id);
+      case 'lesson':
+        return await this.lessonRepository.findById(id, parentId!);
+      case 'exercise':
+        return await this.exerciseRepository.findById(id);
+    }
+  }
+}
@@ -0,0 +1,460 @@
+// src/modules/content/services/UnlockRuleService.ts
+
+/**
+ * Declarative unlock rules for gating course content behind learner progress.
+ *
+ * Content creators attach unlock rules to any level, section, module or lesson of a course. A piece
+ * of content is unlocked for a learner when every rule attached to it is met and its parent content
+ * is unlocked as well, so locking a level locks everything inside it. Courses without rules are
+ * fully unlocked, which keeps existing courses free to complete in any order.
+ *
+ * Supported rule types:
+ * - `previous_lesson_completed`: the referenced lesson must be completed. Without a reference it is
+ *   the lesson right before the target in course order (the last lesson of the previous module for
+ *   a module target, and so on).
+ * - `minimum_score`: the referenced lesson (same default) must be completed with at least `min_score`.
+ * - `level_exam_passed`: every lesson of the exam modules in the referenced level must be completed
+ *   with at least `min_score` (EXAM_PASSING_SCORE by default). Without a reference it is the level
+ *   before the one containing the target. Levels without exam modules have nothing to pass.
+ * - `xp_threshold`: the learner must have earned at least `min_experience` experience points.
+ *
+ * Rules pointing at content that no longer exists in the course are treated as met, so deleting a
+ * lesson never locks learners out of the rest of the course.
+ *
+ * @module UnlockRuleService
+ * @category Content
+ * @category Services
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const unlockRuleService = new UnlockRuleService(prisma);
+ *
+ * // Require 80% in the last lesson of A1 before starting the A2 level
+ * await unlockRuleService.createRule('spanish-101', {
+ *   target_type: 'level',
+ *   target_id: 'spanish-101-a2',
+ *   rule_type: 'minimum_score',
+ *   min_score: 80
+ * });
+ *
+ * // Reject lesson completions for locked lessons
+ * await unlockRuleService.assertLessonUnlocked(userId, 'lesson-a2-001');
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { CourseRepository, UnlockRuleRepository } from '../repositories';
+import {
+  UnlockRule,
+  UnlockStatus,
+  UnlockTargetType,
+  CourseUnlockStatus,
+  CourseOutline,
+  CreateUnlockRuleDto,
+  PackagedCourse
+} from '../types';
+import { AppError } from '../../../shared/middleware/errorHandler';
+import { ErrorCodes, HttpStatus } from '../../../shared/types';
+
+/**
+ * Minimum score required in every exam lesson when a level_exam_passed rule has no min_score
+ */
+export const EXAM_PASSING_SCORE = 70;
+
+/**
+ * Position of a level, section, module or lesson within the course order
+ */
+interface OutlineNode {
+  target_type: UnlockTargetType;
+  target_id: string;
+  parent_key: string | null;
+  preceding_lesson_id: string | null;
+  previous_level_id: string | null;
+}
+
+/**
+ * Learner data needed to evaluate the rules of one course
+ */
+interface EvaluationContext {
+  lesson_ids: Set<string>;
+  exam_lessons: Map<string, string[]>;
+  scores: Map<string, number | null>;
+  experience: number;
+}
+
+const nodeKey = (targetType: UnlockTargetType, targetId: string): string => `${targetType}:${targetId}`;
+
+/**
+ * Service for managing unlock rules and evaluating them for a learner.
+ *
+ * @class UnlockRuleService
+ */
+export class UnlockRuleService {
+  private unlockRuleRepository: UnlockRuleRepository;
+  private courseRepository: CourseRepository;
+
+  /**
+   * Creates a new UnlockRuleService instance.
+   *
+   * @param {PrismaClient} prisma - Prisma database client
+   */
+  constructor(prisma: PrismaClient) {
+    this.unlockRuleRepository = new UnlockRuleRepository(prisma);
+    this.courseRepository = new CourseRepository(prisma);
+  }
+
+  /**
+   * Lists the unlock rules of a course.
+   *
+   * @param {string} courseId - Course identifier
+   * @returns {Promise<UnlockRule[]>} Rules ordered by creation date
+   * @throws {AppError} When the course does not exist
+   */
+  async getRules(courseId: string): Promise<UnlockRule[]> {
+    const courseExists = await this.courseRepository.exists(courseId);
+    if (!courseExists) {
+      throw new AppError(`Course with ID '${courseId}' not found`, HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+
+    return await this.unlockRuleRepository.findByCourseId(courseId);
+  }
+
+  /**
+   * Attaches an unlock rule to a level, section, module or lesson of a course.
+   *
+   * @param {string} courseId - Course the target belongs to
+   * @param {CreateUnlockRuleDto} data - Rule definition
+   * @returns {Promise<UnlockRule>} The created rule
+   * @throws {AppError} When the target is not part of the course (404) or the reference is not part of the course (400)
+   */
+  async createRule(courseId: string, data: CreateUnlockRuleDto): Promise<UnlockRule> {
+    const targetCourseId = await this.unlockRuleRepository.findTargetCourseId(data.target_type, data.target_id);
+    if (targetCourseId !== courseId) {
+      throw new AppError(
+        `${data.target_type} with ID '${data.target_id}' not found in course '${courseId}'`,
+        HttpStatus.NOT_FOUND,
+        ErrorCodes.NOT_FOUND
+      );
+    }
+
+    if (data.reference_id) {
+      const referenceType: UnlockTargetType = data.rule_type === 'level_exam_passed' ? 'level' : 'lesson';
+      const referenceCourseId = await this.unlockRuleRepository.findTargetCourseId(referenceType, data.reference_id);
+      if (referenceCourseId !== courseId) {
+        throw new AppError(
+          `Referenced ${referenceType} '${data.reference_id}' is not part of course '${courseId}'`,
+          HttpStatus.BAD_REQUEST,
+          ErrorCodes.VALIDATION_ERROR
+        );
+      }
+    }
+
+    return await this.unlockRuleRepository.create(courseId, data);
+  }
+
+  /**
+   * Removes an unlock rule from a course.
+   *
+   * @param {string} courseId - Course the rule belongs to
+   * @param {string} ruleId - Rule identifier
+   * @returns {Promise<void>}
+   * @throws {AppError} When the rule does not exist in the course
+   */
+  async deleteRule(courseId: string, ruleId: string): Promise<void> {
+    const rule = await this.unlockRuleRepository.findById(ruleId);
+    if (!rule || rule.course_id !== courseId) {
+      throw new AppError(`Unlock rule with ID '${ruleId}' not found`, HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+
+    const success = await this.unlockRuleRepository.delete(ruleId);
+    if (!success) {
+      throw new AppError(`Failed to delete unlock rule with ID '${ruleId}'`, HttpStatus.INTERNAL_SERVER_ERROR, ErrorCodes.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * Evaluates the unlock state of every level, section, module and lesson of a course for a learner.
+   *
+   * Items are returned in course order. The unmet rules of an item include the unmet rules of its
+   * parents, so a lesson inside a locked module lists why the module is locked.
+   *
+   * @param {string} userId - Learner identifier
+   * @param {string} courseId - Course identifier
+   * @returns {Promise<CourseUnlockStatus>} Lock state of every item of the course
+   * @throws {AppError} When the course does not exist
+   */
+  async getCourseUnlockStatus(userId: string, courseId: string): Promise<CourseUnlockStatus> {
+    const outline = await this.unlockRuleRepository.findCourseOutline(courseId);
+    if (!outline) {
+      throw new AppError(`Course with ID '${courseId}' not found`, HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+
+    const rules = await this.unlockRuleRepository.findByCourseId(courseId);
+    const items = await this.evaluate(userId, outline, rules);
+
+    return { course_id: courseId, items };
+  }
+
+  /**
+   * Ensures a learner may complete a lesson.
+   *
+   * Lessons that do not exist are ignored so that callers can report them with their own error.
+   *
+   * @param {string} userId - Learner identifier
+   * @param {string} lessonId - Lesson identifier
+   * @param {number} [pendingExperience] - Experience earned but not yet saved to the learner's progress, such as during an offline sync
+   * @returns {Promise<void>}
+   * @throws {AppError} When the lesson is locked (403)
+   */
+  async assertLessonUnlocked(userId: string, lessonId: string, pendingExperience = 0): Promise<void> {
+    const courseId = await this.unlockRuleRepository.findTargetCourseId('lesson', lessonId);
+    if (!courseId) {
+      return;
+    }
+
+    const rules = await this.unlockRuleRepository.findByCourseId(courseId);
+    if (rules.length === 0) {
+      return;
+    }
+
+    const outline = await this.unlockRuleRepository.findCourseOutline(courseId);
+    if (!outline) {
+      return;
+    }
+
+    const items = await this.evaluate(userId, outline, rules, pendingExperience);
+    const status = items.find(item => item.target_type === 'lesson' && item.target_id === lessonId);
+
+    if (status?.locked) {
+      const unmetRules = [...new Set(status.unmet_rules.map(rule => rule.rule_type))];
+      throw new AppError(
+        `Lesson is locked. Unmet unlock rules: ${unmetRules.join(', ')}`,
+        HttpStatus.FORBIDDEN,
+        ErrorCodes.AUTHORIZATION_ERROR
+      );
+    }
+  }
+
+  /**
+   * Returns a copy of a packaged course with a `locked` flag on every level, section, module and lesson.
+   *
+   * The packaged course itself is shared through the cache, so it is never modified.
+   *
+   * @param {string} userId - Learner identifier
+   * @param {PackagedCourse} packagedCourse - Packaged course to annotate
+   * @returns {Promise<PackagedCourse>} Packaged course with the learner's lock state
+   */
+  async applyUnlockState(userId: string, packagedCourse: PackagedCourse): Promise<PackagedCourse> {
+    const rules = await this.unlockRuleRepository.findByCourseId(packagedCourse.course.id);
+    const outline: CourseOutline = {
+      course_id: packagedCourse.course.id,
+      levels: packagedCourse.levels.map(level => ({
+        id: level.id,
+        sections: level.sections.map(section => ({
+          id: section.id,
+          modules: section.modules.map(module => ({
+            id: module.id,
+            module_type: module.module_type,
+            lessons: module.lessons.map(lesson => ({ id: lesson.id }))
+          }))
+        }))
+      }))
+    };
+
+    const items = await this.evaluate(userId, outline, rules);
+    const locked = new Set(
+      items.filter(item => item.locked).map(item => nodeKey(item.target_type, item.target_id))
+    );
+
+    return {
+      ...packagedCourse,
+      levels: packagedCourse.levels.map(level => ({
+        ...level,
+        locked: locked.has(nodeKey('level', level.id)),
+        sections: level.sections.map(section => ({
+          ...section,
+          locked: locked.has(nodeKey('section', section.id)),
+          modules: section.modules.map(module => ({
+            ...module,
+            locked: locked.has(nodeKey('module', module.id)),
+            lessons: module.lessons.map(lesson => ({
+              ...lesson,
+              locked: locked.has(nodeKey('lesson', lesson.id))
+            }))
+          }))
+        }))
+      }))
+    };
+  }
+
+  /**
+   * Evaluates the rules of a course for a learner.
+   *
+   * @param {string} userId - Learner identifier
+   * @param {CourseOutline} outline - Ordered course structure
+   * @param {UnlockRule[]} rules - Rules of the course
+   * @param {number} [pendingExperience] - Experience to add to the saved experience of the learner
+   * @returns {Promise<UnlockStatus[]>} Lock state of every item in course order
+   */
+  private async evaluate(
+    userId: string,
+    outline: CourseOutline,
+    rules: UnlockRule[],
+    pendingExperience = 0
+  ): Promise<UnlockStatus[]> {
+    const nodes = this.buildNodes(outline);
+
+    if (rules.length === 0) {
+      return nodes.map(node => ({
+        target_type: node.target_type,
+        target_id: node.target_id,
+        locked: false,
+        unmet_rules: []
+      }));
+    }
+
+    const lessonIds = nodes.filter(node => node.target_type === 'lesson').map(node => node.target_id);
+    const needsExperience = rules.some(rule => rule.rule_type === 'xp_threshold');
+    const [scores, experience] = await Promise.all([
+      this.unlockRuleRepository.findLessonScores(userId, lessonIds),
+      needsExperience ? this.unlockRuleRepository.findUserExperience(userId) : Promise.resolve(0)
+    ]);
+
+    const examLessons = new Map<string, string[]>();
+    for (const level of outline.levels) {
+      examLessons.set(
+        level.id,
+        level.sections.flatMap(section => section.modules
+          .filter(module => module.module_type === 'exam')
+          .flatMap(module => module.lessons.map(lesson => lesson.id)))
+      );
+    }
+
+    const context: EvaluationContext = {
+      lesson_ids: new Set(lessonIds),
+      exam_lessons: examLessons,
+      scores,
+      experience: experience + pendingExperience
+    };
+
+    const rulesByTarget = new Map<string, UnlockRule[]>();
+    for (const rule of rules) {
+      const key = nodeKey(rule.target_type, rule.target_id);
+      rulesByTarget.set(key, [...(rulesByTarget.get(key) ?? []), rule]);
+    }
+
+    // Nodes are in course order, so parents are always evaluated before their children
+    const statuses = new Map<string, UnlockStatus>();
+    for (const node of nodes) {
+      const key = nodeKey(node.target_type, node.target_id);
+      const inherited = node.parent_key ? statuses.get(node.parent_key)?.unmet_rules ?? [] : [];
+      const unmet = (rulesByTarget.get(key) ?? []).filter(rule => !this.isRuleMet(rule, node, context));
+      const unmetRules = [...inherited, ...unmet];
+
+      statuses.set(key, {
+        target_type: node.target_type,
+        target_id: node.target_id,
+        locked: unmetRules.length > 0,
+        unmet_rules: unmetRules
+      });
+    }
+
+    return [...statuses.values()];
+  }
+
+  /**
+   * Flattens a course outline into nodes in course order, recording for each node the lesson
+   * right before it and the level before the one containing it.
+   *
+   * @param {CourseOutline} outline - Ordered course structure
+   * @returns {OutlineNode[]} Levels, sections, modules and lessons in course order
+   */
+  private buildNodes(outline: CourseOutline): OutlineNode[] {
+    const nodes: OutlineNode[] = [];
+    let lastLessonId: string | null = null;
+    let previousLevelId: string | null = null;
+
+    for (const level of outline.levels) {
+      const levelKey = nodeKey('level', level.id);
+      nodes.push({
+        target_type: 'level',
+        target_id: level.id,
+        parent_key: null,
+        preceding_lesson_id: lastLessonId,
+        previous_level_id: previousLevelId
+      });
+
+      for (const section of level.sections) {
+        const sectionKey = nodeKey('section', section.id);
+        nodes.push({
+          target_type: 'section',
+          target_id: section.id,
+          parent_key: levelKey,
+          preceding_lesson_id: lastLessonId,
+          previous_level_id: previousLevelId
+        });
+
+        for (const module of section.modules) {
+          const moduleKey = nodeKey('module', module.id);
+          nodes.push({
+            target_type: 'module',
+            target_id: module.id,
+            parent_key: sectionKey,
+            preceding_lesson_id: lastLessonId,
+            previous_level_id: previousLevelId
+          });
+
+          for (const lesson of module.lessons) {
+            nodes.push({
+              target_type: 'lesson',
+              target_id: lesson.id,
+              parent_key: moduleKey,
+              preceding_lesson_id: lastLessonId,
+              previous_level_id: previousLevelId
+            });
+            lastLessonId = lesson.id;
+          }
+        }
+      }
+
+      previousLevelId = level.id;
+    }
+
+    return nodes;
+  }
+
+  /**
+   * Checks a single rule for a node.
+   *
+   * @param {UnlockRule} rule - Rule attached to the node
+   * @param {OutlineNode} node - Content the rule is attached to
+   * @param {EvaluationContext} context - Learner data for the course
+   * @returns {boolean} True when the rule is met
+   */
+  private isRuleMet(rule: UnlockRule, node: OutlineNode, context: EvaluationContext): boolean {
+    switch (rule.rule_type) {
+      case 'previous_lesson_completed': {
+        const lessonId = rule.reference_id ?? node.preceding_lesson_id;
+        if (!lessonId || !context.lesson_ids.has(lessonId)) {
+          return true;
+        }
+        return context.scores.has(lessonId);
+      }
+      case 'minimum_score': {
+        const lessonId = rule.reference_id ?? node.preceding_lesson_id;
+        if (!lessonId || !context.lesson_ids.has(lessonId)) {
+          return true;
+        }
+        return (context.scores.get(lessonId) ?? -1) >= (rule.min_score ?? 0);
+      }
+      case 'level_exam_passed': {
+        const levelId = rule.reference_id ?? node.previous_level_id;
+        const examLessons = levelId ? context.exam_lessons.get(levelId) ?? [] : [];
+        const passingScore = rule.min_score ?? EXAM_PASSING_SCORE;
+        return examLessons.every(lessonId => (context.scores.get(lessonId) ?? -1) >= passingScore);
+      }
+      case 'xp_threshold':
+        return context.experience >= (rule.min_experience ?? 0);
+    }
+  }
+}
@@ -0,0 +1,209 @@
+// src/modules/content/services/__tests__/ContentChangeService.test.ts
+
+import { ContentChangeService } from '../ContentChangeService';
+import { ContentChangeRepository, CourseVersionRepository } from '../../repositories';
+import { CourseSnapshot, CourseVersionDetail } from '../../types';
+import { cacheService } from '../../../../shared/utils';
+
+jest.mock('../../repositories');
+jest.mock('../../../../shared/utils', () => ({
+    cacheService: {
+        delete: jest.fn(),
+    },
+    CACHE_KEYS: {
+        PACKAGED_COURSE: (id: string) => `packaged_course:${id}`,
+    },
+}));
+
+/**
+ * Test suite for ContentChangeService, covering change recording and the change sets returned to
+ * offline clients for incremental package sync.
+ */
+describe('ContentChangeService', () => {
+    let contentChangeService: ContentChangeService;
+    let mockContentChangeRepository: jest.Mocked<ContentChangeRepository>;
+    let mockCourseVersionRepository: jest.Mocked<CourseVersionRepository>;
+
+    const timestamps = { created_at: new Date('2024-01-01T00:00:00Z'), updated_at: new Date('2024-01-01T00:00:00Z') };
+    const exercise = { id: 'exercise-1', exercise_type: 'translation' as const, data: { source_text: 'Hi' }, ...timestamps };
+
+    // Published snapshot: course-1 > level-1 > section-1 > module-1 > lesson-2 (with exercise-1)
+    const snapshot: CourseSnapshot = {
+        course: {
+            id: 'course-1', source_language: 'en', target_language: 'es', name: 'Course',
+            description: '', is_public: true, ...timestamps
+        },
+        levels: [{
+            id: 'level-1', course_id: 'course-1', code: 'A1', name: 'Level', order: 1, ...timestamps,
+            sections: [{
+                id: 'section-1', level_id: 'level-1', name: 'Section', order: 1, ...timestamps,
+                modules: [{
+                    id: 'module-1', section_id: 'section-1', module_type: 'basic_lesson', name: 'Module', order: 1, ...timestamps,
+                    lessons: [{
+                        id: 'lesson-2', module_id: 'module-1', name: 'Lesson', experience_points: 10, order: 1, ...timestamps,
+                        exercises: [{ lesson_id: 'lesson-2', exercise_id: 'exercise-1', order: 1, exercise }]
+                    }]
+                }]
+            }]
+        }]
+    };
+
+    const publishedVersion = (revision: number): CourseVersionDetail => ({
+        id: 'version-1',
+        course_id: 'course-1',
+        version: 3,
+        revision,
+        notes: null,
+        published_by: null,
+        published_at: new Date('2024-01-02T00:00:00Z'),
+        snapshot
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        mockContentChangeRepository = {
+            recordChanges: jest.fn(),
+            findCourseRevision: jest.fn(),
+            findChangesBetween: jest.fn(),
+            findCourseId: jest.fn(),
+            findExerciseUsage: jest.fn(),
+        } as any;
+
+        mockCourseVersionRepository = {
+            findLatest: jest.fn(),
+        } as any;
+
+        (ContentChangeRepository as jest.MockedClass<typeof ContentChangeRepository>).mockImplementation(() => mockContentChangeRepository);
+        (CourseVersionRepository as jest.MockedClass<typeof CourseVersionRepository>).mockImplementation(() => mockCourseVersionRepository);
+
+        contentChangeService = new ContentChangeService({} as any);
+    });
+
+    describe('recordChanges', () => {
+        it('should record changes and invalidate the packaged course cache', async () => {
+            await contentChangeService.recordChange('course-1', 'level', 'level-1', 'upsert');
+
+            expect(mockContentChangeRepository.recordChanges).toHaveBeenCalledWith('course-1', [
+                { entity_type: 'level', entity_id: 'level-1', operation: 'upsert' }
+            ]);
+            expect(cacheService.delete).toHaveBeenCalledWith('packaged_course:course-1');
+        });
+
+        it('should skip courses that cannot be resolved', async () => {
+            mockContentChangeRepository.findCourseId.mockResolvedValue(null);
+
+            await contentChangeService.recordChangesWithin('module', 'missing-module', [
+                { entity_type: 'lesson', entity_id: 'lesson-1', operation: 'upsert' }
+            ]);
+
+            expect(mockContentChangeRepository.recordChanges).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('recordExerciseChange', () => {
+        it('should record deleted exercises together with the lessons using them in each course', async () => {
+            mockContentChangeRepository.findExerciseUsage.mockResolvedValue([
+                { course_id: 'course-1', lesson_id: 'lesson-1' },
+                { course_id: 'course-1', lesson_id: 'lesson-2' },
+                { course_id: 'course-2', lesson_id: 'lesson-9' }
+            ]);
+
+            await contentChangeService.recordExerciseChange('exercise-1', 'delete');
+
+            expect(mockContentChangeRepository.recordChanges).toHaveBeenCalledTimes(2);
+            expect(mockContentChangeRepository.recordChanges).toHaveBeenCalledWith('course-1', [
+                { entity_type: 'exercise', entity_id: 'exercise-1', operation: 'delete' },
+                { entity_type: 'lesson', entity_id: 'lesson-1', operation: 'upsert' },
+                { entity_type: 'lesson', entity_id: 'lesson-2', operation: 'upsert' }
+            ]);
+            expect(mockContentChangeRepository.recordChanges).toHaveBeenCalledWith('course-2', [
+                { entity_type: 'exercise', entity_id: 'exercise-1', operation: 'delete' },
+                { entity_type: 'lesson', entity_id: 'lesson-9', operation: 'upsert' }
+            ]);
+        });
+    });
+
+    describe('getChangesSince', () => {
+        it('should reject unknown and unpublished courses', async () => {
+            mockCourseVersionRepository.findLatest.mockResolvedValue(null);
+            mockContentChangeRepository.findCourseRevision.mockResolvedValue(null);
+
+            await expect(contentChangeService.getChangesSince('missing', 0)).rejects.toMatchObject({
+                statusCode: 404,
+                message: "Course with ID 'missing' not found"
+            });
+
+            mockContentChangeRepository.findCourseRevision.mockResolvedValue(4);
+            await expect(contentChangeService.getChangesSince('course-1', 0)).rejects.toMatchObject({
+                statusCode: 404,
+                message: "Course with ID 'course-1' has not been published yet"
+            });
+        });
+
+        it('should reject revisions ahead of the published version with a conflict', async () => {
+            mockCourseVersionRepository.findLatest.mockResolvedValue(publishedVersion(4));
+
+            await expect(contentChangeService.getChangesSince('course-1', 5)).rejects.toMatchObject({
+                statusCode: 409,
+                code: 'CONFLICT'
+            });
+            expect(mockContentChangeRepository.findChangesBetween).not.toHaveBeenCalled();
+        });
+
+        it('should return published content for the latest change of each entity', async () => {
+            mockCourseVersionRepository.findLatest.mockResolvedValue(publishedVersion(5));
+            mockContentChangeRepository.findChangesBetween.mockResolvedValue([
+                { entity_type: 'lesson', entity_id: 'lesson-1', operation: 'upsert', revision: 3 },
+                { entity_type: 'lesson', entity_id: 'lesson-2', operation: 'upsert', revision: 3 },
+                { entity_type: 'lesson', entity_id: 'lesson-1', operation: 'delete', revision: 4 },
+                { entity_type: 'module', entity_id: 'module-1', operation: 'delete', revision: 4 },
+                { entity_type: 'module', entity_id: 'module-1', operation: 'upsert', revision: 5 },
+                { entity_type: 'exercise', entity_id: 'exercise-1', operation: 'upsert', revision: 5 }
+            ]);
+
+            const changes = await contentChangeService.getChangesSince('course-1', 2);
+
+            expect(mockContentChangeRepository.findChangesBetween).toHaveBeenCalledWith('course-1', 2, 5);
+            expect(changes).toMatchObject({ course_id: 'course-1', since: 2, revision: 5, course: null, levels: [], sections: [] });
+            expect(changes.modules).toEqual([expect.objectContaining({ id: 'module-1', section_id: 'section-1' })]);
+            expect(changes.modules[0]).not.toHaveProperty('lessons');
+            expect(changes.lessons).toEqual([expect.objectContaining({ id: 'lesson-2', exercises: [expect.objectContaining({ exercise_id: 'exercise-1' })] })]);
+            expect(changes.exercises).toEqual([exercise]);
+            expect(changes.deleted).toEqual([{ entity_type: 'lesson', entity_id: 'lesson-1', revision: 4 }]);
+        });
+
+        it('should leave out content missing from the published snapshot', async () => {
+            mockCourseVersionRepository.findLatest.mockResolvedValue(publishedVersion(5));
+            mockContentChangeRepository.findChangesBetween.mockResolvedValue([
+                { entity_type: 'course', entity_id: 'course-1', operation: 'upsert', revision: 4 },
+                { entity_type: 'lesson', entity_id: 'lesson-removed-with-module', operation: 'upsert', revision: 5 }
+            ]);
+
+            const changes = await contentChangeService.getChangesSince('course-1', 3);
+
+            expect(changes.course).toEqual(snapshot.course);
+            expect(changes.lessons).toEqual([]);
+        });
+
+        it('should return an empty change set for up-to-date packages', async () => {
+            mockCourseVersionRepository.findLatest.mockResolvedValue(publishedVersion(5));
+            mockContentChangeRepository.findChangesBetween.mockResolvedValue([]);
+
+            const changes = await contentChangeService.getChangesSince('course-1', 5);
+
+            expect(changes).toEqual({
+                course_id: 'course-1',
+                since: 5,
+                revision: 5,
+                course: null,
+                levels: [],
+                sections: [],
+                modules: [],
+                lessons: [],
+                exercises: [],
+                deleted: []
+            });
+        });
+    });
+});
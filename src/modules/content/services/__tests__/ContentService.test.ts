@@ -1,9 +1,9 @@
 // src/modules/content/services/__tests__/ContentService.test.ts
 
 import { ContentService } from '../ContentService';
-import { CourseRepository, LevelRepository, SectionRepository, ModuleRepository } from '../../repositories';
+import { CourseRepository, LevelRepository, SectionRepository, ModuleRepository, CourseVersionRepository, TrashRepository } from '../../repositories';
 import { Course, Level, Section, Module, CreateCourseDto, CreateLevelDto, CreateSectionDto, CreateModuleDto, PackagedCourse } from '../../types';
-import { PaginatedResult, QueryOptions } from '../../../../shared/types';
+import { HttpStatus, PaginatedResult, QueryOptions } from '../../../../shared/types';
 import { cacheService } from '../../../../shared/utils';
 import { AppError } from '../../../../shared/middleware';
 import { CourseFactory, LevelFactory, SectionFactory, ModuleFactory } from '../../../../shared/test/factories/contentFactory';
@@ -47,6 +47,8 @@ describe('ContentService', () => {
     let mockLevelRepository: jest.Mocked<LevelRepository>;
     let mockSectionRepository: jest.Mocked<SectionRepository>;
     let mockModuleRepository: jest.Mocked<ModuleRepository>;
+    let mockCourseVersionRepository: jest.Mocked<CourseVersionRepository>;
+    let mockTrashRepository: jest.Mocked<TrashRepository>;
 
     beforeEach(() => {
         // Create mock Prisma client
@@ -62,8 +64,8 @@ describe('ContentService', () => {
             findById: jest.fn(),
             findAll: jest.fn(),
             update: jest.fn(),
-            delete: jest.fn(),
             exists: jest.fn(),
+            isIdTaken: jest.fn(),
         } as any;
 
         mockLevelRepository = {
@@ -71,8 +73,8 @@ describe('ContentService', () => {
             findById: jest.fn(),
             findByCourseId: jest.fn(),
             update: jest.fn(),
-            delete: jest.fn(),
             exists: jest.fn(),
+            isIdTaken: jest.fn(),
             existsInCourse: jest.fn(),
             existsOrderInCourse: jest.fn(),
         } as any;
@@ -82,8 +84,8 @@ describe('ContentService', () => {
             findById: jest.fn(),
             findByLevelId: jest.fn(),
             update: jest.fn(),
-            delete: jest.fn(),
             exists: jest.fn(),
+            isIdTaken: jest.fn(),
             existsOrderInLevel: jest.fn(),
         } as any;
 
@@ -92,16 +94,26 @@ describe('ContentService', () => {
             findById: jest.fn(),
             findBySectionId: jest.fn(),
             update: jest.fn(),
-            delete: jest.fn(),
             exists: jest.fn(),
+            isIdTaken: jest.fn(),
             existsOrderInSection: jest.fn(),
         } as any;
 
+        mockCourseVersionRepository = {
+            findLatest: jest.fn(),
+        } as any;
+
+        mockTrashRepository = {
+            moveToTrash: jest.fn(),
+        } as any;
+
         // Mock the repository constructors
         (CourseRepository as jest.MockedClass<typeof CourseRepository>).mockImplementation(() => mockCourseRepository);
         (LevelRepository as jest.MockedClass<typeof LevelRepository>).mockImplementation(() => mockLevelRepository);
         (SectionRepository as jest.MockedClass<typeof SectionRepository>).mockImplementation(() => mockSectionRepository);
         (ModuleRepository as jest.MockedClass<typeof ModuleRepository>).mockImplementation(() => mockModuleRepository);
+        (CourseVersionRepository as jest.MockedClass<typeof CourseVersionRepository>).mockImplementation(() => mockCourseVersionRepository);
+        (TrashRepository as jest.MockedClass<typeof TrashRepository>).mockImplementation(() => mockTrashRepository);
 
         contentService = new ContentService(mockPrisma);
 
@@ -124,27 +136,37 @@ describe('ContentService', () => {
                     updated_at: new Date(),
                 };
 
-                mockCourseRepository.exists.mockResolvedValue(false);
+                mockCourseRepository.isIdTaken.mockResolvedValue(false);
                 mockCourseRepository.create.mockResolvedValue(expectedCourse);
 
                 const result = await contentService.createCourse(courseData);
 
-                expect(mockCourseRepository.exists).toHaveBeenCalledWith(courseData.id);
+                expect(mockCourseRepository.isIdTaken).toHaveBeenCalledWith(courseData.id);
                 expect(mockCourseRepository.create).toHaveBeenCalledWith(courseData);
                 expect(result).toEqual(expectedCourse);
             });
 
+            it('should make the creator the owner of the course', async () => {
+                const courseData: CreateCourseDto = CourseFactory.buildDto();
+
+                mockCourseRepository.isIdTaken.mockResolvedValue(false);
+
+                await contentService.createCourse(courseData, 'user-123');
+
+                expect(mockCourseRepository.create).toHaveBeenCalledWith({ ...courseData, owner_id: 'user-123' });
+            });
+
             it('should throw AppError if course with same ID already exists', async () => {
                 const courseData: CreateCourseDto = CourseFactory.buildDto();
 
-                mockCourseRepository.exists.mockResolvedValue(true);
+                mockCourseRepository.isIdTaken.mockResolvedValue(true);
 
                 await expect(contentService.createCourse(courseData)).rejects.toThrow(AppError);
                 await expect(contentService.createCourse(courseData)).rejects.toThrow(
                     `Course with ID '${courseData.id}' already exists`
                 );
 
-                expect(mockCourseRepository.exists).toHaveBeenCalledWith(courseData.id);
+                expect(mockCourseRepository.isIdTaken).toHaveBeenCalledWith(courseData.id);
                 expect(mockCourseRepository.create).not.toHaveBeenCalled();
             });
         });
@@ -291,12 +313,12 @@ describe('ContentService', () => {
                 const courseId = 'test-course-1';
 
                 mockCourseRepository.exists.mockResolvedValue(true);
-                mockCourseRepository.delete.mockResolvedValue(true);
+                mockTrashRepository.moveToTrash.mockResolvedValue(true);
 
                 await contentService.deleteCourse(courseId);
 
                 expect(mockCourseRepository.exists).toHaveBeenCalledWith(courseId);
-                expect(mockCourseRepository.delete).toHaveBeenCalledWith(courseId);
+                expect(mockTrashRepository.moveToTrash).toHaveBeenCalledWith('course', courseId);
                 expect(cacheService.delete).toHaveBeenCalledWith(`packaged_course:${courseId}`);
             });
 
@@ -311,14 +333,14 @@ describe('ContentService', () => {
                 );
 
                 expect(mockCourseRepository.exists).toHaveBeenCalledWith(courseId);
-                expect(mockCourseRepository.delete).not.toHaveBeenCalled();
+                expect(mockTrashRepository.moveToTrash).not.toHaveBeenCalled();
             });
 
             it('should throw AppError when delete operation fails', async () => {
                 const courseId = 'test-course-1';
 
                 mockCourseRepository.exists.mockResolvedValue(true);
-                mockCourseRepository.delete.mockResolvedValue(false);
+                mockTrashRepository.moveToTrash.mockResolvedValue(false);
 
                 await expect(contentService.deleteCourse(courseId)).rejects.toThrow(AppError);
                 await expect(contentService.deleteCourse(courseId)).rejects.toThrow(
@@ -326,7 +348,7 @@ describe('ContentService', () => {
                 );
 
                 expect(mockCourseRepository.exists).toHaveBeenCalledWith(courseId);
-                expect(mockCourseRepository.delete).toHaveBeenCalledWith(courseId);
+                expect(mockTrashRepository.moveToTrash).toHaveBeenCalledWith('course', courseId);
             });
         });
     });
@@ -347,7 +369,7 @@ describe('ContentService', () => {
                 };
 
                 mockCourseRepository.exists.mockResolvedValue(true);
-                mockLevelRepository.exists.mockResolvedValue(false);
+                mockLevelRepository.isIdTaken.mockResolvedValue(false);
                 mockLevelRepository.existsInCourse.mockResolvedValue(false);
                 mockLevelRepository.existsOrderInCourse.mockResolvedValue(false);
                 mockLevelRepository.create.mockResolvedValue(expectedLevel);
@@ -355,7 +377,7 @@ describe('ContentService', () => {
                 const result = await contentService.createLevel(levelData);
 
                 expect(mockCourseRepository.exists).toHaveBeenCalledWith(levelData.course_id);
-                expect(mockLevelRepository.exists).toHaveBeenCalledWith(levelData.id);
+                expect(mockLevelRepository.isIdTaken).toHaveBeenCalledWith(levelData.id);
                 expect(mockLevelRepository.existsInCourse).toHaveBeenCalledWith(levelData.course_id, levelData.code);
                 expect(mockLevelRepository.existsOrderInCourse).toHaveBeenCalledWith(levelData.course_id, levelData.order);
                 expect(mockLevelRepository.create).toHaveBeenCalledWith(levelData);
@@ -383,14 +405,14 @@ describe('ContentService', () => {
                 const levelData: CreateLevelDto = LevelFactory.buildDto(courseId);
 
                 mockCourseRepository.exists.mockResolvedValue(true);
-                mockLevelRepository.exists.mockResolvedValue(true);
+                mockLevelRepository.isIdTaken.mockResolvedValue(true);
 
                 await expect(contentService.createLevel(levelData)).rejects.toThrow(AppError);
                 await expect(contentService.createLevel(levelData)).rejects.toThrow(
                     `Level with ID '${levelData.id}' already exists`
                 );
 
-                expect(mockLevelRepository.exists).toHaveBeenCalledWith(levelData.id);
+                expect(mockLevelRepository.isIdTaken).toHaveBeenCalledWith(levelData.id);
                 expect(mockLevelRepository.create).not.toHaveBeenCalled();
             });
 
@@ -399,7 +421,7 @@ describe('ContentService', () => {
                 const levelData: CreateLevelDto = LevelFactory.buildDto(courseId);
 
                 mockCourseRepository.exists.mockResolvedValue(true);
-                mockLevelRepository.exists.mockResolvedValue(false);
+                mockLevelRepository.isIdTaken.mockResolvedValue(false);
                 mockLevelRepository.existsInCourse.mockResolvedValue(true);
 
                 await expect(contentService.createLevel(levelData)).rejects.toThrow(AppError);
@@ -416,7 +438,7 @@ describe('ContentService', () => {
                 const levelData: CreateLevelDto = LevelFactory.buildDto(courseId);
 
                 mockCourseRepository.exists.mockResolvedValue(true);
-                mockLevelRepository.exists.mockResolvedValue(false);
+                mockLevelRepository.isIdTaken.mockResolvedValue(false);
                 mockLevelRepository.existsInCourse.mockResolvedValue(false);
                 mockLevelRepository.existsOrderInCourse.mockResolvedValue(true);
 
@@ -539,7 +561,7 @@ describe('ContentService', () => {
                 mockLevelRepository.findById.mockResolvedValue(existingLevel);
                 mockLevelRepository.update.mockResolvedValue(updatedLevel);
 
-                const result = await contentService.updateLevel(levelId, updateData);
+                const result = await contentService.updateLevel(levelId, 'test-course-1', updateData);
 
                 expect(mockLevelRepository.findById).toHaveBeenCalledWith(levelId);
                 expect(mockLevelRepository.update).toHaveBeenCalledWith(levelId, updateData);
@@ -553,8 +575,8 @@ describe('ContentService', () => {
 
                 mockLevelRepository.findById.mockResolvedValue(null);
 
-                await expect(contentService.updateLevel(levelId, updateData)).rejects.toThrow(AppError);
-                await expect(contentService.updateLevel(levelId, updateData)).rejects.toThrow(
+                await expect(contentService.updateLevel(levelId, 'test-course-1', updateData)).rejects.toThrow(AppError);
+                await expect(contentService.updateLevel(levelId, 'test-course-1', updateData)).rejects.toThrow(
                     `Level with ID '${levelId}' not found`
                 );
 
@@ -562,6 +584,27 @@ describe('ContentService', () => {
                 expect(mockLevelRepository.update).not.toHaveBeenCalled();
             });
 
+            it('should throw AppError when level belongs to another course', async () => {
+                const levelId = 'test-level-1';
+                const updateData = { name: 'Updated Level Name' };
+
+                mockLevelRepository.findById.mockResolvedValue({
+                    id: levelId,
+                    course_id: 'other-course',
+                    code: 'L1',
+                    name: 'Test Level',
+                    order: 1,
+                    created_at: new Date(),
+                    updated_at: new Date(),
+                });
+
+                await expect(contentService.updateLevel(levelId, 'test-course-1', updateData)).rejects.toMatchObject({
+                    statusCode: HttpStatus.NOT_FOUND,
+                    message: `Level with ID '${levelId}' not found`,
+                });
+                expect(mockLevelRepository.update).not.toHaveBeenCalled();
+            });
+
             it('should throw AppError when code conflicts with existing level', async () => {
                 const levelId = 'test-level-1';
                 const courseId = 'test-course-1';
@@ -579,8 +622,8 @@ describe('ContentService', () => {
                 mockLevelRepository.findById.mockResolvedValue(existingLevel);
                 mockLevelRepository.existsInCourse.mockResolvedValue(true);
 
-                await expect(contentService.updateLevel(levelId, updateData)).rejects.toThrow(AppError);
-                await expect(contentService.updateLevel(levelId, updateData)).rejects.toThrow(
+                await expect(contentService.updateLevel(levelId, 'test-course-1', updateData)).rejects.toThrow(AppError);
+                await expect(contentService.updateLevel(levelId, 'test-course-1', updateData)).rejects.toThrow(
                     `Level with code '${updateData.code}' already exists in course '${courseId}'`
                 );
 
@@ -605,8 +648,8 @@ describe('ContentService', () => {
                 mockLevelRepository.findById.mockResolvedValue(existingLevel);
                 mockLevelRepository.existsOrderInCourse.mockResolvedValue(true);
 
-                await expect(contentService.updateLevel(levelId, updateData)).rejects.toThrow(AppError);
-                await expect(contentService.updateLevel(levelId, updateData)).rejects.toThrow(
+                await expect(contentService.updateLevel(levelId, 'test-course-1', updateData)).rejects.toThrow(AppError);
+                await expect(contentService.updateLevel(levelId, 'test-course-1', updateData)).rejects.toThrow(
                     `Level with order '${updateData.order}' already exists in course '${courseId}'`
                 );
 
@@ -630,12 +673,12 @@ describe('ContentService', () => {
                 };
 
                 mockLevelRepository.findById.mockResolvedValue(existingLevel);
-                mockLevelRepository.delete.mockResolvedValue(true);
+                mockTrashRepository.moveToTrash.mockResolvedValue(true);
 
                 await contentService.deleteLevel(levelId);
 
                 expect(mockLevelRepository.findById).toHaveBeenCalledWith(levelId);
-                expect(mockLevelRepository.delete).toHaveBeenCalledWith(levelId);
+                expect(mockTrashRepository.moveToTrash).toHaveBeenCalledWith('level', levelId);
                 expect(cacheService.delete).toHaveBeenCalledWith(`packaged_course:${courseId}`);
             });
 
@@ -650,7 +693,7 @@ describe('ContentService', () => {
                 );
 
                 expect(mockLevelRepository.findById).toHaveBeenCalledWith(levelId);
-                expect(mockLevelRepository.delete).not.toHaveBeenCalled();
+                expect(mockTrashRepository.moveToTrash).not.toHaveBeenCalled();
             });
 
             it('should throw AppError when delete operation fails', async () => {
@@ -667,14 +710,14 @@ describe('ContentService', () => {
                 };
 
                 mockLevelRepository.findById.mockResolvedValue(existingLevel);
-                mockLevelRepository.delete.mockResolvedValue(false);
+                mockTrashRepository.moveToTrash.mockResolvedValue(false);
 
                 await expect(contentService.deleteLevel(levelId)).rejects.toThrow(AppError);
                 await expect(contentService.deleteLevel(levelId)).rejects.toThrow(
                     `Failed to delete level with ID '${levelId}'`
                 );
 
-                expect(mockLevelRepository.delete).toHaveBeenCalledWith(levelId);
+                expect(mockTrashRepository.moveToTrash).toHaveBeenCalledWith('level', levelId);
             });
         });
     });
@@ -704,14 +747,14 @@ describe('ContentService', () => {
                 };
 
                 mockLevelRepository.findById.mockResolvedValue(mockLevel);
-                mockSectionRepository.exists.mockResolvedValue(false);
+                mockSectionRepository.isIdTaken.mockResolvedValue(false);
                 mockSectionRepository.existsOrderInLevel.mockResolvedValue(false);
                 mockSectionRepository.create.mockResolvedValue(expectedSection);
 
                 const result = await contentService.createSection(sectionData);
 
                 expect(mockLevelRepository.findById).toHaveBeenCalledWith(levelId);
-                expect(mockSectionRepository.exists).toHaveBeenCalledWith(sectionData.id);
+                expect(mockSectionRepository.isIdTaken).toHaveBeenCalledWith(sectionData.id);
                 expect(mockSectionRepository.existsOrderInLevel).toHaveBeenCalledWith(levelId, sectionData.order);
                 expect(mockSectionRepository.create).toHaveBeenCalledWith(sectionData);
                 expect(cacheService.delete).toHaveBeenCalledWith(`packaged_course:${courseId}`);
@@ -851,7 +894,7 @@ describe('ContentService', () => {
                 mockLevelRepository.findById.mockResolvedValue(mockLevel);
                 mockSectionRepository.update.mockResolvedValue(updatedSection);
 
-                const result = await contentService.updateSection(sectionId, updateData);
+                const result = await contentService.updateSection(sectionId, 'test-level-1', updateData);
 
                 expect(mockSectionRepository.findById).toHaveBeenCalledWith(sectionId);
                 expect(mockLevelRepository.findById).toHaveBeenCalledWith(levelId);
@@ -866,8 +909,8 @@ describe('ContentService', () => {
 
                 mockSectionRepository.findById.mockResolvedValue(null);
 
-                await expect(contentService.updateSection(sectionId, updateData)).rejects.toThrow(AppError);
-                await expect(contentService.updateSection(sectionId, updateData)).rejects.toThrow(
+                await expect(contentService.updateSection(sectionId, 'test-level-1', updateData)).rejects.toThrow(AppError);
+                await expect(contentService.updateSection(sectionId, 'test-level-1', updateData)).rejects.toThrow(
                     `Section with ID '${sectionId}' not found`
                 );
 
@@ -875,6 +918,26 @@ describe('ContentService', () => {
                 expect(mockSectionRepository.update).not.toHaveBeenCalled();
             });
 
+            it('should throw AppError when section belongs to another level', async () => {
+                const sectionId = 'test-section-1';
+                const updateData = { name: 'Updated Section Name' };
+
+                mockSectionRepository.findById.mockResolvedValue({
+                    id: sectionId,
+                    level_id: 'other-level',
+                    name: 'Test Section',
+                    order: 1,
+                    created_at: new Date(),
+                    updated_at: new Date(),
+                });
+
+                await expect(contentService.updateSection(sectionId, 'test-level-1', updateData)).rejects.toMatchObject({
+                    statusCode: HttpStatus.NOT_FOUND,
+                    message: `Section with ID '${sectionId}' not found`,
+                });
+                expect(mockSectionRepository.update).not.toHaveBeenCalled();
+            });
+
             it('should throw AppError when order conflicts with existing section', async () => {
                 const sectionId = 'test-section-1';
                 const levelId = 'test-level-1';
@@ -902,8 +965,8 @@ describe('ContentService', () => {
                 mockLevelRepository.findById.mockResolvedValue(mockLevel);
                 mockSectionRepository.existsOrderInLevel.mockResolvedValue(true);
 
-                await expect(contentService.updateSection(sectionId, updateData)).rejects.toThrow(AppError);
-                await expect(contentService.updateSection(sectionId, updateData)).rejects.toThrow(
+                await expect(contentService.updateSection(sectionId, 'test-level-1', updateData)).rejects.toThrow(AppError);
+                await expect(contentService.updateSection(sectionId, 'test-level-1', updateData)).rejects.toThrow(
                     `Section with order '${updateData.order}' already exists in level '${levelId}'`
                 );
 
@@ -937,13 +1000,13 @@ describe('ContentService', () => {
 
                 mockSectionRepository.findById.mockResolvedValue(existingSection);
                 mockLevelRepository.findById.mockResolvedValue(mockLevel);
-                mockSectionRepository.delete.mockResolvedValue(true);
+                mockTrashRepository.moveToTrash.mockResolvedValue(true);
 
                 await contentService.deleteSection(sectionId);
 
                 expect(mockSectionRepository.findById).toHaveBeenCalledWith(sectionId);
                 expect(mockLevelRepository.findById).toHaveBeenCalledWith(levelId);
-                expect(mockSectionRepository.delete).toHaveBeenCalledWith(sectionId);
+                expect(mockTrashRepository.moveToTrash).toHaveBeenCalledWith('section', sectionId);
                 expect(cacheService.delete).toHaveBeenCalledWith(`packaged_course:${courseId}`);
             });
 
@@ -958,7 +1021,7 @@ describe('ContentService', () => {
                 );
 
                 expect(mockSectionRepository.findById).toHaveBeenCalledWith(sectionId);
-                expect(mockSectionRepository.delete).not.toHaveBeenCalled();
+                expect(mockTrashRepository.moveToTrash).not.toHaveBeenCalled();
             });
 
             it('should throw AppError when delete operation fails', async () => {
@@ -985,14 +1048,14 @@ describe('ContentService', () => {
 
                 mockSectionRepository.findById.mockResolvedValue(existingSection);
                 mockLevelRepository.findById.mockResolvedValue(mockLevel);
-                mockSectionRepository.delete.mockResolvedValue(false);
+                mockTrashRepository.moveToTrash.mockResolvedValue(false);
 
                 await expect(contentService.deleteSection(sectionId)).rejects.toThrow(AppError);
                 await expect(contentService.deleteSection(sectionId)).rejects.toThrow(
                     `Failed to delete section with ID '${sectionId}'`
                 );
 
-                expect(mockSectionRepository.delete).toHaveBeenCalledWith(sectionId);
+                expect(mockTrashRepository.moveToTrash).toHaveBeenCalledWith('section', sectionId);
             });
         });
     });
@@ -1033,7 +1096,7 @@ describe('ContentService', () => {
 
                 mockSectionRepository.findById.mockResolvedValue(mockSection);
                 mockLevelRepository.findById.mockResolvedValue(mockLevel);
-                mockModuleRepository.exists.mockResolvedValue(false);
+                mockModuleRepository.isIdTaken.mockResolvedValue(false);
                 mockModuleRepository.existsOrderInSection.mockResolvedValue(false);
                 mockModuleRepository.create.mockResolvedValue(expectedModule);
 
@@ -1041,7 +1104,7 @@ describe('ContentService', () => {
 
                 expect(mockSectionRepository.findById).toHaveBeenCalledWith(sectionId);
                 expect(mockLevelRepository.findById).toHaveBeenCalledWith(levelId);
-                expect(mockModuleRepository.exists).toHaveBeenCalledWith(moduleData.id);
+                expect(mockModuleRepository.isIdTaken).toHaveBeenCalledWith(moduleData.id);
                 expect(mockModuleRepository.existsOrderInSection).toHaveBeenCalledWith(sectionId, moduleData.order);
                 expect(mockModuleRepository.create).toHaveBeenCalledWith(moduleData);
                 expect(cacheService.delete).toHaveBeenCalledWith(`packaged_course:${courseId}`);
@@ -1194,7 +1257,7 @@ describe('ContentService', () => {
                 mockLevelRepository.findById.mockResolvedValue(mockLevel);
                 mockModuleRepository.update.mockResolvedValue(updatedModule);
 
-                const result = await contentService.updateModule(moduleId, updateData);
+                const result = await contentService.updateModule(moduleId, 'test-section-1', updateData);
 
                 expect(mockModuleRepository.findById).toHaveBeenCalledWith(moduleId);
                 expect(mockSectionRepository.findById).toHaveBeenCalledWith(sectionId);
@@ -1210,8 +1273,8 @@ describe('ContentService', () => {
 
                 mockModuleRepository.findById.mockResolvedValue(null);
 
-                await expect(contentService.updateModule(moduleId, updateData)).rejects.toThrow(AppError);
-                await expect(contentService.updateModule(moduleId, updateData)).rejects.toThrow(
+                await expect(contentService.updateModule(moduleId, 'test-section-1', updateData)).rejects.toThrow(AppError);
+                await expect(contentService.updateModule(moduleId, 'test-section-1', updateData)).rejects.toThrow(
                     `Module with ID '${moduleId}' not found`
                 );
 
@@ -1219,6 +1282,27 @@ describe('ContentService', () => {
                 expect(mockModuleRepository.update).not.toHaveBeenCalled();
             });
 
+            it('should throw AppError when module belongs to another section', async () => {
+                const moduleId = 'test-module-1';
+                const updateData = { name: 'Updated Module Name' };
+
+                mockModuleRepository.findById.mockResolvedValue({
+                    id: moduleId,
+                    section_id: 'other-section',
+                    module_type: 'basic_lesson',
+                    name: 'Test Module',
+                    order: 1,
+                    created_at: new Date(),
+                    updated_at: new Date(),
+                });
+
+                await expect(contentService.updateModule(moduleId, 'test-section-1', updateData)).rejects.toMatchObject({
+                    statusCode: HttpStatus.NOT_FOUND,
+                    message: `Module with ID '${moduleId}' not found`,
+                });
+                expect(mockModuleRepository.update).not.toHaveBeenCalled();
+            });
+
             it('should throw AppError when order conflicts with existing module', async () => {
                 const moduleId = 'test-module-1';
                 const sectionId = 'test-section-1';
@@ -1257,8 +1341,8 @@ describe('ContentService', () => {
                 mockLevelRepository.findById.mockResolvedValue(mockLevel);
                 mockModuleRepository.existsOrderInSection.mockResolvedValue(true);
 
-                await expect(contentService.updateModule(moduleId, updateData)).rejects.toThrow(AppError);
-                await expect(contentService.updateModule(moduleId, updateData)).rejects.toThrow(
+                await expect(contentService.updateModule(moduleId, 'test-section-1', updateData)).rejects.toThrow(AppError);
+                await expect(contentService.updateModule(moduleId, 'test-section-1', updateData)).rejects.toThrow(
                     `Module with order '${updateData.order}' already exists in section '${sectionId}'`
                 );
 
@@ -1303,14 +1387,14 @@ describe('ContentService', () => {
                 mockModuleRepository.findById.mockResolvedValue(existingModule);
                 mockSectionRepository.findById.mockResolvedValue(mockSection);
                 mockLevelRepository.findById.mockResolvedValue(mockLevel);
-                mockModuleRepository.delete.mockResolvedValue(true);
+                mockTrashRepository.moveToTrash.mockResolvedValue(true);
 
                 await contentService.deleteModule(moduleId);
 
                 expect(mockModuleRepository.findById).toHaveBeenCalledWith(moduleId);
                 expect(mockSectionRepository.findById).toHaveBeenCalledWith(sectionId);
                 expect(mockLevelRepository.findById).toHaveBeenCalledWith(levelId);
-                expect(mockModuleRepository.delete).toHaveBeenCalledWith(moduleId);
+                expect(mockTrashRepository.moveToTrash).toHaveBeenCalledWith('module', moduleId);
                 expect(cacheService.delete).toHaveBeenCalledWith(`packaged_course:${courseId}`);
             });
 
@@ -1325,7 +1409,7 @@ describe('ContentService', () => {
                 );
 
                 expect(mockModuleRepository.findById).toHaveBeenCalledWith(moduleId);
-                expect(mockModuleRepository.delete).not.toHaveBeenCalled();
+                expect(mockTrashRepository.moveToTrash).not.toHaveBeenCalled();
             });
 
             it('should throw AppError when delete operation fails', async () => {
@@ -1363,14 +1447,14 @@ describe('ContentService', () => {
                 mockModuleRepository.findById.mockResolvedValue(existingModule);
                 mockSectionRepository.findById.mockResolvedValue(mockSection);
                 mockLevelRepository.findById.mockResolvedValue(mockLevel);
-                mockModuleRepository.delete.mockResolvedValue(false);
+                mockTrashRepository.moveToTrash.mockResolvedValue(false);
 
                 await expect(contentService.deleteModule(moduleId)).rejects.toThrow(AppError);
                 await expect(contentService.deleteModule(moduleId)).rejects.toThrow(
                     `Failed to delete module with ID '${moduleId}'`
                 );
 
-                expect(mockModuleRepository.delete).toHaveBeenCalledWith(moduleId);
+                expect(mockTrashRepository.moveToTrash).toHaveBeenCalledWith('module', moduleId);
             });
         });
     });
@@ -1391,7 +1475,10 @@ describe('ContentService', () => {
                         updated_at: new Date(),
                     },
                     levels: [],
+                    revision: 3,
+                    version: 2,
                     package_version: new Date().toISOString(),
+                    media: [],
                 };
 
                 (cacheService.get as jest.Mock).mockResolvedValue(cachedPackagedCourse);
@@ -1417,7 +1504,10 @@ describe('ContentService', () => {
                         updated_at: new Date(),
                     },
                     levels: [],
+                    revision: 3,
+                    version: 2,
                     package_version: '2024-01-01T00:00:00Z', // Earlier than ifModifiedSince
+                    media: [],
                 };
 
                 (cacheService.get as jest.Mock).mockResolvedValue(cachedPackagedCourse);
@@ -1431,7 +1521,8 @@ describe('ContentService', () => {
                 const courseId = 'non-existent-course';
 
                 (cacheService.get as jest.Mock).mockResolvedValue(null);
-                mockPrisma.course.findUnique.mockResolvedValue(null);
+                mockCourseVersionRepository.findLatest.mockResolvedValue(null);
+                mockCourseRepository.exists.mockResolvedValue(false);
 
                 await expect(contentService.getPackagedCourse(courseId)).rejects.toThrow(AppError);
                 await expect(contentService.getPackagedCourse(courseId)).rejects.toThrow(
@@ -1439,51 +1530,67 @@ describe('ContentService', () => {
                 );
             });
 
-            it('should generate and cache packaged course when not cached', async () => {
-                const courseId = 'test-course-1';
-                const mockCourseWithTimestamp = {
-                    id: courseId,
-                    updatedAt: new Date('2024-01-01T00:00:00Z'),
-                    levels: [{
-                        updatedAt: new Date('2024-01-01T00:00:00Z'),
-                        sections: [{
-                            updatedAt: new Date('2024-01-01T00:00:00Z'),
-                            modules: [{
-                                updatedAt: new Date('2024-01-01T00:00:00Z'),
-                                lessons: [{
-                                    updatedAt: new Date('2024-01-01T00:00:00Z'),
-                                    exercises: [{
-                                        exercise: {
-                                            updatedAt: new Date('2024-01-01T00:00:00Z')
-                                        }
-                                    }]
-                                }]
-                            }]
-                        }]
-                    }]
-                };
-                const mockPackagedCourseData = {
-                    id: courseId,
-                    sourceLanguage: 'en',
-                    targetLanguage: 'es',
-                    name: 'Test Course',
-                    description: 'A test course',
-                    isPublic: true,
-                    createdAt: new Date(),
-                    updatedAt: new Date(),
-                    levels: []
-                };
+            it('should not package courses that have not been published', async () => {
+                const courseId = 'draft-course';
 
                 (cacheService.get as jest.Mock).mockResolvedValue(null);
-                mockPrisma.course.findUnique
-                    .mockResolvedValueOnce(mockCourseWithTimestamp)
-                    .mockResolvedValueOnce(mockPackagedCourseData);
+                mockCourseVersionRepository.findLatest.mockResolvedValue(null);
+                mockCourseRepository.exists.mockResolvedValue(true);
 
-                const result = await contentService.getPackagedCourse(courseId);
+                await expect(contentService.getPackagedCourse(courseId)).rejects.toMatchObject({
+                    statusCode: 404,
+                    message: `Course with ID '${courseId}' has not been published yet`
+                });
+            });
+
+            describe('with a published version', () => {
+                const courseId = 'test-course-1';
+                const publishedVersion = {
+                    id: 'version-uuid',
+                    course_id: courseId,
+                    version: 2,
+                    revision: 14,
+                    notes: null,
+                    published_by: 'user-1',
+                    published_at: new Date('2024-01-05T00:00:00Z'),
+                    snapshot: {
+                        course: {
+                            id: courseId,
+                            source_language: 'en',
+                            target_language: 'es',
+                            name: 'Test Course',
+                            description: 'A test course',
+                            is_public: true,
+                            created_at: new Date('2024-01-01T00:00:00Z'),
+                            updated_at: new Date('2024-01-01T00:00:00Z'),
+                        },
+                        levels: []
+                    }
+                };
 
-                expect(result).toBeDefined();
-                expect(result?.course.id).toBe(courseId);
-                expect(cacheService.set).toHaveBeenCalled();
+                beforeEach(() => {
+                    (cacheService.get as jest.Mock).mockResolvedValue(null);
+                    mockCourseVersionRepository.findLatest.mockResolvedValue(publishedVersion);
+                });
+
+                it('should package and cache the latest published version', async () => {
+                    const result = await contentService.getPackagedCourse(courseId);
+
+                    expect(mockCourseVersionRepository.findLatest).toHaveBeenCalledWith(courseId);
+                    expect(result).toEqual({
+                        ...publishedVersion.snapshot,
+                        package_version: '2024-01-05T00:00:00.000Z',
+                        revision: 14,
+                        version: 2,
+                        media: []
+                    });
+                    expect(cacheService.set).toHaveBeenCalledWith(`packaged_course:${courseId}`, result, 15 * 60 * 1000);
+                });
+
+                it('should return null when the version was published before If-Modified-Since', async () => {
+                    await expect(contentService.getPackagedCourse(courseId, '2024-01-06T00:00:00Z')).resolves.toBeNull();
+                    await expect(contentService.getPackagedCourse(courseId, '2024-01-04T00:00:00Z')).resolves.not.toBeNull();
+                });
             });
         });
     });
@@ -0,0 +1,180 @@
+// src/modules/content/services/__tests__/CourseAnalyticsService.test.ts
+
+import { CourseAnalyticsService } from '../CourseAnalyticsService';
+import { CourseAnalyticsRepository } from '../../repositories';
+import { CourseAnalyticsOutline, CourseLessonCompletion, LessonActivity } from '../../types';
+
+jest.mock('../../repositories');
+
+/**
+ * Test suite for CourseAnalyticsService, covering enrollment, daily active learners, the course
+ * funnel, lesson times, score distributions, date ranges and CSV export.
+ */
+describe('CourseAnalyticsService', () => {
+    let courseAnalyticsService: CourseAnalyticsService;
+    let mockCourseAnalyticsRepository: jest.Mocked<CourseAnalyticsRepository>;
+
+    // One level with one section, one module and two lessons
+    const outline: CourseAnalyticsOutline = {
+        course_id: 'course-1',
+        levels: [{
+            id: 'level-1',
+            name: 'A1',
+            sections: [{
+                id: 'section-1',
+                name: 'Basics',
+                modules: [{
+                    id: 'module-1',
+                    name: 'Greetings',
+                    lessons: [{ id: 'lesson-1', name: 'Hello' }, { id: 'lesson-2', name: 'Goodbye' }],
+                }],
+            }],
+        }],
+    };
+
+    const completion = (user_id: string, lesson_id: string, date: string, score: number | null, time_spent_seconds: number | null = null): CourseLessonCompletion => ({
+        user_id,
+        lesson_id,
+        date: new Date(`${date}T12:00:00.000Z`),
+        score,
+        time_spent_seconds,
+    });
+
+    const activity = (user_id: string, lesson_id: string, date: string): LessonActivity => ({
+        user_id,
+        lesson_id,
+        date: new Date(`${date}T08:00:00.000Z`),
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        mockCourseAnalyticsRepository = {
+            findCourseOutline: jest.fn().mockResolvedValue(outline),
+            findCompletions: jest.fn().mockResolvedValue([
+                // user-1 enrolled before the range and finished the module within it
+                completion('user-1', 'lesson-1', '2024-12-20', 95, 100),
+                completion('user-1', 'lesson-2', '2025-01-02', 70, 300),
+                // user-2 is new and completed the first lesson
+                completion('user-2', 'lesson-1', '2025-01-03', 40, 200),
+                // user-3 was only active before the range
+                completion('user-3', 'lesson-1', '2024-12-01', 100, 50),
+            ]),
+            findFirstAttempts: jest.fn().mockResolvedValue([
+                activity('user-2', 'lesson-2', '2025-01-03'),
+                activity('user-4', 'lesson-1', '2025-01-03'),
+            ]),
+            findAttempts: jest.fn().mockResolvedValue([
+                activity('user-2', 'lesson-2', '2025-01-03'),
+                activity('user-4', 'lesson-1', '2025-01-03'),
+            ]),
+            countEnrollments: jest.fn().mockResolvedValue({ total: 5, new: 2 }),
+        } as any;
+
+        (CourseAnalyticsRepository as jest.MockedClass<typeof CourseAnalyticsRepository>).mockImplementation(() => mockCourseAnalyticsRepository);
+
+        courseAnalyticsService = new CourseAnalyticsService({} as any);
+    });
+
+    describe('getCourseAnalytics', () => {
+        it('should report enrollment and active learners per day', async () => {
+            const analytics = await courseAnalyticsService.getCourseAnalytics('course-1', { from: '2025-01-01', to: '2025-01-03' });
+
+            expect(mockCourseAnalyticsRepository.findCompletions).toHaveBeenCalledWith(
+                ['lesson-1', 'lesson-2'],
+                new Date('2025-01-04T00:00:00.000Z')
+            );
+            expect(mockCourseAnalyticsRepository.findAttempts).toHaveBeenCalledWith(
+                ['lesson-1', 'lesson-2'],
+                new Date('2025-01-01T00:00:00.000Z'),
+                new Date('2025-01-04T00:00:00.000Z')
+            );
+            expect(mockCourseAnalyticsRepository.countEnrollments).toHaveBeenCalledWith(
+                'course-1',
+                new Date('2025-01-01T00:00:00.000Z'),
+                new Date('2025-01-04T00:00:00.000Z')
+            );
+            expect(analytics.enrollment).toEqual({ total_learners: 5, new_learners: 2, active_learners: 3 });
+            expect(analytics.active_learners).toEqual([
+                { date: '2025-01-01', learners: 0 },
+                { date: '2025-01-02', learners: 1 },
+                { date: '2025-01-03', learners: 2 },
+            ]);
+        });
+
+        it('should count how far the active learners got through the course', async () => {
+            const analytics = await courseAnalyticsService.getCourseAnalytics('course-1', { from: '2025-01-01', to: '2025-01-03' });
+
+            expect(analytics.funnel.map(step => [step.entity_type, step.id, step.parent_id])).toEqual([
+                ['level', 'level-1', null],
+                ['section', 'section-1', 'level-1'],
+                ['module', 'module-1', 'section-1'],
+                ['lesson', 'lesson-1', 'module-1'],
+                ['lesson', 'lesson-2', 'module-1'],
+            ]);
+            expect(analytics.funnel[2]).toEqual({
+                entity_type: 'module',
+                id: 'module-1',
+                name: 'Greetings',
+                parent_id: 'section-1',
+                learners_started: 3,
+                learners_completed: 1,
+                drop_off_rate: 67,
+                median_time_seconds: 250,
+                average_score: 55,
+            });
+            expect(analytics.funnel[3]).toMatchObject({
+                learners_started: 3,
+                learners_completed: 2,
+                drop_off_rate: 33,
+                median_time_seconds: 200,
+                average_score: 40,
+            });
+        });
+
+        it('should distribute the scores of the completions within the range', async () => {
+            const analytics = await courseAnalyticsService.getCourseAnalytics('course-1', { from: '2025-01-01', to: '2025-01-03' });
+
+            expect(analytics.score_distribution).toHaveLength(10);
+            expect(analytics.score_distribution[9]).toEqual({ min: 90, max: 100, count: 0 });
+            expect(analytics.score_distribution.filter(bucket => bucket.count > 0)).toEqual([
+                { min: 40, max: 49, count: 1 },
+                { min: 70, max: 79, count: 1 },
+            ]);
+        });
+
+        it('should default to the last 30 days', async () => {
+            const analytics = await courseAnalyticsService.getCourseAnalytics('course-1', { to: '2025-01-30' });
+
+            expect(analytics.from).toBe('2025-01-01');
+            expect(analytics.active_learners).toHaveLength(30);
+        });
+
+        it('should reject ranges longer than 366 days', async () => {
+            await expect(
+                courseAnalyticsService.getCourseAnalytics('course-1', { from: '2024-01-01', to: '2025-01-01' })
+            ).rejects.toMatchObject({ statusCode: 400 });
+            expect(mockCourseAnalyticsRepository.findCourseOutline).not.toHaveBeenCalled();
+        });
+
+        it('should throw 404 when the course does not exist', async () => {
+            mockCourseAnalyticsRepository.findCourseOutline.mockResolvedValue(null);
+
+            await expect(courseAnalyticsService.getCourseAnalytics('missing')).rejects.toMatchObject({ statusCode: 404 });
+        });
+    });
+
+    describe('toCsv', () => {
+        it('should write the requested table with a header', async () => {
+            mockCourseAnalyticsRepository.findAttempts.mockResolvedValue([]);
+            const analytics = await courseAnalyticsService.getCourseAnalytics('course-1', { from: '2025-01-01', to: '2025-01-03' });
+
+            expect(courseAnalyticsService.toCsv(analytics, 'activity')).toBe(
+                'date,active_learners\r\n2025-01-01,0\r\n2025-01-02,1\r\n2025-01-03,1\r\n'
+            );
+            expect(courseAnalyticsService.toCsv(analytics, 'funnel').split('\r\n')[4]).toBe(
+                'lesson,lesson-1,Hello,module-1,2,2,0,200,40'
+            );
+        });
+    });
+});
@@ -0,0 +1,332 @@
+// src/modules/content/services/__tests__/CourseArchiveService.test.ts
+
+import { ZodError } from 'zod';
+import { CourseArchiveService } from '../CourseArchiveService';
+import {
+    CourseArchiveRepository,
+    CourseRepository,
+    CourseVersionRepository,
+    ExerciseRepository,
+    LessonRepository,
+    LevelRepository,
+    ModuleRepository,
+    SectionRepository,
+    UnlockRuleRepository
+} from '../../repositories';
+import { CourseArchive, CourseArchiveSchema, CourseSnapshot, UnlockRule } from '../../types';
+import { AppError } from '../../../../shared/middleware';
+import { MediaRepository } from '../../../media/repositories/mediaRepository';
+import { StoredMediaAsset } from '../../../media/types';
+
+jest.mock('../../repositories');
+jest.mock('../../../media/repositories/mediaRepository');
+
+const MEDIA_ID = '3f0c9a52-8e1b-4c55-9d2a-6b7e0f1d2c3b';
+
+/**
+ * Test suite for CourseArchiveService, covering archive export from the course tree, archive
+ * validation, and imports that preserve or remap the archive IDs.
+ */
+describe('CourseArchiveService', () => {
+    let courseArchiveService: CourseArchiveService;
+    let mockCourseArchiveRepository: jest.Mocked<CourseArchiveRepository>;
+    let mockCourseVersionRepository: jest.Mocked<CourseVersionRepository>;
+    let mockUnlockRuleRepository: jest.Mocked<UnlockRuleRepository>;
+    let mockCourseRepository: jest.Mocked<CourseRepository>;
+    let mockExerciseRepository: jest.Mocked<ExerciseRepository>;
+    let mockMediaRepository: jest.Mocked<MediaRepository>;
+
+    const timestamps = { created_at: new Date('2024-01-01T00:00:00Z'), updated_at: new Date('2024-01-01T00:00:00Z') };
+
+    // course-1 > level-1 > section-1 > module-1 > lesson-1 (with exercise-1 and exercise-2)
+    const snapshot: CourseSnapshot = {
+        course: {
+            id: 'course-1', source_language: 'en', target_language: 'es', name: 'Spanish Basics',
+            description: '', is_public: true, ...timestamps
+        },
+        levels: [{
+            id: 'level-1', course_id: 'course-1', code: 'A1', name: 'Beginner', order: 1, ...timestamps,
+            sections: [{
+                id: 'section-1', level_id: 'level-1', name: 'Greetings', order: 1, ...timestamps,
+                modules: [{
+                    id: 'module-1', section_id: 'section-1', module_type: 'basic_lesson', name: 'Hello', order: 1, ...timestamps,
+                    lessons: [{
+                        id: 'lesson-1', module_id: 'module-1', name: 'Saying hello', experience_points: 10, order: 1, ...timestamps,
+                        exercises: [
+                            {
+                                lesson_id: 'lesson-1', exercise_id: 'exercise-1', order: 1,
+                                exercise: {
+                                    id: 'exercise-1', exercise_type: 'fill_in_the_blank' as any,
+                                    data: { text: 'Hola, ___', blanks: [{ position: 6, correct_answers: ['amigo'] }] },
+                                    ...timestamps
+                                }
+                            },
+                            {
+                                lesson_id: 'lesson-1', exercise_id: 'exercise-2', order: 2,
+                                exercise: {
+                                    id: 'exercise-2', exercise_type: 'informative',
+                                    data: { content: 'Greetings', media: { type: 'image', url: 'https://cdn.example.com/hola.png' } },
+                                    ...timestamps
+                                }
+                            }
+                        ]
+                    }]
+                }]
+            }]
+        }]
+    };
+
+    const rule = (overrides: Partial<UnlockRule>): UnlockRule => ({
+        id: 'rule-1', course_id: 'course-1', target_type: 'lesson', target_id: 'lesson-1',
+        rule_type: 'xp_threshold', reference_id: null, min_score: null, min_experience: 100,
+        ...timestamps, ...overrides
+    });
+
+    const imageAsset: StoredMediaAsset = {
+        id: MEDIA_ID, kind: 'image', content_type: 'image/png', size_bytes: 2048, checksum: 'a'.repeat(64),
+        filename: 'hola.png', width: 640, height: 480, duration_seconds: null, uploaded_by: 'user-1',
+        created_at: timestamps.created_at, storage_key: `image/${MEDIA_ID}.png`, thumbnail_key: null
+    };
+
+    const archive = (): CourseArchive => ({
+        format: 'wayrapp-course-archive',
+        format_version: 1,
+        exported_at: '2024-02-01T00:00:00.000Z',
+        course: { id: 'course-1', source_language: 'en', target_language: 'es', name: 'Spanish Basics', is_public: true },
+        levels: [{
+            id: 'level-1', code: 'A1', name: 'Beginner', order: 1,
+            sections: [{
+                id: 'section-1', name: 'Greetings', order: 1,
+                modules: [{
+                    id: 'module-1', module_type: 'basic_lesson', name: 'Hello', order: 1,
+                    lessons: [{
+                        id: 'lesson-1', name: 'Saying hello', experience_points: 10, order: 1,
+                        exercises: [{ exercise_id: 'exercise-1', order: 1 }]
+                    }]
+                }]
+            }]
+        }],
+        exercises: [{ id: 'exercise-1', exercise_type: 'translation', data: { source_text: 'Hello', target_text: 'Hola' } }],
+        unlock_rules: [{ target_type: 'lesson', target_id: 'lesson-1', rule_type: 'xp_threshold', min_experience: 100 }],
+        media: []
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        mockCourseArchiveRepository = {
+            findTakenIds: jest.fn(),
+            importCourse: jest.fn(),
+        } as any;
+        mockCourseVersionRepository = { findCourseTree: jest.fn() } as any;
+        mockUnlockRuleRepository = { findByCourseId: jest.fn() } as any;
+        mockCourseRepository = { isIdTaken: jest.fn().mockResolvedValue(false) } as any;
+        mockExerciseRepository = { isIdTaken: jest.fn().mockResolvedValue(false) } as any;
+        mockMediaRepository = { findByIds: jest.fn().mockResolvedValue([]) } as any;
+
+        (CourseArchiveRepository as jest.MockedClass<typeof CourseArchiveRepository>).mockImplementation(() => mockCourseArchiveRepository);
+        (CourseVersionRepository as jest.MockedClass<typeof CourseVersionRepository>).mockImplementation(() => mockCourseVersionRepository);
+        (UnlockRuleRepository as jest.MockedClass<typeof UnlockRuleRepository>).mockImplementation(() => mockUnlockRuleRepository);
+        (CourseRepository as jest.MockedClass<typeof CourseRepository>).mockImplementation(() => mockCourseRepository);
+        (ExerciseRepository as jest.MockedClass<typeof ExerciseRepository>).mockImplementation(() => mockExerciseRepository);
+        (MediaRepository as jest.MockedClass<typeof MediaRepository>).mockImplementation(() => mockMediaRepository);
+        for (const Repository of [LevelRepository, SectionRepository, ModuleRepository, LessonRepository]) {
+            (Repository as jest.MockedClass<any>).mockImplementation(() => ({ isIdTaken: jest.fn().mockResolvedValue(false) }));
+        }
+
+        courseArchiveService = new CourseArchiveService({} as any);
+    });
+
+    describe('exportCourse', () => {
+        it('should export the course tree with its exercises, unlock rules and media', async () => {
+            mockCourseVersionRepository.findCourseTree.mockResolvedValue({ revision: 4, snapshot });
+            mockUnlockRuleRepository.findByCourseId.mockResolvedValue([
+                rule({}),
+                // Rule on a lesson in the trash
+                rule({ id: 'rule-2', target_id: 'lesson-deleted' }),
+            ]);
+
+            const result = await courseArchiveService.exportCourse('course-1');
+
+            expect(result).toMatchObject({
+                format: 'wayrapp-course-archive',
+                format_version: 1,
+                course: { id: 'course-1', name: 'Spanish Basics', is_public: true },
+            });
+            expect(result.course).not.toHaveProperty('description');
+            expect(result.levels[0]!.sections[0]!.modules[0]!.lessons[0]!.exercises).toEqual([
+                { exercise_id: 'exercise-1', order: 1 },
+                { exercise_id: 'exercise-2', order: 2 },
+            ]);
+            expect(result.exercises.map(exercise => [exercise.id, exercise.exercise_type])).toEqual([
+                ['exercise-1', 'fill-in-the-blank'],
+                ['exercise-2', 'informative'],
+            ]);
+            expect(result.unlock_rules).toEqual([
+                { target_type: 'lesson', target_id: 'lesson-1', rule_type: 'xp_threshold', min_experience: 100 },
+            ]);
+            expect(result.media).toEqual([
+                { url: 'https://cdn.example.com/hola.png', type: 'image', exercise_ids: ['exercise-2'] },
+            ]);
+            expect(CourseArchiveSchema.safeParse(result).success).toBe(true);
+        });
+
+        it('should list uploaded media referenced by media_id', async () => {
+            const withUpload = structuredClone(snapshot);
+            withUpload.levels[0]!.sections[0]!.modules[0]!.lessons[0]!.exercises[1]!.exercise.data = {
+                content: 'Greetings', media: { type: 'image', media_id: MEDIA_ID }
+            };
+            mockCourseVersionRepository.findCourseTree.mockResolvedValue({ revision: 4, snapshot: withUpload });
+            mockUnlockRuleRepository.findByCourseId.mockResolvedValue([]);
+            mockMediaRepository.findByIds.mockResolvedValue([imageAsset]);
+
+            const result = await courseArchiveService.exportCourse('course-1');
+
+            expect(mockMediaRepository.findByIds).toHaveBeenCalledWith([MEDIA_ID]);
+            expect(result.media).toEqual([{ media_id: MEDIA_ID, type: 'image', exercise_ids: ['exercise-2'] }]);
+            expect(CourseArchiveSchema.safeParse(result).success).toBe(true);
+        });
+
+        it('should throw 404 when the course does not exist', async () => {
+            mockCourseVersionRepository.findCourseTree.mockResolvedValue(null);
+
+            await expect(courseArchiveService.exportCourse('missing')).rejects.toMatchObject({ statusCode: 404 });
+        });
+    });
+
+    describe('CourseArchiveSchema', () => {
+        it('should reject unsupported format versions', () => {
+            const result = CourseArchiveSchema.safeParse({ ...archive(), format_version: 2 });
+
+            expect(result.success).toBe(false);
+            expect(result.error?.issues[0]?.path).toEqual(['format_version']);
+        });
+
+        it('should reject references to content outside the archive', () => {
+            const data = archive();
+            data.levels[0]!.sections[0]!.modules[0]!.lessons[0]!.exercises.push({ exercise_id: 'missing', order: 2 });
+            data.unlock_rules.push({ target_type: 'module', target_id: 'module-9', rule_type: 'previous_lesson_completed' });
+
+            const result = CourseArchiveSchema.safeParse(data);
+
+            expect(result.success).toBe(false);
+            expect(result.error?.issues.map(issue => issue.message)).toEqual([
+                "Exercise 'missing' is not part of the archive",
+                "module 'module-9' is not part of the archive",
+            ]);
+        });
+
+        it('should require either a url or a media_id for each media entry', () => {
+            const data = { ...archive(), media: [{ type: 'image', exercise_ids: ['exercise-1'] }] };
+
+            const result = CourseArchiveSchema.safeParse(data);
+
+            expect(result.success).toBe(false);
+            expect(result.error?.issues.map(issue => issue.message)).toEqual(['Media must have either a url or a media_id']);
+        });
+
+        it('should reject repeated IDs and sibling orders', () => {
+            const data = archive();
+            const module = data.levels[0]!.sections[0]!.modules[0]!;
+            module.lessons.push({ ...module.lessons[0]!, exercises: [] });
+
+            const result = CourseArchiveSchema.safeParse(data);
+
+            expect(result.success).toBe(false);
+            expect(result.error?.issues.map(issue => issue.message)).toEqual([
+                "Lesson order 1 is used more than once in module 'module-1'",
+                "lesson ID 'lesson-1' is used more than once",
+            ]);
+        });
+    });
+
+    describe('importCourse', () => {
+        it('should import with the archive IDs when none is taken', async () => {
+            mockCourseArchiveRepository.findTakenIds.mockResolvedValue([]);
+
+            const result = await courseArchiveService.importCourse(archive(), {}, 'user-1');
+
+            expect(mockCourseArchiveRepository.importCourse).toHaveBeenCalledWith(archive(), 'user-1');
+            expect(result).toEqual({
+                course_id: 'course-1',
+                id_strategy: 'preserve',
+                dry_run: false,
+                conflicts: [],
+                id_map: {},
+                counts: { levels: 1, sections: 1, modules: 1, lessons: 1, exercises: 1, unlock_rules: 1 },
+            });
+        });
+
+        it('should import exercises referencing uploaded media of this environment', async () => {
+            mockCourseArchiveRepository.findTakenIds.mockResolvedValue([]);
+            mockMediaRepository.findByIds.mockResolvedValue([imageAsset]);
+            const data = archive();
+            data.exercises.push({ id: 'exercise-2', exercise_type: 'informative', data: { content: 'Hola', media: { type: 'image', media_id: MEDIA_ID } } });
+
+            await courseArchiveService.importCourse(data, {}, 'user-1');
+
+            expect(mockMediaRepository.findByIds).toHaveBeenCalledWith([MEDIA_ID]);
+            expect(mockCourseArchiveRepository.importCourse).toHaveBeenCalledWith(data, 'user-1');
+        });
+
+        it('should reject uploaded media missing from this environment, even on dry runs', async () => {
+            mockCourseArchiveRepository.findTakenIds.mockResolvedValue([]);
+            const data = archive();
+            data.exercises.push({ id: 'exercise-2', exercise_type: 'informative', data: { content: 'Hola', media: { type: 'image', media_id: MEDIA_ID } } });
+
+            await expect(courseArchiveService.importCourse(data, { dry_run: true })).rejects.toMatchObject({
+                issues: [{ path: ['exercises', 1, 'data', 'media', 'media_id'], message: `Media ${MEDIA_ID} does not exist` }],
+            });
+            await expect(courseArchiveService.importCourse(data)).rejects.toBeInstanceOf(ZodError);
+            expect(mockCourseArchiveRepository.importCourse).not.toHaveBeenCalled();
+        });
+
+        it('should throw 409 when preserved IDs are taken', async () => {
+            mockCourseArchiveRepository.findTakenIds.mockResolvedValue([{ entity_type: 'exercise', id: 'exercise-1' }]);
+
+            await expect(courseArchiveService.importCourse(archive())).rejects.toThrow(AppError);
+            await expect(courseArchiveService.importCourse(archive())).rejects.toMatchObject({
+                statusCode: 409,
+                message: "Archive IDs already exist: exercise 'exercise-1'. Import with id_strategy=remap to assign new IDs",
+            });
+            expect(mockCourseArchiveRepository.importCourse).not.toHaveBeenCalled();
+        });
+
+        it('should report conflicts without importing on dry runs', async () => {
+            mockCourseArchiveRepository.findTakenIds.mockResolvedValue([{ entity_type: 'course', id: 'course-1' }]);
+
+            const result = await courseArchiveService.importCourse(archive(), { dry_run: true });
+
+            expect(result.conflicts).toEqual([{ entity_type: 'course', id: 'course-1' }]);
+            expect(result.dry_run).toBe(true);
+            expect(mockCourseArchiveRepository.importCourse).not.toHaveBeenCalled();
+        });
+
+        it('should remap taken IDs and the references to them', async () => {
+            mockCourseArchiveRepository.findTakenIds.mockResolvedValue([
+                { entity_type: 'course', id: 'course-1' },
+                { entity_type: 'lesson', id: 'lesson-1' },
+                { entity_type: 'exercise', id: 'exercise-1' },
+            ]);
+            // The first candidate for the exercise is taken as well
+            mockExerciseRepository.isIdTaken.mockImplementation(async (id: string) => id === 'exercise');
+
+            const result = await courseArchiveService.importCourse(archive(), { id_strategy: 'remap' }, 'user-1');
+
+            expect(result.id_map).toEqual({
+                course: { 'course-1': 'spanish-basics' },
+                lesson: { 'lesson-1': 'saying-hello' },
+                exercise: { 'exercise-1': 'exercise-2' },
+            });
+            expect(result.course_id).toBe('spanish-basics');
+
+            const imported = mockCourseArchiveRepository.importCourse.mock.calls[0]![0];
+            const lesson = imported.levels[0]!.sections[0]!.modules[0]!.lessons[0]!;
+            expect(lesson.id).toBe('saying-hello');
+            expect(lesson.exercises).toEqual([{ exercise_id: 'exercise-2', order: 1 }]);
+            expect(imported.exercises[0]!.id).toBe('exercise-2');
+            expect(imported.unlock_rules[0]!.target_id).toBe('saying-hello');
+            expect(imported.levels[0]!.id).toBe('level-1');
+        });
+    });
+});
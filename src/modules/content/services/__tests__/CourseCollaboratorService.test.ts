@@ -0,0 +1,253 @@
+// src/modules/content/services/__tests__/CourseCollaboratorService.test.ts
+
+import { CourseCollaboratorService } from '../CourseCollaboratorService';
+import { CourseCollaboratorRepository, CourseRepository, UnlockRuleRepository } from '../../repositories';
+import { CourseCollaborator } from '../../types';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+import { ErrorCodes, HttpStatus } from '../../../../shared/types';
+
+jest.mock('../../repositories');
+jest.mock('../../../../shared/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+    },
+}));
+
+/**
+ * Test suite for CourseCollaboratorService, covering course role checks, including the courses
+ * sharing an exercise, the resolution of the course behind nested content and the invitation workflow.
+ */
+describe('CourseCollaboratorService', () => {
+    let service: CourseCollaboratorService;
+    let mockCollaboratorRepository: jest.Mocked<CourseCollaboratorRepository>;
+    let mockCourseRepository: jest.Mocked<CourseRepository>;
+    let mockUnlockRuleRepository: jest.Mocked<UnlockRuleRepository>;
+
+    const buildCollaborator = (overrides: Partial<CourseCollaborator> = {}): CourseCollaborator => ({
+        course_id: 'course-1',
+        user_id: 'user-1',
+        email: 'ana@example.com',
+        username: 'ana',
+        role: 'editor',
+        invited_by: 'owner-1',
+        accepted_at: new Date('2024-01-02T00:00:00Z'),
+        created_at: new Date('2024-01-01T00:00:00Z'),
+        updated_at: new Date('2024-01-02T00:00:00Z'),
+        ...overrides
+    });
+
+    beforeEach(() => {
+        mockCollaboratorRepository = {
+            findRole: jest.fn(),
+            find: jest.fn(),
+            findByCourseId: jest.fn(),
+            create: jest.fn(),
+            updateRole: jest.fn(),
+            delete: jest.fn(),
+            countOwners: jest.fn(),
+            findInvitationsByUserId: jest.fn(),
+            acceptInvitation: jest.fn(),
+            deleteInvitation: jest.fn(),
+            findActiveUserIdByEmail: jest.fn(),
+        } as any;
+
+        mockCourseRepository = {
+            exists: jest.fn(),
+            findIdsUsingExercise: jest.fn(),
+        } as any;
+
+        mockUnlockRuleRepository = {
+            findTargetCourseId: jest.fn(),
+        } as any;
+
+        (CourseCollaboratorRepository as jest.MockedClass<typeof CourseCollaboratorRepository>).mockImplementation(() => mockCollaboratorRepository);
+        (CourseRepository as jest.MockedClass<typeof CourseRepository>).mockImplementation(() => mockCourseRepository);
+        (UnlockRuleRepository as jest.MockedClass<typeof UnlockRuleRepository>).mockImplementation(() => mockUnlockRuleRepository);
+
+        service = new CourseCollaboratorService({} as any);
+    });
+
+    describe('hasCourseRole', () => {
+        it.each([
+            ['owner', 'editor', true],
+            ['editor', 'editor', true],
+            ['reviewer', 'editor', false],
+            ['reviewer', 'viewer', true],
+            ['viewer', 'reviewer', false],
+        ] as const)('should give a %s the %s role: %s', async (role, minRole, expected) => {
+            mockCollaboratorRepository.findRole.mockResolvedValue(role);
+
+            expect(await service.hasCourseRole('user-1', 'course-1', minRole)).toBe(expected);
+        });
+
+        it('should deny users without an accepted role', async () => {
+            mockCollaboratorRepository.findRole.mockResolvedValue(null);
+
+            expect(await service.hasCourseRole('user-1', 'course-1', 'viewer')).toBe(false);
+        });
+    });
+
+    describe('hasRoleInExerciseCourses', () => {
+        it('should require the role in every course using the exercise', async () => {
+            mockCourseRepository.findIdsUsingExercise.mockResolvedValue(['course-1', 'course-2']);
+            mockCollaboratorRepository.findRole.mockImplementation(async (courseId) => courseId === 'course-1' ? 'editor' : 'viewer');
+
+            expect(await service.hasRoleInExerciseCourses('user-1', 'exercise-1', 'editor')).toBe(false);
+            expect(await service.hasRoleInExerciseCourses('user-1', 'exercise-1', 'viewer')).toBe(true);
+            expect(mockCourseRepository.findIdsUsingExercise).toHaveBeenCalledWith('exercise-1');
+        });
+
+        it('should not require a course role for exercises no course uses', async () => {
+            mockCourseRepository.findIdsUsingExercise.mockResolvedValue([]);
+
+            expect(await service.hasRoleInExerciseCourses('user-1', 'exercise-1', 'editor')).toBe(true);
+            expect(mockCollaboratorRepository.findRole).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('resolveCourseId', () => {
+        it('should resolve the course of nested content', async () => {
+            mockUnlockRuleRepository.findTargetCourseId.mockResolvedValue('course-1');
+
+            expect(await service.resolveCourseId({ moduleId: 'module-1', id: 'lesson-1' })).toBe('course-1');
+            expect(mockUnlockRuleRepository.findTargetCourseId).toHaveBeenCalledWith('module', 'module-1');
+        });
+
+        it('should prefer the course ID over the ID of the child resource', async () => {
+            mockCourseRepository.exists.mockResolvedValue(true);
+
+            expect(await service.resolveCourseId({ courseId: 'course-1', id: 'level-1' })).toBe('course-1');
+            expect(mockCourseRepository.exists).toHaveBeenCalledWith('course-1');
+        });
+
+        it('should return null for missing courses and content', async () => {
+            mockCourseRepository.exists.mockResolvedValue(false);
+            mockUnlockRuleRepository.findTargetCourseId.mockResolvedValue(null);
+
+            expect(await service.resolveCourseId({ id: 'missing' })).toBeNull();
+            expect(await service.resolveCourseId({ lessonId: 'missing' })).toBeNull();
+            expect(await service.resolveCourseId({})).toBeNull();
+        });
+    });
+
+    describe('invite', () => {
+        it('should store a pending invitation for the user with the email', async () => {
+            const invitation = buildCollaborator({ accepted_at: null });
+            mockCollaboratorRepository.findActiveUserIdByEmail.mockResolvedValue('user-1');
+            mockCollaboratorRepository.find.mockResolvedValue(null);
+            mockCollaboratorRepository.create.mockResolvedValue(invitation);
+
+            const result = await service.invite('course-1', 'owner-1', { email: 'ana@example.com', role: 'editor' });
+
+            expect(result).toEqual(invitation);
+            expect(mockCollaboratorRepository.create).toHaveBeenCalledWith('course-1', 'user-1', 'editor', 'owner-1');
+        });
+
+        it('should reject unknown emails', async () => {
+            mockCollaboratorRepository.findActiveUserIdByEmail.mockResolvedValue(null);
+
+            await expect(service.invite('course-1', 'owner-1', { email: 'nobody@example.com', role: 'viewer' })).rejects.toEqual(
+                new AppError('User not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND)
+            );
+        });
+
+        it('should not invite collaborators twice', async () => {
+            mockCollaboratorRepository.findActiveUserIdByEmail.mockResolvedValue('user-1');
+            mockCollaboratorRepository.find.mockResolvedValue(buildCollaborator({ accepted_at: null }));
+
+            await expect(service.invite('course-1', 'owner-1', { email: 'ana@example.com', role: 'viewer' })).rejects.toEqual(
+                new AppError('User has already been invited to this course', HttpStatus.CONFLICT, ErrorCodes.CONFLICT)
+            );
+            expect(mockCollaboratorRepository.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('updateRole', () => {
+        it('should change the role of a collaborator', async () => {
+            mockCollaboratorRepository.find.mockResolvedValue(buildCollaborator());
+            mockCollaboratorRepository.updateRole.mockResolvedValue(buildCollaborator({ role: 'reviewer' }));
+
+            const result = await service.updateRole('course-1', 'user-1', 'reviewer');
+
+            expect(result.role).toBe('reviewer');
+            expect(mockCollaboratorRepository.countOwners).not.toHaveBeenCalled();
+        });
+
+        it('should not demote the last owner', async () => {
+            mockCollaboratorRepository.find.mockResolvedValue(buildCollaborator({ role: 'owner' }));
+            mockCollaboratorRepository.countOwners.mockResolvedValue(1);
+
+            await expect(service.updateRole('course-1', 'user-1', 'editor')).rejects.toEqual(
+                new AppError('A course must keep at least one owner', HttpStatus.CONFLICT, ErrorCodes.CONFLICT)
+            );
+            expect(mockCollaboratorRepository.updateRole).not.toHaveBeenCalled();
+        });
+
+        it('should demote an owner when another owner remains', async () => {
+            mockCollaboratorRepository.find.mockResolvedValue(buildCollaborator({ role: 'owner' }));
+            mockCollaboratorRepository.countOwners.mockResolvedValue(2);
+            mockCollaboratorRepository.updateRole.mockResolvedValue(buildCollaborator());
+
+            await expect(service.updateRole('course-1', 'user-1', 'editor')).resolves.toBeDefined();
+        });
+
+        it('should reject users that are not collaborators', async () => {
+            mockCollaboratorRepository.find.mockResolvedValue(null);
+
+            await expect(service.updateRole('course-1', 'user-2', 'viewer')).rejects.toEqual(
+                new AppError('Collaborator not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND)
+            );
+        });
+    });
+
+    describe('removeCollaborator', () => {
+        it('should not remove the last owner', async () => {
+            mockCollaboratorRepository.find.mockResolvedValue(buildCollaborator({ role: 'owner' }));
+            mockCollaboratorRepository.countOwners.mockResolvedValue(1);
+
+            await expect(service.removeCollaborator('course-1', 'user-1')).rejects.toMatchObject({
+                statusCode: HttpStatus.CONFLICT
+            });
+            expect(mockCollaboratorRepository.delete).not.toHaveBeenCalled();
+        });
+
+        it('should withdraw pending owner invitations', async () => {
+            mockCollaboratorRepository.find.mockResolvedValue(buildCollaborator({ role: 'owner', accepted_at: null }));
+
+            await service.removeCollaborator('course-1', 'user-1');
+
+            expect(mockCollaboratorRepository.delete).toHaveBeenCalledWith('course-1', 'user-1');
+        });
+    });
+
+    describe('acceptInvitation', () => {
+        it('should give the user the invited role', async () => {
+            mockCollaboratorRepository.acceptInvitation.mockResolvedValue(true);
+            mockCollaboratorRepository.find.mockResolvedValue(buildCollaborator());
+
+            const result = await service.acceptInvitation('user-1', 'course-1');
+
+            expect(result.accepted_at).toEqual(expect.any(Date));
+            expect(mockCollaboratorRepository.acceptInvitation).toHaveBeenCalledWith('course-1', 'user-1');
+        });
+
+        it('should reject courses the user was not invited to', async () => {
+            mockCollaboratorRepository.acceptInvitation.mockResolvedValue(false);
+
+            await expect(service.acceptInvitation('user-1', 'course-1')).rejects.toEqual(
+                new AppError('Invitation not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND)
+            );
+        });
+    });
+
+    describe('declineInvitation', () => {
+        it('should reject courses the user was not invited to', async () => {
+            mockCollaboratorRepository.deleteInvitation.mockResolvedValue(false);
+
+            await expect(service.declineInvitation('user-1', 'course-1')).rejects.toMatchObject({
+                statusCode: HttpStatus.NOT_FOUND
+            });
+        });
+    });
+});
@@ -0,0 +1,178 @@
+// src/modules/content/services/__tests__/CourseVersionService.test.ts
+
+import { CourseVersionService } from '../CourseVersionService';
+import { ContentChangeRepository, CourseRepository, CourseVersionRepository } from '../../repositories';
+import { CourseSnapshot, CourseVersionDetail, PackagedLesson } from '../../types';
+import { cacheService } from '../../../../shared/utils';
+
+jest.mock('../../repositories');
+jest.mock('../../../../shared/utils', () => ({
+    cacheService: {
+        delete: jest.fn(),
+    },
+    CACHE_KEYS: {
+        PACKAGED_COURSE: (id: string) => `packaged_course:${id}`,
+    },
+}));
+
+/**
+ * Test suite for CourseVersionService, covering publishing, version comparison and rollback.
+ */
+describe('CourseVersionService', () => {
+    let courseVersionService: CourseVersionService;
+    let mockCourseVersionRepository: jest.Mocked<CourseVersionRepository>;
+    let mockCourseRepository: jest.Mocked<CourseRepository>;
+    let mockContentChangeRepository: jest.Mocked<ContentChangeRepository>;
+
+    const timestamps = { created_at: new Date('2024-01-01T00:00:00Z'), updated_at: new Date('2024-01-01T00:00:00Z') };
+
+    const buildLesson = (id: string, overrides: Partial<PackagedLesson> = {}): PackagedLesson => ({
+        id, module_id: 'module-1', name: `Lesson ${id}`, experience_points: 10, order: 1, ...timestamps,
+        exercises: [],
+        ...overrides
+    });
+
+    const buildSnapshot = (lessons: PackagedLesson[]): CourseSnapshot => ({
+        course: {
+            id: 'course-1', source_language: 'en', target_language: 'es', name: 'Course',
+            description: '', is_public: true, ...timestamps
+        },
+        levels: [{
+            id: 'level-1', course_id: 'course-1', code: 'A1', name: 'Level', order: 1, ...timestamps,
+            sections: [{
+                id: 'section-1', level_id: 'level-1', name: 'Section', order: 1, ...timestamps,
+                modules: [{
+                    id: 'module-1', section_id: 'section-1', module_type: 'basic_lesson', name: 'Module', order: 1, ...timestamps,
+                    lessons
+                }]
+            }]
+        }]
+    });
+
+    const buildVersion = (version: number, snapshot: CourseSnapshot): CourseVersionDetail => ({
+        id: `version-${version}`,
+        course_id: 'course-1',
+        version,
+        revision: version * 10,
+        notes: null,
+        published_by: 'user-1',
+        published_at: new Date('2024-01-02T00:00:00Z'),
+        snapshot
+    });
+
+    // Version 1 has lessons 1 and 2; the draft renamed lesson 1, removed lesson 2 and added lesson 3
+    const publishedSnapshot = buildSnapshot([buildLesson('lesson-1'), buildLesson('lesson-2', { order: 2 })]);
+    const draftSnapshot = buildSnapshot([
+        buildLesson('lesson-1', { name: 'Renamed', updated_at: new Date('2024-02-01T00:00:00Z') }),
+        buildLesson('lesson-3', { order: 2 })
+    ]);
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        mockCourseVersionRepository = {
+            create: jest.fn(),
+            findByCourseId: jest.fn(),
+            findByVersion: jest.fn(),
+            findLatest: jest.fn(),
+            findCourseTree: jest.fn(),
+            restoreCourseTree: jest.fn(),
+        } as any;
+
+        mockCourseRepository = {
+            exists: jest.fn(),
+        } as any;
+
+        mockContentChangeRepository = {
+            recordChanges: jest.fn(),
+        } as any;
+
+        (CourseVersionRepository as jest.MockedClass<typeof CourseVersionRepository>).mockImplementation(() => mockCourseVersionRepository);
+        (CourseRepository as jest.MockedClass<typeof CourseRepository>).mockImplementation(() => mockCourseRepository);
+        (ContentChangeRepository as jest.MockedClass<typeof ContentChangeRepository>).mockImplementation(() => mockContentChangeRepository);
+
+        courseVersionService = new CourseVersionService({} as any);
+
+        mockCourseVersionRepository.findByVersion.mockResolvedValue(buildVersion(1, publishedSnapshot));
+        mockCourseVersionRepository.findCourseTree.mockResolvedValue({ revision: 12, snapshot: draftSnapshot });
+    });
+
+    describe('publish', () => {
+        it('should snapshot the draft at its current revision and refresh the packaged course', async () => {
+            const { snapshot: _snapshot, ...created } = buildVersion(2, draftSnapshot);
+            mockCourseVersionRepository.create.mockResolvedValue(created);
+
+            await expect(courseVersionService.publish('course-1', 'user-1', { notes: 'Spring update' })).resolves.toEqual(created);
+
+            expect(mockCourseVersionRepository.create).toHaveBeenCalledWith('course-1', {
+                revision: 12,
+                snapshot: draftSnapshot,
+                notes: 'Spring update',
+                published_by: 'user-1'
+            });
+            expect(cacheService.delete).toHaveBeenCalledWith('packaged_course:course-1');
+        });
+
+        it('should reject unknown courses', async () => {
+            mockCourseVersionRepository.findCourseTree.mockResolvedValue(null);
+
+            await expect(courseVersionService.publish('missing', 'user-1')).rejects.toMatchObject({ statusCode: 404 });
+            expect(mockCourseVersionRepository.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('diff', () => {
+        it('should compare a version with the draft ignoring timestamps', async () => {
+            const diff = await courseVersionService.diff('course-1', 1);
+
+            expect(diff).toEqual({
+                course_id: 'course-1',
+                from: 1,
+                to: 'draft',
+                changes: [
+                    { entity_type: 'lesson', entity_id: 'lesson-1', change: 'modified', fields: ['name'] },
+                    { entity_type: 'lesson', entity_id: 'lesson-3', change: 'added', fields: [] },
+                    { entity_type: 'lesson', entity_id: 'lesson-2', change: 'removed', fields: [] }
+                ]
+            });
+        });
+
+        it('should compare two versions', async () => {
+            mockCourseVersionRepository.findByVersion
+                .mockResolvedValueOnce(buildVersion(1, publishedSnapshot))
+                .mockResolvedValueOnce(buildVersion(2, publishedSnapshot));
+
+            const diff = await courseVersionService.diff('course-1', 1, 2);
+
+            expect(mockCourseVersionRepository.findByVersion).toHaveBeenLastCalledWith('course-1', 2);
+            expect(diff).toMatchObject({ from: 1, to: 2, changes: [] });
+            expect(mockCourseVersionRepository.findCourseTree).not.toHaveBeenCalled();
+        });
+
+        it('should reject unknown versions', async () => {
+            mockCourseVersionRepository.findByVersion.mockResolvedValue(null);
+
+            await expect(courseVersionService.diff('course-1', 9)).rejects.toMatchObject({ statusCode: 404 });
+        });
+    });
+
+    describe('rollback', () => {
+        it('should restore the version, record the restored content and publish it again', async () => {
+            const { snapshot: _snapshot, ...created } = buildVersion(3, publishedSnapshot);
+            mockCourseVersionRepository.create.mockResolvedValue(created);
+
+            await expect(courseVersionService.rollback('course-1', 1, 'user-1')).resolves.toEqual(created);
+
+            expect(mockCourseVersionRepository.restoreCourseTree).toHaveBeenCalledWith('course-1', publishedSnapshot);
+            expect(mockContentChangeRepository.recordChanges).toHaveBeenCalledWith('course-1', [
+                { entity_type: 'lesson', entity_id: 'lesson-1', operation: 'upsert' },
+                { entity_type: 'lesson', entity_id: 'lesson-2', operation: 'upsert' },
+                { entity_type: 'lesson', entity_id: 'lesson-3', operation: 'delete' }
+            ]);
+            expect(mockCourseVersionRepository.create).toHaveBeenCalledWith('course-1', expect.objectContaining({
+                notes: 'Rollback to version 1',
+                published_by: 'user-1'
+            }));
+        });
+    });
+});
@@ -0,0 +1,215 @@
+// src/modules/content/services/__tests__/EnrollmentService.test.ts
+
+import { EnrollmentService } from '../EnrollmentService';
+import { EnrollmentRepository } from '../../repositories';
+import { EnrolledCourse, Enrollment } from '../../types';
+
+jest.mock('../../repositories');
+jest.mock('../../../../shared/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+    },
+}));
+
+/**
+ * Test suite for EnrollmentService, covering enrollment in public and private courses, the
+ * learner's position in a course, "my courses" progress, read access to private courses and
+ * invite codes.
+ */
+describe('EnrollmentService', () => {
+    let service: EnrollmentService;
+    let mockEnrollmentRepository: jest.Mocked<EnrollmentRepository>;
+
+    const publicCourse = { id: 'course-1', is_public: true, invite_code: null };
+    const privateCourse = { id: 'course-1', is_public: false, invite_code: 'K7QPM2XWZD' };
+
+    const buildEnrollment = (overrides: Partial<Enrollment> = {}): Enrollment => ({
+        user_id: 'user-1',
+        course_id: 'course-1',
+        status: 'active',
+        current_lesson_id: 'lesson-1',
+        enrolled_at: new Date('2024-01-01T00:00:00Z'),
+        completed_at: null,
+        updated_at: new Date('2024-01-01T00:00:00Z'),
+        ...overrides
+    });
+
+    beforeEach(() => {
+        mockEnrollmentRepository = {
+            findCourse: jest.fn().mockResolvedValue(publicCourse),
+            updateInviteCode: jest.fn(),
+            find: jest.fn().mockResolvedValue(null),
+            create: jest.fn().mockImplementation(async (_userId, _courseId, position) => buildEnrollment(position)),
+            updatePosition: jest.fn().mockImplementation(async (_userId, _courseId, position) => buildEnrollment(position)),
+            delete: jest.fn(),
+            findByUserId: jest.fn(),
+            findLessonIdsByCourse: jest.fn().mockResolvedValue(new Map([['course-1', ['lesson-1', 'lesson-2', 'lesson-3']]])),
+            findCourseIdsByLessonIds: jest.fn().mockResolvedValue(['course-1']),
+            findCompletedLessonIds: jest.fn().mockResolvedValue(new Set()),
+            isMember: jest.fn().mockResolvedValue(false),
+            findUserRole: jest.fn().mockResolvedValue('student'),
+        } as any;
+
+        (EnrollmentRepository as jest.MockedClass<typeof EnrollmentRepository>).mockImplementation(() => mockEnrollmentRepository);
+
+        service = new EnrollmentService({} as any);
+    });
+
+    describe('enroll', () => {
+        it('should enroll in a public course at the first lesson not completed', async () => {
+            mockEnrollmentRepository.findCompletedLessonIds.mockResolvedValue(new Set(['lesson-1']));
+
+            const result = await service.enroll('user-1', 'course-1');
+
+            expect(result.created).toBe(true);
+            expect(mockEnrollmentRepository.create).toHaveBeenCalledWith('user-1', 'course-1', {
+                status: 'active',
+                current_lesson_id: 'lesson-2',
+                completed_at: null,
+            });
+        });
+
+        it('should return the existing enrollment when already enrolled', async () => {
+            const enrollment = buildEnrollment();
+            mockEnrollmentRepository.find.mockResolvedValue(enrollment);
+
+            const result = await service.enroll('user-1', 'course-1');
+
+            expect(result).toEqual({ enrollment, created: false });
+            expect(mockEnrollmentRepository.create).not.toHaveBeenCalled();
+        });
+
+        it('should enroll in a private course with its invite code regardless of case', async () => {
+            mockEnrollmentRepository.findCourse.mockResolvedValue(privateCourse);
+
+            const result = await service.enroll('user-1', 'course-1', 'k7qpm2xwzd');
+
+            expect(result.created).toBe(true);
+        });
+
+        it('should reject private courses without a valid invite code', async () => {
+            mockEnrollmentRepository.findCourse.mockResolvedValue(privateCourse);
+
+            await expect(service.enroll('user-1', 'course-1')).rejects.toMatchObject({ statusCode: 403 });
+            await expect(service.enroll('user-1', 'course-1', 'WRONGCODE1')).rejects.toMatchObject({ statusCode: 403 });
+            expect(mockEnrollmentRepository.create).not.toHaveBeenCalled();
+        });
+
+        it('should reject private courses whose invite code is disabled', async () => {
+            mockEnrollmentRepository.findCourse.mockResolvedValue({ ...privateCourse, invite_code: null });
+
+            await expect(service.enroll('user-1', 'course-1', 'K7QPM2XWZD')).rejects.toMatchObject({ statusCode: 403 });
+        });
+
+        it('should throw 404 when the course does not exist', async () => {
+            mockEnrollmentRepository.findCourse.mockResolvedValue(null);
+
+            await expect(service.enroll('user-1', 'missing')).rejects.toMatchObject({ statusCode: 404 });
+        });
+    });
+
+    describe('unenroll', () => {
+        it('should throw 404 when the learner is not enrolled', async () => {
+            mockEnrollmentRepository.delete.mockResolvedValue(false);
+
+            await expect(service.unenroll('user-1', 'course-1')).rejects.toMatchObject({ statusCode: 404 });
+        });
+    });
+
+    describe('getEnrolledCourses', () => {
+        it('should report the progress through each course', async () => {
+            const enrolledCourse: EnrolledCourse = {
+                ...buildEnrollment(),
+                course: { id: 'course-1', name: 'Spanish', source_language: 'en', target_language: 'es', is_public: true },
+                lessons_completed: 0,
+                total_lessons: 0,
+                progress_percentage: 0,
+            };
+            mockEnrollmentRepository.findByUserId.mockResolvedValue([enrolledCourse]);
+            mockEnrollmentRepository.findCompletedLessonIds.mockResolvedValue(new Set(['lesson-1']));
+
+            const courses = await service.getEnrolledCourses('user-1', 'active');
+
+            expect(mockEnrollmentRepository.findByUserId).toHaveBeenCalledWith('user-1', 'active');
+            expect(courses[0]).toMatchObject({ lessons_completed: 1, total_lessons: 3, progress_percentage: 33 });
+        });
+    });
+
+    describe('recordLessonCompletions', () => {
+        it('should mark the enrollment completed once every lesson is completed', async () => {
+            mockEnrollmentRepository.find.mockResolvedValue(buildEnrollment({ current_lesson_id: 'lesson-3' }));
+            mockEnrollmentRepository.findCompletedLessonIds.mockResolvedValue(new Set(['lesson-1', 'lesson-2', 'lesson-3']));
+
+            await service.recordLessonCompletions('user-1', ['lesson-3']);
+
+            expect(mockEnrollmentRepository.updatePosition).toHaveBeenCalledWith('user-1', 'course-1', {
+                status: 'completed',
+                current_lesson_id: null,
+                completed_at: expect.any(Date),
+            });
+        });
+
+        it('should enroll learners in public courses but not in private ones', async () => {
+            await service.recordLessonCompletions('user-1', ['lesson-1']);
+            expect(mockEnrollmentRepository.create).toHaveBeenCalledTimes(1);
+
+            mockEnrollmentRepository.findCourse.mockResolvedValue(privateCourse);
+            await service.recordLessonCompletions('user-1', ['lesson-1']);
+            expect(mockEnrollmentRepository.create).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('canReadCourse', () => {
+        it('should let everyone read public courses', async () => {
+            await expect(service.canReadCourse('course-1')).resolves.toBe(true);
+            expect(mockEnrollmentRepository.isMember).not.toHaveBeenCalled();
+        });
+
+        it('should only let learners, collaborators and admins read private courses', async () => {
+            mockEnrollmentRepository.findCourse.mockResolvedValue(privateCourse);
+
+            await expect(service.canReadCourse('course-1')).resolves.toBe(false);
+            await expect(service.canReadCourse('course-1', { sub: 'user-1', role: 'student' })).resolves.toBe(false);
+            await expect(service.canReadCourse('course-1', { sub: 'admin-1', role: 'admin' })).resolves.toBe(true);
+
+            mockEnrollmentRepository.isMember.mockResolvedValue(true);
+            await expect(service.canReadCourse('course-1', { sub: 'user-1', role: 'student' })).resolves.toBe(true);
+            expect(mockEnrollmentRepository.isMember).toHaveBeenCalledWith('user-1', 'course-1');
+        });
+
+        it('should not let anyone read courses that do not exist', async () => {
+            mockEnrollmentRepository.findCourse.mockResolvedValue(null);
+
+            await expect(service.canReadCourse('missing', { sub: 'admin-1', role: 'admin' })).resolves.toBe(false);
+        });
+    });
+
+    describe('canPlayLesson', () => {
+        it('should require joining the private course of the lesson', async () => {
+            mockEnrollmentRepository.findCourse.mockResolvedValue(privateCourse);
+
+            await expect(service.canPlayLesson('user-1', 'lesson-1')).resolves.toBe(false);
+            expect(mockEnrollmentRepository.findCourseIdsByLessonIds).toHaveBeenCalledWith(['lesson-1']);
+
+            mockEnrollmentRepository.isMember.mockResolvedValue(true);
+            await expect(service.canPlayLesson('user-1', 'lesson-1')).resolves.toBe(true);
+        });
+
+        it('should let admins play lessons of any course', async () => {
+            mockEnrollmentRepository.findCourse.mockResolvedValue(privateCourse);
+            mockEnrollmentRepository.findUserRole.mockResolvedValue('admin');
+
+            await expect(service.canPlayLesson('admin-1', 'lesson-1')).resolves.toBe(true);
+        });
+    });
+
+    describe('rotateInviteCode', () => {
+        it('should store a new 10 character code', async () => {
+            const result = await service.rotateInviteCode('course-1');
+
+            expect(result.invite_code).toMatch(/^[A-Z2-7]{10}$/);
+            expect(mockEnrollmentRepository.updateInviteCode).toHaveBeenCalledWith('course-1', result.invite_code);
+        });
+    });
+});
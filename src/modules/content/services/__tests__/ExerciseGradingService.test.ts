@@ -0,0 +1,311 @@
+// src/modules/content/services/__tests__/ExerciseGradingService.test.ts
+
+import { ExerciseGradingService } from '../ExerciseGradingService';
+import { ExerciseAttemptRepository, ExerciseRepository } from '../../repositories';
+import { Exercise } from '../../types';
+import { AppError } from '../../../../shared/middleware';
+
+// Mock dependencies
+jest.mock('../../repositories');
+
+/**
+ * Test suite for ExerciseGradingService, covering server-side answer grading.
+ *
+ * These tests verify type-specific grading rules for every exercise type, lenient text
+ * normalization, speaking transcript accuracy, per-item correctness reporting, lesson attempt
+ * scoring including unanswered exercises, informative exercises and answers for unassigned
+ * exercises, and the recording of the answers of lesson attempts.
+ *
+ * @fileoverview Unit tests for ExerciseGradingService business logic layer
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ */
+describe('ExerciseGradingService', () => {
+    let gradingService: ExerciseGradingService;
+    let mockPrisma: any;
+    let mockExerciseRepository: jest.Mocked<ExerciseRepository>;
+    let mockExerciseAttemptRepository: jest.Mocked<ExerciseAttemptRepository>;
+
+    const buildExercise = (id: string, exercise_type: Exercise['exercise_type'], data: any): Exercise => ({
+        id,
+        exercise_type,
+        data,
+        created_at: new Date(),
+        updated_at: new Date(),
+    });
+
+    beforeEach(() => {
+        mockPrisma = {
+            lesson: {
+                findUnique: jest.fn(),
+            },
+            lessonExercise: {
+                findMany: jest.fn(),
+                findFirst: jest.fn(),
+            },
+        };
+
+        mockExerciseRepository = {
+            findById: jest.fn(),
+            findByIds: jest.fn(),
+        } as any;
+
+        mockExerciseAttemptRepository = {
+            createMany: jest.fn(),
+        } as any;
+
+        (ExerciseRepository as jest.MockedClass<typeof ExerciseRepository>).mockImplementation(() => mockExerciseRepository);
+        (ExerciseAttemptRepository as jest.MockedClass<typeof ExerciseAttemptRepository>).mockImplementation(() => mockExerciseAttemptRepository);
+
+        gradingService = new ExerciseGradingService(mockPrisma);
+
+        jest.clearAllMocks();
+    });
+
+    describe('grade', () => {
+        it('should accept translations that differ only in case, punctuation and spacing', () => {
+            const exercise = buildExercise('trans-001', 'translation', { source_text: 'Hello world', target_text: '¡Hola mundo!' });
+
+            const result = gradingService.grade(exercise, { text: '  hola   Mundo ' });
+
+            expect(result.gradable).toBe(true);
+            expect(result.correct).toBe(true);
+            expect(result.score).toBe(1);
+        });
+
+        it('should grade word bank answers position by position', () => {
+            const exercise = buildExercise('twb-001', 'translation-word-bank', {
+                source_text: 'I eat bread',
+                target_text: 'Yo como pan',
+                correct_words: ['Yo', 'como', 'pan'],
+                word_bank: ['Yo', 'como', 'pan', 'agua'],
+            });
+
+            const result = gradingService.grade(exercise, { words: ['Yo', 'agua', 'pan'] });
+
+            expect(result.correct).toBe(false);
+            expect(result.items.map(item => item.correct)).toEqual([true, false, true]);
+            expect(result.score).toBe(0.67);
+        });
+
+        it('should fail word bank answers with extra words', () => {
+            const exercise = buildExercise('twb-002', 'translation-word-bank', {
+                correct_words: ['Yo', 'como'],
+                word_bank: ['Yo', 'como', 'pan'],
+            });
+
+            const result = gradingService.grade(exercise, { words: ['Yo', 'como', 'pan'] });
+
+            expect(result.correct).toBe(false);
+        });
+
+        it('should grade blanks in position order against any accepted answer', () => {
+            const exercise = buildExercise('fill-001', 'fill-in-the-blank', {
+                text: 'I ___ from ___',
+                blanks: [
+                    { position: 1, correct_answers: ['Spain', 'Peru'] },
+                    { position: 0, correct_answers: ['am', "'m"] },
+                ],
+            });
+
+            const result = gradingService.grade(exercise, { blanks: ['am', 'peru'] });
+
+            expect(result.correct).toBe(true);
+            expect(result.items).toHaveLength(2);
+        });
+
+        it('should grade vof answers strictly as booleans', () => {
+            const exercise = buildExercise('vof-001', 'vof', { statement: 'The sky is green', is_true: false });
+
+            expect(gradingService.grade(exercise, { value: false }).correct).toBe(true);
+            expect(gradingService.grade(exercise, { value: 'false' }).correct).toBe(false);
+        });
+
+        it('should grade each stored pair independently of answer order', () => {
+            const exercise = buildExercise('pairs-001', 'pairs', {
+                pairs: [
+                    { left: 'dog', right: 'perro' },
+                    { left: 'cat', right: 'gato' },
+                ],
+            });
+
+            const result = gradingService.grade(exercise, {
+                pairs: [
+                    { left: 'cat', right: 'perro' },
+                    { left: 'dog', right: 'perro' },
+                ],
+            });
+
+            expect(result.items.map(item => item.correct)).toEqual([true, false]);
+            expect(result.score).toBe(0.5);
+        });
+
+        it('should grade ordering answers as indexes into the stored items', () => {
+            const exercise = buildExercise('order-001', 'ordering', {
+                items: [
+                    { text: 'world', correct_order: 2 },
+                    { text: 'Hello', correct_order: 1 },
+                ],
+            });
+
+            expect(gradingService.grade(exercise, { order: [1, 0] }).correct).toBe(true);
+            expect(gradingService.grade(exercise, { order: [0, 1] }).score).toBe(0);
+        });
+
+        it('should grade listening answers against any correct answer', () => {
+            const exercise = buildExercise('listen-001', 'listening', {
+                audio: { url: 'https://cdn.example.com/buenos-dias.mp3' },
+                answer_mode: 'choose',
+                correct_answers: ['Buenos días'],
+                options: ['Buenos días', 'Buenas noches'],
+            });
+
+            expect(gradingService.grade(exercise, { text: 'buenos días' }).correct).toBe(true);
+            expect(gradingService.grade(exercise, { text: 'Buenas noches' }).correct).toBe(false);
+        });
+
+        it('should pass speaking transcripts reaching the word accuracy of the closest expected transcript', () => {
+            const exercise = buildExercise('speak-001', 'speaking', {
+                prompt: 'Introduce yourself',
+                expected_transcripts: ['Hola me llamo Ana', 'Hola soy Ana y vivo en Lima'],
+            });
+
+            // Two substitutions in seven words of the second transcript
+            const result = gradingService.grade(exercise, { transcript: 'Hola, soy Eva y vivo en Cuzco' });
+
+            expect(result.correct).toBe(false);
+            expect(result.items[0]?.expected).toBe('Hola soy Ana y vivo en Lima');
+            expect(gradingService.grade(exercise, { transcript: '¡Hola! Me llamo Ana.' }).correct).toBe(true);
+            expect(gradingService.grade(exercise, { transcript: 'Hola me llamo Anna' }).correct).toBe(false);
+        });
+
+        it('should apply the min_accuracy of speaking exercises', () => {
+            const exercise = buildExercise('speak-002', 'speaking', {
+                prompt: 'Say where you live',
+                expected_transcripts: ['Yo vivo en la ciudad de Lima'],
+                min_accuracy: 0.5,
+            });
+
+            expect(gradingService.grade(exercise, { transcript: 'Yo vivo en la ciudad de Cuzco' }).correct).toBe(true);
+            expect(gradingService.grade(exercise, { transcript: 'Lima' }).correct).toBe(false);
+            expect(gradingService.grade(exercise, {}).correct).toBe(false);
+        });
+
+        it('should report informative exercises as non-gradable', () => {
+            const exercise = buildExercise('info-001', 'informative', { content: 'Greetings in Spanish' });
+
+            const result = gradingService.grade(exercise, {});
+
+            expect(result.gradable).toBe(false);
+            expect(result.score).toBe(1);
+        });
+
+        it('should treat missing answers as incorrect', () => {
+            const exercise = buildExercise('trans-002', 'translation', { source_text: 'Bye', target_text: 'Adiós' });
+
+            const result = gradingService.grade(exercise, {});
+
+            expect(result.correct).toBe(false);
+            expect(result.items[0]?.given).toBeNull();
+        });
+    });
+
+    describe('gradeExercise', () => {
+        it('should throw 404 when the exercise does not exist', async () => {
+            mockExerciseRepository.findById.mockResolvedValue(null);
+
+            await expect(gradingService.gradeExercise('missing', {})).rejects.toThrow(AppError);
+            await expect(gradingService.gradeExercise('missing', {})).rejects.toMatchObject({ statusCode: 404 });
+        });
+
+        it('should grade without recording an attempt', async () => {
+            mockExerciseRepository.findById.mockResolvedValue(buildExercise('vof-001', 'vof', { statement: 'A', is_true: true }));
+
+            const result = await gradingService.gradeExercise('vof-001', { value: true });
+
+            expect(result.correct).toBe(true);
+            expect(mockExerciseAttemptRepository.createMany).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('gradeLessonAttempt', () => {
+        it('should compute the lesson score from gradable exercises only', async () => {
+            mockPrisma.lesson.findUnique.mockResolvedValue({ id: 'lesson-001' });
+            mockPrisma.lessonExercise.findMany.mockResolvedValue([
+                { exerciseId: 'vof-001' },
+                { exerciseId: 'vof-002' },
+                { exerciseId: 'info-001' },
+            ]);
+            mockExerciseRepository.findByIds.mockResolvedValue([
+                buildExercise('vof-001', 'vof', { statement: 'A', is_true: true }),
+                buildExercise('vof-002', 'vof', { statement: 'B', is_true: false }),
+                buildExercise('info-001', 'informative', { content: 'C' }),
+            ]);
+
+            const result = await gradingService.gradeLessonAttempt('lesson-001', [
+                { exercise_id: 'vof-001', answer: { value: true } },
+            ]);
+
+            expect(result.score).toBe(50);
+            expect(result.correct_count).toBe(1);
+            expect(result.gradable_count).toBe(2);
+            expect(result.results).toHaveLength(3);
+        });
+
+        it('should record the answered exercises as attempts of the learner', async () => {
+            mockPrisma.lesson.findUnique.mockResolvedValue({ id: 'lesson-001' });
+            mockPrisma.lessonExercise.findMany.mockResolvedValue([
+                { exerciseId: 'vof-001' },
+                { exerciseId: 'vof-002' },
+                { exerciseId: 'info-001' },
+            ]);
+            mockExerciseRepository.findByIds.mockResolvedValue([
+                buildExercise('vof-001', 'vof', { statement: 'A', is_true: true }),
+                buildExercise('vof-002', 'vof', { statement: 'B', is_true: false }),
+                buildExercise('info-001', 'informative', { content: 'C' }),
+            ]);
+
+            await gradingService.gradeLessonAttempt('lesson-001', [
+                { exercise_id: 'vof-001', answer: { value: false }, duration_seconds: 8 },
+                { exercise_id: 'info-001', answer: {} },
+            ], 'user-1');
+
+            expect(mockExerciseAttemptRepository.createMany).toHaveBeenCalledWith([{
+                user_id: 'user-1',
+                exercise_id: 'vof-001',
+                lesson_id: 'lesson-001',
+                answer: { value: false },
+                correct: false,
+                score: 0,
+                duration_seconds: 8,
+            }]);
+        });
+
+        it('should not record attempts without a learner', async () => {
+            mockPrisma.lesson.findUnique.mockResolvedValue({ id: 'lesson-001' });
+            mockPrisma.lessonExercise.findMany.mockResolvedValue([{ exerciseId: 'vof-001' }]);
+            mockExerciseRepository.findByIds.mockResolvedValue([
+                buildExercise('vof-001', 'vof', { statement: 'A', is_true: true }),
+            ]);
+
+            await gradingService.gradeLessonAttempt('lesson-001', [{ exercise_id: 'vof-001', answer: { value: true } }]);
+
+            expect(mockExerciseAttemptRepository.createMany).not.toHaveBeenCalled();
+        });
+
+        it('should reject answers for exercises not assigned to the lesson', async () => {
+            mockPrisma.lesson.findUnique.mockResolvedValue({ id: 'lesson-001' });
+            mockPrisma.lessonExercise.findMany.mockResolvedValue([{ exerciseId: 'vof-001' }]);
+
+            await expect(gradingService.gradeLessonAttempt('lesson-001', [
+                { exercise_id: 'other-001', answer: { value: true } },
+            ])).rejects.toMatchObject({ statusCode: 400 });
+        });
+
+        it('should throw 404 when the lesson does not exist', async () => {
+            mockPrisma.lesson.findUnique.mockResolvedValue(null);
+
+            await expect(gradingService.gradeLessonAttempt('missing', [])).rejects.toMatchObject({ statusCode: 404 });
+        });
+    });
+});
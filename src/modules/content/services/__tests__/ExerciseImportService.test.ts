@@ -0,0 +1,222 @@
+// src/modules/content/services/__tests__/ExerciseImportService.test.ts
+
+import { ZodError } from 'zod';
+import { ExerciseImportService } from '../ExerciseImportService';
+import { ContentChangeService } from '../ContentChangeService';
+import { CourseCollaboratorService } from '../CourseCollaboratorService';
+import { ExerciseRepository, LessonRepository } from '../../repositories';
+import { ImportExercisesDto, ImportExercisesSchema } from '../../types';
+import { JWTPayload } from '../../../../shared/types';
+
+jest.mock('../../repositories');
+jest.mock('../ContentChangeService');
+jest.mock('../CourseCollaboratorService');
+
+/**
+ * Test suite for ExerciseImportService, covering column mapping, per-row validation, ID generation,
+ * dry runs and appending imported exercises to a lesson.
+ */
+describe('ExerciseImportService', () => {
+    let exerciseImportService: ExerciseImportService;
+    let mockExerciseRepository: jest.Mocked<ExerciseRepository>;
+    let mockLessonRepository: jest.Mocked<LessonRepository>;
+    let mockContentChangeService: jest.Mocked<ContentChangeService>;
+    let mockCourseCollaboratorService: jest.Mocked<CourseCollaboratorService>;
+
+    const admin = { sub: 'admin-1', role: 'admin' } as JWTPayload;
+    const creator = { sub: 'user-1', role: 'content_creator' } as JWTPayload;
+
+    const request = (data: Partial<ImportExercisesDto>): ImportExercisesDto =>
+        ImportExercisesSchema.parse({
+            exercise_type: 'translation',
+            content: 'english,spanish,hints\nHello,Hola,greeting\nThank you,Gracias,polite | common\n',
+            mapping: { source_text: 'english', target_text: 'spanish', hints: 'hints' },
+            ...data,
+        });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        mockExerciseRepository = {
+            isIdTaken: jest.fn().mockResolvedValue(false),
+            createMany: jest.fn(),
+        } as any;
+        mockLessonRepository = {
+            exists: jest.fn().mockResolvedValue(true),
+            getLessonExercises: jest.fn().mockResolvedValue([]),
+        } as any;
+        mockContentChangeService = { recordChangesWithin: jest.fn() } as any;
+        mockCourseCollaboratorService = {
+            resolveCourseId: jest.fn().mockResolvedValue('course-1'),
+            hasCourseRole: jest.fn().mockResolvedValue(true),
+        } as any;
+
+        (ExerciseRepository as jest.MockedClass<typeof ExerciseRepository>).mockImplementation(() => mockExerciseRepository);
+        (LessonRepository as jest.MockedClass<typeof LessonRepository>).mockImplementation(() => mockLessonRepository);
+        (ContentChangeService as jest.MockedClass<typeof ContentChangeService>).mockImplementation(() => mockContentChangeService);
+        (CourseCollaboratorService as jest.MockedClass<typeof CourseCollaboratorService>).mockImplementation(() => mockCourseCollaboratorService);
+
+        exerciseImportService = new ExerciseImportService({} as any);
+    });
+
+    describe('importExercises', () => {
+        it('should create one exercise per row with generated IDs', async () => {
+            const result = await exerciseImportService.importExercises(request({}), {}, admin);
+
+            expect(result).toEqual({
+                dry_run: false,
+                exercise_type: 'translation',
+                lesson_id: null,
+                total_rows: 2,
+                errors: [],
+                exercises: [
+                    { row: 2, id: 'hello', exercise_type: 'translation', data: { source_text: 'Hello', target_text: 'Hola', hints: ['greeting'] } },
+                    { row: 3, id: 'thank-you', exercise_type: 'translation', data: { source_text: 'Thank you', target_text: 'Gracias', hints: ['polite', 'common'] } },
+                ],
+            });
+            expect(mockExerciseRepository.createMany).toHaveBeenCalledWith(result.exercises, undefined);
+            expect(mockContentChangeService.recordChangesWithin).not.toHaveBeenCalled();
+        });
+
+        it('should report every invalid row on dry runs without creating anything', async () => {
+            const data = request({
+                content: 'id,english,spanish\nhi,Hi,Hola\nhi,Bye,\n\nlong-exercise-id,Yes,Sí\n',
+                mapping: { id: 'ID', source_text: 'english', target_text: 'spanish' },
+            });
+
+            const result = await exerciseImportService.importExercises(data, { dry_run: true }, admin);
+
+            expect(result.total_rows).toBe(3);
+            expect(result.exercises.map(exercise => exercise.row)).toEqual([2]);
+            expect(result.errors).toEqual([
+                { row: 3, field: 'id', message: "Exercise ID 'hi' is used by another row" },
+                { row: 3, field: 'data.target_text', message: 'Target text is required' },
+                { row: 5, field: 'id', message: 'Exercise ID must be 15 characters or less' },
+            ]);
+            expect(mockExerciseRepository.createMany).not.toHaveBeenCalled();
+        });
+
+        it('should refuse to import files with invalid rows', async () => {
+            mockExerciseRepository.isIdTaken.mockImplementation(async (id: string) => id === 'hi');
+            const data = request({
+                content: 'id,english,spanish\nhi,Hi,Hola\n',
+                mapping: { id: 'id', source_text: 'english', target_text: 'spanish' },
+            });
+
+            const error = await exerciseImportService.importExercises(data, {}, admin).catch(e => e);
+
+            expect(error).toBeInstanceOf(ZodError);
+            expect(error.issues).toEqual([
+                expect.objectContaining({ path: ['rows', 2, 'id'], message: "Exercise with ID 'hi' already exists" }),
+            ]);
+            expect(mockExerciseRepository.createMany).not.toHaveBeenCalled();
+        });
+
+        it('should build exercise data from columns referenced by position', async () => {
+            const data = request({
+                format: 'tsv',
+                has_header: false,
+                exercise_type: 'pairs',
+                content: 'dog|cat\tperro|gato\tbird\tpájaro\n',
+                mapping: { left: [1, 3], right: [2, 4] },
+            });
+
+            const result = await exerciseImportService.importExercises(data, { dry_run: true }, admin);
+
+            expect(result.exercises[0]).toMatchObject({
+                row: 1,
+                data: { pairs: [{ left: 'dog', right: 'perro' }, { left: 'cat', right: 'gato' }, { left: 'bird', right: 'pájaro' }] },
+            });
+        });
+
+        it('should read blanks and true/false values', async () => {
+            const blanks = await exerciseImportService.importExercises(request({
+                exercise_type: 'fill-in-the-blank',
+                content: 'text,first,second\n"I ___ from ___",am|come,Peru\n',
+                mapping: { text: 'text', answers: ['first', 'second'] },
+            }), { dry_run: true }, admin);
+            const statements = await exerciseImportService.importExercises(request({
+                exercise_type: 'vof',
+                content: 'statement,answer\nLima is in Peru,yes\nCusco is in Chile,Falso\nQuito is in Ecuador,maybe\n',
+                mapping: { statement: 'statement', is_true: 'answer' },
+            }), { dry_run: true }, admin);
+
+            expect(blanks.exercises[0]!.data.blanks).toEqual([
+                { position: 0, correct_answers: ['am', 'come'] },
+                { position: 1, correct_answers: ['Peru'] },
+            ]);
+            expect(statements.exercises.map(exercise => exercise.data.is_true)).toEqual([true, false]);
+            expect(statements.errors).toEqual([{ row: 4, field: 'data.is_true', message: 'is_true must be a boolean' }]);
+        });
+
+        it('should read listening audio URLs and answer modes', async () => {
+            const result = await exerciseImportService.importExercises(request({
+                exercise_type: 'listening',
+                content: 'audio,mode,answer,options\nhttps://example.com/hola.mp3,,Hola,\nhttps://example.com/chau.mp3,Choose,Chau,Chau|Hola\n',
+                mapping: { audio_url: 'audio', answer_mode: 'mode', correct_answers: 'answer', options: 'options' },
+            }), { dry_run: true }, admin);
+
+            expect(result.errors).toEqual([]);
+            expect(result.exercises.map(exercise => exercise.data)).toEqual([
+                { audio: { url: 'https://example.com/hola.mp3' }, answer_mode: 'type', correct_answers: ['Hola'] },
+                { audio: { url: 'https://example.com/chau.mp3' }, answer_mode: 'choose', correct_answers: ['Chau'], options: ['Chau', 'Hola'] },
+            ]);
+        });
+
+        it('should append the exercises to a lesson after its current exercises', async () => {
+            mockLessonRepository.getLessonExercises.mockResolvedValue([{ order: 1 }, { order: 3 }] as any);
+
+            const result = await exerciseImportService.importExercises(request({ lesson_id: 'lesson-1' }), {}, creator);
+
+            expect(mockCourseCollaboratorService.hasCourseRole).toHaveBeenCalledWith('user-1', 'course-1', 'editor');
+            expect(result.exercises.map(exercise => exercise.order)).toEqual([4, 5]);
+            expect(mockExerciseRepository.createMany).toHaveBeenCalledWith(result.exercises, { lessonId: 'lesson-1', firstOrder: 4 });
+            expect(mockContentChangeService.recordChangesWithin).toHaveBeenCalledWith('lesson', 'lesson-1', [
+                { entity_type: 'lesson', entity_id: 'lesson-1', operation: 'upsert' },
+            ]);
+        });
+
+        it('should require the editor role in the course of the lesson', async () => {
+            mockCourseCollaboratorService.hasCourseRole.mockResolvedValue(false);
+
+            await expect(
+                exerciseImportService.importExercises(request({ lesson_id: 'lesson-1' }), {}, creator)
+            ).rejects.toMatchObject({ statusCode: 403 });
+            expect(mockExerciseRepository.createMany).not.toHaveBeenCalled();
+        });
+
+        it('should reject mapped columns missing from the header', async () => {
+            await expect(
+                exerciseImportService.importExercises(request({ mapping: { source_text: 'english', target_text: 'french' } }), {}, admin)
+            ).rejects.toMatchObject({
+                statusCode: 400,
+                message: "Column 'french' mapped to 'target_text' is not in the file header",
+            });
+        });
+
+        it('should reject unreadable files', async () => {
+            await expect(
+                exerciseImportService.importExercises(request({ content: 'english,spanish\n"Hello,Hola\n' }), {}, admin)
+            ).rejects.toMatchObject({
+                statusCode: 400,
+                message: 'Could not read the file: Unterminated quoted field in record 2',
+            });
+        });
+    });
+
+    describe('ImportExercisesSchema', () => {
+        it('should require the fields of the exercise type and reject unknown ones', () => {
+            const result = ImportExercisesSchema.safeParse({
+                exercise_type: 'translation',
+                content: 'a,b',
+                mapping: { source_text: 'a', answers: 'b' },
+            });
+
+            expect(result.success).toBe(false);
+            expect(result.error?.issues.map(issue => issue.message)).toEqual([
+                "Unknown field 'answers' for translation exercises",
+                "Field 'target_text' must be mapped to a column",
+            ]);
+        });
+    });
+});
@@ -0,0 +1,183 @@
+// src/modules/content/services/__tests__/ExerciseUsageService.test.ts
+
+import { ExerciseUsageService } from '../ExerciseUsageService';
+import { ExerciseAttemptRepository, ExerciseRepository } from '../../repositories';
+import { ExerciseAttemptStats, FirstExerciseAttempt } from '../../types';
+
+jest.mock('../../repositories');
+
+/**
+ * Test suite for ExerciseUsageService analytics, covering per-exercise accuracy, common wrong
+ * answers, the discrimination index, quality flags and trends computed from the attempt aggregates.
+ */
+describe('ExerciseUsageService', () => {
+    let exerciseUsageService: ExerciseUsageService;
+    let mockPrisma: any;
+    let mockExerciseRepository: jest.Mocked<ExerciseRepository>;
+    let mockExerciseAttemptRepository: jest.Mocked<ExerciseAttemptRepository>;
+
+    const stats = (overrides: Partial<ExerciseAttemptStats> = {}): ExerciseAttemptStats => ({
+        total_attempts: 0,
+        correct_attempts: 0,
+        unique_learners: 0,
+        learners_correct: 0,
+        average_score: null,
+        average_duration_seconds: null,
+        lesson_ids: ['lesson-001'],
+        ...overrides,
+    });
+
+    const firstAttempt = (user_id: string, correct: boolean): FirstExerciseAttempt => ({ user_id, correct });
+
+    // Ten learners ranked by their score on the rest of the lesson, from learner-0 (best) to learner-9
+    const learners = Array.from({ length: 10 }, (_, i) => `learner-${i}`);
+    const restScores = new Map(learners.map((learner, i) => [learner, 1 - i / 10]));
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        mockPrisma = {
+            lessonExercise: {
+                findMany: jest.fn().mockResolvedValue([]),
+            },
+        };
+        mockExerciseRepository = {
+            findById: jest.fn().mockResolvedValue({ id: 'trans-001', exercise_type: 'translation', data: {} }),
+        } as any;
+        mockExerciseAttemptRepository = {
+            getStats: jest.fn().mockResolvedValue(stats()),
+            findFirstAttempts: jest.fn().mockResolvedValue([]),
+            findCommonWrongAnswers: jest.fn().mockResolvedValue([]),
+            countByWeek: jest.fn().mockResolvedValue(new Map()),
+            countByMonth: jest.fn().mockResolvedValue(new Map()),
+            findRestScores: jest.fn().mockResolvedValue(restScores),
+        } as any;
+
+        (ExerciseRepository as jest.MockedClass<typeof ExerciseRepository>).mockImplementation(() => mockExerciseRepository);
+        (ExerciseAttemptRepository as jest.MockedClass<typeof ExerciseAttemptRepository>).mockImplementation(() => mockExerciseAttemptRepository);
+
+        exerciseUsageService = new ExerciseUsageService(mockPrisma);
+    });
+
+    describe('getExerciseAnalytics', () => {
+        it('should report accuracy per attempt, per learner and at the first attempt', async () => {
+            mockExerciseAttemptRepository.getStats.mockResolvedValue(stats({
+                total_attempts: 4,
+                correct_attempts: 2,
+                unique_learners: 3,
+                learners_correct: 2,
+                average_score: 0.625,
+                average_duration_seconds: 15,
+            }));
+            mockExerciseAttemptRepository.findFirstAttempts.mockResolvedValue([
+                firstAttempt('user-1', false),
+                firstAttempt('user-2', true),
+                firstAttempt('user-3', false),
+            ]);
+
+            const analytics = await exerciseUsageService.getExerciseAnalytics('trans-001');
+
+            expect(analytics.performanceMetrics).toMatchObject({
+                totalAttempts: 4,
+                uniqueLearners: 3,
+                completionRate: 67,
+                accuracy: 50,
+                firstAttemptAccuracy: 33,
+                averageScore: 63,
+                averageTimeSpent: 15,
+                discriminationIndex: null,
+                flags: [],
+            });
+            expect(mockExerciseAttemptRepository.getStats).toHaveBeenCalledWith('trans-001');
+            expect(mockExerciseAttemptRepository.findRestScores).not.toHaveBeenCalled();
+        });
+
+        it('should not query attempt details for exercises without attempts', async () => {
+            const analytics = await exerciseUsageService.getExerciseAnalytics('trans-001');
+
+            expect(analytics.performanceMetrics).toMatchObject({
+                totalAttempts: 0,
+                accuracy: 0,
+                averageScore: 0,
+                averageTimeSpent: null,
+                commonWrongAnswers: [],
+            });
+            expect(mockExerciseAttemptRepository.findFirstAttempts).not.toHaveBeenCalled();
+            expect(mockExerciseAttemptRepository.findCommonWrongAnswers).not.toHaveBeenCalled();
+        });
+
+        it('should list the most common wrong answers with their share of wrong attempts', async () => {
+            mockExerciseAttemptRepository.getStats.mockResolvedValue(stats({ total_attempts: 4, correct_attempts: 1 }));
+            mockExerciseAttemptRepository.findCommonWrongAnswers.mockResolvedValue([
+                { answer: { blanks: ['is', 'of'], hint: false }, count: 2 },
+                { answer: { blanks: ['are', 'of'] }, count: 1 },
+            ]);
+
+            const analytics = await exerciseUsageService.getExerciseAnalytics('trans-001');
+
+            expect(mockExerciseAttemptRepository.findCommonWrongAnswers).toHaveBeenCalledWith('trans-001', 5);
+            expect(analytics.performanceMetrics.commonWrongAnswers).toEqual([
+                { answer: { blanks: ['is', 'of'], hint: false }, count: 2, percentage: 67 },
+                { answer: { blanks: ['are', 'of'] }, count: 1, percentage: 33 },
+            ]);
+        });
+
+        it('should compare the first attempts of the strongest and weakest learners', async () => {
+            // The five strongest learners answer correctly, the five weakest do not
+            mockExerciseAttemptRepository.getStats.mockResolvedValue(stats({ total_attempts: 10, unique_learners: 10 }));
+            mockExerciseAttemptRepository.findFirstAttempts.mockResolvedValue(
+                learners.map((learner, i) => firstAttempt(learner, i < 5))
+            );
+
+            const analytics = await exerciseUsageService.getExerciseAnalytics('trans-001');
+
+            expect(mockExerciseAttemptRepository.findRestScores).toHaveBeenCalledWith('trans-001', ['lesson-001'], learners);
+            expect(analytics.performanceMetrics.discriminationIndex).toBe(1);
+            expect(analytics.performanceMetrics.flags).toEqual([]);
+        });
+
+        it('should flag exercises that weak learners answer better than strong learners', async () => {
+            mockExerciseAttemptRepository.getStats.mockResolvedValue(stats({ total_attempts: 10, unique_learners: 10 }));
+            mockExerciseAttemptRepository.findFirstAttempts.mockResolvedValue(
+                learners.map((learner, i) => firstAttempt(learner, i >= 7))
+            );
+
+            const analytics = await exerciseUsageService.getExerciseAnalytics('trans-001');
+
+            expect(analytics.performanceMetrics.discriminationIndex).toBe(-1);
+            expect(analytics.performanceMetrics.flags).toEqual(['negative_discrimination']);
+        });
+
+        it('should flag exercises that nearly every learner answers correctly', async () => {
+            mockExerciseAttemptRepository.getStats.mockResolvedValue(stats({ total_attempts: 10, unique_learners: 10 }));
+            mockExerciseAttemptRepository.findFirstAttempts.mockResolvedValue(
+                learners.map(learner => firstAttempt(learner, true))
+            );
+
+            const analytics = await exerciseUsageService.getExerciseAnalytics('trans-001');
+
+            expect(analytics.performanceMetrics.discriminationIndex).toBe(0);
+            expect(analytics.performanceMetrics.flags).toEqual(['too_easy', 'low_discrimination']);
+        });
+
+        it('should fill the weekly and monthly trends from the counted attempts', async () => {
+            const currentMonth = new Date().toISOString().substring(0, 7);
+            mockExerciseAttemptRepository.countByWeek.mockResolvedValue(new Map([[0, 1], [1, 1]]));
+            mockExerciseAttemptRepository.countByMonth.mockResolvedValue(new Map([[currentMonth, 2]]));
+
+            const analytics = await exerciseUsageService.getExerciseAnalytics('trans-001');
+
+            expect(mockExerciseAttemptRepository.countByWeek).toHaveBeenCalledWith('trans-001', expect.any(Date), 12);
+            expect(analytics.trends.weeklyUsage).toHaveLength(12);
+            expect(analytics.trends.weeklyUsage.slice(-3).map(week => week.count)).toEqual([0, 1, 1]);
+            expect(analytics.trends.monthlyUsage).toHaveLength(6);
+            expect(analytics.trends.monthlyUsage[5]).toEqual({ month: currentMonth, count: 2 });
+        });
+
+        it('should throw 404 when the exercise does not exist', async () => {
+            mockExerciseRepository.findById.mockResolvedValue(null);
+
+            await expect(exerciseUsageService.getExerciseAnalytics('missing')).rejects.toMatchObject({ statusCode: 404 });
+        });
+    });
+});
@@ -0,0 +1,180 @@
+// src/modules/content/services/__tests__/TrashService.test.ts
+
+import { TrashService } from '../TrashService';
+import { ContentChangeService } from '../ContentChangeService';
+import { ExerciseRepository, LessonRepository, LevelRepository, TrashRepository } from '../../repositories';
+import { cacheService } from '../../../../shared/utils';
+import { AppError } from '../../../../shared/middleware';
+
+jest.mock('../../repositories');
+jest.mock('../ContentChangeService');
+jest.mock('../../../../shared/utils', () => ({
+    cacheService: {
+        delete: jest.fn(),
+    },
+    CACHE_KEYS: {
+        PACKAGED_COURSE: (id: string) => `packaged_course:${id}`,
+    },
+    logger: {
+        info: jest.fn(),
+    },
+}));
+
+/**
+ * Test suite for TrashService, covering the trash listing, restoring content with the children
+ * deleted together with it, and purging content past the retention window.
+ */
+describe('TrashService', () => {
+    let trashService: TrashService;
+    let mockTrashRepository: jest.Mocked<TrashRepository>;
+    let mockLevelRepository: jest.Mocked<LevelRepository>;
+    let mockLessonRepository: jest.Mocked<LessonRepository>;
+    let mockExerciseRepository: jest.Mocked<ExerciseRepository>;
+    let mockContentChangeService: jest.Mocked<ContentChangeService>;
+
+    const deletedAt = new Date('2024-01-10T00:00:00Z');
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        mockTrashRepository = {
+            findTrash: jest.fn(),
+            findTrashed: jest.fn(),
+            restore: jest.fn(),
+            purgeDeletedBefore: jest.fn(),
+        } as any;
+        mockLevelRepository = { findById: jest.fn() } as any;
+        mockLessonRepository = { findById: jest.fn() } as any;
+        mockExerciseRepository = { findById: jest.fn() } as any;
+        mockContentChangeService = {
+            recordChanges: jest.fn(),
+            recordExerciseChange: jest.fn(),
+        } as any;
+
+        (TrashRepository as jest.MockedClass<typeof TrashRepository>).mockImplementation(() => mockTrashRepository);
+        (LevelRepository as jest.MockedClass<typeof LevelRepository>).mockImplementation(() => mockLevelRepository);
+        (LessonRepository as jest.MockedClass<typeof LessonRepository>).mockImplementation(() => mockLessonRepository);
+        (ExerciseRepository as jest.MockedClass<typeof ExerciseRepository>).mockImplementation(() => mockExerciseRepository);
+        (ContentChangeService as jest.MockedClass<typeof ContentChangeService>).mockImplementation(() => mockContentChangeService);
+
+        trashService = new TrashService({} as any, 30);
+    });
+
+    describe('getTrash', () => {
+        it('should add the purge date to each entry', async () => {
+            mockTrashRepository.findTrash.mockResolvedValue({
+                entries: [{
+                    entity_type: 'lesson',
+                    id: 'lesson-1',
+                    name: null,
+                    parent_id: 'module-1',
+                    course_id: 'course-1',
+                    deleted_at: deletedAt,
+                }],
+                total: 1,
+            });
+
+            const result = await trashService.getTrash({ type: 'lesson', course_id: 'course-1', page: 1, limit: 20 });
+
+            expect(mockTrashRepository.findTrash).toHaveBeenCalledWith({ type: 'lesson', course_id: 'course-1' }, 1, 20);
+            expect(result.data[0]!.purge_at).toEqual(new Date('2024-02-09T00:00:00Z'));
+            expect(result.pagination.total).toBe(1);
+        });
+    });
+
+    describe('restore', () => {
+        it('should restore a level with its content and record the changes', async () => {
+            const level = { id: 'level-1', course_id: 'course-1' } as any;
+            const restored = [
+                { entity_type: 'level' as const, entity_id: 'level-1' },
+                { entity_type: 'section' as const, entity_id: 'section-1' },
+            ];
+            mockTrashRepository.findTrashed.mockResolvedValue({
+                deleted_at: deletedAt,
+                parent_id: 'course-1',
+                parent_deleted: false,
+                course_id: 'course-1',
+            });
+            mockTrashRepository.restore.mockResolvedValue(restored);
+            mockLevelRepository.findById.mockResolvedValue(level);
+
+            const result = await trashService.restore('level', 'level-1', 'course-1');
+
+            expect(result).toBe(level);
+            expect(mockTrashRepository.restore).toHaveBeenCalledWith('level', 'level-1', deletedAt);
+            expect(mockContentChangeService.recordChanges).toHaveBeenCalledWith('course-1', [
+                { entity_type: 'level', entity_id: 'level-1', operation: 'upsert' },
+                { entity_type: 'section', entity_id: 'section-1', operation: 'upsert' },
+            ]);
+            expect(cacheService.delete).toHaveBeenCalledWith('packaged_course:course-1');
+        });
+
+        it('should restore an exercise into the lessons using it', async () => {
+            const exercise = { id: 'exercise-1' } as any;
+            mockTrashRepository.findTrashed.mockResolvedValue({
+                deleted_at: deletedAt,
+                parent_id: null,
+                parent_deleted: false,
+                course_id: null,
+            });
+            mockTrashRepository.restore.mockResolvedValue([{ entity_type: 'exercise', entity_id: 'exercise-1' }]);
+            mockExerciseRepository.findById.mockResolvedValue(exercise);
+
+            const result = await trashService.restore('exercise', 'exercise-1');
+
+            expect(result).toBe(exercise);
+            expect(mockContentChangeService.recordExerciseChange).toHaveBeenCalledWith('exercise-1', 'upsert', true);
+            expect(mockContentChangeService.recordChanges).not.toHaveBeenCalled();
+        });
+
+        it('should throw 404 when the entity is not in the trash', async () => {
+            mockTrashRepository.findTrashed.mockResolvedValue(null);
+
+            await expect(trashService.restore('lesson', 'lesson-1', 'module-1')).rejects.toMatchObject({
+                statusCode: 404,
+                message: "Lesson with ID 'lesson-1' is not in the trash",
+            });
+            expect(mockTrashRepository.restore).not.toHaveBeenCalled();
+        });
+
+        it('should throw 404 when the entity belongs to another parent', async () => {
+            mockTrashRepository.findTrashed.mockResolvedValue({
+                deleted_at: deletedAt,
+                parent_id: 'module-2',
+                parent_deleted: false,
+                course_id: 'course-1',
+            });
+
+            await expect(trashService.restore('lesson', 'lesson-1', 'module-1')).rejects.toThrow(AppError);
+            expect(mockTrashRepository.restore).not.toHaveBeenCalled();
+        });
+
+        it('should throw 409 when the parent is in the trash', async () => {
+            mockTrashRepository.findTrashed.mockResolvedValue({
+                deleted_at: deletedAt,
+                parent_id: 'module-1',
+                parent_deleted: true,
+                course_id: 'course-1',
+            });
+
+            await expect(trashService.restore('lesson', 'lesson-1', 'module-1')).rejects.toMatchObject({
+                statusCode: 409,
+                message: "Lesson with ID 'lesson-1' belongs to a module in the trash. Restore the module 'module-1' first",
+            });
+            expect(mockTrashRepository.restore).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('purgeExpired', () => {
+        it('should purge content trashed before the retention window', async () => {
+            jest.useFakeTimers().setSystemTime(new Date('2024-03-01T00:00:00Z'));
+            mockTrashRepository.purgeDeletedBefore.mockResolvedValue(3);
+
+            const purged = await trashService.purgeExpired();
+
+            expect(purged).toBe(3);
+            expect(mockTrashRepository.purgeDeletedBefore).toHaveBeenCalledWith(new Date('2024-01-31T00:00:00Z'));
+            jest.useRealTimers();
+        });
+    });
+});
@@ -0,0 +1,259 @@
+// src/modules/content/services/__tests__/UnlockRuleService.test.ts
+
+import { UnlockRuleService, EXAM_PASSING_SCORE } from '../UnlockRuleService';
+import { CourseRepository, UnlockRuleRepository } from '../../repositories';
+import { CourseOutline, PackagedCourse, UnlockRule } from '../../types';
+
+jest.mock('../../repositories');
+
+/**
+ * Test suite for UnlockRuleService, covering rule management and the evaluation of unlock rules
+ * across the course hierarchy.
+ */
+describe('UnlockRuleService', () => {
+    let unlockRuleService: UnlockRuleService;
+    let mockUnlockRuleRepository: jest.Mocked<UnlockRuleRepository>;
+    let mockCourseRepository: jest.Mocked<CourseRepository>;
+
+    // Level A1 has a basic module and an exam module, level A2 has one basic module
+    const outline: CourseOutline = {
+        course_id: 'course-1',
+        levels: [
+            {
+                id: 'a1',
+                sections: [{
+                    id: 'a1-s1',
+                    modules: [
+                        { id: 'a1-m1', module_type: 'basic_lesson', lessons: [{ id: 'l1' }, { id: 'l2' }] },
+                        { id: 'a1-exam', module_type: 'exam', lessons: [{ id: 'exam-1' }] }
+                    ]
+                }]
+            },
+            {
+                id: 'a2',
+                sections: [{
+                    id: 'a2-s1',
+                    modules: [
+                        { id: 'a2-m1', module_type: 'basic_lesson', lessons: [{ id: 'l3' }] }
+                    ]
+                }]
+            }
+        ]
+    };
+
+    const buildRule = (overrides: Partial<UnlockRule>): UnlockRule => ({
+        id: 'rule-1',
+        course_id: 'course-1',
+        target_type: 'lesson',
+        target_id: 'l2',
+        rule_type: 'previous_lesson_completed',
+        reference_id: null,
+        min_score: null,
+        min_experience: null,
+        created_at: new Date('2024-01-01T00:00:00Z'),
+        updated_at: new Date('2024-01-01T00:00:00Z'),
+        ...overrides
+    });
+
+    const lockedItems = async (): Promise<string[]> => {
+        const status = await unlockRuleService.getCourseUnlockStatus('user-1', 'course-1');
+        return status.items.filter(item => item.locked).map(item => `${item.target_type}:${item.target_id}`);
+    };
+
+    beforeEach(() => {
+        mockUnlockRuleRepository = {
+            create: jest.fn(),
+            findById: jest.fn(),
+            findByCourseId: jest.fn(),
+            delete: jest.fn(),
+            findTargetCourseId: jest.fn(),
+            findCourseOutline: jest.fn(),
+            findLessonScores: jest.fn(),
+            findUserExperience: jest.fn(),
+        } as any;
+
+        mockCourseRepository = {
+            exists: jest.fn(),
+        } as any;
+
+        (UnlockRuleRepository as jest.MockedClass<typeof UnlockRuleRepository>).mockImplementation(() => mockUnlockRuleRepository);
+        (CourseRepository as jest.MockedClass<typeof CourseRepository>).mockImplementation(() => mockCourseRepository);
+
+        unlockRuleService = new UnlockRuleService({} as any);
+
+        mockUnlockRuleRepository.findCourseOutline.mockResolvedValue(outline);
+        mockUnlockRuleRepository.findLessonScores.mockResolvedValue(new Map());
+        mockUnlockRuleRepository.findUserExperience.mockResolvedValue(0);
+    });
+
+    describe('getCourseUnlockStatus', () => {
+        it('should leave courses without rules unlocked without loading learner data', async () => {
+            mockUnlockRuleRepository.findByCourseId.mockResolvedValue([]);
+
+            expect(await lockedItems()).toEqual([]);
+            expect(mockUnlockRuleRepository.findLessonScores).not.toHaveBeenCalled();
+        });
+
+        it('should require the previous lesson in course order', async () => {
+            mockUnlockRuleRepository.findByCourseId.mockResolvedValue([
+                buildRule({ target_type: 'module', target_id: 'a1-exam' })
+            ]);
+
+            expect(await lockedItems()).toEqual(['module:a1-exam', 'lesson:exam-1']);
+
+            mockUnlockRuleRepository.findLessonScores.mockResolvedValue(new Map([['l2', null]]));
+            expect(await lockedItems()).toEqual([]);
+        });
+
+        it('should lock children of locked content and report the inherited rules', async () => {
+            const rule = buildRule({ target_type: 'level', target_id: 'a2', rule_type: 'xp_threshold', min_experience: 500 });
+            mockUnlockRuleRepository.findByCourseId.mockResolvedValue([rule]);
+            mockUnlockRuleRepository.findUserExperience.mockResolvedValue(499);
+
+            const status = await unlockRuleService.getCourseUnlockStatus('user-1', 'course-1');
+            const lesson = status.items.find(item => item.target_id === 'l3');
+
+            expect(status.items.filter(item => item.locked).map(item => item.target_id)).toEqual(['a2', 'a2-s1', 'a2-m1', 'l3']);
+            expect(lesson?.unmet_rules).toEqual([rule]);
+
+            mockUnlockRuleRepository.findUserExperience.mockResolvedValue(500);
+            expect(await lockedItems()).toEqual([]);
+        });
+
+        it('should compare the referenced lesson score with the minimum score', async () => {
+            mockUnlockRuleRepository.findByCourseId.mockResolvedValue([
+                buildRule({ target_id: 'l3', rule_type: 'minimum_score', reference_id: 'l1', min_score: 80 })
+            ]);
+            mockUnlockRuleRepository.findLessonScores.mockResolvedValue(new Map([['l1', 79]]));
+
+            expect(await lockedItems()).toEqual(['lesson:l3']);
+
+            mockUnlockRuleRepository.findLessonScores.mockResolvedValue(new Map([['l1', 80]]));
+            expect(await lockedItems()).toEqual([]);
+        });
+
+        it('should require the exam of the previous level to be passed', async () => {
+            mockUnlockRuleRepository.findByCourseId.mockResolvedValue([
+                buildRule({ target_type: 'level', target_id: 'a2', rule_type: 'level_exam_passed' })
+            ]);
+            mockUnlockRuleRepository.findLessonScores.mockResolvedValue(new Map([['exam-1', EXAM_PASSING_SCORE - 1]]));
+
+            expect(await lockedItems()).toContain('level:a2');
+
+            mockUnlockRuleRepository.findLessonScores.mockResolvedValue(new Map([['exam-1', EXAM_PASSING_SCORE]]));
+            expect(await lockedItems()).toEqual([]);
+        });
+
+        it('should treat rules referencing missing content as met', async () => {
+            mockUnlockRuleRepository.findByCourseId.mockResolvedValue([
+                buildRule({ target_id: 'l3', reference_id: 'deleted-lesson' }),
+                buildRule({ target_type: 'level', target_id: 'a1', rule_type: 'level_exam_passed' })
+            ]);
+
+            expect(await lockedItems()).toEqual([]);
+        });
+    });
+
+    describe('assertLessonUnlocked', () => {
+        it('should skip evaluation for courses without rules', async () => {
+            mockUnlockRuleRepository.findTargetCourseId.mockResolvedValue('course-1');
+            mockUnlockRuleRepository.findByCourseId.mockResolvedValue([]);
+
+            await expect(unlockRuleService.assertLessonUnlocked('user-1', 'l2')).resolves.toBeUndefined();
+            expect(mockUnlockRuleRepository.findCourseOutline).not.toHaveBeenCalled();
+        });
+
+        it('should reject locked lessons with a 403 error', async () => {
+            mockUnlockRuleRepository.findTargetCourseId.mockResolvedValue('course-1');
+            mockUnlockRuleRepository.findByCourseId.mockResolvedValue([buildRule({})]);
+
+            await expect(unlockRuleService.assertLessonUnlocked('user-1', 'l2')).rejects.toMatchObject({
+                statusCode: 403,
+                code: 'AUTHORIZATION_ERROR',
+                message: 'Lesson is locked. Unmet unlock rules: previous_lesson_completed'
+            });
+            await expect(unlockRuleService.assertLessonUnlocked('user-1', 'l1')).resolves.toBeUndefined();
+        });
+
+        it('should count experience not yet saved to the learner progress', async () => {
+            mockUnlockRuleRepository.findTargetCourseId.mockResolvedValue('course-1');
+            mockUnlockRuleRepository.findByCourseId.mockResolvedValue([
+                buildRule({ target_id: 'l2', rule_type: 'xp_threshold', min_experience: 100 })
+            ]);
+            mockUnlockRuleRepository.findUserExperience.mockResolvedValue(90);
+
+            await expect(unlockRuleService.assertLessonUnlocked('user-1', 'l2')).rejects.toMatchObject({ statusCode: 403 });
+            await expect(unlockRuleService.assertLessonUnlocked('user-1', 'l2', 10)).resolves.toBeUndefined();
+        });
+    });
+
+    describe('applyUnlockState', () => {
+        it('should flag locked content without modifying the cached package', async () => {
+            const packagedCourse = {
+                course: { id: 'course-1' },
+                levels: [{
+                    id: 'a1',
+                    sections: [{
+                        id: 'a1-s1',
+                        modules: [{
+                            id: 'a1-m1',
+                            module_type: 'basic_lesson',
+                            lessons: [{ id: 'l1', exercises: [] }, { id: 'l2', exercises: [] }]
+                        }]
+                    }]
+                }],
+                package_version: '2024-01-01T00:00:00.000Z'
+            } as unknown as PackagedCourse;
+            mockUnlockRuleRepository.findByCourseId.mockResolvedValue([buildRule({})]);
+
+            const result = await unlockRuleService.applyUnlockState('user-1', packagedCourse);
+            const module = result.levels[0]!.sections[0]!.modules[0]!;
+
+            expect(result.levels[0]!.locked).toBe(false);
+            expect(module.locked).toBe(false);
+            expect(module.lessons.map(lesson => lesson.locked)).toEqual([false, true]);
+            expect(packagedCourse.levels[0]).not.toHaveProperty('locked');
+        });
+    });
+
+    describe('createRule', () => {
+        it('should reject targets outside the course', async () => {
+            mockUnlockRuleRepository.findTargetCourseId.mockResolvedValue('other-course');
+
+            await expect(unlockRuleService.createRule('course-1', {
+                target_type: 'lesson', target_id: 'l9', rule_type: 'previous_lesson_completed'
+            })).rejects.toMatchObject({ statusCode: 404 });
+            expect(mockUnlockRuleRepository.create).not.toHaveBeenCalled();
+        });
+
+        it('should validate exam references as levels of the course', async () => {
+            mockUnlockRuleRepository.findTargetCourseId
+                .mockResolvedValueOnce('course-1')
+                .mockResolvedValueOnce(null);
+
+            await expect(unlockRuleService.createRule('course-1', {
+                target_type: 'level', target_id: 'a2', rule_type: 'level_exam_passed', reference_id: 'l1'
+            })).rejects.toMatchObject({ statusCode: 400 });
+            expect(mockUnlockRuleRepository.findTargetCourseId).toHaveBeenLastCalledWith('level', 'l1');
+        });
+
+        it('should create valid rules', async () => {
+            const rule = buildRule({ rule_type: 'minimum_score', reference_id: 'l1', min_score: 80 });
+            mockUnlockRuleRepository.findTargetCourseId.mockResolvedValue('course-1');
+            mockUnlockRuleRepository.create.mockResolvedValue(rule);
+
+            const data = { target_type: 'lesson' as const, target_id: 'l2', rule_type: 'minimum_score' as const, reference_id: 'l1', min_score: 80 };
+            await expect(unlockRuleService.createRule('course-1', data)).resolves.toEqual(rule);
+            expect(mockUnlockRuleRepository.create).toHaveBeenCalledWith('course-1', data);
+        });
+    });
+
+    describe('deleteRule', () => {
+        it('should not delete rules of another course', async () => {
+            mockUnlockRuleRepository.findById.mockResolvedValue(buildRule({ course_id: 'other-course' }));
+
+            await expect(unlockRuleService.deleteRule('course-1', 'rule-1')).rejects.toMatchObject({ statusCode: 404 });
+            expect(mockUnlockRuleRepository.delete).not.toHaveBeenCalled();
+        });
+    });
+});
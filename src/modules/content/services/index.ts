@@ -1,3 +1,13 @@
 export { ContentService } from './ContentService';
 export { LessonService } from './LessonService';
-export { ExerciseService } from './ExerciseService';
\ No newline at end of file
+export { ExerciseService } from './ExerciseService';
+export { ExerciseGradingService } from './ExerciseGradingService';
+export { UnlockRuleService } from './UnlockRuleService';
+export { ContentChangeService } from './ContentChangeService';
+export { CourseVersionService } from './CourseVersionService';
+export { CourseCollaboratorService } from './CourseCollaboratorService';
+export { TrashService } from './TrashService';
+export { CourseArchiveService } from './CourseArchiveService';
+export { ExerciseImportService } from './ExerciseImportService';
+export { CourseAnalyticsService } from './CourseAnalyticsService';
+export { EnrollmentService } from './EnrollmentService';
@@ -1,5 +1,7 @@
 // Content module types and interfaces
 
+import { MediaManifestEntry } from "../../media/types";
+
 export interface Course {
   id: string;
   source_language: string;
@@ -65,7 +67,9 @@ export interface Exercise {
     | "vof"
     | "pairs"
     | "informative"
-    | "ordering";
+    | "ordering"
+    | "listening"
+    | "speaking";
   data: any;
   created_at: Date;
   updated_at: Date;
@@ -129,7 +133,9 @@ export interface CreateExerciseDto {
     | "vof"
     | "pairs"
     | "informative"
-    | "ordering";
+    | "ordering"
+    | "listening"
+    | "speaking";
   data: any;
 }
 
@@ -138,27 +144,417 @@ export interface AssignExerciseToLessonDto {
   order: number;
 }
 
+// Incremental package sync
+export type ContentEntityType = "course" | "level" | "section" | "module" | "lesson" | "exercise";
+
+export type ContentChangeOperation = "upsert" | "delete";
+
+export interface ContentChangeInput {
+  entity_type: ContentEntityType;
+  entity_id: string;
+  operation: ContentChangeOperation;
+}
+
+export interface ContentChange extends ContentChangeInput {
+  revision: number;
+}
+
+export interface ContentTombstone {
+  entity_type: ContentEntityType;
+  entity_id: string;
+  revision: number;
+}
+
+// Content created or updated since a revision, without nested children
+export interface PackageChanges {
+  course_id: string;
+  since: number;
+  revision: number;
+  course: Course | null;
+  levels: Level[];
+  sections: Section[];
+  modules: Module[];
+  lessons: PackagedLesson[];
+  exercises: Exercise[];
+  deleted: ContentTombstone[];
+  /** Uploaded media referenced by the changed exercises */
+  media: MediaManifestEntry[];
+}
+
+// Unlock rules for gating content behind learner progress
+export type UnlockTargetType = "level" | "section" | "module" | "lesson";
+
+export type UnlockRuleType =
+  | "previous_lesson_completed"
+  | "minimum_score"
+  | "level_exam_passed"
+  | "xp_threshold";
+
+export interface UnlockRule {
+  id: string;
+  course_id: string;
+  target_type: UnlockTargetType;
+  target_id: string;
+  rule_type: UnlockRuleType;
+  reference_id: string | null;
+  min_score: number | null;
+  min_experience: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateUnlockRuleDto {
+  target_type: UnlockTargetType;
+  target_id: string;
+  rule_type: UnlockRuleType;
+  reference_id?: string | undefined;
+  min_score?: number | undefined;
+  min_experience?: number | undefined;
+}
+
+export interface UnlockStatus {
+  target_type: UnlockTargetType;
+  target_id: string;
+  locked: boolean;
+  unmet_rules: UnlockRule[];
+}
+
+export interface CourseUnlockStatus {
+  course_id: string;
+  items: UnlockStatus[];
+}
+
+// Ordered course structure used to evaluate unlock rules
+export interface CourseOutline {
+  course_id: string;
+  levels: {
+    id: string;
+    sections: {
+      id: string;
+      modules: {
+        id: string;
+        module_type: Module["module_type"];
+        lessons: { id: string }[];
+      }[];
+    }[];
+  }[];
+}
+
 // Packaged content for offline support
-export interface PackagedCourse {
-  course: Course;
-  levels: PackagedLevel[];
+export interface PackagedCourse extends CourseSnapshot {
   package_version: string;
+  revision: number;
+  version: number;
+  /** Uploaded media referenced by the exercises of the package */
+  media: MediaManifestEntry[];
 }
 
+// The locked flags are only present when the package is requested by an authenticated learner
 export interface PackagedLevel extends Level {
   sections: PackagedSection[];
+  locked?: boolean;
 }
 
 export interface PackagedSection extends Section {
   modules: PackagedModule[];
+  locked?: boolean;
 }
 
 export interface PackagedModule extends Module {
   lessons: PackagedLesson[];
+  locked?: boolean;
 }
 
 export interface PackagedLesson extends Lesson {
   exercises: LessonExercise[];
+  locked?: boolean;
+}
+
+// Published course versions
+export interface CourseSnapshot {
+  course: Course;
+  levels: PackagedLevel[];
+}
+
+export interface CourseVersion {
+  id: string;
+  course_id: string;
+  version: number;
+  revision: number;
+  notes: string | null;
+  published_by: string | null;
+  published_at: Date;
+}
+
+export interface CourseVersionDetail extends CourseVersion {
+  snapshot: CourseSnapshot;
+}
+
+export type VersionChangeType = "added" | "removed" | "modified";
+
+export interface VersionDiffEntry {
+  entity_type: ContentEntityType;
+  entity_id: string;
+  change: VersionChangeType;
+  fields: string[];
+}
+
+export interface CourseVersionDiff {
+  course_id: string;
+  from: number;
+  to: number | "draft";
+  changes: VersionDiffEntry[];
+}
+
+// Course collaborators
+export type CourseRole = "owner" | "editor" | "reviewer" | "viewer";
+
+export interface CourseCollaborator {
+  course_id: string;
+  user_id: string;
+  email: string;
+  username: string | null;
+  role: CourseRole;
+  invited_by: string | null;
+  accepted_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CourseInvitation {
+  course_id: string;
+  course_name: string;
+  role: CourseRole;
+  invited_by: string | null;
+  invited_at: Date;
+}
+
+// Courses joined by learners
+export type EnrollmentStatus = "active" | "completed";
+
+export interface Enrollment {
+  user_id: string;
+  course_id: string;
+  status: EnrollmentStatus;
+  // First lesson of the course, in course order, that the learner has not completed
+  current_lesson_id: string | null;
+  enrolled_at: Date;
+  completed_at: Date | null;
+  updated_at: Date;
+}
+
+export interface EnrolledCourse extends Enrollment {
+  course: {
+    id: string;
+    name: string;
+    source_language: string;
+    target_language: string;
+    is_public: boolean;
+  };
+  lessons_completed: number;
+  total_lessons: number;
+  progress_percentage: number;
+}
+
+export interface CourseInviteCode {
+  course_id: string;
+  // Null when the course cannot be joined with a code
+  invite_code: string | null;
+}
+
+// Trash of soft-deleted content
+export interface TrashEntry {
+  entity_type: ContentEntityType;
+  id: string;
+  name: string | null;
+  parent_id: string | null;
+  course_id: string | null;
+  deleted_at: Date;
+}
+
+// Trash entries are purged for good once the retention window has passed
+export interface TrashItem extends TrashEntry {
+  purge_at: Date;
+}
+
+export interface TrashFilters {
+  type?: ContentEntityType;
+  course_id?: string;
+}
+
+// Where a trashed entity sits, used to check that it can be restored
+export interface TrashedContent {
+  deleted_at: Date;
+  parent_id: string | null;
+  parent_deleted: boolean;
+  course_id: string | null;
+}
+
+// Course import/export archives
+export type ArchiveIdStrategy = "preserve" | "remap";
+
+// Content of an archive whose ID is already taken in this environment, including the trash
+export interface ArchiveConflict {
+  entity_type: ContentEntityType;
+  id: string;
+}
+
+export interface CourseImportResult {
+  course_id: string;
+  id_strategy: ArchiveIdStrategy;
+  dry_run: boolean;
+  conflicts: ArchiveConflict[];
+  // Original ID to imported ID, only for the remapped IDs
+  id_map: Partial<Record<ContentEntityType, Record<string, string>>>;
+  counts: {
+    levels: number;
+    sections: number;
+    modules: number;
+    lessons: number;
+    exercises: number;
+    unlock_rules: number;
+  };
+}
+
+export interface ImportedExerciseRow {
+  // Row number in the spreadsheet, counting the header
+  row: number;
+  id: string;
+  exercise_type: Exercise["exercise_type"];
+  data: any;
+  // Position in the lesson, when the import assigns exercises to one
+  order?: number;
+}
+
+export interface ExerciseImportRowError {
+  row: number;
+  field: string;
+  message: string;
+}
+
+export interface ExerciseImportResult {
+  dry_run: boolean;
+  exercise_type: Exercise["exercise_type"];
+  lesson_id: string | null;
+  total_rows: number;
+  exercises: ImportedExerciseRow[];
+  errors: ExerciseImportRowError[];
+}
+
+// Aggregates of the answers given to one exercise while playing lessons, used for per-exercise analytics
+export interface ExerciseAttemptStats {
+  total_attempts: number;
+  correct_attempts: number;
+  unique_learners: number;
+  // Learners who answered correctly at least once
+  learners_correct: number;
+  // Average normalized grading score between 0 and 1, null without attempts
+  average_score: number | null;
+  // Average over the attempts with a recorded duration, null when none has one
+  average_duration_seconds: number | null;
+  // Lessons the exercise was answered in
+  lesson_ids: string[];
+}
+
+// First answer of a learner to an exercise, across all lessons
+export interface FirstExerciseAttempt {
+  user_id: string;
+  correct: boolean;
+}
+
+// A distinct wrong answer to an exercise and how many times it was given
+export interface ExerciseAnswerCount {
+  answer: Record<string, any>;
+  count: number;
+}
+
+export interface CreateExerciseAttemptDto {
+  user_id: string;
+  exercise_id: string;
+  lesson_id: string;
+  answer: Record<string, any>;
+  correct: boolean;
+  score: number;
+  duration_seconds?: number | undefined;
+}
+
+// Course analytics for creators. Learners count as enrolled once they have played a lesson of
+// the course, by completing it or answering one of its exercises.
+export interface CourseEnrollment {
+  // Learners enrolled by the end of the range
+  total_learners: number;
+  // Learners who enrolled within the range
+  new_learners: number;
+  // Learners with activity in the course within the range
+  active_learners: number;
+}
+
+export interface DailyActiveLearners {
+  date: string;
+  learners: number;
+}
+
+export interface CourseFunnelStep {
+  entity_type: "level" | "section" | "module" | "lesson";
+  id: string;
+  name: string;
+  parent_id: string | null;
+  // Active learners who played at least one lesson of the step
+  learners_started: number;
+  // Active learners who completed every lesson of the step
+  learners_completed: number;
+  // Percentage of the learners who started the step without completing it
+  drop_off_rate: number;
+  // Median and average over the lesson completions of the step within the range
+  median_time_seconds: number | null;
+  average_score: number | null;
+}
+
+export interface ScoreBucket {
+  min: number;
+  max: number;
+  count: number;
+}
+
+export interface CourseAnalytics {
+  course_id: string;
+  from: string;
+  to: string;
+  enrollment: CourseEnrollment;
+  active_learners: DailyActiveLearners[];
+  // Levels, sections, modules and lessons in course order, each followed by its children
+  funnel: CourseFunnelStep[];
+  score_distribution: ScoreBucket[];
+}
+
+// Named course structure read by the course analytics
+export interface CourseAnalyticsOutline {
+  course_id: string;
+  levels: {
+    id: string;
+    name: string;
+    sections: {
+      id: string;
+      name: string;
+      modules: {
+        id: string;
+        name: string;
+        lessons: { id: string; name: string }[];
+      }[];
+    }[];
+  }[];
+}
+
+// Lesson played by a learner, read by the course analytics
+export interface LessonActivity {
+  user_id: string;
+  lesson_id: string;
+  date: Date;
+}
+
+export interface CourseLessonCompletion extends LessonActivity {
+  score: number | null;
+  time_spent_seconds: number | null;
 }
 
 // Re-export schema types
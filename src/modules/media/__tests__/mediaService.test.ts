@@ -0,0 +1,271 @@
+/**
+ * Media Service Tests
+ * Unit tests for media uploads, downloads, deletion, exercise references and package manifests
+ */
+
+import { ZodError } from 'zod';
+import { MediaService, collectMediaReferences } from '../services/mediaService';
+import { MediaRepository } from '../repositories/mediaRepository';
+import { StoredMediaAsset } from '../types';
+import { MediaStorage } from '@/shared/utils/mediaStorage';
+import { mediaFixtures } from '@/shared/test/fixtures/mediaFixtures';
+
+jest.mock('@/shared/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const IMAGE_ID = '3f0c9a52-8e1b-4c55-9d2a-6b7e0f1d2c3b';
+const AUDIO_ID = '9b2d4e61-7a3c-4f58-8e1d-2c6b0a9f7e45';
+
+const mockMediaRepository = {
+  create: jest.fn(),
+  findById: jest.fn(),
+  findByIds: jest.fn(),
+  findMany: jest.fn(),
+  isReferenced: jest.fn(),
+  delete: jest.fn(),
+} as unknown as jest.Mocked<MediaRepository>;
+
+const buildAsset = (overrides: Partial<StoredMediaAsset> = {}): StoredMediaAsset => ({
+  id: IMAGE_ID,
+  kind: 'image',
+  content_type: 'image/png',
+  size_bytes: 2048,
+  checksum: 'a'.repeat(64),
+  filename: 'photo.png',
+  width: 640,
+  height: 480,
+  duration_seconds: null,
+  uploaded_by: 'user-1',
+  created_at: new Date('2024-01-01T00:00:00Z'),
+  storage_key: `image/${IMAGE_ID}.png`,
+  thumbnail_key: `image/${IMAGE_ID}-thumbnail.png`,
+  ...overrides,
+});
+
+const audioAsset = buildAsset({
+  id: AUDIO_ID,
+  kind: 'audio',
+  content_type: 'audio/mpeg',
+  width: null,
+  height: null,
+  duration_seconds: 2.612,
+  storage_key: `audio/${AUDIO_ID}.mp3`,
+  thumbnail_key: null,
+});
+
+describe('MediaService', () => {
+  let files: Map<string, Buffer>;
+  let storage: jest.Mocked<MediaStorage>;
+  let mediaService: MediaService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    files = new Map();
+    storage = {
+      name: 'memory',
+      put: jest.fn(async (key: string, data: Buffer, _contentType: string) => void files.set(key, data)),
+      get: jest.fn(async (key: string) => files.get(key) ?? null),
+      delete: jest.fn(async (key: string) => void files.delete(key)),
+    };
+    mockMediaRepository.create.mockImplementation(async (data) => ({ ...data, created_at: new Date() }));
+    mediaService = new MediaService(mockMediaRepository, storage);
+  });
+
+  describe('upload', () => {
+    it('should store images with their dimensions and a thumbnail', async () => {
+      const file = mediaFixtures.png(640, 480);
+
+      const asset = await mediaService.upload({ data: file, content_type: 'image/png', filename: 'photo.png', uploaded_by: 'user-1' });
+
+      expect(asset).toMatchObject({
+        kind: 'image',
+        content_type: 'image/png',
+        size_bytes: file.length,
+        filename: 'photo.png',
+        width: 640,
+        height: 480,
+        duration_seconds: null,
+        uploaded_by: 'user-1',
+        url: `/api/v1/media/${asset.id}/file`,
+        thumbnail_url: `/api/v1/media/${asset.id}/file?variant=thumbnail`,
+      });
+      expect(asset.checksum).toMatch(/^[0-9a-f]{64}$/);
+      expect(asset).not.toHaveProperty('storage_key');
+      expect(files.get(`image/${asset.id}.png`)).toBe(file);
+      expect(files.has(`image/${asset.id}-thumbnail.png`)).toBe(true);
+    });
+
+    it('should store audio with its duration', async () => {
+      const asset = await mediaService.upload({ data: mediaFixtures.mp3(100), content_type: 'audio/mp3' });
+
+      expect(asset).toMatchObject({ kind: 'audio', content_type: 'audio/mpeg', duration_seconds: 2.612, thumbnail_url: null });
+      expect(files.has(`audio/${asset.id}.mp3`)).toBe(true);
+    });
+
+    it('should reject unsupported types, empty files and contents not matching the type', async () => {
+      await expect(mediaService.upload({ data: Buffer.from('<svg/>'), content_type: 'image/svg+xml' }))
+        .rejects.toMatchObject({ statusCode: 400, message: expect.stringContaining("Unsupported content type 'image/svg+xml'") });
+      await expect(mediaService.upload({ data: Buffer.alloc(0), content_type: 'image/png' }))
+        .rejects.toMatchObject({ statusCode: 400, message: 'The uploaded file is empty' });
+      await expect(mediaService.upload({ data: mediaFixtures.wav(1), content_type: 'image/png' }))
+        .rejects.toMatchObject({ statusCode: 400, message: 'The file contents are not image/png' });
+      expect(storage.put).not.toHaveBeenCalled();
+    });
+
+    it('should reject files over the size limit of their kind', async () => {
+      process.env['MEDIA_MAX_AUDIO_SIZE'] = '1000';
+      try {
+        await expect(mediaService.upload({ data: mediaFixtures.wav(1), content_type: 'audio/wav' }))
+          .rejects.toMatchObject({ statusCode: 422 });
+      } finally {
+        delete process.env['MEDIA_MAX_AUDIO_SIZE'];
+      }
+    });
+
+    it('should remove the stored files when the metadata cannot be saved', async () => {
+      mockMediaRepository.create.mockRejectedValue(new Error('database down'));
+
+      await expect(mediaService.upload({ data: mediaFixtures.png(400, 400), content_type: 'image/png' }))
+        .rejects.toThrow('database down');
+      expect(storage.put).toHaveBeenCalledTimes(2);
+      expect(files.size).toBe(0);
+    });
+  });
+
+  describe('getFile', () => {
+    it('should serve the thumbnail of images, or the original when there is none', async () => {
+      files.set(`image/${IMAGE_ID}.png`, Buffer.from('original'));
+      files.set(`image/${IMAGE_ID}-thumbnail.png`, Buffer.from('thumbnail'));
+      mockMediaRepository.findById.mockResolvedValue(buildAsset());
+
+      expect(await mediaService.getFile(IMAGE_ID, 'thumbnail')).toEqual({
+        data: Buffer.from('thumbnail'),
+        content_type: 'image/png',
+        etag: `${'a'.repeat(64)}-thumbnail`,
+      });
+
+      mockMediaRepository.findById.mockResolvedValue(buildAsset({ thumbnail_key: null }));
+      expect((await mediaService.getFile(IMAGE_ID, 'thumbnail')).data).toEqual(Buffer.from('original'));
+    });
+
+    it('should have no thumbnail for audio', async () => {
+      mockMediaRepository.findById.mockResolvedValue(audioAsset);
+
+      await expect(mediaService.getFile(AUDIO_ID, 'thumbnail')).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('should throw 404 when the asset or its file is missing', async () => {
+      mockMediaRepository.findById.mockResolvedValue(null);
+      await expect(mediaService.getFile(IMAGE_ID, 'original')).rejects.toMatchObject({ statusCode: 404 });
+
+      mockMediaRepository.findById.mockResolvedValue(buildAsset());
+      await expect(mediaService.getFile(IMAGE_ID, 'original')).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('deleteAsset', () => {
+    beforeEach(() => {
+      mockMediaRepository.findById.mockResolvedValue(buildAsset());
+      mockMediaRepository.isReferenced.mockResolvedValue(false);
+    });
+
+    it('should delete the asset and its files', async () => {
+      await mediaService.deleteAsset(IMAGE_ID, { sub: 'user-1', role: 'content_creator' });
+
+      expect(mockMediaRepository.delete).toHaveBeenCalledWith(IMAGE_ID);
+      expect(storage.delete).toHaveBeenCalledWith(`image/${IMAGE_ID}.png`);
+      expect(storage.delete).toHaveBeenCalledWith(`image/${IMAGE_ID}-thumbnail.png`);
+    });
+
+    it('should only let the uploader and admins delete an asset', async () => {
+      await expect(mediaService.deleteAsset(IMAGE_ID, { sub: 'user-2', role: 'content_creator' }))
+        .rejects.toMatchObject({ statusCode: 403 });
+      await expect(mediaService.deleteAsset(IMAGE_ID, { sub: 'admin-1', role: 'admin' })).resolves.toBeUndefined();
+    });
+
+    it('should keep assets that are still referenced', async () => {
+      mockMediaRepository.isReferenced.mockResolvedValue(true);
+
+      await expect(mediaService.deleteAsset(IMAGE_ID, { sub: 'user-1', role: 'content_creator' }))
+        .rejects.toMatchObject({ statusCode: 409 });
+      expect(mockMediaRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('collectMediaReferences', () => {
+    it('should find media_id fields at any depth with their expected kind', () => {
+      expect(collectMediaReferences({
+        content: 'Listen',
+        media: { type: 'image', media_id: IMAGE_ID },
+        lines: [{ text: 'Hola', audio: { media_id: AUDIO_ID } }],
+      })).toEqual([
+        { media_id: IMAGE_ID, path: ['media'], expected_kind: 'image' },
+        { media_id: AUDIO_ID, path: ['lines', 0, 'audio'], expected_kind: 'audio' },
+      ]);
+    });
+
+    it('should expect audio in the clips of listening and speaking exercises', () => {
+      expect(collectMediaReferences({ audio: { media_id: AUDIO_ID }, extra: { media_id: IMAGE_ID } })).toEqual([
+        { media_id: AUDIO_ID, path: ['audio'], expected_kind: 'audio' },
+        { media_id: IMAGE_ID, path: ['extra'], expected_kind: undefined },
+      ]);
+      expect(collectMediaReferences({ prompt: 'Say hello', reference_audio: { media_id: AUDIO_ID } })[0]?.expected_kind).toBe('audio');
+    });
+  });
+
+  describe('assertMediaReferences', () => {
+    it('should not query the database without references', async () => {
+      await mediaService.assertMediaReferences({ content: 'Text', media: { type: 'image', url: 'https://example.com/a.png' } });
+
+      expect(mockMediaRepository.findByIds).not.toHaveBeenCalled();
+    });
+
+    it('should accept references to existing media of the expected kind', async () => {
+      mockMediaRepository.findByIds.mockResolvedValue([buildAsset()]);
+
+      await expect(mediaService.assertMediaReferences({ media: { type: 'image', media_id: IMAGE_ID } })).resolves.toBeUndefined();
+    });
+
+    it('should report unknown media and kind mismatches under data', async () => {
+      mockMediaRepository.findByIds.mockResolvedValue([buildAsset()]);
+
+      const error = await mediaService
+        .assertMediaReferences({ media: { type: 'audio', media_id: IMAGE_ID }, extra: [{ media_id: AUDIO_ID }] })
+        .catch((caught) => caught);
+
+      expect(error).toBeInstanceOf(ZodError);
+      expect((error as ZodError).issues).toEqual([
+        expect.objectContaining({ path: ['data', 'media', 'media_id'], message: `Media ${IMAGE_ID} is an image, not audio` }),
+        expect.objectContaining({ path: ['data', 'extra', 0, 'media_id'], message: `Media ${AUDIO_ID} does not exist` }),
+      ]);
+    });
+  });
+
+  describe('getManifest', () => {
+    it('should list referenced media with the exercises using them', async () => {
+      mockMediaRepository.findByIds.mockResolvedValue([audioAsset]);
+
+      const manifest = await mediaService.getManifest([
+        { id: 'exercise-2', data: { media: { type: 'audio', media_id: AUDIO_ID } } },
+        { id: 'exercise-1', data: { media: { type: 'audio', media_id: AUDIO_ID } } },
+        { id: 'exercise-3', data: { source_text: 'Hello' } },
+      ]);
+
+      expect(mockMediaRepository.findByIds).toHaveBeenCalledWith([AUDIO_ID]);
+      expect(manifest).toEqual([
+        expect.objectContaining({ id: AUDIO_ID, url: `/api/v1/media/${AUDIO_ID}/file`, exercise_ids: ['exercise-1', 'exercise-2'] }),
+      ]);
+      expect(manifest[0]).not.toHaveProperty('uploaded_by');
+    });
+
+    it('should be empty without references', async () => {
+      expect(await mediaService.getManifest([{ id: 'exercise-1', data: { source_text: 'Hello' } }])).toEqual([]);
+      expect(mockMediaRepository.findByIds).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,224 @@
+// src/modules/media/controllers/mediaController.ts
+
+/**
+ * HTTP API controller for the media library.
+ *
+ * This controller handles request/response concerns of media uploads and downloads. Uploads carry
+ * the file itself as the request body, with its content type in the Content-Type header and its
+ * original name in the `filename` query parameter. Files are served with long-lived caching, since
+ * the file of an asset never changes, and support byte ranges so audio players can seek.
+ * Validation, measuring and storage are left to the MediaService layer.
+ *
+ * @module MediaController
+ * @category Media
+ * @category Controllers
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const mediaService = new MediaService(mediaRepository);
+ * const mediaController = new MediaController(mediaService);
+ *
+ * router.post('/media', rawBody, mediaController.upload);
+ * router.get('/media/:id/file', mediaController.getFile);
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { MediaService } from '../services/mediaService';
+import { MediaFileQuery, MediaQuery, UploadMediaQuery } from '../types';
+import { ApiResponse, HttpStatus } from '@/shared/types';
+
+/**
+ * Parses a single `bytes=start-end` range, or returns null when the range is missing,
+ * unsatisfiable or made of several parts (the whole file is sent then)
+ */
+const parseRange = (header: string | undefined, size: number): { start: number; end: number } | null => {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  const start = match[1] ? parseInt(match[1], 10) : Math.max(0, size - parseInt(match[2]!, 10));
+  const end = match[1] && match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+  return start <= end ? { start, end } : null;
+};
+
+/**
+ * HTTP API controller for media library operations.
+ *
+ * @class MediaController
+ */
+export class MediaController {
+  /**
+   * Creates an instance of MediaController.
+   *
+   * @param {MediaService} mediaService - Service layer for the media library
+   */
+  constructor(private mediaService: MediaService) {}
+
+  /**
+   * Uploads an image or audio file.
+   *
+   * Handles POST /api/v1/media endpoint. Requires the content_creator or admin role.
+   *
+   * @param {Request} req - Express request object with the file as raw body and an optional filename query parameter
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function for error handling
+   * @returns {Promise<void>} Promise that resolves when response is sent
+   *
+   * @example
+   * // POST /api/v1/media?filename=hola.mp3
+   * // Content-Type: audio/mpeg
+   * // Response format:
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "id": "3f0c9a52-8e1b-4c55-9d2a-6b7e0f1d2c3b",
+   *     "kind": "audio",
+   *     "content_type": "audio/mpeg",
+   *     "duration_seconds": 1.464,
+   *     "url": "/api/v1/media/3f0c9a52-8e1b-4c55-9d2a-6b7e0f1d2c3b/file"
+   *   }
+   * }
+   */
+  upload = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { filename } = req.query as unknown as UploadMediaQuery;
+      const asset = await this.mediaService.upload({
+        data: Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0),
+        content_type: req.headers['content-type'],
+        filename,
+        uploaded_by: req.user?.sub,
+      });
+
+      const response: ApiResponse = {
+        data: asset,
+        success: true,
+        timestamp: new Date().toISOString(),
+      };
+
+      res.status(HttpStatus.CREATED).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Lists media assets newest first.
+   *
+   * Handles GET /api/v1/media endpoint. Requires the content_creator or admin role.
+   *
+   * @param {Request} req - Express request object with page, limit, kind and uploaded_by query parameters
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function for error handling
+   * @returns {Promise<void>} Promise that resolves when response is sent
+   */
+  getAssets = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await this.mediaService.getAssets(req.query as unknown as MediaQuery);
+
+      res.status(HttpStatus.OK).json({
+        success: true,
+        data: result.data,
+        pagination: result.pagination,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Gets the metadata of a media asset.
+   *
+   * Handles GET /api/v1/media/:id endpoint. Requires the content_creator or admin role.
+   *
+   * @param {Request} req - Express request object with the media ID in params
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function for error handling
+   * @returns {Promise<void>} Promise that resolves when response is sent
+   */
+  getAsset = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const asset = await this.mediaService.getAsset(req.params['id']!);
+
+      const response: ApiResponse = {
+        data: asset,
+        success: true,
+        timestamp: new Date().toISOString(),
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Downloads the file or the thumbnail of a media asset.
+   *
+   * Handles GET /api/v1/media/:id/file endpoint. Public, so that learners and offline clients can
+   * fetch the media of course packages. Answers conditional requests with 304 and byte ranges with 206.
+   *
+   * @param {Request} req - Express request object with the media ID in params and the variant query parameter
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function for error handling
+   * @returns {Promise<void>} Promise that resolves when response is sent
+   */
+  getFile = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { variant } = req.query as unknown as MediaFileQuery;
+      const file = await this.mediaService.getFile(req.params['id']!, variant);
+      const etag = `"${file.etag}"`;
+
+      res.set({
+        'Content-Type': file.content_type,
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        'ETag': etag,
+        'Accept-Ranges': 'bytes',
+        // Exercises embed media from other origins, such as the creator app
+        'Cross-Origin-Resource-Policy': 'cross-origin',
+      });
+
+      if (req.headers['if-none-match'] === etag) {
+        res.status(HttpStatus.NOT_MODIFIED).end();
+        return;
+      }
+
+      const range = parseRange(req.headers.range, file.data.length);
+      if (range) {
+        res.set('Content-Range', `bytes ${range.start}-${range.end}/${file.data.length}`);
+        res.status(HttpStatus.PARTIAL_CONTENT).send(file.data.subarray(range.start, range.end + 1));
+        return;
+      }
+
+      res.status(HttpStatus.OK).send(file.data);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Deletes a media asset and its files.
+   *
+   * Handles DELETE /api/v1/media/:id endpoint. Only the uploader and admins may delete an asset,
+   * and only while no exercise or published course version references it.
+   *
+   * @param {Request} req - Express request object with the media ID in params
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function for error handling
+   * @returns {Promise<void>} Promise that resolves when response is sent
+   */
+  deleteAsset = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      await this.mediaService.deleteAsset(req.params['id']!, req.user!);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Media deleted successfully',
+        timestamp: new Date().toISOString(),
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,122 @@
+// src/modules/media/repositories/mediaRepository.ts
+
+/**
+ * Data access layer for media assets using Prisma ORM.
+ *
+ * A media asset row describes an uploaded file: its kind, content type, size, checksum, pixel size
+ * or duration, and the storage keys of the file and its thumbnail. The files themselves live in the
+ * media storage (see MediaStorage). Assets are listed newest first, and the repository tells
+ * whether an asset is still referenced by exercise data or by a published course version, which
+ * keeps referenced files from being deleted.
+ *
+ * @module MediaRepository
+ * @category Media
+ * @category Repositories
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const mediaRepository = new MediaRepository(prisma);
+ *
+ * const asset = await mediaRepository.findById("3f0c9a52-8e1b-4c55-9d2a-6b7e0f1d2c3b");
+ * const { assets, total } = await mediaRepository.findMany({ kind: "audio" }, 1, 20);
+ */
+
+import { MediaAsset as PrismaMediaAsset, Prisma, PrismaClient } from "@prisma/client";
+import { MediaFilters, MediaKind, StoredMediaAsset } from "../types";
+
+const toStoredAsset = (asset: PrismaMediaAsset): StoredMediaAsset => ({
+  id: asset.id,
+  kind: asset.kind as MediaKind,
+  content_type: asset.contentType,
+  size_bytes: asset.sizeBytes,
+  checksum: asset.checksum,
+  filename: asset.filename,
+  width: asset.width,
+  height: asset.height,
+  duration_seconds: asset.durationSeconds,
+  uploaded_by: asset.uploadedBy,
+  created_at: asset.createdAt,
+  storage_key: asset.storageKey,
+  thumbnail_key: asset.thumbnailKey,
+});
+
+export class MediaRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(data: Omit<StoredMediaAsset, "created_at">): Promise<StoredMediaAsset> {
+    const asset = await this.prisma.mediaAsset.create({
+      data: {
+        id: data.id,
+        kind: data.kind,
+        contentType: data.content_type,
+        sizeBytes: data.size_bytes,
+        checksum: data.checksum,
+        filename: data.filename,
+        storageKey: data.storage_key,
+        thumbnailKey: data.thumbnail_key,
+        width: data.width,
+        height: data.height,
+        durationSeconds: data.duration_seconds,
+        uploadedBy: data.uploaded_by,
+      },
+    });
+
+    return toStoredAsset(asset);
+  }
+
+  async findById(id: string): Promise<StoredMediaAsset | null> {
+    const asset = await this.prisma.mediaAsset.findUnique({ where: { id } });
+    return asset ? toStoredAsset(asset) : null;
+  }
+
+  async findByIds(ids: string[]): Promise<StoredMediaAsset[]> {
+    if (ids.length === 0) return [];
+
+    const assets = await this.prisma.mediaAsset.findMany({
+      where: { id: { in: ids } },
+      orderBy: { createdAt: "asc" },
+    });
+    return assets.map(toStoredAsset);
+  }
+
+  async findMany(
+    filters: MediaFilters,
+    page: number,
+    limit: number,
+  ): Promise<{ assets: StoredMediaAsset[]; total: number }> {
+    const where: Prisma.MediaAssetWhereInput = {
+      ...(filters.kind && { kind: filters.kind }),
+      ...(filters.uploaded_by && { uploadedBy: filters.uploaded_by }),
+    };
+
+    const [assets, total] = await Promise.all([
+      this.prisma.mediaAsset.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.mediaAsset.count({ where }),
+    ]);
+
+    return { assets: assets.map(toStoredAsset), total };
+  }
+
+  /**
+   * Whether exercise data (including exercises in the trash) or a published course version
+   * mentions the asset ID
+   */
+  async isReferenced(id: string): Promise<boolean> {
+    const pattern = `%"${id}"%`;
+    const [result] = await this.prisma.$queryRaw<{ referenced: boolean }[]>`
+      SELECT EXISTS (SELECT 1 FROM exercises WHERE data::text LIKE ${pattern})
+          OR EXISTS (SELECT 1 FROM course_versions WHERE snapshot::text LIKE ${pattern}) AS referenced
+    `;
+    return result?.referenced ?? false;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.mediaAsset.delete({ where: { id } });
+  }
+}
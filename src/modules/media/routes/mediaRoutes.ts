@@ -0,0 +1,377 @@
+// src/modules/media/routes/mediaRoutes.ts
+
+/**
+ * Express routing configuration for the media library.
+ *
+ * Content creators upload the images and audio clips of their exercises here and reference them
+ * from exercise data by `media_id`. Uploads send the file as the request body with its content
+ * type (no multipart form), which keeps large files out of JSON and lets any HTTP client upload
+ * with a single request. Files are served publicly by ID so that learners and offline clients
+ * can download the media listed in course packages.
+ *
+ * @module MediaRoutes
+ * @category Media
+ * @category Routes
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * // Mount media routes in main application
+ * import { createMediaRoutes } from '@/modules/media/routes/mediaRoutes';
+ * import { prisma } from '@/shared/database/connection';
+ *
+ * app.use('/api/v1', createMediaRoutes(prisma));
+ *
+ * @example
+ * // Available media endpoints:
+ * // POST /api/v1/media - Upload an image or audio file (content_creator/admin)
+ * // GET /api/v1/media - List uploaded media (content_creator/admin)
+ * // GET /api/v1/media/:id - Get media metadata (content_creator/admin)
+ * // GET /api/v1/media/:id/file - Download a file or its thumbnail (public)
+ * // DELETE /api/v1/media/:id - Delete unreferenced media (uploader/admin)
+ */
+
+import express, { NextFunction, Request, Response, Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { MediaController } from '../controllers/mediaController';
+import { MediaService, getMaxUploadSize } from '../services/mediaService';
+import { MediaRepository } from '../repositories/mediaRepository';
+import { MediaFileQuerySchema, MediaParamSchema, MediaQuerySchema, UploadMediaQuerySchema } from '../types';
+import { createAuditMiddleware } from '../../audit/middleware';
+import { authenticateToken, requireRole } from '@/shared/middleware/auth';
+import { validate } from '@/shared/middleware/validation';
+import { AppError } from '@/shared/middleware/errorHandler';
+import { ErrorCodes, HttpStatus } from '@/shared/types';
+
+/**
+ * Reads the request body as the uploaded file, whatever its content type. Bodies over the largest
+ * size limit are rejected while streaming; the service then applies the limit of the file's kind.
+ */
+const readUploadBody = (req: Request, res: Response, next: NextFunction): void => {
+  const limit = Math.max(getMaxUploadSize('image'), getMaxUploadSize('audio'));
+
+  express.raw({ type: () => true, limit })(req, res, (error?: any) => {
+    if (error?.type === 'entity.too.large') {
+      next(new AppError(`Files are limited to ${limit} bytes`, HttpStatus.UNPROCESSABLE_ENTITY, ErrorCodes.VALIDATION_ERROR));
+      return;
+    }
+    next(error);
+  });
+};
+
+/**
+ * Creates an Express router with the media library routes.
+ *
+ * @param {PrismaClient} prisma - Prisma database client instance
+ * @returns {Router} Configured Express router with the media endpoints
+ */
+export function createMediaRoutes(prisma: PrismaClient): Router {
+  const router = Router();
+
+  const mediaRepository = new MediaRepository(prisma);
+  const mediaService = new MediaService(mediaRepository);
+  const mediaController = new MediaController(mediaService);
+  const audit = createAuditMiddleware(prisma);
+
+  /**
+   * @swagger
+   * /api/v1/media:
+   *   post:
+   *     tags:
+   *       - Media
+   *     summary: Upload an image or audio file
+   *     description: Upload a file to the media library. The request body is the file itself and the Content-Type header its type; the file signature must match it. Images (PNG, JPEG, GIF, WebP) are limited to MEDIA_MAX_IMAGE_SIZE bytes (5 MB by default) and get a thumbnail whose longest side is 320 pixels. Audio (MP3, WAV, Ogg, M4A) is limited to MEDIA_MAX_AUDIO_SIZE bytes (10 MB by default) and is measured in seconds. Exercises reference the upload by its ID in a media_id field.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: filename
+   *         schema:
+   *           type: string
+   *           maxLength: 255
+   *         description: Original name of the file, kept for display
+   *         example: "hola.mp3"
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         image/png:
+   *           schema:
+   *             type: string
+   *             format: binary
+   *         image/jpeg:
+   *           schema:
+   *             type: string
+   *             format: binary
+   *         image/gif:
+   *           schema:
+   *             type: string
+   *             format: binary
+   *         image/webp:
+   *           schema:
+   *             type: string
+   *             format: binary
+   *         audio/mpeg:
+   *           schema:
+   *             type: string
+   *             format: binary
+   *         audio/wav:
+   *           schema:
+   *             type: string
+   *             format: binary
+   *         audio/ogg:
+   *           schema:
+   *             type: string
+   *             format: binary
+   *         audio/mp4:
+   *           schema:
+   *             type: string
+   *             format: binary
+   *     responses:
+   *       201:
+   *         description: File uploaded successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   $ref: '#/components/schemas/MediaAsset'
+   *       400:
+   *         description: Unsupported content type, empty file, contents not matching the content type, or unreadable image
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       403:
+   *         description: Insufficient permissions (content_creator or admin required)
+   *       422:
+   *         description: File exceeds the size limit of its kind
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  router.post(
+    '/media',
+    authenticateToken,
+    requireRole(['admin', 'content_creator']),
+    validate({ query: UploadMediaQuerySchema }),
+    readUploadBody,
+    audit('upload', 'media'),
+    mediaController.upload
+  );
+
+  /**
+   * @swagger
+   * /api/v1/media:
+   *   get:
+   *     tags:
+   *       - Media
+   *     summary: List uploaded media
+   *     description: List the media library newest first, optionally only images or audio, or only the uploads of one user.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: page
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           default: 1
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *           default: 20
+   *       - in: query
+   *         name: kind
+   *         schema:
+   *           type: string
+   *           enum: [image, audio]
+   *       - in: query
+   *         name: uploaded_by
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: Only files uploaded by this user
+   *     responses:
+   *       200:
+   *         description: Media retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/MediaAsset'
+   *                 pagination:
+   *                   $ref: '#/components/schemas/PaginationInfo'
+   *       400:
+   *         description: Invalid query parameters
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       403:
+   *         description: Insufficient permissions (content_creator or admin required)
+   */
+  router.get(
+    '/media',
+    authenticateToken,
+    requireRole(['admin', 'content_creator']),
+    validate({ query: MediaQuerySchema }),
+    mediaController.getAssets
+  );
+
+  /**
+   * @swagger
+   * /api/v1/media/{id}:
+   *   get:
+   *     tags:
+   *       - Media
+   *     summary: Get media metadata
+   *     description: Get the type, size, checksum, pixel size or duration, and file URLs of an uploaded file.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: Media retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   $ref: '#/components/schemas/MediaAsset'
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       403:
+   *         description: Insufficient permissions (content_creator or admin required)
+   *       404:
+   *         description: Media not found
+   */
+  router.get(
+    '/media/:id',
+    authenticateToken,
+    requireRole(['admin', 'content_creator']),
+    validate({ params: MediaParamSchema }),
+    mediaController.getAsset
+  );
+
+  /**
+   * @swagger
+   * /api/v1/media/{id}/file:
+   *   get:
+   *     tags:
+   *       - Media
+   *     summary: Download a media file
+   *     description: Download an uploaded file, or the PNG thumbnail of an image with variant=thumbnail (images already within the thumbnail size are served as they are). Public and cacheable forever, since the file of a media ID never changes. Supports If-None-Match and single byte ranges, so audio players can seek.
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *       - in: query
+   *         name: variant
+   *         schema:
+   *           type: string
+   *           enum: [original, thumbnail]
+   *           default: original
+   *       - in: header
+   *         name: Range
+   *         schema:
+   *           type: string
+   *         example: "bytes=0-1023"
+   *     responses:
+   *       200:
+   *         description: The file
+   *         content:
+   *           image/*:
+   *             schema:
+   *               type: string
+   *               format: binary
+   *           audio/*:
+   *             schema:
+   *               type: string
+   *               format: binary
+   *       206:
+   *         description: The requested byte range of the file
+   *       304:
+   *         description: The file matches the If-None-Match header
+   *       404:
+   *         description: Media not found, or thumbnail requested for audio
+   */
+  router.get(
+    '/media/:id/file',
+    validate({ params: MediaParamSchema, query: MediaFileQuerySchema }),
+    mediaController.getFile
+  );
+
+  /**
+   * @swagger
+   * /api/v1/media/{id}:
+   *   delete:
+   *     tags:
+   *       - Media
+   *     summary: Delete media
+   *     description: Delete an uploaded file and its thumbnail. Only the uploader and admins can delete a file, and only while no exercise (including exercises in the trash) or published course version references it.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: Media deleted successfully
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       403:
+   *         description: Only the uploader or an admin can delete this media
+   *       404:
+   *         description: Media not found
+   *       409:
+   *         description: Media is still referenced by exercises or published course versions
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  router.delete(
+    '/media/:id',
+    authenticateToken,
+    requireRole(['admin', 'content_creator']),
+    validate({ params: MediaParamSchema }),
+    audit('delete', 'media'),
+    mediaController.deleteAsset
+  );
+
+  return router;
+}
+
+export default createMediaRoutes;
@@ -0,0 +1,428 @@
+// src/modules/media/services/mediaService.ts
+
+/**
+ * Media library service for the images and audio clips used by exercises.
+ *
+ * Content creators upload files once and reference them from exercise data by `media_id`. On
+ * upload the declared content type is checked against the file signature and the size limit of
+ * its kind (`MEDIA_MAX_IMAGE_SIZE`, default 5 MB, and `MEDIA_MAX_AUDIO_SIZE`, default 10 MB).
+ * Images are measured and get a PNG thumbnail whose longest side is 320 pixels; audio clips are
+ * measured in seconds. Files go to the configured media storage (see MediaStorage) under
+ * `<kind>/<id>.<ext>` and their metadata to the `media_assets` table.
+ *
+ * The service also checks that the `media_id` references of exercise data point to existing
+ * assets of the expected kind, and builds the media manifest of course packages so that offline
+ * clients know which files to download. Assets still referenced by exercises or published course
+ * versions cannot be deleted.
+ *
+ * @module MediaService
+ * @category Media
+ * @category Services
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const mediaService = new MediaService(new MediaRepository(prisma));
+ *
+ * const asset = await mediaService.upload({
+ *   data: buffer,
+ *   content_type: 'audio/mpeg',
+ *   filename: 'hola.mp3',
+ *   uploaded_by: 'user-123',
+ * });
+ * // asset.duration_seconds === 1.464, asset.url === '/api/v1/media/<id>/file'
+ *
+ * await mediaService.assertMediaReferences({ content: 'Listen', media: { type: 'audio', media_id: asset.id } });
+ */
+
+import { createHash, randomUUID } from "crypto";
+import { z } from "zod";
+import { MediaRepository } from "../repositories/mediaRepository";
+import {
+  MediaAsset,
+  MediaFile,
+  MediaKind,
+  MediaManifestEntry,
+  MediaQuery,
+  MediaReference,
+  MediaUploadInput,
+  MediaVariant,
+  StoredMediaAsset,
+} from "../types";
+import { AppError } from "@/shared/middleware/errorHandler";
+import { ErrorCodes, HttpStatus, PaginatedResult, UserRole } from "@/shared/types";
+import { logger } from "@/shared/utils/logger";
+import { MediaStorage, mediaStorage } from "@/shared/utils/mediaStorage";
+import { createThumbnail, Thumbnail } from "@/shared/utils/thumbnail";
+import { createPaginationResult } from "@/shared/utils/repositoryHelpers";
+import {
+  AUDIO_CONTENT_TYPES,
+  IMAGE_CONTENT_TYPES,
+  isImageContentType,
+  MediaContentType,
+  normalizeContentType,
+  probeAudioDuration,
+  probeImageSize,
+  sniffContentType,
+} from "@/shared/utils/mediaProbe";
+
+const THUMBNAIL_SIZE = 320;
+
+const MEGABYTE = 1024 * 1024;
+
+const FILE_EXTENSIONS: Record<MediaContentType, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+  "audio/ogg": "ogg",
+  "audio/mp4": "m4a",
+};
+
+/**
+ * Largest accepted upload of a kind, in bytes
+ */
+export function getMaxUploadSize(kind: MediaKind, env: NodeJS.ProcessEnv = process.env): number {
+  const configured = kind === "image" ? env["MEDIA_MAX_IMAGE_SIZE"] : env["MEDIA_MAX_AUDIO_SIZE"];
+  const size = configured ? parseInt(configured, 10) : NaN;
+  return Number.isFinite(size) && size > 0 ? size : (kind === "image" ? 5 : 10) * MEGABYTE;
+}
+
+// Exercise data fields holding audio clips
+const AUDIO_FIELDS = ["audio", "reference_audio"];
+
+/**
+ * Finds the `media_id` references in exercise data.
+ *
+ * Any object with a string `media_id` is a reference, wherever it is nested; its `type` (such as
+ * the `image` or `audio` of informative media) is the kind of media the exercise expects. Without
+ * a `type`, clips stored under an audio field (the `audio` of listening exercises, the
+ * `reference_audio` of speaking exercises) are expected to be audio.
+ *
+ * @param {unknown} data - Exercise data
+ * @returns {MediaReference[]} References in document order
+ */
+export function collectMediaReferences(data: unknown): MediaReference[] {
+  const references: MediaReference[] = [];
+
+  const visit = (value: unknown, path: (string | number)[]): void => {
+    const key = path[path.length - 1];
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, [...path, index]));
+      return;
+    }
+    if (!value || typeof value !== "object") return;
+
+    const object = value as Record<string, unknown>;
+    if (typeof object["media_id"] === "string") {
+      references.push({
+        media_id: object["media_id"],
+        path,
+        expected_kind:
+          typeof object["type"] === "string"
+            ? object["type"]
+            : typeof key === "string" && AUDIO_FIELDS.includes(key)
+              ? "audio"
+              : undefined,
+      });
+    }
+    for (const [key, child] of Object.entries(object)) {
+      visit(child, [...path, key]);
+    }
+  };
+
+  visit(data, []);
+  return references;
+}
+
+/**
+ * Business logic layer for the media library.
+ *
+ * @class MediaService
+ */
+export class MediaService {
+  /**
+   * Creates an instance of MediaService.
+   *
+   * @param {MediaRepository} mediaRepository - Repository for media asset metadata
+   * @param {MediaStorage} storage - Storage of the media files, defaults to the configured driver
+   */
+  constructor(
+    private mediaRepository: MediaRepository,
+    private storage: MediaStorage = mediaStorage,
+  ) {}
+
+  /**
+   * Validates, measures and stores an uploaded file.
+   *
+   * @param {MediaUploadInput} input - File contents, declared content type, file name and uploader
+   * @returns {Promise<MediaAsset>} The stored asset
+   * @throws {AppError} 400 when the file is of an unsupported type, empty, does not match its
+   * content type or is an unreadable image; 422 when it exceeds the size limit of its kind
+   */
+  async upload(input: MediaUploadInput): Promise<MediaAsset> {
+    const contentType = normalizeContentType(input.content_type);
+    if (!contentType) {
+      throw new AppError(
+        `Unsupported content type '${input.content_type ?? ""}'. Supported types: ${[...IMAGE_CONTENT_TYPES, ...AUDIO_CONTENT_TYPES].join(", ")}`,
+        HttpStatus.BAD_REQUEST,
+        ErrorCodes.VALIDATION_ERROR,
+      );
+    }
+    const { data } = input;
+    if (data.length === 0) {
+      throw new AppError("The uploaded file is empty", HttpStatus.BAD_REQUEST, ErrorCodes.VALIDATION_ERROR);
+    }
+    if (sniffContentType(data) !== contentType) {
+      throw new AppError(
+        `The file contents are not ${contentType}`,
+        HttpStatus.BAD_REQUEST,
+        ErrorCodes.VALIDATION_ERROR,
+      );
+    }
+
+    const kind: MediaKind = isImageContentType(contentType) ? "image" : "audio";
+    const maxSize = getMaxUploadSize(kind);
+    if (data.length > maxSize) {
+      throw new AppError(
+        `The ${kind} is ${data.length} bytes; ${kind} files are limited to ${maxSize} bytes`,
+        HttpStatus.UNPROCESSABLE_ENTITY,
+        ErrorCodes.VALIDATION_ERROR,
+      );
+    }
+
+    const id = randomUUID();
+    const storageKey = `${kind}/${id}.${FILE_EXTENSIONS[contentType]}`;
+    let width: number | null = null;
+    let height: number | null = null;
+    let durationSeconds: number | null = null;
+    let thumbnail: Thumbnail | null = null;
+
+    if (isImageContentType(contentType)) {
+      const size = probeImageSize(data, contentType);
+      if (!size) {
+        throw new AppError("The image could not be read", HttpStatus.BAD_REQUEST, ErrorCodes.VALIDATION_ERROR);
+      }
+      ({ width, height } = size);
+
+      try {
+        thumbnail = await createThumbnail(data, contentType, THUMBNAIL_SIZE);
+      } catch (error) {
+        // The original is still served in place of the thumbnail
+        logger.warn("Could not create media thumbnail", { id, contentType, error });
+      }
+    } else {
+      durationSeconds = probeAudioDuration(data, contentType);
+      if (durationSeconds === null) {
+        logger.warn("Could not read the duration of uploaded audio", { id, contentType });
+      }
+    }
+
+    const thumbnailKey = thumbnail ? `${kind}/${id}-thumbnail.png` : null;
+    await this.storage.put(storageKey, data, contentType);
+    if (thumbnail && thumbnailKey) {
+      await this.storage.put(thumbnailKey, thumbnail.data, "image/png");
+    }
+
+    let asset: StoredMediaAsset;
+    try {
+      asset = await this.mediaRepository.create({
+        id,
+        kind,
+        content_type: contentType,
+        size_bytes: data.length,
+        checksum: createHash("sha256").update(data).digest("hex"),
+        filename: input.filename ?? null,
+        width,
+        height,
+        duration_seconds: durationSeconds,
+        uploaded_by: input.uploaded_by ?? null,
+        storage_key: storageKey,
+        thumbnail_key: thumbnailKey,
+      });
+    } catch (error) {
+      await this.removeFiles([storageKey, thumbnailKey]);
+      throw error;
+    }
+
+    logger.info("Media uploaded", { id, kind, contentType, sizeBytes: data.length, storage: this.storage.name });
+    return this.toMediaAsset(asset);
+  }
+
+  /**
+   * Gets the metadata of an asset.
+   *
+   * @param {string} id - Media asset ID
+   * @returns {Promise<MediaAsset>} The asset
+   * @throws {AppError} 404 when the asset does not exist
+   */
+  async getAsset(id: string): Promise<MediaAsset> {
+    return this.toMediaAsset(await this.findAsset(id));
+  }
+
+  /**
+   * Lists assets newest first.
+   *
+   * @param {MediaQuery} query - Pagination and filters on kind and uploader
+   * @returns {Promise<PaginatedResult<MediaAsset>>} Page of assets
+   */
+  async getAssets(query: MediaQuery): Promise<PaginatedResult<MediaAsset>> {
+    const { page, limit, ...filters } = query;
+    const { assets, total } = await this.mediaRepository.findMany(filters, page, limit);
+
+    return createPaginationResult(assets.map((asset) => this.toMediaAsset(asset)), total, page, limit);
+  }
+
+  /**
+   * Reads a file of an asset. Images without a thumbnail (already small, or not decodable) serve
+   * the original as their thumbnail.
+   *
+   * @param {string} id - Media asset ID
+   * @param {MediaVariant} variant - The original file or the thumbnail
+   * @returns {Promise<MediaFile>} File contents and headers
+   * @throws {AppError} 404 when the asset or its file does not exist, or for the thumbnail of audio
+   */
+  async getFile(id: string, variant: MediaVariant): Promise<MediaFile> {
+    const asset = await this.findAsset(id);
+    if (variant === "thumbnail" && asset.kind !== "image") {
+      throw new AppError("Audio has no thumbnail", HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+
+    const useThumbnail = variant === "thumbnail" && asset.thumbnail_key !== null;
+    const key = useThumbnail ? asset.thumbnail_key! : asset.storage_key;
+    const data = await this.storage.get(key);
+    if (!data) {
+      logger.error("Media file is missing from storage", { id, key, storage: this.storage.name });
+      throw new AppError("Media file not found", HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+
+    return {
+      data,
+      content_type: useThumbnail ? "image/png" : asset.content_type,
+      etag: useThumbnail ? `${asset.checksum}-thumbnail` : asset.checksum,
+    };
+  }
+
+  /**
+   * Deletes an asset and its files.
+   *
+   * @param {string} id - Media asset ID
+   * @param {{ sub: string; role: UserRole }} user - User deleting the asset; only its uploader and admins may
+   * @returns {Promise<void>} Promise that resolves once the asset is deleted
+   * @throws {AppError} 404 when the asset does not exist, 403 for other users, 409 when it is still referenced
+   */
+  async deleteAsset(id: string, user: { sub: string; role: UserRole }): Promise<void> {
+    const asset = await this.findAsset(id);
+    if (user.role !== "admin" && asset.uploaded_by !== user.sub) {
+      throw new AppError(
+        "Only the uploader or an admin can delete this media",
+        HttpStatus.FORBIDDEN,
+        ErrorCodes.AUTHORIZATION_ERROR,
+      );
+    }
+    if (await this.mediaRepository.isReferenced(id)) {
+      throw new AppError(
+        "Media is still referenced by exercises or published course versions",
+        HttpStatus.CONFLICT,
+        ErrorCodes.CONFLICT,
+      );
+    }
+
+    await this.mediaRepository.delete(id);
+    await this.removeFiles([asset.storage_key, asset.thumbnail_key]);
+    logger.info("Media deleted", { id, deletedBy: user.sub });
+  }
+
+  /**
+   * Checks that the `media_id` references of exercise data point to existing assets of the
+   * expected kind.
+   *
+   * @param {unknown} data - Exercise data
+   * @param {(string | number)[]} [path] - Location of the data in the request body, prefixed to issue paths
+   * @returns {Promise<void>} Promise that resolves when every reference is valid
+   * @throws {ZodError} With the path of each invalid reference under `path`
+   */
+  async assertMediaReferences(data: unknown, path: (string | number)[] = ["data"]): Promise<void> {
+    const references = collectMediaReferences(data);
+    if (references.length === 0) return;
+
+    const assets = await this.mediaRepository.findByIds([...new Set(references.map((ref) => ref.media_id))]);
+    const kinds = new Map(assets.map((asset) => [asset.id, asset.kind]));
+
+    const issues: z.ZodIssue[] = [];
+    for (const reference of references) {
+      const kind = kinds.get(reference.media_id);
+      const issuePath = [...path, ...reference.path, "media_id"];
+      if (!kind) {
+        issues.push({ code: z.ZodIssueCode.custom, path: issuePath, message: `Media ${reference.media_id} does not exist` });
+      } else if (reference.expected_kind && reference.expected_kind !== kind) {
+        issues.push({
+          code: z.ZodIssueCode.custom,
+          path: issuePath,
+          message: `Media ${reference.media_id} is ${kind === "image" ? "an image" : "audio"}, not ${reference.expected_kind}`,
+        });
+      }
+    }
+
+    if (issues.length > 0) {
+      throw new z.ZodError(issues);
+    }
+  }
+
+  /**
+   * Builds the media manifest of a set of exercises: every referenced asset with the IDs of the
+   * exercises using it. References to deleted assets are left out.
+   *
+   * @param {{ id: string; data: unknown }[]} exercises - Exercises of a course package or change set
+   * @returns {Promise<MediaManifestEntry[]>} Referenced assets, oldest first
+   */
+  async getManifest(exercises: { id: string; data: unknown }[]): Promise<MediaManifestEntry[]> {
+    const exerciseIds = new Map<string, Set<string>>();
+    for (const exercise of exercises) {
+      for (const reference of collectMediaReferences(exercise.data)) {
+        const ids = exerciseIds.get(reference.media_id) ?? new Set<string>();
+        ids.add(exercise.id);
+        exerciseIds.set(reference.media_id, ids);
+      }
+    }
+    if (exerciseIds.size === 0) return [];
+
+    const assets = await this.mediaRepository.findByIds([...exerciseIds.keys()]);
+    return assets.map((asset) => {
+      const { uploaded_by: _uploadedBy, ...entry } = this.toMediaAsset(asset);
+      return { ...entry, exercise_ids: [...exerciseIds.get(asset.id)!].sort() };
+    });
+  }
+
+  private async findAsset(id: string): Promise<StoredMediaAsset> {
+    const asset = await this.mediaRepository.findById(id);
+    if (!asset) {
+      throw new AppError("Media not found", HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+    return asset;
+  }
+
+  private async removeFiles(keys: (string | null)[]): Promise<void> {
+    for (const key of keys) {
+      if (!key) continue;
+      try {
+        await this.storage.delete(key);
+      } catch (error) {
+        logger.error("Could not delete media file", { key, storage: this.storage.name, error });
+      }
+    }
+  }
+
+  private toMediaAsset(asset: StoredMediaAsset): MediaAsset {
+    const { storage_key: _storageKey, thumbnail_key: _thumbnailKey, ...metadata } = asset;
+    const url = `/api/v1/media/${asset.id}/file`;
+
+    return {
+      ...metadata,
+      url,
+      thumbnail_url: asset.kind === "image" ? `${url}?variant=thumbnail` : null,
+    };
+  }
+}
@@ -0,0 +1,103 @@
+import { z } from "zod";
+
+// Media module types and interfaces
+
+export const MEDIA_KINDS = ["image", "audio"] as const;
+
+export type MediaKind = (typeof MEDIA_KINDS)[number];
+
+export const MEDIA_VARIANTS = ["original", "thumbnail"] as const;
+
+export type MediaVariant = (typeof MEDIA_VARIANTS)[number];
+
+export interface MediaAsset {
+  id: string;
+  kind: MediaKind;
+  content_type: string;
+  size_bytes: number;
+  /** Hex SHA-256 of the file */
+  checksum: string;
+  filename: string | null;
+  /** Pixel size of images */
+  width: number | null;
+  height: number | null;
+  /** Length of audio clips in seconds */
+  duration_seconds: number | null;
+  /** Path of the file on the API */
+  url: string;
+  /** Path of the thumbnail of images; null for audio */
+  thumbnail_url: string | null;
+  uploaded_by: string | null;
+  created_at: Date;
+}
+
+/** Database row of a media asset, with the storage keys of its files */
+export interface StoredMediaAsset extends Omit<MediaAsset, "url" | "thumbnail_url"> {
+  storage_key: string;
+  thumbnail_key: string | null;
+}
+
+/** Media asset listed in a course package, with the exercises that reference it */
+export interface MediaManifestEntry extends Omit<MediaAsset, "uploaded_by"> {
+  exercise_ids: string[];
+}
+
+/** A `media_id` found in exercise data */
+export interface MediaReference {
+  media_id: string;
+  /** Location of the object holding the `media_id`, relative to the exercise data */
+  path: (string | number)[];
+  /** Media kind the exercise expects, when the object states one in `type` */
+  expected_kind?: string | undefined;
+}
+
+export interface MediaUploadInput {
+  data: Buffer;
+  content_type: string | undefined;
+  filename?: string | undefined;
+  uploaded_by?: string | undefined;
+}
+
+export interface MediaFile {
+  data: Buffer;
+  content_type: string;
+  /** Entity tag of the file, derived from the checksum of the original */
+  etag: string;
+}
+
+export interface MediaFilters {
+  kind?: MediaKind | undefined;
+  uploaded_by?: string | undefined;
+}
+
+// Validation schemas
+export const MediaParamSchema = z.object({
+  id: z.string().uuid("Invalid media ID format"),
+});
+
+export const UploadMediaQuerySchema = z.object({
+  filename: z.string().trim().min(1).max(255).optional(),
+});
+
+export const MediaFileQuerySchema = z.object({
+  variant: z.enum(MEDIA_VARIANTS).default("original"),
+});
+
+export const MediaQuerySchema = z.object({
+  page: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 1))
+    .pipe(z.number().int().min(1)),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 20))
+    .pipe(z.number().int().min(1).max(100)),
+  kind: z.enum(MEDIA_KINDS).optional(),
+  uploaded_by: z.string().uuid("Invalid user ID format").optional(),
+});
+
+export type UploadMediaQuery = z.infer<typeof UploadMediaQuerySchema>;
+export type MediaFileQuery = z.infer<typeof MediaFileQuerySchema>;
+export type MediaQuery = z.infer<typeof MediaQuerySchema>;
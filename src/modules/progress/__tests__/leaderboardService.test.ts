@@ -0,0 +1,209 @@
+/**
+ * Leaderboard Service Tests
+ * Unit tests for leaderboard ranking, time windows and weekly league tiers
+ */
+
+import { LeaderboardService } from '../services/leaderboardService';
+import { LeaderboardRepository } from '../repositories/leaderboardRepository';
+
+jest.mock('@/shared/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const mockLeaderboardRepository = {
+  findTopProgress: jest.fn(),
+  findProgressValue: jest.fn(),
+  countProgressAbove: jest.fn(),
+  findTopExperience: jest.fn(),
+  sumExperience: jest.fn(),
+  countExperienceAbove: jest.fn(),
+  findUsers: jest.fn(),
+  findFollowedUserIds: jest.fn(),
+  findLatestLeagueMembership: jest.fn(),
+  findLeagueMemberIds: jest.fn(),
+  upsertLeagueMembership: jest.fn(),
+} as unknown as jest.Mocked<LeaderboardRepository>;
+
+describe('LeaderboardService', () => {
+  let leaderboardService: LeaderboardService;
+
+  // Wednesday, so the week started on Monday 2025-06-02
+  const now = new Date('2025-06-04T15:30:00.000Z');
+  const weekStart = new Date('2025-06-02T00:00:00.000Z');
+  const previousWeekStart = new Date('2025-05-26T00:00:00.000Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    leaderboardService = new LeaderboardService(mockLeaderboardRepository);
+    mockLeaderboardRepository.findUsers.mockImplementation(async (ids: string[]) =>
+      ids.map((id) => ({ user_id: id, username: `name-${id}`, profile_picture_url: null }))
+    );
+    mockLeaderboardRepository.upsertLeagueMembership.mockImplementation(async (_userId, _weekStart, tier) => tier);
+  });
+
+  describe('getLeaderboard', () => {
+    it('should rank all-time experience from user progress with shared ranks for ties', async () => {
+      mockLeaderboardRepository.findTopProgress.mockResolvedValue([
+        { user_id: 'a', value: 500 },
+        { user_id: 'b', value: 300 },
+        { user_id: 'c', value: 300 },
+        { user_id: 'd', value: 100 },
+      ]);
+      mockLeaderboardRepository.findProgressValue.mockResolvedValue(50);
+      mockLeaderboardRepository.countProgressAbove.mockResolvedValue(9);
+
+      const result = await leaderboardService.getLeaderboard('me', {
+        metric: 'xp', scope: 'global', window: 'all_time', limit: 4,
+      });
+
+      expect(mockLeaderboardRepository.findTopProgress).toHaveBeenCalledWith('experiencePoints', 4, undefined);
+      expect(result.entries.map((entry) => entry.rank)).toEqual([1, 2, 2, 4]);
+      expect(result.entries[0]).toEqual({ rank: 1, user_id: 'a', username: 'name-a', profile_picture_url: null, value: 500 });
+      expect(result.current_user).toMatchObject({ rank: 10, user_id: 'me', username: 'name-me', value: 50 });
+      expect(result.period_start).toBeNull();
+    });
+
+    it('should restrict the following scope to the caller and followed users', async () => {
+      mockLeaderboardRepository.findFollowedUserIds.mockResolvedValue(['a', 'b']);
+      mockLeaderboardRepository.findTopProgress.mockResolvedValue([{ user_id: 'me', value: 7 }]);
+      mockLeaderboardRepository.findProgressValue.mockResolvedValue(7);
+      mockLeaderboardRepository.countProgressAbove.mockResolvedValue(0);
+
+      const result = await leaderboardService.getLeaderboard('me', {
+        metric: 'streak', scope: 'following', window: 'all_time', limit: 20,
+      });
+
+      expect(mockLeaderboardRepository.findTopProgress).toHaveBeenCalledWith('streakCurrent', 20, ['me', 'a', 'b']);
+      expect(mockLeaderboardRepository.countProgressAbove).toHaveBeenCalledWith('streakCurrent', 7, ['me', 'a', 'b']);
+      expect(result.current_user.rank).toBe(1);
+    });
+
+    it('should sum completion experience for windowed course leaderboards', async () => {
+      jest.useFakeTimers().setSystemTime(now);
+      mockLeaderboardRepository.findTopExperience.mockResolvedValue([{ user_id: 'a', value: 120 }]);
+      mockLeaderboardRepository.sumExperience.mockResolvedValue(0);
+      mockLeaderboardRepository.countExperienceAbove.mockResolvedValue(1);
+
+      const result = await leaderboardService.getLeaderboard('me', {
+        metric: 'xp', scope: 'course', window: 'weekly', course_id: 'spanish-101', limit: 20,
+      });
+      jest.useRealTimers();
+
+      const filter = { from: weekStart, courseId: 'spanish-101', userIds: undefined };
+      expect(mockLeaderboardRepository.findTopExperience).toHaveBeenCalledWith(filter, 20);
+      expect(mockLeaderboardRepository.countExperienceAbove).toHaveBeenCalledWith(0, filter);
+      expect(result.period_start).toEqual(weekStart);
+      expect(result.course_id).toBe('spanish-101');
+      expect(result.current_user).toMatchObject({ rank: 2, value: 0 });
+    });
+
+    it('should start monthly windows on the first day of the month', async () => {
+      jest.useFakeTimers().setSystemTime(now);
+      mockLeaderboardRepository.findTopExperience.mockResolvedValue([]);
+      mockLeaderboardRepository.sumExperience.mockResolvedValue(0);
+      mockLeaderboardRepository.countExperienceAbove.mockResolvedValue(0);
+
+      const result = await leaderboardService.getLeaderboard('me', {
+        metric: 'xp', scope: 'global', window: 'monthly', limit: 20,
+      });
+      jest.useRealTimers();
+
+      expect(result.period_start).toEqual(new Date('2025-06-01T00:00:00.000Z'));
+      expect(result.entries).toEqual([]);
+    });
+  });
+
+  describe('getLeague', () => {
+    it('should place new learners in bronze', async () => {
+      mockLeaderboardRepository.findLatestLeagueMembership.mockResolvedValue(null);
+      mockLeaderboardRepository.findLeagueMemberIds.mockResolvedValue(['me']);
+      mockLeaderboardRepository.findTopExperience.mockResolvedValue([]);
+
+      const league = await leaderboardService.getLeague('me', now);
+
+      expect(mockLeaderboardRepository.upsertLeagueMembership).toHaveBeenCalledWith('me', weekStart, 'bronze');
+      expect(league.tier).toBe('bronze');
+      expect(league.week_start).toEqual(weekStart);
+      expect(league.week_end).toEqual(new Date('2025-06-09T00:00:00.000Z'));
+      expect(league.current_user).toMatchObject({ rank: 1, value: 0, zone: 'safe' });
+    });
+
+    it('should keep the stored tier for the current week', async () => {
+      mockLeaderboardRepository.findLatestLeagueMembership.mockResolvedValue({ week_start: weekStart, tier: 'gold' });
+      mockLeaderboardRepository.findLeagueMemberIds.mockResolvedValue(['me']);
+      mockLeaderboardRepository.findTopExperience.mockResolvedValue([{ user_id: 'me', value: 40 }]);
+
+      const league = await leaderboardService.getLeague('me', now);
+
+      expect(league.tier).toBe('gold');
+      expect(mockLeaderboardRepository.upsertLeagueMembership).not.toHaveBeenCalled();
+    });
+
+    it('should promote the top of last week and mark zones in the current week', async () => {
+      const members = ['me', 'b', 'c', 'd', 'e'];
+      mockLeaderboardRepository.findLatestLeagueMembership.mockResolvedValue({ week_start: previousWeekStart, tier: 'silver' });
+      mockLeaderboardRepository.findLeagueMemberIds
+        .mockResolvedValueOnce(members)
+        .mockResolvedValueOnce(['me', 'x', 'y', 'z', 'w']);
+      mockLeaderboardRepository.findTopExperience
+        .mockResolvedValueOnce([{ user_id: 'me', value: 300 }, { user_id: 'b', value: 200 }, { user_id: 'c', value: 100 }])
+        .mockResolvedValueOnce([{ user_id: 'x', value: 90 }, { user_id: 'me', value: 30 }]);
+
+      const league = await leaderboardService.getLeague('me', now);
+
+      expect(mockLeaderboardRepository.findTopExperience).toHaveBeenNthCalledWith(1, {
+        from: previousWeekStart,
+        to: weekStart,
+        userIds: members,
+      });
+      expect(mockLeaderboardRepository.upsertLeagueMembership).toHaveBeenCalledWith('me', weekStart, 'gold');
+      expect(league.tier).toBe('gold');
+      expect(league.promotion_count).toBe(1);
+      expect(league.demotion_count).toBe(1);
+      expect(league.entries.map((entry) => [entry.user_id, entry.rank, entry.zone])).toEqual([
+        ['x', 1, 'promotion'],
+        ['me', 2, 'safe'],
+        ['w', 3, 'safe'],
+        ['y', 3, 'safe'],
+        ['z', 3, 'demotion'],
+      ]);
+    });
+
+    it('should demote the bottom of last week', async () => {
+      mockLeaderboardRepository.findLatestLeagueMembership.mockResolvedValue({ week_start: previousWeekStart, tier: 'silver' });
+      mockLeaderboardRepository.findLeagueMemberIds
+        .mockResolvedValueOnce(['me', 'b', 'c', 'd', 'e'])
+        .mockResolvedValueOnce(['me']);
+      mockLeaderboardRepository.findTopExperience
+        .mockResolvedValueOnce([
+          { user_id: 'b', value: 40 },
+          { user_id: 'c', value: 30 },
+          { user_id: 'd', value: 20 },
+          { user_id: 'e', value: 10 },
+        ])
+        .mockResolvedValueOnce([]);
+
+      const league = await leaderboardService.getLeague('me', now);
+
+      expect(league.tier).toBe('bronze');
+    });
+
+    it('should keep the last tier after skipping a week', async () => {
+      mockLeaderboardRepository.findLatestLeagueMembership.mockResolvedValue({
+        week_start: new Date('2025-05-12T00:00:00.000Z'),
+        tier: 'sapphire',
+      });
+      mockLeaderboardRepository.findLeagueMemberIds.mockResolvedValue(['me']);
+      mockLeaderboardRepository.findTopExperience.mockResolvedValue([]);
+
+      const league = await leaderboardService.getLeague('me', now);
+
+      expect(league.tier).toBe('sapphire');
+      expect(mockLeaderboardRepository.findLeagueMemberIds).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -6,7 +6,7 @@
 import { ProgressService } from '../services/progressService';
 import { ProgressRepository } from '../repositories/progressRepository';
 import { PrismaClient } from '@prisma/client';
-// No need to import AppError, HttpStatus, or ErrorCodes as we're not using them directly
+import { AppError } from '@/shared/middleware/errorHandler';
 import { mockDate } from '@/shared/test/utils/testUtils';
 
 // Mock Prisma client
@@ -28,7 +28,13 @@ const mockProgressRepository = {
   getLessonCompletionStats: jest.fn(),
   getProgressSummary: jest.fn(),
   upsertUserProgress: jest.fn(),
-  createMultipleLessonCompletions: jest.fn()
+  createMultipleLessonCompletions: jest.fn(),
+  findUserTimezone: jest.fn(),
+  findUserCreatedAt: jest.fn(),
+  findLivesConfig: jest.fn(),
+  updateLivesConfig: jest.fn(),
+  recordDailyActivity: jest.fn(),
+  findDailyActivities: jest.fn()
 } as unknown as ProgressRepository;
 
 // We don't need a separate mockLessonRepository since we're using mockPrisma.lesson
@@ -69,6 +75,14 @@ describe('ProgressService', () => {
     
     progressService = new ProgressService(mockProgressRepository, mockPrisma);
     jest.clearAllMocks();
+    (mockProgressRepository.findLivesConfig as jest.Mock).mockResolvedValue({
+      max_lives: 5,
+      regeneration_minutes: 30,
+      updated_at: null,
+    });
+    jest.spyOn((progressService as any).unlockRuleService, 'assertLessonUnlocked').mockResolvedValue(undefined);
+    jest.spyOn((progressService as any).enrollmentService, 'recordLessonCompletions').mockResolvedValue(undefined);
+    jest.spyOn((progressService as any).enrollmentService, 'canPlayLesson').mockResolvedValue(true);
   });
 
   afterEach(() => {
@@ -147,31 +161,86 @@ describe('ProgressService', () => {
   });
 
   describe('calculateStreak', () => {
-    it('should calculate streak correctly', () => {
+    // Calendar day arithmetic needs real Date values rather than the fixed mocked instant
+    beforeEach(() => {
+      dateMock.restore();
+    });
+
+    const buildProgress = (overrides = {}) => ({
+      user_id: 'user-123',
+      experience_points: 100,
+      lives_current: 5,
+      streak_current: 5,
+      longest_streak: 5,
+      streak_freezes: 0,
+      last_streak_date: new Date('2025-01-01T00:00:00Z'),
+      last_completed_lesson_id: 'lesson-1',
+      last_activity_date: new Date('2025-01-01T12:00:00Z'),
+      updated_at: new Date(),
+      ...overrides,
+    });
+
+    it('should count calendar days instead of completions', () => {
       const service = progressService as any;
-      const now = new Date();
-      const yesterday = dateMock.helpers.yesterday();
-      const twoDaysAgo = new Date(now.getTime() - 2 * 24 * 60 * 60 * 1000);
+      const progress = buildProgress();
 
-      const currentProgress = {
-        user_id: 'user-123',
-        experience_points: 100,
-        lives_current: 5,
-        streak_current: 5,
-        last_completed_lesson_id: 'lesson-1',
-        last_activity_date: yesterday,
-        updated_at: new Date(),
-      };
+      // Same day - streak unchanged
+      expect(service.calculateStreak(progress, '2025-01-01', 'UTC')).toMatchObject({ streak_current: 5 });
+
+      // Next day - increment streak
+      expect(service.calculateStreak(progress, '2025-01-02', 'UTC')).toMatchObject({
+        streak_current: 6,
+        longest_streak: 6,
+        last_streak_date: '2025-01-02',
+      });
+
+      // Missed a day without freezes - reset to 1
+      expect(service.calculateStreak(progress, '2025-01-03', 'UTC')).toMatchObject({
+        streak_current: 1,
+        longest_streak: 5,
+      });
+    });
 
-      // Test consecutive day - should increment streak
-      expect(service.calculateStreak(currentProgress, now)).toBe(6);
+    it('should consume streak freezes to cover missed days', () => {
+      const service = progressService as any;
+      const progress = buildProgress({ streak_freezes: 2 });
+
+      expect(service.calculateStreak(progress, '2025-01-04', 'UTC')).toEqual({
+        streak_current: 6,
+        longest_streak: 6,
+        streak_freezes: 0,
+        last_streak_date: '2025-01-04',
+        frozen_days: ['2025-01-02', '2025-01-03'],
+      });
+
+      // Not enough freezes for three missed days
+      expect(service.calculateStreak(progress, '2025-01-05', 'UTC')).toMatchObject({
+        streak_current: 1,
+        streak_freezes: 2,
+        frozen_days: [],
+      });
+    });
+
+    it('should earn a streak freeze at every seven-day milestone', () => {
+      const service = progressService as any;
+      const progress = buildProgress({ streak_current: 6, streak_freezes: 1 });
+
+      expect(service.calculateStreak(progress, '2025-01-02', 'UTC')).toMatchObject({
+        streak_current: 7,
+        streak_freezes: 2,
+      });
+    });
 
-      // Test same day - should increment streak
-      expect(service.calculateStreak(currentProgress, yesterday)).toBe(6);
+    it('should fall back to the last activity date in the learner timezone for older records', () => {
+      const service = progressService as any;
+      // 02:00 UTC on Jan 2 is still Jan 1 in Lima (UTC-5)
+      const progress = buildProgress({
+        last_streak_date: null,
+        last_activity_date: new Date('2025-01-02T02:00:00Z'),
+      });
 
-      // Test streak broken - should reset to 1
-      currentProgress.last_activity_date = twoDaysAgo;
-      expect(service.calculateStreak(currentProgress, now)).toBe(1);
+      expect(service.calculateStreak(progress, '2025-01-02', 'America/Lima')).toMatchObject({ streak_current: 6 });
+      expect(service.calculateStreak(progress, '2025-01-02', 'UTC')).toMatchObject({ streak_current: 5 });
     });
   });
 
@@ -181,6 +250,7 @@ describe('ProgressService', () => {
       const userId = 'test-user-id';
       const lessonId = 'test-lesson-id';
       const score = 90;
+      const answers = [{ exercise_id: 'vof-001', answer: { value: true } }];
       const timeSpentSeconds = 120;
       const experiencePoints = 10;
 
@@ -223,11 +293,14 @@ describe('ProgressService', () => {
       (mockProgressRepository.updateUserProgress as jest.Mock).mockResolvedValue(updatedProgress);
       (mockPrisma.lesson.findUnique as jest.Mock).mockResolvedValue(lesson);
 
+      jest.spyOn((progressService as any).exerciseGradingService, 'gradeLessonAttempt')
+        .mockResolvedValue({ lesson_id: lessonId, score, correct_count: 1, gradable_count: 1, results: [] });
+
       // Mock the lesson service to return experience points
       jest.spyOn(progressService as any, 'calculateExperiencePoints').mockReturnValue(experiencePoints);
 
       // Act
-      const result = await progressService.completeLesson(userId, { lesson_id: lessonId, score, time_spent_seconds: timeSpentSeconds });
+      const result = await progressService.completeLesson(userId, { lesson_id: lessonId, answers, time_spent_seconds: timeSpentSeconds });
 
       // Assert
       expect(mockProgressRepository.findUserProgressByUserId).toHaveBeenCalledWith(userId);
@@ -237,11 +310,13 @@ describe('ProgressService', () => {
         lesson_id: lessonId,
         score,
         time_spent_seconds: timeSpentSeconds,
+        experience_gained: experiencePoints,
       });
       expect(mockProgressRepository.updateUserProgress).toHaveBeenCalledWith(userId, expect.objectContaining({
         experience_points: userProgress.experience_points + experiencePoints,
         last_completed_lesson_id: lessonId
       }));
+      expect((progressService as any).enrollmentService.recordLessonCompletions).toHaveBeenCalledWith(userId, [lessonId]);
       expect(result).toEqual({
         progress: updatedProgress,
         completion: lessonCompletion,
@@ -249,11 +324,158 @@ describe('ProgressService', () => {
       });
     });
 
+    it('should grade the submitted answers', async () => {
+      // Arrange
+      const userId = 'test-user-id';
+      const lessonId = 'test-lesson-id';
+      const answers = [{ exercise_id: 'vof-001', answer: { value: true } }];
+
+      const userProgress = {
+        user_id: userId,
+        experience_points: 100,
+        lives_current: 5,
+        streak_current: 3,
+        last_completed_lesson_id: null,
+        last_activity_date: new Date(),
+        updated_at: new Date()
+      };
+
+      (mockProgressRepository.findUserProgressByUserId as jest.Mock).mockResolvedValue(userProgress);
+      (mockProgressRepository.findLessonCompletion as jest.Mock).mockResolvedValue(null);
+      (mockProgressRepository.createLessonCompletion as jest.Mock).mockResolvedValue({});
+      (mockProgressRepository.updateUserProgress as jest.Mock).mockResolvedValue(userProgress);
+      (mockPrisma.lesson.findUnique as jest.Mock).mockResolvedValue({ moduleId: 'test-module-id', experiencePoints: 10 });
+
+      const gradeSpy = jest
+        .spyOn((progressService as any).exerciseGradingService, 'gradeLessonAttempt')
+        .mockResolvedValue({ lesson_id: lessonId, score: 40, correct_count: 2, gradable_count: 5, results: [] });
+
+      // Act
+      await progressService.completeLesson(userId, { lesson_id: lessonId, answers });
+
+      // Assert
+      // Attempts are recorded while playing, not again when completing
+      expect(gradeSpy).toHaveBeenCalledWith(lessonId, answers);
+      expect(mockProgressRepository.createLessonCompletion).toHaveBeenCalledWith(expect.objectContaining({
+        score: 40,
+      }));
+      // Three wrong answers cost three lives
+      expect(mockProgressRepository.updateUserProgress).toHaveBeenCalledWith(userId, expect.objectContaining({
+        lives_current: 2,
+      }));
+    });
+
+    it('should require answers for lessons with gradable exercises', async () => {
+      const userId = 'test-user-id';
+      const lessonId = 'test-lesson-id';
+
+      (mockProgressRepository.findUserProgressByUserId as jest.Mock).mockResolvedValue({
+        user_id: userId,
+        experience_points: 100,
+        lives_current: 5,
+        streak_current: 3,
+        last_activity_date: new Date(),
+        updated_at: new Date()
+      });
+      (mockProgressRepository.findLessonCompletion as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.lesson.findUnique as jest.Mock).mockResolvedValue({ moduleId: 'test-module-id', experiencePoints: 10 });
+      jest.spyOn((progressService as any).exerciseGradingService, 'gradeLessonAttempt')
+        .mockResolvedValue({ lesson_id: lessonId, score: 0, correct_count: 0, gradable_count: 3, results: [] });
+
+      await expect(
+        progressService.completeLesson(userId, { lesson_id: lessonId, time_spent_seconds: 60 })
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(mockProgressRepository.createLessonCompletion).not.toHaveBeenCalled();
+      expect(mockProgressRepository.updateUserProgress).not.toHaveBeenCalled();
+    });
+
+    it('should complete lessons without gradable exercises without a score', async () => {
+      const userId = 'test-user-id';
+      const lessonId = 'test-lesson-id';
+      const userProgress = {
+        user_id: userId,
+        experience_points: 100,
+        lives_current: 5,
+        streak_current: 3,
+        last_activity_date: new Date(),
+        updated_at: new Date()
+      };
+
+      (mockProgressRepository.findUserProgressByUserId as jest.Mock).mockResolvedValue(userProgress);
+      (mockProgressRepository.findLessonCompletion as jest.Mock).mockResolvedValue(null);
+      (mockProgressRepository.createLessonCompletion as jest.Mock).mockResolvedValue({});
+      (mockProgressRepository.updateUserProgress as jest.Mock).mockResolvedValue(userProgress);
+      (mockPrisma.lesson.findUnique as jest.Mock).mockResolvedValue({ moduleId: 'test-module-id', experiencePoints: 10 });
+      jest.spyOn((progressService as any).exerciseGradingService, 'gradeLessonAttempt')
+        .mockResolvedValue({ lesson_id: lessonId, score: 100, correct_count: 0, gradable_count: 0, results: [] });
+
+      const result = await progressService.completeLesson(userId, { lesson_id: lessonId });
+
+      expect(mockProgressRepository.createLessonCompletion).toHaveBeenCalledWith(expect.objectContaining({
+        score: undefined,
+        experience_gained: 10,
+      }));
+      expect(result.experienceGained).toBe(10);
+    });
+
+    it('should reject lessons locked by unlock rules', async () => {
+      const userId = 'test-user-id';
+      const lessonId = 'test-lesson-id';
+
+      (mockProgressRepository.findLessonCompletion as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.lesson.findUnique as jest.Mock).mockResolvedValue({ moduleId: 'test-module-id', experiencePoints: 10 });
+      const assertSpy = jest.spyOn((progressService as any).unlockRuleService, 'assertLessonUnlocked')
+        .mockRejectedValue(new AppError('Lesson is locked', 403, 'AUTHORIZATION_ERROR'));
+
+      await expect(
+        progressService.completeLesson(userId, { lesson_id: lessonId })
+      ).rejects.toMatchObject({ statusCode: 403 });
+      expect(assertSpy).toHaveBeenCalledWith(userId, lessonId);
+      expect(mockProgressRepository.createLessonCompletion).not.toHaveBeenCalled();
+    });
+
+    it('should reject lessons of private courses the user has not joined', async () => {
+      const userId = 'test-user-id';
+      const lessonId = 'test-lesson-id';
+
+      (mockPrisma.lesson.findUnique as jest.Mock).mockResolvedValue({ moduleId: 'test-module-id', experiencePoints: 10 });
+      const canPlaySpy = jest.spyOn((progressService as any).enrollmentService, 'canPlayLesson').mockResolvedValue(false);
+
+      await expect(
+        progressService.completeLesson(userId, { lesson_id: lessonId })
+      ).rejects.toMatchObject({ statusCode: 403 });
+      expect(canPlaySpy).toHaveBeenCalledWith(userId, lessonId);
+      expect(mockProgressRepository.createLessonCompletion).not.toHaveBeenCalled();
+    });
+
+    it('should reject graded answers when no lives are left', async () => {
+      const userId = 'test-user-id';
+      const lessonId = 'test-lesson-id';
+
+      (mockProgressRepository.findUserProgressByUserId as jest.Mock).mockResolvedValue({
+        user_id: userId,
+        experience_points: 100,
+        lives_current: 0,
+        lives_updated_at: new Date(),
+        streak_current: 3,
+        last_activity_date: new Date(),
+        updated_at: new Date()
+      });
+      (mockProgressRepository.findLessonCompletion as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.lesson.findUnique as jest.Mock).mockResolvedValue({ moduleId: 'test-module-id', experiencePoints: 10 });
+      const gradeSpy = jest.spyOn((progressService as any).exerciseGradingService, 'gradeLessonAttempt');
+
+      await expect(
+        progressService.completeLesson(userId, { lesson_id: lessonId, answers: [{ exercise_id: 'vof-001', answer: { value: true } }] })
+      ).rejects.toMatchObject({ statusCode: 403 });
+      expect(gradeSpy).not.toHaveBeenCalled();
+      expect(mockProgressRepository.createLessonCompletion).not.toHaveBeenCalled();
+    });
+
     it('should throw error when lesson already completed', async () => {
       // Arrange
       const userId = 'test-user-id';
       const lessonId = 'test-lesson-id';
-      const score = 95; // Improved score
       const timeSpentSeconds = 100; // Faster completion
 
       const userProgress = {
@@ -288,7 +510,7 @@ describe('ProgressService', () => {
       (mockPrisma.lesson.findUnique as jest.Mock).mockResolvedValue(lesson);
 
       // Act & Assert
-      await expect(progressService.completeLesson(userId, { lesson_id: lessonId, score, time_spent_seconds: timeSpentSeconds }))
+      await expect(progressService.completeLesson(userId, { lesson_id: lessonId, time_spent_seconds: timeSpentSeconds }))
         .rejects.toThrow('Lesson already completed');
     });
 
@@ -297,6 +519,7 @@ describe('ProgressService', () => {
       const userId = 'new-user-id';
       const lessonId = 'test-lesson-id';
       const score = 90;
+      const answers = [{ exercise_id: 'vof-001', answer: { value: true } }];
       const timeSpentSeconds = 120;
       const experiencePoints = 10;
 
@@ -344,11 +567,14 @@ describe('ProgressService', () => {
       (mockProgressRepository.updateUserProgress as jest.Mock).mockResolvedValue(updatedProgress);
       (mockPrisma.lesson.findUnique as jest.Mock).mockResolvedValue(lesson);
 
+      jest.spyOn((progressService as any).exerciseGradingService, 'gradeLessonAttempt')
+        .mockResolvedValue({ lesson_id: lessonId, score, correct_count: 1, gradable_count: 1, results: [] });
+
       // Mock the lesson service to return experience points
       jest.spyOn(progressService as any, 'calculateExperiencePoints').mockReturnValue(experiencePoints);
 
       // Act
-      const result = await progressService.completeLesson(userId, { lesson_id: lessonId, score, time_spent_seconds: timeSpentSeconds });
+      const result = await progressService.completeLesson(userId, { lesson_id: lessonId, answers, time_spent_seconds: timeSpentSeconds });
 
       // Assert
       expect(mockProgressRepository.createUserProgress).toHaveBeenCalledWith({
@@ -365,6 +591,149 @@ describe('ProgressService', () => {
     });
   });
 
+  describe('lives regeneration', () => {
+    const now = new Date('2025-01-01T00:00:00Z');
+    const config = { max_lives: 5, regeneration_minutes: 30, updated_at: null };
+    const buildProgress = (overrides = {}) => ({
+      user_id: 'user-123',
+      experience_points: 0,
+      lives_current: 2,
+      lives_updated_at: new Date(now.getTime() - 70 * 60 * 1000),
+      streak_current: 0,
+      longest_streak: 0,
+      streak_freezes: 0,
+      last_activity_date: now,
+      updated_at: now,
+      ...overrides,
+    });
+
+    it('should restore one life per interval and keep the partial interval', () => {
+      const service = progressService as any;
+
+      // 70 minutes at 30 minutes per life: two lives, 10 minutes towards the next one
+      expect(service.regenerateLives(buildProgress(), config, now)).toEqual({
+        lives_current: 4,
+        lives_updated_at: new Date(now.getTime() - 10 * 60 * 1000),
+        next_life_at: new Date(now.getTime() + 20 * 60 * 1000),
+      });
+    });
+
+    it('should stop at the configured maximum', () => {
+      const service = progressService as any;
+
+      expect(service.regenerateLives(buildProgress({ lives_current: 8 }), config, now)).toEqual({
+        lives_current: 5,
+        lives_updated_at: now,
+        next_life_at: null,
+      });
+      expect(service.regenerateLives(buildProgress({ lives_current: 4 }), config, now)).toMatchObject({
+        lives_current: 5,
+        next_life_at: null,
+      });
+    });
+
+    it('should start the regeneration clock when losing a life at full lives', () => {
+      const service = progressService as any;
+
+      expect(service.applyLivesChange(buildProgress({ lives_current: 5 }), -1, config, now)).toEqual({
+        lives_current: 4,
+        lives_updated_at: now,
+      });
+      expect(service.applyLivesChange(buildProgress({ lives_current: 1, lives_updated_at: now }), -3, config, now)).toEqual({
+        lives_current: 0,
+        lives_updated_at: now,
+      });
+    });
+  });
+
+  describe('purchaseStreakFreeze', () => {
+    const progress = {
+      user_id: 'user-123',
+      experience_points: 250,
+      lives_current: 5,
+      streak_current: 4,
+      longest_streak: 4,
+      streak_freezes: 0,
+      last_activity_date: new Date(),
+      updated_at: new Date(),
+    };
+
+    beforeEach(() => {
+      // Drop one-off values queued by earlier tests
+      (mockProgressRepository.findUserProgressByUserId as jest.Mock).mockReset();
+    });
+
+    it('should spend experience points on a streak freeze', async () => {
+      (mockProgressRepository.findUserProgressByUserId as jest.Mock).mockResolvedValue(progress);
+      (mockProgressRepository.updateUserProgress as jest.Mock).mockResolvedValue({ ...progress, streak_freezes: 1 });
+
+      await progressService.purchaseStreakFreeze('user-123');
+
+      expect(mockProgressRepository.updateUserProgress).toHaveBeenCalledWith('user-123', {
+        experience_points: 150,
+        streak_freezes: 1,
+      });
+    });
+
+    it('should reject purchases above the freeze limit or without enough experience', async () => {
+      (mockProgressRepository.findUserProgressByUserId as jest.Mock).mockResolvedValueOnce({ ...progress, streak_freezes: 2 });
+      await expect(progressService.purchaseStreakFreeze('user-123')).rejects.toMatchObject({ statusCode: 409 });
+
+      (mockProgressRepository.findUserProgressByUserId as jest.Mock).mockResolvedValueOnce({ ...progress, experience_points: 50 });
+      await expect(progressService.purchaseStreakFreeze('user-123')).rejects.toMatchObject({ statusCode: 422 });
+
+      expect(mockProgressRepository.updateUserProgress).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getStreakHistory', () => {
+    beforeEach(() => {
+      dateMock.restore();
+      jest.useFakeTimers().setSystemTime(new Date('2025-03-10T03:00:00Z'));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should default to the last 365 days in the learner timezone and report lost streaks as 0', async () => {
+      (mockProgressRepository.findUserProgressByUserId as jest.Mock).mockResolvedValue({
+        user_id: 'user-123',
+        experience_points: 0,
+        lives_current: 5,
+        streak_current: 9,
+        longest_streak: 12,
+        streak_freezes: 1,
+        last_streak_date: new Date('2025-03-06T00:00:00Z'),
+        last_activity_date: new Date('2025-03-06T15:00:00Z'),
+        updated_at: new Date(),
+      });
+      (mockProgressRepository.findUserTimezone as jest.Mock).mockResolvedValue('America/Lima');
+      (mockProgressRepository.findDailyActivities as jest.Mock).mockResolvedValue([]);
+
+      const history = await progressService.getStreakHistory('user-123', {});
+
+      // 03:00 UTC on Mar 10 is still Mar 9 in Lima; Mar 7 and 8 were missed with a single freeze
+      expect(mockProgressRepository.findDailyActivities).toHaveBeenCalledWith('user-123', '2024-03-10', '2025-03-09');
+      expect(history).toMatchObject({ timezone: 'America/Lima', current_streak: 0, longest_streak: 12, streak_freezes: 1 });
+    });
+
+    it('should reject ranges longer than 366 days', async () => {
+      (mockProgressRepository.findUserProgressByUserId as jest.Mock).mockResolvedValue({
+        user_id: 'user-123',
+        streak_current: 0,
+        longest_streak: 0,
+        streak_freezes: 0,
+        last_activity_date: new Date(),
+      });
+      (mockProgressRepository.findUserTimezone as jest.Mock).mockResolvedValue('UTC');
+
+      await expect(
+        progressService.getStreakHistory('user-123', { from: '2023-01-01', to: '2025-01-01' })
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
   describe('getUserLessonCompletions', () => {
     it('should return user lesson completions', async () => {
       // Arrange
@@ -416,13 +785,12 @@ describe('ProgressService', () => {
           {
             lesson_id: 'lesson-1',
             completed_at: new Date().toISOString(),
-            score: 85,
             time_spent_seconds: 120,
+            answers: [{ exercise_id: 'vof-001', answer: { value: true } }],
           },
           {
             lesson_id: 'lesson-2',
             completed_at: new Date().toISOString(),
-            score: 90,
             time_spent_seconds: 150,
           },
         ],
@@ -471,16 +839,32 @@ describe('ProgressService', () => {
         })
       );
       (mockProgressRepository.updateUserProgress as jest.Mock).mockResolvedValue(updatedProgress);
+      // lesson-2 is made only of informative exercises
+      const gradeSpy = jest.spyOn((progressService as any).exerciseGradingService, 'gradeLessonAttempt')
+        .mockImplementation(async (lessonId) => lessonId === 'lesson-1'
+          ? { lesson_id: lessonId, score: 85, correct_count: 1, gradable_count: 1, results: [] }
+          : { lesson_id: lessonId, score: 0, correct_count: 0, gradable_count: 0, results: [] });
 
       // Act
       const result = await progressService.syncOfflineProgress(userId, offlineData);
 
       // Assert
       expect(mockPrisma.lesson.findUnique).toHaveBeenCalledTimes(2);
+      expect(gradeSpy).toHaveBeenCalledTimes(2);
       expect(mockProgressRepository.createLessonCompletion).toHaveBeenCalledTimes(2);
+      // Answers given offline are graded, completions without answers have no score
+      expect(mockProgressRepository.createLessonCompletion).toHaveBeenCalledWith(expect.objectContaining({
+        lesson_id: 'lesson-1',
+        score: 85,
+      }));
+      expect(mockProgressRepository.createLessonCompletion).toHaveBeenCalledWith(expect.objectContaining({
+        lesson_id: 'lesson-2',
+        score: undefined,
+      }));
       expect(result).toEqual({
         synced_completions: 2,
         skipped_duplicates: 0,
+        skipped_completions: [],
         updated_progress: updatedProgress
       });
     });
@@ -511,6 +895,7 @@ describe('ProgressService', () => {
       expect(result).toEqual({
         synced_completions: 0,
         skipped_duplicates: 0,
+        skipped_completions: [],
         updated_progress: userProgress
       });
     });
@@ -523,13 +908,11 @@ describe('ProgressService', () => {
           {
             lesson_id: 'lesson-1',
             completed_at: new Date().toISOString(),
-            score: 85,
             time_spent_seconds: 120,
           },
           {
             lesson_id: 'invalid-lesson',
             completed_at: new Date().toISOString(),
-            score: 90,
             time_spent_seconds: 150,
           },
         ],
@@ -583,6 +966,8 @@ describe('ProgressService', () => {
         }
       );
       (mockProgressRepository.updateUserProgress as jest.Mock).mockResolvedValue(updatedProgress);
+      jest.spyOn((progressService as any).exerciseGradingService, 'gradeLessonAttempt')
+        .mockResolvedValue({ lesson_id: 'lesson-1', score: 0, correct_count: 0, gradable_count: 0, results: [] });
 
       // Act
       const result = await progressService.syncOfflineProgress(userId, offlineData);
@@ -593,8 +978,184 @@ describe('ProgressService', () => {
       expect(result).toEqual({
         synced_completions: 1,
         skipped_duplicates: 0,
+        skipped_completions: [
+          { lesson_id: 'invalid-lesson', completed_at: offlineData.completions[1]!.completed_at, reason: 'lesson_not_found' },
+        ],
         updated_progress: updatedProgress
       });
     });
+
+    it('should skip lessons of private courses the user has not joined', async () => {
+      const userId = 'test-user-id';
+      const offlineData = {
+        completions: [
+          {
+            lesson_id: 'private-lesson',
+            completed_at: new Date().toISOString(),
+            time_spent_seconds: 120,
+          },
+        ],
+        last_sync_timestamp: new Date().toISOString()
+      };
+
+      (mockPrisma.lesson.findUnique as jest.Mock).mockResolvedValue({ id: 'private-lesson', experiencePoints: 10 });
+      (mockProgressRepository.findUserProgressByUserId as jest.Mock).mockResolvedValue({
+        user_id: userId,
+        experience_points: 100,
+        lives_current: 5,
+        streak_current: 3,
+        last_activity_date: new Date(),
+        updated_at: new Date()
+      });
+      (mockProgressRepository.updateUserProgress as jest.Mock).mockImplementation(async (_userId, updates) => updates);
+      jest.spyOn((progressService as any).enrollmentService, 'canPlayLesson').mockResolvedValue(false);
+
+      const result = await progressService.syncOfflineProgress(userId, offlineData);
+
+      expect(mockProgressRepository.createLessonCompletion).not.toHaveBeenCalled();
+      expect(result.synced_completions).toBe(0);
+      expect(result.skipped_completions).toEqual([
+        { lesson_id: 'private-lesson', completed_at: offlineData.completions[0]!.completed_at, reason: 'course_not_joined' },
+      ]);
+    });
+
+    it('should skip locked lessons, counting the completions synced before them', async () => {
+      const userId = 'test-user-id';
+      const offlineData = {
+        completions: [
+          { lesson_id: 'lesson-2', completed_at: '2024-12-31T11:00:00.000Z' },
+          { lesson_id: 'lesson-1', completed_at: '2024-12-31T10:00:00.000Z' },
+          { lesson_id: 'lesson-3', completed_at: '2024-12-31T12:00:00.000Z' },
+        ],
+        last_sync_timestamp: '2024-12-31T09:00:00.000Z'
+      };
+
+      (mockPrisma.lesson.findUnique as jest.Mock).mockImplementation(async ({ where }) => ({ id: where.id, experiencePoints: 10 }));
+      (mockProgressRepository.findUserProgressByUserId as jest.Mock).mockResolvedValue({
+        user_id: userId,
+        experience_points: 100,
+        lives_current: 5,
+        streak_current: 0,
+        last_activity_date: new Date(),
+        updated_at: new Date()
+      });
+      (mockProgressRepository.findLessonCompletion as jest.Mock).mockResolvedValue(null);
+      (mockProgressRepository.createLessonCompletion as jest.Mock).mockImplementation(async (data) => data);
+      (mockProgressRepository.updateUserProgress as jest.Mock).mockImplementation(async (_userId, updates) => updates);
+      jest.spyOn((progressService as any).exerciseGradingService, 'gradeLessonAttempt')
+        .mockResolvedValue({ lesson_id: 'lesson-1', score: 0, correct_count: 0, gradable_count: 0, results: [] });
+      const unlockSpy = jest.spyOn((progressService as any).unlockRuleService, 'assertLessonUnlocked')
+        .mockImplementation(async (_userId, lessonId) => {
+          if (lessonId === 'lesson-3') {
+            throw new AppError('Lesson is locked', 403, 'AUTHORIZATION_ERROR');
+          }
+        });
+
+      const result = await progressService.syncOfflineProgress(userId, offlineData);
+
+      // lesson-2 is checked after lesson-1 was synced, with the experience it earned
+      expect(unlockSpy.mock.calls).toEqual([
+        [userId, 'lesson-1', 0],
+        [userId, 'lesson-2', 10],
+        [userId, 'lesson-3', 20],
+      ]);
+      expect(result.synced_completions).toBe(2);
+      expect(result.skipped_completions).toEqual([
+        { lesson_id: 'lesson-3', completed_at: '2024-12-31T12:00:00.000Z', reason: 'lesson_locked' },
+      ]);
+      expect(mockProgressRepository.updateUserProgress).toHaveBeenCalledWith(userId, expect.objectContaining({
+        experience_points: 120,
+        last_completed_lesson_id: 'lesson-2',
+      }));
+    });
+
+    it('should skip completions dated before the account was created', async () => {
+      // Comparing completion dates needs real Date values rather than the fixed mocked instant
+      dateMock.restore();
+      const userId = 'test-user-id';
+      (mockProgressRepository.findUserCreatedAt as jest.Mock).mockResolvedValue(new Date('2024-06-01T00:00:00Z'));
+      (mockProgressRepository.findUserProgressByUserId as jest.Mock).mockResolvedValue({
+        user_id: userId,
+        experience_points: 100,
+        lives_current: 5,
+        streak_current: 0,
+        last_activity_date: new Date(),
+        updated_at: new Date()
+      });
+
+      const result = await progressService.syncOfflineProgress(userId, {
+        completions: [{ lesson_id: 'lesson-1', completed_at: '2020-01-01T00:00:00.000Z' }],
+        last_sync_timestamp: '2020-01-01T00:00:00.000Z'
+      });
+
+      expect(mockPrisma.lesson.findUnique).not.toHaveBeenCalled();
+      expect(mockProgressRepository.recordDailyActivity).not.toHaveBeenCalled();
+      expect(result.skipped_completions).toEqual([
+        { lesson_id: 'lesson-1', completed_at: '2020-01-01T00:00:00.000Z', reason: 'before_account_creation' },
+      ]);
+    });
+
+    describe('graded completions', () => {
+      const userId = 'test-user-id';
+      const completedAt = '2024-12-31T10:00:00.000Z';
+
+      beforeEach(() => {
+        (mockPrisma.lesson.findUnique as jest.Mock).mockImplementation(async ({ where }) => ({ id: where.id, experiencePoints: 10 }));
+        (mockProgressRepository.findLessonCompletion as jest.Mock).mockResolvedValue(null);
+        (mockProgressRepository.createLessonCompletion as jest.Mock).mockImplementation(async (data) => data);
+        (mockProgressRepository.updateUserProgress as jest.Mock).mockImplementation(async (_userId, updates) => updates);
+        jest.spyOn((progressService as any).exerciseGradingService, 'gradeLessonAttempt')
+          .mockResolvedValue({ lesson_id: 'lesson-1', score: 50, correct_count: 1, gradable_count: 2, results: [] });
+      });
+
+      const syncProgress = (livesCurrent: number, answers?: { exercise_id: string; answer: Record<string, unknown> }[]) => {
+        (mockProgressRepository.findUserProgressByUserId as jest.Mock).mockResolvedValue({
+          user_id: userId,
+          experience_points: 100,
+          lives_current: livesCurrent,
+          lives_updated_at: new Date(),
+          streak_current: 0,
+          last_activity_date: new Date(),
+          updated_at: new Date()
+        });
+        return progressService.syncOfflineProgress(userId, {
+          completions: [{ lesson_id: 'lesson-1', completed_at: completedAt, ...(answers && { answers }) }],
+          last_sync_timestamp: completedAt
+        });
+      };
+
+      it('should skip completions without answers of lessons with gradable exercises', async () => {
+        const result = await syncProgress(5);
+
+        expect(mockProgressRepository.createLessonCompletion).not.toHaveBeenCalled();
+        expect(mockProgressRepository.updateUserProgress).not.toHaveBeenCalled();
+        expect(result.synced_completions).toBe(0);
+        expect(result.skipped_completions).toEqual([
+          { lesson_id: 'lesson-1', completed_at: completedAt, reason: 'answers_required' },
+        ]);
+      });
+
+      it('should take a life for each wrong answer given offline', async () => {
+        const result = await syncProgress(5, [
+          { exercise_id: 'vof-001', answer: { value: true } },
+          { exercise_id: 'vof-002', answer: { value: true } },
+        ]);
+
+        expect(result.synced_completions).toBe(1);
+        expect(mockProgressRepository.updateUserProgress).toHaveBeenCalledWith(userId, expect.objectContaining({
+          lives_current: 4,
+          lives_updated_at: new Date('2025-01-01T00:00:00Z'),
+        }));
+      });
+
+      it('should skip graded completions when no lives are left', async () => {
+        const result = await syncProgress(0, [{ exercise_id: 'vof-001', answer: { value: true } }]);
+
+        expect(mockProgressRepository.createLessonCompletion).not.toHaveBeenCalled();
+        expect(result.skipped_completions).toEqual([
+          { lesson_id: 'lesson-1', completed_at: completedAt, reason: 'no_lives' },
+        ]);
+      });
+    });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,155 @@
+/**
+ * Review Service Tests
+ * Unit tests for spaced-repetition scheduling and review queue assembly
+ */
+
+import { ReviewService } from '../services/reviewService';
+import { ReviewRepository } from '../repositories/reviewRepository';
+import { ExerciseReviewState } from '../types';
+import { PrismaClient } from '@prisma/client';
+
+const mockPrisma = {} as unknown as PrismaClient;
+
+const mockReviewRepository = {
+  findReviewState: jest.fn(),
+  findDueReviewItems: jest.fn(),
+  countDueReviews: jest.fn(),
+  findNewReviewItems: jest.fn(),
+  findCompletedLessonIdsWithExercise: jest.fn(),
+  saveReview: jest.fn(),
+} as unknown as ReviewRepository;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('ReviewService', () => {
+  let reviewService: ReviewService;
+  let canPlayLesson: jest.SpyInstance;
+
+  const buildState = (overrides: Partial<ExerciseReviewState> = {}): ExerciseReviewState => ({
+    user_id: 'user-123',
+    exercise_id: 'vof-001',
+    ease_factor: 2.5,
+    interval_days: 6,
+    repetitions: 2,
+    lapses: 0,
+    due_at: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    reviewService = new ReviewService(mockReviewRepository, mockPrisma);
+    (mockReviewRepository.saveReview as jest.Mock).mockImplementation(async (state) => state);
+    (mockReviewRepository.findCompletedLessonIdsWithExercise as jest.Mock).mockResolvedValue(['lesson-001']);
+    canPlayLesson = jest
+      .spyOn((reviewService as any).enrollmentService, 'canPlayLesson')
+      .mockResolvedValue(true) as jest.SpyInstance;
+  });
+
+  describe('recordReview', () => {
+    it('should schedule a first successful review for the next day', async () => {
+      (mockReviewRepository.findReviewState as jest.Mock).mockResolvedValue(null);
+
+      const before = Date.now();
+      const { state, quality } = await reviewService.recordReview('user-123', 'vof-001', { quality: 5 });
+
+      expect(quality).toBe(5);
+      expect(state.repetitions).toBe(1);
+      expect(state.interval_days).toBe(1);
+      expect(state.ease_factor).toBe(2.6);
+      expect(state.due_at.getTime()).toBeGreaterThanOrEqual(before + DAY_MS);
+      expect(mockReviewRepository.saveReview).toHaveBeenCalledWith(expect.any(Object), 5);
+    });
+
+    it('should use 6 days after the first repetition and multiply by the ease factor afterwards', async () => {
+      (mockReviewRepository.findReviewState as jest.Mock).mockResolvedValueOnce(
+        buildState({ repetitions: 1, interval_days: 1 })
+      );
+      const second = await reviewService.recordReview('user-123', 'vof-001', { quality: 4 });
+      expect(second.state.interval_days).toBe(6);
+
+      (mockReviewRepository.findReviewState as jest.Mock).mockResolvedValueOnce(buildState());
+      const third = await reviewService.recordReview('user-123', 'vof-001', { quality: 4 });
+      expect(third.state.interval_days).toBe(15);
+      expect(third.state.repetitions).toBe(3);
+    });
+
+    it('should reset repetitions and count a lapse on failed recall', async () => {
+      (mockReviewRepository.findReviewState as jest.Mock).mockResolvedValue(buildState({ ease_factor: 1.4 }));
+
+      const { state } = await reviewService.recordReview('user-123', 'vof-001', { quality: 1 });
+
+      expect(state.repetitions).toBe(0);
+      expect(state.interval_days).toBe(1);
+      expect(state.lapses).toBe(1);
+      expect(state.ease_factor).toBe(1.3);
+    });
+
+    it('should derive quality from a graded answer', async () => {
+      (mockReviewRepository.findReviewState as jest.Mock).mockResolvedValue(null);
+      const gradeExercise = jest
+        .spyOn((reviewService as any).exerciseGradingService, 'gradeExercise')
+        .mockResolvedValue({ exercise_id: 'vof-001', correct: false, score: 0.5, gradable: true, items: [] });
+
+      const result = await reviewService.recordReview('user-123', 'vof-001', { answer: { value: false } });
+
+      expect(gradeExercise).toHaveBeenCalledWith('vof-001', { value: false });
+      expect(result.quality).toBe(3);
+      expect(result.grading).toBeDefined();
+    });
+
+    it('should reject reviews without quality or answer', async () => {
+      await expect(reviewService.recordReview('user-123', 'vof-001', {})).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should reject reviews of exercises outside the learner\'s completed lessons', async () => {
+      (mockReviewRepository.findCompletedLessonIdsWithExercise as jest.Mock).mockResolvedValue([]);
+      const gradeExercise = jest.spyOn((reviewService as any).exerciseGradingService, 'gradeExercise');
+
+      await expect(
+        reviewService.recordReview('user-123', 'vof-001', { answer: { value: true } })
+      ).rejects.toMatchObject({ statusCode: 404 });
+
+      expect(mockReviewRepository.findCompletedLessonIdsWithExercise).toHaveBeenCalledWith('user-123', 'vof-001');
+      expect(gradeExercise).not.toHaveBeenCalled();
+      expect(mockReviewRepository.saveReview).not.toHaveBeenCalled();
+    });
+
+    it('should reject reviews when none of the completed lessons is in a readable course', async () => {
+      (mockReviewRepository.findCompletedLessonIdsWithExercise as jest.Mock).mockResolvedValue(['lesson-001', 'lesson-002']);
+      canPlayLesson.mockResolvedValue(false);
+
+      await expect(reviewService.recordReview('user-123', 'vof-001', { quality: 4 })).rejects.toMatchObject({ statusCode: 404 });
+
+      expect(canPlayLesson).toHaveBeenCalledTimes(2);
+      expect(mockReviewRepository.saveReview).not.toHaveBeenCalled();
+    });
+
+    it('should accept reviews when any completed lesson is in a readable course', async () => {
+      (mockReviewRepository.findCompletedLessonIdsWithExercise as jest.Mock).mockResolvedValue(['lesson-001', 'lesson-002']);
+      (mockReviewRepository.findReviewState as jest.Mock).mockResolvedValue(null);
+      canPlayLesson.mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+
+      const { quality } = await reviewService.recordReview('user-123', 'vof-001', { quality: 4 });
+
+      expect(quality).toBe(4);
+      expect(canPlayLesson).toHaveBeenCalledWith('user-123', 'lesson-002');
+      expect(mockReviewRepository.saveReview).toHaveBeenCalled();
+    });
+  });
+
+  describe('getReviewQueue', () => {
+    it('should fill remaining slots with new exercises after due reviews', async () => {
+      const dueItem = { exercise_id: 'vof-001', is_new: false };
+      const newItem = { exercise_id: 'pairs-001', is_new: true };
+      (mockReviewRepository.findDueReviewItems as jest.Mock).mockResolvedValue([dueItem]);
+      (mockReviewRepository.countDueReviews as jest.Mock).mockResolvedValue(1);
+      (mockReviewRepository.findNewReviewItems as jest.Mock).mockResolvedValue([newItem]);
+
+      const queue = await reviewService.getReviewQueue('user-123', { limit: 5, course_id: 'spanish-101' });
+
+      expect(mockReviewRepository.findNewReviewItems).toHaveBeenCalledWith('user-123', 4, 'spanish-101');
+      expect(queue).toEqual({ items: [dueItem, newItem], due_count: 1, new_count: 1 });
+    });
+  });
+});
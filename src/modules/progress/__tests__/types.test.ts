@@ -4,25 +4,32 @@
  */
 
 import {
+  MAX_LIVES_LIMIT,
   UpdateUserLivesSchema,
+  UpdateUserProgressSchema,
+  UpdateLivesConfigSchema,
   AwardBonusSchema,
   ResetProgressSchema,
+  OfflineProgressSyncSchema,
 } from '../types/index';
 
 describe('Progress Types Schema Validation', () => {
   describe('UpdateUserLivesSchema', () => {
+    const target_user_id = '123e4567-e89b-12d3-a456-426614174000';
+
     it('should validate valid lives_change input', () => {
-      const validInput = { lives_change: 5 };
+      const validInput = { target_user_id, lives_change: 5 };
       const result = UpdateUserLivesSchema.safeParse(validInput);
       
       expect(result.success).toBe(true);
       if (result.success) {
+        expect(result.data.target_user_id).toBe(target_user_id);
         expect(result.data.lives_change).toBe(5);
       }
     });
 
     it('should validate negative lives_change input', () => {
-      const validInput = { lives_change: -2 };
+      const validInput = { target_user_id, lives_change: -2 };
       const result = UpdateUserLivesSchema.safeParse(validInput);
       
       expect(result.success).toBe(true);
@@ -32,27 +39,57 @@ describe('Progress Types Schema Validation', () => {
     });
 
     it('should reject non-integer lives_change', () => {
-      const invalidInput = { lives_change: 3.5 };
+      const invalidInput = { target_user_id, lives_change: 3.5 };
       const result = UpdateUserLivesSchema.safeParse(invalidInput);
       
       expect(result.success).toBe(false);
     });
 
     it('should reject string lives_change', () => {
-      const invalidInput = { lives_change: "5" };
+      const invalidInput = { target_user_id, lives_change: "5" };
       const result = UpdateUserLivesSchema.safeParse(invalidInput);
       
       expect(result.success).toBe(false);
     });
 
     it('should reject missing lives_change', () => {
-      const invalidInput = {};
+      const invalidInput = { target_user_id };
+      const result = UpdateUserLivesSchema.safeParse(invalidInput);
+      
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject lives_change beyond the maximum lives limit', () => {
+      expect(UpdateUserLivesSchema.safeParse({ target_user_id, lives_change: MAX_LIVES_LIMIT + 1 }).success).toBe(false);
+      expect(UpdateUserLivesSchema.safeParse({ target_user_id, lives_change: -MAX_LIVES_LIMIT - 1 }).success).toBe(false);
+    });
+
+    it('should reject missing target_user_id', () => {
+      const invalidInput = { lives_change: 5 };
       const result = UpdateUserLivesSchema.safeParse(invalidInput);
       
       expect(result.success).toBe(false);
     });
   });
 
+  describe('UpdateUserProgressSchema', () => {
+    it('should strip lives_current so learners cannot set their own lives', () => {
+      const result = UpdateUserProgressSchema.safeParse({ experience_points: 100, lives_current: 50 });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual({ experience_points: 100 });
+      }
+    });
+  });
+
+  describe('UpdateLivesConfigSchema', () => {
+    it('should accept max_lives up to the maximum lives limit', () => {
+      expect(UpdateLivesConfigSchema.safeParse({ max_lives: MAX_LIVES_LIMIT }).success).toBe(true);
+      expect(UpdateLivesConfigSchema.safeParse({ max_lives: MAX_LIVES_LIMIT + 1 }).success).toBe(false);
+    });
+  });
+
   describe('AwardBonusSchema', () => {
     it('should validate valid bonus award input', () => {
       const validInput = {
@@ -219,4 +256,26 @@ describe('Progress Types Schema Validation', () => {
       expect(result.success).toBe(false);
     });
   });
-});
\ No newline at end of file
+
+  describe('OfflineProgressSyncSchema', () => {
+    const sync = (completedAt: Date) => ({
+      completions: [{ lesson_id: 'lesson-1', completed_at: completedAt.toISOString() }],
+      last_sync_timestamp: new Date().toISOString(),
+    });
+
+    it('should accept completions dated up to a few minutes ahead of the server clock', () => {
+      expect(OfflineProgressSyncSchema.safeParse(sync(new Date())).success).toBe(true);
+      expect(OfflineProgressSyncSchema.safeParse(sync(new Date(Date.now() + 60 * 1000))).success).toBe(true);
+    });
+
+    it('should reject completions dated in the future', () => {
+      const result = OfflineProgressSyncSchema.safeParse(sync(new Date(Date.now() + 24 * 60 * 60 * 1000)));
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]).toMatchObject({
+        path: ['completions', 0, 'completed_at'],
+        message: 'Completion date cannot be in the future',
+      });
+    });
+  });
+});
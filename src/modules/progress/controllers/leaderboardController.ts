@@ -0,0 +1,141 @@
+// src/modules/progress/controllers/leaderboardController.ts
+
+/**
+ * HTTP API controller for leaderboard and weekly league endpoints.
+ *
+ * This controller exposes experience and streak leaderboards and the authenticated learner's weekly
+ * league. It handles request/response concerns only, delegating ranking, time windows and league
+ * promotion rules to the LeaderboardService layer. All endpoints require authentication and include
+ * the caller's own position in the response.
+ *
+ * @module LeaderboardController
+ * @category Progress
+ * @category Controllers
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const leaderboardService = new LeaderboardService(leaderboardRepository);
+ * const leaderboardController = new LeaderboardController(leaderboardService);
+ *
+ * router.get('/progress/leaderboard', leaderboardController.getLeaderboard);
+ * router.get('/progress/leaderboard/league', leaderboardController.getLeague);
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { LeaderboardService } from '../services/leaderboardService';
+import { LeaderboardQuery } from '../types';
+import { AppError } from '@/shared/middleware/errorHandler';
+import { ErrorCodes, HttpStatus } from '@/shared/types';
+
+/**
+ * HTTP API controller for leaderboard operations.
+ *
+ * @class LeaderboardController
+ */
+export class LeaderboardController {
+  /**
+   * Creates an instance of LeaderboardController.
+   *
+   * @param {LeaderboardService} leaderboardService - Service layer for leaderboard business logic
+   */
+  constructor(private leaderboardService: LeaderboardService) {}
+
+  /**
+   * Retrieves a leaderboard together with the authenticated user's rank.
+   *
+   * Handles GET /api/progress/leaderboard endpoint. Requires authentication.
+   *
+   * @param {Request} req - Express request object with metric, scope, window, course_id and limit query parameters
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function for error handling
+   * @returns {Promise<void>} Promise that resolves when response is sent
+   *
+   * @example
+   * // GET /api/progress/leaderboard?metric=xp&scope=following&window=weekly
+   * // Response format:
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "metric": "xp",
+   *     "scope": "following",
+   *     "window": "weekly",
+   *     "period_start": "2025-06-02T00:00:00.000Z",
+   *     "entries": [{ "rank": 1, "user_id": "...", "username": "ana", "value": 320 }],
+   *     "current_user": { "rank": 4, "user_id": "...", "username": "me", "value": 85 }
+   *   }
+   * }
+   */
+  getLeaderboard = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        throw new AppError(
+          'User not authenticated',
+          HttpStatus.UNAUTHORIZED,
+          ErrorCodes.AUTHENTICATION_ERROR
+        );
+      }
+
+      const leaderboard = await this.leaderboardService.getLeaderboard(
+        userId,
+        req.query as unknown as LeaderboardQuery
+      );
+
+      res.status(HttpStatus.OK).json({
+        success: true,
+        data: leaderboard,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Retrieves the authenticated user's league for the current week.
+   *
+   * Handles GET /api/progress/leaderboard/league endpoint. Requires authentication.
+   * The user joins the current week's league on their first request of the week.
+   *
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function for error handling
+   * @returns {Promise<void>} Promise that resolves when response is sent
+   *
+   * @example
+   * // Response format:
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "tier": "silver",
+   *     "week_start": "2025-06-02T00:00:00.000Z",
+   *     "week_end": "2025-06-09T00:00:00.000Z",
+   *     "promotion_count": 6,
+   *     "demotion_count": 6,
+   *     "entries": [{ "rank": 1, "user_id": "...", "value": 410, "zone": "promotion" }],
+   *     "current_user": { "rank": 12, "user_id": "...", "value": 120, "zone": "safe" }
+   *   }
+   * }
+   */
+  getLeague = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        throw new AppError(
+          'User not authenticated',
+          HttpStatus.UNAUTHORIZED,
+          ErrorCodes.AUTHENTICATION_ERROR
+        );
+      }
+
+      const league = await this.leaderboardService.getLeague(userId);
+
+      res.status(HttpStatus.OK).json({
+        success: true,
+        data: league,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -45,7 +45,9 @@ import { ProgressService } from '../services/progressService';
 import { 
   UpdateProgressDto,
   OfflineProgressSync,
-  UpdateUserProgressInput
+  UpdateUserProgressInput,
+  StreakHistoryQuery,
+  UpdateLivesConfigDto
 } from '../types';
 import { AppError } from '@/shared/middleware/errorHandler';
 import { ErrorCodes, HttpStatus } from '@/shared/types';
@@ -81,7 +83,9 @@ export class ProgressController {
    *   "data": {
    *     "user_id": "user-123",
    *     "experience_points": 1250,
-   *     "lives_current": 5,
+   *     "lives_current": 4,
+   *     "lives_max": 5,
+   *     "next_life_at": "2025-01-01T10:30:00Z",
    *     "streak_current": 7,
    *     "last_completed_lesson_id": "lesson-456",
    *     "last_activity_date": "2025-01-01T10:00:00Z",
@@ -100,7 +104,7 @@ export class ProgressController {
         );
       }
 
-      const progress = await this.progressService.getUserProgress(userId);
+      const progress = await this.progressService.getUserProgressWithLives(userId);
 
       res.status(HttpStatus.OK).json({
         success: true,
@@ -154,10 +158,10 @@ export class ProgressController {
    * @returns {Promise<void>} Promise that resolves when response is sent
    * 
    * @example
-   * // Request body:
+   * // Request body (the score is graded server-side from the answers):
    * {
-   *   "score": 85,
-   *   "time_spent_seconds": 120
+   *   "time_spent_seconds": 120,
+   *   "answers": [{ "exercise_id": "vof-001", "answer": { "value": true } }]
    * }
    * 
    * // Response format:
@@ -189,8 +193,8 @@ export class ProgressController {
       // Construct the progress data with lesson_id from URL parameter
       const progressData: UpdateProgressDto = {
         lesson_id: lessonId,
-        score: bodyData.score,
         time_spent_seconds: bodyData.time_spent_seconds,
+        answers: bodyData.answers,
       };
 
       const result = await this.progressService.completeLesson(userId, progressData);
@@ -232,8 +236,8 @@ export class ProgressController {
    *     {
    *       "lesson_id": "lesson-123",
    *       "completed_at": "2025-01-01T10:00:00Z",
-   *       "score": 92,
-   *       "time_spent_seconds": 180
+   *       "time_spent_seconds": 180,
+   *       "answers": [{ "exercise_id": "vof-001", "answer": { "value": true } }]
    *     }
    *   ],
    *   "last_sync_timestamp": "2025-01-01T09:00:00Z"
@@ -259,12 +263,13 @@ export class ProgressController {
         userId,
         syncedCompletions: result.synced_completions,
         skippedDuplicates: result.skipped_duplicates,
+        skippedCompletions: result.skipped_completions.length,
       });
 
       res.status(HttpStatus.OK).json({
         success: true,
         data: result,
-        message: `Synchronized ${result.synced_completions} completions, skipped ${result.skipped_duplicates} duplicates`,
+        message: `Synchronized ${result.synced_completions} completions, skipped ${result.skipped_duplicates} duplicates and ${result.skipped_completions.length} rejected completions`,
       });
     } catch (error) {
       next(error);
@@ -444,9 +449,9 @@ export class ProgressController {
   };
 
   /**
-   * Updates user's current lives count for gamification features.
+   * Adjusts a target user's current lives count (administrative function).
    * 
-   * Handles PUT /api/progress/lives endpoint. Requires authentication.
+   * Handles PUT /api/progress/lives endpoint. Requires admin role.
    * 
    * @param {Request} req - Express request object with lives change data in body
    * @param {Response} res - Express response object
@@ -456,7 +461,9 @@ export class ProgressController {
    * @example
    * // Request body:
    * {
-   *   "lives_change": -1  // Subtract one life
+   *   "target_user_id": "user-456",
+   *   "lives_change": -1,  // Subtract one life
+   *   "reason": "Support adjustment"
    * }
    */
   updateUserLives = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -470,10 +477,21 @@ export class ProgressController {
         );
       }
 
+      if (req.user?.role !== 'admin') {
+        throw new AppError('Insufficient permissions', HttpStatus.FORBIDDEN, ErrorCodes.AUTHORIZATION_ERROR);
+      }
+
       // Use validated request body from middleware
-      const { lives_change } = req.body;
+      const { target_user_id, lives_change, reason } = req.body;
 
-      const updatedProgress = await this.progressService.updateUserLives(userId, lives_change);
+      const updatedProgress = await this.progressService.updateUserLives(target_user_id, lives_change);
+
+      logger.info('Lives adjusted by admin', {
+        adminId: userId,
+        targetUserId: target_user_id,
+        livesChange: lives_change,
+        reason,
+      });
 
       res.status(HttpStatus.OK).json({
         success: true,
@@ -485,6 +503,148 @@ export class ProgressController {
     }
   };
 
+  /**
+   * Retrieves the authenticated user's daily activity history for streak calendars.
+   * 
+   * Handles GET /api/progress/streak/history endpoint. Requires authentication.
+   * 
+   * @param {Request} req - Express request object with optional from and to query parameters (YYYY-MM-DD)
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function for error handling
+   * @returns {Promise<void>} Promise that resolves when response is sent
+   * 
+   * @example
+   * // Response format:
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "timezone": "America/Lima",
+   *     "current_streak": 12,
+   *     "longest_streak": 30,
+   *     "streak_freezes": 1,
+   *     "from": "2025-01-01",
+   *     "to": "2025-03-31",
+   *     "days": [{ "activity_date": "2025-03-30", "lessons_completed": 2, "experience_gained": 24, "freeze_used": false }]
+   *   }
+   * }
+   */
+  getStreakHistory = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        throw new AppError(
+          'User not authenticated',
+          HttpStatus.UNAUTHORIZED,
+          ErrorCodes.AUTHENTICATION_ERROR
+        );
+      }
+
+      const history = await this.progressService.getStreakHistory(
+        userId,
+        req.query as unknown as StreakHistoryQuery
+      );
+
+      res.status(HttpStatus.OK).json({
+        success: true,
+        data: history,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Purchases a streak freeze for the authenticated user with experience points.
+   * 
+   * Handles POST /api/progress/streak/freeze endpoint. Requires authentication.
+   * 
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function for error handling
+   * @returns {Promise<void>} Promise that resolves when response is sent
+   */
+  purchaseStreakFreeze = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        throw new AppError(
+          'User not authenticated',
+          HttpStatus.UNAUTHORIZED,
+          ErrorCodes.AUTHENTICATION_ERROR
+        );
+      }
+
+      const updatedProgress = await this.progressService.purchaseStreakFreeze(userId);
+
+      res.status(HttpStatus.OK).json({
+        success: true,
+        data: updatedProgress,
+        message: 'Streak freeze purchased successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Retrieves the platform-wide lives settings.
+   * 
+   * Handles GET /api/progress/lives/config endpoint. Requires authentication.
+   * 
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function for error handling
+   * @returns {Promise<void>} Promise that resolves when response is sent
+   */
+  getLivesConfig = async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const livesConfig = await this.progressService.getLivesConfig();
+
+      res.status(HttpStatus.OK).json({
+        success: true,
+        data: livesConfig,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Updates the platform-wide lives settings (administrative function).
+   * 
+   * Handles PUT /api/progress/lives/config endpoint. Requires admin role.
+   * 
+   * @param {Request} req - Express request object with max_lives and/or regeneration_minutes in body
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function for error handling
+   * @returns {Promise<void>} Promise that resolves when response is sent
+   * 
+   * @example
+   * // Request body:
+   * {
+   *   "max_lives": 5,
+   *   "regeneration_minutes": 30
+   * }
+   */
+  updateLivesConfig = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const livesConfig = await this.progressService.updateLivesConfig(req.body as UpdateLivesConfigDto);
+
+      logger.info('Lives configuration updated by admin', {
+        adminId: req.user?.sub,
+        ...livesConfig,
+      });
+
+      res.status(HttpStatus.OK).json({
+        success: true,
+        data: livesConfig,
+        message: 'Lives configuration updated successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
   /**
    * Resets a target user's progress to initial state (administrative function).
    * 
@@ -0,0 +1,136 @@
+// src/modules/progress/controllers/reviewController.ts
+
+/**
+ * HTTP API controller for spaced-repetition review endpoints.
+ *
+ * This controller exposes the review queue of the authenticated learner and records recall
+ * results for individual exercises. It handles request/response concerns only, delegating
+ * queue assembly and SM-2 scheduling to the ReviewService layer. All endpoints require
+ * authentication and operate on the user identified by the access token.
+ *
+ * @module ReviewController
+ * @category Progress
+ * @category Controllers
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const reviewService = new ReviewService(reviewRepository, prisma);
+ * const reviewController = new ReviewController(reviewService);
+ *
+ * router.get('/progress/review', reviewController.getReviewQueue);
+ * router.post('/progress/review/:exerciseId', reviewController.recordReview);
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { ReviewService } from '../services/reviewService';
+import { RecordReviewDto, ReviewQueueQuery } from '../types';
+import { AppError } from '@/shared/middleware/errorHandler';
+import { ErrorCodes, HttpStatus } from '@/shared/types';
+
+/**
+ * HTTP API controller for spaced-repetition review operations.
+ *
+ * @class ReviewController
+ */
+export class ReviewController {
+  /**
+   * Creates an instance of ReviewController.
+   *
+   * @param {ReviewService} reviewService - Service layer for review business logic
+   */
+  constructor(private reviewService: ReviewService) {}
+
+  /**
+   * Retrieves the exercises the authenticated user should review now.
+   *
+   * Handles GET /api/progress/review endpoint. Requires authentication.
+   *
+   * @param {Request} req - Express request object with optional limit and course_id query parameters
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function for error handling
+   * @returns {Promise<void>} Promise that resolves when response is sent
+   *
+   * @example
+   * // Response format:
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "items": [{ "exercise_id": "vof-001", "exercise_type": "vof", "is_new": false, ... }],
+   *     "due_count": 12,
+   *     "new_count": 3
+   *   }
+   * }
+   */
+  getReviewQueue = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        throw new AppError(
+          'User not authenticated',
+          HttpStatus.UNAUTHORIZED,
+          ErrorCodes.AUTHENTICATION_ERROR
+        );
+      }
+
+      const { limit, course_id } = req.query as unknown as ReviewQueueQuery;
+      const queue = await this.reviewService.getReviewQueue(userId, { limit, course_id });
+
+      res.status(HttpStatus.OK).json({
+        success: true,
+        data: queue,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Records the result of reviewing an exercise and schedules its next review.
+   *
+   * Handles POST /api/progress/review/:exerciseId endpoint. Requires authentication.
+   *
+   * @param {Request} req - Express request object with exercise ID in params and quality or answer in body
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function for error handling
+   * @returns {Promise<void>} Promise that resolves when response is sent
+   *
+   * @example
+   * // Request body (either a self-reported quality or an answer to grade):
+   * { "quality": 4 }
+   * { "answer": { "value": true } }
+   *
+   * // Response format:
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "state": { "exercise_id": "vof-001", "interval_days": 6, "due_at": "...", ... },
+   *     "quality": 4
+   *   },
+   *   "message": "Review recorded successfully"
+   * }
+   */
+  recordReview = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        throw new AppError(
+          'User not authenticated',
+          HttpStatus.UNAUTHORIZED,
+          ErrorCodes.AUTHENTICATION_ERROR
+        );
+      }
+
+      const { exerciseId } = req.params as { exerciseId: string };
+      const result = await this.reviewService.recordReview(userId, exerciseId, req.body as RecordReviewDto);
+
+      res.status(HttpStatus.OK).json({
+        success: true,
+        data: result,
+        message: 'Review recorded successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
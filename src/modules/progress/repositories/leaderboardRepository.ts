@@ -0,0 +1,434 @@
+// src/modules/progress/repositories/leaderboardRepository.ts
+
+/**
+ * Data access layer for leaderboards and weekly leagues using Prisma ORM.
+ *
+ * This repository provides the ranking queries behind the leaderboard endpoints. All-time rankings
+ * read the denormalized totals in `user_progress`, using the descending indexes on experience points
+ * and current streak. Time-windowed and course-scoped rankings aggregate the experience stored on each
+ * lesson completion (`lesson_completions.experience_gained`), filtered by `completed_at`. Only active
+ * users are ranked.
+ *
+ * The repository also stores weekly league memberships (`league_memberships`), one row per user and
+ * week, which record the tier a user competes in during that week.
+ *
+ * @module LeaderboardRepository
+ * @category Progress
+ * @category Repositories
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const leaderboardRepository = new LeaderboardRepository(prisma);
+ *
+ * // Top 20 learners by all-time experience
+ * const top = await leaderboardRepository.findTopProgress("experiencePoints", 20);
+ *
+ * // Top 20 learners by experience earned since Monday in a course
+ * const weekly = await leaderboardRepository.findTopExperience({ from: weekStart, courseId: "spanish-101" }, 20);
+ */
+
+import { PrismaClient, Prisma } from "@prisma/client";
+import { LeagueTier } from "../types";
+import { AppError } from "@/shared/middleware/errorHandler";
+import { ErrorCodes, HttpStatus } from "@/shared/types";
+import { logger } from "@/shared/utils/logger";
+
+/**
+ * Progress field used for all-time rankings
+ */
+export type ProgressRankingField = "experiencePoints" | "streakCurrent";
+
+/**
+ * Filter for rankings computed from lesson completions
+ */
+export interface ExperienceFilter {
+  from?: Date | undefined;
+  to?: Date | undefined;
+  courseId?: string | undefined;
+  userIds?: string[] | undefined;
+}
+
+/**
+ * Ranked value for a user, before ranks and user details are attached
+ */
+export interface LeaderboardRow {
+  user_id: string;
+  value: number;
+}
+
+/**
+ * Public user fields shown on leaderboards
+ */
+export interface LeaderboardUser {
+  user_id: string;
+  username: string | null;
+  profile_picture_url: string | null;
+}
+
+/**
+ * Data access layer for leaderboard and league operations.
+ *
+ * @class LeaderboardRepository
+ */
+export class LeaderboardRepository {
+  /**
+   * Creates an instance of LeaderboardRepository.
+   *
+   * @param {PrismaClient} prisma - Prisma client instance for database operations
+   */
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Retrieves the users with the highest all-time progress value.
+   *
+   * @param {ProgressRankingField} field - Progress field to rank by
+   * @param {number} limit - Maximum number of rows to return
+   * @param {string[]} [userIds] - Optional set of users to rank within
+   * @returns {Promise<LeaderboardRow[]>} Promise resolving to rows ordered by value descending
+   * @throws {AppError} When database operation fails (500 INTERNAL_SERVER_ERROR)
+   */
+  async findTopProgress(
+    field: ProgressRankingField,
+    limit: number,
+    userIds?: string[],
+  ): Promise<LeaderboardRow[]> {
+    try {
+      const rows = await this.prisma.userProgress.findMany({
+        where: this.buildProgressWhere(userIds),
+        select: { userId: true, experiencePoints: true, streakCurrent: true },
+        orderBy: [{ [field]: "desc" }, { userId: "asc" }],
+        take: limit,
+      });
+
+      return rows.map((row) => ({ user_id: row.userId, value: row[field] }));
+    } catch (error) {
+      logger.error("Error finding top progress", { error, field });
+      throw new AppError(
+        "Failed to retrieve leaderboard",
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        ErrorCodes.DATABASE_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Retrieves a user's all-time progress value.
+   *
+   * @param {string} userId - The unique identifier of the user
+   * @param {ProgressRankingField} field - Progress field to read
+   * @returns {Promise<number>} Promise resolving to the value, or 0 if the user has no progress yet
+   * @throws {AppError} When database operation fails (500 INTERNAL_SERVER_ERROR)
+   */
+  async findProgressValue(userId: string, field: ProgressRankingField): Promise<number> {
+    try {
+      const progress = await this.prisma.userProgress.findUnique({
+        where: { userId },
+        select: { experiencePoints: true, streakCurrent: true },
+      });
+
+      return progress ? progress[field] : 0;
+    } catch (error) {
+      logger.error("Error finding progress value", { error, userId, field });
+      throw new AppError(
+        "Failed to retrieve leaderboard",
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        ErrorCodes.DATABASE_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Counts users whose all-time progress value is strictly greater than a value.
+   *
+   * @param {ProgressRankingField} field - Progress field to compare
+   * @param {number} value - Value to compare against
+   * @param {string[]} [userIds] - Optional set of users to count within
+   * @returns {Promise<number>} Promise resolving to the number of users ranked above the value
+   * @throws {AppError} When database operation fails (500 INTERNAL_SERVER_ERROR)
+   */
+  async countProgressAbove(
+    field: ProgressRankingField,
+    value: number,
+    userIds?: string[],
+  ): Promise<number> {
+    try {
+      return await this.prisma.userProgress.count({
+        where: { ...this.buildProgressWhere(userIds), [field]: { gt: value } },
+      });
+    } catch (error) {
+      logger.error("Error counting progress above value", { error, field, value });
+      throw new AppError(
+        "Failed to retrieve leaderboard",
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        ErrorCodes.DATABASE_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Retrieves the users who earned the most experience from lesson completions.
+   *
+   * @param {ExperienceFilter} filter - Completion date range, course and user restrictions
+   * @param {number} [limit] - Maximum number of rows to return; all users when omitted
+   * @returns {Promise<LeaderboardRow[]>} Promise resolving to rows ordered by experience descending
+   * @throws {AppError} When database operation fails (500 INTERNAL_SERVER_ERROR)
+   */
+  async findTopExperience(filter: ExperienceFilter, limit?: number): Promise<LeaderboardRow[]> {
+    try {
+      const groups = await this.prisma.lessonCompletion.groupBy({
+        by: ["userId"],
+        where: this.buildCompletionWhere(filter),
+        _sum: { experienceGained: true },
+        orderBy: [{ _sum: { experienceGained: "desc" } }, { userId: "asc" }],
+        ...(limit !== undefined && { take: limit }),
+      });
+
+      return groups.map((group) => ({
+        user_id: group.userId,
+        value: group._sum?.experienceGained ?? 0,
+      }));
+    } catch (error) {
+      logger.error("Error finding top experience", { error, filter });
+      throw new AppError(
+        "Failed to retrieve leaderboard",
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        ErrorCodes.DATABASE_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Sums the experience a user earned from lesson completions.
+   *
+   * @param {string} userId - The unique identifier of the user
+   * @param {ExperienceFilter} filter - Completion date range and course restrictions
+   * @returns {Promise<number>} Promise resolving to the experience earned
+   * @throws {AppError} When database operation fails (500 INTERNAL_SERVER_ERROR)
+   */
+  async sumExperience(userId: string, filter: ExperienceFilter): Promise<number> {
+    try {
+      const result = await this.prisma.lessonCompletion.aggregate({
+        where: { ...this.buildCompletionWhere(filter), userId },
+        _sum: { experienceGained: true },
+      });
+
+      return result._sum.experienceGained ?? 0;
+    } catch (error) {
+      logger.error("Error summing experience", { error, userId, filter });
+      throw new AppError(
+        "Failed to retrieve leaderboard",
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        ErrorCodes.DATABASE_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Counts users who earned strictly more experience than a value from lesson completions.
+   *
+   * @param {number} value - Experience to compare against
+   * @param {ExperienceFilter} filter - Completion date range, course and user restrictions
+   * @returns {Promise<number>} Promise resolving to the number of users ranked above the value
+   * @throws {AppError} When database operation fails (500 INTERNAL_SERVER_ERROR)
+   */
+  async countExperienceAbove(value: number, filter: ExperienceFilter): Promise<number> {
+    try {
+      const groups = await this.prisma.lessonCompletion.groupBy({
+        by: ["userId"],
+        where: this.buildCompletionWhere(filter),
+        having: { experienceGained: { _sum: { gt: value } } },
+      });
+
+      return groups.length;
+    } catch (error) {
+      logger.error("Error counting experience above value", { error, value, filter });
+      throw new AppError(
+        "Failed to retrieve leaderboard",
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        ErrorCodes.DATABASE_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Retrieves the public leaderboard fields of a set of users.
+   *
+   * @param {string[]} userIds - The unique identifiers of the users
+   * @returns {Promise<LeaderboardUser[]>} Promise resolving to the users found
+   * @throws {AppError} When database operation fails (500 INTERNAL_SERVER_ERROR)
+   */
+  async findUsers(userIds: string[]): Promise<LeaderboardUser[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    try {
+      const users = await this.prisma.user.findMany({
+        where: { id: { in: userIds } },
+        select: { id: true, username: true, profilePictureUrl: true },
+      });
+
+      return users.map((user) => ({
+        user_id: user.id,
+        username: user.username,
+        profile_picture_url: user.profilePictureUrl,
+      }));
+    } catch (error) {
+      logger.error("Error finding leaderboard users", { error, count: userIds.length });
+      throw new AppError(
+        "Failed to retrieve leaderboard",
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        ErrorCodes.DATABASE_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Retrieves the IDs of active users followed by a user, excluding users they muted.
+   *
+   * @param {string} userId - The unique identifier of the following user
+   * @returns {Promise<string[]>} Promise resolving to followed user IDs
+   * @throws {AppError} When database operation fails (500 INTERNAL_SERVER_ERROR)
+   */
+  async findFollowedUserIds(userId: string): Promise<string[]> {
+    try {
+      const follows = await this.prisma.follow.findMany({
+        where: {
+          followerId: userId,
+          followed: {
+            isActive: true,
+            mutedBy: { none: { muterId: userId } },
+          },
+        },
+        select: { followedId: true },
+      });
+
+      return follows.map((follow) => follow.followedId);
+    } catch (error) {
+      logger.error("Error finding followed users", { error, userId });
+      throw new AppError(
+        "Failed to retrieve followed users",
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        ErrorCodes.DATABASE_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Retrieves a user's most recent league membership starting on or before a week.
+   *
+   * @param {string} userId - The unique identifier of the user
+   * @param {Date} weekStart - Start of the latest week to consider
+   * @returns {Promise<{week_start: Date, tier: LeagueTier} | null>} Promise resolving to the membership or null
+   * @throws {AppError} When database operation fails (500 INTERNAL_SERVER_ERROR)
+   */
+  async findLatestLeagueMembership(
+    userId: string,
+    weekStart: Date,
+  ): Promise<{ week_start: Date; tier: LeagueTier } | null> {
+    try {
+      const membership = await this.prisma.leagueMembership.findFirst({
+        where: { userId, weekStart: { lte: weekStart } },
+        orderBy: { weekStart: "desc" },
+      });
+
+      return membership ? { week_start: membership.weekStart, tier: membership.tier } : null;
+    } catch (error) {
+      logger.error("Error finding league membership", { error, userId });
+      throw new AppError(
+        "Failed to retrieve league",
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        ErrorCodes.DATABASE_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Retrieves the IDs of users competing in a league tier during a week.
+   *
+   * @param {Date} weekStart - Start of the league week
+   * @param {LeagueTier} tier - League tier
+   * @returns {Promise<string[]>} Promise resolving to member user IDs
+   * @throws {AppError} When database operation fails (500 INTERNAL_SERVER_ERROR)
+   */
+  async findLeagueMemberIds(weekStart: Date, tier: LeagueTier): Promise<string[]> {
+    try {
+      const memberships = await this.prisma.leagueMembership.findMany({
+        where: { weekStart, tier, user: { isActive: true } },
+        select: { userId: true },
+      });
+
+      return memberships.map((membership) => membership.userId);
+    } catch (error) {
+      logger.error("Error finding league members", { error, weekStart, tier });
+      throw new AppError(
+        "Failed to retrieve league",
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        ErrorCodes.DATABASE_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Enrolls a user in a league tier for a week.
+   *
+   * An existing membership for the same week is kept unchanged, so concurrent enrollments resolve to
+   * the first tier stored.
+   *
+   * @param {string} userId - The unique identifier of the user
+   * @param {Date} weekStart - Start of the league week
+   * @param {LeagueTier} tier - League tier to enroll in
+   * @returns {Promise<LeagueTier>} Promise resolving to the stored tier
+   * @throws {AppError} When database operation fails (500 INTERNAL_SERVER_ERROR)
+   */
+  async upsertLeagueMembership(userId: string, weekStart: Date, tier: LeagueTier): Promise<LeagueTier> {
+    try {
+      const membership = await this.prisma.leagueMembership.upsert({
+        where: { userId_weekStart: { userId, weekStart } },
+        create: { userId, weekStart, tier },
+        update: {},
+      });
+
+      return membership.tier;
+    } catch (error) {
+      logger.error("Error saving league membership", { error, userId, weekStart, tier });
+      throw new AppError(
+        "Failed to enroll in league",
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        ErrorCodes.DATABASE_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Builds the filter for progress rows of active users, optionally within a set of users.
+   *
+   * @private
+   */
+  private buildProgressWhere(userIds?: string[]): Prisma.UserProgressWhereInput {
+    return {
+      user: { isActive: true },
+      ...(userIds && { userId: { in: userIds } }),
+    };
+  }
+
+  /**
+   * Builds the filter for lesson completions of active users.
+   *
+   * @private
+   */
+  private buildCompletionWhere(filter: ExperienceFilter): Prisma.LessonCompletionWhereInput {
+    return {
+      user: { isActive: true },
+      ...((filter.from || filter.to) && {
+        completedAt: {
+          ...(filter.from && { gte: filter.from }),
+          ...(filter.to && { lt: filter.to }),
+        },
+      }),
+      ...(filter.courseId && { lesson: { module: { section: { level: { courseId: filter.courseId } } } } }),
+      ...(filter.userIds && { userId: { in: filter.userIds } }),
+    };
+  }
+}
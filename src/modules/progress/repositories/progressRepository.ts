@@ -55,6 +55,10 @@ import {
   UpdateUserProgressDto,
   CreateLessonCompletionDto,
   ProgressSummary,
+  DailyActivity,
+  RecordDailyActivityDto,
+  LivesConfig,
+  UpdateLivesConfigDto,
 } from "../types";
 import { AppError } from "@/shared/middleware/errorHandler";
 import {
@@ -64,6 +68,21 @@ import {
   PaginatedResult,
 } from "@/shared/types";
 import { logger } from "@/shared/utils/logger";
+import { DEFAULT_TIMEZONE, dateToDay, dayToDate } from "@/shared/utils/timezone";
+
+/**
+ * Lives settings used until an administrator stores a configuration
+ */
+const DEFAULT_LIVES_CONFIG: LivesConfig = {
+  max_lives: 5,
+  regeneration_minutes: 30,
+  updated_at: null,
+};
+
+/**
+ * Primary key of the single lives configuration row
+ */
+const LIVES_CONFIG_ID = 1;
 
 /**
  * Data access layer for progress tracking operations.
@@ -180,9 +199,21 @@ export class ProgressRepository {
       if (updates.lives_current !== undefined) {
         updateData.livesCurrent = updates.lives_current;
       }
+      if (updates.lives_updated_at !== undefined) {
+        updateData.livesUpdatedAt = updates.lives_updated_at;
+      }
       if (updates.streak_current !== undefined) {
         updateData.streakCurrent = updates.streak_current;
       }
+      if (updates.longest_streak !== undefined) {
+        updateData.longestStreak = updates.longest_streak;
+      }
+      if (updates.streak_freezes !== undefined) {
+        updateData.streakFreezes = updates.streak_freezes;
+      }
+      if (updates.last_streak_date !== undefined) {
+        updateData.lastStreakDate = updates.last_streak_date;
+      }
       if (updates.last_completed_lesson_id !== undefined) {
         updateData.lastCompletedLesson = updates.last_completed_lesson_id
           ? { connect: { id: updates.last_completed_lesson_id } }
@@ -306,6 +337,7 @@ export class ProgressRepository {
             : new Date(),
           score: data.score ?? null,
           timeSpentSeconds: data.time_spent_seconds ?? null,
+          experienceGained: data.experience_gained ?? 0,
         },
       });
 
@@ -471,6 +503,7 @@ export class ProgressRepository {
                 completedAt: new Date(completion.completed_at || new Date()),
                 score: completion.score ?? null,
                 timeSpentSeconds: completion.time_spent_seconds ?? null,
+                experienceGained: completion.experience_gained ?? 0,
               },
             });
             results.push(
@@ -510,7 +543,7 @@ export class ProgressRepository {
   /**
    * Retrieves comprehensive progress summary with aggregated statistics.
    * 
-   * Calculates lessons completed, courses started, and other analytics data by performing
+   * Calculates lessons completed, courses enrolled in and completed, and other analytics data by performing
    * complex queries across multiple related tables. Includes advanced analytics like
    * longest streak, completion percentage, and average score.
    * 
@@ -539,7 +572,7 @@ export class ProgressRepository {
       const averageScore = completionStats._avg.score || 0;
 
       // Get total lessons count for completion percentage
-      const totalLessons = await this.prisma.lesson.count();
+      const totalLessons = await this.prisma.lesson.count({ where: { deletedAt: null } });
       const completionPercentage = totalLessons > 0 ? (lessonsCompleted / totalLessons) * 100 : 0;
 
       // Calculate longest streak from completion dates
@@ -551,46 +584,23 @@ export class ProgressRepository {
 
       const longestStreak = this.calculateLongestStreak(completions.map(c => c.completedAt));
 
-      // Count courses started (courses with at least one completed lesson)
-      const uniqueCourses = await this.prisma.lessonCompletion.findMany({
-        where: { userId },
-        distinct: ["lessonId"],
-        select: {
-          lesson: {
-            select: {
-              module: {
-                select: {
-                  section: {
-                    select: {
-                      level: {
-                        select: {
-                          courseId: true,
-                        },
-                      },
-                    },
-                  },
-                },
-              },
-            },
-          },
-        },
+      // Count the courses the learner joined and the ones they finished
+      const enrollments = await this.prisma.enrollment.groupBy({
+        by: ["status"],
+        where: { userId, course: { deletedAt: null } },
+        _count: { _all: true },
       });
 
-      const coursesStarted = new Set(
-        uniqueCourses.map(
-          (completion) => completion.lesson.module.section.level.courseId,
-        ),
-      ).size;
-
-      // For now, set courses completed to 0 (would need more complex logic)
-      const coursesCompleted = 0;
+      const coursesStarted = enrollments.reduce((total, group) => total + group._count._all, 0);
+      const coursesCompleted = enrollments.find((group) => group.status === "completed")?._count._all ?? 0;
 
       return {
         user_id: userId,
         experience_points: progress.experiencePoints,
         lives_current: progress.livesCurrent,
         streak_current: progress.streakCurrent,
-        longest_streak: longestStreak,
+        // Stored value includes freeze-protected days; completion history covers older records
+        longest_streak: Math.max(progress.longestStreak, longestStreak),
         lessons_completed: lessonsCompleted,
         courses_started: coursesStarted,
         courses_completed: coursesCompleted,
@@ -685,6 +695,222 @@ export class ProgressRepository {
     }
   }
 
+  /**
+   * Retrieves the platform-wide lives settings.
+   * 
+   * @returns {Promise<LivesConfig>} Promise resolving to the stored settings, or the defaults when none are stored
+   * @throws {AppError} When database operation fails (500 INTERNAL_SERVER_ERROR)
+   */
+  async findLivesConfig(): Promise<LivesConfig> {
+    try {
+      const config = await this.prisma.livesConfig.findUnique({
+        where: { id: LIVES_CONFIG_ID },
+      });
+
+      if (!config) {
+        return DEFAULT_LIVES_CONFIG;
+      }
+
+      return {
+        max_lives: config.maxLives,
+        regeneration_minutes: config.regenerationMinutes,
+        updated_at: config.updatedAt,
+      };
+    } catch (error) {
+      logger.error("Error finding lives config", { error });
+      throw new AppError(
+        "Failed to find lives configuration",
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        ErrorCodes.DATABASE_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Creates or updates the platform-wide lives settings.
+   * 
+   * @param {UpdateLivesConfigDto} updates - Settings to change; omitted settings keep their current or default value
+   * @returns {Promise<LivesConfig>} Promise resolving to the stored settings
+   * @throws {AppError} When database operation fails (500 INTERNAL_SERVER_ERROR)
+   */
+  async updateLivesConfig(updates: UpdateLivesConfigDto): Promise<LivesConfig> {
+    try {
+      const config = await this.prisma.livesConfig.upsert({
+        where: { id: LIVES_CONFIG_ID },
+        update: {
+          ...(updates.max_lives !== undefined && { maxLives: updates.max_lives }),
+          ...(updates.regeneration_minutes !== undefined && {
+            regenerationMinutes: updates.regeneration_minutes,
+          }),
+        },
+        create: {
+          id: LIVES_CONFIG_ID,
+          maxLives: updates.max_lives ?? DEFAULT_LIVES_CONFIG.max_lives,
+          regenerationMinutes:
+            updates.regeneration_minutes ?? DEFAULT_LIVES_CONFIG.regeneration_minutes,
+        },
+      });
+
+      return {
+        max_lives: config.maxLives,
+        regeneration_minutes: config.regenerationMinutes,
+        updated_at: config.updatedAt,
+      };
+    } catch (error) {
+      logger.error("Error updating lives config", { error, updates });
+      throw new AppError(
+        "Failed to update lives configuration",
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        ErrorCodes.DATABASE_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Retrieves the timezone configured by the user.
+   * 
+   * @param {string} userId - The unique identifier of the user
+   * @returns {Promise<string>} Promise resolving to the IANA timezone, or UTC when the user is not found
+   * @throws {AppError} When database operation fails (500 INTERNAL_SERVER_ERROR)
+   */
+  async findUserTimezone(userId: string): Promise<string> {
+    try {
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { timezone: true },
+      });
+
+      return user?.timezone ?? DEFAULT_TIMEZONE;
+    } catch (error) {
+      logger.error("Error finding user timezone", { error, userId });
+      throw new AppError(
+        "Failed to find user timezone",
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        ErrorCodes.DATABASE_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Retrieves the creation date of the user's account.
+   * 
+   * @param {string} userId - The unique identifier of the user
+   * @returns {Promise<Date | null>} Promise resolving to the account creation date, or null when the user is not found
+   * @throws {AppError} When database operation fails (500 INTERNAL_SERVER_ERROR)
+   */
+  async findUserCreatedAt(userId: string): Promise<Date | null> {
+    try {
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { createdAt: true },
+      });
+
+      return user?.createdAt ?? null;
+    } catch (error) {
+      logger.error("Error finding user creation date", { error, userId });
+      throw new AppError(
+        "Failed to find user creation date",
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        ErrorCodes.DATABASE_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Adds activity to a learner's daily activity log.
+   * 
+   * Increments the lesson and experience counters of the given day and records the days
+   * covered by a streak freeze in a single transaction.
+   * 
+   * @param {string} userId - The unique identifier of the user
+   * @param {string} activityDay - Local calendar day of the activity (YYYY-MM-DD)
+   * @param {RecordDailyActivityDto} activity - Counters to add and days protected by a freeze
+   * @returns {Promise<void>} Promise that resolves when the activity is recorded
+   * @throws {AppError} When database operation fails (500 INTERNAL_SERVER_ERROR)
+   */
+  async recordDailyActivity(
+    userId: string,
+    activityDay: string,
+    activity: RecordDailyActivityDto,
+  ): Promise<void> {
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        await tx.dailyActivity.upsert({
+          where: {
+            userId_activityDate: { userId, activityDate: dayToDate(activityDay) },
+          },
+          update: {
+            lessonsCompleted: { increment: activity.lessons_completed },
+            experienceGained: { increment: activity.experience_gained },
+          },
+          create: {
+            userId,
+            activityDate: dayToDate(activityDay),
+            lessonsCompleted: activity.lessons_completed,
+            experienceGained: activity.experience_gained,
+          },
+        });
+
+        if (activity.frozen_days && activity.frozen_days.length > 0) {
+          await tx.dailyActivity.createMany({
+            data: activity.frozen_days.map((day) => ({
+              userId,
+              activityDate: dayToDate(day),
+              freezeUsed: true,
+            })),
+            skipDuplicates: true,
+          });
+        }
+      });
+    } catch (error) {
+      logger.error("Error recording daily activity", { error, userId, activityDay });
+      throw new AppError(
+        "Failed to record daily activity",
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        ErrorCodes.DATABASE_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Retrieves the daily activity log of a user for a range of local calendar days.
+   * 
+   * @param {string} userId - The unique identifier of the user
+   * @param {string} fromDay - First day of the range, inclusive (YYYY-MM-DD)
+   * @param {string} toDay - Last day of the range, inclusive (YYYY-MM-DD)
+   * @returns {Promise<DailyActivity[]>} Promise resolving to the days with activity or a used freeze, oldest first
+   * @throws {AppError} When database operation fails (500 INTERNAL_SERVER_ERROR)
+   */
+  async findDailyActivities(
+    userId: string,
+    fromDay: string,
+    toDay: string,
+  ): Promise<DailyActivity[]> {
+    try {
+      const activities = await this.prisma.dailyActivity.findMany({
+        where: {
+          userId,
+          activityDate: { gte: dayToDate(fromDay), lte: dayToDate(toDay) },
+        },
+        orderBy: { activityDate: "asc" },
+      });
+
+      return activities.map((activity) => ({
+        activity_date: dateToDay(activity.activityDate),
+        lessons_completed: activity.lessonsCompleted,
+        experience_gained: activity.experienceGained,
+        freeze_used: activity.freezeUsed,
+      }));
+    } catch (error) {
+      logger.error("Error finding daily activities", { error, userId, fromDay, toDay });
+      throw new AppError(
+        "Failed to find daily activities",
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        ErrorCodes.DATABASE_ERROR,
+      );
+    }
+  }
+
   /**
    * Maps Prisma UserProgress model to application UserProgress interface.
    * 
@@ -702,7 +928,11 @@ export class ProgressRepository {
       user_id: prismaProgress.userId,
       experience_points: prismaProgress.experiencePoints,
       lives_current: prismaProgress.livesCurrent,
+      lives_updated_at: prismaProgress.livesUpdatedAt,
       streak_current: prismaProgress.streakCurrent,
+      longest_streak: prismaProgress.longestStreak ?? 0,
+      streak_freezes: prismaProgress.streakFreezes ?? 0,
+      last_streak_date: prismaProgress.lastStreakDate ?? null,
       last_completed_lesson_id: prismaProgress.lastCompletedLessonId,
       last_activity_date: prismaProgress.lastActivityDate,
       updated_at: prismaProgress.updatedAt,
@@ -728,6 +958,7 @@ export class ProgressRepository {
       completed_at: prismaCompletion.completedAt,
       score: prismaCompletion.score,
       time_spent_seconds: prismaCompletion.timeSpentSeconds,
+      experience_gained: prismaCompletion.experienceGained ?? 0,
     };
   }
 
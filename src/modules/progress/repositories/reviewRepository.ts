@@ -0,0 +1,330 @@
+// src/modules/progress/repositories/reviewRepository.ts
+
+/**
+ * Data access layer for spaced-repetition review state using Prisma ORM.
+ *
+ * This repository stores the per-user, per-exercise memory model used by the review queue:
+ * the current scheduling state (ease factor, interval, repetitions, lapses and due date) in
+ * `exercise_review_states`, and an append-only history of every recorded review in
+ * `exercise_review_logs`. It also discovers exercises that have never been reviewed but belong
+ * to lessons the learner has completed, which enter the queue as new review items.
+ *
+ * Exercise types are returned in API format (dash-separated) and all records are mapped from
+ * Prisma camelCase models to the snake_case interfaces used by the progress module.
+ *
+ * @module ReviewRepository
+ * @category Progress
+ * @category Repositories
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const reviewRepository = new ReviewRepository(prisma);
+ *
+ * // Exercises due for review right now
+ * const due = await reviewRepository.findDueReviewItems('user-123', new Date(), 20);
+ *
+ * // Persist a review and its log entry
+ * await reviewRepository.saveReview(nextState, 4);
+ */
+
+import { PrismaClient, Prisma, ExerciseReviewState as PrismaExerciseReviewState } from "@prisma/client";
+import { ExerciseReviewState, ReviewQueueItem } from "../types";
+import { AppError } from "@/shared/middleware/errorHandler";
+import { ErrorCodes, HttpStatus } from "@/shared/types";
+import { logger } from "@/shared/utils/logger";
+
+/**
+ * Data access layer for spaced-repetition review operations.
+ *
+ * @class ReviewRepository
+ */
+export class ReviewRepository {
+  /**
+   * Creates an instance of ReviewRepository.
+   *
+   * @param {PrismaClient} prisma - Prisma client instance for database operations
+   */
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Retrieves the review state of an exercise for a user.
+   *
+   * @param {string} userId - The unique identifier of the user
+   * @param {string} exerciseId - The unique identifier of the exercise
+   * @returns {Promise<ExerciseReviewState | null>} Promise resolving to the review state or null if never reviewed
+   * @throws {AppError} When database operation fails (500 INTERNAL_SERVER_ERROR)
+   */
+  async findReviewState(userId: string, exerciseId: string): Promise<ExerciseReviewState | null> {
+    try {
+      const state = await this.prisma.exerciseReviewState.findUnique({
+        where: { userId_exerciseId: { userId, exerciseId } },
+      });
+
+      return state ? this.mapPrismaReviewState(state) : null;
+    } catch (error) {
+      logger.error("Error finding review state", { error, userId, exerciseId });
+      throw new AppError(
+        "Failed to retrieve review state",
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        ErrorCodes.DATABASE_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Retrieves exercises whose review is due, oldest due date first.
+   *
+   * @param {string} userId - The unique identifier of the user
+   * @param {Date} now - Reference time for due date comparison
+   * @param {number} limit - Maximum number of items to return
+   * @param {string} [courseId] - Optional course to restrict the queue to
+   * @returns {Promise<ReviewQueueItem[]>} Promise resolving to due review items
+   * @throws {AppError} When database operation fails (500 INTERNAL_SERVER_ERROR)
+   */
+  async findDueReviewItems(
+    userId: string,
+    now: Date,
+    limit: number,
+    courseId?: string,
+  ): Promise<ReviewQueueItem[]> {
+    try {
+      const states = await this.prisma.exerciseReviewState.findMany({
+        where: this.buildDueWhere(userId, now, courseId),
+        include: { exercise: true },
+        orderBy: { dueAt: "asc" },
+        take: limit,
+      });
+
+      return states.map((state) => ({
+        exercise_id: state.exerciseId,
+        exercise_type: state.exercise.exerciseType.replace(/_/g, "-"),
+        data: state.exercise.data,
+        is_new: false,
+        due_at: state.dueAt,
+        repetitions: state.repetitions,
+        interval_days: state.intervalDays,
+        ease_factor: state.easeFactor,
+      }));
+    } catch (error) {
+      logger.error("Error finding due review items", { error, userId });
+      throw new AppError(
+        "Failed to retrieve review queue",
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        ErrorCodes.DATABASE_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Counts exercises whose review is due.
+   *
+   * @param {string} userId - The unique identifier of the user
+   * @param {Date} now - Reference time for due date comparison
+   * @param {string} [courseId] - Optional course to restrict the count to
+   * @returns {Promise<number>} Promise resolving to the number of due reviews
+   * @throws {AppError} When database operation fails (500 INTERNAL_SERVER_ERROR)
+   */
+  async countDueReviews(userId: string, now: Date, courseId?: string): Promise<number> {
+    try {
+      return await this.prisma.exerciseReviewState.count({
+        where: this.buildDueWhere(userId, now, courseId),
+      });
+    } catch (error) {
+      logger.error("Error counting due reviews", { error, userId });
+      throw new AppError(
+        "Failed to count due reviews",
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        ErrorCodes.DATABASE_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Retrieves never-reviewed exercises from lessons the user has completed.
+   *
+   * Informative exercises are excluded because they have nothing to recall.
+   *
+   * @param {string} userId - The unique identifier of the user
+   * @param {number} limit - Maximum number of items to return
+   * @param {string} [courseId] - Optional course to restrict the results to
+   * @returns {Promise<ReviewQueueItem[]>} Promise resolving to new review items, due immediately
+   * @throws {AppError} When database operation fails (500 INTERNAL_SERVER_ERROR)
+   */
+  async findNewReviewItems(userId: string, limit: number, courseId?: string): Promise<ReviewQueueItem[]> {
+    if (limit <= 0) {
+      return [];
+    }
+
+    try {
+      const assignments = await this.prisma.lessonExercise.findMany({
+        where: {
+          lesson: {
+            deletedAt: null,
+            completions: { some: { userId } },
+            ...(courseId && { module: { section: { level: { courseId } } } }),
+          },
+          exercise: {
+            deletedAt: null,
+            exerciseType: { not: "informative" },
+            reviewStates: { none: { userId } },
+          },
+        },
+        include: {
+          exercise: true,
+          lesson: { select: { completions: { where: { userId }, select: { completedAt: true } } } },
+        },
+        distinct: ["exerciseId"],
+        orderBy: [{ lessonId: "asc" }, { order: "asc" }],
+        take: limit,
+      });
+
+      return assignments.map((assignment) => ({
+        exercise_id: assignment.exerciseId,
+        exercise_type: assignment.exercise.exerciseType.replace(/_/g, "-"),
+        data: assignment.exercise.data,
+        is_new: true,
+        due_at: assignment.lesson.completions[0]?.completedAt ?? new Date(),
+        repetitions: 0,
+        interval_days: 0,
+        ease_factor: 2.5,
+      }));
+    } catch (error) {
+      logger.error("Error finding new review items", { error, userId });
+      throw new AppError(
+        "Failed to retrieve review queue",
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        ErrorCodes.DATABASE_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Retrieves the lessons the user has completed that still contain the exercise.
+   *
+   * Deleted lessons and deleted exercises are ignored, so an empty result means the exercise
+   * is not reviewable by the user.
+   *
+   * @param {string} userId - The unique identifier of the user
+   * @param {string} exerciseId - The unique identifier of the exercise
+   * @returns {Promise<string[]>} Promise resolving to the IDs of the completed lessons containing the exercise
+   * @throws {AppError} When database operation fails (500 INTERNAL_SERVER_ERROR)
+   */
+  async findCompletedLessonIdsWithExercise(userId: string, exerciseId: string): Promise<string[]> {
+    try {
+      const assignments = await this.prisma.lessonExercise.findMany({
+        where: {
+          exerciseId,
+          exercise: { deletedAt: null },
+          lesson: { deletedAt: null, completions: { some: { userId } } },
+        },
+        select: { lessonId: true },
+        orderBy: { lessonId: "asc" },
+      });
+
+      return assignments.map((assignment) => assignment.lessonId);
+    } catch (error) {
+      logger.error("Error finding completed lessons for exercise", { error, userId, exerciseId });
+      throw new AppError(
+        "Failed to retrieve review state",
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        ErrorCodes.DATABASE_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Persists the new review state of an exercise and appends a review log entry atomically.
+   *
+   * @param {ExerciseReviewState} state - The review state after applying the review
+   * @param {number} quality - Recall quality (0-5) that produced the state
+   * @returns {Promise<ExerciseReviewState>} Promise resolving to the stored review state
+   * @throws {AppError} When user or exercise does not exist (404 NOT_FOUND) or database operation fails (500 INTERNAL_SERVER_ERROR)
+   */
+  async saveReview(state: ExerciseReviewState, quality: number): Promise<ExerciseReviewState> {
+    const values = {
+      easeFactor: state.ease_factor,
+      intervalDays: state.interval_days,
+      repetitions: state.repetitions,
+      lapses: state.lapses,
+      dueAt: state.due_at,
+      lastReviewedAt: state.last_reviewed_at ?? null,
+      lastQuality: quality,
+    };
+
+    try {
+      const [saved] = await this.prisma.$transaction([
+        this.prisma.exerciseReviewState.upsert({
+          where: { userId_exerciseId: { userId: state.user_id, exerciseId: state.exercise_id } },
+          create: { userId: state.user_id, exerciseId: state.exercise_id, ...values },
+          update: values,
+        }),
+        this.prisma.exerciseReviewLog.create({
+          data: {
+            userId: state.user_id,
+            exerciseId: state.exercise_id,
+            quality,
+            intervalDays: state.interval_days,
+            easeFactor: state.ease_factor,
+            ...(state.last_reviewed_at && { reviewedAt: state.last_reviewed_at }),
+          },
+        }),
+      ]);
+
+      return this.mapPrismaReviewState(saved);
+    } catch (error) {
+      logger.error("Error saving review", { error, userId: state.user_id, exerciseId: state.exercise_id });
+
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2003") {
+        throw new AppError(
+          "User or exercise not found",
+          HttpStatus.NOT_FOUND,
+          ErrorCodes.NOT_FOUND,
+        );
+      }
+
+      throw new AppError(
+        "Failed to save review",
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        ErrorCodes.DATABASE_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Builds the filter for review states that are due, optionally within a course.
+   *
+   * @private
+   */
+  private buildDueWhere(userId: string, now: Date, courseId?: string): Prisma.ExerciseReviewStateWhereInput {
+    return {
+      userId,
+      dueAt: { lte: now },
+      exercise: {
+        deletedAt: null,
+        ...(courseId && {
+          lessons: { some: { lesson: { module: { section: { level: { courseId } } } } } },
+        }),
+      },
+    };
+  }
+
+  /**
+   * Maps Prisma review state model to ExerciseReviewState interface.
+   *
+   * @private
+   */
+  private mapPrismaReviewState(state: PrismaExerciseReviewState): ExerciseReviewState {
+    return {
+      user_id: state.userId,
+      exercise_id: state.exerciseId,
+      ease_factor: state.easeFactor,
+      interval_days: state.intervalDays,
+      repetitions: state.repetitions,
+      lapses: state.lapses,
+      due_at: state.dueAt,
+      last_reviewed_at: state.lastReviewedAt ?? undefined,
+      last_quality: state.lastQuality ?? undefined,
+    };
+  }
+}
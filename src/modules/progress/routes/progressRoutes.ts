@@ -50,6 +50,22 @@
  * // GET /api/v1/progress/completions - Get user lesson completions
  * // PUT /api/v1/progress/sync - Sync offline progress data
  * // PUT /api/v1/progress/lives - Update user lives count
+ * // GET /api/v1/progress/lives/config - Get lives cap and regeneration interval
+ * 
+ * @example
+ * // Available streak endpoints:
+ * // GET /api/v1/progress/streak/history - Get daily activity for streak calendars
+ * // POST /api/v1/progress/streak/freeze - Purchase a streak freeze with experience points
+ * 
+ * @example
+ * // Available spaced-repetition review endpoints:
+ * // GET /api/v1/progress/review - Get exercises due for review
+ * // POST /api/v1/progress/review/:exerciseId - Record a review and schedule the next one
+ * 
+ * @example
+ * // Available leaderboard endpoints:
+ * // GET /api/v1/progress/leaderboard - Get XP or streak leaderboard with the caller's rank
+ * // GET /api/v1/progress/leaderboard/league - Get the caller's weekly league standings
  * 
  * @example
  * // Available lesson completion endpoints:
@@ -61,6 +77,7 @@
  * // Available administrative endpoints:
  * // POST /api/v1/progress/bonus - Award bonus experience (admin only)
  * // POST /api/v1/progress/reset - Reset user progress (admin only)
+ * // PUT /api/v1/progress/lives/config - Update lives cap and regeneration interval (admin only)
  */
 
 import { Router } from 'express';
@@ -68,14 +85,26 @@ import { PrismaClient } from '@prisma/client';
 import { ProgressController } from '../controllers/progressController';
 import { ProgressService } from '../services/progressService';
 import { ProgressRepository } from '../repositories/progressRepository';
+import { ReviewController } from '../controllers/reviewController';
+import { ReviewService } from '../services/reviewService';
+import { ReviewRepository } from '../repositories/reviewRepository';
+import { LeaderboardController } from '../controllers/leaderboardController';
+import { LeaderboardService } from '../services/leaderboardService';
+import { LeaderboardRepository } from '../repositories/leaderboardRepository';
 import { 
   UpdateUserProgressSchema,
   LessonIdParamSchema,
   LessonCompletionBodySchema,
   OfflineProgressSyncSchema,
   UpdateUserLivesSchema,
+  UpdateLivesConfigSchema,
   AwardBonusSchema,
-  ResetProgressSchema
+  ResetProgressSchema,
+  StreakHistoryQuerySchema,
+  ReviewQueueQuerySchema,
+  ReviewExerciseParamSchema,
+  RecordReviewBodySchema,
+  LeaderboardQuerySchema
 } from '../types';
 import { authenticateToken, requireRole } from '@/shared/middleware/auth';
 import { validate } from '@/shared/middleware/validation';
@@ -124,6 +153,12 @@ export function createProgressRoutes(prisma: PrismaClient): Router {
   const progressRepository = new ProgressRepository(prisma);
   const progressService = new ProgressService(progressRepository, prisma);
   const progressController = new ProgressController(progressService);
+  const reviewRepository = new ReviewRepository(prisma);
+  const reviewService = new ReviewService(reviewRepository, prisma);
+  const reviewController = new ReviewController(reviewService);
+  const leaderboardRepository = new LeaderboardRepository(prisma);
+  const leaderboardService = new LeaderboardService(leaderboardRepository);
+  const leaderboardController = new LeaderboardController(leaderboardService);
 
   // All progress routes require authentication
   router.use(authenticateToken);
@@ -138,7 +173,7 @@ export function createProgressRoutes(prisma: PrismaClient): Router {
    *       - Progress
    *       - User
    *     summary: Get user progress
-   *     description: Retrieve comprehensive progress information for the authenticated user including experience points, current streak, lives, and last completed lesson
+   *     description: Retrieve comprehensive progress information for the authenticated user including experience points, current streak, lives, and last completed lesson. Lives regenerate one at a time per configured interval up to the configured maximum; lives_current already includes lives regenerated since the last change.
    *     security:
    *       - bearerAuth: []
    *     responses:
@@ -166,12 +201,39 @@ export function createProgressRoutes(prisma: PrismaClient): Router {
    *                     lives_current:
    *                       type: integer
    *                       minimum: 0
-   *                       maximum: 5
    *                       example: 4
+   *                     lives_max:
+   *                       type: integer
+   *                       description: Configured maximum number of lives
+   *                       example: 5
+   *                     lives_updated_at:
+   *                       type: string
+   *                       format: date-time
+   *                       description: Start of the current regeneration period
+   *                     next_life_at:
+   *                       type: string
+   *                       format: date-time
+   *                       nullable: true
+   *                       description: When the next life regenerates, null when lives are full
+   *                       example: "2024-01-20T11:00:00.000Z"
    *                     streak_current:
    *                       type: integer
    *                       minimum: 0
    *                       example: 7
+   *                     longest_streak:
+   *                       type: integer
+   *                       minimum: 0
+   *                       example: 21
+   *                     streak_freezes:
+   *                       type: integer
+   *                       minimum: 0
+   *                       maximum: 2
+   *                       example: 1
+   *                     last_streak_date:
+   *                       type: string
+   *                       format: date
+   *                       nullable: true
+   *                       description: Last calendar day, in the user's timezone, that counted towards the streak
    *                     last_completed_lesson_id:
    *                       type: string
    *                       nullable: true
@@ -326,7 +388,7 @@ export function createProgressRoutes(prisma: PrismaClient): Router {
    *       - Lessons
    *       - Completion
    *     summary: Complete lesson
-   *     description: Mark a lesson as completed and update user progress with experience points and completion tracking
+   *     description: Mark a lesson as completed and update user progress with experience points and completion tracking. The score is graded server-side from the submitted answers, which are required when the lesson has gradable exercises, and each wrong answer costs one life; graded completions are rejected while the user has no lives left.
    *     security:
    *       - bearerAuth: []
    *     parameters:
@@ -343,19 +405,31 @@ export function createProgressRoutes(prisma: PrismaClient): Router {
    *         application/json:
    *           schema:
    *             type: object
-   *             required:
-   *               - score
-   *               - time_spent_seconds
    *             properties:
-   *               score:
-   *                 type: integer
-   *                 minimum: 0
-   *                 maximum: 100
-   *                 example: 85
    *               time_spent_seconds:
    *                 type: integer
    *                 minimum: 0
    *                 example: 300
+   *               answers:
+   *                 type: array
+   *                 description: Learner answers graded server-side to compute the lesson score, required when the lesson has gradable exercises, recorded as exercise attempts
+   *                 items:
+   *                   type: object
+   *                   required:
+   *                     - exercise_id
+   *                     - answer
+   *                   properties:
+   *                     exercise_id:
+   *                       type: string
+   *                       example: "exercise-001"
+   *                     answer:
+   *                       type: object
+   *                       example:
+   *                         value: true
+   *                     duration_seconds:
+   *                       type: integer
+   *                       minimum: 0
+   *                       example: 12
    *               completed_at:
    *                 type: string
    *                 format: date-time
@@ -398,9 +472,11 @@ export function createProgressRoutes(prisma: PrismaClient): Router {
    *                       format: date-time
    *                       example: "2024-01-20T10:30:00.000Z"
    *       400:
-   *         description: Invalid input data or lesson ID
+   *         description: Invalid input data or lesson ID, or missing answers for a lesson with gradable exercises
    *       401:
    *         description: Invalid or missing authentication token
+   *       403:
+   *         description: No lives left to submit graded answers, the lesson is locked by the course unlock rules, or the lesson belongs to a private course the user has not joined
    *       404:
    *         description: Lesson not found
    *       409:
@@ -574,25 +650,32 @@ export function createProgressRoutes(prisma: PrismaClient): Router {
    *                   type: object
    *                   required:
    *                     - lesson_id
-   *                     - score
-   *                     - time_spent_seconds
    *                     - completed_at
    *                   properties:
    *                     lesson_id:
    *                       type: string
    *                       example: "lesson-001"
-   *                     score:
-   *                       type: integer
-   *                       minimum: 0
-   *                       maximum: 100
-   *                       example: 85
    *                     time_spent_seconds:
    *                       type: integer
    *                       minimum: 0
    *                       example: 300
+   *                     answers:
+   *                       type: array
+   *                       description: Answers given offline, graded server-side to compute the score of the completion. Required for lessons with gradable exercises; each wrong answer costs a life
+   *                       items:
+   *                         type: object
+   *                         properties:
+   *                           exercise_id:
+   *                             type: string
+   *                             example: "exercise-001"
+   *                           answer:
+   *                             type: object
+   *                             example:
+   *                               value: true
    *                     completed_at:
    *                       type: string
    *                       format: date-time
+   *                       description: When the lesson was completed offline. Dates more than 5 minutes in the future are rejected; dates before the account was created are skipped
    *                       example: "2024-01-20T10:30:00.000Z"
    *               experience_gained:
    *                 type: integer
@@ -622,12 +705,26 @@ export function createProgressRoutes(prisma: PrismaClient): Router {
    *                     synced_completions:
    *                       type: integer
    *                       example: 3
-   *                     total_experience_gained:
-   *                       type: integer
-   *                       example: 50
-   *                     conflicts_resolved:
+   *                     skipped_duplicates:
    *                       type: integer
+   *                       description: Completions of lessons the user had already completed
    *                       example: 0
+   *                     skipped_completions:
+   *                       type: array
+   *                       description: Completions left out of the sync, with the reason
+   *                       items:
+   *                         type: object
+   *                         properties:
+   *                           lesson_id:
+   *                             type: string
+   *                             example: "lesson-002"
+   *                           completed_at:
+   *                             type: string
+   *                             format: date-time
+   *                           reason:
+   *                             type: string
+   *                             enum: [before_account_creation, lesson_not_found, course_not_joined, lesson_locked, answers_required, no_lives]
+   *                             description: answers_required when a lesson with gradable exercises is sent without answers; no_lives when graded answers are sent with no lives left
    *                     updated_progress:
    *                       $ref: '#/components/schemas/UserProgress'
    *       400:
@@ -649,8 +746,9 @@ export function createProgressRoutes(prisma: PrismaClient): Router {
    *       - Progress
    *       - Gamification
    *       - Lives
-   *     summary: Update user lives
-   *     description: Update the user's current lives count for gamification purposes
+   *       - Admin
+   *     summary: Adjust user lives
+   *     description: Add or subtract lives for a target user (admin only). Lives regenerated since the last change are applied first, and the result is clamped between 0 and the configured maximum.
    *     security:
    *       - bearerAuth: []
    *     requestBody:
@@ -660,17 +758,22 @@ export function createProgressRoutes(prisma: PrismaClient): Router {
    *           schema:
    *             type: object
    *             required:
-   *               - lives_current
+   *               - target_user_id
+   *               - lives_change
    *             properties:
-   *               lives_current:
+   *               target_user_id:
+   *                 type: string
+   *                 format: uuid
+   *                 example: "123e4567-e89b-12d3-a456-426614174000"
+   *               lives_change:
    *                 type: integer
-   *                 minimum: 0
-   *                 maximum: 5
-   *                 example: 3
+   *                 minimum: -100
+   *                 maximum: 100
+   *                 description: Lives to add (positive) or subtract (negative)
+   *                 example: 2
    *               reason:
    *                 type: string
-   *                 enum: [lost, gained, reset]
-   *                 example: "lost"
+   *                 example: "Support adjustment"
    *     responses:
    *       200:
    *         description: User lives updated successfully
@@ -684,7 +787,7 @@ export function createProgressRoutes(prisma: PrismaClient): Router {
    *                   example: true
    *                 message:
    *                   type: string
-   *                   example: "User lives updated successfully"
+   *                   example: "Lives updated successfully"
    *                 data:
    *                   type: object
    *                   properties:
@@ -704,13 +807,208 @@ export function createProgressRoutes(prisma: PrismaClient): Router {
    *                       nullable: true
    *                       example: "2024-01-20T11:30:00.000Z"
    *       400:
-   *         description: Invalid lives count or reason
+   *         description: Invalid user ID or lives change
    *       401:
    *         description: Invalid or missing authentication token
+   *       403:
+   *         description: Insufficient permissions (admin required)
    *       404:
    *         description: User progress not found
    */
-  router.put('/progress/lives', validate({ body: UpdateUserLivesSchema }), progressController.updateUserLives);
+  router.put('/progress/lives', requireRole(['admin']), validate({ body: UpdateUserLivesSchema }), progressController.updateUserLives);
+
+  /**
+   * @swagger
+   * /api/v1/progress/lives/config:
+   *   get:
+   *     tags:
+   *       - Progress
+   *       - Gamification
+   *       - Lives
+   *     summary: Get lives configuration
+   *     description: Retrieve the maximum number of lives and the interval in which one life regenerates
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Lives configuration retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     max_lives:
+   *                       type: integer
+   *                       example: 5
+   *                     regeneration_minutes:
+   *                       type: integer
+   *                       example: 30
+   *                     updated_at:
+   *                       type: string
+   *                       format: date-time
+   *                       nullable: true
+   *                       description: Null while the defaults are in use
+   *       401:
+   *         description: Invalid or missing authentication token
+   *   put:
+   *     tags:
+   *       - Progress
+   *       - Gamification
+   *       - Lives
+   *       - Admin
+   *     summary: Update lives configuration
+   *     description: Change the maximum number of lives and/or the regeneration interval (admin only). Users above a lowered maximum are capped the next time their lives are read or changed.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               max_lives:
+   *                 type: integer
+   *                 minimum: 1
+   *                 maximum: 100
+   *                 example: 5
+   *               regeneration_minutes:
+   *                 type: integer
+   *                 minimum: 1
+   *                 maximum: 10080
+   *                 example: 30
+   *     responses:
+   *       200:
+   *         description: Lives configuration updated successfully
+   *       400:
+   *         description: Invalid configuration values
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       403:
+   *         description: Insufficient permissions (admin role required)
+   */
+  router.get('/progress/lives/config', progressController.getLivesConfig);
+  router.put(
+    '/progress/lives/config',
+    requireRole(['admin']),
+    validate({ body: UpdateLivesConfigSchema }),
+    progressController.updateLivesConfig
+  );
+
+  // Streak endpoints
+
+  /**
+   * @swagger
+   * /api/v1/progress/streak/history:
+   *   get:
+   *     tags:
+   *       - Progress
+   *       - Gamification
+   *     summary: Get streak history
+   *     description: Retrieve the authenticated user's daily activity for streak calendars and heatmaps. Days are calendar days in the user's timezone (set on the user profile, UTC by default). Only days with completed lessons or a used streak freeze are listed. The range defaults to the last 365 days and cannot exceed 366 days. current_streak is 0 when missed days can no longer be covered by the available freezes.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: from
+   *         schema:
+   *           type: string
+   *           format: date
+   *         description: First day of the range (YYYY-MM-DD); defaults to 364 days before the last day
+   *         example: "2025-01-01"
+   *       - in: query
+   *         name: to
+   *         schema:
+   *           type: string
+   *           format: date
+   *         description: Last day of the range (YYYY-MM-DD); defaults to today in the user's timezone
+   *         example: "2025-03-31"
+   *     responses:
+   *       200:
+   *         description: Streak history retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     timezone:
+   *                       type: string
+   *                       example: "America/Lima"
+   *                     current_streak:
+   *                       type: integer
+   *                       example: 12
+   *                     longest_streak:
+   *                       type: integer
+   *                       example: 30
+   *                     streak_freezes:
+   *                       type: integer
+   *                       example: 1
+   *                     from:
+   *                       type: string
+   *                       format: date
+   *                     to:
+   *                       type: string
+   *                       format: date
+   *                     days:
+   *                       type: array
+   *                       items:
+   *                         type: object
+   *                         properties:
+   *                           activity_date:
+   *                             type: string
+   *                             format: date
+   *                             example: "2025-03-30"
+   *                           lessons_completed:
+   *                             type: integer
+   *                             example: 2
+   *                           experience_gained:
+   *                             type: integer
+   *                             example: 24
+   *                           freeze_used:
+   *                             type: boolean
+   *                             description: True when the day was missed and covered by a streak freeze
+   *                             example: false
+   *       400:
+   *         description: Invalid date range
+   *       401:
+   *         description: Invalid or missing authentication token
+   */
+  router.get('/progress/streak/history', validate({ query: StreakHistoryQuerySchema }), progressController.getStreakHistory);
+
+  /**
+   * @swagger
+   * /api/v1/progress/streak/freeze:
+   *   post:
+   *     tags:
+   *       - Progress
+   *       - Gamification
+   *     summary: Purchase streak freeze
+   *     description: Spend 100 experience points on a streak freeze. Each freeze covers one missed day, keeping the streak alive when the user is active again. Users can hold at most 2 freezes; one is also earned every time the streak reaches a multiple of 7 days.
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Streak freeze purchased successfully; returns the updated user progress
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       409:
+   *         description: Maximum number of streak freezes already held
+   *       422:
+   *         description: Not enough experience points
+   */
+  router.post('/progress/streak/freeze', progressController.purchaseStreakFreeze);
 
   // Admin-only endpoints
 
@@ -991,6 +1289,377 @@ export function createProgressRoutes(prisma: PrismaClient): Router {
     progressController.getLessonCompletionStats
   );
 
+  // Spaced-repetition review endpoints
+
+  /**
+   * @swagger
+   * /api/v1/progress/review:
+   *   get:
+   *     tags:
+   *       - Progress
+   *       - Review
+   *     summary: Get review queue
+   *     description: Retrieve exercises the authenticated user should review now. Exercises whose review is due are returned first (oldest due date first), followed by never-reviewed exercises from completed lessons to fill the remaining slots. Informative exercises are never queued.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *           default: 20
+   *         description: Maximum number of exercises to return
+   *       - in: query
+   *         name: course_id
+   *         schema:
+   *           type: string
+   *         description: Restrict the queue to exercises of a single course
+   *         example: "spanish-101"
+   *     responses:
+   *       200:
+   *         description: Review queue retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     items:
+   *                       type: array
+   *                       items:
+   *                         type: object
+   *                         properties:
+   *                           exercise_id:
+   *                             type: string
+   *                             example: "vof-001"
+   *                           exercise_type:
+   *                             type: string
+   *                             example: "vof"
+   *                           data:
+   *                             type: object
+   *                           is_new:
+   *                             type: boolean
+   *                             example: false
+   *                           due_at:
+   *                             type: string
+   *                             format: date-time
+   *                           repetitions:
+   *                             type: integer
+   *                             example: 2
+   *                           interval_days:
+   *                             type: integer
+   *                             example: 6
+   *                           ease_factor:
+   *                             type: number
+   *                             example: 2.5
+   *                     due_count:
+   *                       type: integer
+   *                       description: Total number of exercises currently due, including those beyond the limit
+   *                       example: 12
+   *                     new_count:
+   *                       type: integer
+   *                       description: Number of never-reviewed exercises included in items
+   *                       example: 3
+   *       400:
+   *         description: Invalid query parameters
+   *       401:
+   *         description: Invalid or missing authentication token
+   */
+  router.get('/progress/review', validate({ query: ReviewQueueQuerySchema }), reviewController.getReviewQueue);
+
+  /**
+   * @swagger
+   * /api/v1/progress/review/{exerciseId}:
+   *   post:
+   *     tags:
+   *       - Progress
+   *       - Review
+   *     summary: Record exercise review
+   *     description: Record how well the authenticated user recalled an exercise and schedule its next review using the SM-2 algorithm. Send either a self-reported quality (0-5) or an answer, which is graded server-side (correct = 4, partially correct = 3, incorrect = 1).
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: exerciseId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 15
+   *         description: Exercise ID
+   *         example: "vof-001"
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               quality:
+   *                 type: integer
+   *                 minimum: 0
+   *                 maximum: 5
+   *                 description: Recall quality from 0 (complete blackout) to 5 (perfect recall)
+   *                 example: 4
+   *               answer:
+   *                 type: object
+   *                 description: Learner answer in the same format as POST /api/v1/exercises/{id}/submit
+   *                 example: { "value": true }
+   *     responses:
+   *       200:
+   *         description: Review recorded successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Review recorded successfully"
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     state:
+   *                       type: object
+   *                       properties:
+   *                         exercise_id:
+   *                           type: string
+   *                           example: "vof-001"
+   *                         ease_factor:
+   *                           type: number
+   *                           example: 2.5
+   *                         interval_days:
+   *                           type: integer
+   *                           example: 6
+   *                         repetitions:
+   *                           type: integer
+   *                           example: 2
+   *                         lapses:
+   *                           type: integer
+   *                           example: 0
+   *                         due_at:
+   *                           type: string
+   *                           format: date-time
+   *                     quality:
+   *                       type: integer
+   *                       example: 4
+   *                     grading:
+   *                       type: object
+   *                       description: Grading result, present only when an answer was submitted
+   *       400:
+   *         description: Invalid input data or neither quality nor answer provided
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       404:
+   *         description: Exercise not found, not part of a completed lesson or its course is not readable
+   */
+  router.post(
+    '/progress/review/:exerciseId',
+    validate({ params: ReviewExerciseParamSchema, body: RecordReviewBodySchema }),
+    reviewController.recordReview
+  );
+
+  // Leaderboard endpoints
+
+  /**
+   * @swagger
+   * /api/v1/progress/leaderboard:
+   *   get:
+   *     tags:
+   *       - Progress
+   *       - Leaderboard
+   *     summary: Get leaderboard
+   *     description: Rank learners by experience points or current streak. The scope limits the ranking to all learners, to learners of one course, or to the caller and the users they follow (muted users excluded). Weekly windows start on Monday 00:00 UTC and monthly windows on the first day of the month; windowed and course rankings sum the experience earned from lesson completions in that period. Users tied on value share the same rank. The caller's own rank is always returned in current_user.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: metric
+   *         schema:
+   *           type: string
+   *           enum: [xp, streak]
+   *           default: xp
+   *         description: Value to rank by. Streak leaderboards only support the all_time window and the global or following scopes.
+   *       - in: query
+   *         name: scope
+   *         schema:
+   *           type: string
+   *           enum: [global, course, following]
+   *           default: global
+   *         description: Which learners are ranked
+   *       - in: query
+   *         name: window
+   *         schema:
+   *           type: string
+   *           enum: [weekly, monthly, all_time]
+   *           default: all_time
+   *         description: Time window for experience rankings
+   *       - in: query
+   *         name: course_id
+   *         schema:
+   *           type: string
+   *         description: Course to rank; required for the course scope and not allowed otherwise
+   *         example: "spanish-101"
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *           default: 20
+   *         description: Maximum number of entries to return
+   *     responses:
+   *       200:
+   *         description: Leaderboard retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     metric:
+   *                       type: string
+   *                       example: "xp"
+   *                     scope:
+   *                       type: string
+   *                       example: "following"
+   *                     window:
+   *                       type: string
+   *                       example: "weekly"
+   *                     course_id:
+   *                       type: string
+   *                     period_start:
+   *                       type: string
+   *                       format: date-time
+   *                       nullable: true
+   *                       description: Start of the time window, null for all_time
+   *                     entries:
+   *                       type: array
+   *                       items:
+   *                         type: object
+   *                         properties:
+   *                           rank:
+   *                             type: integer
+   *                             example: 1
+   *                           user_id:
+   *                             type: string
+   *                             format: uuid
+   *                           username:
+   *                             type: string
+   *                             nullable: true
+   *                             example: "ana"
+   *                           profile_picture_url:
+   *                             type: string
+   *                             nullable: true
+   *                           value:
+   *                             type: integer
+   *                             example: 320
+   *                     current_user:
+   *                       type: object
+   *                       properties:
+   *                         rank:
+   *                           type: integer
+   *                           example: 1
+   *                         user_id:
+   *                           type: string
+   *                           format: uuid
+   *                         username:
+   *                           type: string
+   *                           nullable: true
+   *                           example: "ana"
+   *                         profile_picture_url:
+   *                           type: string
+   *                           nullable: true
+   *                         value:
+   *                           type: integer
+   *                           example: 320
+   *       400:
+   *         description: Invalid query parameters
+   *       401:
+   *         description: Invalid or missing authentication token
+   */
+  router.get('/progress/leaderboard', validate({ query: LeaderboardQuerySchema }), leaderboardController.getLeaderboard);
+
+  /**
+   * @swagger
+   * /api/v1/progress/leaderboard/league:
+   *   get:
+   *     tags:
+   *       - Progress
+   *       - Leaderboard
+   *     summary: Get weekly league
+   *     description: Retrieve the caller's league for the current week (Monday 00:00 UTC to the next Monday), ranked by experience earned this week. Learners join the week's league on their first request; new learners start in bronze. At the end of the week the top 20% of a tier who earned experience are promoted and the bottom 20% are demoted (tiers bronze, silver, gold, sapphire, diamond). The zone of each standing shows where the learner currently stands. Up to 100 entries are returned; current_user is always included.
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: League retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     tier:
+   *                       type: string
+   *                       enum: [bronze, silver, gold, sapphire, diamond]
+   *                     week_start:
+   *                       type: string
+   *                       format: date-time
+   *                     week_end:
+   *                       type: string
+   *                       format: date-time
+   *                     promotion_count:
+   *                       type: integer
+   *                       example: 6
+   *                     demotion_count:
+   *                       type: integer
+   *                       example: 6
+   *                     entries:
+   *                       type: array
+   *                       items:
+   *                         type: object
+   *                         properties:
+   *                           rank:
+   *                             type: integer
+   *                           user_id:
+   *                             type: string
+   *                             format: uuid
+   *                           username:
+   *                             type: string
+   *                             nullable: true
+   *                           value:
+   *                             type: integer
+   *                           zone:
+   *                             type: string
+   *                             enum: [promotion, safe, demotion]
+   *                     current_user:
+   *                       type: object
+   *                       description: The caller's standing, with the same fields as entries
+   *       401:
+   *         description: Invalid or missing authentication token
+   */
+  router.get('/progress/leaderboard/league', leaderboardController.getLeague);
+
   return router;
 }
 
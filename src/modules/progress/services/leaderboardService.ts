@@ -0,0 +1,287 @@
+// src/modules/progress/services/leaderboardService.ts
+
+/**
+ * Leaderboard and weekly league service for the WayrApp language learning platform.
+ *
+ * Leaderboards rank learners by experience points or current streak. They can be scoped to all
+ * learners, to a single course, or to the users the caller follows (muted users are left out), and
+ * experience leaderboards can be limited to the current week or month. All-time rankings use the
+ * totals stored in user progress; windowed and course rankings sum the experience recorded on lesson
+ * completions. Every response includes the caller's own rank, even when they are outside the top
+ * entries. Ties share the same rank.
+ *
+ * Leagues are weekly competitions between learners of the same tier. Weeks start on Monday at 00:00
+ * UTC. Learners join the current week's league the first time they open it that week; their tier is
+ * derived from the previous week's result: the top 20% of a tier (with experience earned) are promoted,
+ * the bottom 20% are demoted, and everyone else stays. Members with equal experience are ordered by
+ * user id. Learners who skipped a week keep their last tier, and new learners start in bronze.
+ *
+ * @module LeaderboardService
+ * @category Progress
+ * @category Services
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const leaderboardService = new LeaderboardService(new LeaderboardRepository(prisma));
+ *
+ * // Weekly experience leaderboard among followed users
+ * const board = await leaderboardService.getLeaderboard('user-123', {
+ *   metric: 'xp', scope: 'following', window: 'weekly', limit: 20
+ * });
+ *
+ * // Current week's league standings
+ * const league = await leaderboardService.getLeague('user-123');
+ * console.log(league.tier, league.current_user.zone);
+ */
+
+import {
+  ExperienceFilter,
+  LeaderboardRepository,
+  LeaderboardRow,
+} from "../repositories/leaderboardRepository";
+import {
+  Leaderboard,
+  LeaderboardEntry,
+  LeaderboardQuery,
+  LeaderboardWindow,
+  League,
+  LeagueStanding,
+  LeagueTier,
+} from "../types";
+import { logger } from "@/shared/utils/logger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+/**
+ * League tiers from lowest to highest
+ */
+export const LEAGUE_TIERS: LeagueTier[] = ["bronze", "silver", "gold", "sapphire", "diamond"];
+
+const LEAGUE_PROMOTION_RATE = 0.2;
+const LEAGUE_DEMOTION_RATE = 0.2;
+const MAX_LEAGUE_ENTRIES = 100;
+
+/**
+ * Business logic layer for leaderboards and weekly leagues.
+ *
+ * @class LeaderboardService
+ */
+export class LeaderboardService {
+  /**
+   * Creates an instance of LeaderboardService.
+   *
+   * @param {LeaderboardRepository} leaderboardRepository - Repository for ranking and league queries
+   */
+  constructor(private leaderboardRepository: LeaderboardRepository) {}
+
+  /**
+   * Builds a leaderboard and the caller's position in it.
+   *
+   * @param {string} userId - The unique identifier of the requesting user
+   * @param {LeaderboardQuery} query - Metric, scope, time window, optional course and entry limit
+   * @returns {Promise<Leaderboard>} Promise resolving to ranked entries and the caller's entry
+   */
+  async getLeaderboard(userId: string, query: LeaderboardQuery): Promise<Leaderboard> {
+    const periodStart = this.getPeriodStart(query.window, new Date());
+    const userIds =
+      query.scope === "following"
+        ? [userId, ...(await this.leaderboardRepository.findFollowedUserIds(userId))]
+        : undefined;
+
+    let rows: LeaderboardRow[];
+    let currentValue: number;
+    let usersAbove: number;
+
+    if (query.metric === "streak" || (query.window === "all_time" && query.scope !== "course")) {
+      const field = query.metric === "streak" ? "streakCurrent" : "experiencePoints";
+      rows = await this.leaderboardRepository.findTopProgress(field, query.limit, userIds);
+      currentValue = await this.leaderboardRepository.findProgressValue(userId, field);
+      usersAbove = await this.leaderboardRepository.countProgressAbove(field, currentValue, userIds);
+    } else {
+      const filter: ExperienceFilter = {
+        from: periodStart ?? undefined,
+        courseId: query.course_id,
+        userIds,
+      };
+      rows = await this.leaderboardRepository.findTopExperience(filter, query.limit);
+      currentValue = await this.leaderboardRepository.sumExperience(userId, filter);
+      usersAbove = await this.leaderboardRepository.countExperienceAbove(currentValue, filter);
+    }
+
+    const rankedRows = [...this.rankRows(rows), { user_id: userId, value: currentValue, rank: usersAbove + 1 }];
+    const [entriesWithCurrent] = await this.attachUsers([rankedRows]);
+    const entries = entriesWithCurrent!.slice(0, -1);
+    const currentUser = entriesWithCurrent![entriesWithCurrent!.length - 1]!;
+
+    return {
+      metric: query.metric,
+      scope: query.scope,
+      window: query.window,
+      ...(query.course_id && { course_id: query.course_id }),
+      period_start: periodStart,
+      entries,
+      current_user: currentUser,
+    };
+  }
+
+  /**
+   * Retrieves the caller's league for the current week, enrolling them if needed.
+   *
+   * @param {string} userId - The unique identifier of the requesting user
+   * @param {Date} [now=new Date()] - Reference time used to determine the current week
+   * @returns {Promise<League>} Promise resolving to the league tier, standings and the caller's standing
+   */
+  async getLeague(userId: string, now: Date = new Date()): Promise<League> {
+    const weekStart = this.getPeriodStart("weekly", now)!;
+    const tier = await this.resolveLeagueTier(userId, weekStart);
+    const { standings, promotionCount, demotionCount } = await this.buildLeagueStandings(weekStart, tier);
+
+    const currentUser = standings.find((standing) => standing.user_id === userId)!;
+    const [entries, [current]] = await this.attachUsers([standings.slice(0, MAX_LEAGUE_ENTRIES), [currentUser]]);
+
+    return {
+      tier,
+      week_start: weekStart,
+      week_end: new Date(weekStart.getTime() + WEEK_MS),
+      promotion_count: promotionCount,
+      demotion_count: demotionCount,
+      entries: entries as LeagueStanding[],
+      current_user: current as LeagueStanding,
+    };
+  }
+
+  /**
+   * Determines the tier a user competes in during a week, storing the membership if it is new.
+   *
+   * @private
+   */
+  private async resolveLeagueTier(userId: string, weekStart: Date): Promise<LeagueTier> {
+    const latest = await this.leaderboardRepository.findLatestLeagueMembership(userId, weekStart);
+
+    if (latest && latest.week_start.getTime() === weekStart.getTime()) {
+      return latest.tier;
+    }
+
+    let tier: LeagueTier = latest?.tier ?? "bronze";
+
+    const previousWeekStart = new Date(weekStart.getTime() - WEEK_MS);
+    if (latest && latest.week_start.getTime() === previousWeekStart.getTime()) {
+      const { standings } = await this.buildLeagueStandings(previousWeekStart, latest.tier);
+      const zone = standings.find((standing) => standing.user_id === userId)?.zone;
+      const tierIndex = LEAGUE_TIERS.indexOf(latest.tier);
+
+      if (zone === "promotion") {
+        tier = LEAGUE_TIERS[tierIndex + 1]!;
+      } else if (zone === "demotion") {
+        tier = LEAGUE_TIERS[tierIndex - 1]!;
+      }
+
+      logger.info("League week result applied", { userId, previousTier: latest.tier, tier, zone });
+    }
+
+    return this.leaderboardRepository.upsertLeagueMembership(userId, weekStart, tier);
+  }
+
+  /**
+   * Ranks all members of a league tier by the experience earned during the week.
+   *
+   * @private
+   */
+  private async buildLeagueStandings(
+    weekStart: Date,
+    tier: LeagueTier,
+  ): Promise<{ standings: Omit<LeagueStanding, "username" | "profile_picture_url">[]; promotionCount: number; demotionCount: number }> {
+    const memberIds = await this.leaderboardRepository.findLeagueMemberIds(weekStart, tier);
+    const rows = await this.leaderboardRepository.findTopExperience({
+      from: weekStart,
+      to: new Date(weekStart.getTime() + WEEK_MS),
+      userIds: memberIds,
+    });
+
+    // Members without completions this week rank last with zero experience
+    const rankedIds = new Set(rows.map((row) => row.user_id));
+    const idleMembers = memberIds
+      .filter((id) => !rankedIds.has(id))
+      .sort()
+      .map((id) => ({ user_id: id, value: 0 }));
+
+    const ranked = this.rankRows([...rows, ...idleMembers]);
+    const memberCount = ranked.length;
+    const tierIndex = LEAGUE_TIERS.indexOf(tier);
+    const promotionCount = tierIndex < LEAGUE_TIERS.length - 1 ? Math.ceil(memberCount * LEAGUE_PROMOTION_RATE) : 0;
+    const demotionCount = tierIndex > 0 ? Math.floor(memberCount * LEAGUE_DEMOTION_RATE) : 0;
+
+    // Zones follow list position so exactly promotionCount/demotionCount members move; ties are broken by user id
+    const standings = ranked.map((row, index) => ({
+      ...row,
+      zone:
+        index < promotionCount && row.value > 0
+          ? ("promotion" as const)
+          : index >= memberCount - demotionCount
+            ? ("demotion" as const)
+            : ("safe" as const),
+    }));
+
+    return { standings, promotionCount, demotionCount };
+  }
+
+  /**
+   * Assigns competition ranks (1, 2, 2, 4) to rows ordered by value descending.
+   *
+   * @private
+   */
+  private rankRows(rows: LeaderboardRow[]): (LeaderboardRow & { rank: number })[] {
+    const ranked: (LeaderboardRow & { rank: number })[] = [];
+
+    rows.forEach((row, index) => {
+      const previous = ranked[index - 1];
+      const rank = previous && previous.value === row.value ? previous.rank : index + 1;
+      ranked.push({ ...row, rank });
+    });
+
+    return ranked;
+  }
+
+  /**
+   * Adds public user fields to groups of ranked rows with a single user lookup.
+   *
+   * @private
+   */
+  private async attachUsers<T extends LeaderboardRow & { rank: number }>(
+    groups: T[][],
+  ): Promise<(T & LeaderboardEntry)[][]> {
+    const userIds = [...new Set(groups.flat().map((row) => row.user_id))];
+    const users = new Map(
+      (await this.leaderboardRepository.findUsers(userIds)).map((user) => [user.user_id, user]),
+    );
+
+    return groups.map((rows) =>
+      rows.map((row) => ({
+        ...row,
+        username: users.get(row.user_id)?.username ?? null,
+        profile_picture_url: users.get(row.user_id)?.profile_picture_url ?? null,
+      })),
+    );
+  }
+
+  /**
+   * Returns the start of the current leaderboard window in UTC, or null for all-time.
+   *
+   * Weekly windows start on Monday at 00:00 UTC and monthly windows on the first day of the month.
+   *
+   * @private
+   */
+  private getPeriodStart(window: LeaderboardWindow, now: Date): Date | null {
+    if (window === "monthly") {
+      return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    }
+    if (window === "weekly") {
+      const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+      const daysSinceMonday = (now.getUTCDay() + 6) % 7;
+      return new Date(today - daysSinceMonday * DAY_MS);
+    }
+    return null;
+  }
+}
@@ -46,14 +46,51 @@ import {
   LessonCompletion,
   UpdateProgressDto,
   OfflineProgressSync,
+  SkippedCompletion,
+  SyncSkipReason,
   ProgressSummary,
-  UpdateUserProgressDto
+  UpdateUserProgressDto,
+  StreakHistory,
+  StreakHistoryQuery,
+  StreakUpdate,
+  LivesConfig,
+  UpdateLivesConfigDto,
+  UserProgressWithLives
 } from '../types';
 import { ProgressRepository } from '../repositories/progressRepository';
 import { AppError } from '@/shared/middleware/errorHandler';
 import { ErrorCodes, HttpStatus, QueryOptions, PaginatedResult } from '@/shared/types';
 import { logger } from '@/shared/utils/logger';
 import { PrismaClient } from '@prisma/client';
+import { ExerciseGradingService } from '@/modules/content/services/ExerciseGradingService';
+import { UnlockRuleService } from '@/modules/content/services/UnlockRuleService';
+import { EnrollmentService } from '@/modules/content/services/EnrollmentService';
+import { addDays, dateToDay, dayToDate, daysBetween, toLocalDay } from '@/shared/utils/timezone';
+
+/**
+ * Maximum number of streak freezes a learner can hold at once
+ */
+export const MAX_STREAK_FREEZES = 2;
+
+/**
+ * Experience points spent to purchase one streak freeze
+ */
+export const STREAK_FREEZE_COST = 100;
+
+/**
+ * A streak freeze is earned every time the streak reaches a multiple of this many days
+ */
+export const STREAK_FREEZE_MILESTONE_DAYS = 7;
+
+/**
+ * Default number of days returned by the streak history
+ */
+const STREAK_HISTORY_DEFAULT_DAYS = 365;
+
+/**
+ * Longest range of days the streak history can return
+ */
+const STREAK_HISTORY_MAX_DAYS = 366;
 
 /**
  * Progress tracking and gamification service for managing user learning progress.
@@ -61,6 +98,10 @@ import { PrismaClient } from '@prisma/client';
  * @class ProgressService
  */
 export class ProgressService {
+  private exerciseGradingService: ExerciseGradingService;
+  private unlockRuleService: UnlockRuleService;
+  private enrollmentService: EnrollmentService;
+
   /**
    * Creates an instance of ProgressService.
    * 
@@ -70,13 +111,17 @@ export class ProgressService {
   constructor(
     private progressRepository: ProgressRepository,
     private prisma: PrismaClient
-  ) { }
+  ) {
+    this.exerciseGradingService = new ExerciseGradingService(prisma);
+    this.unlockRuleService = new UnlockRuleService(prisma);
+    this.enrollmentService = new EnrollmentService(prisma);
+  }
 
   /**
    * Retrieves user progress data, automatically creating initial progress record if none exists.
    * 
    * This method ensures every user has a progress record by creating one with default values
-   * (0 experience points, 5 lives, 0 streak) when no existing progress is found.
+   * (0 experience points, maximum lives, 0 streak) when no existing progress is found.
    * 
    * @param {string} userId - The unique identifier of the user
    * @returns {Promise<UserProgress>} Promise resolving to the user's progress data
@@ -89,11 +134,12 @@ export class ProgressService {
     let progress = await this.progressRepository.findUserProgressByUserId(userId);
 
     if (!progress) {
-      // Create initial progress for user
+      // Create initial progress for user with full lives
+      const livesConfig = await this.progressRepository.findLivesConfig();
       progress = await this.progressRepository.createUserProgress({
         user_id: userId,
         experience_points: 0,
-        lives_current: 5,
+        lives_current: livesConfig.max_lives,
         streak_current: 0,
       });
 
@@ -103,6 +149,23 @@ export class ProgressService {
     return progress;
   }
 
+  /**
+   * Retrieves user progress with lives regenerated up to the current time.
+   * 
+   * Lives regenerate lazily: one life is restored per configured interval since lives_updated_at,
+   * up to the configured maximum. The regenerated value is computed on read and stored the next
+   * time the user's lives change.
+   * 
+   * @param {string} userId - The unique identifier of the user
+   * @returns {Promise<UserProgressWithLives>} Promise resolving to progress data with lives_max and next_life_at
+   */
+  async getUserProgressWithLives(userId: string): Promise<UserProgressWithLives> {
+    const progress = await this.getUserProgress(userId);
+    const livesConfig = await this.progressRepository.findLivesConfig();
+
+    return this.withLives(progress, livesConfig);
+  }
+
   /**
    * Updates specific fields of a user's progress record.
    * 
@@ -122,6 +185,16 @@ export class ProgressService {
       );
     }
 
+    // Setting lives directly restarts the regeneration clock
+    if (updates.lives_current !== undefined) {
+      const livesConfig = await this.progressRepository.findLivesConfig();
+      updates = {
+        ...updates,
+        lives_current: Math.max(0, Math.min(livesConfig.max_lives, updates.lives_current)),
+        lives_updated_at: new Date(),
+      };
+    }
+
     return this.progressRepository.updateUserProgress(userId, updates);
   }
 
@@ -136,11 +209,16 @@ export class ProgressService {
    * - 60-79 score: no modifier
    * - <60 score: 20% reduction
    * 
+   * The score is graded server-side from the learner answers with the ExerciseGradingService, so
+   * lessons with gradable exercises cannot be completed without answers.
+   * 
    * @param {string} userId - The unique identifier of the user
-   * @param {UpdateProgressDto} progressData - Lesson completion data including lesson_id, score, and time_spent
+   * @param {UpdateProgressDto} progressData - Lesson completion data including lesson_id, answers and time_spent
    * @returns {Promise<{progress: UserProgress, completion: LessonCompletion, experienceGained: number}>} 
    *   Promise resolving to updated progress, completion record, and experience points gained
    * @throws {AppError} When lesson is already completed (409 CONFLICT) or lesson not found (404 NOT_FOUND)
+   * @throws {AppError} When answers are missing for a lesson with gradable exercises (400 VALIDATION_ERROR)
+   * @throws {AppError} When the lesson is locked by its course unlock rules (403 AUTHORIZATION_ERROR)
    */
   async completeLesson(userId: string, progressData: UpdateProgressDto): Promise<{
     progress: UserProgress;
@@ -163,7 +241,7 @@ export class ProgressService {
 
     // Step 1: Find the lesson to get its actual moduleId and validate existence
     const lesson = await this.prisma.lesson.findUnique({
-      where: { id: progressData.lesson_id },
+      where: { id: progressData.lesson_id, deletedAt: null },
       select: { moduleId: true, experiencePoints: true } // Select only what is needed
     });
 
@@ -175,44 +253,118 @@ export class ProgressService {
       );
     }
 
+    // Lessons of private courses can only be completed by the course's learners and collaborators
+    if (!(await this.enrollmentService.canPlayLesson(userId, progressData.lesson_id))) {
+      throw new AppError(
+        'Join the course before completing its lessons',
+        HttpStatus.FORBIDDEN,
+        ErrorCodes.AUTHORIZATION_ERROR
+      );
+    }
+
+    // Lessons gated by course unlock rules cannot be completed until the rules are met
+    await this.unlockRuleService.assertLessonUnlocked(userId, progressData.lesson_id);
+
     // The lesson exists. Now we proceed with the rest of the logic,
     // using lesson.experiencePoints.
     // The hierarchical check from Task 1 now protects the Content module's direct access routes.
     // This lookup in the progress module is for a different purpose (validating existence and getting points).
 
+    // Get current progress or create if doesn't exist
+    const currentProgress = await this.getUserProgress(userId);
+
+    // The lesson score is always graded server-side. Lessons with gradable exercises need the
+    // learner answers, otherwise skipping them would also skip the lives lost to wrong answers.
+    // Each wrong answer costs a life, so graded attempts need at least one life left.
+    let livesUpdate: Pick<UpdateUserProgressDto, 'lives_current' | 'lives_updated_at'> = {};
+    const livesConfig = await this.progressRepository.findLivesConfig();
+    const now = new Date();
+    if (progressData.answers) {
+      const lives = this.regenerateLives(currentProgress, livesConfig, now);
+
+      if (lives.lives_current === 0) {
+        throw new AppError(
+          lives.next_life_at
+            ? `No lives left. Next life at ${lives.next_life_at.toISOString()}`
+            : 'No lives left',
+          HttpStatus.FORBIDDEN,
+          ErrorCodes.AUTHORIZATION_ERROR
+        );
+      }
+    }
+
+    // Answers are recorded as exercise attempts when they are checked while playing the lesson
+    // (POST /lessons/:lessonId/attempts), so grading the completion does not record them again
+    const attempt = await this.exerciseGradingService.gradeLessonAttempt(
+      progressData.lesson_id,
+      progressData.answers ?? []
+    );
+
+    if (!progressData.answers && attempt.gradable_count > 0) {
+      throw new AppError(
+        'Answers are required to complete a lesson with gradable exercises',
+        HttpStatus.BAD_REQUEST,
+        ErrorCodes.VALIDATION_ERROR
+      );
+    }
+
+    // Lessons made only of informative exercises have nothing to score
+    const score = attempt.gradable_count > 0 ? attempt.score : undefined;
+
+    const wrongAnswers = attempt.gradable_count - attempt.correct_count;
+    if (wrongAnswers > 0) {
+      livesUpdate = this.applyLivesChange(currentProgress, -wrongAnswers, livesConfig, now);
+    }
+
     // Calculate experience points based on lesson difficulty and user performance
     const experienceGained = this.calculateExperiencePoints(
       lesson.experiencePoints,
-      progressData.score
+      score
     );
 
-    // Get current progress or create if doesn't exist
-    const currentProgress = await this.getUserProgress(userId);
-
     // Create lesson completion record
     const completion = await this.progressRepository.createLessonCompletion({
       user_id: userId,
       lesson_id: progressData.lesson_id,
-      score: progressData.score ?? undefined,
+      score,
       time_spent_seconds: progressData.time_spent_seconds ?? undefined,
+      experience_gained: experienceGained,
+    });
+
+    // Streaks count calendar days in the learner's timezone
+    const timezone = await this.progressRepository.findUserTimezone(userId);
+    const activityDay = toLocalDay(new Date(), timezone);
+    const streak = this.calculateStreak(currentProgress, activityDay, timezone);
+    const streakProgress = this.applyStreak(currentProgress, streak);
+
+    await this.progressRepository.recordDailyActivity(userId, activityDay, {
+      lessons_completed: 1,
+      experience_gained: experienceGained,
+      frozen_days: streak.frozen_days,
     });
 
     // Update user progress
     const newExperiencePoints = currentProgress.experience_points + experienceGained;
-    const newStreak = this.calculateStreak(currentProgress, new Date());
 
     const updatedProgress = await this.progressRepository.updateUserProgress(userId, {
       experience_points: newExperiencePoints,
-      streak_current: newStreak,
+      ...livesUpdate,
+      streak_current: streakProgress.streak_current,
+      longest_streak: streakProgress.longest_streak,
+      streak_freezes: streakProgress.streak_freezes,
+      last_streak_date: streakProgress.last_streak_date ?? undefined,
       last_completed_lesson_id: progressData.lesson_id,
     });
 
+    // Move the learner forward in the course, enrolling them in public courses on their first lesson
+    await this.enrollmentService.recordLessonCompletions(userId, [progressData.lesson_id]);
+
     logger.info('Lesson completed successfully', {
       userId,
       lessonId: progressData.lesson_id,
       experienceGained,
       newExperiencePoints,
-      newStreak,
+      newStreak: streak.streak_current,
     });
 
     return {
@@ -228,24 +380,44 @@ export class ProgressService {
    * This method processes multiple lesson completions from offline usage, automatically detecting
    * and skipping duplicates while maintaining data integrity. Completions are processed in
    * chronological order and experience points are accumulated and applied in a single update.
+   * Completions follow the rules of completeLesson: locked lessons cannot be completed, scores are
+   * graded from the answers given offline, lessons with gradable exercises need answers and each
+   * wrong answer costs a life. Unlock rules see the completions synced before in the batch.
+   * Completions dated before the account was created are ignored, since their dates are replayed
+   * into the streak and the daily activity log (future dates are rejected by OfflineProgressSyncSchema).
+   * Completions that break these rules are skipped and reported with the reason.
    * 
    * @param {string} userId - The unique identifier of the user
    * @param {OfflineProgressSync} syncData - Offline sync data containing completions and last sync timestamp
-   * @returns {Promise<{synced_completions: number, skipped_duplicates: number, updated_progress: UserProgress}>}
-   *   Promise resolving to sync statistics and updated progress
+   * @returns {Promise<{synced_completions: number, skipped_duplicates: number, skipped_completions: SkippedCompletion[], updated_progress: UserProgress}>}
+   *   Promise resolving to sync statistics, the skipped completions and updated progress
    */
   async syncOfflineProgress(userId: string, syncData: OfflineProgressSync): Promise<{
     synced_completions: number;
     skipped_duplicates: number;
+    skipped_completions: SkippedCompletion[];
     updated_progress: UserProgress;
   }> {
     const lastSyncTime = new Date(syncData.last_sync_timestamp);
     let syncedCount = 0;
+    const syncedLessonIds: string[] = [];
     let skippedCount = 0;
+    const skippedCompletions: SkippedCompletion[] = [];
     let totalExperienceGained = 0;
 
     // Get current progress
     const currentProgress = await this.getUserProgress(userId);
+    const timezone = await this.progressRepository.findUserTimezone(userId);
+    const accountCreatedAt = await this.progressRepository.findUserCreatedAt(userId);
+    const livesConfig = await this.progressRepository.findLivesConfig();
+    const now = new Date();
+    let streakProgress = currentProgress;
+    let livesProgress = currentProgress;
+
+    const skip = (completion: OfflineProgressSync['completions'][number], reason: SyncSkipReason): void => {
+      logger.warn('Offline completion skipped during sync', { userId, lessonId: completion.lesson_id, reason });
+      skippedCompletions.push({ lesson_id: completion.lesson_id, completed_at: completion.completed_at, reason });
+    };
 
     // Process completions in chronological order
     const sortedCompletions = syncData.completions.sort(
@@ -254,16 +426,23 @@ export class ProgressService {
 
     for (const completionData of sortedCompletions) {
       try {
+        if (accountCreatedAt && new Date(completionData.completed_at) < accountCreatedAt) {
+          skip(completionData, 'before_account_creation');
+          continue;
+        }
+
         // Check if lesson exists and get experience points
         const lesson = await this.prisma.lesson.findUnique({
-          where: { id: completionData.lesson_id },
+          where: { id: completionData.lesson_id, deletedAt: null },
         });
 
         if (!lesson) {
-          logger.warn('Lesson not found during sync', {
-            userId,
-            lessonId: completionData.lesson_id,
-          });
+          skip(completionData, 'lesson_not_found');
+          continue;
+        }
+
+        if (!(await this.enrollmentService.canPlayLesson(userId, completionData.lesson_id))) {
+          skip(completionData, 'course_not_joined');
           continue;
         }
 
@@ -293,22 +472,71 @@ export class ProgressService {
           continue;
         }
 
+        // Lessons gated by course unlock rules, counting the completions synced so far
+        try {
+          await this.unlockRuleService.assertLessonUnlocked(userId, completionData.lesson_id, totalExperienceGained);
+        } catch (error) {
+          if (error instanceof AppError && error.statusCode === HttpStatus.FORBIDDEN) {
+            skip(completionData, 'lesson_locked');
+            continue;
+          }
+          throw error;
+        }
+
+        // Graded completions need a life left, as when completing the lesson online
+        if (completionData.answers && this.regenerateLives(livesProgress, livesConfig, now).lives_current === 0) {
+          skip(completionData, 'no_lives');
+          continue;
+        }
+
+        // Grade the answers given offline, since a client-reported score cannot be trusted
+        const attempt = await this.exerciseGradingService.gradeLessonAttempt(
+          completionData.lesson_id,
+          completionData.answers ?? []
+        );
+        if (!completionData.answers && attempt.gradable_count > 0) {
+          skip(completionData, 'answers_required');
+          continue;
+        }
+        const score = attempt.gradable_count > 0 ? attempt.score : undefined;
+
+        // Calculate experience gained
+        const experienceGained = this.calculateExperiencePoints(
+          lesson.experiencePoints,
+          score
+        );
+
         // Create new completion
         await this.progressRepository.createLessonCompletion({
           user_id: userId,
           lesson_id: completionData.lesson_id,
-          score: completionData.score ?? undefined,
+          score,
           time_spent_seconds: completionData.time_spent_seconds ?? undefined,
           completed_at: completionData.completed_at,
+          experience_gained: experienceGained,
         });
-
-        // Calculate experience gained
-        const experienceGained = this.calculateExperiencePoints(
-          lesson.experiencePoints,
-          completionData.score
-        );
         totalExperienceGained += experienceGained;
         syncedCount++;
+        syncedLessonIds.push(completionData.lesson_id);
+
+        // Each wrong answer costs a life
+        const wrongAnswers = attempt.gradable_count - attempt.correct_count;
+        if (wrongAnswers > 0) {
+          livesProgress = {
+            ...livesProgress,
+            ...this.applyLivesChange(livesProgress, -wrongAnswers, livesConfig, now),
+          };
+        }
+
+        // Replay the streak on the day the lesson was completed offline
+        const activityDay = toLocalDay(new Date(completionData.completed_at), timezone);
+        const streak = this.calculateStreak(streakProgress, activityDay, timezone);
+        await this.progressRepository.recordDailyActivity(userId, activityDay, {
+          lessons_completed: 1,
+          experience_gained: experienceGained,
+          frozen_days: streak.frozen_days,
+        });
+        streakProgress = this.applyStreak(streakProgress, streak);
 
       } catch (error) {
         logger.error('Error processing completion during sync', {
@@ -320,24 +548,32 @@ export class ProgressService {
       }
     }
 
-    // Update user progress with accumulated experience
+    // Update user progress with accumulated experience and the lives lost to wrong answers
     let updatedProgress = currentProgress;
-    if (totalExperienceGained > 0) {
+    if (syncedCount > 0) {
       const newExperiencePoints = currentProgress.experience_points + totalExperienceGained;
 
-      // Find the most recent lesson completion for last_completed_lesson_id
-      const mostRecentCompletion = sortedCompletions[sortedCompletions.length - 1];
-
       updatedProgress = await this.progressRepository.updateUserProgress(userId, {
         experience_points: newExperiencePoints,
-        last_completed_lesson_id: mostRecentCompletion?.lesson_id ?? undefined,
+        ...(livesProgress !== currentProgress && {
+          lives_current: livesProgress.lives_current,
+          lives_updated_at: livesProgress.lives_updated_at,
+        }),
+        streak_current: streakProgress.streak_current,
+        longest_streak: streakProgress.longest_streak,
+        streak_freezes: streakProgress.streak_freezes,
+        last_streak_date: streakProgress.last_streak_date ?? undefined,
+        last_completed_lesson_id: syncedLessonIds[syncedLessonIds.length - 1],
       });
     }
 
+    await this.enrollmentService.recordLessonCompletions(userId, syncedLessonIds);
+
     logger.info('Offline progress sync completed', {
       userId,
       syncedCount,
       skippedCount,
+      skippedCompletions: skippedCompletions.length,
       totalExperienceGained,
       lastSyncTime,
     });
@@ -345,6 +581,7 @@ export class ProgressService {
     return {
       synced_completions: syncedCount,
       skipped_duplicates: skippedCount,
+      skipped_completions: skippedCompletions,
       updated_progress: updatedProgress,
     };
   }
@@ -453,19 +690,137 @@ export class ProgressService {
   /**
    * Updates user's current lives count for gamification features.
    * 
-   * Lives are clamped between 0 and 10 to maintain game balance.
+   * Lives regenerated since the last change are added first, then the change is applied and
+   * the result is clamped between 0 and the configured maximum.
    * 
    * @param {string} userId - The unique identifier of the user
    * @param {number} livesChange - The change in lives (positive to add, negative to subtract)
+   * @returns {Promise<UserProgressWithLives>} Promise resolving to the updated progress data with lives_max and next_life_at
+   */
+  async updateUserLives(userId: string, livesChange: number): Promise<UserProgressWithLives> {
+    const currentProgress = await this.getUserProgress(userId);
+    const livesConfig = await this.progressRepository.findLivesConfig();
+
+    const updatedProgress = await this.progressRepository.updateUserProgress(
+      userId,
+      this.applyLivesChange(currentProgress, livesChange, livesConfig, new Date())
+    );
+
+    return this.withLives(updatedProgress, livesConfig);
+  }
+
+  /**
+   * Retrieves the platform-wide lives settings.
+   * 
+   * @returns {Promise<LivesConfig>} Promise resolving to the maximum lives and regeneration interval
+   */
+  async getLivesConfig(): Promise<LivesConfig> {
+    return this.progressRepository.findLivesConfig();
+  }
+
+  /**
+   * Updates the platform-wide lives settings (administrative function).
+   * 
+   * Users above a lowered maximum are capped the next time their lives are read or changed.
+   * 
+   * @param {UpdateLivesConfigDto} updates - New maximum lives and/or regeneration interval in minutes
+   * @returns {Promise<LivesConfig>} Promise resolving to the stored settings
+   */
+  async updateLivesConfig(updates: UpdateLivesConfigDto): Promise<LivesConfig> {
+    const livesConfig = await this.progressRepository.updateLivesConfig(updates);
+
+    logger.info('Lives configuration updated', { ...livesConfig });
+
+    return livesConfig;
+  }
+
+  /**
+   * Retrieves the learner's daily activity log for calendar heatmaps.
+   * 
+   * Days are local calendar days in the learner's timezone. Only days with activity or a used
+   * streak freeze are listed. The range defaults to the last 365 days ending today and cannot
+   * exceed 366 days. The current streak is reported as 0 once it can no longer be continued.
+   * 
+   * @param {string} userId - The unique identifier of the user
+   * @param {StreakHistoryQuery} query - Optional first and last day of the range (YYYY-MM-DD)
+   * @returns {Promise<StreakHistory>} Promise resolving to streak counters and the days in range
+   * @throws {AppError} When the requested range is longer than 366 days (400 BAD_REQUEST)
+   */
+  async getStreakHistory(userId: string, query: StreakHistoryQuery): Promise<StreakHistory> {
+    const progress = await this.getUserProgress(userId);
+    const timezone = await this.progressRepository.findUserTimezone(userId);
+    const today = toLocalDay(new Date(), timezone);
+
+    const to = query.to ?? today;
+    const from = query.from ?? addDays(to, -(STREAK_HISTORY_DEFAULT_DAYS - 1));
+
+    if (daysBetween(from, to) + 1 > STREAK_HISTORY_MAX_DAYS) {
+      throw new AppError(
+        `Streak history range cannot exceed ${STREAK_HISTORY_MAX_DAYS} days`,
+        HttpStatus.BAD_REQUEST,
+        ErrorCodes.VALIDATION_ERROR
+      );
+    }
+
+    const days = await this.progressRepository.findDailyActivities(userId, from, to);
+
+    // A streak that cannot be saved by the available freezes is already lost
+    const lastStreakDay = this.getLastStreakDay(progress, timezone);
+    const missedDays = lastStreakDay ? daysBetween(lastStreakDay, today) - 1 : 0;
+    const currentStreak = missedDays > progress.streak_freezes ? 0 : progress.streak_current;
+
+    return {
+      timezone,
+      current_streak: currentStreak,
+      longest_streak: Math.max(progress.longest_streak, progress.streak_current),
+      streak_freezes: progress.streak_freezes,
+      from,
+      to,
+      days,
+    };
+  }
+
+  /**
+   * Buys a streak freeze with experience points.
+   * 
+   * A freeze covers one missed day so the streak continues on the next day with activity.
+   * Learners can hold at most MAX_STREAK_FREEZES freezes and each costs STREAK_FREEZE_COST points.
+   * 
+   * @param {string} userId - The unique identifier of the user
    * @returns {Promise<UserProgress>} Promise resolving to the updated progress data
+   * @throws {AppError} When the maximum number of freezes is already held (409 CONFLICT)
+   *   or the user does not have enough experience points (422 UNPROCESSABLE_ENTITY)
    */
-  async updateUserLives(userId: string, livesChange: number): Promise<UserProgress> {
+  async purchaseStreakFreeze(userId: string): Promise<UserProgress> {
     const currentProgress = await this.getUserProgress(userId);
-    const newLives = Math.max(0, Math.min(10, currentProgress.lives_current + livesChange));
 
-    return this.progressRepository.updateUserProgress(userId, {
-      lives_current: newLives,
+    if (currentProgress.streak_freezes >= MAX_STREAK_FREEZES) {
+      throw new AppError(
+        `You can hold at most ${MAX_STREAK_FREEZES} streak freezes`,
+        HttpStatus.CONFLICT,
+        ErrorCodes.CONFLICT
+      );
+    }
+
+    if (currentProgress.experience_points < STREAK_FREEZE_COST) {
+      throw new AppError(
+        `A streak freeze costs ${STREAK_FREEZE_COST} experience points`,
+        HttpStatus.UNPROCESSABLE_ENTITY,
+        ErrorCodes.VALIDATION_ERROR
+      );
+    }
+
+    const updatedProgress = await this.progressRepository.updateUserProgress(userId, {
+      experience_points: currentProgress.experience_points - STREAK_FREEZE_COST,
+      streak_freezes: currentProgress.streak_freezes + 1,
     });
+
+    logger.info('Streak freeze purchased', {
+      userId,
+      streakFreezes: updatedProgress.streak_freezes,
+    });
+
+    return updatedProgress;
   }
 
   /**
@@ -501,29 +856,195 @@ export class ProgressService {
   }
 
   /**
-   * Calculates user's learning streak based on activity patterns.
+   * Calculates the learner's streak after activity on a local calendar day.
    * 
    * Streak logic:
-   * - Same day or consecutive day activity: increment streak
-   * - Gap of more than 1 day: reset streak to 1
+   * - Activity on the same day as the last streak day: streak unchanged
+   * - Activity on the next day: increment streak
+   * - Missed days covered by available streak freezes: freezes are consumed and the streak continues
+   * - Otherwise: reset streak to 1
+   * - Activity on an earlier day (late offline sync): streak unchanged
+   * 
+   * One freeze is earned each time the streak reaches a multiple of STREAK_FREEZE_MILESTONE_DAYS,
+   * up to MAX_STREAK_FREEZES.
    * 
    * @private
    * @param {UserProgress} currentProgress - Current user progress data
-   * @param {Date} completionDate - Date of the current lesson completion
-   * @returns {number} Updated streak count
+   * @param {string} activityDay - Local calendar day of the activity (YYYY-MM-DD)
+   * @param {string} timezone - The learner's IANA timezone
+   * @returns {StreakUpdate} Updated streak counters and the missed days covered by freezes
    */
-  private calculateStreak(currentProgress: UserProgress, completionDate: Date): number {
-    const lastActivity = currentProgress.last_activity_date;
-    const daysDifference = Math.floor(
-      (completionDate.getTime() - lastActivity.getTime()) / (1000 * 60 * 60 * 24)
-    );
+  private calculateStreak(currentProgress: UserProgress, activityDay: string, timezone: string): StreakUpdate {
+    const lastStreakDay = this.getLastStreakDay(currentProgress, timezone);
+    const unchanged: StreakUpdate = {
+      streak_current: currentProgress.streak_current,
+      longest_streak: currentProgress.longest_streak,
+      streak_freezes: currentProgress.streak_freezes,
+      last_streak_date: lastStreakDay ?? undefined,
+      frozen_days: [],
+    };
+
+    const gap = lastStreakDay ? daysBetween(lastStreakDay, activityDay) : null;
 
-    if (daysDifference <= 1) {
-      // Same day or consecutive day - maintain or increment streak
-      return currentProgress.streak_current + 1;
-    } else {
-      // Streak broken - reset to 1
-      return 1;
+    if (gap !== null && gap < 0) {
+      return unchanged;
     }
+
+    if (gap === 0) {
+      const streak = Math.max(currentProgress.streak_current, 1);
+      return { ...unchanged, streak_current: streak, longest_streak: Math.max(unchanged.longest_streak, streak) };
+    }
+
+    let streak = 1;
+    let freezes = currentProgress.streak_freezes;
+    const frozenDays: string[] = [];
+
+    if (gap === 1) {
+      streak = currentProgress.streak_current + 1;
+    } else if (gap !== null && currentProgress.streak_current > 0 && gap - 1 <= freezes) {
+      for (let offset = 1; offset < gap; offset++) {
+        frozenDays.push(addDays(lastStreakDay!, offset));
+      }
+      freezes -= frozenDays.length;
+      streak = currentProgress.streak_current + 1;
+    }
+
+    if (streak % STREAK_FREEZE_MILESTONE_DAYS === 0) {
+      freezes = Math.min(MAX_STREAK_FREEZES, freezes + 1);
+    }
+
+    return {
+      streak_current: streak,
+      longest_streak: Math.max(currentProgress.longest_streak, streak),
+      streak_freezes: freezes,
+      last_streak_date: activityDay,
+      frozen_days: frozenDays,
+    };
+  }
+
+  /**
+   * Returns the local calendar day of the learner's last streak activity.
+   * 
+   * Progress records created before streak days were stored fall back to the last activity date.
+   * 
+   * @private
+   * @param {UserProgress} progress - Current user progress data
+   * @param {string} timezone - The learner's IANA timezone
+   * @returns {string | null} Calendar day (YYYY-MM-DD) or null if the learner has no streak activity
+   */
+  private getLastStreakDay(progress: UserProgress, timezone: string): string | null {
+    if (progress.last_streak_date) {
+      return dateToDay(progress.last_streak_date);
+    }
+    if (progress.streak_current > 0) {
+      return toLocalDay(progress.last_activity_date, timezone);
+    }
+    return null;
+  }
+
+  /**
+   * Returns the progress data with the result of a streak calculation applied.
+   * 
+   * @private
+   * @param {UserProgress} progress - Progress data before the activity
+   * @param {StreakUpdate} streak - Result of calculateStreak
+   * @returns {UserProgress} Progress data with updated streak fields
+   */
+  private applyStreak(progress: UserProgress, streak: StreakUpdate): UserProgress {
+    return {
+      ...progress,
+      streak_current: streak.streak_current,
+      longest_streak: streak.longest_streak,
+      streak_freezes: streak.streak_freezes,
+      last_streak_date: streak.last_streak_date ? dayToDate(streak.last_streak_date) : progress.last_streak_date ?? null,
+    };
+  }
+
+  /**
+   * Computes the lives a user has after lazy regeneration.
+   * 
+   * One life is restored per regeneration interval elapsed since lives_updated_at, up to the
+   * configured maximum. The returned lives_updated_at keeps the time already spent towards the
+   * next life.
+   * 
+   * @private
+   * @param {UserProgress} progress - Current user progress data
+   * @param {LivesConfig} livesConfig - Maximum lives and regeneration interval
+   * @param {Date} now - Reference time
+   * @returns {{lives_current: number, lives_updated_at: Date, next_life_at: Date | null}} Regenerated lives state
+   */
+  private regenerateLives(
+    progress: UserProgress,
+    livesConfig: LivesConfig,
+    now: Date
+  ): { lives_current: number; lives_updated_at: Date; next_life_at: Date | null } {
+    const intervalMs = livesConfig.regeneration_minutes * 60 * 1000;
+    let lives = Math.max(0, Math.min(livesConfig.max_lives, progress.lives_current));
+    let livesUpdatedAt = progress.lives_updated_at ?? now;
+
+    if (lives >= livesConfig.max_lives) {
+      return { lives_current: lives, lives_updated_at: now, next_life_at: null };
+    }
+
+    const regenerated = Math.floor((now.getTime() - livesUpdatedAt.getTime()) / intervalMs);
+    if (regenerated > 0) {
+      lives = Math.min(livesConfig.max_lives, lives + regenerated);
+      livesUpdatedAt = lives >= livesConfig.max_lives
+        ? now
+        : new Date(livesUpdatedAt.getTime() + regenerated * intervalMs);
+    }
+
+    return {
+      lives_current: lives,
+      lives_updated_at: livesUpdatedAt,
+      next_life_at: lives < livesConfig.max_lives ? new Date(livesUpdatedAt.getTime() + intervalMs) : null,
+    };
+  }
+
+  /**
+   * Adds regenerated lives, the lives cap and the next regeneration time to progress data.
+   * 
+   * @private
+   * @param {UserProgress} progress - User progress data
+   * @param {LivesConfig} livesConfig - Maximum lives and regeneration interval
+   * @returns {UserProgressWithLives} Progress data as of now
+   */
+  private withLives(progress: UserProgress, livesConfig: LivesConfig): UserProgressWithLives {
+    const lives = this.regenerateLives(progress, livesConfig, new Date());
+
+    return {
+      ...progress,
+      lives_current: lives.lives_current,
+      lives_updated_at: lives.lives_updated_at,
+      lives_max: livesConfig.max_lives,
+      next_life_at: lives.next_life_at,
+    };
+  }
+
+  /**
+   * Applies a change in lives on top of lazy regeneration.
+   * 
+   * Losing a life while at the maximum starts the regeneration clock; otherwise the clock keeps running.
+   * 
+   * @private
+   * @param {UserProgress} progress - Current user progress data
+   * @param {number} livesChange - The change in lives (positive to add, negative to subtract)
+   * @param {LivesConfig} livesConfig - Maximum lives and regeneration interval
+   * @param {Date} now - Reference time
+   * @returns {{lives_current: number, lives_updated_at: Date}} Lives fields for updateUserProgress
+   */
+  private applyLivesChange(
+    progress: UserProgress,
+    livesChange: number,
+    livesConfig: LivesConfig,
+    now: Date
+  ): { lives_current: number; lives_updated_at: Date } {
+    const lives = this.regenerateLives(progress, livesConfig, now);
+    const newLives = Math.max(0, Math.min(livesConfig.max_lives, lives.lives_current + livesChange));
+
+    return {
+      lives_current: newLives,
+      lives_updated_at: lives.lives_current >= livesConfig.max_lives ? now : lives.lives_updated_at,
+    };
   }
 }
\ No newline at end of file
@@ -0,0 +1,247 @@
+// src/modules/progress/services/reviewService.ts
+
+/**
+ * Spaced-repetition review service for the WayrApp language learning platform.
+ *
+ * This service implements a per-user, per-exercise memory model based on the SM-2 algorithm.
+ * Every recorded review carries a recall quality from 0 (complete blackout) to 5 (perfect
+ * recall). Successful reviews (quality 3 or higher) grow the review interval from 1 day to
+ * 6 days and then multiply it by the exercise's ease factor; failed reviews reset the
+ * repetition count, schedule the exercise for the next day and count as a lapse. The ease
+ * factor is adjusted after every review and never drops below 1.3.
+ *
+ * The review queue combines exercises whose review is due with exercises from completed
+ * lessons that have never been reviewed, so learners start reviewing material as soon as they
+ * finish a lesson in any course they have started. Clients may either report a quality
+ * directly or submit an answer, which is graded server-side and converted to a quality.
+ *
+ * @module ReviewService
+ * @category Progress
+ * @category Services
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const reviewService = new ReviewService(new ReviewRepository(prisma), prisma);
+ *
+ * // Get up to 20 exercises to review
+ * const queue = await reviewService.getReviewQueue('user-123', { limit: 20 });
+ *
+ * // Record a review by answer (graded server-side)
+ * const result = await reviewService.recordReview('user-123', 'vof-001', { answer: { value: true } });
+ * console.log(result.state.due_at);
+ */
+
+import { PrismaClient } from "@prisma/client";
+import { ReviewRepository } from "../repositories/reviewRepository";
+import { ExerciseReviewState, RecordReviewDto, ReviewQueue } from "../types";
+import {
+  ExerciseGradingResult,
+  ExerciseGradingService,
+} from "@/modules/content/services/ExerciseGradingService";
+import { EnrollmentService } from "@/modules/content/services/EnrollmentService";
+import { AppError } from "@/shared/middleware/errorHandler";
+import { ErrorCodes, HttpStatus } from "@/shared/types";
+import { logger } from "@/shared/utils/logger";
+
+const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Business logic layer for spaced-repetition reviews.
+ *
+ * @class ReviewService
+ */
+export class ReviewService {
+  private exerciseGradingService: ExerciseGradingService;
+  private enrollmentService: EnrollmentService;
+
+  /**
+   * Creates an instance of ReviewService.
+   *
+   * @param {ReviewRepository} reviewRepository - Repository for review state operations
+   * @param {PrismaClient} prisma - Prisma client for direct database access
+   */
+  constructor(
+    private reviewRepository: ReviewRepository,
+    prisma: PrismaClient,
+  ) {
+    this.exerciseGradingService = new ExerciseGradingService(prisma);
+    this.enrollmentService = new EnrollmentService(prisma);
+  }
+
+  /**
+   * Builds the review queue for a user: due reviews first, then never-reviewed exercises
+   * from completed lessons to fill the remaining slots.
+   *
+   * @param {string} userId - The unique identifier of the user
+   * @param {{limit: number, course_id?: string}} options - Queue size and optional course filter
+   * @returns {Promise<ReviewQueue>} Promise resolving to queue items and due/new counts
+   */
+  async getReviewQueue(
+    userId: string,
+    options: { limit: number; course_id?: string | undefined },
+  ): Promise<ReviewQueue> {
+    const now = new Date();
+
+    const [dueItems, dueCount] = await Promise.all([
+      this.reviewRepository.findDueReviewItems(userId, now, options.limit, options.course_id),
+      this.reviewRepository.countDueReviews(userId, now, options.course_id),
+    ]);
+
+    const newItems = await this.reviewRepository.findNewReviewItems(
+      userId,
+      options.limit - dueItems.length,
+      options.course_id,
+    );
+
+    return {
+      items: [...dueItems, ...newItems],
+      due_count: dueCount,
+      new_count: newItems.length,
+    };
+  }
+
+  /**
+   * Records a review of an exercise and schedules the next one.
+   *
+   * When an answer is provided it is graded server-side: fully correct answers count as
+   * quality 4, partially correct answers (score of at least 0.5) as quality 3 and anything
+   * else as quality 1.
+   *
+   * Only exercises of lessons the user has completed, in courses the user can still read, may
+   * be reviewed; any other exercise is reported as not found.
+   *
+   * @param {string} userId - The unique identifier of the user
+   * @param {string} exerciseId - The unique identifier of the reviewed exercise
+   * @param {RecordReviewDto} review - Recall quality (0-5) or an answer to grade
+   * @returns {Promise<{state: ExerciseReviewState, quality: number, grading?: ExerciseGradingResult}>}
+   *   Promise resolving to the updated review state, the applied quality and the grading result if an answer was given
+   * @throws {AppError} When exercise not found or not reviewable by the user (404 NOT_FOUND) or neither quality nor answer is provided (400 VALIDATION_ERROR)
+   */
+  async recordReview(userId: string, exerciseId: string, review: RecordReviewDto): Promise<{
+    state: ExerciseReviewState;
+    quality: number;
+    grading?: ExerciseGradingResult;
+  }> {
+    await this.assertExerciseReviewable(userId, exerciseId);
+
+    let quality = review.quality;
+    let grading: ExerciseGradingResult | undefined;
+
+    if (review.answer) {
+      grading = await this.exerciseGradingService.gradeExercise(exerciseId, review.answer);
+      quality = grading.correct ? 4 : grading.score >= 0.5 ? 3 : 1;
+    }
+
+    if (quality === undefined) {
+      throw new AppError(
+        "Either quality or answer is required",
+        HttpStatus.BAD_REQUEST,
+        ErrorCodes.VALIDATION_ERROR,
+      );
+    }
+
+    const now = new Date();
+    const currentState = await this.reviewRepository.findReviewState(userId, exerciseId);
+    const nextState = this.calculateNextState(
+      currentState ?? this.createInitialState(userId, exerciseId, now),
+      quality,
+      now,
+    );
+
+    const state = await this.reviewRepository.saveReview(nextState, quality);
+
+    logger.info("Exercise review recorded", {
+      userId,
+      exerciseId,
+      quality,
+      intervalDays: state.interval_days,
+      dueAt: state.due_at,
+    });
+
+    return grading ? { state, quality, grading } : { state, quality };
+  }
+
+  /**
+   * Ensures the exercise belongs to a lesson the user completed in a course the user can read.
+   *
+   * @private
+   * @param {string} userId - The unique identifier of the user
+   * @param {string} exerciseId - The unique identifier of the exercise
+   * @throws {AppError} When the exercise is not reviewable by the user (404 NOT_FOUND)
+   */
+  private async assertExerciseReviewable(userId: string, exerciseId: string): Promise<void> {
+    const lessonIds = await this.reviewRepository.findCompletedLessonIdsWithExercise(userId, exerciseId);
+
+    for (const lessonId of lessonIds) {
+      if (await this.enrollmentService.canPlayLesson(userId, lessonId)) {
+        return;
+      }
+    }
+
+    throw new AppError("Exercise not found", HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+  }
+
+  /**
+   * Applies the SM-2 scheduling rules to a review state.
+   *
+   * @private
+   * @param {ExerciseReviewState} state - Current review state
+   * @param {number} quality - Recall quality (0-5)
+   * @param {Date} now - Time of the review
+   * @returns {ExerciseReviewState} The next review state
+   */
+  private calculateNextState(state: ExerciseReviewState, quality: number, now: Date): ExerciseReviewState {
+    let { repetitions, interval_days: intervalDays, lapses } = state;
+
+    if (quality >= 3) {
+      if (repetitions === 0) {
+        intervalDays = 1;
+      } else if (repetitions === 1) {
+        intervalDays = 6;
+      } else {
+        intervalDays = Math.round(intervalDays * state.ease_factor);
+      }
+      repetitions += 1;
+    } else {
+      repetitions = 0;
+      intervalDays = 1;
+      lapses += 1;
+    }
+
+    const easeFactor = Math.max(
+      MIN_EASE_FACTOR,
+      state.ease_factor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)),
+    );
+
+    return {
+      ...state,
+      ease_factor: Math.round(easeFactor * 100) / 100,
+      interval_days: intervalDays,
+      repetitions,
+      lapses,
+      due_at: new Date(now.getTime() + intervalDays * DAY_MS),
+      last_reviewed_at: now,
+      last_quality: quality,
+    };
+  }
+
+  /**
+   * Creates the review state of an exercise that has never been reviewed.
+   *
+   * @private
+   */
+  private createInitialState(userId: string, exerciseId: string, now: Date): ExerciseReviewState {
+    return {
+      user_id: userId,
+      exercise_id: exerciseId,
+      ease_factor: DEFAULT_EASE_FACTOR,
+      interval_days: 0,
+      repetitions: 0,
+      lapses: 0,
+      due_at: now,
+    };
+  }
+}
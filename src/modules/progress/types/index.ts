@@ -11,36 +11,78 @@ export interface UserProgress {
   user_id: string;
   experience_points: number;
   lives_current: number;
+  lives_updated_at?: Date | undefined;
   streak_current: number;
+  longest_streak: number;
+  streak_freezes: number;
+  last_streak_date?: Date | null | undefined;
   last_completed_lesson_id?: string;
   last_activity_date: Date;
   updated_at: Date;
 }
 
+export interface UserProgressWithLives extends UserProgress {
+  lives_max: number;
+  next_life_at: Date | null;
+}
+
+export interface LivesConfig {
+  max_lives: number;
+  regeneration_minutes: number;
+  updated_at: Date | null;
+}
+
+export interface UpdateLivesConfigDto {
+  max_lives?: number | undefined;
+  regeneration_minutes?: number | undefined;
+}
+
 export interface LessonCompletion {
   user_id: string;
   lesson_id: string;
   completed_at: Date;
   score?: number;
   time_spent_seconds?: number;
+  experience_gained: number;
+}
+
+export interface LessonAnswer {
+  exercise_id: string;
+  answer: Record<string, any>;
+  duration_seconds?: number | undefined;
 }
 
 export interface UpdateProgressDto {
   lesson_id: string;
-  score?: number | undefined;
   time_spent_seconds?: number | undefined;
+  answers?: LessonAnswer[] | undefined;
 }
 
 export interface OfflineProgressSync {
   completions: Array<{
     lesson_id: string;
     completed_at: string;
-    score?: number | undefined;
     time_spent_seconds?: number | undefined;
+    answers?: LessonAnswer[] | undefined;
   }>;
   last_sync_timestamp: string;
 }
 
+/** Why an offline completion was left out of a sync */
+export type SyncSkipReason =
+  | 'before_account_creation'
+  | 'lesson_not_found'
+  | 'course_not_joined'
+  | 'lesson_locked'
+  | 'answers_required'
+  | 'no_lives';
+
+export interface SkippedCompletion {
+  lesson_id: string;
+  completed_at: string;
+  reason: SyncSkipReason;
+}
+
 export interface ProgressSummary {
   user_id: string;
   experience_points: number;
@@ -66,7 +108,11 @@ export interface CreateUserProgressDto {
 export interface UpdateUserProgressDto {
   experience_points?: number | undefined;
   lives_current?: number | undefined;
+  lives_updated_at?: Date | undefined;
   streak_current?: number | undefined;
+  longest_streak?: number | undefined;
+  streak_freezes?: number | undefined;
+  last_streak_date?: Date | undefined;
   last_completed_lesson_id?: string | undefined;
 }
 
@@ -76,6 +122,110 @@ export interface CreateLessonCompletionDto {
   score?: number | undefined;
   time_spent_seconds?: number | undefined;
   completed_at?: string | Date | undefined;
+  experience_gained?: number | undefined;
+}
+
+export interface DailyActivity {
+  activity_date: string;
+  lessons_completed: number;
+  experience_gained: number;
+  freeze_used: boolean;
+}
+
+export interface RecordDailyActivityDto {
+  lessons_completed: number;
+  experience_gained: number;
+  frozen_days?: string[] | undefined;
+}
+
+export interface StreakUpdate {
+  streak_current: number;
+  longest_streak: number;
+  streak_freezes: number;
+  last_streak_date?: string | undefined;
+  frozen_days: string[];
+}
+
+export interface StreakHistory {
+  timezone: string;
+  current_streak: number;
+  longest_streak: number;
+  streak_freezes: number;
+  from: string;
+  to: string;
+  days: DailyActivity[];
+}
+
+export interface ExerciseReviewState {
+  user_id: string;
+  exercise_id: string;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_at: Date;
+  last_reviewed_at?: Date | undefined;
+  last_quality?: number | undefined;
+}
+
+export interface ReviewQueueItem {
+  exercise_id: string;
+  exercise_type: string;
+  data: any;
+  is_new: boolean;
+  due_at: Date;
+  repetitions: number;
+  interval_days: number;
+  ease_factor: number;
+}
+
+export interface ReviewQueue {
+  items: ReviewQueueItem[];
+  due_count: number;
+  new_count: number;
+}
+
+export interface RecordReviewDto {
+  quality?: number | undefined;
+  answer?: Record<string, any> | undefined;
+}
+
+export type LeaderboardMetric = "xp" | "streak";
+export type LeaderboardScope = "global" | "course" | "following";
+export type LeaderboardWindow = "weekly" | "monthly" | "all_time";
+export type LeagueTier = "bronze" | "silver" | "gold" | "sapphire" | "diamond";
+export type LeagueZone = "promotion" | "safe" | "demotion";
+
+export interface LeaderboardEntry {
+  rank: number;
+  user_id: string;
+  username?: string | null | undefined;
+  profile_picture_url?: string | null | undefined;
+  value: number;
+}
+
+export interface Leaderboard {
+  metric: LeaderboardMetric;
+  scope: LeaderboardScope;
+  window: LeaderboardWindow;
+  course_id?: string | undefined;
+  period_start: Date | null;
+  entries: LeaderboardEntry[];
+  current_user: LeaderboardEntry;
+}
+
+export interface LeagueStanding extends LeaderboardEntry {
+  zone: LeagueZone;
+}
+
+export interface League {
+  tier: LeagueTier;
+  week_start: Date;
+  week_end: Date;
+  promotion_count: number;
+  demotion_count: number;
+  entries: LeagueStanding[];
+  current_user: LeagueStanding;
 }
 
 // Validation Schemas
@@ -89,11 +239,27 @@ export const UpdateProgressSchema = z.object({
   time_spent_seconds: TimeSecondsSchema.optional(),
 });
 
+const LessonAnswersSchema = z
+  .array(
+    z.object({
+      exercise_id: z
+        .string()
+        .min(1, "Exercise ID is required")
+        .max(15, "Exercise ID too long"),
+      answer: z.record(z.any()),
+      duration_seconds: TimeSecondsSchema.max(86400, "Duration too long").optional(),
+    })
+  )
+  .max(100, "Too many answers in a single completion");
+
 export const LessonCompletionBodySchema = z.object({
-  score: ScoreSchema.optional(),
   time_spent_seconds: TimeSecondsSchema.optional(),
+  answers: LessonAnswersSchema.optional(),
 });
 
+// Offline devices may have clocks running slightly ahead of the server
+const COMPLETION_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
 export const OfflineProgressSyncSchema = z.object({
   completions: z.array(
     z.object({
@@ -101,25 +267,33 @@ export const OfflineProgressSyncSchema = z.object({
         .string()
         .min(1, "Lesson ID is required")
         .max(60, "Lesson ID too long"),
-      completed_at: z.string().datetime("Invalid datetime format"),
-      score: ScoreSchema.optional(),
+      completed_at: z
+        .string()
+        .datetime("Invalid datetime format")
+        .refine(
+          (value) => new Date(value).getTime() <= Date.now() + COMPLETION_CLOCK_SKEW_MS,
+          "Completion date cannot be in the future",
+        ),
       time_spent_seconds: TimeSecondsSchema.optional(),
+      answers: LessonAnswersSchema.optional(),
     }),
   ),
   last_sync_timestamp: z.string().datetime("Invalid datetime format"),
 });
 
+// Upper bound for the configurable maximum lives; per-user lives are clamped to the configured value
+export const MAX_LIVES_LIMIT = 100;
+
 export const CreateUserProgressSchema = z.object({
   user_id: z.string().uuid("Invalid user ID format"),
   experience_points: ExperiencePointsSchema.optional(),
-  lives_current: z.number().int().min(0).max(10).optional(),
+  lives_current: z.number().int().min(0).max(MAX_LIVES_LIMIT).optional(),
   streak_current: z.number().int().min(0).optional(),
   last_completed_lesson_id: z.string().max(60).optional(),
 });
 
 export const UpdateUserProgressSchema = z.object({
   experience_points: ExperiencePointsSchema.optional(),
-  lives_current: z.number().int().min(0).max(10).optional(),
   streak_current: z.number().int().min(0).optional(),
   last_completed_lesson_id: z.string().max(60).optional(),
 });
@@ -139,9 +313,34 @@ export const LessonIdParamSchema = z.object({
 });
 
 export const UpdateUserLivesSchema = z.object({
-  lives_change: z.number().int(),
+  target_user_id: z.string().uuid('Invalid user ID format'),
+  lives_change: z
+    .number()
+    .int()
+    .min(-MAX_LIVES_LIMIT, `Lives change cannot be below -${MAX_LIVES_LIMIT}`)
+    .max(MAX_LIVES_LIMIT, `Lives change cannot exceed ${MAX_LIVES_LIMIT}`),
+  reason: z.string().min(1).optional(),
 });
 
+export const UpdateLivesConfigSchema = z
+  .object({
+    max_lives: z
+      .number()
+      .int()
+      .min(1, "Max lives must be at least 1")
+      .max(MAX_LIVES_LIMIT, `Max lives cannot exceed ${MAX_LIVES_LIMIT}`)
+      .optional(),
+    regeneration_minutes: z
+      .number()
+      .int()
+      .min(1, "Regeneration interval must be at least 1 minute")
+      .max(10080, "Regeneration interval cannot exceed one week")
+      .optional(),
+  })
+  .refine((data) => data.max_lives !== undefined || data.regeneration_minutes !== undefined, {
+    message: "At least one setting is required",
+  });
+
 export const AwardBonusSchema = z.object({
   target_user_id: z.string().uuid('Invalid user ID format'),
   bonus_points: z.number().int().positive('Bonus points must be a positive integer'),
@@ -153,6 +352,86 @@ export const ResetProgressSchema = z.object({
   reason: z.string().min(1).optional(),
 });
 
+export const ReviewQueueQuerySchema = z.object({
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 20))
+    .pipe(z.number().int().min(1).max(100)),
+  course_id: z.string().min(1).max(20).optional(),
+});
+
+export const ReviewExerciseParamSchema = z.object({
+  exerciseId: z
+    .string()
+    .min(1, "Exercise ID is required")
+    .max(15, "Exercise ID too long"),
+});
+
+export const RecordReviewBodySchema = z
+  .object({
+    quality: z
+      .number()
+      .int("Quality must be an integer")
+      .min(0, "Quality must be between 0 and 5")
+      .max(5, "Quality must be between 0 and 5")
+      .optional(),
+    answer: z.record(z.any()).optional(),
+  })
+  .refine((data) => data.quality !== undefined || data.answer !== undefined, {
+    message: "Either quality or answer is required",
+  });
+
+export const LeaderboardQuerySchema = z
+  .object({
+    metric: z.enum(["xp", "streak"]).default("xp"),
+    scope: z.enum(["global", "course", "following"]).default("global"),
+    window: z.enum(["weekly", "monthly", "all_time"]).default("all_time"),
+    course_id: z.string().min(1).max(20).optional(),
+    limit: z
+      .string()
+      .optional()
+      .transform((val) => (val ? parseInt(val, 10) : 20))
+      .pipe(z.number().int().min(1).max(100)),
+  })
+  .superRefine((data, ctx) => {
+    if (data.scope === "course" && !data.course_id) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["course_id"],
+        message: "course_id is required for the course scope",
+      });
+    }
+    if (data.scope !== "course" && data.course_id) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["course_id"],
+        message: "course_id is only allowed for the course scope",
+      });
+    }
+    if (data.metric === "streak" && (data.window !== "all_time" || data.scope === "course")) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["metric"],
+        message: "Streak leaderboards only support the all_time window and the global or following scopes",
+      });
+    }
+  });
+
+const CalendarDaySchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must use the YYYY-MM-DD format");
+
+export const StreakHistoryQuerySchema = z
+  .object({
+    from: CalendarDaySchema.optional(),
+    to: CalendarDaySchema.optional(),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: "from must not be after to",
+    path: ["from"],
+  });
+
 // Type exports for validation schemas
 export type UpdateProgressInput = z.infer<typeof UpdateProgressSchema>;
 export type OfflineProgressSyncInput = z.infer<
@@ -166,5 +445,10 @@ export type CreateLessonCompletionInput = z.infer<
 export type LessonIdParam = z.infer<typeof LessonIdParamSchema>;
 export type UpdateUserLivesInput = z.infer<typeof UpdateUserLivesSchema>;
 export type AwardBonusInput = z.infer<typeof AwardBonusSchema>;
+export type UpdateLivesConfigInput = z.infer<typeof UpdateLivesConfigSchema>;
 export type ResetProgressInput = z.infer<typeof ResetProgressSchema>;
 export type LessonCompletionBodyInput = z.infer<typeof LessonCompletionBodySchema>;
+export type ReviewQueueQuery = z.infer<typeof ReviewQueueQuerySchema>;
+export type RecordReviewBodyInput = z.infer<typeof RecordReviewBodySchema>;
+export type LeaderboardQuery = z.infer<typeof LeaderboardQuerySchema>;
+export type StreakHistoryQuery = z.infer<typeof StreakHistoryQuerySchema>;
@@ -5,12 +5,13 @@
  * 
  * Comprehensive unit test suite for the AuthController class, covering all authentication
  * endpoints and their core functionalities. This test suite validates user registration,
- * login, token refresh, logout, and profile retrieval operations in isolation using mocked
+ * login, two-factor authentication, token refresh, logout, session management, profile retrieval, password reset and email verification operations
+ * in isolation using mocked
  * dependencies. The tests ensure proper error handling, security logic, input validation,
  * and response formatting while maintaining complete isolation from external services.
  * 
  * Testing Strategy:
- * - Unit-level testing with complete dependency mocking (UserService, TokenBlacklistService)
+ * - Unit-level testing with complete dependency mocking (UserService, TokenBlacklistService, AccountService, SessionService, TwoFactorService)
  * - Comprehensive coverage of success paths, error conditions, and edge cases
  * - Security-focused testing including authentication, authorization, and token management
  * - Input validation testing for all endpoints with various invalid data scenarios
@@ -27,21 +28,32 @@ import { ZodError } from 'zod';
 import { AuthController } from '../authController';
 import { UserService } from '../../services/userService';
 import { TokenBlacklistService } from '../../services/tokenBlacklistService';
+import { AccountService } from '../../services/accountService';
+import { OidcLoginService } from '../../services/oidcLoginService';
+import { SessionService } from '../../services/sessionService';
+import { TwoFactorService } from '../../services/twoFactorService';
 import { AppError } from '@/shared/middleware/errorHandler';
 import { ErrorCodes, HttpStatus, UserRole, JWTPayload } from '@/shared/types';
-import { generateTokenPair, verifyRefreshToken } from '@/shared/utils/auth';
+import { verifyRefreshToken } from '@/shared/utils/auth';
 import { logger } from '@/shared/utils/logger';
 import { User } from '../../types';
 
 // Mock external dependencies
 jest.mock('../../services/userService');
 jest.mock('../../services/tokenBlacklistService');
+jest.mock('../../services/accountService');
+jest.mock('../../services/oidcLoginService');
+jest.mock('../../services/sessionService');
+jest.mock('../../services/twoFactorService');
 jest.mock('@/shared/utils/auth');
 jest.mock('@/shared/utils/logger');
 
 // Test request interface
 interface MockRequest {
   body: any;
+  params?: any;
+  ip?: string;
+  get: jest.Mock;
   user?: JWTPayload | undefined;
 }
 
@@ -49,6 +61,10 @@ describe('AuthController', () => {
   let authController: AuthController;
   let mockUserService: jest.Mocked<UserService>;
   let mockTokenBlacklistService: jest.Mocked<TokenBlacklistService>;
+  let mockAccountService: jest.Mocked<AccountService>;
+  let mockOidcLoginService: jest.Mocked<OidcLoginService>;
+  let mockSessionService: jest.Mocked<SessionService>;
+  let mockTwoFactorService: jest.Mocked<TwoFactorService>;
   let mockRequest: MockRequest;
   let mockResponse: Partial<Response>;
   let mockNext: NextFunction;
@@ -61,6 +77,7 @@ describe('AuthController', () => {
     country_code: 'US',
     registration_date: new Date('2024-01-01'),
     last_login_date: new Date('2024-01-15'),
+    email_verified_at: null,
     profile_picture_url: 'https://example.com/avatar.jpg',
     is_active: true,
     role: 'student',
@@ -88,13 +105,26 @@ describe('AuthController', () => {
     // Create mock instances
     mockUserService = new UserService({} as any) as jest.Mocked<UserService>;
     mockTokenBlacklistService = new TokenBlacklistService({} as any) as jest.Mocked<TokenBlacklistService>;
+    mockAccountService = new AccountService({} as any, {} as any, {} as any) as jest.Mocked<AccountService>;
+    mockOidcLoginService = new OidcLoginService({} as any, {} as any, {} as any, new Map()) as jest.Mocked<OidcLoginService>;
+    mockSessionService = new SessionService({} as any) as jest.Mocked<SessionService>;
+    mockTwoFactorService = new TwoFactorService({} as any, {} as any) as jest.Mocked<TwoFactorService>;
 
     // Create controller instance
-    authController = new AuthController(mockUserService, mockTokenBlacklistService);
+    authController = new AuthController(
+      mockUserService,
+      mockTokenBlacklistService,
+      mockAccountService,
+      mockOidcLoginService,
+      mockSessionService,
+      mockTwoFactorService
+    );
 
     // Setup mock request and response
     mockRequest = {
-      body: {}
+      body: {},
+      ip: '203.0.113.7',
+      get: jest.fn().mockReturnValue(undefined)
     };
 
     mockResponse = {
@@ -105,7 +135,9 @@ describe('AuthController', () => {
     mockNext = jest.fn();
 
     // Setup default mock implementations
-    (generateTokenPair as jest.Mock).mockReturnValue(mockTokens);
+    mockSessionService.createSession.mockResolvedValue(mockTokens);
+    mockSessionService.rotateRefreshToken.mockResolvedValue(mockTokens);
+    mockTwoFactorService.isEnabled.mockResolvedValue(false);
     (verifyRefreshToken as jest.Mock).mockReturnValue(mockDecodedToken);
   });
 
@@ -114,6 +146,10 @@ describe('AuthController', () => {
       expect(authController).toBeInstanceOf(AuthController);
       expect(authController['userService']).toBe(mockUserService);
       expect(authController['tokenBlacklistService']).toBe(mockTokenBlacklistService);
+      expect(authController['accountService']).toBe(mockAccountService);
+      expect(authController['oidcLoginService']).toBe(mockOidcLoginService);
+      expect(authController['sessionService']).toBe(mockSessionService);
+      expect(authController['twoFactorService']).toBe(mockTwoFactorService);
     });
   });
 
@@ -141,11 +177,11 @@ describe('AuthController', () => {
         validLoginData.password
       );
       expect(mockUserService.updateLastLogin).toHaveBeenCalledWith(mockUser.id);
-      expect(generateTokenPair).toHaveBeenCalledWith({
+      expect(mockSessionService.createSession).toHaveBeenCalledWith({
         userId: mockUser.id,
         email: mockUser.email,
         role: mockUser.role
-      });
+      }, { ip_address: '203.0.113.7' });
       expect(mockResponse.status).toHaveBeenCalledWith(HttpStatus.OK);
       expect(mockResponse.json).toHaveBeenCalledWith({
         success: true,
@@ -170,6 +206,25 @@ describe('AuthController', () => {
       expect(mockNext).not.toHaveBeenCalled();
     });
 
+    it('should start a session named after the X-Device-Name header', async () => {
+      // Arrange
+      mockUserService.verifyUserByEmail.mockResolvedValue(mockUser);
+      mockRequest.get.mockImplementation((name: string) => ({
+        'x-device-name': '  Work laptop ',
+        'user-agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0'
+      } as Record<string, string>)[name]);
+
+      // Act
+      await authController.login(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockSessionService.createSession).toHaveBeenCalledWith(expect.any(Object), {
+        device_name: 'Work laptop',
+        ip_address: '203.0.113.7',
+        user_agent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0'
+      });
+    });
+
     it('should handle user with null username', async () => {
       // Arrange
       const userWithNullUsername = { ...mockUser, username: null };
@@ -251,6 +306,119 @@ describe('AuthController', () => {
     });
   });
 
+  describe('login with two-factor authentication', () => {
+    const challenge = { two_factor_required: true as const, two_factor_token: 't'.repeat(48), expires_in: 300 };
+
+    beforeEach(() => {
+      mockRequest.body = { email: 'test@example.com', password: 'SecurePass123!' };
+      mockUserService.verifyUserByEmail.mockResolvedValue(mockUser);
+      mockTwoFactorService.isEnabled.mockResolvedValue(true);
+      mockTwoFactorService.createLoginChallenge.mockResolvedValue(challenge);
+    });
+
+    it('should return a two-factor token instead of tokens', async () => {
+      // Act
+      await authController.login(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockTwoFactorService.createLoginChallenge).toHaveBeenCalledWith(mockUser.id);
+      expect(mockSessionService.createSession).not.toHaveBeenCalled();
+      expect(mockUserService.updateLastLogin).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(HttpStatus.OK);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        timestamp: expect.any(String),
+        message: 'Two-factor authentication required',
+        data: challenge
+      });
+    });
+
+    it('should not reveal whether two-factor authentication is enabled for a wrong password', async () => {
+      // Arrange
+      mockUserService.verifyUserByEmail.mockResolvedValue(null);
+
+      // Act
+      await authController.login(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(
+        new AppError('Invalid email or password', HttpStatus.UNAUTHORIZED, ErrorCodes.AUTHENTICATION_ERROR)
+      );
+      expect(mockTwoFactorService.isEnabled).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loginTwoFactor', () => {
+    const body = { two_factor_token: 't'.repeat(48), code: '123456' };
+
+    beforeEach(() => {
+      mockRequest.body = body;
+    });
+
+    it('should start a two-factor verified session', async () => {
+      // Arrange
+      mockTwoFactorService.completeLoginChallenge.mockResolvedValue(mockUser.id);
+      mockUserService.findById.mockResolvedValue(mockUser);
+
+      // Act
+      await authController.loginTwoFactor(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockTwoFactorService.completeLoginChallenge).toHaveBeenCalledWith(body.two_factor_token, body.code);
+      expect(mockSessionService.createSession).toHaveBeenCalledWith({
+        userId: mockUser.id,
+        email: mockUser.email,
+        role: mockUser.role,
+        twoFactorVerified: true
+      }, { ip_address: '203.0.113.7' });
+      expect(mockUserService.updateLastLogin).toHaveBeenCalledWith(mockUser.id);
+      expect(mockResponse.status).toHaveBeenCalledWith(HttpStatus.OK);
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+        message: 'Login successful',
+        data: expect.objectContaining({ tokens: mockTokens })
+      }));
+    });
+
+    it('should call next with AppError for a wrong code', async () => {
+      // Arrange
+      const invalidCode = new AppError('Invalid two-factor code', HttpStatus.UNAUTHORIZED, ErrorCodes.AUTHENTICATION_ERROR);
+      mockTwoFactorService.completeLoginChallenge.mockRejectedValue(invalidCode);
+
+      // Act
+      await authController.loginTwoFactor(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(invalidCode);
+      expect(mockSessionService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should call next with AppError for deactivated accounts', async () => {
+      // Arrange
+      mockTwoFactorService.completeLoginChallenge.mockResolvedValue(mockUser.id);
+      mockUserService.findById.mockResolvedValue({ ...mockUser, is_active: false });
+
+      // Act
+      await authController.loginTwoFactor(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(
+        new AppError('Account is deactivated', HttpStatus.UNAUTHORIZED, ErrorCodes.AUTHENTICATION_ERROR)
+      );
+      expect(mockSessionService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should call next with ZodError when the code is missing', async () => {
+      // Arrange
+      mockRequest.body = { two_factor_token: body.two_factor_token };
+
+      // Act
+      await authController.loginTwoFactor(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(expect.any(ZodError));
+    });
+  });
+
   describe('register', () => {
     const validRegisterData = {
       email: 'newuser@example.com',
@@ -280,11 +448,11 @@ describe('AuthController', () => {
         country_code: validRegisterData.country_code,
         profile_picture_url: validRegisterData.profile_picture_url
       });
-      expect(generateTokenPair).toHaveBeenCalledWith({
+      expect(mockSessionService.createSession).toHaveBeenCalledWith({
         userId: mockUser.id,
         email: mockUser.email,
         role: mockUser.role
-      });
+      }, { ip_address: '203.0.113.7' });
       expect(mockResponse.status).toHaveBeenCalledWith(HttpStatus.CREATED);
       expect(mockResponse.json).toHaveBeenCalledWith({
         success: true,
@@ -306,6 +474,24 @@ describe('AuthController', () => {
         email: mockUser.email,
         role: mockUser.role
       });
+      expect(mockAccountService.sendEmailVerification).toHaveBeenCalledWith(mockUser);
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+
+    it('should register the user even when the verification email fails', async () => {
+      // Arrange
+      mockUserService.createUserWithPassword.mockResolvedValue(mockUser);
+      mockAccountService.sendEmailVerification.mockRejectedValue(new Error('Mail transport unavailable'));
+
+      // Act
+      await authController.register(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(HttpStatus.CREATED);
+      expect(logger.error).toHaveBeenCalledWith(
+        'Failed to send email verification after registration',
+        expect.objectContaining({ userId: mockUser.id })
+      );
       expect(mockNext).not.toHaveBeenCalled();
     });
 
@@ -365,7 +551,7 @@ describe('AuthController', () => {
 
     it('should successfully refresh tokens with valid refresh token', async () => {
       // Arrange
-      mockTokenBlacklistService.isTokenRevoked.mockResolvedValue(false);
+      (verifyRefreshToken as jest.Mock).mockReturnValue({ ...mockDecodedToken, sid: 'session-123' });
       mockUserService.findById.mockResolvedValue(mockUser);
 
       // Act
@@ -373,13 +559,13 @@ describe('AuthController', () => {
 
       // Assert
       expect(verifyRefreshToken).toHaveBeenCalledWith(validRefreshData.refreshToken);
-      expect(mockTokenBlacklistService.isTokenRevoked).toHaveBeenCalledWith(validRefreshData.refreshToken);
+      expect(mockTokenBlacklistService.consumeToken).not.toHaveBeenCalled();
       expect(mockUserService.findById).toHaveBeenCalledWith(mockDecodedToken.sub);
-      expect(generateTokenPair).toHaveBeenCalledWith({
+      expect(mockSessionService.rotateRefreshToken).toHaveBeenCalledWith(validRefreshData.refreshToken, {
         userId: mockUser.id,
         email: mockUser.email,
         role: mockUser.role
-      });
+      }, { ip_address: '203.0.113.7' });
       expect(mockResponse.status).toHaveBeenCalledWith(HttpStatus.OK);
       expect(mockResponse.json).toHaveBeenCalledWith({
         success: true,
@@ -392,9 +578,44 @@ describe('AuthController', () => {
       expect(mockNext).not.toHaveBeenCalled();
     });
 
+    it('should move refresh tokens issued before sessions existed to a new session', async () => {
+      // Arrange
+      mockTokenBlacklistService.consumeToken.mockResolvedValue(true);
+      mockUserService.findById.mockResolvedValue(mockUser);
+
+      // Act
+      await authController.refresh(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockTokenBlacklistService.consumeToken).toHaveBeenCalledWith(validRefreshData.refreshToken, mockDecodedToken.sub);
+      expect(mockTokenBlacklistService.isTokenRevoked).not.toHaveBeenCalled();
+      expect(mockSessionService.createSession).toHaveBeenCalledWith({
+        userId: mockUser.id,
+        email: mockUser.email,
+        role: mockUser.role
+      }, { ip_address: '203.0.113.7' });
+      expect(mockSessionService.rotateRefreshToken).not.toHaveBeenCalled();
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ data: { tokens: mockTokens } }));
+    });
+
+    it('should call next with AppError when the refresh token was already used', async () => {
+      // Arrange
+      const reuseError = new AppError('Invalid refresh token', HttpStatus.UNAUTHORIZED, ErrorCodes.AUTHENTICATION_ERROR);
+      (verifyRefreshToken as jest.Mock).mockReturnValue({ ...mockDecodedToken, sid: 'session-123' });
+      mockUserService.findById.mockResolvedValue(mockUser);
+      mockSessionService.rotateRefreshToken.mockRejectedValue(reuseError);
+
+      // Act
+      await authController.refresh(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(reuseError);
+      expect(mockResponse.json).not.toHaveBeenCalled();
+    });
+
     it('should call next with AppError when refresh token is revoked', async () => {
       // Arrange
-      mockTokenBlacklistService.isTokenRevoked.mockResolvedValue(true);
+      mockTokenBlacklistService.consumeToken.mockResolvedValue(false);
 
       // Act
       await authController.refresh(mockRequest as any, mockResponse as Response, mockNext);
@@ -410,11 +631,13 @@ describe('AuthController', () => {
       expect(logger.warn).toHaveBeenCalledWith('Token refresh failed - token revoked', {
         userId: mockDecodedToken.sub
       });
+      expect(mockUserService.findById).not.toHaveBeenCalled();
+      expect(mockSessionService.createSession).not.toHaveBeenCalled();
     });
 
     it('should call next with AppError when user is not found', async () => {
       // Arrange
-      mockTokenBlacklistService.isTokenRevoked.mockResolvedValue(false);
+      mockTokenBlacklistService.consumeToken.mockResolvedValue(true);
       mockUserService.findById.mockResolvedValue(null);
 
       // Act
@@ -433,6 +656,48 @@ describe('AuthController', () => {
       });
     });
 
+    it('should call next with AppError when the refresh token was issued before a password reset', async () => {
+      // Arrange
+      mockTokenBlacklistService.consumeToken.mockResolvedValue(true);
+      mockUserService.findById.mockResolvedValue({
+        ...mockUser,
+        password_changed_at: new Date((mockDecodedToken.iat + 60) * 1000)
+      });
+
+      // Act
+      await authController.refresh(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: 'Invalid refresh token',
+          statusCode: HttpStatus.UNAUTHORIZED,
+          code: ErrorCodes.AUTHENTICATION_ERROR
+        })
+      );
+      expect(logger.warn).toHaveBeenCalledWith('Token refresh failed - token issued before password change', {
+        userId: mockUser.id
+      });
+      expect(mockSessionService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should accept refresh tokens issued in the same second as the password reset', async () => {
+      // Arrange
+      (verifyRefreshToken as jest.Mock).mockReturnValue({ ...mockDecodedToken, sid: 'session-123' });
+      mockUserService.findById.mockResolvedValue({
+        ...mockUser,
+        password_changed_at: new Date(mockDecodedToken.iat * 1000 + 500)
+      });
+
+      // Act
+      await authController.refresh(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockSessionService.rotateRefreshToken).toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(HttpStatus.OK);
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+
     it('should handle JWT verification errors', async () => {
       // Arrange
       const jwtError = new Error('JsonWebTokenError');
@@ -476,16 +741,17 @@ describe('AuthController', () => {
 
     it('should successfully logout with refresh token', async () => {
       // Arrange
-      mockTokenBlacklistService.revokeToken.mockResolvedValue(undefined);
+      mockSessionService.endSessionByRefreshToken.mockResolvedValue(true);
 
       // Act
       await authController.logout(mockRequest as any, mockResponse as Response, mockNext);
 
       // Assert
-      expect(mockTokenBlacklistService.revokeToken).toHaveBeenCalledWith(
+      expect(mockSessionService.endSessionByRefreshToken).toHaveBeenCalledWith(
         validLogoutData.refreshToken,
         mockRequest.user!.sub
       );
+      expect(mockTokenBlacklistService.revokeToken).not.toHaveBeenCalled();
       expect(mockResponse.status).toHaveBeenCalledWith(HttpStatus.OK);
       expect(mockResponse.json).toHaveBeenCalledWith({
         success: true,
@@ -499,6 +765,22 @@ describe('AuthController', () => {
       expect(mockNext).not.toHaveBeenCalled();
     });
 
+    it('should blacklist refresh tokens issued before sessions existed', async () => {
+      // Arrange
+      mockSessionService.endSessionByRefreshToken.mockResolvedValue(false);
+      mockTokenBlacklistService.revokeToken.mockResolvedValue(undefined);
+
+      // Act
+      await authController.logout(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockTokenBlacklistService.revokeToken).toHaveBeenCalledWith(
+        validLogoutData.refreshToken,
+        mockRequest.user!.sub
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(HttpStatus.OK);
+    });
+
     it('should successfully logout without refresh token', async () => {
       // Arrange
       mockRequest.body = {};
@@ -529,6 +811,7 @@ describe('AuthController', () => {
       await authController.logout(mockRequest as any, mockResponse as Response, mockNext);
 
       // Assert
+      expect(mockSessionService.endSessionByRefreshToken).not.toHaveBeenCalled();
       expect(mockTokenBlacklistService.revokeToken).not.toHaveBeenCalled();
       expect(logger.info).not.toHaveBeenCalledWith('User logout', expect.any(Object));
       expect(mockResponse.status).toHaveBeenCalledWith(HttpStatus.OK);
@@ -575,6 +858,7 @@ describe('AuthController', () => {
             country_code: mockUser.country_code,
             registration_date: mockUser.registration_date,
             last_login_date: mockUser.last_login_date,
+            email_verified_at: null,
             profile_picture_url: mockUser.profile_picture_url,
             is_active: mockUser.is_active,
             role: mockUser.role,
@@ -612,6 +896,7 @@ describe('AuthController', () => {
             country_code: undefined,
             registration_date: mockUser.registration_date,
             last_login_date: undefined,
+            email_verified_at: null,
             profile_picture_url: undefined,
             is_active: mockUser.is_active,
             role: mockUser.role,
@@ -660,6 +945,529 @@ describe('AuthController', () => {
     });
   });
 
+  describe('listSessions', () => {
+    const session = {
+      id: 'session-123',
+      user_id: 'user-123',
+      device_name: 'Chrome on Windows',
+      ip_address: '203.0.113.7',
+      created_at: new Date('2024-01-20'),
+      last_used_at: new Date('2024-01-21'),
+      expires_at: new Date('2024-01-28')
+    };
+
+    it('should list the sessions of the authenticated user and flag the current one', async () => {
+      // Arrange
+      mockRequest.user = { ...mockDecodedToken, sid: 'session-123' };
+      mockSessionService.listSessions.mockResolvedValue([session, { ...session, id: 'session-456', device_name: 'Firefox on Linux' }]);
+
+      // Act
+      await authController.listSessions(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockSessionService.listSessions).toHaveBeenCalledWith('user-123');
+      expect(mockResponse.status).toHaveBeenCalledWith(HttpStatus.OK);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        timestamp: expect.any(String),
+        data: {
+          sessions: [
+            {
+              id: 'session-123',
+              device_name: 'Chrome on Windows',
+              ip_address: '203.0.113.7',
+              created_at: session.created_at,
+              last_used_at: session.last_used_at,
+              expires_at: session.expires_at,
+              current: true
+            },
+            expect.objectContaining({ id: 'session-456', device_name: 'Firefox on Linux', current: false })
+          ]
+        }
+      });
+    });
+
+    it('should call next with AppError when user is not authenticated', async () => {
+      // Arrange
+      mockRequest.user = undefined;
+
+      // Act
+      await authController.listSessions(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(
+        new AppError('Authentication required', HttpStatus.UNAUTHORIZED, ErrorCodes.AUTHENTICATION_ERROR)
+      );
+      expect(mockSessionService.listSessions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeSession', () => {
+    const sessionId = '3f2b8c1e-5d4a-4b6f-9e7d-1a2b3c4d5e6f';
+
+    beforeEach(() => {
+      mockRequest.user = mockDecodedToken;
+      mockRequest.params = { id: sessionId };
+    });
+
+    it('should revoke the session of the authenticated user', async () => {
+      // Arrange
+      mockSessionService.revokeSession.mockResolvedValue(undefined);
+
+      // Act
+      await authController.revokeSession(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockSessionService.revokeSession).toHaveBeenCalledWith('user-123', sessionId);
+      expect(mockResponse.status).toHaveBeenCalledWith(HttpStatus.OK);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        timestamp: expect.any(String),
+        data: { message: 'Session revoked.' }
+      });
+    });
+
+    it('should call next with AppError when the session is not found', async () => {
+      // Arrange
+      const notFound = new AppError('Session not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+      mockSessionService.revokeSession.mockRejectedValue(notFound);
+
+      // Act
+      await authController.revokeSession(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(notFound);
+    });
+
+    it('should call next with ZodError for an invalid session ID', async () => {
+      // Arrange
+      mockRequest.params = { id: 'not-a-uuid' };
+
+      // Act
+      await authController.revokeSession(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(expect.any(ZodError));
+      expect(mockSessionService.revokeSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('two-factor management', () => {
+    const originalPolicy = process.env['REQUIRE_2FA_FOR_PRIVILEGED_ROLES'];
+
+    beforeEach(() => {
+      mockRequest.user = { ...mockDecodedToken, sid: 'session-123' };
+    });
+
+    afterEach(() => {
+      if (originalPolicy === undefined) {
+        delete process.env['REQUIRE_2FA_FOR_PRIVILEGED_ROLES'];
+      } else {
+        process.env['REQUIRE_2FA_FOR_PRIVILEGED_ROLES'] = originalPolicy;
+      }
+    });
+
+    it('should report the status and whether the role requires two-factor authentication', async () => {
+      // Arrange
+      process.env['REQUIRE_2FA_FOR_PRIVILEGED_ROLES'] = 'true';
+      mockRequest.user = { ...mockDecodedToken, role: 'admin' };
+      mockTwoFactorService.getStatus.mockResolvedValue({ enabled: false, enabled_at: null, recovery_codes_remaining: 0 });
+
+      // Act
+      await authController.twoFactorStatus(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        timestamp: expect.any(String),
+        data: { enabled: false, enabled_at: null, recovery_codes_remaining: 0, required: true }
+      });
+    });
+
+    it('should start enrollment for the account email', async () => {
+      // Arrange
+      const enrollment = { secret: 'JBSWY3DPEHPK3PXP', otpauth_url: 'otpauth://totp/WayrApp:test%40example.com?secret=JBSWY3DPEHPK3PXP' };
+      mockTwoFactorService.startEnrollment.mockResolvedValue(enrollment);
+
+      // Act
+      await authController.twoFactorSetup(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockTwoFactorService.startEnrollment).toHaveBeenCalledWith('user-123', 'test@example.com');
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ data: enrollment }));
+    });
+
+    it('should enable two-factor authentication and verify the current session', async () => {
+      // Arrange
+      mockRequest.body = { code: '123456' };
+      mockTwoFactorService.confirmEnrollment.mockResolvedValue(['AAAAA-BBBBB']);
+
+      // Act
+      await authController.twoFactorEnable(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockTwoFactorService.confirmEnrollment).toHaveBeenCalledWith('user-123', '123456');
+      expect(mockSessionService.markTwoFactorVerified).toHaveBeenCalledWith('user-123', 'session-123');
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        timestamp: expect.any(String),
+        message: 'Two-factor authentication enabled',
+        data: { recovery_codes: ['AAAAA-BBBBB'] }
+      });
+    });
+
+    it('should not verify the session when the code is wrong', async () => {
+      // Arrange
+      const invalidCode = new AppError('Invalid two-factor code', HttpStatus.BAD_REQUEST, ErrorCodes.VALIDATION_ERROR);
+      mockRequest.body = { code: '000000' };
+      mockTwoFactorService.confirmEnrollment.mockRejectedValue(invalidCode);
+
+      // Act
+      await authController.twoFactorEnable(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(invalidCode);
+      expect(mockSessionService.markTwoFactorVerified).not.toHaveBeenCalled();
+    });
+
+    it('should disable two-factor authentication with the role of the user', async () => {
+      // Arrange
+      mockRequest.body = { code: 'AAAAA-BBBBB' };
+
+      // Act
+      await authController.twoFactorDisable(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockTwoFactorService.disable).toHaveBeenCalledWith('user-123', 'student', 'AAAAA-BBBBB');
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+        data: { message: 'Two-factor authentication disabled.' }
+      }));
+    });
+
+    it('should regenerate recovery codes', async () => {
+      // Arrange
+      mockRequest.body = { code: '123456' };
+      mockTwoFactorService.regenerateRecoveryCodes.mockResolvedValue(['CCCCC-DDDDD']);
+
+      // Act
+      await authController.twoFactorRecoveryCodes(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockTwoFactorService.regenerateRecoveryCodes).toHaveBeenCalledWith('user-123', '123456');
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+        data: { recovery_codes: ['CCCCC-DDDDD'] }
+      }));
+    });
+
+    it('should call next with AppError when user is not authenticated', async () => {
+      // Arrange
+      mockRequest.user = undefined;
+
+      // Act
+      await authController.twoFactorSetup(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(
+        new AppError('Authentication required', HttpStatus.UNAUTHORIZED, ErrorCodes.AUTHENTICATION_ERROR)
+      );
+    });
+  });
+
+  describe('forgotPassword', () => {
+    it('should request a password reset and respond generically', async () => {
+      // Arrange
+      mockRequest.body = { email: 'test@example.com' };
+      mockAccountService.requestPasswordReset.mockResolvedValue(undefined);
+
+      // Act
+      await authController.forgotPassword(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockAccountService.requestPasswordReset).toHaveBeenCalledWith('test@example.com');
+      expect(mockResponse.status).toHaveBeenCalledWith(HttpStatus.OK);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        timestamp: expect.any(String),
+        data: {
+          message: 'If an account exists for this email, a password reset link has been sent.'
+        }
+      });
+    });
+
+    it('should call next with ZodError for invalid email format', async () => {
+      // Arrange
+      mockRequest.body = { email: 'invalid-email' };
+
+      // Act
+      await authController.forgotPassword(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(expect.any(ZodError));
+      expect(mockAccountService.requestPasswordReset).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    const validToken = 'a'.repeat(48);
+
+    it('should reset the password with a valid token', async () => {
+      // Arrange
+      mockRequest.body = { token: validToken, password: 'NewSecurePass123!' };
+      mockAccountService.resetPassword.mockResolvedValue(undefined);
+
+      // Act
+      await authController.resetPassword(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockAccountService.resetPassword).toHaveBeenCalledWith(validToken, 'NewSecurePass123!');
+      expect(mockResponse.status).toHaveBeenCalledWith(HttpStatus.OK);
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+
+    it('should call next with ZodError for a weak password', async () => {
+      // Arrange
+      mockRequest.body = { token: validToken, password: 'weak' };
+
+      // Act
+      await authController.resetPassword(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(expect.any(ZodError));
+      expect(mockAccountService.resetPassword).not.toHaveBeenCalled();
+    });
+
+    it('should call next with AccountService errors for invalid tokens', async () => {
+      // Arrange
+      mockRequest.body = { token: validToken, password: 'NewSecurePass123!' };
+      const tokenError = new AppError('Invalid or expired token', HttpStatus.BAD_REQUEST, ErrorCodes.VALIDATION_ERROR);
+      mockAccountService.resetPassword.mockRejectedValue(tokenError);
+
+      // Act
+      await authController.resetPassword(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(tokenError);
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should verify the email with a valid token', async () => {
+      // Arrange
+      const verifiedAt = new Date('2024-01-20');
+      mockRequest.body = { token: 'b'.repeat(48) };
+      mockAccountService.verifyEmail.mockResolvedValue({ ...mockUser, email_verified_at: verifiedAt });
+
+      // Act
+      await authController.verifyEmail(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockAccountService.verifyEmail).toHaveBeenCalledWith('b'.repeat(48));
+      expect(mockResponse.status).toHaveBeenCalledWith(HttpStatus.OK);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        timestamp: expect.any(String),
+        message: 'Email verified successfully',
+        data: { email_verified_at: verifiedAt }
+      });
+    });
+
+    it('should call next with ZodError for a malformed token', async () => {
+      // Arrange
+      mockRequest.body = { token: 'short' };
+
+      // Act
+      await authController.verifyEmail(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(expect.any(ZodError));
+    });
+  });
+
+  describe('resendVerification', () => {
+    it('should resend the verification email to the authenticated user', async () => {
+      // Arrange
+      mockRequest.user = mockDecodedToken;
+      mockAccountService.resendEmailVerification.mockResolvedValue(undefined);
+
+      // Act
+      await authController.resendVerification(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockAccountService.resendEmailVerification).toHaveBeenCalledWith('user-123');
+      expect(mockResponse.status).toHaveBeenCalledWith(HttpStatus.OK);
+    });
+
+    it('should call next with AppError when user is not authenticated', async () => {
+      // Arrange
+      mockRequest.user = undefined;
+
+      // Act
+      await authController.resendVerification(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(
+        new AppError('Authentication required', HttpStatus.UNAUTHORIZED, ErrorCodes.AUTHENTICATION_ERROR)
+      );
+    });
+  });
+
+  describe('oidcProviders', () => {
+    it('should list the configured providers', async () => {
+      // Arrange
+      mockOidcLoginService.getProviderNames.mockReturnValue(['google']);
+
+      // Act
+      await authController.oidcProviders(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        timestamp: expect.any(String),
+        data: { providers: ['google'] }
+      });
+    });
+  });
+
+  describe('oidcAuthorize', () => {
+    it('should start a login with the provider', async () => {
+      // Arrange
+      const login = { authorization_url: 'https://idp.example.com/authorize?state=abc', state: 'abc' };
+      mockRequest.params = { provider: 'google' };
+      mockOidcLoginService.startLogin.mockResolvedValue(login);
+
+      // Act
+      await authController.oidcAuthorize(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockOidcLoginService.startLogin).toHaveBeenCalledWith('google');
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ data: login }));
+    });
+  });
+
+  describe('oidcCallback', () => {
+    const callbackBody = { code: 'code-from-provider', state: 's'.repeat(48) };
+
+    beforeEach(() => {
+      mockRequest.params = { provider: 'google' };
+      mockRequest.body = callbackBody;
+    });
+
+    it('should issue the same token pair as a password login', async () => {
+      // Arrange
+      mockOidcLoginService.completeLogin.mockResolvedValue({ user: mockUser, is_new_user: false });
+
+      // Act
+      await authController.oidcCallback(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockOidcLoginService.completeLogin).toHaveBeenCalledWith('google', callbackBody.code, callbackBody.state);
+      expect(mockSessionService.createSession).toHaveBeenCalledWith({
+        userId: mockUser.id,
+        email: mockUser.email,
+        role: mockUser.role
+      }, { ip_address: '203.0.113.7' });
+      expect(mockUserService.updateLastLogin).toHaveBeenCalledWith(mockUser.id);
+      expect(mockResponse.status).toHaveBeenCalledWith(HttpStatus.OK);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        timestamp: expect.any(String),
+        message: 'Login successful',
+        data: {
+          user: {
+            id: mockUser.id,
+            email: mockUser.email,
+            username: mockUser.username,
+            role: mockUser.role
+          },
+          tokens: mockTokens,
+          is_new_user: false
+        }
+      });
+    });
+
+    it('should respond with 201 when a new account was created', async () => {
+      // Arrange
+      mockOidcLoginService.completeLogin.mockResolvedValue({ user: mockUser, is_new_user: true });
+
+      // Act
+      await authController.oidcCallback(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(HttpStatus.CREATED);
+    });
+
+    it('should return a two-factor token when the user has two-factor authentication enabled', async () => {
+      // Arrange
+      const challenge = { two_factor_required: true as const, two_factor_token: 't'.repeat(48), expires_in: 300 };
+      mockOidcLoginService.completeLogin.mockResolvedValue({ user: mockUser, is_new_user: false });
+      mockTwoFactorService.isEnabled.mockResolvedValue(true);
+      mockTwoFactorService.createLoginChallenge.mockResolvedValue(challenge);
+
+      // Act
+      await authController.oidcCallback(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockSessionService.createSession).not.toHaveBeenCalled();
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+        message: 'Two-factor authentication required',
+        data: { ...challenge, is_new_user: false }
+      }));
+    });
+
+    it('should call next with AppError for deactivated accounts', async () => {
+      // Arrange
+      mockOidcLoginService.completeLogin.mockResolvedValue({ user: { ...mockUser, is_active: false }, is_new_user: false });
+
+      // Act
+      await authController.oidcCallback(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(
+        new AppError('Account is deactivated', HttpStatus.UNAUTHORIZED, ErrorCodes.AUTHENTICATION_ERROR)
+      );
+      expect(mockSessionService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should call next with ZodError for an invalid provider name', async () => {
+      // Arrange
+      mockRequest.params = { provider: 'Not A Provider' };
+
+      // Act
+      await authController.oidcCallback(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(expect.any(ZodError));
+    });
+  });
+
+  describe('oidcLink', () => {
+    it('should link the provider account to the authenticated user', async () => {
+      // Arrange
+      mockRequest.user = mockDecodedToken;
+      mockRequest.params = { provider: 'google' };
+      mockRequest.body = { code: 'code-from-provider', state: 's'.repeat(48) };
+      mockOidcLoginService.linkIdentity.mockResolvedValue({
+        id: 'identity-1',
+        user_id: 'user-123',
+        provider: 'google',
+        subject: 'google-sub',
+        email: 'test@gmail.com',
+        created_at: new Date('2024-01-20')
+      });
+
+      // Act
+      await authController.oidcLink(mockRequest as any, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockOidcLoginService.linkIdentity).toHaveBeenCalledWith('user-123', 'google', 'code-from-provider', 's'.repeat(48));
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+        data: {
+          identity: { id: 'identity-1', provider: 'google', email: 'test@gmail.com', created_at: new Date('2024-01-20') }
+        }
+      }));
+    });
+  });
+
   describe('Security and Validation', () => {
     it('should validate input data using Zod schemas', async () => {
       // Arrange
@@ -735,7 +1543,7 @@ describe('AuthController', () => {
       // Arrange
       mockRequest.body = { refreshToken: 'valid.token' };
       const tokenError = new Error('Token service unavailable');
-      mockTokenBlacklistService.isTokenRevoked.mockRejectedValue(tokenError);
+      mockTokenBlacklistService.consumeToken.mockRejectedValue(tokenError);
 
       // Act
       await authController.refresh(mockRequest as any, mockResponse as Response, mockNext);
@@ -5,15 +5,19 @@
  * 
  * This module provides user authentication functionality for the WayrApp platform.
  * It serves as the primary controller layer for all authentication-related HTTP endpoints,
- * handling user registration, login, token refresh, logout, and user profile retrieval operations.
- * The controller integrates with the UserService for user management, TokenBlacklistService for
- * security token management, and implements robust validation, error handling, and security measures.
+ * handling user registration, login, two-factor authentication, OpenID Connect social login, token refresh,
+ * logout, session management, user profile retrieval, password reset and email verification operations. The
+ * controller integrates with the UserService for user management, SessionService for device sessions and refresh
+ * token rotation, TokenBlacklistService for refresh tokens issued before sessions existed, AccountService
+ * for emailed account flows, OidcLoginService for social login, TwoFactorService for TOTP two-factor
+ * authentication, and implements robust validation, error handling, and security measures.
  * 
  * Main authentication controller class with all endpoint handlers. Type definition for login request payload.
  * Type definition for refresh token request payload. Type definition for user registration request payload.
  * Type definition for authentication response structure.
  * 
- * Handles all authentication endpoints including registration, login, token refresh, logout, and user profile retrieval.
+ * Handles all authentication endpoints including registration, login, token refresh, logout, session management,
+ * user profile retrieval, password reset and email verification.
  * 
  * @module AuthController
  * @category Controllers
@@ -25,19 +29,31 @@
 
 import { Request, Response } from 'express';
 import { AppError, asyncHandler } from '@/shared/middleware/errorHandler';
-import { ErrorCodes, HttpStatus, ApiResponse, UserRole } from '@/shared/types';
+import { isTwoFactorRequired } from '@/shared/middleware/auth';
+import { ErrorCodes, HttpStatus, ApiResponse, JWTPayload, UserRole } from '@/shared/types';
 import {
-  generateTokenPair,
   verifyRefreshToken,
   TokenPayload
 } from '@/shared/utils/auth';
 import { logger } from '@/shared/utils/logger';
 import { UserService } from '../services/userService';
-import { CreateUserDto } from '../types';
+import { AccountService } from '../services/accountService';
+import { OidcLoginService } from '../services/oidcLoginService';
+import { SessionService } from '../services/sessionService';
+import { TwoFactorService } from '../services/twoFactorService';
+import { CreateUserDto, SessionContext, TwoFactorChallenge, TwoFactorEnrollment, TwoFactorStatus, UserSession } from '../types';
 import { 
   LoginSchema, 
   RegisterSchema, 
-  RefreshTokenBodySchema 
+  RefreshTokenBodySchema,
+  ForgotPasswordSchema,
+  ResetPasswordSchema,
+  VerifyEmailSchema,
+  OidcProviderParamsSchema,
+  OidcCallbackSchema,
+  SessionParamsSchema,
+  TwoFactorCodeBodySchema,
+  TwoFactorLoginSchema
 } from '@/shared/schemas/auth.schemas';
 
 
@@ -118,7 +134,11 @@ import { TokenBlacklistService } from '../services/tokenBlacklistService';
  * // Initialize controller with dependencies
  * const userService = new UserService(userRepository);
  * const tokenBlacklistService = new TokenBlacklistService(prisma);
- * const authController = new AuthController(userService, tokenBlacklistService);
+ * const accountService = new AccountService(userRepository, authTokenService, mailTransport);
+ * const oidcLoginService = new OidcLoginService(prisma, userRepository, userIdentityRepository, providers);
+ * const sessionService = new SessionService(prisma);
+ * const twoFactorService = new TwoFactorService(prisma, authTokenService);
+ * const authController = new AuthController(userService, tokenBlacklistService, accountService, oidcLoginService, sessionService, twoFactorService);
  * 
  * // Use in Express routes
  * router.post('/login', authController.login);
@@ -130,18 +150,27 @@ export class AuthController {
    * Creates an instance of AuthController
    * @param {UserService} userService - Service for user-related operations
    * @param {TokenBlacklistService} tokenBlacklistService - Service for token blacklist management (required)
+   * @param {AccountService} accountService - Service for password reset and email verification flows
+   * @param {OidcLoginService} oidcLoginService - Service for OpenID Connect social login
+   * @param {SessionService} sessionService - Service for device sessions and refresh token rotation
+   * @param {TwoFactorService} twoFactorService - Service for TOTP two-factor authentication
    */
   constructor(
     private userService: UserService,
-    private tokenBlacklistService: TokenBlacklistService
+    private tokenBlacklistService: TokenBlacklistService,
+    private accountService: AccountService,
+    private oidcLoginService: OidcLoginService,
+    private sessionService: SessionService,
+    private twoFactorService: TwoFactorService
   ) { }
 
   /**
    * User login endpoint handler
    * 
    * Authenticates a user with email and password credentials, validates account status,
-   * generates JWT token pair, and updates last login timestamp. Implements security
-   * measures including input validation and comprehensive logging.
+   * starts a session for the device and issues its JWT token pair, and updates last login timestamp. Implements security
+   * measures including input validation and comprehensive logging. Users with two-factor authentication
+   * enabled get a two-factor token instead of the token pair, to be exchanged with a code at `/auth/login/2fa`.
    * @param {Request} req - Express request object containing login credentials in body
    * @param {Response} res - Express response object for sending authentication response
    * @returns {Promise<void>} Resolves when login process completes successfully
@@ -151,6 +180,7 @@ export class AuthController {
    * // POST /api/auth/login
    * // Request body: { email: "user@example.com", password: "SecurePass123!" }
    * // Response: { success: true, data: { user: {...}, tokens: {...} } }
+   * // With two-factor authentication: { success: true, data: { two_factor_required: true, two_factor_token: "...", expires_in: 300 } }
    */
   login = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     // Validate request body
@@ -180,6 +210,23 @@ export class AuthController {
       );
     }
 
+    // Users with two-factor authentication get tokens only after entering a code
+    if (await this.twoFactorService.isEnabled(user.id)) {
+      const challenge = await this.twoFactorService.createLoginChallenge(user.id);
+
+      logger.info('Login requires two-factor authentication', { userId: user.id });
+
+      const response: ApiResponse<TwoFactorChallenge> = {
+        success: true,
+        timestamp: new Date().toISOString(),
+        message: 'Two-factor authentication required',
+        data: challenge
+      };
+
+      res.status(HttpStatus.OK).json(response);
+      return;
+    }
+
     // Generate tokens
     const tokenPayload: TokenPayload = {
       userId: user.id,
@@ -187,7 +234,7 @@ export class AuthController {
       role: user.role as UserRole
     };
 
-    const tokens = generateTokenPair(tokenPayload);
+    const tokens = await this.sessionService.createSession(tokenPayload, this.getSessionContext(req));
 
     // Update last login (optional)
     await this.userService.updateLastLogin(user.id);
@@ -216,12 +263,81 @@ export class AuthController {
     res.status(HttpStatus.OK).json(response);
   });
 
+  /**
+   * Two-factor login endpoint handler
+   * 
+   * Completes a login of a user with two-factor authentication enabled, exchanging the two-factor
+   * token returned by the login endpoint and a code from the authenticator app, or a recovery code,
+   * for a session. Access tokens of the session carry the `mfa` claim.
+   * @param {Request} req - Express request object containing the two-factor token and code in body
+   * @param {Response} res - Express response object for sending the authentication response
+   * @returns {Promise<void>} Resolves when the login has been completed
+   * @throws {AppError} When the two-factor token is invalid or expired, the code is wrong, or the account is inactive
+   * 
+   * @example
+   * // POST /api/auth/login/2fa
+   * // Request body: { two_factor_token: "token-from-login", code: "123456" }
+   * // Response: { success: true, data: { user: {...}, tokens: {...} } }
+   */
+  loginTwoFactor = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { two_factor_token, code } = TwoFactorLoginSchema.parse(req.body);
+
+    const userId = await this.twoFactorService.completeLoginChallenge(two_factor_token, code);
+
+    const user = await this.userService.findById(userId);
+    if (!user || !user.is_active) {
+      logger.warn('Two-factor login failed - user not found or inactive', { userId });
+      throw new AppError(
+        'Account is deactivated',
+        HttpStatus.UNAUTHORIZED,
+        ErrorCodes.AUTHENTICATION_ERROR
+      );
+    }
+
+    const tokenPayload: TokenPayload = {
+      userId: user.id,
+      email: user.email,
+      role: user.role as UserRole,
+      twoFactorVerified: true
+    };
+
+    const tokens = await this.sessionService.createSession(tokenPayload, this.getSessionContext(req));
+
+    await this.userService.updateLastLogin(user.id);
+
+    logger.info('Login successful', {
+      userId: user.id,
+      email: user.email,
+      role: user.role as UserRole,
+      twoFactor: true
+    });
+
+    const response: ApiResponse<AuthResponse> = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      message: 'Login successful',
+      data: {
+        user: {
+          id: user.id,
+          email: user.email,
+          username: user.username ?? undefined,
+          role: user.role as UserRole
+        },
+        tokens
+      }
+    };
+
+    res.status(HttpStatus.OK).json(response);
+  });
+
   /**
    * Token refresh endpoint handler
    * 
-   * Validates and refreshes JWT tokens using a valid refresh token. Checks token blacklist,
-   * verifies user account status, and generates a new token pair. Implements security
-   * measures to prevent token reuse and unauthorized access.
+   * Validates and refreshes JWT tokens using a valid refresh token. Verifies user account status
+   * and rotates the refresh token within its session: each refresh token can be used once, and
+   * reusing one that was already rotated revokes the whole session. Refresh tokens issued before
+   * sessions existed are checked against the token blacklist, revoked, and replaced with tokens
+   * of a new session. Refresh tokens issued before the user's last password reset are rejected.
    * @param {Request} req - Express request object containing refresh token in body
    * @param {Response} res - Express response object for sending new tokens
    * @returns {Promise<void>} Resolves when token refresh completes successfully
@@ -243,15 +359,17 @@ export class AuthController {
       // Verify refresh token
       const decoded = verifyRefreshToken(refreshToken);
 
-      // Check if token is blacklisted
-      const isRevoked = await this.tokenBlacklistService.isTokenRevoked(refreshToken);
-      if (isRevoked) {
-        logger.warn('Token refresh failed - token revoked', { userId: decoded.sub });
-        throw new AppError(
-          'Invalid refresh token',
-          HttpStatus.UNAUTHORIZED,
-          ErrorCodes.AUTHENTICATION_ERROR
-        );
+      // Revoke a token without session before it is exchanged: only the request that revokes it may go on
+      if (!decoded.sid) {
+        const consumed = await this.tokenBlacklistService.consumeToken(refreshToken, decoded.sub);
+        if (!consumed) {
+          logger.warn('Token refresh failed - token revoked', { userId: decoded.sub });
+          throw new AppError(
+            'Invalid refresh token',
+            HttpStatus.UNAUTHORIZED,
+            ErrorCodes.AUTHENTICATION_ERROR
+          );
+        }
       }
 
       // Get user to ensure they still exist and are active
@@ -274,6 +392,16 @@ export class AuthController {
         );
       }
 
+      // iat has second precision, so compare against the second the password was changed in
+      if (user.password_changed_at && decoded.iat < Math.floor(user.password_changed_at.getTime() / 1000)) {
+        logger.warn('Token refresh failed - token issued before password change', { userId: user.id });
+        throw new AppError(
+          'Invalid refresh token',
+          HttpStatus.UNAUTHORIZED,
+          ErrorCodes.AUTHENTICATION_ERROR
+        );
+      }
+
       // Generate new token pair
       const tokenPayload: TokenPayload = {
         userId: user.id,
@@ -281,7 +409,14 @@ export class AuthController {
         role: user.role as UserRole
       };
 
-      const tokens = generateTokenPair(tokenPayload);
+      const context = this.getSessionContext(req);
+      let tokens;
+      if (decoded.sid) {
+        tokens = await this.sessionService.rotateRefreshToken(refreshToken, tokenPayload, context);
+      } else {
+        // Move the client to a session, the old token was revoked above
+        tokens = await this.sessionService.createSession(tokenPayload, context);
+      }
 
       logger.info('Token refresh successful', { userId: user.id });
 
@@ -309,7 +444,8 @@ export class AuthController {
   /**
    * User logout endpoint handler
    * 
-   * Securely logs out a user by revoking their refresh token and adding it to the blacklist.
+   * Securely logs out a user by revoking the session their refresh token belongs to, or by adding
+   * the refresh token to the blacklist when it was issued before sessions existed.
    * Requires authentication via access token. Provides graceful handling when refresh token
    * is not provided in the request body.
    * @param {Request} req - Express request object with authenticated user and optional refresh token in body
@@ -331,7 +467,10 @@ export class AuthController {
 
       // Revoke refresh token if provided
       if (refreshToken) {
-        await this.tokenBlacklistService.revokeToken(refreshToken, userId);
+        const sessionEnded = await this.sessionService.endSessionByRefreshToken(refreshToken, userId);
+        if (!sessionEnded) {
+          await this.tokenBlacklistService.revokeToken(refreshToken, userId);
+        }
         logger.info('Refresh token revoked', { userId });
       } else {
         logger.warn('Logout without refresh token', { userId });
@@ -396,7 +535,14 @@ export class AuthController {
       role: user.role as UserRole
     };
 
-    const tokens = generateTokenPair(tokenPayload);
+    const tokens = await this.sessionService.createSession(tokenPayload, this.getSessionContext(req));
+
+    // A failed verification email must not fail the registration: the user can request a new one
+    try {
+      await this.accountService.sendEmailVerification(user);
+    } catch (error) {
+      logger.error('Failed to send email verification after registration', { error, userId: user.id });
+    }
 
     logger.info('Registration successful', {
       userId: user.id,
@@ -472,6 +618,7 @@ export class AuthController {
         country_code?: string | undefined;
         registration_date: Date;
         last_login_date?: Date | undefined;
+        email_verified_at: Date | null;
         profile_picture_url?: string | undefined;
         is_active: boolean;
         role: string;
@@ -489,6 +636,7 @@ export class AuthController {
           country_code: user.country_code ?? undefined,
           registration_date: user.registration_date,
           last_login_date: user.last_login_date ?? undefined,
+          email_verified_at: user.email_verified_at ?? null,
           profile_picture_url: user.profile_picture_url ?? undefined,
           is_active: user.is_active,
           role: user.role as UserRole,
@@ -500,4 +648,596 @@ export class AuthController {
 
     res.status(HttpStatus.OK).json(response);
   });
-}
\ No newline at end of file
+
+  /**
+   * Session list endpoint handler
+   * 
+   * Lists the devices the authenticated user is signed in on, most recently used first,
+   * flagging the session of the current request.
+   * @param {Request} req - Express request object with authenticated user information
+   * @param {Response} res - Express response object for sending the session list
+   * @returns {Promise<void>} Resolves when the list has been sent
+   * @throws {AppError} When the user is not authenticated
+   * 
+   * @example
+   * // GET /api/auth/sessions
+   * // Headers: { Authorization: "Bearer <access_token>" }
+   * // Response: { success: true, data: { sessions: [{ id: "uuid", device_name: "Chrome on Windows", current: true, ... }] } }
+   */
+  listSessions = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      throw new AppError(
+        'Authentication required',
+        HttpStatus.UNAUTHORIZED,
+        ErrorCodes.AUTHENTICATION_ERROR
+      );
+    }
+
+    const sessions = await this.sessionService.listSessions(req.user.sub);
+    const currentSessionId = req.user.sid;
+
+    const response: ApiResponse<{ sessions: (Omit<UserSession, 'user_id'> & { current: boolean })[] }> = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      data: {
+        sessions: sessions.map((session) => ({
+          id: session.id,
+          device_name: session.device_name,
+          ip_address: session.ip_address,
+          created_at: session.created_at,
+          last_used_at: session.last_used_at,
+          expires_at: session.expires_at,
+          current: session.id === currentSessionId
+        }))
+      }
+    };
+
+    res.status(HttpStatus.OK).json(response);
+  });
+
+  /**
+   * Session revocation endpoint handler
+   * 
+   * Signs the authenticated user out of one of their sessions, such as a lost or shared
+   * device: its refresh tokens stop working immediately, and access tokens already issued
+   * to it expire within minutes.
+   * @param {Request} req - Express request object with authenticated user and the session ID in params
+   * @param {Response} res - Express response object for sending the confirmation
+   * @returns {Promise<void>} Resolves when the session has been revoked
+   * @throws {AppError} When the user is not authenticated or has no active session with this ID
+   * 
+   * @example
+   * // DELETE /api/auth/sessions/3f2b8c1e-5d4a-4b6f-9e7d-1a2b3c4d5e6f
+   * // Headers: { Authorization: "Bearer <access_token>" }
+   * // Response: { success: true, data: { message: "Session revoked." } }
+   */
+  revokeSession = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      throw new AppError(
+        'Authentication required',
+        HttpStatus.UNAUTHORIZED,
+        ErrorCodes.AUTHENTICATION_ERROR
+      );
+    }
+
+    const { id } = SessionParamsSchema.parse(req.params);
+
+    await this.sessionService.revokeSession(req.user.sub, id);
+
+    const response: ApiResponse<{ message: string }> = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      data: {
+        message: 'Session revoked.'
+      }
+    };
+
+    res.status(HttpStatus.OK).json(response);
+  });
+
+  /**
+   * Forgot password endpoint handler
+   * 
+   * Emails a password reset link to the account using the given email address. Always
+   * responds with the same message, whether or not an active account uses the address,
+   * so the endpoint cannot be used to discover registered emails.
+   * @param {Request} req - Express request object containing the email in body
+   * @param {Response} res - Express response object for sending the confirmation
+   * @returns {Promise<void>} Resolves when the request has been processed
+   * 
+   * @example
+   * // POST /api/auth/forgot-password
+   * // Request body: { email: "user@example.com" }
+   * // Response: { success: true, data: { message: "If an account exists..." } }
+   */
+  forgotPassword = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { email } = ForgotPasswordSchema.parse(req.body);
+
+    await this.accountService.requestPasswordReset(email);
+
+    const response: ApiResponse<{ message: string }> = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      data: {
+        message: 'If an account exists for this email, a password reset link has been sent.'
+      }
+    };
+
+    res.status(HttpStatus.OK).json(response);
+  });
+
+  /**
+   * Reset password endpoint handler
+   * 
+   * Sets a new password using the single-use token emailed by the forgot password flow.
+   * @param {Request} req - Express request object containing the token and new password in body
+   * @param {Response} res - Express response object for sending the confirmation
+   * @returns {Promise<void>} Resolves when the password has been updated
+   * @throws {AppError} When the token is invalid, expired or already used
+   * 
+   * @example
+   * // POST /api/auth/reset-password
+   * // Request body: { token: "token-from-email", password: "NewSecurePass123!" }
+   * // Response: { success: true, data: { message: "Password has been reset..." } }
+   */
+  resetPassword = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { token, password } = ResetPasswordSchema.parse(req.body);
+
+    await this.accountService.resetPassword(token, password);
+
+    const response: ApiResponse<{ message: string }> = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      data: {
+        message: 'Password has been reset. You can now log in with your new password.'
+      }
+    };
+
+    res.status(HttpStatus.OK).json(response);
+  });
+
+  /**
+   * Verify email endpoint handler
+   * 
+   * Marks the user's email address as verified using the single-use token emailed after
+   * registration or by the resend verification endpoint.
+   * @param {Request} req - Express request object containing the token in body
+   * @param {Response} res - Express response object for sending the verification result
+   * @returns {Promise<void>} Resolves when the email has been verified
+   * @throws {AppError} When the token is invalid, expired or already used
+   * 
+   * @example
+   * // POST /api/auth/verify-email
+   * // Request body: { token: "token-from-email" }
+   * // Response: { success: true, data: { email_verified_at: "2024-01-20T10:30:00.000Z" } }
+   */
+  verifyEmail = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { token } = VerifyEmailSchema.parse(req.body);
+
+    const user = await this.accountService.verifyEmail(token);
+
+    const response: ApiResponse<{ email_verified_at: Date | null }> = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      message: 'Email verified successfully',
+      data: {
+        email_verified_at: user.email_verified_at ?? null
+      }
+    };
+
+    res.status(HttpStatus.OK).json(response);
+  });
+
+  /**
+   * Resend email verification endpoint handler
+   * 
+   * Emails a new verification link to the authenticated user, invalidating previous links.
+   * @param {Request} req - Express request object with authenticated user information
+   * @param {Response} res - Express response object for sending the confirmation
+   * @returns {Promise<void>} Resolves when the verification email has been sent
+   * @throws {AppError} When the user is not authenticated, not found, or already verified
+   * 
+   * @example
+   * // POST /api/auth/resend-verification
+   * // Headers: { Authorization: "Bearer <access_token>" }
+   * // Response: { success: true, data: { message: "Verification email sent." } }
+   */
+  resendVerification = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      throw new AppError(
+        'Authentication required',
+        HttpStatus.UNAUTHORIZED,
+        ErrorCodes.AUTHENTICATION_ERROR
+      );
+    }
+
+    await this.accountService.resendEmailVerification(req.user.sub);
+
+    const response: ApiResponse<{ message: string }> = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      data: {
+        message: 'Verification email sent.'
+      }
+    };
+
+    res.status(HttpStatus.OK).json(response);
+  });
+
+  /**
+   * Identity provider list endpoint handler
+   * 
+   * Lists the OpenID Connect providers users can sign in with, so clients can show
+   * the matching social login buttons.
+   * @param {Request} _req - Express request object
+   * @param {Response} res - Express response object for sending the provider list
+   * @returns {Promise<void>} Resolves when the list has been sent
+   * 
+   * @example
+   * // GET /api/auth/oidc/providers
+   * // Response: { success: true, data: { providers: ["google"] } }
+   */
+  oidcProviders = asyncHandler(async (_req: Request, res: Response): Promise<void> => {
+    const response: ApiResponse<{ providers: string[] }> = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      data: {
+        providers: this.oidcLoginService.getProviderNames()
+      }
+    };
+
+    res.status(HttpStatus.OK).json(response);
+  });
+
+  /**
+   * Social login start endpoint handler
+   * 
+   * Starts an OpenID Connect login and returns the provider URL the client must send
+   * the user to. The provider redirects the user back to the configured redirect URI
+   * with a code and the state, which the client submits to the callback endpoint.
+   * @param {Request} req - Express request object with the provider name in params
+   * @param {Response} res - Express response object for sending the authorization URL
+   * @returns {Promise<void>} Resolves when the login has been started
+   * @throws {AppError} When the provider is unknown or unreachable
+   * 
+   * @example
+   * // GET /api/auth/oidc/google/authorize
+   * // Response: { success: true, data: { authorization_url: "https://accounts.google.com/...", state: "..." } }
+   */
+  oidcAuthorize = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { provider } = OidcProviderParamsSchema.parse(req.params);
+
+    const login = await this.oidcLoginService.startLogin(provider);
+
+    const response: ApiResponse<typeof login> = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      data: login
+    };
+
+    res.status(HttpStatus.OK).json(response);
+  });
+
+  /**
+   * Social login callback endpoint handler
+   * 
+   * Completes an OpenID Connect login with the code and state returned by the provider
+   * and issues the same token pair as a password login. Provider accounts are linked to
+   * the user with the same verified email, or to a new passwordless account. Users with
+   * two-factor authentication enabled get a two-factor token instead, as with a password login.
+   * @param {Request} req - Express request object with the provider name in params and code and state in body
+   * @param {Response} res - Express response object for sending the authentication response
+   * @returns {Promise<void>} Resolves when the login has been completed
+   * @throws {AppError} When the state or code is invalid, the email is not verified, or the account is inactive
+   * 
+   * @example
+   * // POST /api/auth/oidc/google/callback
+   * // Request body: { code: "code-from-provider", state: "state-from-provider" }
+   * // Response: { success: true, data: { user: {...}, tokens: {...}, is_new_user: false } }
+   */
+  oidcCallback = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { provider } = OidcProviderParamsSchema.parse(req.params);
+    const { code, state } = OidcCallbackSchema.parse(req.body);
+
+    const { user, is_new_user } = await this.oidcLoginService.completeLogin(provider, code, state);
+
+    if (!user.is_active) {
+      logger.warn('OIDC login failed - user inactive', { userId: user.id, provider });
+      throw new AppError(
+        'Account is deactivated',
+        HttpStatus.UNAUTHORIZED,
+        ErrorCodes.AUTHENTICATION_ERROR
+      );
+    }
+
+    if (await this.twoFactorService.isEnabled(user.id)) {
+      const challenge = await this.twoFactorService.createLoginChallenge(user.id);
+
+      logger.info('OIDC login requires two-factor authentication', { userId: user.id, provider });
+
+      const response: ApiResponse<TwoFactorChallenge & { is_new_user: boolean }> = {
+        success: true,
+        timestamp: new Date().toISOString(),
+        message: 'Two-factor authentication required',
+        data: { ...challenge, is_new_user }
+      };
+
+      res.status(HttpStatus.OK).json(response);
+      return;
+    }
+
+    const tokenPayload: TokenPayload = {
+      userId: user.id,
+      email: user.email,
+      role: user.role as UserRole
+    };
+
+    const tokens = await this.sessionService.createSession(tokenPayload, this.getSessionContext(req));
+
+    await this.userService.updateLastLogin(user.id);
+
+    logger.info('OIDC login successful', { userId: user.id, provider, isNewUser: is_new_user });
+
+    const response: ApiResponse<AuthResponse & { is_new_user: boolean }> = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      message: 'Login successful',
+      data: {
+        user: {
+          id: user.id,
+          email: user.email,
+          username: user.username ?? undefined,
+          role: user.role as UserRole
+        },
+        tokens,
+        is_new_user
+      }
+    };
+
+    res.status(is_new_user ? HttpStatus.CREATED : HttpStatus.OK).json(response);
+  });
+
+  /**
+   * Social account linking endpoint handler
+   * 
+   * Links a provider account to the authenticated user, so they can also sign in with it.
+   * The client starts the flow with the authorize endpoint and submits the code and state
+   * here instead of to the callback endpoint.
+   * @param {Request} req - Express request object with authenticated user, provider name in params and code and state in body
+   * @param {Response} res - Express response object for sending the linked identity
+   * @returns {Promise<void>} Resolves when the account has been linked
+   * @throws {AppError} When not authenticated, the state or code is invalid, or the account is linked to another user
+   * 
+   * @example
+   * // POST /api/auth/oidc/google/link
+   * // Headers: { Authorization: "Bearer <access_token>" }
+   * // Request body: { code: "code-from-provider", state: "state-from-provider" }
+   * // Response: { success: true, data: { identity: { provider: "google", email: "user@gmail.com", ... } } }
+   */
+  oidcLink = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      throw new AppError(
+        'Authentication required',
+        HttpStatus.UNAUTHORIZED,
+        ErrorCodes.AUTHENTICATION_ERROR
+      );
+    }
+
+    const { provider } = OidcProviderParamsSchema.parse(req.params);
+    const { code, state } = OidcCallbackSchema.parse(req.body);
+
+    const identity = await this.oidcLoginService.linkIdentity(req.user.sub, provider, code, state);
+
+    const response: ApiResponse<{
+      identity: { id: string; provider: string; email?: string | null | undefined; created_at: Date }
+    }> = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      message: 'Account linked successfully',
+      data: {
+        identity: {
+          id: identity.id,
+          provider: identity.provider,
+          email: identity.email,
+          created_at: identity.created_at
+        }
+      }
+    };
+
+    res.status(HttpStatus.OK).json(response);
+  });
+
+  /**
+   * Two-factor status endpoint handler
+   * 
+   * Tells the authenticated user whether two-factor authentication is enabled, how many
+   * recovery codes are left, and whether their role requires it.
+   * @param {Request} req - Express request object with authenticated user information
+   * @param {Response} res - Express response object for sending the status
+   * @returns {Promise<void>} Resolves when the status has been sent
+   * @throws {AppError} When the user is not authenticated
+   * 
+   * @example
+   * // GET /api/auth/2fa
+   * // Headers: { Authorization: "Bearer <access_token>" }
+   * // Response: { success: true, data: { enabled: true, enabled_at: "...", recovery_codes_remaining: 9, required: false } }
+   */
+  twoFactorStatus = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const user = this.requireUser(req);
+
+    const status = await this.twoFactorService.getStatus(user.sub);
+
+    const response: ApiResponse<TwoFactorStatus & { required: boolean }> = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      data: {
+        ...status,
+        required: isTwoFactorRequired(user.role)
+      }
+    };
+
+    res.status(HttpStatus.OK).json(response);
+  });
+
+  /**
+   * Two-factor setup endpoint handler
+   * 
+   * Starts two-factor enrollment for the authenticated user with a new TOTP secret. The client
+   * shows the `otpauth_url` as a QR code for the authenticator app, with the secret as a fallback
+   * to type in, then confirms with a first code at `/auth/2fa/enable`.
+   * @param {Request} req - Express request object with authenticated user information
+   * @param {Response} res - Express response object for sending the secret
+   * @returns {Promise<void>} Resolves when enrollment has been started
+   * @throws {AppError} When the user is not authenticated or two-factor authentication is already enabled
+   * 
+   * @example
+   * // POST /api/auth/2fa/setup
+   * // Headers: { Authorization: "Bearer <access_token>" }
+   * // Response: { success: true, data: { secret: "JBSWY3DPEHPK3PXP...", otpauth_url: "otpauth://totp/WayrApp:user%40example.com?..." } }
+   */
+  twoFactorSetup = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const user = this.requireUser(req);
+
+    const enrollment = await this.twoFactorService.startEnrollment(user.sub, user.email);
+
+    const response: ApiResponse<TwoFactorEnrollment> = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      data: enrollment
+    };
+
+    res.status(HttpStatus.OK).json(response);
+  });
+
+  /**
+   * Two-factor enable endpoint handler
+   * 
+   * Confirms enrollment with a first code from the authenticator app, enables two-factor
+   * authentication and returns the recovery codes, which are shown only once. The current
+   * session counts as verified with two factors from its next token refresh.
+   * @param {Request} req - Express request object with authenticated user and the code in body
+   * @param {Response} res - Express response object for sending the recovery codes
+   * @returns {Promise<void>} Resolves when two-factor authentication has been enabled
+   * @throws {AppError} When the user is not authenticated, enrollment was not started, or the code is wrong
+   * 
+   * @example
+   * // POST /api/auth/2fa/enable
+   * // Headers: { Authorization: "Bearer <access_token>" }
+   * // Request body: { code: "123456" }
+   * // Response: { success: true, data: { recovery_codes: ["K7QPM-2XWZD", ...] } }
+   */
+  twoFactorEnable = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const user = this.requireUser(req);
+    const { code } = TwoFactorCodeBodySchema.parse(req.body);
+
+    const recoveryCodes = await this.twoFactorService.confirmEnrollment(user.sub, code);
+    if (user.sid) {
+      await this.sessionService.markTwoFactorVerified(user.sub, user.sid);
+    }
+
+    const response: ApiResponse<{ recovery_codes: string[] }> = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      message: 'Two-factor authentication enabled',
+      data: { recovery_codes: recoveryCodes }
+    };
+
+    res.status(HttpStatus.OK).json(response);
+  });
+
+  /**
+   * Two-factor disable endpoint handler
+   * 
+   * Disables two-factor authentication for the authenticated user after checking a code from
+   * the authenticator app or a recovery code. Not allowed for roles that require it.
+   * @param {Request} req - Express request object with authenticated user and the code in body
+   * @param {Response} res - Express response object for sending the confirmation
+   * @returns {Promise<void>} Resolves when two-factor authentication has been disabled
+   * @throws {AppError} When the user is not authenticated, their role requires two-factor authentication,
+   * it is not enabled, or the code is wrong
+   * 
+   * @example
+   * // POST /api/auth/2fa/disable
+   * // Headers: { Authorization: "Bearer <access_token>" }
+   * // Request body: { code: "123456" }
+   * // Response: { success: true, data: { message: "Two-factor authentication disabled." } }
+   */
+  twoFactorDisable = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const user = this.requireUser(req);
+    const { code } = TwoFactorCodeBodySchema.parse(req.body);
+
+    await this.twoFactorService.disable(user.sub, user.role, code);
+
+    const response: ApiResponse<{ message: string }> = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      data: {
+        message: 'Two-factor authentication disabled.'
+      }
+    };
+
+    res.status(HttpStatus.OK).json(response);
+  });
+
+  /**
+   * Recovery code regeneration endpoint handler
+   * 
+   * Replaces the recovery codes of the authenticated user after checking a code from the
+   * authenticator app or a recovery code. Previous recovery codes stop working.
+   * @param {Request} req - Express request object with authenticated user and the code in body
+   * @param {Response} res - Express response object for sending the new recovery codes
+   * @returns {Promise<void>} Resolves when the recovery codes have been replaced
+   * @throws {AppError} When the user is not authenticated, two-factor authentication is not enabled, or the code is wrong
+   * 
+   * @example
+   * // POST /api/auth/2fa/recovery-codes
+   * // Headers: { Authorization: "Bearer <access_token>" }
+   * // Request body: { code: "123456" }
+   * // Response: { success: true, data: { recovery_codes: ["K7QPM-2XWZD", ...] } }
+   */
+  twoFactorRecoveryCodes = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const user = this.requireUser(req);
+    const { code } = TwoFactorCodeBodySchema.parse(req.body);
+
+    const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(user.sub, code);
+
+    const response: ApiResponse<{ recovery_codes: string[] }> = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      data: { recovery_codes: recoveryCodes }
+    };
+
+    res.status(HttpStatus.OK).json(response);
+  });
+
+  /**
+   * Returns the authenticated user, or fails when the request is not authenticated
+   * @private
+   */
+  private requireUser(req: Request): JWTPayload {
+    if (!req.user) {
+      throw new AppError(
+        'Authentication required',
+        HttpStatus.UNAUTHORIZED,
+        ErrorCodes.AUTHENTICATION_ERROR
+      );
+    }
+    return req.user;
+  }
+
+  /**
+   * Describes the device a request comes from. Clients can name the device with the
+   * `X-Device-Name` header; otherwise the name is derived from the user agent.
+   * @private
+   */
+  private getSessionContext(req: Request): SessionContext {
+    const deviceName = req.get('x-device-name')?.trim().slice(0, 100);
+    const userAgent = req.get('user-agent');
+
+    return {
+      ...(deviceName && { device_name: deviceName }),
+      ...(req.ip && { ip_address: req.ip }),
+      ...(userAgent && { user_agent: userAgent })
+    };
+  }
+}
@@ -0,0 +1,243 @@
+// src/modules/users/controllers/followController.ts
+
+/**
+ * HTTP API controller for following, blocking and muting users.
+ *
+ * This controller handles the social endpoints learners use to build a study circle: following and
+ * unfollowing other users, listing a user's followers and followed users, and blocking or muting users.
+ * All endpoints require authentication and act on behalf of the authenticated user; business rules
+ * such as block handling are delegated to the FollowService layer.
+ *
+ * @module FollowController
+ * @category Users
+ * @category Controllers
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * // Initialize controller with service dependency
+ * const followService = new FollowService(followRepository, userRepository);
+ * const followController = new FollowController(followService);
+ *
+ * // Register routes with Express router
+ * router.post('/:id/follow', authenticateToken, followController.followUser);
+ * router.get('/:id/followers', authenticateToken, followController.getFollowers);
+ */
+
+import { Request, Response } from 'express';
+import { AppError, asyncHandler } from '@/shared/middleware/errorHandler';
+import { ErrorCodes, HttpStatus, ApiResponse } from '@/shared/types';
+import { PaginationQuery } from '@/shared/schemas';
+import { FollowService } from '../services/followService';
+
+/**
+ * HTTP API controller for social relationship operations.
+ *
+ * @class FollowController
+ */
+export class FollowController {
+  /**
+   * Creates an instance of FollowController.
+   *
+   * @param {FollowService} followService - Service layer for social relationship business logic
+   */
+  constructor(private followService: FollowService) { }
+
+  /**
+   * Follows a user.
+   *
+   * Handles POST /api/users/:id/follow endpoint. Requires authentication.
+   *
+   * @param {Request} req - Express request object with the user ID to follow in params
+   * @param {Response} res - Express response object
+   * @returns {Promise<void>} Promise that resolves when response is sent
+   */
+  followUser = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { viewerId, targetId } = this.getUserIds(req);
+
+    await this.followService.followUser(viewerId, targetId);
+
+    this.sendMessage(res, HttpStatus.CREATED, 'User followed successfully');
+  });
+
+  /**
+   * Unfollows a user.
+   *
+   * Handles DELETE /api/users/:id/follow endpoint. Requires authentication.
+   *
+   * @param {Request} req - Express request object with the user ID to unfollow in params
+   * @param {Response} res - Express response object
+   * @returns {Promise<void>} Promise that resolves when response is sent
+   */
+  unfollowUser = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { viewerId, targetId } = this.getUserIds(req);
+
+    await this.followService.unfollowUser(viewerId, targetId);
+
+    this.sendMessage(res, HttpStatus.OK, 'User unfollowed successfully');
+  });
+
+  /**
+   * Lists the followers of a user.
+   *
+   * Handles GET /api/users/:id/followers endpoint. Requires authentication.
+   *
+   * @param {Request} req - Express request object with user ID in params and pagination in query
+   * @param {Response} res - Express response object
+   * @returns {Promise<void>} Promise that resolves when response is sent
+   *
+   * @example
+   * // Response format:
+   * {
+   *   "success": true,
+   *   "timestamp": "2025-01-01T10:00:00Z",
+   *   "data": {
+   *     "data": [{ "id": "user-456", "username": "maria", "followed_at": "2025-01-01T09:00:00Z" }],
+   *     "pagination": { "page": 1, "limit": 20, "total": 1, "totalPages": 1, "hasNext": false, "hasPrev": false }
+   *   }
+   * }
+   */
+  getFollowers = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { viewerId, targetId } = this.getUserIds(req);
+    const { page, limit } = req.query as unknown as PaginationQuery;
+
+    const followers = await this.followService.getFollowers(viewerId, targetId, { page, limit });
+
+    const response: ApiResponse<typeof followers> = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      data: followers
+    };
+
+    res.status(HttpStatus.OK).json(response);
+  });
+
+  /**
+   * Lists the users followed by a user.
+   *
+   * Handles GET /api/users/:id/following endpoint. Requires authentication.
+   *
+   * @param {Request} req - Express request object with user ID in params and pagination in query
+   * @param {Response} res - Express response object
+   * @returns {Promise<void>} Promise that resolves when response is sent
+   */
+  getFollowing = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { viewerId, targetId } = this.getUserIds(req);
+    const { page, limit } = req.query as unknown as PaginationQuery;
+
+    const following = await this.followService.getFollowing(viewerId, targetId, { page, limit });
+
+    const response: ApiResponse<typeof following> = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      data: following
+    };
+
+    res.status(HttpStatus.OK).json(response);
+  });
+
+  /**
+   * Blocks a user.
+   *
+   * Handles POST /api/users/:id/block endpoint. Requires authentication.
+   *
+   * @param {Request} req - Express request object with the user ID to block in params
+   * @param {Response} res - Express response object
+   * @returns {Promise<void>} Promise that resolves when response is sent
+   */
+  blockUser = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { viewerId, targetId } = this.getUserIds(req);
+
+    await this.followService.blockUser(viewerId, targetId);
+
+    this.sendMessage(res, HttpStatus.OK, 'User blocked successfully');
+  });
+
+  /**
+   * Unblocks a user.
+   *
+   * Handles DELETE /api/users/:id/block endpoint. Requires authentication.
+   *
+   * @param {Request} req - Express request object with the user ID to unblock in params
+   * @param {Response} res - Express response object
+   * @returns {Promise<void>} Promise that resolves when response is sent
+   */
+  unblockUser = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { viewerId, targetId } = this.getUserIds(req);
+
+    await this.followService.unblockUser(viewerId, targetId);
+
+    this.sendMessage(res, HttpStatus.OK, 'User unblocked successfully');
+  });
+
+  /**
+   * Mutes a user.
+   *
+   * Handles POST /api/users/:id/mute endpoint. Requires authentication.
+   *
+   * @param {Request} req - Express request object with the user ID to mute in params
+   * @param {Response} res - Express response object
+   * @returns {Promise<void>} Promise that resolves when response is sent
+   */
+  muteUser = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { viewerId, targetId } = this.getUserIds(req);
+
+    await this.followService.muteUser(viewerId, targetId);
+
+    this.sendMessage(res, HttpStatus.OK, 'User muted successfully');
+  });
+
+  /**
+   * Unmutes a user.
+   *
+   * Handles DELETE /api/users/:id/mute endpoint. Requires authentication.
+   *
+   * @param {Request} req - Express request object with the user ID to unmute in params
+   * @param {Response} res - Express response object
+   * @returns {Promise<void>} Promise that resolves when response is sent
+   */
+  unmuteUser = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { viewerId, targetId } = this.getUserIds(req);
+
+    await this.followService.unmuteUser(viewerId, targetId);
+
+    this.sendMessage(res, HttpStatus.OK, 'User unmuted successfully');
+  });
+
+  /**
+   * Extracts the authenticated user ID and the target user ID from the request.
+   *
+   * @private
+   */
+  private getUserIds(req: Request): { viewerId: string; targetId: string } {
+    if (!req.user) {
+      throw new AppError(
+        'Authentication required',
+        HttpStatus.UNAUTHORIZED,
+        ErrorCodes.AUTHENTICATION_ERROR
+      );
+    }
+
+    const targetId = req.params['id'];
+    if (!targetId) {
+      throw new AppError('User ID is required', HttpStatus.BAD_REQUEST, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    return { viewerId: req.user.sub, targetId };
+  }
+
+  /**
+   * Sends a success response without data.
+   *
+   * @private
+   */
+  private sendMessage(res: Response, status: HttpStatus, message: string): void {
+    const response: ApiResponse = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      message
+    };
+
+    res.status(status).json(response);
+  }
+}
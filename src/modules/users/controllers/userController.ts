@@ -35,7 +35,7 @@
  * @example
  * // Initialize controller with service dependency
  * const userService = new UserService(userRepository);
- * const userController = new UserController(userService);
+ * const userController = new UserController(userService, followService);
  * 
  * // Register routes with Express router
  * router.get('/profile', authenticateToken, userController.getProfile);
@@ -49,6 +49,7 @@ import { ErrorCodes, HttpStatus, ApiResponse, QueryOptions } from '@/shared/type
 import { UserQueryParams } from '@/shared/schemas';
 import { logger } from '@/shared/utils/logger';
 import { UserService } from '../services/userService';
+import { FollowService } from '../services/followService';
 import { UpdateUserSchema, UpdatePasswordSchema, AllowedProfileUpdateDto } from '../types';
 
 /**
@@ -61,8 +62,12 @@ export class UserController {
    * Creates an instance of UserController.
    * 
    * @param {UserService} userService - Service layer for user business logic
+   * @param {FollowService} followService - Service layer for follower counts and public profiles
    */
-  constructor(private userService: UserService) { }
+  constructor(
+    private userService: UserService,
+    private followService: FollowService
+  ) { }
 
   /**
    * Retrieves the current authenticated user's profile information.
@@ -126,7 +131,8 @@ export class UserController {
    * {
    *   "username": "newusername",
    *   "country_code": "US",
-   *   "profile_picture_url": "https://example.com/avatar.jpg"
+   *   "profile_picture_url": "https://example.com/avatar.jpg",
+   *   "timezone": "America/New_York"
    * }
    */
   updateProfile = asyncHandler(async (req: Request, res: Response): Promise<void> => {
@@ -146,7 +152,7 @@ export class UserController {
     // --- START OF REPLACEMENT BLOCK ---
 
     // Define the single source of truth for allowed fields
-    const allowedKeys: (keyof AllowedProfileUpdateDto)[] = ['username', 'country_code', 'profile_picture_url'];
+    const allowedKeys: (keyof AllowedProfileUpdateDto)[] = ['username', 'country_code', 'profile_picture_url', 'timezone'];
 
     // Create the clean DTO using a functional approach
     const allowedProfileUpdate = Object.keys(validatedData)
@@ -296,18 +302,23 @@ export class UserController {
   });
 
   /**
-   * Retrieves detailed information for a specific user by ID (administrative function).
+   * Retrieves a user's profile by ID, including follower and following counts.
    * 
-   * Handles GET /api/users/:id endpoint. Requires admin role.
+   * Handles GET /api/users/:id endpoint. Requires authentication.
+   * Administrators receive the full user record; other users receive the public profile
+   * together with their relationship to the requested user.
    * 
    * @param {Request} req - Express request object with user ID in params
    * @param {Response} res - Express response object
    * @returns {Promise<void>} Promise that resolves when response is sent
    */
   getUserById = asyncHandler(async (req: Request, res: Response): Promise<void> => {
-    // Defense-in-depth: Explicit admin role check
-    if (req.user?.role !== 'admin') {
-      throw new AppError('Insufficient permissions', HttpStatus.FORBIDDEN, ErrorCodes.AUTHORIZATION_ERROR);
+    if (!req.user) {
+      throw new AppError(
+        'Authentication required',
+        HttpStatus.UNAUTHORIZED,
+        ErrorCodes.AUTHENTICATION_ERROR
+      );
     }
 
     const userId = req.params['id'];
@@ -319,15 +330,22 @@ export class UserController {
       );
     }
 
+    let profile;
+    if (req.user.role === 'admin') {
+      const user = await this.userService.getUserProfile(userId);
+      if (!user) {
+        throw new AppError('User not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+      }
+      const counts = await this.followService.getFollowCounts(userId);
+      profile = { ...user, ...counts };
+    } else {
+      profile = await this.followService.getPublicProfile(req.user.sub, userId);
+    }
 
-
-    // Service will throw an error if user is not found
-    const user = await this.userService.getUserProfile(userId);
-
-    const response: ApiResponse<typeof user> = {
+    const response: ApiResponse<typeof profile> = {
       success: true,
       timestamp: new Date().toISOString(),
-      data: user
+      data: profile
     };
 
     res.status(HttpStatus.OK).json(response);
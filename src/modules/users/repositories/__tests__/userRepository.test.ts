@@ -856,6 +856,29 @@ describe("UserRepository", () => {
     });
   });
 
+  describe("resetPassword", () => {
+    it("should update the password and revoke the active sessions in one transaction", async () => {
+      const userId = "test-id";
+      const userSession = { updateMany: jest.fn().mockResolvedValue({ count: 2 }) };
+      (mockPrisma as any).userSession = userSession;
+      mockPrisma.$transaction.mockImplementation(async (operations: any) => Promise.all(operations));
+      mockPrisma.user.update.mockResolvedValue({ id: userId, email: "test@example.com", isActive: true, role: "student" });
+
+      const result = await userRepository.resetPassword(userId, "new-hashed-password");
+
+      expect(result.id).toBe(userId);
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: userId },
+        data: { passwordHash: "new-hashed-password", passwordChangedAt: expect.any(Date) },
+      });
+      expect(userSession.updateMany).toHaveBeenCalledWith({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: "password_reset" },
+      });
+    });
+  });
+
   describe("updatePassword", () => {
     it("should update user password successfully", async () => {
       // Arrange
@@ -0,0 +1,415 @@
+// src/modules/users/repositories/followRepository.ts
+
+/**
+ * Follow Repository - Data access layer for social relationships between users using Prisma ORM
+ *
+ * Provides data access operations for follows, blocks and mutes, the relationships learners use to
+ * build a study circle.
+ *
+ * Follows are directional (`follower` → `followed`) and stored in the `follows` table. Blocks and mutes
+ * follow the same shape in the `blocks` and `mutes` tables. Blocking a user removes any follow between
+ * the two users in either direction within the same transaction, and users on either side of a block
+ * are hidden from each other's follower and following lists. Muting does not affect follows; it only
+ * records that the muter does not want to see the muted user's activity.
+ *
+ * Follower and following lists and counts only include active accounts.
+ *
+ * @module followRepository
+ * @category Repositories
+ * @category Users
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * ```typescript
+ * const followRepository = new FollowRepository(prisma);
+ *
+ * await followRepository.createFollow('user-123', 'user-456');
+ * const followers = await followRepository.findFollowers('user-456', 'user-123', { page: 1, limit: 20 });
+ * const counts = await followRepository.countFollows('user-456');
+ * ```
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { FollowCounts, FollowListUser, UserRelationship } from '../types';
+import { AppError } from '@/shared/middleware/errorHandler';
+import { ErrorCodes, HttpStatus, PaginatedResult } from '@/shared/types';
+import { logger } from '@/shared/utils/logger';
+
+/**
+ * Relationship between two users including whether the viewer is blocked by the other user
+ */
+export type UserRelationshipWithBlockedBy = UserRelationship & { is_blocked_by: boolean };
+
+/**
+ * FollowRepository - Data access layer for follows, blocks and mutes
+ *
+ * @class FollowRepository
+ */
+export class FollowRepository {
+  /**
+   * Creates a new FollowRepository instance
+   *
+   * @param {PrismaClient} prisma - Prisma client instance for database operations
+   */
+  constructor(private prisma: PrismaClient) { }
+
+  /**
+   * Creates a follow from one user to another
+   *
+   * @param {string} followerId - ID of the user who follows
+   * @param {string} followedId - ID of the user being followed
+   * @returns {Promise<void>}
+   * @throws {AppError} Throws CONFLICT error if the follow already exists
+   * @throws {AppError} Throws NOT_FOUND error if either user doesn't exist
+   * @throws {AppError} Throws DATABASE_ERROR for other database-related failures
+   */
+  async createFollow(followerId: string, followedId: string): Promise<void> {
+    try {
+      await this.prisma.follow.create({
+        data: { followerId, followedId },
+      });
+    } catch (error) {
+      logger.error('Error creating follow', { error, followerId, followedId });
+
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2002') {
+          throw new AppError('Already following this user', HttpStatus.CONFLICT, ErrorCodes.CONFLICT);
+        }
+        if (error.code === 'P2003') {
+          throw new AppError('User not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+        }
+      }
+
+      throw new AppError('Failed to follow user', HttpStatus.INTERNAL_SERVER_ERROR, ErrorCodes.DATABASE_ERROR);
+    }
+  }
+
+  /**
+   * Removes a follow from one user to another
+   *
+   * @param {string} followerId - ID of the user who follows
+   * @param {string} followedId - ID of the user being followed
+   * @returns {Promise<boolean>} Promise resolving to true if a follow was removed
+   * @throws {AppError} Throws DATABASE_ERROR for database-related failures
+   */
+  async deleteFollow(followerId: string, followedId: string): Promise<boolean> {
+    try {
+      const result = await this.prisma.follow.deleteMany({
+        where: { followerId, followedId },
+      });
+
+      return result.count > 0;
+    } catch (error) {
+      logger.error('Error deleting follow', { error, followerId, followedId });
+      throw new AppError('Failed to unfollow user', HttpStatus.INTERNAL_SERVER_ERROR, ErrorCodes.DATABASE_ERROR);
+    }
+  }
+
+  /**
+   * Retrieves the users following a user, most recent first
+   *
+   * @param {string} userId - ID of the user whose followers are listed
+   * @param {string} viewerId - ID of the user requesting the list, used to hide blocked users
+   * @param {object} options - Pagination options
+   * @param {number} options.page - Page number (1-based)
+   * @param {number} options.limit - Number of users per page
+   * @returns {Promise<PaginatedResult<FollowListUser>>} Promise resolving to paginated followers
+   * @throws {AppError} Throws DATABASE_ERROR for database-related failures
+   */
+  async findFollowers(
+    userId: string,
+    viewerId: string,
+    options: { page: number; limit: number }
+  ): Promise<PaginatedResult<FollowListUser>> {
+    try {
+      const where: Prisma.FollowWhereInput = {
+        followedId: userId,
+        follower: this.buildVisibleUserWhere(viewerId),
+      };
+
+      const [total, follows] = await Promise.all([
+        this.prisma.follow.count({ where }),
+        this.prisma.follow.findMany({
+          where,
+          include: { follower: true },
+          orderBy: { createdAt: 'desc' },
+          skip: (options.page - 1) * options.limit,
+          take: options.limit,
+        }),
+      ]);
+
+      return this.buildPaginatedResult(
+        follows.map((follow) => this.mapFollowListUser(follow.follower, follow.createdAt)),
+        total,
+        options
+      );
+    } catch (error) {
+      logger.error('Error finding followers', { error, userId });
+      throw new AppError('Failed to retrieve followers', HttpStatus.INTERNAL_SERVER_ERROR, ErrorCodes.DATABASE_ERROR);
+    }
+  }
+
+  /**
+   * Retrieves the users a user follows, most recent first
+   *
+   * @param {string} userId - ID of the user whose follows are listed
+   * @param {string} viewerId - ID of the user requesting the list, used to hide blocked users
+   * @param {object} options - Pagination options
+   * @param {number} options.page - Page number (1-based)
+   * @param {number} options.limit - Number of users per page
+   * @returns {Promise<PaginatedResult<FollowListUser>>} Promise resolving to paginated followed users
+   * @throws {AppError} Throws DATABASE_ERROR for database-related failures
+   */
+  async findFollowing(
+    userId: string,
+    viewerId: string,
+    options: { page: number; limit: number }
+  ): Promise<PaginatedResult<FollowListUser>> {
+    try {
+      const where: Prisma.FollowWhereInput = {
+        followerId: userId,
+        followed: this.buildVisibleUserWhere(viewerId),
+      };
+
+      const [total, follows] = await Promise.all([
+        this.prisma.follow.count({ where }),
+        this.prisma.follow.findMany({
+          where,
+          include: { followed: true },
+          orderBy: { createdAt: 'desc' },
+          skip: (options.page - 1) * options.limit,
+          take: options.limit,
+        }),
+      ]);
+
+      return this.buildPaginatedResult(
+        follows.map((follow) => this.mapFollowListUser(follow.followed, follow.createdAt)),
+        total,
+        options
+      );
+    } catch (error) {
+      logger.error('Error finding following', { error, userId });
+      throw new AppError('Failed to retrieve followed users', HttpStatus.INTERNAL_SERVER_ERROR, ErrorCodes.DATABASE_ERROR);
+    }
+  }
+
+  /**
+   * Counts a user's followers and followed users among active accounts
+   *
+   * @param {string} userId - ID of the user
+   * @returns {Promise<FollowCounts>} Promise resolving to follower and following counts
+   * @throws {AppError} Throws DATABASE_ERROR for database-related failures
+   */
+  async countFollows(userId: string): Promise<FollowCounts> {
+    try {
+      const [followersCount, followingCount] = await Promise.all([
+        this.prisma.follow.count({ where: { followedId: userId, follower: { isActive: true } } }),
+        this.prisma.follow.count({ where: { followerId: userId, followed: { isActive: true } } }),
+      ]);
+
+      return {
+        followers_count: followersCount,
+        following_count: followingCount,
+      };
+    } catch (error) {
+      logger.error('Error counting follows', { error, userId });
+      throw new AppError('Failed to count follows', HttpStatus.INTERNAL_SERVER_ERROR, ErrorCodes.DATABASE_ERROR);
+    }
+  }
+
+  /**
+   * Retrieves the relationship between a viewing user and another user
+   *
+   * @param {string} viewerId - ID of the viewing user
+   * @param {string} targetId - ID of the other user
+   * @returns {Promise<UserRelationshipWithBlockedBy>} Promise resolving to follow, block and mute flags
+   * @throws {AppError} Throws DATABASE_ERROR for database-related failures
+   */
+  async findRelationship(viewerId: string, targetId: string): Promise<UserRelationshipWithBlockedBy> {
+    try {
+      const [following, followedBy, blocked, blockedBy, muted] = await Promise.all([
+        this.prisma.follow.findUnique({ where: { followerId_followedId: { followerId: viewerId, followedId: targetId } } }),
+        this.prisma.follow.findUnique({ where: { followerId_followedId: { followerId: targetId, followedId: viewerId } } }),
+        this.prisma.block.findUnique({ where: { blockerId_blockedId: { blockerId: viewerId, blockedId: targetId } } }),
+        this.prisma.block.findUnique({ where: { blockerId_blockedId: { blockerId: targetId, blockedId: viewerId } } }),
+        this.prisma.mute.findUnique({ where: { muterId_mutedId: { muterId: viewerId, mutedId: targetId } } }),
+      ]);
+
+      return {
+        is_following: following !== null,
+        is_followed_by: followedBy !== null,
+        is_blocked: blocked !== null,
+        is_blocked_by: blockedBy !== null,
+        is_muted: muted !== null,
+      };
+    } catch (error) {
+      logger.error('Error finding user relationship', { error, viewerId, targetId });
+      throw new AppError('Failed to retrieve user relationship', HttpStatus.INTERNAL_SERVER_ERROR, ErrorCodes.DATABASE_ERROR);
+    }
+  }
+
+  /**
+   * Blocks a user and removes any follow between both users
+   *
+   * Blocking an already blocked user is a no-op.
+   *
+   * @param {string} blockerId - ID of the user who blocks
+   * @param {string} blockedId - ID of the user being blocked
+   * @returns {Promise<void>}
+   * @throws {AppError} Throws NOT_FOUND error if either user doesn't exist
+   * @throws {AppError} Throws DATABASE_ERROR for other database-related failures
+   */
+  async createBlock(blockerId: string, blockedId: string): Promise<void> {
+    try {
+      await this.prisma.$transaction([
+        this.prisma.block.upsert({
+          where: { blockerId_blockedId: { blockerId, blockedId } },
+          create: { blockerId, blockedId },
+          update: {},
+        }),
+        this.prisma.follow.deleteMany({
+          where: {
+            OR: [
+              { followerId: blockerId, followedId: blockedId },
+              { followerId: blockedId, followedId: blockerId },
+            ],
+          },
+        }),
+      ]);
+    } catch (error) {
+      logger.error('Error creating block', { error, blockerId, blockedId });
+
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2003') {
+        throw new AppError('User not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+      }
+
+      throw new AppError('Failed to block user', HttpStatus.INTERNAL_SERVER_ERROR, ErrorCodes.DATABASE_ERROR);
+    }
+  }
+
+  /**
+   * Removes a block
+   *
+   * @param {string} blockerId - ID of the user who blocked
+   * @param {string} blockedId - ID of the blocked user
+   * @returns {Promise<boolean>} Promise resolving to true if a block was removed
+   * @throws {AppError} Throws DATABASE_ERROR for database-related failures
+   */
+  async deleteBlock(blockerId: string, blockedId: string): Promise<boolean> {
+    try {
+      const result = await this.prisma.block.deleteMany({
+        where: { blockerId, blockedId },
+      });
+
+      return result.count > 0;
+    } catch (error) {
+      logger.error('Error deleting block', { error, blockerId, blockedId });
+      throw new AppError('Failed to unblock user', HttpStatus.INTERNAL_SERVER_ERROR, ErrorCodes.DATABASE_ERROR);
+    }
+  }
+
+  /**
+   * Mutes a user
+   *
+   * Muting an already muted user is a no-op.
+   *
+   * @param {string} muterId - ID of the user who mutes
+   * @param {string} mutedId - ID of the user being muted
+   * @returns {Promise<void>}
+   * @throws {AppError} Throws NOT_FOUND error if either user doesn't exist
+   * @throws {AppError} Throws DATABASE_ERROR for other database-related failures
+   */
+  async createMute(muterId: string, mutedId: string): Promise<void> {
+    try {
+      await this.prisma.mute.upsert({
+        where: { muterId_mutedId: { muterId, mutedId } },
+        create: { muterId, mutedId },
+        update: {},
+      });
+    } catch (error) {
+      logger.error('Error creating mute', { error, muterId, mutedId });
+
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2003') {
+        throw new AppError('User not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+      }
+
+      throw new AppError('Failed to mute user', HttpStatus.INTERNAL_SERVER_ERROR, ErrorCodes.DATABASE_ERROR);
+    }
+  }
+
+  /**
+   * Removes a mute
+   *
+   * @param {string} muterId - ID of the user who muted
+   * @param {string} mutedId - ID of the muted user
+   * @returns {Promise<boolean>} Promise resolving to true if a mute was removed
+   * @throws {AppError} Throws DATABASE_ERROR for database-related failures
+   */
+  async deleteMute(muterId: string, mutedId: string): Promise<boolean> {
+    try {
+      const result = await this.prisma.mute.deleteMany({
+        where: { muterId, mutedId },
+      });
+
+      return result.count > 0;
+    } catch (error) {
+      logger.error('Error deleting mute', { error, muterId, mutedId });
+      throw new AppError('Failed to unmute user', HttpStatus.INTERNAL_SERVER_ERROR, ErrorCodes.DATABASE_ERROR);
+    }
+  }
+
+  /**
+   * Builds the filter for users visible to a viewer: active and not blocked in either direction
+   *
+   * @private
+   */
+  private buildVisibleUserWhere(viewerId: string): Prisma.UserWhereInput {
+    return {
+      isActive: true,
+      blockedBy: { none: { blockerId: viewerId } },
+      blocking: { none: { blockedId: viewerId } },
+    };
+  }
+
+  /**
+   * Builds a paginated result in the format used by the users module
+   *
+   * @private
+   */
+  private buildPaginatedResult<T>(
+    data: T[],
+    total: number,
+    options: { page: number; limit: number }
+  ): PaginatedResult<T> {
+    return {
+      data,
+      pagination: {
+        page: options.page,
+        limit: options.limit,
+        total,
+        totalPages: Math.ceil(total / options.limit),
+        hasNext: options.page * options.limit < total,
+        hasPrev: options.page > 1,
+      },
+    };
+  }
+
+  /**
+   * Maps a Prisma user object to a follow list entry
+   *
+   * @private
+   * @param {any} prismaUser - Prisma user object from database
+   * @param {Date} followedAt - When the follow was created
+   * @returns {FollowListUser} Follow list entry with public user fields only
+   */
+  private mapFollowListUser(prismaUser: any, followedAt: Date): FollowListUser {
+    return {
+      id: prismaUser.id,
+      username: prismaUser.username,
+      country_code: prismaUser.countryCode,
+      profile_picture_url: prismaUser.profilePictureUrl,
+      followed_at: followedAt,
+    };
+  }
+}
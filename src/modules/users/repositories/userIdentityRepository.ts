@@ -0,0 +1,191 @@
+// src/modules/users/repositories/userIdentityRepository.ts
+
+/**
+ * User Identity Repository - Data access layer for identities linked from OpenID Connect providers
+ *
+ * A user identity records that an account at an external identity provider (identified by the
+ * provider name and the provider's stable `sub` claim) signs in as a WayrApp user. A provider
+ * account can be linked to a single user, while a user can link accounts from several providers
+ * alongside their password.
+ *
+ * @module userIdentityRepository
+ * @category Repositories
+ * @category Users
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * ```typescript
+ * const userIdentityRepository = new UserIdentityRepository(prisma);
+ *
+ * const identity = await userIdentityRepository.findByProviderSubject('google', '1184629');
+ * if (!identity) {
+ *   await userIdentityRepository.create('user-123', { provider: 'google', subject: '1184629' });
+ * }
+ * ```
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { CreateUserIdentityDto, UserIdentity } from '../types';
+import { AppError } from '@/shared/middleware/errorHandler';
+import { ErrorCodes, HttpStatus } from '@/shared/types';
+import { logger } from '@/shared/utils/logger';
+
+/**
+ * UserIdentityRepository - Data access layer for linked provider identities
+ *
+ * @class UserIdentityRepository
+ */
+export class UserIdentityRepository {
+  /**
+   * Creates a new UserIdentityRepository instance
+   *
+   * @param {PrismaClient} prisma - Prisma client instance for database operations
+   */
+  constructor(private prisma: PrismaClient) { }
+
+  /**
+   * Finds the identity for an account at a provider
+   *
+   * @param {string} provider - Provider name
+   * @param {string} subject - The provider's identifier for the account (`sub` claim)
+   * @returns {Promise<UserIdentity | null>} The linked identity, or null if the account is not linked
+   * @throws {AppError} Throws DATABASE_ERROR for database-related failures
+   */
+  async findByProviderSubject(provider: string, subject: string): Promise<UserIdentity | null> {
+    try {
+      const identity = await this.prisma.userIdentity.findUnique({
+        where: { provider_subject: { provider, subject } },
+      });
+
+      return identity ? this.mapPrismaIdentity(identity) : null;
+    } catch (error) {
+      logger.error('Error finding user identity', { error, provider });
+      throw new AppError('Failed to find user identity', HttpStatus.INTERNAL_SERVER_ERROR, ErrorCodes.DATABASE_ERROR);
+    }
+  }
+
+  /**
+   * Links a provider account to an existing user
+   *
+   * @param {string} userId - ID of the user the account is linked to
+   * @param {CreateUserIdentityDto} identity - The provider account
+   * @returns {Promise<UserIdentity>} The created identity
+   * @throws {AppError} Throws CONFLICT error if the provider account is already linked
+   * @throws {AppError} Throws NOT_FOUND error if the user doesn't exist
+   * @throws {AppError} Throws DATABASE_ERROR for other database-related failures
+   */
+  async create(userId: string, identity: CreateUserIdentityDto): Promise<UserIdentity> {
+    try {
+      const created = await this.prisma.userIdentity.create({
+        data: {
+          userId,
+          provider: identity.provider,
+          subject: identity.subject,
+          email: identity.email ?? null,
+          lastLoginAt: new Date(),
+        },
+      });
+
+      return this.mapPrismaIdentity(created);
+    } catch (error) {
+      logger.error('Error creating user identity', { error, userId, provider: identity.provider });
+
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2002') {
+          throw new AppError('This account is already linked to a user', HttpStatus.CONFLICT, ErrorCodes.CONFLICT);
+        }
+        if (error.code === 'P2003') {
+          throw new AppError('User not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+        }
+      }
+
+      throw new AppError('Failed to link account', HttpStatus.INTERNAL_SERVER_ERROR, ErrorCodes.DATABASE_ERROR);
+    }
+  }
+
+  /**
+   * Creates a passwordless user together with its first linked identity, in a single transaction
+   *
+   * @param {string} email - Email address of the new user
+   * @param {Date | null} emailVerifiedAt - When the provider verified the email address, if it did
+   * @param {CreateUserIdentityDto} identity - The provider account the user signs in with
+   * @returns {Promise<string>} ID of the created user
+   * @throws {AppError} Throws CONFLICT error if the email or provider account is already used
+   * @throws {AppError} Throws DATABASE_ERROR for other database-related failures
+   */
+  async createUserWithIdentity(email: string, emailVerifiedAt: Date | null, identity: CreateUserIdentityDto): Promise<string> {
+    try {
+      const user = await this.prisma.user.create({
+        data: {
+          email,
+          emailVerifiedAt,
+          role: 'student',
+          identities: {
+            create: {
+              provider: identity.provider,
+              subject: identity.subject,
+              email: identity.email ?? null,
+              lastLoginAt: new Date(),
+            },
+          },
+        },
+        select: { id: true },
+      });
+
+      return user.id;
+    } catch (error) {
+      logger.error('Error creating user from identity', { error, provider: identity.provider });
+
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new AppError('An account with this email already exists', HttpStatus.CONFLICT, ErrorCodes.CONFLICT);
+      }
+
+      throw new AppError('Failed to create user', HttpStatus.INTERNAL_SERVER_ERROR, ErrorCodes.DATABASE_ERROR);
+    }
+  }
+
+  /**
+   * Records a sign-in with a linked identity
+   *
+   * @param {string} id - ID of the identity
+   * @param {Date} [date=new Date()] - Sign-in timestamp
+   * @returns {Promise<void>}
+   */
+  async updateLastLogin(id: string, date: Date = new Date()): Promise<void> {
+    try {
+      await this.prisma.userIdentity.update({
+        where: { id },
+        data: { lastLoginAt: date },
+      });
+    } catch (error) {
+      // Not critical for the sign-in itself
+      logger.warn('Failed to update identity last login', { error, identityId: id });
+    }
+  }
+
+  /**
+   * Maps Prisma identity object to application UserIdentity interface
+   *
+   * @private
+   */
+  private mapPrismaIdentity(identity: {
+    id: string;
+    userId: string;
+    provider: string;
+    subject: string;
+    email: string | null;
+    createdAt: Date;
+    lastLoginAt: Date | null;
+  }): UserIdentity {
+    return {
+      id: identity.id,
+      user_id: identity.userId,
+      provider: identity.provider,
+      subject: identity.subject,
+      email: identity.email,
+      created_at: identity.createdAt,
+      last_login_at: identity.lastLoginAt,
+    };
+  }
+}
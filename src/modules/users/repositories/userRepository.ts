@@ -331,6 +331,7 @@ export class UserRepository {
    * @param {string} [updates.username] - New username (optional, must be unique if provided)
    * @param {string} [updates.country_code] - New country code (optional)
    * @param {string} [updates.profile_picture_url] - New profile picture URL (optional)
+   * @param {string} [updates.timezone] - New IANA timezone used for daily streaks (optional)
    * @param {boolean} [updates.is_active] - New active status (optional)
    * @returns {Promise<User>} Promise resolving to the updated user object
    * @throws {AppError} Throws NOT_FOUND error if user doesn't exist
@@ -349,6 +350,9 @@ export class UserRepository {
     if (updates.profile_picture_url !== undefined) {
       dataToUpdate.profilePictureUrl = updates.profile_picture_url;
     }
+    if (updates.timezone !== undefined) {
+      dataToUpdate.timezone = updates.timezone;
+    }
     if (updates.is_active !== undefined) {
       dataToUpdate.isActive = updates.is_active;
     }
@@ -529,6 +533,47 @@ export class UserRepository {
     }
   }
 
+  /**
+   * Sets a new password after a password reset and revokes every active session of the user in the
+   * same transaction, so refresh tokens obtained before the reset stop working. The reset time is
+   * stored as the password change date, which also rejects refresh tokens issued without a session
+   * 
+   * @param {string} id - User's unique identifier (UUID)
+   * @param {string} passwordHash - New hashed password
+   * @returns {Promise<User>} Promise resolving to the updated user object
+   * @throws {AppError} Throws NOT_FOUND error if user doesn't exist
+   * @throws {AppError} Throws DATABASE_ERROR for other database-related failures
+   */
+  async resetPassword(id: string, passwordHash: string): Promise<User> {
+    const now = new Date();
+
+    try {
+      const [user] = await this.prisma.$transaction([
+        this.prisma.user.update({
+          where: { id },
+          data: { passwordHash, passwordChangedAt: now },
+        }),
+        this.prisma.userSession.updateMany({
+          where: { userId: id, revokedAt: null },
+          data: { revokedAt: now, revokedReason: 'password_reset' },
+        }),
+      ]);
+
+      return this.mapPrismaUserToUser(user);
+    } catch (error) {
+      logger.error('Error resetting user password', { error, userId: id });
+
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2025') {
+          // Record not found
+          throw new AppError('User not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+        }
+      }
+
+      throw new AppError('Failed to reset password', HttpStatus.INTERNAL_SERVER_ERROR, ErrorCodes.DATABASE_ERROR);
+    }
+  }
+
   /**
    * Updates user's last login timestamp for tracking purposes
    * 
@@ -563,6 +608,37 @@ export class UserRepository {
     }
   }
 
+  /**
+   * Marks the user's email address as verified
+   * 
+   * @param {string} id - User's unique identifier (UUID)
+   * @param {Date} [date=new Date()] - Verification timestamp (defaults to current date/time)
+   * @returns {Promise<User>} Promise resolving to the updated user object
+   * @throws {AppError} Throws NOT_FOUND error if user doesn't exist
+   * @throws {AppError} Throws DATABASE_ERROR for other database-related failures
+   */
+  async markEmailVerified(id: string, date: Date = new Date()): Promise<User> {
+    try {
+      const user = await this.prisma.user.update({
+        where: { id },
+        data: { emailVerifiedAt: date },
+      });
+
+      return this.mapPrismaUserToUser(user);
+    } catch (error) {
+      logger.error('Error marking user email as verified', { error, userId: id });
+
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2025') {
+          // Record not found
+          throw new AppError('User not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+        }
+      }
+
+      throw new AppError('Failed to verify email', HttpStatus.INTERNAL_SERVER_ERROR, ErrorCodes.DATABASE_ERROR);
+    }
+  }
+
   /**
    * Maps Prisma user object to application User interface
    * 
@@ -578,7 +654,10 @@ export class UserRepository {
       country_code: prismaUser.countryCode,
       registration_date: prismaUser.registrationDate,
       last_login_date: prismaUser.lastLoginDate,
+      email_verified_at: prismaUser.emailVerifiedAt,
+      password_changed_at: prismaUser.passwordChangedAt,
       profile_picture_url: prismaUser.profilePictureUrl,
+      timezone: prismaUser.timezone,
       is_active: prismaUser.isActive,
       role: prismaUser.role,
       created_at: prismaUser.createdAt,
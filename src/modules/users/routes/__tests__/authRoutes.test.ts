@@ -3,7 +3,7 @@
  * 
  * Test suite for the authentication routes factory function.
  * Tests all authentication endpoints including registration, login, token refresh,
- * logout, and user profile retrieval with proper middleware integration,
+ * logout, user profile retrieval, password reset and email verification with proper middleware integration,
  * validation, error handling, and security measures.
  * 
  * @fileoverview Integration tests for authRoutes factory function
@@ -23,7 +23,23 @@ const mockAuthController = {
   login: jest.fn(),
   refresh: jest.fn(),
   logout: jest.fn(),
-  me: jest.fn()
+  me: jest.fn(),
+  forgotPassword: jest.fn(),
+  resetPassword: jest.fn(),
+  verifyEmail: jest.fn(),
+  resendVerification: jest.fn(),
+  oidcProviders: jest.fn(),
+  oidcAuthorize: jest.fn(),
+  oidcCallback: jest.fn(),
+  oidcLink: jest.fn(),
+  listSessions: jest.fn(),
+  revokeSession: jest.fn(),
+  loginTwoFactor: jest.fn(),
+  twoFactorStatus: jest.fn(),
+  twoFactorSetup: jest.fn(),
+  twoFactorEnable: jest.fn(),
+  twoFactorDisable: jest.fn(),
+  twoFactorRecoveryCodes: jest.fn()
 };
 
 // Mock middleware
@@ -485,6 +501,182 @@ describe('Authentication Routes', () => {
     });
   });
 
+  describe('Account email flows', () => {
+    const respondOk = (_req: Request, res: Response) => {
+      res.status(200).json({ success: true, timestamp: new Date().toISOString(), data: {} });
+    };
+
+    it('should route forgot-password through the rate limiter to the controller', async () => {
+      const { authRateLimiter } = require('../../../../shared/middleware/security');
+      mockAuthController.forgotPassword.mockImplementation(respondOk);
+
+      await request(app)
+        .post('/api/v1/auth/forgot-password')
+        .send({ email: 'test@example.com' })
+        .expect(200);
+
+      expect(authRateLimiter).toHaveBeenCalled();
+      expect(mockAuthController.forgotPassword).toHaveBeenCalledTimes(1);
+    });
+
+    it('should route reset-password to the controller', async () => {
+      mockAuthController.resetPassword.mockImplementation(respondOk);
+
+      await request(app)
+        .post('/api/v1/auth/reset-password')
+        .send({ token: 'a'.repeat(48), password: 'NewSecurePass123!' })
+        .expect(200);
+
+      expect(mockAuthController.resetPassword).toHaveBeenCalledTimes(1);
+    });
+
+    it('should route verify-email to the controller without authentication', async () => {
+      const { authenticateToken } = require('../../../../shared/middleware/auth');
+      mockAuthController.verifyEmail.mockImplementation(respondOk);
+
+      await request(app)
+        .post('/api/v1/auth/verify-email')
+        .send({ token: 'a'.repeat(48) })
+        .expect(200);
+
+      expect(mockAuthController.verifyEmail).toHaveBeenCalledTimes(1);
+      expect(authenticateToken).not.toHaveBeenCalled();
+    });
+
+    it('should require authentication for resend-verification', async () => {
+      const { authenticateToken } = require('../../../../shared/middleware/auth');
+      mockAuthController.resendVerification.mockImplementation(respondOk);
+
+      await request(app)
+        .post('/api/v1/auth/resend-verification')
+        .set('Authorization', 'Bearer valid-access-token')
+        .expect(200);
+
+      expect(authenticateToken).toHaveBeenCalled();
+      expect(mockAuthController.resendVerification).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Social login', () => {
+    const respondOk = (_req: Request, res: Response) => {
+      res.status(200).json({ success: true, timestamp: new Date().toISOString(), data: {} });
+    };
+
+    it('should list providers without authentication', async () => {
+      const { authenticateToken } = require('../../../../shared/middleware/auth');
+      mockAuthController.oidcProviders.mockImplementation(respondOk);
+
+      await request(app).get('/api/v1/auth/oidc/providers').expect(200);
+
+      expect(mockAuthController.oidcProviders).toHaveBeenCalledTimes(1);
+      expect(authenticateToken).not.toHaveBeenCalled();
+    });
+
+    it('should route authorize and callback through the rate limiter', async () => {
+      const { authRateLimiter } = require('../../../../shared/middleware/security');
+      mockAuthController.oidcAuthorize.mockImplementation(respondOk);
+      mockAuthController.oidcCallback.mockImplementation(respondOk);
+
+      await request(app).get('/api/v1/auth/oidc/google/authorize').expect(200);
+      await request(app)
+        .post('/api/v1/auth/oidc/google/callback')
+        .send({ code: 'code', state: 's'.repeat(48) })
+        .expect(200);
+
+      expect(authRateLimiter).toHaveBeenCalledTimes(2);
+      expect(mockAuthController.oidcAuthorize).toHaveBeenCalledTimes(1);
+      expect(mockAuthController.oidcCallback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should require authentication to link an account', async () => {
+      const { authenticateToken } = require('../../../../shared/middleware/auth');
+      mockAuthController.oidcLink.mockImplementation(respondOk);
+
+      await request(app)
+        .post('/api/v1/auth/oidc/google/link')
+        .set('Authorization', 'Bearer valid-access-token')
+        .send({ code: 'code', state: 's'.repeat(48) })
+        .expect(200);
+
+      expect(authenticateToken).toHaveBeenCalled();
+      expect(mockAuthController.oidcLink).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Sessions', () => {
+    const respondOk = (_req: Request, res: Response) => {
+      res.status(200).json({ success: true, timestamp: new Date().toISOString(), data: {} });
+    };
+
+    it('should require authentication to list sessions', async () => {
+      const { authenticateToken } = require('../../../../shared/middleware/auth');
+      mockAuthController.listSessions.mockImplementation(respondOk);
+
+      await request(app)
+        .get('/api/v1/auth/sessions')
+        .set('Authorization', 'Bearer valid-access-token')
+        .expect(200);
+
+      expect(authenticateToken).toHaveBeenCalled();
+      expect(mockAuthController.listSessions).toHaveBeenCalledTimes(1);
+    });
+
+    it('should require authentication and validate the session ID to revoke a session', async () => {
+      const { authenticateToken } = require('../../../../shared/middleware/auth');
+      const { validate } = require('../../../../shared/middleware/validation');
+      mockAuthController.revokeSession.mockImplementation(respondOk);
+
+      await request(app)
+        .delete('/api/v1/auth/sessions/3f2b8c1e-5d4a-4b6f-9e7d-1a2b3c4d5e6f')
+        .set('Authorization', 'Bearer valid-access-token')
+        .expect(200);
+
+      expect(authenticateToken).toHaveBeenCalled();
+      expect(validate).toHaveBeenCalledWith({ params: expect.any(Object) });
+      expect(mockAuthController.revokeSession).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Two-factor authentication', () => {
+    const respondOk = (_req: Request, res: Response) => {
+      res.status(200).json({ success: true, timestamp: new Date().toISOString(), data: {} });
+    };
+
+    it('should rate limit and validate the second login step without authentication', async () => {
+      const { authenticateToken } = require('../../../../shared/middleware/auth');
+      const { authRateLimiter } = require('../../../../shared/middleware/security');
+      mockAuthController.loginTwoFactor.mockImplementation(respondOk);
+
+      await request(app)
+        .post('/api/v1/auth/login/2fa')
+        .send({ two_factor_token: 't'.repeat(48), code: '123456' })
+        .expect(200);
+
+      expect(authRateLimiter).toHaveBeenCalled();
+      expect(authenticateToken).not.toHaveBeenCalled();
+      expect(mockAuthController.loginTwoFactor).toHaveBeenCalledTimes(1);
+    });
+
+    it.each([
+      ['get', '/api/v1/auth/2fa', 'twoFactorStatus'],
+      ['post', '/api/v1/auth/2fa/setup', 'twoFactorSetup'],
+      ['post', '/api/v1/auth/2fa/enable', 'twoFactorEnable'],
+      ['post', '/api/v1/auth/2fa/disable', 'twoFactorDisable'],
+      ['post', '/api/v1/auth/2fa/recovery-codes', 'twoFactorRecoveryCodes'],
+    ] as const)('should require authentication for %s %s', async (method, path, handler) => {
+      const { authenticateToken } = require('../../../../shared/middleware/auth');
+      mockAuthController[handler].mockImplementation(respondOk);
+
+      await request(app)[method](path)
+        .set('Authorization', 'Bearer valid-access-token')
+        .send({ code: '123456' })
+        .expect(200);
+
+      expect(authenticateToken).toHaveBeenCalled();
+      expect(mockAuthController[handler]).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('Middleware Integration', () => {
     it('should apply middleware in correct order for register endpoint', async () => {
       const middlewareCallOrder: string[] = [];
@@ -12,6 +12,8 @@ const mockUpdateUser = jest.fn();
 const mockFindAll = jest.fn();
 const mockUpdatePassword = jest.fn();
 const mockUserExists = jest.fn();
+const mockGetFollowCounts = jest.fn();
+const mockFollowUser = jest.fn();
 
 jest.mock('../../services/userService', () => {
   return {
@@ -27,6 +29,17 @@ jest.mock('../../services/userService', () => {
   };
 });
 
+jest.mock('../../services/followService', () => {
+  return {
+    FollowService: jest.fn().mockImplementation(() => {
+      return {
+        getFollowCounts: (...args: any[]) => mockGetFollowCounts(...args),
+        followUser: (...args: any[]) => mockFollowUser(...args),
+      };
+    }),
+  };
+});
+
 jest.mock('../../../../shared/middleware/auth', () => ({
   authenticateToken: jest.fn((req: Request, _res: Response, next: NextFunction) => {
     req.user = { sub: 'user-123', email: 'test@example.com', role: 'student', iat: 1, exp: 9999999999 };
@@ -174,11 +187,28 @@ describe('User Routes', () => {
 
       const mockUser = { id: 'user-456' };
       mockGetUserProfile.mockResolvedValue(mockUser as any);
+      mockGetFollowCounts.mockResolvedValue({ followers_count: 2, following_count: 1 });
 
       const response = await request(app).get('/api/users/user-456').expect(200);
 
       expect(response.body.success).toBe(true);
       expect(response.body.data.id).toBe('user-456');
+      expect(response.body.data.followers_count).toBe(2);
+    });
+  });
+
+  describe('POST /api/users/:id/follow', () => {
+    it('should follow a user on behalf of the authenticated user', async () => {
+      authenticateToken.mockImplementation((req: Request, _res: Response, next: NextFunction) => {
+        req.user = { sub: 'user-123', email: 'test@example.com', role: 'student', iat: 1, exp: 1 };
+        next();
+      });
+      mockFollowUser.mockResolvedValue(undefined);
+
+      const response = await request(app).post('/api/users/user-456/follow').expect(201);
+
+      expect(response.body.success).toBe(true);
+      expect(mockFollowUser).toHaveBeenCalledWith('user-123', 'user-456');
     });
   });
 
@@ -44,9 +44,25 @@
  * // Available authentication endpoints:
  * // POST /api/v1/auth/register - User registration
  * // POST /api/v1/auth/login - User login
+ * // POST /api/v1/auth/login/2fa - Complete a login with a two-factor code
  * // POST /api/v1/auth/refresh - Token refresh
  * // POST /api/v1/auth/logout - User logout (requires authentication)
  * // GET /api/v1/auth/me - Get current user info (requires authentication)
+ * // GET /api/v1/auth/sessions - List signed-in devices (requires authentication)
+ * // DELETE /api/v1/auth/sessions/:id - Sign out a device (requires authentication)
+ * // GET /api/v1/auth/2fa - Two-factor authentication status (requires authentication)
+ * // POST /api/v1/auth/2fa/setup - Start two-factor enrollment (requires authentication)
+ * // POST /api/v1/auth/2fa/enable - Confirm two-factor enrollment (requires authentication)
+ * // POST /api/v1/auth/2fa/disable - Disable two-factor authentication (requires authentication)
+ * // POST /api/v1/auth/2fa/recovery-codes - Replace the recovery codes (requires authentication)
+ * // POST /api/v1/auth/forgot-password - Request a password reset email
+ * // POST /api/v1/auth/reset-password - Set a new password with an emailed token
+ * // POST /api/v1/auth/verify-email - Verify the email address with an emailed token
+ * // POST /api/v1/auth/resend-verification - Resend the verification email (requires authentication)
+ * // GET /api/v1/auth/oidc/providers - List social login providers
+ * // GET /api/v1/auth/oidc/:provider/authorize - Start a social login
+ * // POST /api/v1/auth/oidc/:provider/callback - Complete a social login
+ * // POST /api/v1/auth/oidc/:provider/link - Link a social account (requires authentication)
  * 
  * @example
  * // Client usage example for user registration
@@ -68,7 +84,17 @@ import { authenticateToken } from '@/shared/middleware/auth';
 import { authRateLimiter } from '@/shared/middleware/security';
 import { validate } from '@/shared/middleware/validation';
 import { asyncHandler } from '@/shared/middleware/errorHandler';
-import { RefreshTokenBodySchema } from '@/shared/schemas/auth.schemas';
+import {
+  RefreshTokenBodySchema,
+  ForgotPasswordSchema,
+  ResetPasswordSchema,
+  VerifyEmailSchema,
+  OidcProviderParamsSchema,
+  OidcCallbackSchema,
+  SessionParamsSchema,
+  TwoFactorCodeBodySchema,
+  TwoFactorLoginSchema
+} from '@/shared/schemas/auth.schemas';
 import { z } from 'zod';
 
 /**
@@ -282,6 +308,9 @@ export function createAuthRoutes(authController: AuthController): Router {
    * comparison. Failed login attempts are logged for security monitoring, and successful
    * logins update the user's last login timestamp.
    * 
+   * Users with two-factor authentication enabled receive a short-lived two-factor token
+   * instead of JWT tokens, and complete the login at `/login/2fa` with a code.
+   * 
    * @route POST /login
    * @access Public - No authentication required
    * @ratelimit 5 requests per 15 minutes per IP address
@@ -328,7 +357,7 @@ export function createAuthRoutes(authController: AuthController): Router {
    *     tags:
    *       - Authentication
    *     summary: User login
-   *     description: Authenticates user with email and password, returns JWT tokens
+   *     description: Authenticates user with email and password, returns JWT tokens. When the user has two-factor authentication enabled, returns a two-factor token to exchange at /api/v1/auth/login/2fa instead.
    *     requestBody:
    *       required: true
    *       content:
@@ -361,6 +390,79 @@ export function createAuthRoutes(authController: AuthController): Router {
    *                   type: string
    *                   example: Login successful
    *                 data:
+   *                   oneOf:
+   *                     - type: object
+   *                       properties:
+   *                         user:
+   *                           $ref: '#/components/schemas/User'
+   *                         tokens:
+   *                           $ref: '#/components/schemas/AuthTokens'
+   *                     - $ref: '#/components/schemas/TwoFactorChallenge'
+   *       400:
+   *         description: Invalid credentials
+   *       429:
+   *         description: Too many login attempts
+   */
+  router.post(
+    '/login',
+    authRateLimiter,
+    validate(loginSchema),
+    asyncHandler(authController.login)
+  );
+
+  /**
+   * Two-Factor Login Endpoint
+   * 
+   * Second step of the login of users with two-factor authentication enabled. Exchanges the
+   * two-factor token returned by `/login` and a code from the authenticator app, or one of the
+   * recovery codes, for JWT tokens. The two-factor token expires after five minutes and can be
+   * used for a single successful login.
+   * 
+   * @route POST /login/2fa
+   * @access Public - No authentication required (uses the two-factor token)
+   * @ratelimit 5 requests per 15 minutes per IP address
+   * 
+   * @middleware authRateLimiter - Rate limiting for authentication endpoints
+   * @middleware validate(TwoFactorLoginSchema) - Request body validation using Zod schema
+   * @controller authController.loginTwoFactor - Handles the second login step
+   */
+
+  /**
+   * @swagger
+   * /api/v1/auth/login/2fa:
+   *   post:
+   *     tags:
+   *       - Authentication
+   *     summary: Complete a login with a two-factor code
+   *     description: Exchanges the two-factor token returned by the login endpoint and an authenticator app code or recovery code for JWT tokens
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - two_factor_token
+   *               - code
+   *             properties:
+   *               two_factor_token:
+   *                 type: string
+   *               code:
+   *                 type: string
+   *                 description: 6 digit authenticator app code, or a recovery code
+   *                 example: "123456"
+   *     responses:
+   *       200:
+   *         description: Login successful
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
    *                   type: object
    *                   properties:
    *                     user:
@@ -368,15 +470,17 @@ export function createAuthRoutes(authController: AuthController): Router {
    *                     tokens:
    *                       $ref: '#/components/schemas/AuthTokens'
    *       400:
-   *         description: Invalid credentials
+   *         description: Invalid input data
+   *       401:
+   *         description: Invalid or expired two-factor token, or wrong code
    *       429:
    *         description: Too many login attempts
    */
   router.post(
-    '/login',
+    '/login/2fa',
     authRateLimiter,
-    validate(loginSchema),
-    asyncHandler(authController.login)
+    validate({ body: TwoFactorLoginSchema }),
+    asyncHandler(authController.loginTwoFactor)
   );
 
   /**
@@ -388,9 +492,10 @@ export function createAuthRoutes(authController: AuthController): Router {
    * new access and refresh tokens with updated expiration times.
    * 
    * The endpoint implements security measures including refresh token validation,
-   * blacklist checking to prevent token reuse after logout, user account status
-   * verification, and rate limiting. This allows clients to maintain authentication
-   * state without storing long-lived credentials.
+   * refresh token rotation, user account status verification, and rate limiting. Every
+   * refresh token can be used once: the response carries its replacement, and presenting
+   * a refresh token that was already used signs out the whole session it belongs to.
+   * This allows clients to maintain authentication state without storing long-lived credentials.
    * 
    * @route POST /refresh
    * @access Public - No authentication required (uses refresh token)
@@ -431,7 +536,7 @@ export function createAuthRoutes(authController: AuthController): Router {
    *     tags:
    *       - Authentication
    *     summary: Refresh access token
-   *     description: Generate new access and refresh tokens using a valid refresh token
+   *     description: Exchange a refresh token for new access and refresh tokens. Each refresh token can be used once; reusing one revokes its session
    *     requestBody:
    *       required: true
    *       content:
@@ -661,6 +766,956 @@ export function createAuthRoutes(authController: AuthController): Router {
     asyncHandler(authController.me)
   );
 
+  /**
+   * Session List Endpoint
+   * 
+   * Lists the devices the authenticated user is signed in on. Each login starts a session
+   * named after the `X-Device-Name` request header, or after the browser and operating
+   * system when the header is missing. The session of the current access token is flagged
+   * with `current: true`.
+   * 
+   * @route GET /sessions
+   * @access Private - Requires valid JWT access token
+   * @authentication Bearer token in Authorization header
+   * 
+   * @middleware authenticateToken - JWT access token validation and user extraction
+   * @controller authController.listSessions - Handles session listing
+   */
+
+  /**
+   * @swagger
+   * /api/v1/auth/sessions:
+   *   get:
+   *     tags:
+   *       - Authentication
+   *     summary: List active sessions
+   *     description: Lists the devices the authenticated user is signed in on, most recently used first
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Session list
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     sessions:
+   *                       type: array
+   *                       items:
+   *                         type: object
+   *                         properties:
+   *                           id:
+   *                             type: string
+   *                             format: uuid
+   *                           device_name:
+   *                             type: string
+   *                             nullable: true
+   *                             example: Chrome on Windows
+   *                           ip_address:
+   *                             type: string
+   *                             nullable: true
+   *                           created_at:
+   *                             type: string
+   *                             format: date-time
+   *                           last_used_at:
+   *                             type: string
+   *                             format: date-time
+   *                           expires_at:
+   *                             type: string
+   *                             format: date-time
+   *                           current:
+   *                             type: boolean
+   *                             description: Whether this is the session of the current request
+   *       401:
+   *         description: Invalid or missing authentication token
+   */
+  router.get(
+    '/sessions',
+    authenticateToken,
+    asyncHandler(authController.listSessions)
+  );
+
+  /**
+   * Session Revocation Endpoint
+   * 
+   * Signs the authenticated user out of one of their sessions. Refresh tokens of the
+   * session stop working immediately; access tokens already issued to it remain valid
+   * until they expire.
+   * 
+   * @route DELETE /sessions/:id
+   * @access Private - Requires valid JWT access token
+   * @authentication Bearer token in Authorization header
+   * 
+   * @middleware authenticateToken - JWT access token validation and user extraction
+   * @middleware validate(SessionParamsSchema) - Route parameter validation using Zod schema
+   * @controller authController.revokeSession - Handles session revocation
+   */
+
+  /**
+   * @swagger
+   * /api/v1/auth/sessions/{id}:
+   *   delete:
+   *     tags:
+   *       - Authentication
+   *     summary: Revoke a session
+   *     description: Signs the authenticated user out of one of their devices
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: Session ID
+   *     responses:
+   *       200:
+   *         description: Session revoked
+   *       400:
+   *         description: Invalid session ID
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       404:
+   *         description: No active session with this ID
+   */
+  router.delete(
+    '/sessions/:id',
+    authenticateToken,
+    validate({ params: SessionParamsSchema }),
+    asyncHandler(authController.revokeSession)
+  );
+
+  /**
+   * Two-Factor Status Endpoint
+   * 
+   * Tells the authenticated user whether two-factor authentication is enabled, how many
+   * unused recovery codes are left, and whether their role requires it.
+   * 
+   * @route GET /2fa
+   * @access Private - Requires valid JWT access token
+   * @authentication Bearer token in Authorization header
+   * 
+   * @middleware authenticateToken - JWT access token validation and user extraction
+   * @controller authController.twoFactorStatus - Handles the status request
+   */
+
+  /**
+   * @swagger
+   * /api/v1/auth/2fa:
+   *   get:
+   *     tags:
+   *       - Authentication
+   *     summary: Two-factor authentication status
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Two-factor authentication status
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     enabled:
+   *                       type: boolean
+   *                     enabled_at:
+   *                       type: string
+   *                       format: date-time
+   *                       nullable: true
+   *                     recovery_codes_remaining:
+   *                       type: integer
+   *                       example: 10
+   *                     required:
+   *                       type: boolean
+   *                       description: Whether the user's role requires two-factor authentication
+   *       401:
+   *         description: Invalid or missing authentication token
+   */
+  router.get(
+    '/2fa',
+    authenticateToken,
+    asyncHandler(authController.twoFactorStatus)
+  );
+
+  /**
+   * Two-Factor Setup Endpoint
+   * 
+   * Starts two-factor enrollment with a new TOTP secret, replacing any enrollment that was
+   * not confirmed. Clients render `otpauth_url` as a QR code for the authenticator app and
+   * show the secret for manual entry. Two-factor authentication is enabled only once a first
+   * code is confirmed at `/2fa/enable`.
+   * 
+   * @route POST /2fa/setup
+   * @access Private - Requires valid JWT access token
+   * @authentication Bearer token in Authorization header
+   * 
+   * @middleware authenticateToken - JWT access token validation and user extraction
+   * @controller authController.twoFactorSetup - Handles enrollment start
+   */
+
+  /**
+   * @swagger
+   * /api/v1/auth/2fa/setup:
+   *   post:
+   *     tags:
+   *       - Authentication
+   *     summary: Start two-factor enrollment
+   *     description: Generates a TOTP secret and the otpauth URI to render as a QR code
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Enrollment started
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     secret:
+   *                       type: string
+   *                       description: Base32 secret for manual entry
+   *                       example: JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP
+   *                     otpauth_url:
+   *                       type: string
+   *                       example: otpauth://totp/WayrApp:user%40example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=WayrApp&algorithm=SHA1&digits=6&period=30
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       409:
+   *         description: Two-factor authentication is already enabled
+   */
+  router.post(
+    '/2fa/setup',
+    authenticateToken,
+    asyncHandler(authController.twoFactorSetup)
+  );
+
+  /**
+   * Two-Factor Enable Endpoint
+   * 
+   * Confirms enrollment with a first code from the authenticator app and enables two-factor
+   * authentication. Returns ten single-use recovery codes, which are not shown again.
+   * 
+   * @route POST /2fa/enable
+   * @access Private - Requires valid JWT access token
+   * @authentication Bearer token in Authorization header
+   * @ratelimit 5 requests per 15 minutes per IP address
+   * 
+   * @middleware authRateLimiter - Rate limiting for authentication endpoints
+   * @middleware authenticateToken - JWT access token validation and user extraction
+   * @middleware validate(TwoFactorCodeBodySchema) - Request body validation using Zod schema
+   * @controller authController.twoFactorEnable - Handles enrollment confirmation
+   */
+
+  /**
+   * @swagger
+   * /api/v1/auth/2fa/enable:
+   *   post:
+   *     tags:
+   *       - Authentication
+   *     summary: Enable two-factor authentication
+   *     description: Confirms enrollment with a code from the authenticator app and returns recovery codes
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/TwoFactorCode'
+   *     responses:
+   *       200:
+   *         description: Two-factor authentication enabled
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/RecoveryCodesResponse'
+   *       400:
+   *         description: Enrollment not started, or invalid code
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       409:
+   *         description: Two-factor authentication is already enabled
+   *       429:
+   *         description: Too many requests
+   */
+  router.post(
+    '/2fa/enable',
+    authRateLimiter,
+    authenticateToken,
+    validate({ body: TwoFactorCodeBodySchema }),
+    asyncHandler(authController.twoFactorEnable)
+  );
+
+  /**
+   * Two-Factor Disable Endpoint
+   * 
+   * Disables two-factor authentication after checking a code from the authenticator app or a
+   * recovery code. Refused for roles that require two-factor authentication.
+   * 
+   * @route POST /2fa/disable
+   * @access Private - Requires valid JWT access token
+   * @authentication Bearer token in Authorization header
+   * @ratelimit 5 requests per 15 minutes per IP address
+   * 
+   * @middleware authRateLimiter - Rate limiting for authentication endpoints
+   * @middleware authenticateToken - JWT access token validation and user extraction
+   * @middleware validate(TwoFactorCodeBodySchema) - Request body validation using Zod schema
+   * @controller authController.twoFactorDisable - Handles disabling
+   */
+
+  /**
+   * @swagger
+   * /api/v1/auth/2fa/disable:
+   *   post:
+   *     tags:
+   *       - Authentication
+   *     summary: Disable two-factor authentication
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/TwoFactorCode'
+   *     responses:
+   *       200:
+   *         description: Two-factor authentication disabled
+   *       400:
+   *         description: Two-factor authentication is not enabled, or invalid code
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       403:
+   *         description: The user's role requires two-factor authentication
+   *       429:
+   *         description: Too many requests
+   */
+  router.post(
+    '/2fa/disable',
+    authRateLimiter,
+    authenticateToken,
+    validate({ body: TwoFactorCodeBodySchema }),
+    asyncHandler(authController.twoFactorDisable)
+  );
+
+  /**
+   * Recovery Codes Endpoint
+   * 
+   * Replaces the recovery codes after checking a code from the authenticator app or a
+   * recovery code. Previous recovery codes stop working.
+   * 
+   * @route POST /2fa/recovery-codes
+   * @access Private - Requires valid JWT access token
+   * @authentication Bearer token in Authorization header
+   * @ratelimit 5 requests per 15 minutes per IP address
+   * 
+   * @middleware authRateLimiter - Rate limiting for authentication endpoints
+   * @middleware authenticateToken - JWT access token validation and user extraction
+   * @middleware validate(TwoFactorCodeBodySchema) - Request body validation using Zod schema
+   * @controller authController.twoFactorRecoveryCodes - Handles recovery code regeneration
+   */
+
+  /**
+   * @swagger
+   * /api/v1/auth/2fa/recovery-codes:
+   *   post:
+   *     tags:
+   *       - Authentication
+   *     summary: Regenerate recovery codes
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/TwoFactorCode'
+   *     responses:
+   *       200:
+   *         description: New recovery codes
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/RecoveryCodesResponse'
+   *       400:
+   *         description: Two-factor authentication is not enabled, or invalid code
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       429:
+   *         description: Too many requests
+   */
+  router.post(
+    '/2fa/recovery-codes',
+    authRateLimiter,
+    authenticateToken,
+    validate({ body: TwoFactorCodeBodySchema }),
+    asyncHandler(authController.twoFactorRecoveryCodes)
+  );
+
+  /**
+   * Forgot Password Endpoint
+   * 
+   * Starts the password reset flow by emailing a single-use reset link to the account
+   * using the given email address. The link expires after one hour and any previously
+   * emailed reset link stops working. The response is identical whether or not an
+   * active account uses the address, preventing account enumeration.
+   * 
+   * @route POST /forgot-password
+   * @access Public - No authentication required
+   * @ratelimit 5 requests per 15 minutes per IP address
+   * 
+   * @middleware authRateLimiter - Rate limiting for authentication endpoints
+   * @middleware validate(ForgotPasswordSchema) - Request body validation using Zod schema
+   * @controller authController.forgotPassword - Handles the password reset request
+   * 
+   * @example
+   * // Client request example
+   * const response = await fetch('/api/v1/auth/forgot-password', {
+   *   method: 'POST',
+   *   headers: { 'Content-Type': 'application/json' },
+   *   body: JSON.stringify({ email: 'user@example.com' })
+   * });
+   */
+
+  /**
+   * @swagger
+   * /api/v1/auth/forgot-password:
+   *   post:
+   *     tags:
+   *       - Authentication
+   *     summary: Request a password reset email
+   *     description: Emails a single-use password reset link valid for one hour. Responds identically whether or not the email is registered.
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - email
+   *             properties:
+   *               email:
+   *                 type: string
+   *                 format: email
+   *                 example: user@example.com
+   *     responses:
+   *       200:
+   *         description: Request accepted
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     message:
+   *                       type: string
+   *                       example: If an account exists for this email, a password reset link has been sent.
+   *       400:
+   *         description: Invalid input data
+   *       429:
+   *         description: Too many requests
+   */
+  router.post(
+    '/forgot-password',
+    authRateLimiter,
+    validate({ body: ForgotPasswordSchema }),
+    asyncHandler(authController.forgotPassword)
+  );
+
+  /**
+   * Reset Password Endpoint
+   * 
+   * Completes the password reset flow by setting a new password with the token received
+   * by email. Tokens can only be used once and are rejected after they expire. The new
+   * password must meet the same requirements as during registration. Every session of the
+   * user is revoked, so all devices have to sign in again with the new password.
+   * 
+   * @route POST /reset-password
+   * @access Public - No authentication required (uses emailed token)
+   * @ratelimit 5 requests per 15 minutes per IP address
+   * 
+   * @middleware authRateLimiter - Rate limiting for authentication endpoints
+   * @middleware validate(ResetPasswordSchema) - Request body validation using Zod schema
+   * @controller authController.resetPassword - Handles the password update
+   * 
+   * @example
+   * // Client request example
+   * const response = await fetch('/api/v1/auth/reset-password', {
+   *   method: 'POST',
+   *   headers: { 'Content-Type': 'application/json' },
+   *   body: JSON.stringify({ token: 'token-from-email', password: 'NewSecurePass123!' })
+   * });
+   */
+
+  /**
+   * @swagger
+   * /api/v1/auth/reset-password:
+   *   post:
+   *     tags:
+   *       - Authentication
+   *     summary: Reset password
+   *     description: Sets a new password using a single-use token received by email and revokes every session of the user
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - token
+   *               - password
+   *             properties:
+   *               token:
+   *                 type: string
+   *                 example: aB3dE5fG7hJ9kL1mN3pQ5rS7tU9vW1xY3zA5bC7dE9fG1hJ3
+   *               password:
+   *                 type: string
+   *                 minLength: 8
+   *                 description: Must contain uppercase, lowercase, number, and special character
+   *                 example: NewSecurePassword123!
+   *     responses:
+   *       200:
+   *         description: Password reset successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     message:
+   *                       type: string
+   *                       example: Password has been reset. You can now log in with your new password.
+   *       400:
+   *         description: Invalid input data or invalid, expired or already used token
+   *       429:
+   *         description: Too many requests
+   */
+  router.post(
+    '/reset-password',
+    authRateLimiter,
+    validate({ body: ResetPasswordSchema }),
+    asyncHandler(authController.resetPassword)
+  );
+
+  /**
+   * Email Verification Endpoint
+   * 
+   * Verifies the user's email address with the token emailed after registration or by
+   * the resend verification endpoint. Verification links expire after 24 hours.
+   * 
+   * @route POST /verify-email
+   * @access Public - No authentication required (uses emailed token)
+   * @ratelimit 5 requests per 15 minutes per IP address
+   * 
+   * @middleware authRateLimiter - Rate limiting for authentication endpoints
+   * @middleware validate(VerifyEmailSchema) - Request body validation using Zod schema
+   * @controller authController.verifyEmail - Handles the email verification
+   * 
+   * @example
+   * // Client request example
+   * const response = await fetch('/api/v1/auth/verify-email', {
+   *   method: 'POST',
+   *   headers: { 'Content-Type': 'application/json' },
+   *   body: JSON.stringify({ token: 'token-from-email' })
+   * });
+   */
+
+  /**
+   * @swagger
+   * /api/v1/auth/verify-email:
+   *   post:
+   *     tags:
+   *       - Authentication
+   *     summary: Verify email address
+   *     description: Marks the user's email address as verified using a single-use token received by email
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - token
+   *             properties:
+   *               token:
+   *                 type: string
+   *                 example: aB3dE5fG7hJ9kL1mN3pQ5rS7tU9vW1xY3zA5bC7dE9fG1hJ3
+   *     responses:
+   *       200:
+   *         description: Email verified successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Email verified successfully
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     email_verified_at:
+   *                       type: string
+   *                       format: date-time
+   *       400:
+   *         description: Invalid, expired or already used token
+   *       429:
+   *         description: Too many requests
+   */
+  router.post(
+    '/verify-email',
+    authRateLimiter,
+    validate({ body: VerifyEmailSchema }),
+    asyncHandler(authController.verifyEmail)
+  );
+
+  /**
+   * Resend Email Verification Endpoint
+   * 
+   * Emails a new verification link to the authenticated user. Previously emailed
+   * verification links stop working.
+   * 
+   * @route POST /resend-verification
+   * @access Private - Requires valid JWT access token
+   * @authentication Bearer token in Authorization header
+   * @ratelimit 5 requests per 15 minutes per IP address
+   * 
+   * @middleware authRateLimiter - Rate limiting for authentication endpoints
+   * @middleware authenticateToken - JWT access token validation and user extraction
+   * @controller authController.resendVerification - Handles sending the new verification email
+   */
+
+  /**
+   * @swagger
+   * /api/v1/auth/resend-verification:
+   *   post:
+   *     tags:
+   *       - Authentication
+   *     summary: Resend verification email
+   *     description: Emails a new email verification link to the authenticated user
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Verification email sent
+   *       401:
+   *         description: Invalid or missing authentication token
+   *       404:
+   *         description: User not found
+   *       409:
+   *         description: Email is already verified
+   *       429:
+   *         description: Too many requests
+   */
+  router.post(
+    '/resend-verification',
+    authRateLimiter,
+    authenticateToken,
+    asyncHandler(authController.resendVerification)
+  );
+
+  /**
+   * Social Login Provider List Endpoint
+   * 
+   * Lists the OpenID Connect providers configured on this node. Clients use it to
+   * decide which social login buttons to display.
+   * 
+   * @route GET /oidc/providers
+   * @access Public - No authentication required
+   * 
+   * @controller authController.oidcProviders - Returns the configured provider names
+   */
+
+  /**
+   * @swagger
+   * /api/v1/auth/oidc/providers:
+   *   get:
+   *     tags:
+   *       - Authentication
+   *     summary: List social login providers
+   *     description: Lists the OpenID Connect providers users can sign in with
+   *     responses:
+   *       200:
+   *         description: Provider list
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     providers:
+   *                       type: array
+   *                       items:
+   *                         type: string
+   *                       example: [google]
+   */
+  router.get(
+    '/oidc/providers',
+    asyncHandler(authController.oidcProviders)
+  );
+
+  /**
+   * Social Login Start Endpoint
+   * 
+   * Starts an OpenID Connect login using the authorization code flow with PKCE. Returns
+   * the provider URL the client must redirect the user to. The PKCE code verifier and the
+   * nonce never leave the server; the pending login expires after 10 minutes.
+   * 
+   * @route GET /oidc/:provider/authorize
+   * @access Public - No authentication required
+   * @ratelimit 5 requests per 15 minutes per IP address
+   * 
+   * @middleware authRateLimiter - Rate limiting for authentication endpoints
+   * @middleware validate(OidcProviderParamsSchema) - Route parameter validation using Zod schema
+   * @controller authController.oidcAuthorize - Starts the login
+   * 
+   * @example
+   * // Client usage example
+   * const response = await fetch('/api/v1/auth/oidc/google/authorize');
+   * const { data } = await response.json();
+   * window.location.href = data.authorization_url;
+   */
+
+  /**
+   * @swagger
+   * /api/v1/auth/oidc/{provider}/authorize:
+   *   get:
+   *     tags:
+   *       - Authentication
+   *     summary: Start a social login
+   *     description: Returns the URL of the identity provider to send the user to (authorization code flow with PKCE)
+   *     parameters:
+   *       - in: path
+   *         name: provider
+   *         required: true
+   *         schema:
+   *           type: string
+   *         example: google
+   *     responses:
+   *       200:
+   *         description: Login started
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     authorization_url:
+   *                       type: string
+   *                       format: uri
+   *                     state:
+   *                       type: string
+   *       401:
+   *         description: Identity provider unavailable
+   *       404:
+   *         description: Unknown identity provider
+   *       429:
+   *         description: Too many requests
+   */
+  router.get(
+    '/oidc/:provider/authorize',
+    authRateLimiter,
+    validate({ params: OidcProviderParamsSchema }),
+    asyncHandler(authController.oidcAuthorize)
+  );
+
+  /**
+   * Social Login Callback Endpoint
+   * 
+   * Completes an OpenID Connect login with the code and state the provider returned to
+   * the client, and issues the same JWT token pair as a password login. A provider account
+   * that is not linked yet is linked to the user with the same email when the provider has
+   * verified it and the user has verified it in WayrApp, or creates a new passwordless account.
+   * 
+   * @route POST /oidc/:provider/callback
+   * @access Public - No authentication required (uses provider authorization code)
+   * @ratelimit 5 requests per 15 minutes per IP address
+   * 
+   * @middleware authRateLimiter - Rate limiting for authentication endpoints
+   * @middleware validate - Route parameter and request body validation using Zod schemas
+   * @controller authController.oidcCallback - Completes the login
+   */
+
+  /**
+   * @swagger
+   * /api/v1/auth/oidc/{provider}/callback:
+   *   post:
+   *     tags:
+   *       - Authentication
+   *     summary: Complete a social login
+   *     description: Exchanges the authorization code returned by the identity provider and returns JWT tokens
+   *     parameters:
+   *       - in: path
+   *         name: provider
+   *         required: true
+   *         schema:
+   *           type: string
+   *         example: google
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - code
+   *               - state
+   *             properties:
+   *               code:
+   *                 type: string
+   *               state:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Login successful
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Login successful
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     user:
+   *                       $ref: '#/components/schemas/User'
+   *                     tokens:
+   *                       $ref: '#/components/schemas/AuthTokens'
+   *                     is_new_user:
+   *                       type: boolean
+   *       201:
+   *         description: Login successful, a new account was created
+   *       400:
+   *         description: Invalid input data or invalid, expired or already used state
+   *       401:
+   *         description: Provider authentication failed, email not verified by the provider, or account deactivated
+   *       404:
+   *         description: Unknown identity provider
+   *       409:
+   *         description: An account with this email exists but its email is not verified; sign in with the password and link the provider
+   *       429:
+   *         description: Too many requests
+   */
+  router.post(
+    '/oidc/:provider/callback',
+    authRateLimiter,
+    validate({ params: OidcProviderParamsSchema, body: OidcCallbackSchema }),
+    asyncHandler(authController.oidcCallback)
+  );
+
+  /**
+   * Social Account Linking Endpoint
+   * 
+   * Links a provider account to the authenticated user. The client starts the flow with
+   * the authorize endpoint and submits the returned code and state here.
+   * 
+   * @route POST /oidc/:provider/link
+   * @access Private - Requires valid JWT access token
+   * @authentication Bearer token in Authorization header
+   * 
+   * @middleware authenticateToken - JWT access token validation and user extraction
+   * @middleware validate - Route parameter and request body validation using Zod schemas
+   * @controller authController.oidcLink - Links the provider account
+   */
+
+  /**
+   * @swagger
+   * /api/v1/auth/oidc/{provider}/link:
+   *   post:
+   *     tags:
+   *       - Authentication
+   *     summary: Link a social account
+   *     description: Links an identity provider account to the authenticated user
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: provider
+   *         required: true
+   *         schema:
+   *           type: string
+   *         example: google
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - code
+   *               - state
+   *             properties:
+   *               code:
+   *                 type: string
+   *               state:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Account linked
+   *       400:
+   *         description: Invalid input data or invalid, expired or already used state
+   *       401:
+   *         description: Invalid or missing authentication token, or provider authentication failed
+   *       404:
+   *         description: Unknown identity provider
+   *       409:
+   *         description: The provider account is linked to another user
+   */
+  router.post(
+    '/oidc/:provider/link',
+    authenticateToken,
+    validate({ params: OidcProviderParamsSchema, body: OidcCallbackSchema }),
+    asyncHandler(authController.oidcLink)
+  );
+
   /**
    * Return the configured Express router
    * 
@@ -42,32 +42,52 @@
  * // PUT /api/v1/users/profile - Update current user profile
  * // PUT /api/v1/users/password - Update user password
  * // GET /api/v1/users - List all users (admin only)
- * // GET /api/v1/users/:id - Get user by ID (admin only)
+ * // GET /api/v1/users/:id - Get user profile with follower counts (full record for admins)
  * // PUT /api/v1/users/:id/role - Update user role (admin only)
+ * 
+ * @example
+ * // Available social endpoints:
+ * // POST /api/v1/users/:id/follow - Follow a user
+ * // DELETE /api/v1/users/:id/follow - Unfollow a user
+ * // GET /api/v1/users/:id/followers - List a user's followers
+ * // GET /api/v1/users/:id/following - List users followed by a user
+ * // POST /api/v1/users/:id/block - Block a user
+ * // DELETE /api/v1/users/:id/block - Unblock a user
+ * // POST /api/v1/users/:id/mute - Mute a user
+ * // DELETE /api/v1/users/:id/mute - Unmute a user
  */
 
 import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { UserController } from '../controllers/userController';
+import { FollowController } from '../controllers/followController';
 import { UserService } from '../services/userService';
+import { FollowService } from '../services/followService';
 import { UserRepository } from '../repositories/userRepository';
+import { FollowRepository } from '../repositories/followRepository';
+import { createAuditMiddleware } from '@/modules/audit/middleware';
 import { authenticateToken, requireRole } from '@/shared/middleware/auth';
 import { authRateLimiter } from '@/shared/middleware/security';
 import { validate } from '@/shared/middleware/validation';
-import { UserQuerySchema } from '@/shared/schemas';
+import { UserQuerySchema, PaginationSchema } from '@/shared/schemas';
 import { z } from 'zod';
-import { UpdateUserSchema, UpdatePasswordSchema, UpdateRoleSchema } from '../types';
+import { UpdateUserSchema, UpdatePasswordSchema, UpdateRoleSchema, UserIdParamSchema } from '../types';
 
 /**
  * Initialize user management dependencies using dependency injection pattern.
  * 
  * Creates a clean dependency chain: PrismaClient → UserRepository → UserService → UserController
+ * (and FollowRepository → FollowService → FollowController for social features).
  * This pattern ensures proper separation of concerns and testability.
  */
 const prisma = new PrismaClient();
 const userRepository = new UserRepository(prisma);
+const followRepository = new FollowRepository(prisma);
 const userService = new UserService(userRepository);
-const userController = new UserController(userService);
+const followService = new FollowService(followRepository, userRepository);
+const userController = new UserController(userService, followService);
+const followController = new FollowController(followService);
+const audit = createAuditMiddleware(prisma);
 
 /**
  * Express router configured with user management routes.
@@ -128,7 +148,7 @@ router.get(
 /**
  * PUT /profile - Update current authenticated user's profile
  * Requires authentication and validates profile update data
- * Users can update username, country_code, and profile_picture_url
+ * Users can update username, country_code, profile_picture_url and timezone
  */
 
 /**
@@ -161,6 +181,10 @@ router.get(
  *                 type: string
  *                 format: uri
  *                 example: https://example.com/new-avatar.jpg
+ *               timezone:
+ *                 type: string
+ *                 description: IANA timezone used to count daily streaks
+ *                 example: America/Lima
  *     responses:
  *       200:
  *         description: Profile updated successfully
@@ -191,6 +215,7 @@ router.put(
   '/profile',
   authenticateToken,
   validate({ body: UpdateUserSchema }),
+  audit('update_profile', 'user', { entityId: (req) => req.user?.sub }),
   userController.updateProfile
 );
 
@@ -255,6 +280,7 @@ router.put(
   authenticateToken,
   authRateLimiter,
   validate({ body: UpdatePasswordSchema }),
+  audit('change_password', 'user', { entityId: (req) => req.user?.sub, snapshot: false }),
   userController.updatePassword
 );
 
@@ -360,9 +386,9 @@ router.get(
 );
 
 /**
- * GET /:id - Get specific user by ID (admin only)
- * Requires valid UUID parameter and admin authentication
- * Provides detailed user information for administrative purposes
+ * GET /:id - Get user profile by ID with follower and following counts
+ * Requires valid UUID parameter and authentication
+ * Admins receive the full user record; other users receive the public profile
  */
 
 /**
@@ -371,9 +397,9 @@ router.get(
  *   get:
  *     tags:
  *       - Users
- *       - Admin
- *     summary: Get user by ID (Admin only)
- *     description: Retrieve detailed information for a specific user by ID
+ *       - Social
+ *     summary: Get user profile by ID
+ *     description: Retrieve a user's profile with follower and following counts. Admins receive the full user record; other users receive the public profile (username, country, picture, registration date) and their relationship to the user. Inactive users and users who blocked the viewer are reported as not found.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -399,21 +425,49 @@ router.get(
  *                 data:
  *                   type: object
  *                   properties:
- *                     user:
- *                       $ref: '#/components/schemas/User'
+ *                     id:
+ *                       type: string
+ *                       format: uuid
+ *                     username:
+ *                       type: string
+ *                       nullable: true
+ *                     country_code:
+ *                       type: string
+ *                       nullable: true
+ *                     profile_picture_url:
+ *                       type: string
+ *                       nullable: true
+ *                     registration_date:
+ *                       type: string
+ *                       format: date-time
+ *                     followers_count:
+ *                       type: integer
+ *                       example: 12
+ *                     following_count:
+ *                       type: integer
+ *                       example: 8
+ *                     relationship:
+ *                       type: object
+ *                       description: Present when viewing another user's profile
+ *                       properties:
+ *                         is_following:
+ *                           type: boolean
+ *                         is_followed_by:
+ *                           type: boolean
+ *                         is_blocked:
+ *                           type: boolean
+ *                         is_muted:
+ *                           type: boolean
  *       400:
  *         description: Invalid user ID format
  *       401:
  *         description: Invalid or missing authentication token
- *       403:
- *         description: Insufficient permissions (admin required)
  *       404:
  *         description: User not found
  */
 router.get(
   '/:id',
   authenticateToken,
-  requireRole('admin'),
   validate({
     params: z.object({
       id: z.string().uuid('Invalid user ID format')
@@ -499,7 +553,422 @@ router.put(
     }),
     body: UpdateRoleSchema
   }),
+  audit('update_role', 'user'),
   userController.updateUserRole
 );
 
+/**
+ * Social Routes
+ * 
+ * These routes let authenticated users follow other learners, browse followers and
+ * followed users, and block or mute users. Blocking removes follows in both directions
+ * and hides both users from each other.
+ */
+
+/**
+ * @swagger
+ * /api/v1/users/{id}/follow:
+ *   post:
+ *     tags:
+ *       - Users
+ *       - Social
+ *     summary: Follow a user
+ *     description: Follow another active user. Users cannot follow themselves, users they blocked, or users who blocked them.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID of the user to follow
+ *     responses:
+ *       201:
+ *         description: User followed successfully
+ *       400:
+ *         description: Invalid user ID or attempt to follow yourself
+ *       401:
+ *         description: Invalid or missing authentication token
+ *       403:
+ *         description: The user is blocked by the authenticated user
+ *       404:
+ *         description: User not found
+ *       409:
+ *         description: Already following this user
+ *   delete:
+ *     tags:
+ *       - Users
+ *       - Social
+ *     summary: Unfollow a user
+ *     description: Stop following a user
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID of the user to unfollow
+ *     responses:
+ *       200:
+ *         description: User unfollowed successfully
+ *       400:
+ *         description: Invalid user ID format
+ *       401:
+ *         description: Invalid or missing authentication token
+ *       404:
+ *         description: Not following this user
+ */
+router.post(
+  '/:id/follow',
+  authenticateToken,
+  validate({ params: UserIdParamSchema }),
+  audit('follow', 'user', { snapshot: false }),
+  followController.followUser
+);
+
+router.delete(
+  '/:id/follow',
+  authenticateToken,
+  validate({ params: UserIdParamSchema }),
+  audit('unfollow', 'user', { snapshot: false }),
+  followController.unfollowUser
+);
+
+/**
+ * @swagger
+ * /api/v1/users/{id}/followers:
+ *   get:
+ *     tags:
+ *       - Users
+ *       - Social
+ *     summary: List followers
+ *     description: Retrieve a paginated list of users following the given user, most recent first. Inactive users and users blocked in either direction are excluded.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: User ID
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: string
+ *           pattern: '^\d+$'
+ *         description: Page number for pagination
+ *         example: "1"
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: string
+ *           pattern: '^\d+$'
+ *         description: Number of items per page (max 100)
+ *         example: "20"
+ *     responses:
+ *       200:
+ *         description: Followers retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                             format: uuid
+ *                           username:
+ *                             type: string
+ *                             nullable: true
+ *                           country_code:
+ *                             type: string
+ *                             nullable: true
+ *                           profile_picture_url:
+ *                             type: string
+ *                             nullable: true
+ *                           followed_at:
+ *                             type: string
+ *                             format: date-time
+ *                     pagination:
+ *                       type: object
+ *                       properties:
+ *                         page:
+ *                           type: integer
+ *                         limit:
+ *                           type: integer
+ *                         total:
+ *                           type: integer
+ *                         totalPages:
+ *                           type: integer
+ *                         hasNext:
+ *                           type: boolean
+ *                         hasPrev:
+ *                           type: boolean
+ *       400:
+ *         description: Invalid user ID or pagination parameters
+ *       401:
+ *         description: Invalid or missing authentication token
+ *       404:
+ *         description: User not found
+ */
+router.get(
+  '/:id/followers',
+  authenticateToken,
+  validate({ params: UserIdParamSchema, query: PaginationSchema }),
+  followController.getFollowers
+);
+
+/**
+ * @swagger
+ * /api/v1/users/{id}/following:
+ *   get:
+ *     tags:
+ *       - Users
+ *       - Social
+ *     summary: List followed users
+ *     description: Retrieve a paginated list of users the given user follows, most recent first. Inactive users and users blocked in either direction are excluded.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: User ID
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: string
+ *           pattern: '^\d+$'
+ *         description: Page number for pagination
+ *         example: "1"
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: string
+ *           pattern: '^\d+$'
+ *         description: Number of items per page (max 100)
+ *         example: "20"
+ *     responses:
+ *       200:
+ *         description: Followed users retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                             format: uuid
+ *                           username:
+ *                             type: string
+ *                             nullable: true
+ *                           country_code:
+ *                             type: string
+ *                             nullable: true
+ *                           profile_picture_url:
+ *                             type: string
+ *                             nullable: true
+ *                           followed_at:
+ *                             type: string
+ *                             format: date-time
+ *                     pagination:
+ *                       type: object
+ *                       properties:
+ *                         page:
+ *                           type: integer
+ *                         limit:
+ *                           type: integer
+ *                         total:
+ *                           type: integer
+ *                         totalPages:
+ *                           type: integer
+ *                         hasNext:
+ *                           type: boolean
+ *                         hasPrev:
+ *                           type: boolean
+ *       400:
+ *         description: Invalid user ID or pagination parameters
+ *       401:
+ *         description: Invalid or missing authentication token
+ *       404:
+ *         description: User not found
+ */
+router.get(
+  '/:id/following',
+  authenticateToken,
+  validate({ params: UserIdParamSchema, query: PaginationSchema }),
+  followController.getFollowing
+);
+
+/**
+ * @swagger
+ * /api/v1/users/{id}/block:
+ *   post:
+ *     tags:
+ *       - Users
+ *       - Social
+ *     summary: Block a user
+ *     description: Block a user. Any follow between both users is removed, the blocked user cannot follow the blocker, and both users are hidden from each other's profiles and follow lists. Blocking an already blocked user has no effect.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID of the user to block
+ *     responses:
+ *       200:
+ *         description: User blocked successfully
+ *       400:
+ *         description: Invalid user ID or attempt to block yourself
+ *       401:
+ *         description: Invalid or missing authentication token
+ *       404:
+ *         description: User not found
+ *   delete:
+ *     tags:
+ *       - Users
+ *       - Social
+ *     summary: Unblock a user
+ *     description: Remove a block. Previous follows are not restored.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID of the user to unblock
+ *     responses:
+ *       200:
+ *         description: User unblocked successfully
+ *       400:
+ *         description: Invalid user ID format
+ *       401:
+ *         description: Invalid or missing authentication token
+ *       404:
+ *         description: User is not blocked
+ */
+router.post(
+  '/:id/block',
+  authenticateToken,
+  validate({ params: UserIdParamSchema }),
+  audit('block', 'user', { snapshot: false }),
+  followController.blockUser
+);
+
+router.delete(
+  '/:id/block',
+  authenticateToken,
+  validate({ params: UserIdParamSchema }),
+  audit('unblock', 'user', { snapshot: false }),
+  followController.unblockUser
+);
+
+/**
+ * @swagger
+ * /api/v1/users/{id}/mute:
+ *   post:
+ *     tags:
+ *       - Users
+ *       - Social
+ *     summary: Mute a user
+ *     description: Mute a user without unfollowing them. Muting is private to the authenticated user. Muting an already muted user has no effect.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID of the user to mute
+ *     responses:
+ *       200:
+ *         description: User muted successfully
+ *       400:
+ *         description: Invalid user ID or attempt to mute yourself
+ *       401:
+ *         description: Invalid or missing authentication token
+ *       404:
+ *         description: User not found
+ *   delete:
+ *     tags:
+ *       - Users
+ *       - Social
+ *     summary: Unmute a user
+ *     description: Remove a mute
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID of the user to unmute
+ *     responses:
+ *       200:
+ *         description: User unmuted successfully
+ *       400:
+ *         description: Invalid user ID format
+ *       401:
+ *         description: Invalid or missing authentication token
+ *       404:
+ *         description: User is not muted
+ */
+router.post(
+  '/:id/mute',
+  authenticateToken,
+  validate({ params: UserIdParamSchema }),
+  audit('mute', 'user', { snapshot: false }),
+  followController.muteUser
+);
+
+router.delete(
+  '/:id/mute',
+  authenticateToken,
+  validate({ params: UserIdParamSchema }),
+  audit('unmute', 'user', { snapshot: false }),
+  followController.unmuteUser
+);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,185 @@
+// src/modules/users/services/__tests__/accountService.test.ts
+
+import { AccountService, EMAIL_VERIFICATION_TOKEN_TTL_MS, PASSWORD_RESET_TOKEN_TTL_MS } from '../accountService';
+import { AuthTokenService } from '../authTokenService';
+import { UserRepository } from '../../repositories/userRepository';
+import { User } from '../../types';
+import { MailTransport } from '@/shared/utils/mailer';
+import { AppError } from '@/shared/middleware/errorHandler';
+import { ErrorCodes, HttpStatus } from '@/shared/types';
+import { hashPassword } from '@/shared/utils/auth';
+
+jest.mock('@/shared/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+    },
+}));
+jest.mock('@/shared/utils/auth', () => ({
+    hashPassword: jest.fn(),
+}));
+
+/**
+ * These tests verify the password reset and email verification flows of the AccountService:
+ * - reset requests never reveal whether an account exists
+ * - emailed links contain the issued token and point to the configured frontend
+ * - invalid tokens are rejected with a validation error before any account change
+ *
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ */
+describe('AccountService', () => {
+    let accountService: AccountService;
+    let mockUserRepository: jest.Mocked<UserRepository>;
+    let mockAuthTokenService: jest.Mocked<AuthTokenService>;
+    let mockMailTransport: jest.Mocked<MailTransport>;
+
+    const user: User = {
+        id: 'user-123',
+        email: 'learner@example.com',
+        registration_date: new Date('2024-01-01'),
+        email_verified_at: null,
+        is_active: true,
+        role: 'student',
+        created_at: new Date('2024-01-01'),
+        updated_at: new Date('2024-01-01'),
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        mockUserRepository = {
+            findByEmail: jest.fn(),
+            findById: jest.fn(),
+            resetPassword: jest.fn(),
+            markEmailVerified: jest.fn(),
+        } as unknown as jest.Mocked<UserRepository>;
+        mockAuthTokenService = {
+            issueToken: jest.fn().mockResolvedValue('issued-token'),
+            consumeToken: jest.fn(),
+        } as unknown as jest.Mocked<AuthTokenService>;
+        mockMailTransport = {
+            name: 'test',
+            send: jest.fn().mockResolvedValue(undefined),
+        };
+
+        accountService = new AccountService(
+            mockUserRepository,
+            mockAuthTokenService,
+            mockMailTransport,
+            'https://app.wayrapp.com/'
+        );
+    });
+
+    describe('requestPasswordReset', () => {
+        it('should email a reset link to active users', async () => {
+            mockUserRepository.findByEmail.mockResolvedValue(user);
+
+            await accountService.requestPasswordReset(user.email);
+
+            expect(mockAuthTokenService.issueToken).toHaveBeenCalledWith(user.id, 'password_reset', PASSWORD_RESET_TOKEN_TTL_MS);
+            expect(mockMailTransport.send).toHaveBeenCalledWith(expect.objectContaining({
+                to: user.email,
+                text: expect.stringContaining('https://app.wayrapp.com/reset-password?token=issued-token'),
+            }));
+        });
+
+        it('should silently ignore unknown emails', async () => {
+            mockUserRepository.findByEmail.mockResolvedValue(null);
+
+            await expect(accountService.requestPasswordReset('unknown@example.com')).resolves.toBeUndefined();
+
+            expect(mockAuthTokenService.issueToken).not.toHaveBeenCalled();
+            expect(mockMailTransport.send).not.toHaveBeenCalled();
+        });
+
+        it('should silently ignore inactive accounts', async () => {
+            mockUserRepository.findByEmail.mockResolvedValue({ ...user, is_active: false });
+
+            await accountService.requestPasswordReset(user.email);
+
+            expect(mockMailTransport.send).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('resetPassword', () => {
+        it('should store the hash of the new password and revoke the sessions of the user', async () => {
+            mockAuthTokenService.consumeToken.mockResolvedValue(user.id);
+            (hashPassword as jest.Mock).mockResolvedValue('new-hash');
+
+            await accountService.resetPassword('token', 'NewSecurePass123!');
+
+            expect(mockAuthTokenService.consumeToken).toHaveBeenCalledWith('token', 'password_reset');
+            expect(hashPassword).toHaveBeenCalledWith('NewSecurePass123!');
+            expect(mockUserRepository.resetPassword).toHaveBeenCalledWith(user.id, 'new-hash');
+        });
+
+        it('should reject invalid tokens', async () => {
+            mockAuthTokenService.consumeToken.mockResolvedValue(null);
+
+            await expect(accountService.resetPassword('token', 'NewSecurePass123!')).rejects.toEqual(
+                new AppError('Invalid or expired token', HttpStatus.BAD_REQUEST, ErrorCodes.VALIDATION_ERROR)
+            );
+            expect(mockUserRepository.resetPassword).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('sendEmailVerification', () => {
+        it('should email a verification link', async () => {
+            await accountService.sendEmailVerification(user);
+
+            expect(mockAuthTokenService.issueToken).toHaveBeenCalledWith(user.id, 'email_verification', EMAIL_VERIFICATION_TOKEN_TTL_MS);
+            expect(mockMailTransport.send).toHaveBeenCalledWith(expect.objectContaining({
+                to: user.email,
+                text: expect.stringContaining('https://app.wayrapp.com/verify-email?token=issued-token'),
+            }));
+        });
+    });
+
+    describe('resendEmailVerification', () => {
+        it('should send a new verification link to unverified users', async () => {
+            mockUserRepository.findById.mockResolvedValue(user);
+
+            await accountService.resendEmailVerification(user.id);
+
+            expect(mockMailTransport.send).toHaveBeenCalledTimes(1);
+        });
+
+        it('should reject users whose email is already verified', async () => {
+            mockUserRepository.findById.mockResolvedValue({ ...user, email_verified_at: new Date() });
+
+            await expect(accountService.resendEmailVerification(user.id)).rejects.toEqual(
+                new AppError('Email is already verified', HttpStatus.CONFLICT, ErrorCodes.CONFLICT)
+            );
+            expect(mockMailTransport.send).not.toHaveBeenCalled();
+        });
+
+        it('should reject unknown users', async () => {
+            mockUserRepository.findById.mockResolvedValue(null);
+
+            await expect(accountService.resendEmailVerification('missing')).rejects.toEqual(
+                new AppError('User not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND)
+            );
+        });
+    });
+
+    describe('verifyEmail', () => {
+        it('should mark the email as verified', async () => {
+            const verifiedUser = { ...user, email_verified_at: new Date() };
+            mockAuthTokenService.consumeToken.mockResolvedValue(user.id);
+            mockUserRepository.markEmailVerified.mockResolvedValue(verifiedUser);
+
+            await expect(accountService.verifyEmail('token')).resolves.toBe(verifiedUser);
+            expect(mockAuthTokenService.consumeToken).toHaveBeenCalledWith('token', 'email_verification');
+            expect(mockUserRepository.markEmailVerified).toHaveBeenCalledWith(user.id);
+        });
+
+        it('should reject invalid tokens', async () => {
+            mockAuthTokenService.consumeToken.mockResolvedValue(null);
+
+            await expect(accountService.verifyEmail('token')).rejects.toBeInstanceOf(AppError);
+            expect(mockUserRepository.markEmailVerified).not.toHaveBeenCalled();
+        });
+    });
+});
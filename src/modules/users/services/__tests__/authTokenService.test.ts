@@ -0,0 +1,168 @@
+// src/modules/users/services/__tests__/authTokenService.test.ts
+
+import { createHash } from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { AuthTokenService } from '../authTokenService';
+
+jest.mock('@/shared/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+    },
+}));
+
+const sha256 = (value: string): string => createHash('sha256').update(value).digest('hex');
+
+/**
+ * These tests verify that the AuthTokenService issues and redeems single-use account tokens safely:
+ * - only the SHA-256 hash of a token is stored, never the raw token
+ * - issuing a token supersedes unused tokens for the same user and purpose
+ * - redemption checks purpose, expiry and previous use in a single conditional update
+ * - tokens are invalidated after too many failed attempts
+ * - cleanup removes expired tokens and never throws
+ *
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ */
+describe('AuthTokenService', () => {
+    let authTokenService: AuthTokenService;
+    let mockPrisma: any;
+
+    beforeEach(() => {
+        mockPrisma = {
+            authToken: {
+                create: jest.fn((args) => args),
+                deleteMany: jest.fn((args) => args),
+                updateMany: jest.fn(),
+                findUnique: jest.fn(),
+            },
+            $transaction: jest.fn().mockResolvedValue([]),
+        };
+
+        authTokenService = new AuthTokenService(mockPrisma as unknown as PrismaClient);
+    });
+
+    describe('issueToken', () => {
+        it('should store only the hash of the issued token', async () => {
+            const before = Date.now();
+
+            const token = await authTokenService.issueToken('user-123', 'password_reset', 60_000);
+
+            expect(token).toMatch(/^[A-Za-z0-9]{48}$/);
+            const { data } = mockPrisma.authToken.create.mock.calls[0][0];
+            expect(data).toEqual({
+                userId: 'user-123',
+                purpose: 'password_reset',
+                tokenHash: sha256(token),
+                expiresAt: expect.any(Date),
+            });
+            expect(data.expiresAt.getTime()).toBeGreaterThanOrEqual(before + 60_000);
+            expect(JSON.stringify(mockPrisma.authToken.create.mock.calls)).not.toContain(token);
+        });
+
+        it('should supersede unused tokens for the same user and purpose', async () => {
+            await authTokenService.issueToken('user-123', 'email_verification', 60_000);
+
+            expect(mockPrisma.authToken.deleteMany).toHaveBeenCalledWith({
+                where: { userId: 'user-123', purpose: 'email_verification', usedAt: null },
+            });
+            expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+        });
+
+        it('should issue a different token each time', async () => {
+            const first = await authTokenService.issueToken('user-123', 'password_reset', 60_000);
+            const second = await authTokenService.issueToken('user-123', 'password_reset', 60_000);
+
+            expect(first).not.toBe(second);
+        });
+    });
+
+    describe('consumeToken', () => {
+        it('should mark a valid token as used and return its user', async () => {
+            mockPrisma.authToken.updateMany.mockResolvedValue({ count: 1 });
+            mockPrisma.authToken.findUnique.mockResolvedValue({ userId: 'user-123' });
+
+            const userId = await authTokenService.consumeToken('raw-token', 'password_reset');
+
+            expect(userId).toBe('user-123');
+            expect(mockPrisma.authToken.updateMany).toHaveBeenCalledWith({
+                where: {
+                    tokenHash: sha256('raw-token'),
+                    purpose: 'password_reset',
+                    usedAt: null,
+                    expiresAt: { gt: expect.any(Date) },
+                },
+                data: { usedAt: expect.any(Date) },
+            });
+        });
+
+        it('should return null for unknown, expired or used tokens', async () => {
+            mockPrisma.authToken.updateMany.mockResolvedValue({ count: 0 });
+
+            const userId = await authTokenService.consumeToken('raw-token', 'email_verification');
+
+            expect(userId).toBeNull();
+            expect(mockPrisma.authToken.findUnique).not.toHaveBeenCalled();
+        });
+
+        it('should redeem the token with the transaction it is given', async () => {
+            const tx = {
+                authToken: {
+                    updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+                    findUnique: jest.fn().mockResolvedValue({ userId: 'user-123' }),
+                },
+            };
+
+            await expect(authTokenService.consumeToken('raw-token', 'two_factor_login', tx as any)).resolves.toBe('user-123');
+            expect(tx.authToken.updateMany).toHaveBeenCalled();
+            expect(mockPrisma.authToken.updateMany).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('recordFailedAttempt', () => {
+        it('should count the attempt and keep the token usable below the limit', async () => {
+            mockPrisma.authToken.updateMany
+                .mockResolvedValueOnce({ count: 1 })
+                .mockResolvedValueOnce({ count: 0 });
+
+            await expect(authTokenService.recordFailedAttempt('raw-token', 'two_factor_login', 5)).resolves.toBe(false);
+
+            expect(mockPrisma.authToken.updateMany).toHaveBeenNthCalledWith(1, {
+                where: { tokenHash: sha256('raw-token'), purpose: 'two_factor_login', usedAt: null },
+                data: { failedAttempts: { increment: 1 } },
+            });
+            expect(mockPrisma.authToken.updateMany).toHaveBeenNthCalledWith(2, {
+                where: { tokenHash: sha256('raw-token'), purpose: 'two_factor_login', usedAt: null, failedAttempts: { gte: 5 } },
+                data: { usedAt: expect.any(Date) },
+            });
+        });
+
+        it('should invalidate the token once the limit is reached', async () => {
+            mockPrisma.authToken.updateMany
+                .mockResolvedValueOnce({ count: 1 })
+                .mockResolvedValueOnce({ count: 1 });
+
+            await expect(authTokenService.recordFailedAttempt('raw-token', 'two_factor_login', 5)).resolves.toBe(true);
+        });
+    });
+
+    describe('cleanupExpiredTokens', () => {
+        it('should delete expired tokens and return the count', async () => {
+            mockPrisma.authToken.deleteMany = jest.fn().mockResolvedValue({ count: 3 });
+
+            const count = await authTokenService.cleanupExpiredTokens();
+
+            expect(count).toBe(3);
+            expect(mockPrisma.authToken.deleteMany).toHaveBeenCalledWith({
+                where: { expiresAt: { lt: expect.any(Date) } },
+            });
+        });
+
+        it('should return 0 when cleanup fails', async () => {
+            mockPrisma.authToken.deleteMany = jest.fn().mockRejectedValue(new Error('Database error'));
+
+            await expect(authTokenService.cleanupExpiredTokens()).resolves.toBe(0);
+        });
+    });
+});
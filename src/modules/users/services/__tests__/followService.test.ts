@@ -0,0 +1,193 @@
+// src/modules/users/services/__tests__/followService.test.ts
+
+import { FollowService } from '../followService';
+import { FollowRepository } from '../../repositories/followRepository';
+import { UserRepository } from '../../repositories/userRepository';
+import { User } from '../../types';
+import { HttpStatus } from '@/shared/types';
+
+// Mock dependencies
+jest.mock('../../repositories/followRepository');
+jest.mock('../../repositories/userRepository');
+jest.mock('@/shared/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+/**
+ * @fileoverview Unit tests for FollowService.ts
+ *
+ * @summary Test suite for the FollowService class, covering follows, public profiles and block/mute rules.
+ */
+describe('FollowService', () => {
+  let followService: FollowService;
+  let mockFollowRepository: jest.Mocked<FollowRepository>;
+  let mockUserRepository: jest.Mocked<UserRepository>;
+
+  const viewerId = '11111111-1111-1111-1111-111111111111';
+  const targetId = '22222222-2222-2222-2222-222222222222';
+
+  const noRelationship = {
+    is_following: false,
+    is_followed_by: false,
+    is_blocked: false,
+    is_blocked_by: false,
+    is_muted: false,
+  };
+
+  const buildUser = (overrides: Partial<User> = {}): User => ({
+    id: targetId,
+    email: 'target@example.com',
+    username: 'target',
+    country_code: 'PE',
+    registration_date: new Date('2025-01-01'),
+    profile_picture_url: null,
+    is_active: true,
+    role: 'student',
+    created_at: new Date('2025-01-01'),
+    updated_at: new Date('2025-01-01'),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockFollowRepository = new FollowRepository({} as any) as jest.Mocked<FollowRepository>;
+    mockUserRepository = new UserRepository({} as any) as jest.Mocked<UserRepository>;
+    followService = new FollowService(mockFollowRepository, mockUserRepository);
+
+    mockUserRepository.findById.mockResolvedValue(buildUser());
+    mockFollowRepository.findRelationship.mockResolvedValue(noRelationship);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('followUser', () => {
+    it('should create a follow for a visible user', async () => {
+      await followService.followUser(viewerId, targetId);
+
+      expect(mockFollowRepository.createFollow).toHaveBeenCalledWith(viewerId, targetId);
+    });
+
+    it('should reject following yourself', async () => {
+      await expect(followService.followUser(viewerId, viewerId)).rejects.toMatchObject({
+        statusCode: HttpStatus.BAD_REQUEST,
+      });
+      expect(mockFollowRepository.createFollow).not.toHaveBeenCalled();
+    });
+
+    it('should report users who blocked the viewer as not found', async () => {
+      mockFollowRepository.findRelationship.mockResolvedValue({ ...noRelationship, is_blocked_by: true });
+
+      await expect(followService.followUser(viewerId, targetId)).rejects.toMatchObject({
+        statusCode: HttpStatus.NOT_FOUND,
+      });
+      expect(mockFollowRepository.createFollow).not.toHaveBeenCalled();
+    });
+
+    it('should require unblocking before following a blocked user', async () => {
+      mockFollowRepository.findRelationship.mockResolvedValue({ ...noRelationship, is_blocked: true });
+
+      await expect(followService.followUser(viewerId, targetId)).rejects.toMatchObject({
+        statusCode: HttpStatus.FORBIDDEN,
+      });
+    });
+
+    it('should not allow following inactive users', async () => {
+      mockUserRepository.findById.mockResolvedValue(buildUser({ is_active: false }));
+
+      await expect(followService.followUser(viewerId, targetId)).rejects.toMatchObject({
+        statusCode: HttpStatus.NOT_FOUND,
+      });
+    });
+  });
+
+  describe('unfollowUser', () => {
+    it('should throw NOT_FOUND when not following the user', async () => {
+      mockFollowRepository.deleteFollow.mockResolvedValue(false);
+
+      await expect(followService.unfollowUser(viewerId, targetId)).rejects.toMatchObject({
+        statusCode: HttpStatus.NOT_FOUND,
+      });
+    });
+  });
+
+  describe('getPublicProfile', () => {
+    it('should return public fields, follow counts and the relationship', async () => {
+      mockFollowRepository.countFollows.mockResolvedValue({ followers_count: 4, following_count: 2 });
+      mockFollowRepository.findRelationship.mockResolvedValue({ ...noRelationship, is_following: true, is_muted: true });
+
+      const profile = await followService.getPublicProfile(viewerId, targetId);
+
+      expect(profile).toEqual({
+        id: targetId,
+        username: 'target',
+        country_code: 'PE',
+        profile_picture_url: null,
+        registration_date: new Date('2025-01-01'),
+        followers_count: 4,
+        following_count: 2,
+        relationship: { is_following: true, is_followed_by: false, is_blocked: false, is_muted: true },
+      });
+      expect(profile).not.toHaveProperty('email');
+    });
+
+    it('should omit the relationship on your own profile', async () => {
+      mockUserRepository.findById.mockResolvedValue(buildUser({ id: viewerId }));
+      mockFollowRepository.countFollows.mockResolvedValue({ followers_count: 0, following_count: 0 });
+
+      const profile = await followService.getPublicProfile(viewerId, viewerId);
+
+      expect(profile.relationship).toBeUndefined();
+      expect(mockFollowRepository.findRelationship).not.toHaveBeenCalled();
+    });
+
+    it('should hide the profile of users who blocked the viewer', async () => {
+      mockFollowRepository.countFollows.mockResolvedValue({ followers_count: 0, following_count: 0 });
+      mockFollowRepository.findRelationship.mockResolvedValue({ ...noRelationship, is_blocked_by: true });
+
+      await expect(followService.getPublicProfile(viewerId, targetId)).rejects.toMatchObject({
+        statusCode: HttpStatus.NOT_FOUND,
+      });
+    });
+  });
+
+  describe('getFollowers', () => {
+    it('should list followers visible to the viewer', async () => {
+      const page = { data: [], pagination: { page: 1, limit: 20, total: 0, totalPages: 0, hasNext: false, hasPrev: false } };
+      mockFollowRepository.findFollowers.mockResolvedValue(page);
+
+      const result = await followService.getFollowers(viewerId, targetId, { page: 1, limit: 20 });
+
+      expect(result).toBe(page);
+      expect(mockFollowRepository.findFollowers).toHaveBeenCalledWith(targetId, viewerId, { page: 1, limit: 20 });
+    });
+  });
+
+  describe('blockUser', () => {
+    it('should block an existing user', async () => {
+      await followService.blockUser(viewerId, targetId);
+
+      expect(mockFollowRepository.createBlock).toHaveBeenCalledWith(viewerId, targetId);
+    });
+
+    it('should reject blocking yourself', async () => {
+      await expect(followService.blockUser(viewerId, viewerId)).rejects.toMatchObject({
+        statusCode: HttpStatus.BAD_REQUEST,
+      });
+    });
+  });
+
+  describe('unmuteUser', () => {
+    it('should throw NOT_FOUND when the user is not muted', async () => {
+      mockFollowRepository.deleteMute.mockResolvedValue(false);
+
+      await expect(followService.unmuteUser(viewerId, targetId)).rejects.toMatchObject({
+        statusCode: HttpStatus.NOT_FOUND,
+      });
+    });
+  });
+});
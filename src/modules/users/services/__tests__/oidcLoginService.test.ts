@@ -0,0 +1,249 @@
+// src/modules/users/services/__tests__/oidcLoginService.test.ts
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { OidcLoginService } from '../oidcLoginService';
+import { UserRepository } from '../../repositories/userRepository';
+import { UserIdentityRepository } from '../../repositories/userIdentityRepository';
+import { User, UserIdentity } from '../../types';
+import { AppError } from '@/shared/middleware/errorHandler';
+import { ErrorCodes, HttpStatus } from '@/shared/types';
+import { loadOidcProviders } from '@/shared/utils/oidcClient';
+import { MockIdentity, MockIdentityProvider } from '@/shared/test/mockIdentityProvider';
+
+jest.mock('@/shared/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+    },
+}));
+
+/**
+ * These tests run the OpenID Connect login flow of the OidcLoginService against a local mock
+ * identity provider, with pending logins kept in an in-memory stand-in for the database:
+ * - accounts that are already linked sign in as their user
+ * - unlinked accounts are linked by verified email, or create a new passwordless user
+ * - accounts whose email is not verified yet are never linked automatically
+ * - unverified emails never link to or create accounts
+ * - login states are single-use, expire, and are bound to their provider
+ *
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ */
+describe('OidcLoginService', () => {
+    let idp: MockIdentityProvider;
+    let service: OidcLoginService;
+    let loginStates: Map<string, any>;
+    let mockUserRepository: jest.Mocked<UserRepository>;
+    let mockUserIdentityRepository: jest.Mocked<UserIdentityRepository>;
+
+    const user: User = {
+        id: 'user-123',
+        email: 'learner@example.com',
+        registration_date: new Date('2024-01-01'),
+        email_verified_at: null,
+        is_active: true,
+        role: 'student',
+        created_at: new Date('2024-01-01'),
+        updated_at: new Date('2024-01-01'),
+    };
+
+    const identity: UserIdentity = {
+        id: 'identity-1',
+        user_id: 'user-123',
+        provider: 'mock',
+        subject: 'mock-sub-1',
+        email: 'learner@example.com',
+        created_at: new Date('2024-01-01'),
+    };
+
+    const verifiedIdentity: MockIdentity = { sub: 'mock-sub-1', email: 'learner@example.com', email_verified: true };
+
+    const signIn = async (mockIdentity: MockIdentity) => {
+        const { authorization_url } = await service.startLogin('mock');
+        return idp.signIn(authorization_url, mockIdentity);
+    };
+
+    beforeAll(async () => {
+        idp = new MockIdentityProvider();
+        await idp.start();
+    });
+
+    afterAll(async () => {
+        await idp.stop();
+    });
+
+    beforeEach(() => {
+        loginStates = new Map();
+        const mockPrisma = {
+            oidcLoginState: {
+                create: jest.fn(async ({ data }) => {
+                    loginStates.set(data.stateHash, data);
+                    return data;
+                }),
+                delete: jest.fn(async ({ where }) => {
+                    const state = loginStates.get(where.stateHash);
+                    if (!state) {
+                        throw new Prisma.PrismaClientKnownRequestError('Record not found', { code: 'P2025', clientVersion: 'test' });
+                    }
+                    loginStates.delete(where.stateHash);
+                    return state;
+                }),
+            },
+        } as unknown as PrismaClient;
+
+        mockUserRepository = {
+            findById: jest.fn(),
+            findByEmail: jest.fn().mockResolvedValue(null),
+            markEmailVerified: jest.fn(),
+        } as unknown as jest.Mocked<UserRepository>;
+        mockUserIdentityRepository = {
+            findByProviderSubject: jest.fn().mockResolvedValue(null),
+            create: jest.fn(),
+            createUserWithIdentity: jest.fn(),
+            updateLastLogin: jest.fn(),
+        } as unknown as jest.Mocked<UserIdentityRepository>;
+
+        service = new OidcLoginService(mockPrisma, mockUserRepository, mockUserIdentityRepository, loadOidcProviders(idp.env()));
+    });
+
+    describe('startLogin', () => {
+        it('should store the pending login without the raw state', async () => {
+            const { authorization_url, state } = await service.startLogin('mock');
+
+            expect(new URL(authorization_url).searchParams.get('state')).toBe(state);
+            const [pending] = [...loginStates.values()];
+            expect(pending).toMatchObject({ provider: 'mock', codeVerifier: expect.any(String), nonce: expect.any(String) });
+            expect(JSON.stringify(pending)).not.toContain(state);
+        });
+
+        it('should reject unknown providers', async () => {
+            await expect(service.startLogin('unknown')).rejects.toEqual(
+                new AppError('Unknown identity provider', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND)
+            );
+        });
+    });
+
+    describe('completeLogin', () => {
+        it('should sign in the user an account is linked to', async () => {
+            mockUserIdentityRepository.findByProviderSubject.mockResolvedValue(identity);
+            mockUserRepository.findById.mockResolvedValue(user);
+            const { code, state } = await signIn(verifiedIdentity);
+
+            const result = await service.completeLogin('mock', code, state);
+
+            expect(result).toEqual({ user, is_new_user: false });
+            expect(mockUserIdentityRepository.findByProviderSubject).toHaveBeenCalledWith('mock', 'mock-sub-1');
+            expect(mockUserIdentityRepository.updateLastLogin).toHaveBeenCalledWith(identity.id);
+        });
+
+        it('should link the account to the user with the same verified email', async () => {
+            const verifiedUser = { ...user, email_verified_at: new Date() };
+            mockUserRepository.findByEmail.mockResolvedValue(verifiedUser);
+            const { code, state } = await signIn(verifiedIdentity);
+
+            const result = await service.completeLogin('mock', code, state);
+
+            expect(result).toEqual({ user: verifiedUser, is_new_user: false });
+            expect(mockUserIdentityRepository.create).toHaveBeenCalledWith(user.id, {
+                provider: 'mock',
+                subject: 'mock-sub-1',
+                email: 'learner@example.com',
+            });
+            expect(mockUserRepository.markEmailVerified).not.toHaveBeenCalled();
+        });
+
+        it('should not link accounts whose email is not verified yet', async () => {
+            mockUserRepository.findByEmail.mockResolvedValue(user);
+            const { code, state } = await signIn(verifiedIdentity);
+
+            await expect(service.completeLogin('mock', code, state)).rejects.toMatchObject({
+                statusCode: HttpStatus.CONFLICT,
+                code: ErrorCodes.CONFLICT,
+            });
+            expect(mockUserIdentityRepository.create).not.toHaveBeenCalled();
+            expect(mockUserIdentityRepository.createUserWithIdentity).not.toHaveBeenCalled();
+            expect(mockUserRepository.markEmailVerified).not.toHaveBeenCalled();
+        });
+
+        it('should create a new user for an unknown email', async () => {
+            mockUserIdentityRepository.createUserWithIdentity.mockResolvedValue('user-new');
+            mockUserRepository.findById.mockResolvedValue({ ...user, id: 'user-new' });
+            const { code, state } = await signIn(verifiedIdentity);
+
+            const result = await service.completeLogin('mock', code, state);
+
+            expect(result.is_new_user).toBe(true);
+            expect(result.user.id).toBe('user-new');
+            expect(mockUserIdentityRepository.createUserWithIdentity).toHaveBeenCalledWith(
+                'learner@example.com',
+                expect.any(Date),
+                { provider: 'mock', subject: 'mock-sub-1', email: 'learner@example.com' }
+            );
+        });
+
+        it('should not link or create accounts for unverified emails', async () => {
+            mockUserRepository.findByEmail.mockResolvedValue(user);
+            const { code, state } = await signIn({ ...verifiedIdentity, email_verified: false });
+
+            await expect(service.completeLogin('mock', code, state)).rejects.toEqual(
+                new AppError('The identity provider has not verified this email address', HttpStatus.UNAUTHORIZED, ErrorCodes.AUTHENTICATION_ERROR)
+            );
+            expect(mockUserIdentityRepository.create).not.toHaveBeenCalled();
+            expect(mockUserIdentityRepository.createUserWithIdentity).not.toHaveBeenCalled();
+        });
+
+        it('should only accept a login state once', async () => {
+            mockUserIdentityRepository.findByProviderSubject.mockResolvedValue(identity);
+            mockUserRepository.findById.mockResolvedValue(user);
+            const { code, state } = await signIn(verifiedIdentity);
+            await service.completeLogin('mock', code, state);
+
+            await expect(service.completeLogin('mock', code, state)).rejects.toEqual(
+                new AppError('Invalid or expired login state', HttpStatus.BAD_REQUEST, ErrorCodes.VALIDATION_ERROR)
+            );
+        });
+
+        it('should reject expired login states', async () => {
+            const { code, state } = await signIn(verifiedIdentity);
+            for (const pending of loginStates.values()) pending.expiresAt = new Date(Date.now() - 1000);
+            const tokenRequests = idp.tokenRequests;
+
+            await expect(service.completeLogin('mock', code, state)).rejects.toMatchObject({
+                statusCode: HttpStatus.BAD_REQUEST,
+            });
+            expect(idp.tokenRequests).toBe(tokenRequests);
+        });
+
+        it('should reject codes the provider does not accept', async () => {
+            const { state } = await signIn(verifiedIdentity);
+
+            await expect(service.completeLogin('mock', 'forged-code', state)).rejects.toEqual(
+                new AppError('Identity provider authentication failed', HttpStatus.UNAUTHORIZED, ErrorCodes.AUTHENTICATION_ERROR)
+            );
+        });
+    });
+
+    describe('linkIdentity', () => {
+        it('should link the account to the signed-in user', async () => {
+            mockUserIdentityRepository.create.mockResolvedValue(identity);
+            const { code, state } = await signIn({ sub: 'mock-sub-1', email: 'other@example.com' });
+
+            await expect(service.linkIdentity(user.id, 'mock', code, state)).resolves.toBe(identity);
+            expect(mockUserIdentityRepository.create).toHaveBeenCalledWith(user.id, {
+                provider: 'mock',
+                subject: 'mock-sub-1',
+                email: 'other@example.com',
+            });
+        });
+
+        it('should reject accounts linked to another user', async () => {
+            mockUserIdentityRepository.findByProviderSubject.mockResolvedValue({ ...identity, user_id: 'someone-else' });
+            const { code, state } = await signIn(verifiedIdentity);
+
+            await expect(service.linkIdentity(user.id, 'mock', code, state)).rejects.toEqual(
+                new AppError('This account is already linked to another user', HttpStatus.CONFLICT, ErrorCodes.CONFLICT)
+            );
+        });
+    });
+});
@@ -0,0 +1,272 @@
+// src/modules/users/services/__tests__/sessionService.test.ts
+
+import { randomUUID } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+import { SessionService, describeUserAgent } from '../sessionService';
+import { AppError } from '@/shared/middleware/errorHandler';
+import { ErrorCodes, HttpStatus, JWTPayload } from '@/shared/types';
+import { hashToken, TokenPayload } from '@/shared/utils/auth';
+
+jest.mock('@/shared/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+    },
+}));
+
+/**
+ * These tests run the SessionService against an in-memory stand-in for the session and refresh
+ * token tables, with real JWTs:
+ * - logins start a session and store only hashes of refresh tokens
+ * - refresh tokens rotate within their session and can be used once
+ * - reusing a rotated refresh token revokes the whole session
+ * - users can list and revoke their own sessions only
+ *
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ */
+describe('SessionService', () => {
+    let service: SessionService;
+    let sessions: Map<string, any>;
+    let refreshTokens: Map<string, any>;
+    let mockPrisma: any;
+
+    const payload: TokenPayload = { userId: 'user-123', email: 'learner@example.com', role: 'student' };
+    const chromeOnWindows = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36';
+    const invalidRefreshToken = new AppError('Invalid refresh token', HttpStatus.UNAUTHORIZED, ErrorCodes.AUTHENTICATION_ERROR);
+
+    const onlySession = () => [...sessions.values()][0];
+
+    beforeAll(() => {
+        process.env['JWT_SECRET'] = 'test-access-secret';
+        process.env['JWT_REFRESH_SECRET'] = 'test-refresh-secret';
+    });
+
+    beforeEach(() => {
+        sessions = new Map();
+        refreshTokens = new Map();
+
+        const addRefreshToken = (data: any) => {
+            const token = { id: randomUUID(), rotatedAt: null, createdAt: new Date(), ...data };
+            refreshTokens.set(token.tokenHash, token);
+            return token;
+        };
+
+        mockPrisma = {
+            userSession: {
+                create: jest.fn(async ({ data: { refreshTokens: nested, ...data } }) => {
+                    const session = { createdAt: new Date(), lastUsedAt: new Date(), revokedAt: null, revokedReason: null, ...data };
+                    sessions.set(session.id, session);
+                    addRefreshToken({ ...nested.create, sessionId: session.id });
+                    return session;
+                }),
+                update: jest.fn(async ({ where, data }) => Object.assign(sessions.get(where.id), data)),
+                updateMany: jest.fn(async ({ where, data }) => {
+                    const session = sessions.get(where.id);
+                    if (!session || session.revokedAt || (where.userId && session.userId !== where.userId)) {
+                        return { count: 0 };
+                    }
+                    Object.assign(session, data);
+                    return { count: 1 };
+                }),
+                findMany: jest.fn(async ({ where }) => [...sessions.values()].filter((session) =>
+                    session.userId === where.userId && !session.revokedAt && session.expiresAt > where.expiresAt.gt
+                )),
+                deleteMany: jest.fn().mockResolvedValue({ count: 2 }),
+            },
+            refreshToken: {
+                findUnique: jest.fn(async ({ where }) => {
+                    const token = refreshTokens.get(where.tokenHash);
+                    return token ? { ...token, session: { ...sessions.get(token.sessionId) } } : null;
+                }),
+                updateMany: jest.fn(async ({ where, data }) => {
+                    const token = [...refreshTokens.values()].find((t) => t.id === where.id && t.rotatedAt === null);
+                    if (!token) return { count: 0 };
+                    Object.assign(token, data);
+                    return { count: 1 };
+                }),
+                create: jest.fn(async ({ data }) => addRefreshToken(data)),
+            },
+            $transaction: jest.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+        };
+
+        service = new SessionService(mockPrisma as unknown as PrismaClient);
+    });
+
+    describe('createSession', () => {
+        it('should start a session for the device and bind the tokens to it', async () => {
+            const tokens = await service.createSession(payload, { ip_address: '203.0.113.7', user_agent: chromeOnWindows });
+
+            const session = onlySession();
+            expect(session).toMatchObject({
+                userId: 'user-123',
+                deviceName: 'Chrome on Windows',
+                ipAddress: '203.0.113.7',
+                userAgent: chromeOnWindows,
+            });
+            expect((jwt.decode(tokens.accessToken) as JWTPayload).sid).toBe(session.id);
+            expect((jwt.decode(tokens.refreshToken) as JWTPayload).sid).toBe(session.id);
+        });
+
+        it('should prefer the device name sent by the client', async () => {
+            await service.createSession(payload, { device_name: 'Work laptop', user_agent: chromeOnWindows });
+
+            expect(onlySession().deviceName).toBe('Work laptop');
+        });
+
+        it('should store a hash instead of the refresh token', async () => {
+            const { refreshToken } = await service.createSession(payload);
+
+            expect([...refreshTokens.keys()]).toEqual([hashToken(refreshToken)]);
+            expect(JSON.stringify([...refreshTokens.values()])).not.toContain(refreshToken);
+        });
+    });
+
+    describe('rotateRefreshToken', () => {
+        it('should exchange the refresh token for a new one in the same session', async () => {
+            const first = await service.createSession(payload);
+
+            const second = await service.rotateRefreshToken(first.refreshToken, payload, { ip_address: '198.51.100.1' });
+
+            expect(second.refreshToken).not.toBe(first.refreshToken);
+            expect((jwt.decode(second.refreshToken) as JWTPayload).sid).toBe(onlySession().id);
+            expect(refreshTokens.get(hashToken(first.refreshToken)).rotatedAt).toEqual(expect.any(Date));
+            expect(onlySession().ipAddress).toBe('198.51.100.1');
+            await expect(service.rotateRefreshToken(second.refreshToken, payload)).resolves.toBeDefined();
+        });
+
+        it('should revoke the whole session when a rotated refresh token is reused', async () => {
+            const first = await service.createSession(payload);
+            const second = await service.rotateRefreshToken(first.refreshToken, payload);
+
+            await expect(service.rotateRefreshToken(first.refreshToken, payload)).rejects.toEqual(invalidRefreshToken);
+
+            expect(onlySession()).toMatchObject({ revokedAt: expect.any(Date), revokedReason: 'token_reuse' });
+            await expect(service.rotateRefreshToken(second.refreshToken, payload)).rejects.toEqual(invalidRefreshToken);
+        });
+
+        it('should only let one of two concurrent refreshes with the same token succeed', async () => {
+            const { refreshToken } = await service.createSession(payload);
+
+            const results = await Promise.allSettled([
+                service.rotateRefreshToken(refreshToken, payload),
+                service.rotateRefreshToken(refreshToken, payload),
+            ]);
+
+            expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+            expect(onlySession().revokedReason).toBe('token_reuse');
+        });
+
+        it('should keep the two-factor status of the login in rotated access tokens', async () => {
+            const verified = await service.createSession({ ...payload, twoFactorVerified: true });
+            const rotated = await service.rotateRefreshToken(verified.refreshToken, payload);
+
+            expect(onlySession().twoFactorVerified).toBe(true);
+            expect((jwt.decode(verified.accessToken) as JWTPayload).mfa).toBe(true);
+            expect((jwt.decode(rotated.accessToken) as JWTPayload).mfa).toBe(true);
+        });
+
+        it('should reject refresh tokens of revoked sessions', async () => {
+            const { refreshToken } = await service.createSession(payload);
+            await service.revokeSession('user-123', onlySession().id);
+
+            await expect(service.rotateRefreshToken(refreshToken, payload)).rejects.toEqual(invalidRefreshToken);
+        });
+
+        it('should reject refresh tokens of another user', async () => {
+            const { refreshToken } = await service.createSession(payload);
+
+            await expect(
+                service.rotateRefreshToken(refreshToken, { ...payload, userId: 'someone-else' })
+            ).rejects.toEqual(invalidRefreshToken);
+            expect(onlySession().revokedAt).toBeNull();
+        });
+
+        it('should reject unknown refresh tokens', async () => {
+            await expect(service.rotateRefreshToken('unknown.refresh.token', payload)).rejects.toEqual(invalidRefreshToken);
+        });
+    });
+
+    describe('listSessions', () => {
+        it('should list the active sessions of the user', async () => {
+            await service.createSession(payload, { device_name: 'Phone' });
+            await service.createSession(payload, { device_name: 'Revoked tablet' });
+            await service.createSession({ ...payload, userId: 'someone-else' }, { device_name: 'Other' });
+            const revoked = [...sessions.values()].find((session) => session.deviceName === 'Revoked tablet');
+            await service.revokeSession('user-123', revoked.id);
+
+            const result = await service.listSessions('user-123');
+
+            expect(result).toEqual([
+                expect.objectContaining({ user_id: 'user-123', device_name: 'Phone', expires_at: expect.any(Date) }),
+            ]);
+        });
+    });
+
+    describe('revokeSession', () => {
+        it('should not revoke sessions of another user', async () => {
+            await service.createSession(payload);
+
+            await expect(service.revokeSession('someone-else', onlySession().id)).rejects.toEqual(
+                new AppError('Session not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND)
+            );
+            expect(onlySession().revokedAt).toBeNull();
+        });
+    });
+
+    describe('markTwoFactorVerified', () => {
+        it('should add the mfa claim to access tokens from the next refresh', async () => {
+            const { refreshToken } = await service.createSession(payload);
+
+            await service.markTwoFactorVerified('user-123', onlySession().id);
+            const rotated = await service.rotateRefreshToken(refreshToken, payload);
+
+            expect((jwt.decode(rotated.accessToken) as JWTPayload).mfa).toBe(true);
+        });
+    });
+
+    describe('endSessionByRefreshToken', () => {
+        it('should revoke the session of the refresh token', async () => {
+            const { refreshToken } = await service.createSession(payload);
+
+            await expect(service.endSessionByRefreshToken(refreshToken, 'user-123')).resolves.toBe(true);
+            expect(onlySession()).toMatchObject({ revokedAt: expect.any(Date), revokedReason: 'logout' });
+        });
+
+        it('should return false for tokens without a session', async () => {
+            await expect(service.endSessionByRefreshToken('legacy.refresh.token', 'user-123')).resolves.toBe(false);
+        });
+
+        it('should return false instead of throwing on database errors', async () => {
+            mockPrisma.refreshToken.findUnique.mockRejectedValue(new Error('Database connection error'));
+
+            await expect(service.endSessionByRefreshToken('some.refresh.token', 'user-123')).resolves.toBe(false);
+        });
+    });
+
+    describe('cleanupExpiredSessions', () => {
+        it('should delete expired sessions', async () => {
+            await expect(service.cleanupExpiredSessions()).resolves.toBe(2);
+            expect(mockPrisma.userSession.deleteMany).toHaveBeenCalledWith({
+                where: { expiresAt: { lt: expect.any(Date) } },
+            });
+        });
+    });
+
+    describe('describeUserAgent', () => {
+        it.each([
+            [chromeOnWindows, 'Chrome on Windows'],
+            ['Mozilla/5.0 (X11; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0', 'Firefox on Linux'],
+            ['Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 Version/17.2 Mobile/15E148 Safari/604.1', 'Safari on iOS'],
+            ['WayrApp/1.4 (Android 14)', 'Android'],
+        ])('should name %s', (userAgent, name) => {
+            expect(describeUserAgent(userAgent)).toBe(name);
+        });
+
+        it('should return null without a user agent', () => {
+            expect(describeUserAgent(undefined)).toBeNull();
+        });
+    });
+});
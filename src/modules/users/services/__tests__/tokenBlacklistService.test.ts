@@ -2,6 +2,7 @@
 
 import { TokenBlacklistService } from '../tokenBlacklistService';
 import { PrismaClient } from '@prisma/client';
+import { hashToken } from '@/shared/utils/auth';
 
 // Mock dependencies
 jest.mock('@prisma/client');
@@ -14,11 +15,13 @@ jest.mock('@/shared/utils/logger', () => ({
 }));
 jest.mock('@/shared/utils/auth', () => ({
     getTokenExpiration: jest.fn(),
+    hashToken: jest.requireActual('@/shared/utils/auth').hashToken,
 }));
 
 /**
  * These tests verify that the TokenBlacklistService correctly implements all token blacklist operations including:
  * - Token revocation during logout operations with proper expiration handling
+ * - Atomic revocation of tokens exchanged for a session during refresh
  * - Token validation during refresh operations with blacklist checking
  * - Automated cleanup of expired tokens for database maintenance
  * - Error handling and graceful failure patterns for authentication flow stability
@@ -64,7 +67,7 @@ describe('TokenBlacklistService', () => {
 
             const mockCreateResult = {
                 id: 'revoked-token-id',
-                token,
+                tokenHash: hashToken(token),
                 userId,
                 expiresAt: expirationDate,
                 revokedAt: new Date(),
@@ -79,13 +82,28 @@ describe('TokenBlacklistService', () => {
             expect(getTokenExpiration).toHaveBeenCalledWith(token);
             expect(mockPrisma.revokedToken.create).toHaveBeenCalledWith({
                 data: {
-                    token,
+                    tokenHash: hashToken(token),
                     userId,
                     expiresAt: expirationDate,
                 },
             });
         });
 
+        it('should store a hash instead of the raw token', async () => {
+            // Arrange
+            const token = 'valid.jwt.token';
+            const { getTokenExpiration } = await import('@/shared/utils/auth');
+            (getTokenExpiration as jest.Mock).mockReturnValue(new Date('2024-12-31T23:59:59Z'));
+
+            // Act
+            await tokenBlacklistService.revokeToken(token, 'user-123');
+
+            // Assert
+            const [{ data }] = (mockPrisma.revokedToken.create as jest.Mock).mock.calls[0];
+            expect(data.tokenHash).toMatch(/^[0-9a-f]{64}$/);
+            expect(JSON.stringify(data)).not.toContain(token);
+        });
+
         it('should handle invalid token format gracefully', async () => {
             // Arrange
             const token = 'invalid.token';
@@ -119,13 +137,79 @@ describe('TokenBlacklistService', () => {
         });
     });
 
+    describe('consumeToken', () => {
+        it('should revoke the token and return true when it was not revoked yet', async () => {
+            // Arrange
+            const token = 'valid.jwt.token';
+            const userId = 'user-123';
+            const expirationDate = new Date('2024-12-31T23:59:59Z');
+
+            const { getTokenExpiration } = await import('@/shared/utils/auth');
+            (getTokenExpiration as jest.Mock).mockReturnValue(expirationDate);
+            (mockPrisma.revokedToken.create as jest.Mock).mockResolvedValue({});
+
+            // Act
+            const result = await tokenBlacklistService.consumeToken(token, userId);
+
+            // Assert
+            expect(result).toBe(true);
+            expect(mockPrisma.revokedToken.create).toHaveBeenCalledWith({
+                data: { tokenHash: hashToken(token), userId, expiresAt: expirationDate },
+            });
+            expect(mockPrisma.revokedToken.findUnique).not.toHaveBeenCalled();
+        });
+
+        it('should return false when another request already revoked the token', async () => {
+            // Arrange
+            const { getTokenExpiration } = await import('@/shared/utils/auth');
+            (getTokenExpiration as jest.Mock).mockReturnValue(new Date('2024-12-31T23:59:59Z'));
+            (mockPrisma.revokedToken.create as jest.Mock).mockRejectedValue(
+                Object.assign(new Error('Unique constraint failed'), { code: 'P2002' })
+            );
+
+            // Act
+            const result = await tokenBlacklistService.consumeToken('valid.jwt.token', 'user-123');
+
+            // Assert
+            expect(result).toBe(false);
+        });
+
+        it('should return false (fail-safe) on database errors', async () => {
+            // Arrange
+            const { getTokenExpiration } = await import('@/shared/utils/auth');
+            const { logger } = await import('@/shared/utils/logger');
+            (getTokenExpiration as jest.Mock).mockReturnValue(new Date('2024-12-31T23:59:59Z'));
+            (mockPrisma.revokedToken.create as jest.Mock).mockRejectedValue(new Error('Database error'));
+
+            // Act
+            const result = await tokenBlacklistService.consumeToken('valid.jwt.token', 'user-123');
+
+            // Assert
+            expect(result).toBe(false);
+            expect(logger.error).toHaveBeenCalled();
+        });
+
+        it('should return false for tokens without expiration', async () => {
+            // Arrange
+            const { getTokenExpiration } = await import('@/shared/utils/auth');
+            (getTokenExpiration as jest.Mock).mockReturnValue(null);
+
+            // Act
+            const result = await tokenBlacklistService.consumeToken('invalid.token', 'user-123');
+
+            // Assert
+            expect(result).toBe(false);
+            expect(mockPrisma.revokedToken.create).not.toHaveBeenCalled();
+        });
+    });
+
     describe('isTokenRevoked', () => {
         it('should return true when token is found in blacklist', async () => {
             // Arrange
             const token = 'blacklisted.jwt.token';
             const mockRevokedToken = {
                 id: 'revoked-token-id',
-                token,
+                tokenHash: hashToken(token),
                 userId: 'user-123',
                 expiresAt: new Date('2024-12-31T23:59:59Z'),
                 revokedAt: new Date(),
@@ -139,7 +223,7 @@ describe('TokenBlacklistService', () => {
             // Assert
             expect(result).toBe(true);
             expect(mockPrisma.revokedToken.findUnique).toHaveBeenCalledWith({
-                where: { token },
+                where: { tokenHash: hashToken(token) },
             });
         });
 
@@ -155,7 +239,7 @@ describe('TokenBlacklistService', () => {
             // Assert
             expect(result).toBe(false);
             expect(mockPrisma.revokedToken.findUnique).toHaveBeenCalledWith({
-                where: { token },
+                where: { tokenHash: hashToken(token) },
             });
         });
 
@@ -171,7 +255,7 @@ describe('TokenBlacklistService', () => {
             // Assert
             expect(result).toBe(true);
             expect(mockPrisma.revokedToken.findUnique).toHaveBeenCalledWith({
-                where: { token },
+                where: { tokenHash: hashToken(token) },
             });
         });
 
@@ -216,7 +300,7 @@ describe('TokenBlacklistService', () => {
             // Assert
             expect(result).toBe(true);
             expect(mockPrisma.revokedToken.findUnique).toHaveBeenCalledWith({
-                where: { token: testToken },
+                where: { tokenHash: hashToken(testToken) },
             });
             
             // Verify that the failure is being logged correctly
@@ -0,0 +1,276 @@
+// src/modules/users/services/__tests__/twoFactorService.test.ts
+
+import { PrismaClient } from '@prisma/client';
+import { TwoFactorService, RECOVERY_CODE_COUNT, TWO_FACTOR_LOGIN_MAX_ATTEMPTS } from '../twoFactorService';
+import { AuthTokenService } from '../authTokenService';
+import { AppError } from '@/shared/middleware/errorHandler';
+import { ErrorCodes, HttpStatus } from '@/shared/types';
+import { hashToken } from '@/shared/utils/auth';
+import { generateTotp, getTotpStep } from '@/shared/utils/totp';
+
+jest.mock('@/shared/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+    },
+}));
+
+/**
+ * These tests run the TwoFactorService against an in-memory stand-in for the two-factor and
+ * recovery code tables, with real TOTP codes:
+ * - enrollment only enables two-factor authentication once a first code is confirmed
+ * - secrets are stored encrypted and recovery codes as hashes
+ * - TOTP codes and recovery codes can each be used once
+ * - logins are completed with the two-factor token and a code, and wrong codes count as failed attempts
+ * - roles that require two-factor authentication cannot disable it
+ *
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ */
+describe('TwoFactorService', () => {
+    let service: TwoFactorService;
+    let twoFactors: Map<string, any>;
+    let recoveryCodes: any[];
+    let mockAuthTokenService: jest.Mocked<AuthTokenService>;
+
+    const userId = 'user-123';
+    const originalPolicy = process.env['REQUIRE_2FA_FOR_PRIVILEGED_ROLES'];
+
+    const currentCode = (secret: string, offset = 0) => generateTotp(secret, getTotpStep() + offset);
+
+    const enroll = async () => {
+        const { secret } = await service.startEnrollment(userId, 'admin@example.com');
+        const codes = await service.confirmEnrollment(userId, currentCode(secret));
+        return { secret, codes };
+    };
+
+    beforeEach(() => {
+        twoFactors = new Map();
+        recoveryCodes = [];
+
+        const mockPrisma: any = {
+            userTwoFactor: {
+                findUnique: jest.fn(async ({ where, include }) => {
+                    const twoFactor = twoFactors.get(where.userId);
+                    if (!twoFactor) return null;
+                    return include
+                        ? { ...twoFactor, _count: { recoveryCodes: recoveryCodes.filter((c) => c.userId === where.userId && !c.usedAt).length } }
+                        : { ...twoFactor };
+                }),
+                upsert: jest.fn(async ({ where, create, update }) => {
+                    const existing = twoFactors.get(where.userId);
+                    const twoFactor = existing ? Object.assign(existing, update) : { enabledAt: null, lastUsedStep: null, ...create };
+                    twoFactors.set(where.userId, twoFactor);
+                    return twoFactor;
+                }),
+                update: jest.fn(async ({ where, data }) => Object.assign(twoFactors.get(where.userId), data)),
+                updateMany: jest.fn(async ({ where, data }) => {
+                    const twoFactor = twoFactors.get(where.userId);
+                    const step = data.lastUsedStep;
+                    if (!twoFactor || (twoFactor.lastUsedStep !== null && twoFactor.lastUsedStep >= step)) {
+                        return { count: 0 };
+                    }
+                    Object.assign(twoFactor, data);
+                    return { count: 1 };
+                }),
+                delete: jest.fn(async ({ where }) => {
+                    twoFactors.delete(where.userId);
+                    recoveryCodes = recoveryCodes.filter((c) => c.userId !== where.userId);
+                }),
+            },
+            twoFactorRecoveryCode: {
+                updateMany: jest.fn(async ({ where, data }) => {
+                    const code = recoveryCodes.find((c) => c.userId === where.userId && c.codeHash === where.codeHash && !c.usedAt);
+                    if (!code) return { count: 0 };
+                    Object.assign(code, data);
+                    return { count: 1 };
+                }),
+                deleteMany: jest.fn(async ({ where }) => {
+                    recoveryCodes = recoveryCodes.filter((c) => c.userId !== where.userId);
+                }),
+                createMany: jest.fn(async ({ data }) => {
+                    recoveryCodes.push(...data.map((c: any) => ({ ...c, usedAt: null })));
+                }),
+            },
+            $transaction: jest.fn((operations: any) =>
+                typeof operations === 'function' ? operations(mockPrisma) : Promise.all(operations)
+            ),
+        };
+
+        mockAuthTokenService = {
+            issueToken: jest.fn().mockResolvedValue('two-factor-token'),
+            consumeToken: jest.fn().mockResolvedValue(userId),
+            recordFailedAttempt: jest.fn().mockResolvedValue(false),
+        } as unknown as jest.Mocked<AuthTokenService>;
+
+        service = new TwoFactorService(mockPrisma as PrismaClient, mockAuthTokenService, 'test-encryption-key');
+    });
+
+    afterEach(() => {
+        if (originalPolicy === undefined) {
+            delete process.env['REQUIRE_2FA_FOR_PRIVILEGED_ROLES'];
+        } else {
+            process.env['REQUIRE_2FA_FOR_PRIVILEGED_ROLES'] = originalPolicy;
+        }
+    });
+
+    describe('startEnrollment', () => {
+        it('should return a secret and its otpauth URI without enabling two-factor authentication', async () => {
+            const enrollment = await service.startEnrollment(userId, 'admin@example.com');
+
+            expect(enrollment.otpauth_url).toContain(`secret=${enrollment.secret}`);
+            expect(enrollment.otpauth_url).toMatch(/^otpauth:\/\/totp\/WayrApp:admin%40example\.com\?/);
+            await expect(service.isEnabled(userId)).resolves.toBe(false);
+        });
+
+        it('should store the secret encrypted', async () => {
+            const { secret } = await service.startEnrollment(userId, 'admin@example.com');
+
+            expect(twoFactors.get(userId).secret).not.toContain(secret);
+        });
+
+        it('should refuse to start over once enabled', async () => {
+            await enroll();
+
+            await expect(service.startEnrollment(userId, 'admin@example.com')).rejects.toEqual(
+                new AppError('Two-factor authentication is already enabled', HttpStatus.CONFLICT, ErrorCodes.CONFLICT)
+            );
+        });
+    });
+
+    describe('confirmEnrollment', () => {
+        it('should enable two-factor authentication and issue hashed recovery codes', async () => {
+            const { codes } = await enroll();
+
+            expect(codes).toHaveLength(RECOVERY_CODE_COUNT);
+            expect(codes[0]).toMatch(/^[A-Z2-7]{5}-[A-Z2-7]{5}$/);
+            expect(JSON.stringify(recoveryCodes)).not.toContain(codes[0]!.replace('-', ''));
+            await expect(service.getStatus(userId)).resolves.toEqual({
+                enabled: true,
+                enabled_at: expect.any(Date),
+                recovery_codes_remaining: RECOVERY_CODE_COUNT,
+            });
+        });
+
+        it('should reject a wrong code', async () => {
+            const { secret } = await service.startEnrollment(userId, 'admin@example.com');
+
+            await expect(service.confirmEnrollment(userId, currentCode(secret, 5))).rejects.toEqual(
+                new AppError('Invalid two-factor code', HttpStatus.BAD_REQUEST, ErrorCodes.VALIDATION_ERROR)
+            );
+            await expect(service.isEnabled(userId)).resolves.toBe(false);
+        });
+
+        it('should require enrollment to be started', async () => {
+            await expect(service.confirmEnrollment(userId, '123456')).rejects.toMatchObject({
+                statusCode: HttpStatus.BAD_REQUEST,
+            });
+        });
+    });
+
+    describe('completeLoginChallenge', () => {
+        it('should issue a two-factor token for the login', async () => {
+            await expect(service.createLoginChallenge(userId)).resolves.toEqual({
+                two_factor_required: true,
+                two_factor_token: 'two-factor-token',
+                expires_in: 300,
+            });
+            expect(mockAuthTokenService.issueToken).toHaveBeenCalledWith(userId, 'two_factor_login', 5 * 60 * 1000);
+        });
+
+        it('should accept a code from the authenticator app once', async () => {
+            const { secret } = await enroll();
+            const code = currentCode(secret, 1);
+
+            await expect(service.completeLoginChallenge('two-factor-token', code)).resolves.toBe(userId);
+            expect(mockAuthTokenService.consumeToken).toHaveBeenCalledWith('two-factor-token', 'two_factor_login', expect.anything());
+
+            await expect(service.completeLoginChallenge('two-factor-token', code)).rejects.toEqual(
+                new AppError('Invalid two-factor code', HttpStatus.UNAUTHORIZED, ErrorCodes.AUTHENTICATION_ERROR)
+            );
+        });
+
+        it('should accept each recovery code once, as displayed or not', async () => {
+            const { codes } = await enroll();
+
+            await expect(service.completeLoginChallenge('two-factor-token', codes[3]!.toLowerCase())).resolves.toBe(userId);
+            await expect(service.completeLoginChallenge('two-factor-token', codes[3]!)).rejects.toMatchObject({
+                statusCode: HttpStatus.UNAUTHORIZED,
+            });
+            expect((await service.getStatus(userId)).recovery_codes_remaining).toBe(RECOVERY_CODE_COUNT - 1);
+        });
+
+        it('should count a wrong code as a failed attempt of the token', async () => {
+            await enroll();
+
+            await expect(service.completeLoginChallenge('two-factor-token', '000000')).rejects.toMatchObject({
+                statusCode: HttpStatus.UNAUTHORIZED,
+            });
+            expect(mockAuthTokenService.recordFailedAttempt).toHaveBeenCalledWith(
+                'two-factor-token',
+                'two_factor_login',
+                TWO_FACTOR_LOGIN_MAX_ATTEMPTS
+            );
+        });
+
+        it('should redeem the token before using up a recovery code', async () => {
+            const { codes } = await enroll();
+            mockAuthTokenService.consumeToken.mockResolvedValue(null);
+
+            await expect(service.completeLoginChallenge('used-token', codes[0]!)).rejects.toMatchObject({
+                statusCode: HttpStatus.UNAUTHORIZED,
+            });
+            expect((await service.getStatus(userId)).recovery_codes_remaining).toBe(RECOVERY_CODE_COUNT);
+            expect(mockAuthTokenService.recordFailedAttempt).not.toHaveBeenCalled();
+        });
+
+        it('should reject invalid or expired two-factor tokens', async () => {
+            mockAuthTokenService.consumeToken.mockResolvedValue(null);
+
+            await expect(service.completeLoginChallenge('expired-token', '123456')).rejects.toEqual(
+                new AppError('Invalid or expired two-factor token', HttpStatus.UNAUTHORIZED, ErrorCodes.AUTHENTICATION_ERROR)
+            );
+        });
+    });
+
+    describe('regenerateRecoveryCodes', () => {
+        it('should replace the previous recovery codes', async () => {
+            const { secret, codes } = await enroll();
+
+            const newCodes = await service.regenerateRecoveryCodes(userId, currentCode(secret, 1));
+
+            expect(newCodes).toHaveLength(RECOVERY_CODE_COUNT);
+            expect(recoveryCodes.map((c) => c.codeHash)).not.toContain(hashToken(codes[0]!.replace('-', '')));
+        });
+    });
+
+    describe('disable', () => {
+        it('should remove the secret and recovery codes', async () => {
+            const { codes } = await enroll();
+
+            await service.disable(userId, 'content_creator', codes[0]!);
+
+            expect(twoFactors.size).toBe(0);
+            expect(recoveryCodes).toHaveLength(0);
+        });
+
+        it('should not be allowed for roles that require two-factor authentication', async () => {
+            const { codes } = await enroll();
+            process.env['REQUIRE_2FA_FOR_PRIVILEGED_ROLES'] = 'true';
+
+            await expect(service.disable(userId, 'admin', codes[0]!)).rejects.toEqual(
+                new AppError('Two-factor authentication is required for your role', HttpStatus.FORBIDDEN, ErrorCodes.AUTHORIZATION_ERROR)
+            );
+            await expect(service.isEnabled(userId)).resolves.toBe(true);
+        });
+
+        it('should require a valid code', async () => {
+            await enroll();
+
+            await expect(service.disable(userId, 'admin', 'WRONG-CODES')).rejects.toEqual(
+                new AppError('Invalid two-factor code', HttpStatus.BAD_REQUEST, ErrorCodes.VALIDATION_ERROR)
+            );
+        });
+    });
+});
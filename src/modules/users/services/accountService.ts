@@ -0,0 +1,191 @@
+// src/modules/users/services/accountService.ts
+
+/**
+ * Account Service - Password reset and email verification flows
+ *
+ * Implements the account recovery and email ownership flows that are driven by emailed links.
+ * Each flow issues a single-use token through the AuthTokenService, emails a link containing it
+ * through the configured MailTransport, and redeems the token when the user follows the link.
+ *
+ * Password reset requests never reveal whether an email address is registered: unknown and
+ * deactivated accounts are silently ignored so the endpoint cannot be used to enumerate users.
+ *
+ * Links point to the frontend configured in `APP_URL`, which collects the token from the query
+ * string and submits it to the corresponding API endpoint.
+ *
+ * @module AccountService
+ * @category Services
+ * @category Users
+ * @category Auth
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ */
+
+import { User } from '../types';
+import { UserRepository } from '../repositories/userRepository';
+import { AuthTokenService } from './authTokenService';
+import { AppError } from '@/shared/middleware/errorHandler';
+import { ErrorCodes, HttpStatus } from '@/shared/types';
+import { hashPassword } from '@/shared/utils/auth';
+import { MailTransport } from '@/shared/utils/mailer';
+import { logger } from '@/shared/utils/logger';
+
+/** Lifetime of password reset tokens (1 hour) */
+export const PASSWORD_RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+/** Lifetime of email verification tokens (24 hours) */
+export const EMAIL_VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_APP_URL = 'http://localhost:3000';
+
+/**
+ * AccountService - Business logic for password reset and email verification
+ *
+ * @class AccountService
+ * @example
+ * ```typescript
+ * const accountService = new AccountService(userRepository, authTokenService, mailTransport);
+ *
+ * await accountService.requestPasswordReset('user@example.com');
+ * await accountService.resetPassword(tokenFromEmail, 'NewSecurePass123!');
+ * ```
+ */
+export class AccountService {
+  /**
+   * Creates a new AccountService instance
+   *
+   * @param {UserRepository} userRepository - Repository instance for user data access
+   * @param {AuthTokenService} authTokenService - Service issuing and redeeming single-use tokens
+   * @param {MailTransport} mailTransport - Transport used to send account emails
+   * @param {string} [appUrl] - Base URL of the frontend the emailed links point to
+   */
+  constructor(
+    private userRepository: UserRepository,
+    private authTokenService: AuthTokenService,
+    private mailTransport: MailTransport,
+    private appUrl: string = process.env['APP_URL'] || DEFAULT_APP_URL
+  ) { }
+
+  /**
+   * Emails a password reset link to the user with the given email address
+   *
+   * Does nothing when no active account uses the address, so callers must respond identically
+   * in every case.
+   *
+   * @param {string} email - Email address the reset was requested for
+   * @returns {Promise<void>}
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.userRepository.findByEmail(email);
+    if (!user || !user.is_active) {
+      logger.info('Password reset requested for unknown or inactive account');
+      return;
+    }
+
+    const token = await this.authTokenService.issueToken(user.id, 'password_reset', PASSWORD_RESET_TOKEN_TTL_MS);
+    const link = this.buildLink('/reset-password', token);
+
+    await this.mailTransport.send({
+      to: user.email,
+      subject: 'Reset your WayrApp password',
+      text: [
+        'We received a request to reset the password of your WayrApp account.',
+        '',
+        `Choose a new password by following this link within the next hour: ${link}`,
+        '',
+        'If you did not request a password reset, you can ignore this email.',
+      ].join('\n'),
+    });
+
+    logger.info('Password reset email sent', { userId: user.id });
+  }
+
+  /**
+   * Sets a new password using a password reset token
+   *
+   * Every session of the user is revoked with the password change, so whoever obtained a session
+   * before the reset loses access and every device has to sign in with the new password.
+   *
+   * @param {string} token - Password reset token received by email
+   * @param {string} password - The new password
+   * @returns {Promise<void>}
+   * @throws {AppError} When the token is invalid, expired or already used
+   */
+  async resetPassword(token: string, password: string): Promise<void> {
+    const userId = await this.authTokenService.consumeToken(token, 'password_reset');
+    if (!userId) {
+      throw new AppError('Invalid or expired token', HttpStatus.BAD_REQUEST, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    const passwordHash = await hashPassword(password);
+    await this.userRepository.resetPassword(userId, passwordHash);
+
+    logger.info('Password reset completed, sessions revoked', { userId });
+  }
+
+  /**
+   * Emails an email verification link to the user
+   *
+   * @param {User} user - The user whose email address should be verified
+   * @returns {Promise<void>}
+   */
+  async sendEmailVerification(user: User): Promise<void> {
+    const token = await this.authTokenService.issueToken(user.id, 'email_verification', EMAIL_VERIFICATION_TOKEN_TTL_MS);
+    const link = this.buildLink('/verify-email', token);
+
+    await this.mailTransport.send({
+      to: user.email,
+      subject: 'Verify your WayrApp email address',
+      text: [
+        'Welcome to WayrApp!',
+        '',
+        `Confirm your email address by following this link within the next 24 hours: ${link}`,
+      ].join('\n'),
+    });
+
+    logger.info('Email verification sent', { userId: user.id });
+  }
+
+  /**
+   * Sends a new email verification link to a user whose email is not verified yet
+   *
+   * @param {string} userId - ID of the user requesting the link
+   * @returns {Promise<void>}
+   * @throws {AppError} When the user does not exist or their email is already verified
+   */
+  async resendEmailVerification(userId: string): Promise<void> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new AppError('User not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+
+    if (user.email_verified_at) {
+      throw new AppError('Email is already verified', HttpStatus.CONFLICT, ErrorCodes.CONFLICT);
+    }
+
+    await this.sendEmailVerification(user);
+  }
+
+  /**
+   * Marks a user's email as verified using an email verification token
+   *
+   * @param {string} token - Email verification token received by email
+   * @returns {Promise<User>} The verified user
+   * @throws {AppError} When the token is invalid, expired or already used
+   */
+  async verifyEmail(token: string): Promise<User> {
+    const userId = await this.authTokenService.consumeToken(token, 'email_verification');
+    if (!userId) {
+      throw new AppError('Invalid or expired token', HttpStatus.BAD_REQUEST, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    const user = await this.userRepository.markEmailVerified(userId);
+
+    logger.info('Email verified', { userId });
+    return user;
+  }
+
+  private buildLink(path: string, token: string): string {
+    return `${this.appUrl.replace(/\/+$/, '')}${path}?token=${encodeURIComponent(token)}`;
+  }
+}
@@ -0,0 +1,171 @@
+// src/modules/users/services/authTokenService.ts
+
+/**
+ * Auth Token Service - Single-use tokens for email based account flows
+ *
+ * Issues and redeems the random tokens sent to users by email to reset their password or verify
+ * their email address. Tokens are generated with `generateSecureToken`, only their SHA-256 hash is
+ * stored, so a leaked database cannot be used to take over accounts, and each token:
+ *
+ * - belongs to a single purpose (`password_reset`, `email_verification` or `two_factor_login`, which
+ *   is returned by a password login instead of tokens until the user enters a two-factor code);
+ * - expires after a purpose specific lifetime;
+ * - can be redeemed only once;
+ * - can be invalidated after too many wrong codes, for tokens redeemed together with a code;
+ * - is superseded when a newer token is issued to the same user for the same purpose.
+ *
+ * @module AuthTokenService
+ * @category Security
+ * @category Auth
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ */
+
+import { AuthTokenPurpose, Prisma, PrismaClient } from '@prisma/client';
+import { logger } from '@/shared/utils/logger';
+import { generateSecureToken, hashToken } from '@/shared/utils/auth';
+
+export type { AuthTokenPurpose };
+
+const TOKEN_LENGTH = 48;
+
+/**
+ * AuthTokenService - Issues and redeems single-use, hashed, expiring tokens
+ *
+ * @class AuthTokenService
+ *
+ * @example
+ * ```typescript
+ * const authTokenService = new AuthTokenService(prisma);
+ *
+ * // Issue a password reset token valid for one hour and email it to the user
+ * const token = await authTokenService.issueToken(userId, 'password_reset', 60 * 60 * 1000);
+ *
+ * // Redeem it when the user follows the link
+ * const userId = await authTokenService.consumeToken(token, 'password_reset');
+ * if (!userId) {
+ *   throw new Error('Invalid or expired token');
+ * }
+ * ```
+ */
+export class AuthTokenService {
+  /**
+   * Creates a new AuthTokenService instance
+   *
+   * @param {PrismaClient} prisma - Prisma client instance for database operations
+   */
+  constructor(private prisma: PrismaClient) { }
+
+  /**
+   * Issues a new token for a user, invalidating any unused token previously issued for the same purpose
+   *
+   * @param {string} userId - The user the token is issued to
+   * @param {AuthTokenPurpose} purpose - What the token can be used for
+   * @param {number} ttlMs - Token lifetime in milliseconds
+   * @returns {Promise<string>} The raw token, to be sent to the user. It is not stored and cannot be recovered.
+   */
+  async issueToken(userId: string, purpose: AuthTokenPurpose, ttlMs: number): Promise<string> {
+    const token = generateSecureToken(TOKEN_LENGTH);
+
+    await this.prisma.$transaction([
+      this.prisma.authToken.deleteMany({
+        where: { userId, purpose, usedAt: null }
+      }),
+      this.prisma.authToken.create({
+        data: {
+          userId,
+          purpose,
+          tokenHash: hashToken(token),
+          expiresAt: new Date(Date.now() + ttlMs)
+        }
+      })
+    ]);
+
+    logger.info('Auth token issued', { userId, purpose });
+    return token;
+  }
+
+  /**
+   * Redeems a token, marking it as used
+   *
+   * @param {string} token - The raw token received from the user
+   * @param {AuthTokenPurpose} purpose - The purpose the token must have been issued for
+   * @param {Prisma.TransactionClient} [client] - Transaction to redeem the token in, so the redemption is rolled
+   * back when the rest of the transaction fails
+   * @returns {Promise<string | null>} The ID of the user the token belongs to, or null when the token
+   * is unknown, was issued for another purpose, has expired or has already been used
+   */
+  async consumeToken(
+    token: string,
+    purpose: AuthTokenPurpose,
+    client: Prisma.TransactionClient = this.prisma
+  ): Promise<string | null> {
+    const tokenHash = hashToken(token);
+    const now = new Date();
+
+    // Marking the token as used in the same statement that checks it prevents concurrent reuse
+    const { count } = await client.authToken.updateMany({
+      where: { tokenHash, purpose, usedAt: null, expiresAt: { gt: now } },
+      data: { usedAt: now }
+    });
+
+    if (count === 0) {
+      logger.warn('Auth token rejected', { purpose });
+      return null;
+    }
+
+    const authToken = await client.authToken.findUnique({
+      where: { tokenHash },
+      select: { userId: true }
+    });
+
+    return authToken?.userId ?? null;
+  }
+
+  /**
+   * Records a wrong code entered with a token, invalidating the token once the limit is reached
+   *
+   * @param {string} token - The raw token received from the user
+   * @param {AuthTokenPurpose} purpose - The purpose the token must have been issued for
+   * @param {number} maxAttempts - Number of wrong codes after which the token can no longer be redeemed
+   * @returns {Promise<boolean>} True when the token was invalidated by this attempt
+   */
+  async recordFailedAttempt(token: string, purpose: AuthTokenPurpose, maxAttempts: number): Promise<boolean> {
+    const tokenHash = hashToken(token);
+
+    await this.prisma.authToken.updateMany({
+      where: { tokenHash, purpose, usedAt: null },
+      data: { failedAttempts: { increment: 1 } }
+    });
+
+    // An invalidated token is marked as used, so it is rejected like a redeemed one
+    const { count } = await this.prisma.authToken.updateMany({
+      where: { tokenHash, purpose, usedAt: null, failedAttempts: { gte: maxAttempts } },
+      data: { usedAt: new Date() }
+    });
+
+    if (count > 0) {
+      logger.warn('Auth token invalidated after too many failed attempts', { purpose });
+    }
+    return count > 0;
+  }
+
+  /**
+   * Removes expired tokens
+   *
+   * @returns {Promise<number>} Number of tokens removed
+   */
+  async cleanupExpiredTokens(): Promise<number> {
+    try {
+      const result = await this.prisma.authToken.deleteMany({
+        where: { expiresAt: { lt: new Date() } }
+      });
+
+      logger.info('Cleaned up expired auth tokens', { count: result.count });
+      return result.count;
+    } catch (error) {
+      logger.error('Error cleaning up expired auth tokens', { error });
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,300 @@
+// src/modules/users/services/followService.ts
+
+/**
+ * Follow Service - Business logic layer for following, blocking and muting users
+ *
+ * Provides the social features learners use to build a study circle: following other learners,
+ * listing followers and followed users, public profiles with follower counts, and block/mute handling.
+ *
+ * Business rules enforced by this service:
+ * - Users cannot follow, block or mute themselves
+ * - Only active accounts can be followed, and inactive accounts are hidden from non-admin viewers
+ * - A block in either direction prevents following and hides both users from each other; a user who
+ *   blocked the viewer appears as not found, so blocks are not disclosed
+ * - Blocking removes any existing follow between both users
+ * - Muting keeps follows intact and is only visible to the muting user
+ *
+ * @module followService
+ * @category Services
+ * @category Users
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * ```typescript
+ * const followService = new FollowService(new FollowRepository(prisma), new UserRepository(prisma));
+ *
+ * await followService.followUser('user-123', 'user-456');
+ * const profile = await followService.getPublicProfile('user-123', 'user-456');
+ * console.log(profile.followers_count, profile.relationship?.is_following);
+ * ```
+ */
+
+import { FollowRepository } from '../repositories/followRepository';
+import { UserRepository } from '../repositories/userRepository';
+import { FollowCounts, FollowListUser, PublicUserProfile, User } from '../types';
+import { AppError } from '@/shared/middleware/errorHandler';
+import { ErrorCodes, HttpStatus, PaginatedResult } from '@/shared/types';
+import { logger } from '@/shared/utils/logger';
+
+/**
+ * FollowService - Business logic service for social relationships between users
+ *
+ * @class FollowService
+ */
+export class FollowService {
+  /**
+   * Creates a new FollowService instance
+   *
+   * @param {FollowRepository} followRepository - Repository for follows, blocks and mutes
+   * @param {UserRepository} userRepository - Repository for user lookups
+   */
+  constructor(
+    private followRepository: FollowRepository,
+    private userRepository: UserRepository
+  ) { }
+
+  /**
+   * Follows a user
+   *
+   * @param {string} followerId - ID of the authenticated user
+   * @param {string} targetId - ID of the user to follow
+   * @returns {Promise<void>}
+   * @throws {AppError} VALIDATION_ERROR when following yourself, NOT_FOUND when the user doesn't exist or is not visible,
+   *   AUTHORIZATION_ERROR when the viewer blocked the user, CONFLICT when already following
+   */
+  async followUser(followerId: string, targetId: string): Promise<void> {
+    this.assertNotSelf(followerId, targetId, 'You cannot follow yourself');
+
+    await this.findVisibleUser(targetId, false);
+    const relationship = await this.followRepository.findRelationship(followerId, targetId);
+
+    if (relationship.is_blocked_by) {
+      throw new AppError('User not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+    if (relationship.is_blocked) {
+      throw new AppError('Unblock this user before following them', HttpStatus.FORBIDDEN, ErrorCodes.AUTHORIZATION_ERROR);
+    }
+
+    await this.followRepository.createFollow(followerId, targetId);
+
+    logger.info('User followed', { followerId, followedId: targetId });
+  }
+
+  /**
+   * Unfollows a user
+   *
+   * @param {string} followerId - ID of the authenticated user
+   * @param {string} targetId - ID of the user to unfollow
+   * @returns {Promise<void>}
+   * @throws {AppError} NOT_FOUND when the user is not being followed
+   */
+  async unfollowUser(followerId: string, targetId: string): Promise<void> {
+    const removed = await this.followRepository.deleteFollow(followerId, targetId);
+    if (!removed) {
+      throw new AppError('You are not following this user', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+
+    logger.info('User unfollowed', { followerId, followedId: targetId });
+  }
+
+  /**
+   * Lists the followers of a user
+   *
+   * @param {string} viewerId - ID of the authenticated user
+   * @param {string} userId - ID of the user whose followers are listed
+   * @param {object} options - Pagination options
+   * @param {number} options.page - Page number (1-based)
+   * @param {number} options.limit - Number of users per page
+   * @returns {Promise<PaginatedResult<FollowListUser>>} Paginated followers, excluding blocked users
+   * @throws {AppError} NOT_FOUND when the user doesn't exist or is not visible to the viewer
+   */
+  async getFollowers(
+    viewerId: string,
+    userId: string,
+    options: { page: number; limit: number }
+  ): Promise<PaginatedResult<FollowListUser>> {
+    await this.assertVisibleTo(viewerId, userId);
+    return this.followRepository.findFollowers(userId, viewerId, options);
+  }
+
+  /**
+   * Lists the users followed by a user
+   *
+   * @param {string} viewerId - ID of the authenticated user
+   * @param {string} userId - ID of the user whose follows are listed
+   * @param {object} options - Pagination options
+   * @param {number} options.page - Page number (1-based)
+   * @param {number} options.limit - Number of users per page
+   * @returns {Promise<PaginatedResult<FollowListUser>>} Paginated followed users, excluding blocked users
+   * @throws {AppError} NOT_FOUND when the user doesn't exist or is not visible to the viewer
+   */
+  async getFollowing(
+    viewerId: string,
+    userId: string,
+    options: { page: number; limit: number }
+  ): Promise<PaginatedResult<FollowListUser>> {
+    await this.assertVisibleTo(viewerId, userId);
+    return this.followRepository.findFollowing(userId, viewerId, options);
+  }
+
+  /**
+   * Retrieves follower and following counts for a user
+   *
+   * @param {string} userId - ID of the user
+   * @returns {Promise<FollowCounts>} Follower and following counts
+   */
+  async getFollowCounts(userId: string): Promise<FollowCounts> {
+    return this.followRepository.countFollows(userId);
+  }
+
+  /**
+   * Retrieves the public profile of a user as seen by the viewer
+   *
+   * The relationship between both users is included unless viewers look at their own profile.
+   *
+   * @param {string} viewerId - ID of the authenticated user
+   * @param {string} userId - ID of the user whose profile is requested
+   * @returns {Promise<PublicUserProfile>} Public profile with follower counts and relationship
+   * @throws {AppError} NOT_FOUND when the user doesn't exist, is inactive or blocked the viewer
+   */
+  async getPublicProfile(viewerId: string, userId: string): Promise<PublicUserProfile> {
+    const isSelf = viewerId === userId;
+    const user = await this.findVisibleUser(userId, isSelf);
+
+    const [counts, relationship] = await Promise.all([
+      this.followRepository.countFollows(userId),
+      isSelf ? Promise.resolve(null) : this.followRepository.findRelationship(viewerId, userId),
+    ]);
+
+    if (relationship?.is_blocked_by) {
+      throw new AppError('User not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+
+    return {
+      id: user.id,
+      username: user.username,
+      country_code: user.country_code,
+      profile_picture_url: user.profile_picture_url,
+      registration_date: user.registration_date,
+      ...counts,
+      ...(relationship && {
+        relationship: {
+          is_following: relationship.is_following,
+          is_followed_by: relationship.is_followed_by,
+          is_blocked: relationship.is_blocked,
+          is_muted: relationship.is_muted,
+        },
+      }),
+    };
+  }
+
+  /**
+   * Blocks a user, removing any follow between both users
+   *
+   * @param {string} blockerId - ID of the authenticated user
+   * @param {string} targetId - ID of the user to block
+   * @returns {Promise<void>}
+   * @throws {AppError} VALIDATION_ERROR when blocking yourself, NOT_FOUND when the user doesn't exist
+   */
+  async blockUser(blockerId: string, targetId: string): Promise<void> {
+    this.assertNotSelf(blockerId, targetId, 'You cannot block yourself');
+    await this.findVisibleUser(targetId, true);
+
+    await this.followRepository.createBlock(blockerId, targetId);
+
+    logger.info('User blocked', { blockerId, blockedId: targetId });
+  }
+
+  /**
+   * Unblocks a user
+   *
+   * @param {string} blockerId - ID of the authenticated user
+   * @param {string} targetId - ID of the user to unblock
+   * @returns {Promise<void>}
+   * @throws {AppError} NOT_FOUND when the user is not blocked
+   */
+  async unblockUser(blockerId: string, targetId: string): Promise<void> {
+    const removed = await this.followRepository.deleteBlock(blockerId, targetId);
+    if (!removed) {
+      throw new AppError('This user is not blocked', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+
+    logger.info('User unblocked', { blockerId, blockedId: targetId });
+  }
+
+  /**
+   * Mutes a user
+   *
+   * @param {string} muterId - ID of the authenticated user
+   * @param {string} targetId - ID of the user to mute
+   * @returns {Promise<void>}
+   * @throws {AppError} VALIDATION_ERROR when muting yourself, NOT_FOUND when the user doesn't exist
+   */
+  async muteUser(muterId: string, targetId: string): Promise<void> {
+    this.assertNotSelf(muterId, targetId, 'You cannot mute yourself');
+    await this.findVisibleUser(targetId, true);
+
+    await this.followRepository.createMute(muterId, targetId);
+
+    logger.info('User muted', { muterId, mutedId: targetId });
+  }
+
+  /**
+   * Unmutes a user
+   *
+   * @param {string} muterId - ID of the authenticated user
+   * @param {string} targetId - ID of the user to unmute
+   * @returns {Promise<void>}
+   * @throws {AppError} NOT_FOUND when the user is not muted
+   */
+  async unmuteUser(muterId: string, targetId: string): Promise<void> {
+    const removed = await this.followRepository.deleteMute(muterId, targetId);
+    if (!removed) {
+      throw new AppError('This user is not muted', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+
+    logger.info('User unmuted', { muterId, mutedId: targetId });
+  }
+
+  /**
+   * Ensures a user exists and is visible to the viewer (active and not blocking the viewer)
+   *
+   * @private
+   */
+  private async assertVisibleTo(viewerId: string, userId: string): Promise<void> {
+    const isSelf = viewerId === userId;
+    await this.findVisibleUser(userId, isSelf);
+
+    if (!isSelf) {
+      const relationship = await this.followRepository.findRelationship(viewerId, userId);
+      if (relationship.is_blocked_by) {
+        throw new AppError('User not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+      }
+    }
+  }
+
+  /**
+   * Retrieves a user, treating inactive accounts as not found unless explicitly allowed
+   *
+   * @private
+   */
+  private async findVisibleUser(userId: string, allowInactive: boolean): Promise<User> {
+    const user = await this.userRepository.findById(userId);
+    if (!user || (!user.is_active && !allowInactive)) {
+      throw new AppError('User not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+    return user;
+  }
+
+  /**
+   * Rejects social actions targeting the acting user
+   *
+   * @private
+   */
+  private assertNotSelf(actorId: string, targetId: string, message: string): void {
+    if (actorId === targetId) {
+      throw new AppError(message, HttpStatus.BAD_REQUEST, ErrorCodes.VALIDATION_ERROR);
+    }
+  }
+}
@@ -0,0 +1,287 @@
+// src/modules/users/services/oidcLoginService.ts
+
+/**
+ * OIDC Login Service - Social login with OpenID Connect providers
+ *
+ * Signs users in with any configured OpenID Connect provider using the authorization code flow
+ * with PKCE, as an alternative to email and password:
+ *
+ * 1. `startLogin` creates a pending login holding the PKCE code verifier and the nonce, and returns
+ *    the provider authorization URL. Only a hash of the `state` parameter is stored.
+ * 2. The provider redirects the user back to the frontend, which submits the `code` and `state`.
+ * 3. `completeLogin` redeems the pending login once, exchanges the code and validates the ID token,
+ *    then resolves the WayrApp user:
+ *    - a provider account that is already linked signs in as its user;
+ *    - otherwise, an existing user with the same email is linked, provided both the provider and
+ *      WayrApp have verified the email address. An account whose email is not verified yet may
+ *      have been registered by someone else with that address, so it is never linked
+ *      automatically: its owner has to sign in with the password and link the provider account
+ *      with `linkIdentity`;
+ *    - otherwise, a new passwordless user is created.
+ *
+ * Signed-in users can also link additional provider accounts with `linkIdentity`. Tokens are then
+ * issued exactly as for password logins.
+ *
+ * @module OidcLoginService
+ * @category Services
+ * @category Users
+ * @category Auth
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ */
+
+import { createHash } from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { User, UserIdentity } from '../types';
+import { UserRepository } from '../repositories/userRepository';
+import { UserIdentityRepository } from '../repositories/userIdentityRepository';
+import { AppError } from '@/shared/middleware/errorHandler';
+import { ErrorCodes, HttpStatus } from '@/shared/types';
+import { generateSecureToken } from '@/shared/utils/auth';
+import { OidcClient, OidcError, OidcIdTokenClaims } from '@/shared/utils/oidcClient';
+import { logger } from '@/shared/utils/logger';
+
+/** How long a pending login can be completed (10 minutes) */
+export const OIDC_LOGIN_STATE_TTL_MS = 10 * 60 * 1000;
+
+export interface OidcLoginStart {
+  authorization_url: string;
+  state: string;
+}
+
+export interface OidcLoginResult {
+  user: User;
+  is_new_user: boolean;
+}
+
+/**
+ * OidcLoginService - Business logic for OpenID Connect login and account linking
+ *
+ * @class OidcLoginService
+ * @example
+ * ```typescript
+ * const oidcLoginService = new OidcLoginService(prisma, userRepository, userIdentityRepository, loadOidcProviders());
+ *
+ * const { authorization_url } = await oidcLoginService.startLogin('google');
+ * // ... the user signs in at the provider and comes back with a code and the state
+ * const { user, is_new_user } = await oidcLoginService.completeLogin('google', code, state);
+ * ```
+ */
+export class OidcLoginService {
+  /**
+   * Creates a new OidcLoginService instance
+   *
+   * @param {PrismaClient} prisma - Prisma client instance for pending login storage
+   * @param {UserRepository} userRepository - Repository instance for user data access
+   * @param {UserIdentityRepository} userIdentityRepository - Repository instance for linked identities
+   * @param {Map<string, OidcClient>} providers - Configured providers by name
+   */
+  constructor(
+    private prisma: PrismaClient,
+    private userRepository: UserRepository,
+    private userIdentityRepository: UserIdentityRepository,
+    private providers: Map<string, OidcClient>
+  ) { }
+
+  /**
+   * Lists the names of the configured providers
+   *
+   * @returns {string[]} Provider names
+   */
+  getProviderNames(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  /**
+   * Starts a login with a provider
+   *
+   * @param {string} providerName - Name of the provider
+   * @returns {Promise<OidcLoginStart>} The URL to send the user to and the state it carries
+   * @throws {AppError} When the provider is unknown or unreachable
+   */
+  async startLogin(providerName: string): Promise<OidcLoginStart> {
+    const provider = this.getProvider(providerName);
+    const state = generateSecureToken(48);
+    const nonce = generateSecureToken(48);
+    const codeVerifier = generateSecureToken(64);
+
+    let authorizationUrl: string;
+    try {
+      authorizationUrl = await provider.getAuthorizationUrl({ state, nonce, codeVerifier });
+    } catch (error) {
+      throw this.toAppError(error, providerName);
+    }
+
+    await this.prisma.oidcLoginState.create({
+      data: {
+        provider: providerName,
+        stateHash: this.hashState(state),
+        codeVerifier,
+        nonce,
+        expiresAt: new Date(Date.now() + OIDC_LOGIN_STATE_TTL_MS),
+      },
+    });
+
+    return { authorization_url: authorizationUrl, state };
+  }
+
+  /**
+   * Completes a login, linking or creating the user as needed
+   *
+   * @param {string} providerName - Name of the provider
+   * @param {string} code - Authorization code returned by the provider
+   * @param {string} state - State returned by the provider
+   * @returns {Promise<OidcLoginResult>} The signed-in user and whether it was just created
+   * @throws {AppError} When the state or code is invalid, or the account cannot be linked safely
+   * @throws {AppError} When an account with an unverified email uses the same address (409 CONFLICT)
+   */
+  async completeLogin(providerName: string, code: string, state: string): Promise<OidcLoginResult> {
+    const claims = await this.authenticate(providerName, code, state);
+
+    const identity = await this.userIdentityRepository.findByProviderSubject(providerName, claims.sub);
+    if (identity) {
+      const user = await this.userRepository.findById(identity.user_id);
+      if (!user) {
+        throw new AppError('User not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+      }
+      await this.userIdentityRepository.updateLastLogin(identity.id);
+      logger.info('OIDC login with linked identity', { userId: user.id, provider: providerName });
+      return { user, is_new_user: false };
+    }
+
+    const email = this.getVerifiedEmail(claims, providerName);
+    const identityData = { provider: providerName, subject: claims.sub, email };
+
+    const existingUser = await this.userRepository.findByEmail(email);
+    if (existingUser) {
+      if (!existingUser.email_verified_at) {
+        logger.warn('OIDC login rejected - existing account email not verified', { userId: existingUser.id, provider: providerName });
+        throw new AppError(
+          'An account with this email already exists. Sign in with your password to link this provider',
+          HttpStatus.CONFLICT,
+          ErrorCodes.CONFLICT
+        );
+      }
+
+      await this.userIdentityRepository.create(existingUser.id, identityData);
+      logger.info('OIDC identity linked to existing user by email', { userId: existingUser.id, provider: providerName });
+      return { user: existingUser, is_new_user: false };
+    }
+
+    const userId = await this.userIdentityRepository.createUserWithIdentity(email, new Date(), identityData);
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new AppError('Failed to create user', HttpStatus.INTERNAL_SERVER_ERROR, ErrorCodes.INTERNAL_ERROR);
+    }
+
+    logger.info('User created from OIDC identity', { userId, provider: providerName });
+    return { user, is_new_user: true };
+  }
+
+  /**
+   * Links a provider account to a signed-in user
+   *
+   * @param {string} userId - ID of the signed-in user
+   * @param {string} providerName - Name of the provider
+   * @param {string} code - Authorization code returned by the provider
+   * @param {string} state - State returned by the provider
+   * @returns {Promise<UserIdentity>} The linked identity
+   * @throws {AppError} When the state or code is invalid, or the account is linked to another user
+   */
+  async linkIdentity(userId: string, providerName: string, code: string, state: string): Promise<UserIdentity> {
+    const claims = await this.authenticate(providerName, code, state);
+
+    const identity = await this.userIdentityRepository.findByProviderSubject(providerName, claims.sub);
+    if (identity) {
+      if (identity.user_id !== userId) {
+        throw new AppError('This account is already linked to another user', HttpStatus.CONFLICT, ErrorCodes.CONFLICT);
+      }
+      return identity;
+    }
+
+    const linked = await this.userIdentityRepository.create(userId, {
+      provider: providerName,
+      subject: claims.sub,
+      email: claims.email ?? null,
+    });
+
+    logger.info('OIDC identity linked', { userId, provider: providerName });
+    return linked;
+  }
+
+  /**
+   * Redeems a pending login and validates the provider response
+   */
+  private async authenticate(providerName: string, code: string, state: string): Promise<OidcIdTokenClaims> {
+    const provider = this.getProvider(providerName);
+
+    let pendingLogin;
+    try {
+      // Deleting the pending login makes the state single-use, even for concurrent requests
+      pendingLogin = await this.prisma.oidcLoginState.delete({
+        where: { stateHash: this.hashState(state) },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+        pendingLogin = null;
+      } else {
+        throw error;
+      }
+    }
+
+    if (!pendingLogin || pendingLogin.provider !== providerName || pendingLogin.expiresAt <= new Date()) {
+      throw new AppError('Invalid or expired login state', HttpStatus.BAD_REQUEST, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    try {
+      return await provider.exchangeCode(code, pendingLogin.codeVerifier, pendingLogin.nonce);
+    } catch (error) {
+      throw this.toAppError(error, providerName);
+    }
+  }
+
+  private getVerifiedEmail(claims: OidcIdTokenClaims, providerName: string): string {
+    if (!claims.email) {
+      throw new AppError(
+        'The identity provider did not share an email address',
+        HttpStatus.BAD_REQUEST,
+        ErrorCodes.VALIDATION_ERROR
+      );
+    }
+
+    if (!claims.email_verified) {
+      logger.warn('OIDC login rejected - email not verified by provider', { provider: providerName });
+      throw new AppError(
+        'The identity provider has not verified this email address',
+        HttpStatus.UNAUTHORIZED,
+        ErrorCodes.AUTHENTICATION_ERROR
+      );
+    }
+
+    return claims.email;
+  }
+
+  private getProvider(providerName: string): OidcClient {
+    const provider = this.providers.get(providerName);
+    if (!provider) {
+      throw new AppError('Unknown identity provider', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+    return provider;
+  }
+
+  private toAppError(error: unknown, providerName: string): unknown {
+    if (error instanceof OidcError) {
+      logger.warn('OIDC provider authentication failed', { provider: providerName, error: error.message });
+      return new AppError(
+        'Identity provider authentication failed',
+        HttpStatus.UNAUTHORIZED,
+        ErrorCodes.AUTHENTICATION_ERROR
+      );
+    }
+    return error;
+  }
+
+  private hashState(state: string): string {
+    return createHash('sha256').update(state).digest('hex');
+  }
+}
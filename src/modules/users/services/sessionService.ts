@@ -0,0 +1,310 @@
+// src/modules/users/services/sessionService.ts
+
+/**
+ * Session Service - Per-device sessions with rotating refresh tokens
+ *
+ * Every login (password, registration or OpenID Connect) starts a session for the device it comes
+ * from, recording a device name, the IP address and when the session was last used. The session
+ * owns a family of refresh tokens:
+ *
+ * - each refresh exchanges the presented refresh token for a new one and marks the old one as
+ *   rotated, so a refresh token can be used only once;
+ * - presenting a refresh token that was already rotated means it was copied, by an attacker or by
+ *   a broken client, so the whole session is revoked and the legitimate device must log in again;
+ * - users can list their sessions and revoke any of them to sign out other devices.
+ *
+ * Only SHA-256 hashes of refresh tokens are stored. Access tokens carry the session ID as the `sid`
+ * claim, and the `mfa` claim when the login passed two-factor authentication, but stay stateless:
+ * they remain valid until they expire, which is kept short (15 minutes) for this reason, while
+ * revoking a session prevents any further refresh.
+ *
+ * @module SessionService
+ * @category Services
+ * @category Users
+ * @category Auth
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ */
+
+import { randomUUID } from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { SessionContext, UserSession } from '../types';
+import { AppError } from '@/shared/middleware/errorHandler';
+import { ErrorCodes, HttpStatus } from '@/shared/types';
+import { generateTokenPair, getTokenExpiration, hashToken, TokenPair, TokenPayload } from '@/shared/utils/auth';
+import { logger } from '@/shared/utils/logger';
+
+/** Why a session was revoked */
+export type SessionRevocationReason = 'logout' | 'signed_out' | 'token_reuse' | 'password_reset';
+
+/**
+ * SessionService - Business logic for device sessions and refresh token rotation
+ *
+ * @class SessionService
+ * @example
+ * ```typescript
+ * const sessionService = new SessionService(prisma);
+ *
+ * // On login
+ * const tokens = await sessionService.createSession(tokenPayload, { ip_address: req.ip });
+ *
+ * // On refresh
+ * const newTokens = await sessionService.rotateRefreshToken(tokens.refreshToken, tokenPayload);
+ * ```
+ */
+export class SessionService {
+  /**
+   * Creates a new SessionService instance
+   *
+   * @param {PrismaClient} prisma - Prisma client instance for session storage
+   */
+  constructor(private prisma: PrismaClient) { }
+
+  /**
+   * Starts a session and issues its first token pair
+   *
+   * @param {TokenPayload} payload - The user the tokens are issued to
+   * @param {SessionContext} [context={}] - The device the user signed in from
+   * @returns {Promise<TokenPair>} Tokens bound to the new session
+   */
+  async createSession(payload: TokenPayload, context: SessionContext = {}): Promise<TokenPair> {
+    const sessionId = randomUUID();
+    const tokens = generateTokenPair({ ...payload, sessionId });
+    const expiresAt = this.getRefreshTokenExpiration(tokens.refreshToken);
+
+    await this.prisma.userSession.create({
+      data: {
+        id: sessionId,
+        userId: payload.userId,
+        deviceName: context.device_name ?? describeUserAgent(context.user_agent),
+        ipAddress: context.ip_address ?? null,
+        userAgent: context.user_agent?.slice(0, 500) ?? null,
+        twoFactorVerified: payload.twoFactorVerified ?? false,
+        expiresAt,
+        refreshTokens: {
+          create: { tokenHash: hashToken(tokens.refreshToken), expiresAt },
+        },
+      },
+    });
+
+    logger.info('Session created', { userId: payload.userId, sessionId });
+    return tokens;
+  }
+
+  /**
+   * Exchanges a refresh token for a new token pair in the same session
+   *
+   * A refresh token that was already rotated revokes its session. Two concurrent refreshes with
+   * the same token count as reuse as well, since only one of them can win.
+   *
+   * @param {string} refreshToken - The refresh token presented by the client, already verified
+   * @param {TokenPayload} payload - The user the new tokens are issued to
+   * @param {SessionContext} [context={}] - The device the request comes from
+   * @returns {Promise<TokenPair>} The new token pair
+   * @throws {AppError} When the token is unknown, reused, or its session is revoked or expired
+   */
+  async rotateRefreshToken(refreshToken: string, payload: TokenPayload, context: SessionContext = {}): Promise<TokenPair> {
+    const stored = await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(refreshToken) },
+      include: { session: true },
+    });
+
+    const now = new Date();
+    if (!stored || stored.session.userId !== payload.userId) {
+      logger.warn('Token refresh failed - unknown refresh token', { userId: payload.userId });
+      throw this.invalidRefreshToken();
+    }
+
+    const { session } = stored;
+    if (session.revokedAt || session.expiresAt <= now) {
+      logger.warn('Token refresh failed - session revoked or expired', { userId: payload.userId, sessionId: session.id });
+      throw this.invalidRefreshToken();
+    }
+
+    // Marking the token as rotated only if it still isn't makes it single-use, even for concurrent requests
+    const claimed = stored.rotatedAt
+      ? { count: 0 }
+      : await this.prisma.refreshToken.updateMany({
+        where: { id: stored.id, rotatedAt: null },
+        data: { rotatedAt: now },
+      });
+
+    if (claimed.count === 0) {
+      await this.revoke(session.id, 'token_reuse');
+      logger.warn('Refresh token reuse detected - session revoked', { userId: payload.userId, sessionId: session.id });
+      throw this.invalidRefreshToken();
+    }
+
+    // Tokens keep the two-factor status of the login that started the session
+    const tokens = generateTokenPair({ ...payload, sessionId: session.id, twoFactorVerified: session.twoFactorVerified });
+    const expiresAt = this.getRefreshTokenExpiration(tokens.refreshToken);
+
+    await this.prisma.$transaction([
+      this.prisma.refreshToken.create({
+        data: { sessionId: session.id, tokenHash: hashToken(tokens.refreshToken), expiresAt },
+      }),
+      this.prisma.userSession.update({
+        where: { id: session.id },
+        data: {
+          lastUsedAt: now,
+          expiresAt,
+          ...(context.ip_address && { ipAddress: context.ip_address }),
+        },
+      }),
+    ]);
+
+    return tokens;
+  }
+
+  /**
+   * Lists the active sessions of a user, most recently used first
+   *
+   * @param {string} userId - ID of the user
+   * @returns {Promise<UserSession[]>} Sessions that are neither revoked nor expired
+   */
+  async listSessions(userId: string): Promise<UserSession[]> {
+    const sessions = await this.prisma.userSession.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    return sessions.map((session) => ({
+      id: session.id,
+      user_id: session.userId,
+      device_name: session.deviceName,
+      ip_address: session.ipAddress,
+      created_at: session.createdAt,
+      last_used_at: session.lastUsedAt,
+      expires_at: session.expiresAt,
+    }));
+  }
+
+  /**
+   * Revokes one of the user's sessions, signing that device out
+   *
+   * @param {string} userId - ID of the user
+   * @param {string} sessionId - ID of the session to revoke
+   * @param {SessionRevocationReason} [reason='signed_out'] - Why the session is revoked
+   * @returns {Promise<void>}
+   * @throws {AppError} When the user has no active session with this ID
+   */
+  async revokeSession(userId: string, sessionId: string, reason: SessionRevocationReason = 'signed_out'): Promise<void> {
+    const result = await this.prisma.userSession.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    if (result.count === 0) {
+      throw new AppError('Session not found', HttpStatus.NOT_FOUND, ErrorCodes.NOT_FOUND);
+    }
+
+    logger.info('Session revoked', { userId, sessionId, reason });
+  }
+
+  /**
+   * Records that a session passed two-factor authentication, after the user enabled it from that
+   * session. Access tokens issued by the next refresh carry the `mfa` claim.
+   *
+   * @param {string} userId - ID of the user
+   * @param {string} sessionId - ID of the session
+   * @returns {Promise<void>}
+   */
+  async markTwoFactorVerified(userId: string, sessionId: string): Promise<void> {
+    await this.prisma.userSession.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { twoFactorVerified: true },
+    });
+  }
+
+  /**
+   * Ends the session a refresh token belongs to, on logout
+   *
+   * @param {string} refreshToken - A refresh token of the session
+   * @param {string} userId - ID of the user logging out
+   * @returns {Promise<boolean>} Whether the token belongs to a session of the user that is now revoked
+   * @throws {Error} Does not throw - errors are logged and false is returned, so logout never fails
+   */
+  async endSessionByRefreshToken(refreshToken: string, userId: string): Promise<boolean> {
+    try {
+      const stored = await this.prisma.refreshToken.findUnique({
+        where: { tokenHash: hashToken(refreshToken) },
+        include: { session: true },
+      });
+
+      if (!stored || stored.session.userId !== userId) {
+        return false;
+      }
+
+      if (!stored.session.revokedAt) {
+        await this.revoke(stored.sessionId, 'logout');
+        logger.info('Session revoked', { userId, sessionId: stored.sessionId, reason: 'logout' });
+      }
+      return true;
+    } catch (error) {
+      logger.error('Error ending session', { error, userId });
+      return false;
+    }
+  }
+
+  /**
+   * Removes expired sessions with their refresh tokens, for maintenance
+   *
+   * @returns {Promise<number>} Number of sessions removed
+   */
+  async cleanupExpiredSessions(): Promise<number> {
+    const result = await this.prisma.userSession.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+
+    return result.count;
+  }
+
+  private async revoke(sessionId: string, reason: SessionRevocationReason): Promise<void> {
+    await this.prisma.userSession.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+  }
+
+  private getRefreshTokenExpiration(refreshToken: string): Date {
+    return getTokenExpiration(refreshToken) ?? new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+  }
+
+  private invalidRefreshToken(): AppError {
+    return new AppError('Invalid refresh token', HttpStatus.UNAUTHORIZED, ErrorCodes.AUTHENTICATION_ERROR);
+  }
+}
+
+/**
+ * Names a device after its user agent, such as "Chrome on Windows", for devices that do not
+ * send a name of their own
+ *
+ * @param {string} [userAgent] - User-Agent header of the request
+ * @returns {string | null} A readable device name, or null without a user agent
+ */
+export const describeUserAgent = (userAgent?: string): string | null => {
+  if (!userAgent) {
+    return null;
+  }
+
+  const browsers: [RegExp, string][] = [
+    [/Edg\//, 'Edge'],
+    [/OPR\//, 'Opera'],
+    [/Firefox\//, 'Firefox'],
+    [/Chrome\//, 'Chrome'],
+    [/Safari\//, 'Safari'],
+  ];
+  const systems: [RegExp, string][] = [
+    [/Windows/, 'Windows'],
+    [/Android/, 'Android'],
+    [/iPhone|iPad/, 'iOS'],
+    [/Mac OS X/, 'macOS'],
+    [/Linux/, 'Linux'],
+  ];
+
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && system) return `${browser} on ${system}`;
+  return browser ?? system ?? userAgent.slice(0, 100);
+};
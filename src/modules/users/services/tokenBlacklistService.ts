@@ -5,6 +5,10 @@
  * 
  * Manages revoked JWT refresh tokens to prevent reuse after logout and provides automated cleanup functionality.
  * 
+ * Refresh tokens issued with a session (see SessionService) are revoked by revoking their session. This
+ * blacklist covers refresh tokens issued before sessions existed, which carry no session ID, and stores
+ * only a SHA-256 hash of each token, never the raw JWT.
+ * 
  * This service acts as the core security component for JWT refresh token management in the authentication system.
  * It provides secure token revocation functionality by maintaining a persistent blacklist of revoked refresh tokens in the database.
  * When users log out, their refresh tokens are added to this blacklist to prevent unauthorized reuse. The service integrates
@@ -25,6 +29,7 @@
  * 
  * Main service class providing token revocation and validation functionality.
  * Adds a refresh token to the blacklist to prevent reuse.
+ * Atomically revokes a refresh token being exchanged for a session.
  * Checks if a refresh token has been revoked/blacklisted.
  * Removes expired tokens from blacklist for maintenance.
  * 
@@ -37,7 +42,7 @@
 
 import { PrismaClient } from '@prisma/client';
 import { logger } from '@/shared/utils/logger';
-import { getTokenExpiration } from '@/shared/utils/auth';
+import { getTokenExpiration, hashToken } from '@/shared/utils/auth';
 
 /**
  * TokenBlacklistService - Secure JWT refresh token revocation and management
@@ -82,8 +87,8 @@ export class TokenBlacklistService {
    * @returns {Promise<void>} Promise that resolves when token is successfully blacklisted
    * @throws {Error} Does not throw - errors are logged and handled gracefully to prevent logout failures
    * 
-   * This method extracts the expiration time from the JWT token and stores it in the
-   * revoked_tokens table. If the token format is invalid or database operation fails, the error
+   * This method extracts the expiration time from the JWT token and stores it, with a hash of the
+   * token, in the revoked_tokens table. If the token format is invalid or database operation fails, the error
    * is logged but not thrown to ensure logout operations don't fail. The token expiration is
    * stored to enable efficient cleanup of expired blacklisted tokens.
    * 
@@ -103,10 +108,10 @@ export class TokenBlacklistService {
         return;
       }
 
-      // Store token in blacklist
+      // Store token hash in blacklist
       await this.prisma.revokedToken.create({
         data: {
-          token,
+          tokenHash: hashToken(token),
           userId,
           expiresAt
         }
@@ -119,6 +124,53 @@ export class TokenBlacklistService {
     }
   }
 
+  /**
+   * Revokes a refresh token unless it is already revoked, atomically
+   * 
+   * @param {string} token - The JWT refresh token to consume
+   * @param {string} userId - The unique identifier of the user who owns the token
+   * @returns {Promise<boolean>} Promise resolving to true if this call revoked the token, false if it was already revoked or the revocation failed
+   * @throws {Error} Does not throw - errors are logged and method returns false for fail-safe behavior
+   * 
+   * Used when a refresh token issued before sessions existed is exchanged for a session. The revocation
+   * relies on the unique token hash of the revoked_tokens table, so when the same token is presented by
+   * concurrent requests only one insert succeeds, and only that request may issue new tokens. Checking
+   * `isTokenRevoked` before `revokeToken` would let both requests through.
+   * 
+   * @example
+   * ```typescript
+   * // Called during token refresh
+   * if (!(await tokenBlacklistService.consumeToken(refreshToken, userId))) {
+   *   throw new AppError('Invalid refresh token', 401, 'AUTHENTICATION_ERROR');
+   * }
+   * // This request owns the token and can issue a new session
+   * ```
+   */
+  async consumeToken(token: string, userId: string): Promise<boolean> {
+    try {
+      const expiresAt = getTokenExpiration(token);
+      if (!expiresAt) {
+        logger.warn('Failed to consume token - invalid token format', { userId });
+        return false;
+      }
+
+      await this.prisma.revokedToken.create({
+        data: {
+          tokenHash: hashToken(token),
+          userId,
+          expiresAt
+        }
+      });
+
+      return true;
+    } catch (error: any) {
+      if (error.code !== 'P2002') {
+        logger.error('Error consuming token - failing safe by assuming token is revoked', { error, userId });
+      }
+      return false;
+    }
+  }
+
   /**
    * Checks if a refresh token has been revoked and is present in the blacklist
    * 
@@ -145,7 +197,7 @@ export class TokenBlacklistService {
   async isTokenRevoked(token: string): Promise<boolean> {
     try {
       const revokedToken = await this.prisma.revokedToken.findUnique({
-        where: { token }
+        where: { tokenHash: hashToken(token) }
       });
 
       return !!revokedToken;
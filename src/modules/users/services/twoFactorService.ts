@@ -0,0 +1,387 @@
+// src/modules/users/services/twoFactorService.ts
+
+/**
+ * Two-Factor Service - TOTP two-factor authentication with recovery codes
+ *
+ * Lets users protect their account with a second factor: a 6 digit code from an authenticator app
+ * (TOTP, RFC 6238). Enrollment takes two steps, so a mistyped secret cannot lock anyone out:
+ *
+ * - the user starts enrollment and receives a new secret and its `otpauth://` URI, which the client
+ *   shows as a QR code;
+ * - the user confirms with a first code from the app, which enables two-factor authentication and
+ *   returns single-use recovery codes for when the app is lost.
+ *
+ * Once enabled, a correct password no longer signs the user in: login returns a short-lived
+ * two-factor token that must be exchanged together with a code from the app or a recovery code.
+ * The token is invalidated after `TWO_FACTOR_LOGIN_MAX_ATTEMPTS` wrong codes, so codes cannot be
+ * guessed with it, and the user has to sign in with the password again.
+ * Secrets are stored encrypted, recovery codes as SHA-256 hashes, and each code can be used once:
+ * accepted TOTP codes move the last used time step forward and recovery codes are marked as used.
+ *
+ * Roles that include a permission of `TWO_FACTOR_PERMISSIONS` can be required to use two-factor
+ * authentication with `REQUIRE_2FA_FOR_PRIVILEGED_ROLES=true`; users with these roles cannot
+ * disable it while the policy is enabled.
+ *
+ * @module TwoFactorService
+ * @category Services
+ * @category Users
+ * @category Auth
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ */
+
+import { randomBytes } from 'crypto';
+import { Prisma, PrismaClient, UserTwoFactor } from '@prisma/client';
+import { AuthTokenService } from './authTokenService';
+import { TwoFactorChallenge, TwoFactorEnrollment, TwoFactorStatus } from '../types';
+import { AppError } from '@/shared/middleware/errorHandler';
+import { isTwoFactorRequired } from '@/shared/middleware/auth';
+import { ErrorCodes, HttpStatus, UserRole } from '@/shared/types';
+import { hashToken } from '@/shared/utils/auth';
+import { logger } from '@/shared/utils/logger';
+import {
+  base32Encode,
+  buildOtpauthUri,
+  decryptTotpSecret,
+  encryptTotpSecret,
+  generateTotpSecret,
+  verifyTotp
+} from '@/shared/utils/totp';
+
+/** Lifetime of the two-factor token returned by a password login (5 minutes) */
+export const TWO_FACTOR_LOGIN_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+/** Number of wrong codes after which the two-factor token of a login is invalidated */
+export const TWO_FACTOR_LOGIN_MAX_ATTEMPTS = 5;
+
+/** Number of recovery codes issued at a time */
+export const RECOVERY_CODE_COUNT = 10;
+
+const ISSUER = 'WayrApp';
+
+/**
+ * TwoFactorService - Business logic for TOTP enrollment, verification and recovery codes
+ *
+ * @class TwoFactorService
+ * @example
+ * ```typescript
+ * const twoFactorService = new TwoFactorService(prisma, authTokenService);
+ *
+ * // Enrollment
+ * const { otpauth_url } = await twoFactorService.startEnrollment(userId, 'user@example.com');
+ * const recoveryCodes = await twoFactorService.confirmEnrollment(userId, '123456');
+ *
+ * // Login
+ * const challenge = await twoFactorService.createLoginChallenge(userId);
+ * const verifiedUserId = await twoFactorService.completeLoginChallenge(challenge.two_factor_token, '654321');
+ * ```
+ */
+export class TwoFactorService {
+  /**
+   * Creates a new TwoFactorService instance
+   *
+   * @param {PrismaClient} prisma - Prisma client instance for two-factor settings storage
+   * @param {AuthTokenService} authTokenService - Service issuing the two-factor tokens of pending logins
+   * @param {string} [encryptionKey] - Key TOTP secrets are encrypted with
+   */
+  constructor(
+    private prisma: PrismaClient,
+    private authTokenService: AuthTokenService,
+    private encryptionKey: string | undefined = process.env['TWO_FACTOR_ENCRYPTION_KEY'] || process.env['JWT_SECRET']
+  ) { }
+
+  /**
+   * Returns the two-factor authentication settings of a user
+   *
+   * @param {string} userId - ID of the user
+   * @returns {Promise<TwoFactorStatus>} Whether two-factor authentication is enabled and how many recovery codes are left
+   */
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const twoFactor = await this.prisma.userTwoFactor.findUnique({
+      where: { userId },
+      include: { _count: { select: { recoveryCodes: { where: { usedAt: null } } } } }
+    });
+
+    return {
+      enabled: Boolean(twoFactor?.enabledAt),
+      enabled_at: twoFactor?.enabledAt ?? null,
+      recovery_codes_remaining: twoFactor?.enabledAt ? twoFactor._count.recoveryCodes : 0
+    };
+  }
+
+  /**
+   * Whether a user has two-factor authentication enabled
+   *
+   * @param {string} userId - ID of the user
+   * @returns {Promise<boolean>} True when logins of the user need a second factor
+   */
+  async isEnabled(userId: string): Promise<boolean> {
+    const twoFactor = await this.prisma.userTwoFactor.findUnique({
+      where: { userId },
+      select: { enabledAt: true }
+    });
+
+    return Boolean(twoFactor?.enabledAt);
+  }
+
+  /**
+   * Starts enrollment with a new secret, replacing any enrollment that was not confirmed
+   *
+   * @param {string} userId - ID of the user
+   * @param {string} accountName - Name of the account in the authenticator app, usually the email
+   * @returns {Promise<TwoFactorEnrollment>} The secret and its `otpauth://` URI
+   * @throws {AppError} When two-factor authentication is already enabled
+   */
+  async startEnrollment(userId: string, accountName: string): Promise<TwoFactorEnrollment> {
+    if (await this.isEnabled(userId)) {
+      throw new AppError('Two-factor authentication is already enabled', HttpStatus.CONFLICT, ErrorCodes.CONFLICT);
+    }
+
+    const secret = generateTotpSecret();
+    const encrypted = encryptTotpSecret(secret, this.getEncryptionKey());
+
+    await this.prisma.userTwoFactor.upsert({
+      where: { userId },
+      create: { userId, secret: encrypted },
+      update: { secret: encrypted, enabledAt: null, lastUsedStep: null }
+    });
+
+    logger.info('Two-factor enrollment started', { userId });
+    return {
+      secret,
+      otpauth_url: buildOtpauthUri({ secret, accountName, issuer: ISSUER })
+    };
+  }
+
+  /**
+   * Confirms enrollment with a first code from the authenticator app and enables two-factor authentication
+   *
+   * @param {string} userId - ID of the user
+   * @param {string} code - Current code of the authenticator app
+   * @returns {Promise<string[]>} New recovery codes, to be shown to the user once. They are not stored and cannot be recovered.
+   * @throws {AppError} When enrollment was not started, is already confirmed, or the code is wrong
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const twoFactor = await this.prisma.userTwoFactor.findUnique({ where: { userId } });
+    if (!twoFactor) {
+      throw new AppError('Two-factor enrollment has not been started', HttpStatus.BAD_REQUEST, ErrorCodes.VALIDATION_ERROR);
+    }
+    if (twoFactor.enabledAt) {
+      throw new AppError('Two-factor authentication is already enabled', HttpStatus.CONFLICT, ErrorCodes.CONFLICT);
+    }
+
+    if (!(await this.claimTotpCode(twoFactor, code))) {
+      throw this.invalidCode();
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await this.prisma.$transaction([
+      this.prisma.userTwoFactor.update({
+        where: { userId },
+        data: { enabledAt: new Date() }
+      }),
+      ...this.replaceRecoveryCodes(userId, recoveryCodes)
+    ]);
+
+    logger.info('Two-factor authentication enabled', { userId });
+    return recoveryCodes;
+  }
+
+  /**
+   * Replaces the recovery codes of a user, invalidating the previous ones
+   *
+   * @param {string} userId - ID of the user
+   * @param {string} code - Current code of the authenticator app, or an unused recovery code
+   * @returns {Promise<string[]>} The new recovery codes
+   * @throws {AppError} When two-factor authentication is not enabled or the code is wrong
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    await this.verifyEnabledUserCode(userId, code);
+
+    const recoveryCodes = generateRecoveryCodes();
+    await this.prisma.$transaction(this.replaceRecoveryCodes(userId, recoveryCodes));
+
+    logger.info('Two-factor recovery codes regenerated', { userId });
+    return recoveryCodes;
+  }
+
+  /**
+   * Disables two-factor authentication, removing the secret and recovery codes
+   *
+   * @param {string} userId - ID of the user
+   * @param {UserRole} role - Role of the user
+   * @param {string} code - Current code of the authenticator app, or an unused recovery code
+   * @returns {Promise<void>}
+   * @throws {AppError} When the role requires two-factor authentication, it is not enabled, or the code is wrong
+   */
+  async disable(userId: string, role: UserRole, code: string): Promise<void> {
+    if (isTwoFactorRequired(role)) {
+      throw new AppError(
+        'Two-factor authentication is required for your role',
+        HttpStatus.FORBIDDEN,
+        ErrorCodes.AUTHORIZATION_ERROR
+      );
+    }
+
+    await this.verifyEnabledUserCode(userId, code);
+    await this.prisma.userTwoFactor.delete({ where: { userId } });
+
+    logger.info('Two-factor authentication disabled', { userId });
+  }
+
+  /**
+   * Starts the second step of a login for a user with two-factor authentication enabled
+   *
+   * @param {string} userId - ID of the user whose password was verified
+   * @returns {Promise<TwoFactorChallenge>} The two-factor token the client must send back with a code
+   */
+  async createLoginChallenge(userId: string): Promise<TwoFactorChallenge> {
+    const token = await this.authTokenService.issueToken(userId, 'two_factor_login', TWO_FACTOR_LOGIN_TOKEN_TTL_MS);
+
+    return {
+      two_factor_required: true,
+      two_factor_token: token,
+      expires_in: TWO_FACTOR_LOGIN_TOKEN_TTL_MS / 1000
+    };
+  }
+
+  /**
+   * Completes a login with the two-factor token it returned and a code. The token is redeemed in the
+   * same transaction that checks the code, before a recovery code is used up: concurrent attempts with
+   * the same token wait for each other and only one can succeed, and a wrong code rolls the redemption
+   * back and counts as a failed attempt. The token is invalidated after `TWO_FACTOR_LOGIN_MAX_ATTEMPTS`
+   * wrong codes.
+   *
+   * @param {string} token - Two-factor token returned by the login
+   * @param {string} code - Current code of the authenticator app, or an unused recovery code
+   * @returns {Promise<string>} The ID of the user signing in
+   * @throws {AppError} When the token is invalid, expired, already used or invalidated, or the code is wrong
+   */
+  async completeLoginChallenge(token: string, code: string): Promise<string> {
+    const invalidCode = new AppError('Invalid two-factor code', HttpStatus.UNAUTHORIZED, ErrorCodes.AUTHENTICATION_ERROR);
+    let userId: string | null = null;
+
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        userId = await this.authTokenService.consumeToken(token, 'two_factor_login', tx);
+        if (!userId) {
+          throw this.invalidLoginToken();
+        }
+
+        const twoFactor = await tx.userTwoFactor.findUnique({ where: { userId } });
+        if (!twoFactor?.enabledAt || !(await this.verifyCode(twoFactor, code, tx))) {
+          throw invalidCode;
+        }
+
+        return userId;
+      });
+    } catch (error) {
+      if (error === invalidCode) {
+        const invalidated = await this.authTokenService.recordFailedAttempt(
+          token,
+          'two_factor_login',
+          TWO_FACTOR_LOGIN_MAX_ATTEMPTS
+        );
+        logger.warn('Two-factor login failed - invalid code', { userId, tokenInvalidated: invalidated });
+      }
+      throw error;
+    }
+  }
+
+  private async verifyEnabledUserCode(userId: string, code: string): Promise<void> {
+    const twoFactor = await this.prisma.userTwoFactor.findUnique({ where: { userId } });
+    if (!twoFactor?.enabledAt) {
+      throw new AppError('Two-factor authentication is not enabled', HttpStatus.BAD_REQUEST, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    if (!(await this.verifyCode(twoFactor, code))) {
+      throw this.invalidCode();
+    }
+  }
+
+  /**
+   * Accepts either a TOTP code or a recovery code, using it up
+   */
+  private async verifyCode(
+    twoFactor: UserTwoFactor,
+    code: string,
+    client: Prisma.TransactionClient = this.prisma
+  ): Promise<boolean> {
+    const compact = code.replace(/[\s-]/g, '');
+
+    if (/^\d{6}$/.test(compact)) {
+      return this.claimTotpCode(twoFactor, compact, client);
+    }
+
+    const { count } = await client.twoFactorRecoveryCode.updateMany({
+      where: { userId: twoFactor.userId, codeHash: hashRecoveryCode(compact), usedAt: null },
+      data: { usedAt: new Date() }
+    });
+
+    if (count > 0) {
+      logger.info('Two-factor recovery code used', { userId: twoFactor.userId });
+    }
+    return count > 0;
+  }
+
+  /**
+   * Checks a TOTP code and records its time step, so the same code cannot be used twice
+   */
+  private async claimTotpCode(
+    twoFactor: UserTwoFactor,
+    code: string,
+    client: Prisma.TransactionClient = this.prisma
+  ): Promise<boolean> {
+    const secret = decryptTotpSecret(twoFactor.secret, this.getEncryptionKey());
+    const step = verifyTotp(secret, code.replace(/\s/g, ''));
+    if (step === null) {
+      return false;
+    }
+
+    const { count } = await client.userTwoFactor.updateMany({
+      where: {
+        userId: twoFactor.userId,
+        OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }]
+      },
+      data: { lastUsedStep: step }
+    });
+
+    return count > 0;
+  }
+
+  private replaceRecoveryCodes(userId: string, recoveryCodes: string[]) {
+    return [
+      this.prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      this.prisma.twoFactorRecoveryCode.createMany({
+        data: recoveryCodes.map((recoveryCode) => ({ userId, codeHash: hashRecoveryCode(recoveryCode) }))
+      })
+    ];
+  }
+
+  private getEncryptionKey(): string {
+    if (!this.encryptionKey) {
+      logger.error('TWO_FACTOR_ENCRYPTION_KEY environment variable not set');
+      throw new AppError('Two-factor configuration error', HttpStatus.INTERNAL_SERVER_ERROR, ErrorCodes.INTERNAL_ERROR);
+    }
+    return this.encryptionKey;
+  }
+
+  private invalidCode(): AppError {
+    return new AppError('Invalid two-factor code', HttpStatus.BAD_REQUEST, ErrorCodes.VALIDATION_ERROR);
+  }
+
+  private invalidLoginToken(): AppError {
+    return new AppError('Invalid or expired two-factor token', HttpStatus.UNAUTHORIZED, ErrorCodes.AUTHENTICATION_ERROR);
+  }
+}
+
+/**
+ * Recovery codes are 10 base32 characters, shown as two groups of five such as `K7QPM-2XWZD`
+ */
+const generateRecoveryCodes = (): string[] =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(randomBytes(7)).slice(0, 10);
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+const hashRecoveryCode = (code: string): string => hashToken(code.replace(/[\s-]/g, '').toUpperCase());
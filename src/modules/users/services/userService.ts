@@ -561,6 +561,7 @@ export class UserService {
       country_code: user.country_code ?? '', // Same here.
       registration_date: user.registration_date,
       profile_picture_url: user.profile_picture_url ?? '', // And here.
+      timezone: user.timezone ?? 'UTC',
       is_active: user.is_active,
       role: user.role,
       created_at: user.created_at,
@@ -5,6 +5,7 @@
 
 import { z } from "zod";
 import { UserRole } from "@/shared/types";
+import { isValidTimeZone } from "@/shared/utils/timezone";
 
 // User model interface
 export interface User {
@@ -14,13 +15,98 @@ export interface User {
   country_code?: string | null | undefined;
   registration_date: Date;
   last_login_date?: Date | null | undefined;
+  email_verified_at?: Date | null | undefined;
+  password_changed_at?: Date | null | undefined;
   profile_picture_url?: string | null | undefined;
+  timezone?: string | undefined;
   is_active: boolean;
   role: string;
   created_at: Date;
   updated_at: Date;
 }
 
+// Follow counts shown on user profiles
+export interface FollowCounts {
+  followers_count: number;
+  following_count: number;
+}
+
+// Relationship between the viewing user and another user
+export interface UserRelationship {
+  is_following: boolean;
+  is_followed_by: boolean;
+  is_blocked: boolean;
+  is_muted: boolean;
+}
+
+// Public profile visible to any authenticated user
+export interface PublicUserProfile extends FollowCounts {
+  id: string;
+  username?: string | null | undefined;
+  country_code?: string | null | undefined;
+  profile_picture_url?: string | null | undefined;
+  registration_date: Date;
+  relationship?: UserRelationship | undefined;
+}
+
+// Entry in follower and following lists
+export interface FollowListUser {
+  id: string;
+  username?: string | null | undefined;
+  country_code?: string | null | undefined;
+  profile_picture_url?: string | null | undefined;
+  followed_at: Date;
+}
+
+// Account at an external OpenID Connect provider linked to a user
+export interface UserIdentity {
+  id: string;
+  user_id: string;
+  provider: string;
+  subject: string;
+  email?: string | null | undefined;
+  created_at: Date;
+  last_login_at?: Date | null | undefined;
+}
+
+// Signed-in device holding a refresh token family
+export interface UserSession {
+  id: string;
+  user_id: string;
+  device_name?: string | null | undefined;
+  ip_address?: string | null | undefined;
+  created_at: Date;
+  last_used_at: Date;
+  expires_at: Date;
+}
+
+// Where a session is signed in from
+export interface SessionContext {
+  device_name?: string | undefined;
+  ip_address?: string | undefined;
+  user_agent?: string | undefined;
+}
+
+// Two-factor authentication settings of a user
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabled_at: Date | null;
+  recovery_codes_remaining: number;
+}
+
+// Secret shared with the authenticator app when enrolling in two-factor authentication
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauth_url: string;
+}
+
+// Returned by a login that still needs a two-factor code
+export interface TwoFactorChallenge {
+  two_factor_required: true;
+  two_factor_token: string;
+  expires_in: number;
+}
+
 // DTOs (Data Transfer Objects)
 export interface CreateUserDto {
   email: string;
@@ -30,10 +116,17 @@ export interface CreateUserDto {
   role?: UserRole;
 }
 
+export interface CreateUserIdentityDto {
+  provider: string;
+  subject: string;
+  email?: string | null | undefined;
+}
+
 export interface UpdateUserDto {
   username?: string;
   country_code?: string;
   profile_picture_url?: string;
+  timezone?: string;
   is_active?: boolean;
   role?: string;
 }
@@ -72,6 +165,11 @@ export const UpdateUserSchema = z.object({
     .length(2, "Country code must be 2 characters")
     .optional(),
   profile_picture_url: z.string().url("Invalid URL format").optional(),
+  timezone: z
+    .string()
+    .max(64, "Timezone too long")
+    .refine(isValidTimeZone, "Invalid IANA timezone")
+    .optional(),
 });
 
 export const UpdatePasswordSchema = z.object({
@@ -92,11 +190,16 @@ export const UpdateRoleSchema = z.object({
   role: z.enum(["student", "content_creator", "admin"]),
 });
 
+export const UserIdParamSchema = z.object({
+  id: z.string().uuid("Invalid user ID format"),
+});
+
 // Whitelist DTO for profile updates (security hardening)
 export type AllowedProfileUpdateDto = {
   username?: string;
   country_code?: string;
   profile_picture_url?: string;
+  timezone?: string;
 };
 
 // Export types for Zod schemas
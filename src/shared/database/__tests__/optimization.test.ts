@@ -55,6 +55,27 @@ jest.mock('@/modules/users/services/tokenBlacklistService', () => ({
   })),
 }));
 
+// Mock the AuthTokenService
+jest.mock('@/modules/users/services/authTokenService', () => ({
+  AuthTokenService: jest.fn().mockImplementation(() => ({
+    cleanupExpiredTokens: jest.fn(),
+  })),
+}));
+
+// Mock the SessionService
+jest.mock('@/modules/users/services/sessionService', () => ({
+  SessionService: jest.fn().mockImplementation(() => ({
+    cleanupExpiredSessions: jest.fn(),
+  })),
+}));
+
+// Mock the TrashService
+jest.mock('@/modules/content/services/TrashService', () => ({
+  TrashService: jest.fn().mockImplementation(() => ({
+    purgeExpired: jest.fn(),
+  })),
+}));
+
 /**
  * Mock Prisma Client for Database Optimization Tests
  * 
@@ -72,6 +93,7 @@ jest.mock('@/modules/users/services/tokenBlacklistService', () => ({
  * - `course`: Educational content creation and updates
  * - `revokedToken`: Authentication token cleanup operations
  * - `lessonCompletion`: Learning progress data management
+ * - `oidcLoginState`: Expired social login cleanup
  */
 const mockPrisma = {
   $executeRawUnsafe: jest.fn(),
@@ -88,6 +110,9 @@ const mockPrisma = {
   lessonCompletion: {
     deleteMany: jest.fn(),
   },
+  oidcLoginState: {
+    deleteMany: jest.fn(),
+  },
 } as unknown as PrismaClient;
 
 // Mock the logger to prevent actual logging during tests
@@ -350,14 +375,27 @@ describe('DatabaseOptimizer', () => {
       // Mock the TokenBlacklistService cleanup method
       const mockTokenBlacklistService = (optimizer as any).tokenBlacklistService;
       mockTokenBlacklistService.cleanupExpiredTokens.mockResolvedValue(mockCleanedTokensCount);
+      const mockAuthTokenService = (optimizer as any).authTokenService;
+      mockAuthTokenService.cleanupExpiredTokens.mockResolvedValue(2);
+      const mockSessionService = (optimizer as any).sessionService;
+      mockSessionService.cleanupExpiredSessions.mockResolvedValue(3);
+      const mockTrashService = (optimizer as any).trashService;
+      mockTrashService.purgeExpired.mockResolvedValue(4);
 
       (mockPrisma.lessonCompletion.deleteMany as jest.Mock).mockResolvedValue(mockOldCompletionsResult);
+      (mockPrisma.oidcLoginState.deleteMany as jest.Mock).mockResolvedValue({ count: 1 });
       (mockPrisma.$executeRaw as jest.Mock).mockResolvedValue(undefined);
 
       await optimizer.cleanupExpiredData();
 
       // Verify that the TokenBlacklistService cleanup method was called
       expect(mockTokenBlacklistService.cleanupExpiredTokens).toHaveBeenCalled();
+      expect(mockAuthTokenService.cleanupExpiredTokens).toHaveBeenCalled();
+      expect(mockSessionService.cleanupExpiredSessions).toHaveBeenCalled();
+      expect(mockTrashService.purgeExpired).toHaveBeenCalled();
+      expect(mockPrisma.oidcLoginState.deleteMany).toHaveBeenCalledWith({
+        where: { expiresAt: { lt: expect.any(Date) } },
+      });
 
       expect(mockPrisma.lessonCompletion.deleteMany).toHaveBeenCalledWith({
         where: {
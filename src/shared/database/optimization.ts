@@ -80,6 +80,9 @@
 import { PrismaClient } from '@prisma/client';
 import { logger } from '@/shared/utils/logger';
 import { TokenBlacklistService } from '@/modules/users/services/tokenBlacklistService';
+import { AuthTokenService } from '@/modules/users/services/authTokenService';
+import { SessionService } from '@/modules/users/services/sessionService';
+import { TrashService } from '@/modules/content/services/TrashService';
 
 /**
  * Database Optimizer for Sovereign WayrApp Nodes
@@ -96,9 +99,15 @@ import { TokenBlacklistService } from '@/modules/users/services/tokenBlacklistSe
  */
 export class DatabaseOptimizer {
   private tokenBlacklistService: TokenBlacklistService;
+  private authTokenService: AuthTokenService;
+  private sessionService: SessionService;
+  private trashService: TrashService;
 
   constructor(private prisma: PrismaClient) {
     this.tokenBlacklistService = new TokenBlacklistService(this.prisma);
+    this.authTokenService = new AuthTokenService(this.prisma);
+    this.sessionService = new SessionService(this.prisma);
+    this.trashService = new TrashService(this.prisma);
   }
 
   /**
@@ -356,6 +365,7 @@ export class DatabaseOptimizer {
    * **Automated Cleanup Tasks:**
    * - Expired authentication tokens (security and performance)
    * - Old lesson completion records (keeps recent progress intact)
+   * - Course content left in the trash past its retention window
    * - Temporary session data and cached content
    * - Database statistics updates for optimal query planning
    * 
@@ -379,6 +389,24 @@ export class DatabaseOptimizer {
       const cleanedTokensCount = await this.tokenBlacklistService.cleanupExpiredTokens();
       logger.info(`Token cleanup complete. Removed ${cleanedTokensCount} tokens.`);
 
+      // Clean up expired password reset and email verification tokens
+      const cleanedAuthTokensCount = await this.authTokenService.cleanupExpiredTokens();
+      logger.info(`Auth token cleanup complete. Removed ${cleanedAuthTokensCount} tokens.`);
+
+      // Clean up expired sessions together with their refresh tokens
+      const cleanedSessionsCount = await this.sessionService.cleanupExpiredSessions();
+      logger.info(`Session cleanup complete. Removed ${cleanedSessionsCount} sessions.`);
+
+      // Clean up social logins that were started but never completed
+      const expiredLoginStates = await this.prisma.oidcLoginState.deleteMany({
+        where: {
+          expiresAt: {
+            lt: new Date(),
+          },
+        },
+      });
+      logger.info(`Cleaned up ${expiredLoginStates.count} expired social login states`);
+
       // Clean up old lesson completions (older than 2 years) to keep table size manageable
       const twoYearsAgo = new Date();
       twoYearsAgo.setFullYear(twoYearsAgo.getFullYear() - 2);
@@ -393,6 +421,10 @@ export class DatabaseOptimizer {
 
       logger.info(`Cleaned up ${oldCompletions.count} old lesson completions`);
 
+      // Purge deleted content once it has been in the trash for the retention window
+      const purgedContentCount = await this.trashService.purgeExpired();
+      logger.info(`Trash purge complete. Removed ${purgedContentCount} content entities.`);
+
       // Update statistics after cleanup
       await this.prisma.$executeRaw`ANALYZE revoked_tokens, lesson_completions;`;
 
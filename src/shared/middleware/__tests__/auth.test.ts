@@ -54,6 +54,7 @@ import {
   optionalAuth,
   requireOwnership,
   PERMISSIONS,
+  isTwoFactorRequired,
 } from "../auth";
 import { ErrorCodes, HttpStatus } from "@/shared/types";
 import { mockRequest, mockResponse } from "@/shared/test/mocks";
@@ -671,6 +672,89 @@ describe("Authentication Middleware", () => {
     });
   });
 
+  /**
+   * Two-Factor Policy Tests
+   * 
+   * Tests the optional policy requiring two-factor authentication for privileged roles,
+   * those whose permissions include one of TWO_FACTOR_PERMISSIONS. With the policy enabled,
+   * requireRole and requirePermission reject users of these roles whose access token lacks
+   * the `mfa` claim.
+   * 
+   * @group Two-Factor Policy
+   */
+  describe("two-factor policy", () => {
+    const admin = {
+      sub: "550e8400-e29b-41d4-a716-446655440000",
+      email: "admin@example.com",
+      role: "admin" as const,
+      iat: 1234567890,
+      exp: 9999999999,
+    };
+    const twoFactorRequired = expect.objectContaining({
+      message: "Two-factor authentication required",
+      statusCode: HttpStatus.FORBIDDEN,
+      code: ErrorCodes.AUTHORIZATION_ERROR,
+    });
+
+    beforeEach(() => {
+      process.env["REQUIRE_2FA_FOR_PRIVILEGED_ROLES"] = "true";
+    });
+
+    afterEach(() => {
+      delete process.env["REQUIRE_2FA_FOR_PRIVILEGED_ROLES"];
+    });
+
+    it("should require two-factor authentication for roles with privileged permissions only", () => {
+      expect(isTwoFactorRequired("admin")).toBe(true);
+      expect(isTwoFactorRequired("content_creator")).toBe(false);
+      expect(isTwoFactorRequired("student")).toBe(false);
+    });
+
+    it("should not require two-factor authentication when the policy is disabled", () => {
+      delete process.env["REQUIRE_2FA_FOR_PRIVILEGED_ROLES"];
+      req.user = admin;
+
+      requireRole("admin")(req, res, next);
+
+      expect(isTwoFactorRequired("admin")).toBe(false);
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it("should deny role protected access to privileged users without two-factor authentication", () => {
+      req.user = admin;
+
+      requireRole(["admin", "content_creator"])(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(twoFactorRequired);
+    });
+
+    it("should deny permission protected access to privileged users without two-factor authentication", () => {
+      req.user = admin;
+
+      requirePermission("read:courses")(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(twoFactorRequired);
+    });
+
+    it("should allow privileged users who signed in with two-factor authentication", () => {
+      req.user = { ...admin, mfa: true };
+
+      requireRole("admin")(req, res, next);
+      requirePermission("manage:users")(req, res, next);
+
+      expect(next).toHaveBeenNthCalledWith(1);
+      expect(next).toHaveBeenNthCalledWith(2);
+    });
+
+    it("should not affect other roles", () => {
+      req.user = { ...admin, role: "content_creator" };
+
+      requirePermission("create:content")(req, res, next);
+
+      expect(next).toHaveBeenCalledWith();
+    });
+  });
+
   /**
    * Optional Authentication Middleware Tests
    * 
@@ -261,7 +261,7 @@ describe('Security Middleware', () => {
       expect(corsOptions.credentials).toBe(true);
       expect(corsOptions.optionsSuccessStatus).toBe(200);
       expect(corsOptions.methods).toEqual(['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS']);
-      expect(corsOptions.allowedHeaders).toEqual(['Content-Type', 'Authorization', 'X-Requested-With', 'Accept', 'Origin']);
+      expect(corsOptions.allowedHeaders).toEqual(['Content-Type', 'Authorization', 'X-Requested-With', 'Accept', 'Origin', 'X-Device-Name']);
       expect(corsOptions.exposedHeaders).toEqual(['X-Total-Count', 'X-Page-Count']);
     });
   });
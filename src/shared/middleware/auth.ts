@@ -105,6 +105,8 @@ declare global {
  * - sub (user ID) is a valid UUID string
  * - email is a properly formatted email address
  * - role is one of the expected UserRole enum values
+ * - sid (session ID), when present, is a valid UUID string
+ * - mfa (two-factor authentication passed), when present, is a boolean
  * - iat (issued at) is a positive number representing Unix timestamp
  * - exp (expiration) is a positive number representing Unix timestamp
  * 
@@ -117,6 +119,8 @@ const JWTPayloadSchema = z.object({
   role: z.enum(['student', 'content_creator', 'admin'], {
     errorMap: () => ({ message: 'Invalid role in token' })
   }),
+  sid: z.string().uuid('Invalid session ID format in token').optional(),
+  mfa: z.boolean().optional(),
   iat: z.number().positive('Invalid issued at timestamp in token'),
   exp: z.number().positive('Invalid expiration timestamp in token')
 });
@@ -261,7 +265,8 @@ export const authenticateToken = async (
  * @returns {Function} Express middleware function that validates user roles
  * 
  * @throws {AppError} UNAUTHORIZED (401) - When user is not authenticated
- * @throws {AppError} FORBIDDEN (403) - When user role is not in allowed roles
+ * @throws {AppError} FORBIDDEN (403) - When user role is not in allowed roles, or the role requires
+ * two-factor authentication and the user signed in without it
  * 
  * @example
  * // Admin-only endpoint
@@ -326,6 +331,8 @@ export const requireRole = (allowedRoles: UserRole | UserRole[]) => {
         );
       }
 
+      assertTwoFactor(req.user);
+
       logger.debug('Role authorization successful', {
         userId: req.user.sub,
         userRole,
@@ -401,6 +408,45 @@ export const PERMISSIONS = {
 
 export type Permission = typeof PERMISSIONS[UserRole][number];
 
+/**
+ * Permissions that make a role privileged enough to require two-factor authentication
+ * 
+ * When the `REQUIRE_2FA_FOR_PRIVILEGED_ROLES` environment variable is `true`, users whose role
+ * includes any of these permissions must sign in with a second factor before they can use
+ * endpoints protected by {@link requireRole} or {@link requirePermission}. With the default
+ * PERMISSIONS mapping this applies to admins.
+ */
+export const TWO_FACTOR_PERMISSIONS: readonly Permission[] = ['manage:users', 'delete:content'];
+
+/**
+ * Whether users with a role must use two-factor authentication
+ * 
+ * @param {UserRole} role - The user's role
+ * @returns {boolean} True when the policy is enabled and the role includes a permission of TWO_FACTOR_PERMISSIONS
+ */
+export const isTwoFactorRequired = (role: UserRole): boolean =>
+  process.env['REQUIRE_2FA_FOR_PRIVILEGED_ROLES'] === 'true' &&
+  (PERMISSIONS[role] as readonly Permission[]).some((permission) => TWO_FACTOR_PERMISSIONS.includes(permission));
+
+/**
+ * Rejects users who must use two-factor authentication but signed in without it
+ * @private
+ */
+const assertTwoFactor = (user: JWTPayload): void => {
+  if (isTwoFactorRequired(user.role) && !user.mfa) {
+    logger.warn('Access denied - two-factor authentication required', {
+      userId: user.sub,
+      userRole: user.role
+    });
+
+    throw new AppError(
+      'Two-factor authentication required',
+      HttpStatus.FORBIDDEN,
+      ErrorCodes.AUTHORIZATION_ERROR
+    );
+  }
+};
+
 /**
  * Permission-Based Authorization Middleware Factory
  * 
@@ -420,7 +466,8 @@ export type Permission = typeof PERMISSIONS[UserRole][number];
  * @returns {Function} Express middleware function that validates user permissions
  * 
  * @throws {AppError} UNAUTHORIZED (401) - When user is not authenticated
- * @throws {AppError} FORBIDDEN (403) - When user role does not include required permission
+ * @throws {AppError} FORBIDDEN (403) - When user role does not include required permission, or the role
+ * requires two-factor authentication and the user signed in without it
  * 
  * @example
  * // Require specific permission for content creation
@@ -482,6 +529,8 @@ export const requirePermission = (permission: Permission) => {
         );
       }
 
+      assertTwoFactor(req.user);
+
       logger.debug('Permission check successful', {
         userId: req.user.sub,
         userRole,
@@ -564,6 +564,10 @@ router.get('/health/database', async (_req, res) => {
  *                 configuration:
  *                   type: object
  *                   properties:
+ *                     driver:
+ *                       type: string
+ *                       enum: [memory, redis]
+ *                       example: "memory"
  *                     maxSize:
  *                       type: string
  *                       example: "1000"
@@ -597,6 +601,7 @@ router.get('/health/cache', async (_req, res) => {
       ...cacheHealth,
       detailed_stats: cacheStats,
       configuration: {
+        driver: cacheStats.backend,
         maxSize: process.env['CACHE_MAX_SIZE'] || '1000',
         defaultTTL: '5 minutes',
       },
@@ -252,6 +252,8 @@ describe('Common Schemas', () => {
       expect(ExerciseTypeSchema.parse('pairs')).toBe('pairs');
       expect(ExerciseTypeSchema.parse('informative')).toBe('informative');
       expect(ExerciseTypeSchema.parse('ordering')).toBe('ordering');
+      expect(ExerciseTypeSchema.parse('listening')).toBe('listening');
+      expect(ExerciseTypeSchema.parse('speaking')).toBe('speaking');
     });
 
     it('should reject invalid exercise type', () => {
@@ -0,0 +1,165 @@
+/**
+ * Exercise Data Schemas Tests
+ */
+import { ZodError } from 'zod';
+import {
+  ExerciseDataUnionSchema,
+  getExerciseDataSchema,
+  assertExerciseData,
+} from '../exercise.schemas';
+import { UpdateExerciseSchema } from '../../../modules/content/schemas';
+
+describe('Exercise Data Schemas', () => {
+  describe('ExerciseDataUnionSchema', () => {
+    it('should validate well-formed data for every exercise type', () => {
+      const validExercises = [
+        { exercise_type: 'translation', data: { source_text: 'Hello', target_text: 'Hola', hints: ['greeting'] } },
+        {
+          exercise_type: 'translation-word-bank',
+          data: { source_text: 'I eat', target_text: 'Yo como', correct_words: ['Yo', 'como'], word_bank: ['Yo', 'como', 'pan'] },
+        },
+        { exercise_type: 'fill-in-the-blank', data: { text: 'I ___ here', blanks: [{ position: 2, correct_answers: ['am'] }] } },
+        { exercise_type: 'vof', data: { statement: 'The sky is blue', is_true: true } },
+        { exercise_type: 'pairs', data: { pairs: [{ left: 'dog', right: 'perro' }, { left: 'cat', right: 'gato' }] } },
+        { exercise_type: 'informative', data: { content: 'Greetings', media: { type: 'image', url: 'https://example.com/a.png' } } },
+        { exercise_type: 'ordering', data: { items: [{ text: 'Hello', correct_order: 1 }, { text: 'world', correct_order: 2 }] } },
+        {
+          exercise_type: 'listening',
+          data: { audio: { media_id: '9b2d4e61-7a3c-4f58-8e1d-2c6b0a9f7e45' }, answer_mode: 'type', correct_answers: ['Buenos días'] },
+        },
+        { exercise_type: 'speaking', data: { prompt: 'Greet your teacher', expected_transcripts: ['Buenos días profesor'] } },
+      ];
+
+      validExercises.forEach(exercise => {
+        const result = ExerciseDataUnionSchema.safeParse(exercise);
+        expect(result.success).toBe(true);
+      });
+    });
+
+    it('should report field-level paths for invalid data', () => {
+      const result = ExerciseDataUnionSchema.safeParse({
+        exercise_type: 'pairs',
+        data: { pairs: [{ left: 'dog', right: 'perro' }, { left: 'cat', right: '' }] },
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0]?.path).toEqual(['data', 'pairs', 1, 'right']);
+      }
+    });
+
+    it('should reject word banks without distractors or missing correct words', () => {
+      const result = ExerciseDataUnionSchema.safeParse({
+        exercise_type: 'translation-word-bank',
+        data: { source_text: 'I eat', target_text: 'Yo como', correct_words: ['Yo', 'como'], word_bank: ['Yo', 'pan'] },
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues.map(issue => issue.message)).toEqual([
+          'Correct words not found in word bank: como',
+          'Word bank must include distractor words in addition to the correct words',
+        ]);
+      }
+    });
+
+    it('should accept informative media uploaded by ID and require a url or media_id', () => {
+      const uploaded = ExerciseDataUnionSchema.safeParse({
+        exercise_type: 'informative',
+        data: { content: 'Listen', media: { type: 'audio', media_id: '9b2d4e61-7a3c-4f58-8e1d-2c6b0a9f7e45' } },
+      });
+      const missing = ExerciseDataUnionSchema.safeParse({
+        exercise_type: 'informative',
+        data: { content: 'Listen', media: { type: 'audio' } },
+      });
+
+      expect(uploaded.success).toBe(true);
+      expect(missing.success).toBe(false);
+      if (!missing.success) {
+        expect(missing.error.issues[0]?.path).toEqual(['data', 'media', 'url']);
+      }
+    });
+
+    it('should require listening audio and options including a correct answer when choosing', () => {
+      const result = ExerciseDataUnionSchema.safeParse({
+        exercise_type: 'listening',
+        data: { audio: {}, answer_mode: 'choose', correct_answers: ['Buenos días'], options: ['Buenas noches', 'Hasta luego'] },
+      });
+      const withoutOptions = ExerciseDataUnionSchema.safeParse({
+        exercise_type: 'listening',
+        data: { audio: { url: 'https://example.com/a.mp3' }, answer_mode: 'choose', correct_answers: ['Buenos días'] },
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues.map(issue => [issue.path.join('.'), issue.message])).toEqual([
+          ['data.audio.url', 'Audio requires a url or an uploaded media_id'],
+          ['data.options', 'Options must include a correct answer'],
+        ]);
+      }
+      expect(withoutOptions.success).toBe(false);
+    });
+
+    it('should reject speaking min_accuracy outside 0.5 to 1', () => {
+      const result = ExerciseDataUnionSchema.safeParse({
+        exercise_type: 'speaking',
+        data: { prompt: 'Greet your teacher', expected_transcripts: ['Buenos días'], min_accuracy: 0.2 },
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject ordering items that do not form a sequence from 1', () => {
+      const result = ExerciseDataUnionSchema.safeParse({
+        exercise_type: 'ordering',
+        data: { items: [{ text: 'a', correct_order: 1 }, { text: 'b', correct_order: 3 }] },
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should preserve additional metadata keys in exercise data', () => {
+      const result = ExerciseDataUnionSchema.parse({
+        exercise_type: 'vof',
+        data: { statement: 'The sky is blue', is_true: true, difficulty: 'easy' },
+      });
+
+      expect(result.data).toHaveProperty('difficulty', 'easy');
+    });
+  });
+
+  describe('getExerciseDataSchema', () => {
+    it('should accept API and database exercise type formats', () => {
+      expect(getExerciseDataSchema('fill-in-the-blank')).toBeDefined();
+      expect(getExerciseDataSchema('fill_in_the_blank')).toBe(getExerciseDataSchema('fill-in-the-blank'));
+      expect(getExerciseDataSchema('unknown')).toBeUndefined();
+    });
+  });
+
+  describe('assertExerciseData', () => {
+    it('should throw a ZodError with data-prefixed paths', () => {
+      expect.assertions(2);
+      try {
+        assertExerciseData('vof', { statement: 'The sky is blue' });
+      } catch (error) {
+        expect(error).toBeInstanceOf(ZodError);
+        expect((error as ZodError).issues[0]?.path).toEqual(['data', 'is_true']);
+      }
+    });
+
+    it('should reject unknown exercise types', () => {
+      expect(() => assertExerciseData('essay', {})).toThrow(ZodError);
+    });
+  });
+
+  describe('UpdateExerciseSchema', () => {
+    it('should allow data-only updates', () => {
+      expect(UpdateExerciseSchema.safeParse({ data: { anything: true } }).success).toBe(true);
+    });
+
+    it('should validate data against a new exercise_type', () => {
+      expect(UpdateExerciseSchema.safeParse({ exercise_type: 'vof', data: { statement: 'x' } }).success).toBe(false);
+      expect(UpdateExerciseSchema.safeParse({ exercise_type: 'vof' }).success).toBe(false);
+    });
+  });
+});
@@ -587,6 +587,158 @@ export const PasswordUpdateSchema = z.object({
   path: ['new_password']
 });
 
+/**
+ * Emailed account token validation schema
+ * 
+ * Validates the single-use tokens emailed for password reset and email verification.
+ * Tokens are random alphanumeric strings; the length bounds reject obviously malformed
+ * values before any database lookup.
+ * 
+ * @type {z.ZodString}
+ */
+export const AccountTokenSchema = z
+  .string()
+  .min(32, 'Valid token is required')
+  .max(128, 'Valid token is required')
+  .regex(/^[A-Za-z0-9]+$/, 'Valid token is required');
+
+/**
+ * Forgot password validation schema
+ * 
+ * Validates password reset requests. Only the email address is required; the endpoint
+ * responds identically whether or not an account uses it.
+ * 
+ * @type {z.ZodObject}
+ * 
+ * @example
+ * ForgotPasswordSchema.parse({ email: 'user@example.com' });
+ */
+export const ForgotPasswordSchema = z.object({
+  email: EmailSchema
+});
+
+/**
+ * Reset password validation schema
+ * 
+ * Validates password resets with the token received by email. The new password must
+ * meet the same security requirements as during registration.
+ * 
+ * @type {z.ZodObject}
+ * 
+ * @example
+ * ResetPasswordSchema.parse({ token: tokenFromEmail, password: 'NewSecurePass123!' });
+ */
+export const ResetPasswordSchema = z.object({
+  token: AccountTokenSchema,
+  password: PasswordSchema
+});
+
+/**
+ * Email verification validation schema
+ * 
+ * Validates email verification requests with the token received by email.
+ * 
+ * @type {z.ZodObject}
+ * 
+ * @example
+ * VerifyEmailSchema.parse({ token: tokenFromEmail });
+ */
+export const VerifyEmailSchema = z.object({
+  token: AccountTokenSchema
+});
+
+/**
+ * OpenID Connect provider route parameter validation schema
+ * 
+ * Validates the provider name in social login routes. Provider names are the short,
+ * lowercase names configured in `OIDC_PROVIDERS`.
+ * 
+ * @type {z.ZodObject}
+ * 
+ * @example
+ * OidcProviderParamsSchema.parse({ provider: 'google' });
+ */
+export const OidcProviderParamsSchema = z.object({
+  provider: z.string().regex(/^[a-z0-9][a-z0-9_-]{0,49}$/, 'Invalid identity provider')
+});
+
+/**
+ * OpenID Connect callback validation schema
+ * 
+ * Validates the authorization code and state the identity provider returned to the
+ * frontend after the user signed in.
+ * 
+ * @type {z.ZodObject}
+ * 
+ * @example
+ * OidcCallbackSchema.parse({ code: codeFromProvider, state: stateFromProvider });
+ */
+export const OidcCallbackSchema = z.object({
+  code: z.string().min(1, 'Authorization code is required').max(2048, 'Authorization code too long'),
+  state: AccountTokenSchema
+});
+
+/**
+ * Session route parameter validation schema
+ * 
+ * Validates the session ID in session management routes.
+ * 
+ * @type {z.ZodObject}
+ * 
+ * @example
+ * SessionParamsSchema.parse({ id: '3f2b8c1e-5d4a-4b6f-9e7d-1a2b3c4d5e6f' });
+ */
+export const SessionParamsSchema = z.object({
+  id: z.string().uuid('Invalid session ID')
+});
+
+/**
+ * Two-factor code validation schema
+ * 
+ * Validates a code for two-factor authentication: either the 6 digit code shown by the
+ * authenticator app, or a recovery code such as `K7QPM-2XWZD`. Spaces and dashes are allowed
+ * so codes can be entered as displayed.
+ * 
+ * @type {z.ZodString}
+ */
+export const TwoFactorCodeSchema = z
+  .string()
+  .trim()
+  .min(6, 'Two-factor code is required')
+  .max(20, 'Invalid two-factor code')
+  .regex(/^[A-Za-z0-9\s-]+$/, 'Invalid two-factor code');
+
+/**
+ * Two-factor code body validation schema
+ * 
+ * Validates requests that confirm an action with a two-factor code, such as confirming
+ * enrollment or disabling two-factor authentication.
+ * 
+ * @type {z.ZodObject}
+ * 
+ * @example
+ * TwoFactorCodeBodySchema.parse({ code: '123456' });
+ */
+export const TwoFactorCodeBodySchema = z.object({
+  code: TwoFactorCodeSchema
+});
+
+/**
+ * Two-factor login validation schema
+ * 
+ * Validates the second step of a login, with the two-factor token returned by the login
+ * endpoint and a code.
+ * 
+ * @type {z.ZodObject}
+ * 
+ * @example
+ * TwoFactorLoginSchema.parse({ two_factor_token: tokenFromLogin, code: '123456' });
+ */
+export const TwoFactorLoginSchema = z.object({
+  two_factor_token: AccountTokenSchema,
+  code: TwoFactorCodeSchema
+});
+
 /**
  * TypeScript type definitions inferred from authentication validation schemas
  * 
@@ -675,4 +827,47 @@ export type RefreshTokenRequest = z.infer<typeof RefreshTokenBodySchema>;
  * @property {string} current_password - Current user password for verification (required)
  * @property {string} new_password - New password meeting security requirements (required)
  */
-export type PasswordUpdateRequest = z.infer<typeof PasswordUpdateSchema>;
\ No newline at end of file
+export type PasswordUpdateRequest = z.infer<typeof PasswordUpdateSchema>;
+
+/**
+ * Type definition for forgot password request data
+ * 
+ * @type {Object}
+ * @property {string} email - Email address of the account to recover (required)
+ */
+export type ForgotPasswordRequest = z.infer<typeof ForgotPasswordSchema>;
+
+/**
+ * Type definition for reset password request data
+ * 
+ * @type {Object}
+ * @property {string} token - Password reset token received by email (required)
+ * @property {string} password - New password meeting security requirements (required)
+ */
+export type ResetPasswordRequest = z.infer<typeof ResetPasswordSchema>;
+
+/**
+ * Type definition for email verification request data
+ * 
+ * @type {Object}
+ * @property {string} token - Email verification token received by email (required)
+ */
+export type VerifyEmailRequest = z.infer<typeof VerifyEmailSchema>;
+
+/**
+ * Type definition for OpenID Connect callback request data
+ * 
+ * @type {Object}
+ * @property {string} code - Authorization code returned by the identity provider (required)
+ * @property {string} state - State returned by the identity provider (required)
+ */
+export type OidcCallbackRequest = z.infer<typeof OidcCallbackSchema>;
+
+/**
+ * Type definition for two-factor login request data
+ * 
+ * @type {Object}
+ * @property {string} two_factor_token - Token returned by the login endpoint (required)
+ * @property {string} code - Authenticator app code or recovery code (required)
+ */
+export type TwoFactorLoginRequest = z.infer<typeof TwoFactorLoginSchema>;
@@ -73,9 +73,9 @@ import {
   ExperiencePointsSchema,
   TextFieldSchema,
   OptionalTextFieldSchema,
-  JsonSchema,
   BooleanStringSchema,
 } from './common';
+import { ExerciseDataUnionSchema } from './exercise.schemas';
 
 /**
  * Course validation schema for language learning course creation and management
@@ -517,8 +517,9 @@ export const LessonSchema = z.object({
  * 
  * The exercise schema enforces proper categorization through exercise type
  * validation, provides compact identification suitable for frequent database
- * operations, and supports flexible data structures through JSON validation
- * that can accommodate the varying requirements of different exercise types.
+ * operations, and validates the data structure of each exercise type through
+ * the discriminated union defined in exercise.schemas.ts, so malformed data is
+ * rejected with field-level errors such as `data.pairs.1.right`.
  * 
  * Interactive learning support includes multiple exercise types that address
  * different learning styles and skills, flexible data structures that can
@@ -526,7 +527,7 @@ export const LessonSchema = z.object({
  * that supports efficient exercise delivery and tracking in interactive
  * learning sessions.
  * 
- * @type {z.ZodObject}
+ * @type {z.ZodIntersection}
  * 
  * @example
  * // Different exercise types with their data structures
@@ -612,25 +613,17 @@ export const LessonSchema = z.object({
  *   }
  * );
  */
-export const ExerciseSchema = z.object({
-  id: z
-    .string()
-    .max(15, 'Exercise ID cannot exceed 15 characters')
-    .regex(
-      /^[a-z0-9-]+$/,
-      'Exercise ID can only contain lowercase letters, numbers, and hyphens'
-    ),
-  exercise_type: z.enum([
-    'translation',
-    'translation-word-bank',
-    'fill-in-the-blank',
-    'vof',
-    'pairs',
-    'informative',
-    'ordering',
-  ]),
-  data: JsonSchema,
-});
+export const ExerciseSchema = ExerciseDataUnionSchema.and(
+  z.object({
+    id: z
+      .string()
+      .max(15, 'Exercise ID cannot exceed 15 characters')
+      .regex(
+        /^[a-z0-9-]+$/,
+        'Exercise ID can only contain lowercase letters, numbers, and hyphens'
+      ),
+  })
+);
 
 /**
  * Lesson-Exercise assignment validation schema for content organization
@@ -977,8 +970,8 @@ export type LessonRequest = z.infer<typeof LessonSchema>;
  * 
  * @type {Object}
  * @property {string} id - URL-safe exercise identifier (max 15 chars)
- * @property {'translation' | 'translation-word-bank' | 'fill-in-the-blank' | 'vof' | 'pairs' | 'informative' | 'ordering'} exercise_type - Exercise type for activity categorization
- * @property {Object | Array} data - Flexible JSON data structure for exercise content
+ * @property {'translation' | 'translation-word-bank' | 'fill-in-the-blank' | 'vof' | 'pairs' | 'informative' | 'ordering' | 'listening' | 'speaking'} exercise_type - Exercise type for activity categorization
+ * @property {Object} data - Exercise content matching the schema for its exercise_type
  */
 export type ExerciseRequest = z.infer<typeof ExerciseSchema>;
 
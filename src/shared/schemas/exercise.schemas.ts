@@ -0,0 +1,44 @@
+// src/shared/schemas/exercise.schemas.ts
+
+/**
+ * Type-specific exercise data validation schemas for the WayrApp language learning platform.
+ *
+ * Exercises store their content in a JSONB `data` column whose shape depends on the exercise
+ * type. This module defines one Zod schema per exercise type and combines them into a
+ * discriminated union keyed by `exercise_type`, so create, update and duplicate operations
+ * reject malformed exercise data with field-level errors (for example `data.pairs.1.right`)
+ * through the standard `validate` middleware and error handler.
+ *
+ * The definitions live in the `wayrapp-shared` workspace package
+ * (`frontend-shared/schemas/exercise.ts`) and are re-exported here, so the API and the creator
+ * app validate exercises with the very same schemas. They describe the API format (snake_case
+ * fields, dash-separated exercise types). The package publishes a CommonJS build of its
+ * schemas for the API, produced by `npm run build:shared`.
+ *
+ * Data objects use passthrough parsing: required fields and their constraints are enforced,
+ * while additional metadata keys (such as difficulty tags added on duplication) are preserved.
+ *
+ * @module ExerciseSchemas
+ * @category Schemas
+ * @category Exercise
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * // Validate a complete exercise payload
+ * import { ExerciseDataUnionSchema } from '@/shared/schemas/exercise.schemas';
+ *
+ * const result = ExerciseDataUnionSchema.safeParse({
+ *   exercise_type: 'pairs',
+ *   data: { pairs: [{ left: 'dog', right: 'perro' }, { left: 'cat', right: 'gato' }] }
+ * });
+ *
+ * @example
+ * // Validate data against an exercise type known at runtime
+ * import { getExerciseDataSchema } from '@/shared/schemas/exercise.schemas';
+ *
+ * const schema = getExerciseDataSchema(existingExercise.exercise_type);
+ * schema.parse(req.body.data);
+ */
+
+export * from 'wayrapp-shared/schemas';
@@ -156,10 +156,25 @@ export {
   LoginSchema,
   RefreshTokenBodySchema,
   PasswordUpdateSchema,
+  AccountTokenSchema,
+  ForgotPasswordSchema,
+  ResetPasswordSchema,
+  VerifyEmailSchema,
+  OidcProviderParamsSchema,
+  OidcCallbackSchema,
+  SessionParamsSchema,
+  TwoFactorCodeSchema,
+  TwoFactorCodeBodySchema,
+  TwoFactorLoginSchema,
   type RegisterRequest,
   type LoginRequest,
   type RefreshTokenRequest,
-  type PasswordUpdateRequest
+  type PasswordUpdateRequest,
+  type ForgotPasswordRequest,
+  type ResetPasswordRequest,
+  type VerifyEmailRequest,
+  type OidcCallbackRequest,
+  type TwoFactorLoginRequest
 } from './auth.schemas';
 
 /**
@@ -256,6 +271,45 @@ export {
   type ContentQueryParams
 } from './content.schemas';
 
+/**
+ * Exercise data validation schemas
+ * 
+ * Type-specific schemas for the JSON `data` of each exercise type, combined into a
+ * discriminated union keyed by `exercise_type`. These definitions come from the
+ * `wayrapp-shared` package, so the creator app validates exercises with the same
+ * rules the API enforces.
+ * 
+ * @example
+ * // Validate a full exercise payload
+ * import { ExerciseDataUnionSchema } from '@/shared/schemas';
+ * 
+ * @example
+ * // Validate data for a type known at runtime
+ * import { getExerciseDataSchema } from '@/shared/schemas';
+ */
+export {
+  TranslationDataSchema,
+  TranslationWordBankDataSchema,
+  FillInTheBlankDataSchema,
+  VofDataSchema,
+  PairsDataSchema,
+  InformativeDataSchema,
+  OrderingDataSchema,
+  EXERCISE_DATA_SCHEMAS,
+  ExerciseDataUnionSchema,
+  getExerciseDataSchema,
+  assertExerciseData,
+  type ExerciseDataType,
+  type TranslationData,
+  type TranslationWordBankData,
+  type FillInTheBlankData,
+  type VofData,
+  type PairsData,
+  type InformativeData,
+  type OrderingData,
+  type ExerciseDataUnion
+} from './exercise.schemas';
+
 /**
  * Learning progress validation schemas
  * 
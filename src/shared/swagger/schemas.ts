@@ -70,6 +70,59 @@ export const swaggerSchemas = {
           }
         }
       },
+      TwoFactorChallenge: {
+        type: 'object',
+        description: 'Returned by a login when the user has two-factor authentication enabled',
+        properties: {
+          two_factor_required: {
+            type: 'boolean',
+            example: true
+          },
+          two_factor_token: {
+            type: 'string',
+            description: 'Token to send to /api/v1/auth/login/2fa with a code',
+            example: 'aB3dE5fG7hJ9kL1mN3pQ5rS7tU9vW1xY3zA5bC7dE9fG1hJ3'
+          },
+          expires_in: {
+            type: 'integer',
+            description: 'Seconds until the two-factor token expires',
+            example: 300
+          }
+        }
+      },
+      TwoFactorCode: {
+        type: 'object',
+        required: ['code'],
+        properties: {
+          code: {
+            type: 'string',
+            description: '6 digit authenticator app code, or a recovery code',
+            example: '123456'
+          }
+        }
+      },
+      RecoveryCodesResponse: {
+        type: 'object',
+        properties: {
+          success: {
+            type: 'boolean',
+            example: true
+          },
+          data: {
+            type: 'object',
+            properties: {
+              recovery_codes: {
+                type: 'array',
+                description: 'Single-use recovery codes, shown only once',
+                items: {
+                  type: 'string',
+                  example: 'K7QPM-2XWZD'
+                }
+              }
+            }
+          }
+        }
+      },
       Course: {
         type: 'object',
         properties: {
@@ -191,7 +244,7 @@ export const swaggerSchemas = {
           },
           exercise_type: {
             type: 'string',
-            enum: ['translation', 'fill-in-the-blank', 'vof', 'pairs', 'informative', 'ordering'],
+            enum: ['translation', 'fill-in-the-blank', 'vof', 'pairs', 'informative', 'ordering', 'listening', 'speaking'],
             example: 'translation'
           },
           data: {
@@ -210,6 +263,719 @@ export const swaggerSchemas = {
           }
         }
       },
+      UnlockRule: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            format: 'uuid',
+            example: '3f2b8c1e-7a4d-4e2b-9c6f-1a2b3c4d5e6f'
+          },
+          course_id: {
+            type: 'string',
+            example: 'qu-es-beginner'
+          },
+          target_type: {
+            type: 'string',
+            enum: ['level', 'section', 'module', 'lesson'],
+            example: 'module'
+          },
+          target_id: {
+            type: 'string',
+            example: 'module-002'
+          },
+          rule_type: {
+            type: 'string',
+            enum: ['previous_lesson_completed', 'minimum_score', 'level_exam_passed', 'xp_threshold'],
+            example: 'minimum_score'
+          },
+          reference_id: {
+            type: 'string',
+            nullable: true,
+            example: 'lesson-010'
+          },
+          min_score: {
+            type: 'integer',
+            nullable: true,
+            example: 80
+          },
+          min_experience: {
+            type: 'integer',
+            nullable: true,
+            example: null
+          },
+          created_at: {
+            type: 'string',
+            format: 'date-time',
+            example: '2024-01-20T10:30:00.000Z'
+          },
+          updated_at: {
+            type: 'string',
+            format: 'date-time',
+            example: '2024-01-20T10:30:00.000Z'
+          }
+        }
+      },
+      CourseVersion: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            format: 'uuid',
+            example: '8d1e2f3a-4b5c-4d6e-8f90-1a2b3c4d5e6f'
+          },
+          course_id: {
+            type: 'string',
+            example: 'qu-es-beginner'
+          },
+          version: {
+            type: 'integer',
+            description: 'Sequential version number within the course',
+            example: 3
+          },
+          revision: {
+            type: 'integer',
+            description: 'Course revision the version was published at',
+            example: 57
+          },
+          notes: {
+            type: 'string',
+            nullable: true,
+            example: 'Added the A2 level'
+          },
+          published_by: {
+            type: 'string',
+            format: 'uuid',
+            nullable: true,
+            example: '123e4567-e89b-12d3-a456-426614174000'
+          },
+          published_at: {
+            type: 'string',
+            format: 'date-time',
+            example: '2024-01-20T10:30:00.000Z'
+          }
+        }
+      },
+      CourseRole: {
+        type: 'string',
+        enum: ['owner', 'editor', 'reviewer', 'viewer'],
+        description: 'Role in a course. Viewers browse the draft and versions, reviewers also publish, editors also change content, owners also manage collaborators.',
+        example: 'editor'
+      },
+      CourseCollaborator: {
+        type: 'object',
+        properties: {
+          course_id: {
+            type: 'string',
+            example: 'qu-es-beginner'
+          },
+          user_id: {
+            type: 'string',
+            format: 'uuid',
+            example: '123e4567-e89b-12d3-a456-426614174000'
+          },
+          email: {
+            type: 'string',
+            format: 'email',
+            example: 'ana@example.com'
+          },
+          username: {
+            type: 'string',
+            nullable: true,
+            example: 'ana'
+          },
+          role: {
+            $ref: '#/components/schemas/CourseRole'
+          },
+          invited_by: {
+            type: 'string',
+            format: 'uuid',
+            nullable: true,
+            example: '8d1e2f3a-4b5c-4d6e-8f90-1a2b3c4d5e6f'
+          },
+          accepted_at: {
+            type: 'string',
+            format: 'date-time',
+            nullable: true,
+            description: 'Null while the invitation is pending',
+            example: '2024-01-20T10:30:00.000Z'
+          },
+          created_at: {
+            type: 'string',
+            format: 'date-time',
+            example: '2024-01-19T08:00:00.000Z'
+          },
+          updated_at: {
+            type: 'string',
+            format: 'date-time',
+            example: '2024-01-20T10:30:00.000Z'
+          }
+        }
+      },
+      CourseInvitation: {
+        type: 'object',
+        properties: {
+          course_id: {
+            type: 'string',
+            example: 'qu-es-beginner'
+          },
+          course_name: {
+            type: 'string',
+            example: 'Quechua for Spanish Speakers'
+          },
+          role: {
+            $ref: '#/components/schemas/CourseRole'
+          },
+          invited_by: {
+            type: 'string',
+            format: 'uuid',
+            nullable: true,
+            example: '8d1e2f3a-4b5c-4d6e-8f90-1a2b3c4d5e6f'
+          },
+          invited_at: {
+            type: 'string',
+            format: 'date-time',
+            example: '2024-01-19T08:00:00.000Z'
+          }
+        }
+      },
+      Enrollment: {
+        type: 'object',
+        properties: {
+          user_id: {
+            type: 'string',
+            format: 'uuid',
+            example: '8d1e2f3a-4b5c-4d6e-8f90-1a2b3c4d5e6f'
+          },
+          course_id: {
+            type: 'string',
+            example: 'qu-es-beginner'
+          },
+          status: {
+            type: 'string',
+            enum: ['active', 'completed'],
+            example: 'active'
+          },
+          current_lesson_id: {
+            type: 'string',
+            nullable: true,
+            description: 'First lesson of the course, in course order, that the learner has not completed',
+            example: 'lesson-greetings-2'
+          },
+          enrolled_at: {
+            type: 'string',
+            format: 'date-time',
+            example: '2024-01-19T08:00:00.000Z'
+          },
+          completed_at: {
+            type: 'string',
+            format: 'date-time',
+            nullable: true,
+            example: null
+          },
+          updated_at: {
+            type: 'string',
+            format: 'date-time',
+            example: '2024-01-20T10:30:00.000Z'
+          }
+        }
+      },
+      EnrolledCourse: {
+        allOf: [
+          { $ref: '#/components/schemas/Enrollment' },
+          {
+            type: 'object',
+            properties: {
+              course: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string', example: 'qu-es-beginner' },
+                  name: { type: 'string', example: 'Quechua for Spanish Speakers' },
+                  source_language: { type: 'string', example: 'es' },
+                  target_language: { type: 'string', example: 'qu' },
+                  is_public: { type: 'boolean', example: true }
+                }
+              },
+              lessons_completed: {
+                type: 'integer',
+                example: 12
+              },
+              total_lessons: {
+                type: 'integer',
+                example: 40
+              },
+              progress_percentage: {
+                type: 'integer',
+                minimum: 0,
+                maximum: 100,
+                example: 30
+              }
+            }
+          }
+        ]
+      },
+      CourseInviteCode: {
+        type: 'object',
+        properties: {
+          course_id: {
+            type: 'string',
+            example: 'qu-es-beginner'
+          },
+          invite_code: {
+            type: 'string',
+            nullable: true,
+            description: 'Code learners use to join the course while it is private, null when disabled',
+            example: 'K7QPM2XWZD'
+          }
+        }
+      },
+      AuditLogEntry: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            format: 'uuid',
+            example: '2f4e6a8c-1b3d-4f5a-9c7e-0d2b4f6a8c1e'
+          },
+          actor_id: {
+            type: 'string',
+            format: 'uuid',
+            nullable: true,
+            example: '8d1e2f3a-4b5c-4d6e-8f90-1a2b3c4d5e6f'
+          },
+          actor_role: {
+            type: 'string',
+            enum: ['student', 'content_creator', 'admin'],
+            nullable: true,
+            example: 'content_creator'
+          },
+          action: {
+            type: 'string',
+            example: 'update'
+          },
+          entity_type: {
+            type: 'string',
+            enum: ['course', 'level', 'section', 'module', 'lesson', 'exercise', 'unlock_rule', 'course_version', 'course_collaborator', 'user', 'media'],
+            example: 'lesson'
+          },
+          entity_id: {
+            type: 'string',
+            nullable: true,
+            example: 'lesson-greetings'
+          },
+          before: {
+            type: 'object',
+            nullable: true,
+            description: 'State of the entity before the change, null for created entities'
+          },
+          after: {
+            type: 'object',
+            nullable: true,
+            description: 'State of the entity after the change, null for deleted entities'
+          },
+          changes: {
+            type: 'object',
+            nullable: true,
+            description: 'Changed fields with their old and new values',
+            additionalProperties: {
+              type: 'object',
+              properties: {
+                from: {},
+                to: {}
+              }
+            },
+            example: { experiencePoints: { from: 10, to: 20 } }
+          },
+          ip_address: {
+            type: 'string',
+            nullable: true,
+            example: '203.0.113.7'
+          },
+          created_at: {
+            type: 'string',
+            format: 'date-time',
+            example: '2024-01-20T10:15:00.000Z'
+          }
+        }
+      },
+      TrashItem: {
+        type: 'object',
+        properties: {
+          entity_type: {
+            type: 'string',
+            enum: ['course', 'level', 'section', 'module', 'lesson', 'exercise'],
+            example: 'lesson'
+          },
+          id: {
+            type: 'string',
+            example: 'lesson-greetings'
+          },
+          name: {
+            type: 'string',
+            nullable: true,
+            description: 'Name of the content, null for lessons and exercises',
+            example: null
+          },
+          parent_id: {
+            type: 'string',
+            nullable: true,
+            description: 'Parent the content is restored into, null for courses and exercises',
+            example: 'module-basics'
+          },
+          course_id: {
+            type: 'string',
+            nullable: true,
+            description: 'Course the content belongs to, null for exercises',
+            example: 'qu-es-beginner'
+          },
+          deleted_at: {
+            type: 'string',
+            format: 'date-time',
+            example: '2024-01-20T10:15:00.000Z'
+          },
+          purge_at: {
+            type: 'string',
+            format: 'date-time',
+            description: 'When the content will be deleted for good',
+            example: '2024-02-19T10:15:00.000Z'
+          }
+        }
+      },
+      CourseArchive: {
+        type: 'object',
+        description: 'Portable course archive. Content nests like the packaged course, without parent IDs and timestamps; lessons reference exercises by ID',
+        required: ['format', 'format_version', 'exported_at', 'course', 'levels', 'exercises'],
+        properties: {
+          format: {
+            type: 'string',
+            enum: ['wayrapp-course-archive'],
+            example: 'wayrapp-course-archive'
+          },
+          format_version: {
+            type: 'integer',
+            enum: [1],
+            example: 1
+          },
+          exported_at: {
+            type: 'string',
+            format: 'date-time',
+            example: '2024-01-20T10:15:00.000Z'
+          },
+          course: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', maxLength: 20, example: 'qu-es-beginner' },
+              source_language: { type: 'string', example: 'es' },
+              target_language: { type: 'string', example: 'qu' },
+              name: { type: 'string', example: 'Quechua for Spanish Speakers' },
+              description: { type: 'string', example: 'Learn basic Quechua vocabulary' },
+              is_public: { type: 'boolean', example: true }
+            }
+          },
+          levels: {
+            type: 'array',
+            description: 'Levels with their sections, modules, lessons and lesson exercise assignments ({ exercise_id, order })',
+            items: {
+              type: 'object'
+            }
+          },
+          exercises: {
+            type: 'array',
+            description: 'Every exercise used by the lessons, with exercise_type in the API format',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string', maxLength: 15, example: 'greet-001' },
+                exercise_type: { type: 'string', example: 'translation' },
+                data: { type: 'object' }
+              }
+            }
+          },
+          unlock_rules: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                target_type: { type: 'string', enum: ['level', 'section', 'module', 'lesson'] },
+                target_id: { type: 'string' },
+                rule_type: { type: 'string', enum: ['previous_lesson_completed', 'minimum_score', 'level_exam_passed', 'xp_threshold'] },
+                reference_id: { type: 'string' },
+                min_score: { type: 'integer' },
+                min_experience: { type: 'integer' }
+              }
+            }
+          },
+          media: {
+            type: 'array',
+            description: 'Media referenced by the exercise data, either by URL or by the media_id of an upload to the media library. Media files are not part of the archive: uploads must exist in the importing environment',
+            items: {
+              type: 'object',
+              properties: {
+                url: { type: 'string', format: 'uri', example: 'https://cdn.example.com/llama.png' },
+                media_id: { type: 'string', format: 'uuid', example: '3f2b8c1e-7d4a-4e6b-9a0c-5b1d2e3f4a5b' },
+                type: { type: 'string', enum: ['image', 'video', 'audio'], nullable: true, example: 'image' },
+                exercise_ids: { type: 'array', items: { type: 'string' }, example: ['info-001'] }
+              }
+            }
+          }
+        }
+      },
+      CourseImportResult: {
+        type: 'object',
+        properties: {
+          course_id: {
+            type: 'string',
+            description: 'ID of the imported course',
+            example: 'quechua-for-spanish'
+          },
+          id_strategy: {
+            type: 'string',
+            enum: ['preserve', 'remap'],
+            example: 'remap'
+          },
+          dry_run: {
+            type: 'boolean',
+            example: false
+          },
+          conflicts: {
+            type: 'array',
+            description: 'Archive IDs that were already taken in this environment',
+            items: {
+              type: 'object',
+              properties: {
+                entity_type: { type: 'string', enum: ['course', 'level', 'section', 'module', 'lesson', 'exercise'] },
+                id: { type: 'string' }
+              }
+            },
+            example: [{ entity_type: 'course', id: 'qu-es-beginner' }]
+          },
+          id_map: {
+            type: 'object',
+            description: 'New IDs of the remapped content by entity type, keyed by archive ID',
+            additionalProperties: {
+              type: 'object',
+              additionalProperties: { type: 'string' }
+            },
+            example: { course: { 'qu-es-beginner': 'quechua-for-spanish' } }
+          },
+          counts: {
+            type: 'object',
+            properties: {
+              levels: { type: 'integer', example: 3 },
+              sections: { type: 'integer', example: 9 },
+              modules: { type: 'integer', example: 27 },
+              lessons: { type: 'integer', example: 120 },
+              exercises: { type: 'integer', example: 840 },
+              unlock_rules: { type: 'integer', example: 2 }
+            }
+          }
+        }
+      },
+      ExerciseImportResult: {
+        type: 'object',
+        properties: {
+          dry_run: {
+            type: 'boolean',
+            example: true
+          },
+          exercise_type: {
+            type: 'string',
+            enum: ['translation', 'translation-word-bank', 'fill-in-the-blank', 'vof', 'pairs', 'informative', 'ordering', 'listening', 'speaking'],
+            example: 'translation'
+          },
+          lesson_id: {
+            type: 'string',
+            nullable: true,
+            example: 'lesson-greetings'
+          },
+          total_rows: {
+            type: 'integer',
+            description: 'Rows read from the file, not counting the header and blank rows',
+            example: 2
+          },
+          exercises: {
+            type: 'array',
+            description: 'Exercises created, or that would be created, from the valid rows',
+            items: {
+              type: 'object',
+              properties: {
+                row: { type: 'integer', description: 'Row number in the file, counting the header' },
+                id: { type: 'string' },
+                exercise_type: { type: 'string' },
+                data: { type: 'object' },
+                order: { type: 'integer', description: 'Position in the lesson, when assigning to one' }
+              }
+            },
+            example: [{ row: 2, id: 'hello', exercise_type: 'translation', data: { source_text: 'Hello', target_text: 'Hola' }, order: 4 }]
+          },
+          errors: {
+            type: 'array',
+            description: 'Problems found in the rows; an import only runs when there are none',
+            items: {
+              type: 'object',
+              properties: {
+                row: { type: 'integer' },
+                field: { type: 'string' },
+                message: { type: 'string' }
+              }
+            },
+            example: [{ row: 3, field: 'data.target_text', message: 'Target text is required' }]
+          }
+        }
+      },
+      CourseAnalytics: {
+        type: 'object',
+        description: 'Learner analytics of a course for a range of days (UTC). Learners count as enrolled once they have played a lesson of the course',
+        properties: {
+          course_id: {
+            type: 'string',
+            example: 'spanish-101'
+          },
+          from: {
+            type: 'string',
+            format: 'date',
+            example: '2025-01-01'
+          },
+          to: {
+            type: 'string',
+            format: 'date',
+            example: '2025-01-30'
+          },
+          enrollment: {
+            type: 'object',
+            properties: {
+              total_learners: { type: 'integer', description: 'Learners enrolled by the end of the range', example: 420 },
+              new_learners: { type: 'integer', description: 'Learners who enrolled within the range', example: 65 },
+              active_learners: { type: 'integer', description: 'Learners with activity within the range', example: 180 }
+            }
+          },
+          active_learners: {
+            type: 'array',
+            description: 'Learners who completed a lesson or answered an exercise of the course, per day',
+            items: {
+              type: 'object',
+              properties: {
+                date: { type: 'string', format: 'date' },
+                learners: { type: 'integer' }
+              }
+            },
+            example: [{ date: '2025-01-01', learners: 24 }]
+          },
+          funnel: {
+            type: 'array',
+            description: 'Levels, sections, modules and lessons in course order, each followed by its children. Learner counts cover the learners active within the range, with the lessons they started and completed by its end',
+            items: {
+              type: 'object',
+              properties: {
+                entity_type: { type: 'string', enum: ['level', 'section', 'module', 'lesson'] },
+                id: { type: 'string' },
+                name: { type: 'string' },
+                parent_id: { type: 'string', nullable: true },
+                learners_started: { type: 'integer' },
+                learners_completed: { type: 'integer', description: 'Learners who completed every lesson of the step' },
+                drop_off_rate: { type: 'integer', description: 'Percentage of the learners who started the step without completing it' },
+                median_time_seconds: { type: 'integer', nullable: true, description: 'Median time of the lesson completions within the range' },
+                average_score: { type: 'integer', nullable: true, description: 'Average score of the lesson completions within the range' }
+              }
+            },
+            example: [{
+              entity_type: 'lesson',
+              id: 'lesson-greetings',
+              name: 'Greetings',
+              parent_id: 'module-basics',
+              learners_started: 150,
+              learners_completed: 120,
+              drop_off_rate: 20,
+              median_time_seconds: 240,
+              average_score: 82
+            }]
+          },
+          score_distribution: {
+            type: 'array',
+            description: 'Lesson completions within the range by score, in buckets of 10 points; the last bucket includes 100',
+            items: {
+              type: 'object',
+              properties: {
+                min: { type: 'integer' },
+                max: { type: 'integer' },
+                count: { type: 'integer' }
+              }
+            },
+            example: [{ min: 90, max: 100, count: 35 }]
+          }
+        }
+      },
+      MediaAsset: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            format: 'uuid',
+            example: '3f0c9a52-8e1b-4c55-9d2a-6b7e0f1d2c3b'
+          },
+          kind: {
+            type: 'string',
+            enum: ['image', 'audio'],
+            example: 'audio'
+          },
+          content_type: {
+            type: 'string',
+            enum: ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'audio/mpeg', 'audio/wav', 'audio/ogg', 'audio/mp4'],
+            example: 'audio/mpeg'
+          },
+          size_bytes: {
+            type: 'integer',
+            example: 23520
+          },
+          checksum: {
+            type: 'string',
+            description: 'Hex SHA-256 of the file',
+            example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08'
+          },
+          filename: {
+            type: 'string',
+            nullable: true,
+            example: 'hola.mp3'
+          },
+          width: {
+            type: 'integer',
+            nullable: true,
+            description: 'Width in pixels of images, after EXIF rotation'
+          },
+          height: {
+            type: 'integer',
+            nullable: true,
+            description: 'Height in pixels of images, after EXIF rotation'
+          },
+          duration_seconds: {
+            type: 'number',
+            nullable: true,
+            description: 'Length of audio in seconds, null when it could not be read',
+            example: 1.464
+          },
+          url: {
+            type: 'string',
+            description: 'Path of the file on the API',
+            example: '/api/v1/media/3f0c9a52-8e1b-4c55-9d2a-6b7e0f1d2c3b/file'
+          },
+          thumbnail_url: {
+            type: 'string',
+            nullable: true,
+            description: 'Path of the thumbnail of images, null for audio',
+            example: null
+          },
+          uploaded_by: {
+            type: 'string',
+            format: 'uuid',
+            nullable: true
+          },
+          created_at: {
+            type: 'string',
+            format: 'date-time',
+            example: '2024-01-20T10:15:00.000Z'
+          }
+        }
+      },
       ApiResponse: {
         type: 'object',
         properties: {
@@ -16,6 +16,9 @@ export class CourseFactory {
       name: `Test Course ${courseId}`,
       description: 'A test course for unit testing',
       isPublic: true,
+      inviteCode: null,
+      revision: 0,
+      deletedAt: null,
     };
 
     return {
@@ -53,6 +56,7 @@ export class LevelFactory {
       code: `L${Math.floor(Math.random() * 10)}`,
       name: `Test Level ${levelId}`,
       order: Math.floor(Math.random() * 10) + 1,
+      deletedAt: null,
     };
 
     return {
@@ -88,6 +92,7 @@ export class SectionFactory {
       levelId: levelId,
       name: `Test Section ${sectionId}`,
       order: Math.floor(Math.random() * 10) + 1,
+      deletedAt: null,
     };
 
     return {
@@ -123,6 +128,7 @@ export class ModuleFactory {
       moduleType: 'basic_lesson' as const,
       name: `Test Module ${moduleId}`,
       order: Math.floor(Math.random() * 10) + 1,
+      deletedAt: null,
     };
 
     return {
@@ -160,6 +166,7 @@ export class LessonFactory {
       description: `Description for ${lessonId}`,
       experiencePoints: 10,
       order: Math.floor(Math.random() * 10) + 1,
+      deletedAt: null,
     };
 
     return {
@@ -181,6 +188,7 @@ export class ExerciseFactory {
         target_text: 'Hola, ¿cómo estás?',
         hints: ['greeting', 'question']
       },
+      deletedAt: null,
     };
 
     return {
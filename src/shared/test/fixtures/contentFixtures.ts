@@ -602,6 +602,23 @@ export const contentFixtureHelpers = {
       id: "test-ordering",
       exerciseType: ExerciseType.ordering,
     }),
+    [ExerciseType.listening]: contentFixtureHelpers.createExercise({
+      id: "test-listening",
+      exerciseType: ExerciseType.listening,
+      data: {
+        audio: { url: "https://example.com/buenos-dias.mp3" },
+        answer_mode: "type",
+        correct_answers: ["Buenos días"],
+      },
+    }),
+    [ExerciseType.speaking]: contentFixtureHelpers.createExercise({
+      id: "test-speaking",
+      exerciseType: ExerciseType.speaking,
+      data: {
+        prompt: "Greet your teacher in the morning",
+        expected_transcripts: ["Buenos días profesor", "Buenos días profesora"],
+      },
+    }),
   }),
 
   /**
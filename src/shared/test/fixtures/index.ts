@@ -12,6 +12,9 @@ export * from "./contentFixtures";
 // Progress fixtures
 export * from "./progressFixtures";
 
+// Media fixtures
+export * from "./mediaFixtures";
+
 /**
  * All fixtures grouped by category for easy access
  */
@@ -24,6 +27,9 @@ export const fixtures = {
 
   // Re-export progress fixtures
   progress: require("./progressFixtures"),
+
+  // Re-export media fixtures
+  media: require("./mediaFixtures"),
 };
 
 /**
@@ -0,0 +1,169 @@
+/**
+ * Media Test Fixtures
+ * Minimal image and audio files built in memory, with known dimensions and durations
+ */
+
+import { deflateSync } from "zlib";
+
+/**
+ * Builders of media files for upload and probing tests
+ */
+export const mediaFixtures = {
+  /**
+   * PNG image filled with one color
+   */
+  png: (width: number, height: number, rgba: [number, number, number, number] = [200, 40, 40, 255]): Buffer => {
+    // Each row starts with filter type 0 (none)
+    const row = Buffer.alloc(1 + width * 4);
+    for (let x = 0; x < width; x++) {
+      row.set(rgba, 1 + x * 4);
+    }
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header.set([8, 6, 0, 0, 0], 8); // 8-bit RGBA, no interlacing
+
+    return Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      pngChunk("IHDR", header),
+      pngChunk("IDAT", deflateSync(Buffer.concat(Array.from({ length: height }, () => row)))),
+      pngChunk("IEND", Buffer.alloc(0)),
+    ]);
+  },
+
+  /**
+   * JPEG headers only (no scan data): a frame header and an optional EXIF orientation
+   */
+  jpegHeader: (width: number, height: number, orientation?: number): Buffer => {
+    const parts: Buffer[] = [Buffer.from([0xff, 0xd8])];
+    if (orientation !== undefined) {
+      const tiff = Buffer.alloc(26);
+      tiff.write("MM\0*", 0, "latin1");
+      tiff.writeUInt32BE(8, 4);
+      tiff.writeUInt16BE(1, 8); // one IFD entry
+      tiff.writeUInt16BE(0x0112, 10); // Orientation
+      tiff.writeUInt16BE(3, 12); // SHORT
+      tiff.writeUInt32BE(1, 14);
+      tiff.writeUInt16BE(orientation, 18);
+      const exif = Buffer.concat([Buffer.from("Exif\0\0", "latin1"), tiff]);
+      const header = Buffer.from([0xff, 0xe1, 0, 0]);
+      header.writeUInt16BE(exif.length + 2, 2);
+      parts.push(header, exif);
+    }
+    const frame = Buffer.from([0xff, 0xc0, 0, 17, 8, 0, 0, 0, 0, 3, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1]);
+    frame.writeUInt16BE(height, 5);
+    frame.writeUInt16BE(width, 7);
+    parts.push(frame, Buffer.from([0xff, 0xd9]));
+    return Buffer.concat(parts);
+  },
+
+  /**
+   * GIF logical screen header
+   */
+  gifHeader: (width: number, height: number): Buffer => {
+    const buffer = Buffer.alloc(13);
+    buffer.write("GIF89a", 0, "latin1");
+    buffer.writeUInt16LE(width, 6);
+    buffer.writeUInt16LE(height, 8);
+    return buffer;
+  },
+
+  /**
+   * Extended WebP (VP8X) header
+   */
+  webpHeader: (width: number, height: number): Buffer => {
+    const buffer = Buffer.alloc(30);
+    buffer.write("RIFF", 0, "latin1");
+    buffer.writeUInt32LE(22, 4);
+    buffer.write("WEBPVP8X", 8, "latin1");
+    buffer.writeUInt32LE(10, 16);
+    buffer.writeUIntLE(width - 1, 24, 3);
+    buffer.writeUIntLE(height - 1, 27, 3);
+    return buffer;
+  },
+
+  /**
+   * Silent 16-bit mono PCM WAV file
+   */
+  wav: (seconds: number, sampleRate = 8000): Buffer => {
+    const dataSize = Math.round(seconds * sampleRate) * 2;
+    const buffer = Buffer.alloc(44 + dataSize);
+    buffer.write("RIFF", 0, "latin1");
+    buffer.writeUInt32LE(36 + dataSize, 4);
+    buffer.write("WAVEfmt ", 8, "latin1");
+    buffer.writeUInt32LE(16, 16);
+    buffer.writeUInt16LE(1, 20); // PCM
+    buffer.writeUInt16LE(1, 22); // mono
+    buffer.writeUInt32LE(sampleRate, 24);
+    buffer.writeUInt32LE(sampleRate * 2, 28);
+    buffer.writeUInt16LE(2, 32);
+    buffer.writeUInt16LE(16, 34);
+    buffer.write("data", 36, "latin1");
+    buffer.writeUInt32LE(dataSize, 40);
+    return buffer;
+  },
+
+  /**
+   * Constant bitrate MP3 (MPEG-1 layer III, 128 kbps, 44.1 kHz): each frame lasts 1152 samples
+   */
+  mp3: (frames: number, id3 = false): Buffer => {
+    const frame = Buffer.alloc(417);
+    frame.set([0xff, 0xfb, 0x90, 0x00]);
+    const tag = Buffer.from([0x49, 0x44, 0x33, 4, 0, 0, 0, 0, 0, 20, ...new Array(20).fill(0)]);
+    return Buffer.concat([...(id3 ? [tag] : []), ...new Array(frames).fill(frame)]);
+  },
+
+  /**
+   * Ogg Vorbis stream: the identification header page and a last page holding the sample count
+   */
+  oggVorbis: (seconds: number, sampleRate = 44100): Buffer => {
+    const page = (granule: number, packet: Buffer): Buffer => {
+      const header = Buffer.alloc(28);
+      header.write("OggS", 0, "latin1");
+      header.writeBigInt64LE(BigInt(granule), 6);
+      header[26] = 1;
+      header[27] = packet.length;
+      return Buffer.concat([header, packet]);
+    };
+    const identification = Buffer.alloc(30);
+    identification.write("\x01vorbis", 0, "latin1");
+    identification[11] = 2;
+    identification.writeUInt32LE(sampleRate, 12);
+    return Buffer.concat([page(0, identification), page(Math.round(seconds * sampleRate), Buffer.alloc(16))]);
+  },
+
+  /**
+   * M4A file with a movie header (`mvhd`) holding the duration
+   */
+  m4a: (seconds: number, timescale = 1000): Buffer => {
+    const box = (type: string, payload: Buffer): Buffer => {
+      const header = Buffer.alloc(8);
+      header.writeUInt32BE(8 + payload.length, 0);
+      header.write(type, 4, "latin1");
+      return Buffer.concat([header, payload]);
+    };
+    const mvhd = Buffer.alloc(100);
+    mvhd.writeUInt32BE(timescale, 12);
+    mvhd.writeUInt32BE(Math.round(seconds * timescale), 16);
+    return Buffer.concat([box("ftyp", Buffer.from("M4A \0\0\0\0", "latin1")), box("moov", box("mvhd", mvhd))]);
+  },
+};
+
+/**
+ * PNG chunk: length, type, data and the CRC-32 of type and data
+ */
+function pngChunk(type: string, data: Buffer): Buffer {
+  const typed = Buffer.concat([Buffer.from(type, "latin1"), data]);
+  let crc = 0xffffffff;
+  for (const byte of typed) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+    }
+  }
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const checksum = Buffer.alloc(4);
+  checksum.writeUInt32BE((crc ^ 0xffffffff) >>> 0);
+  return Buffer.concat([length, typed, checksum]);
+}
@@ -244,7 +244,7 @@ export const revokedTokenFixtures = {
    */
   recentlyRevoked: {
     id: 'revoked-token-1',
-    token: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.eyJzdWIiOiJzdHVkZW50LTEyMyJ9.example',
+    tokenHash: '27f087e31dfefd7df1e8e6fa6c6af4ad0a2d642e6911f524bedfa16fb258ab90',
     userId: 'student-123',
     revokedAt: new Date('2024-01-20T10:00:00Z'),
     expiresAt: new Date('2024-01-20T11:00:00Z'),
@@ -255,7 +255,7 @@ export const revokedTokenFixtures = {
    */
   expiredRevoked: {
     id: 'revoked-token-2',
-    token: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.eyJzdWIiOiJzdHVkZW50LTQ1NiJ9.example',
+    tokenHash: 'af725b6be120f757fb69756428c4806574a13482e61cc7ee41844a467b23931f',
     userId: 'student-456',
     revokedAt: new Date('2024-01-15T08:00:00Z'),
     expiresAt: new Date('2024-01-15T09:00:00Z'),
@@ -266,7 +266,7 @@ export const revokedTokenFixtures = {
    */
   longLivedRevoked: {
     id: 'revoked-token-3',
-    token: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.eyJzdWIiOiJhZG1pbi0xMjMifQ.example',
+    tokenHash: '2750970ffae52450b7db8f432a1f8243783255dd597856770b6ec80de8533759',
     userId: 'admin-123',
     revokedAt: new Date('2024-01-18T16:30:00Z'),
     expiresAt: new Date('2024-01-25T16:30:00Z'), // 7 days later
@@ -448,7 +448,7 @@ export const progressFixtureHelpers = {
 
       return progressFixtureHelpers.createRevokedToken({
         id: `revoked-token-${userId}-${index + 1}`,
-        token: `token-${userId}-${index + 1}-example`,
+        tokenHash: `${index + 1}`.padStart(64, '0'),
         userId,
         revokedAt,
         expiresAt,
@@ -0,0 +1,191 @@
+/**
+ * Mock OpenID Connect Identity Provider
+ * Local identity provider implementing discovery, JWKS and the token endpoint of the authorization
+ * code flow with PKCE, for testing social login without a real provider.
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createHash, generateKeyPairSync, KeyObject, randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
+
+export interface MockIdentity {
+  sub: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string;
+  identity: MockIdentity;
+}
+
+export class MockIdentityProvider {
+  readonly clientId = 'wayrapp-test-client';
+  readonly clientSecret = 'wayrapp-test-secret';
+  readonly redirectUri = 'http://localhost:3000/auth/callback/mock';
+
+  /** Number of token requests received */
+  tokenRequests = 0;
+  /** Number of JWKS requests received */
+  jwksRequests = 0;
+
+  private server = http.createServer((req, res) => this.handle(req, res));
+  private codes = new Map<string, PendingCode>();
+  private keys: { kid: string; privateKey: KeyObject; publicKey: KeyObject }[] = [];
+  private baseUrl = '';
+
+  constructor() {
+    this.rotateKeys();
+  }
+
+  get issuer(): string {
+    return this.baseUrl;
+  }
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.baseUrl = `http://127.0.0.1:${port}`;
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  /** Environment configuring this provider as the `mock` OIDC provider */
+  env(): NodeJS.ProcessEnv {
+    return {
+      OIDC_PROVIDERS: 'mock',
+      OIDC_MOCK_ISSUER: this.issuer,
+      OIDC_MOCK_CLIENT_ID: this.clientId,
+      OIDC_MOCK_CLIENT_SECRET: this.clientSecret,
+      OIDC_MOCK_REDIRECT_URI: this.redirectUri,
+    };
+  }
+
+  /** Replaces the signing key, as providers do periodically */
+  rotateKeys(): void {
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    this.keys = [{ kid: randomBytes(8).toString('hex'), privateKey, publicKey }];
+  }
+
+  /**
+   * Simulates the user signing in at the provider's authorization URL. Returns the code and state
+   * the provider would send back to the redirect URI.
+   */
+  signIn(authorizationUrl: string, identity: MockIdentity): { code: string; state: string } {
+    const url = new URL(authorizationUrl);
+    const params = url.searchParams;
+    if (`${url.origin}${url.pathname}` !== `${this.baseUrl}/authorize`) throw new Error('Unexpected authorization endpoint');
+    if (params.get('response_type') !== 'code') throw new Error('Unsupported response_type');
+    if (params.get('code_challenge_method') !== 'S256') throw new Error('PKCE with S256 is required');
+
+    const code = randomBytes(16).toString('hex');
+    this.codes.set(code, {
+      clientId: params.get('client_id')!,
+      redirectUri: params.get('redirect_uri')!,
+      codeChallenge: params.get('code_challenge')!,
+      nonce: params.get('nonce')!,
+      identity,
+    });
+    return { code, state: params.get('state')! };
+  }
+
+  /** Signs an ID token with the current key */
+  signIdToken(claims: Record<string, unknown>, options: jwt.SignOptions = {}): string {
+    const key = this.keys[0]!;
+    return jwt.sign(claims, key.privateKey, {
+      algorithm: 'RS256',
+      keyid: key.kid,
+      issuer: this.issuer,
+      audience: this.clientId,
+      expiresIn: 300,
+      ...options,
+    });
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const path = new URL(req.url ?? '/', this.baseUrl).pathname;
+
+    if (req.method === 'GET' && path === '/.well-known/openid-configuration') {
+      return this.json(res, 200, {
+        issuer: this.issuer,
+        authorization_endpoint: `${this.baseUrl}/authorize`,
+        token_endpoint: `${this.baseUrl}/token`,
+        jwks_uri: `${this.baseUrl}/jwks`,
+        response_types_supported: ['code'],
+        code_challenge_methods_supported: ['S256'],
+        token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+      });
+    }
+
+    if (req.method === 'GET' && path === '/jwks') {
+      this.jwksRequests++;
+      return this.json(res, 200, {
+        keys: this.keys.map(({ kid, publicKey }) => ({ ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', alg: 'RS256' })),
+      });
+    }
+
+    if (req.method === 'POST' && path === '/token') {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => this.handleToken(req, res, new URLSearchParams(body)));
+      return;
+    }
+
+    this.json(res, 404, { error: 'not_found' });
+  }
+
+  private handleToken(req: http.IncomingMessage, res: http.ServerResponse, params: URLSearchParams): void {
+    this.tokenRequests++;
+
+    const clientId = this.authenticateClient(req, params);
+    if (!clientId) return this.json(res, 401, { error: 'invalid_client' });
+
+    const code = params.get('code') ?? '';
+    const pending = this.codes.get(code);
+    // Codes are single-use
+    this.codes.delete(code);
+
+    if (params.get('grant_type') !== 'authorization_code' || !pending) {
+      return this.json(res, 400, { error: 'invalid_grant' });
+    }
+    if (pending.clientId !== clientId || pending.redirectUri !== params.get('redirect_uri')) {
+      return this.json(res, 400, { error: 'invalid_grant' });
+    }
+    const challenge = createHash('sha256').update(params.get('code_verifier') ?? '').digest('base64url');
+    if (challenge !== pending.codeChallenge) {
+      return this.json(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    }
+
+    this.json(res, 200, {
+      access_token: randomBytes(16).toString('hex'),
+      token_type: 'Bearer',
+      expires_in: 300,
+      id_token: this.signIdToken({ ...pending.identity, nonce: pending.nonce }),
+    });
+  }
+
+  private authenticateClient(req: http.IncomingMessage, params: URLSearchParams): string | null {
+    const authorization = req.headers['authorization'];
+    if (authorization?.startsWith('Basic ')) {
+      const [id, secret] = Buffer.from(authorization.slice(6), 'base64').toString().split(':').map(decodeURIComponent);
+      return id === this.clientId && secret === this.clientSecret ? id : null;
+    }
+    if (params.get('client_id') === this.clientId && params.get('client_secret') === this.clientSecret) {
+      return this.clientId;
+    }
+    return null;
+  }
+
+  private json(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -54,6 +54,9 @@ export interface JWTPayload {
   sub: string;      // user ID
   email: string;
   role: UserRole;
+  sid?: string;     // session ID
+  jti?: string;     // token ID (refresh tokens)
+  mfa?: boolean;    // the session passed two-factor authentication (access tokens)
   iat: number;      // issued at
   exp: number;      // expiration
 }
@@ -75,6 +78,7 @@ export enum HttpStatus {
   OK = 200,
   CREATED = 201,
   NO_CONTENT = 204,
+  PARTIAL_CONTENT = 206,
   NOT_MODIFIED = 304,
   BAD_REQUEST = 400,
   UNAUTHORIZED = 401,
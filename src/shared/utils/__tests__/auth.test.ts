@@ -12,6 +12,7 @@ import {
   isTokenExpired,
   getTokenExpiration,
   generateSecureToken,
+  hashToken,
   TokenPayload,
   TokenPair
 } from '../auth';
@@ -94,6 +95,30 @@ describe('Auth Utilities', () => {
       expect(() => generateAccessToken(testPayload)).toThrow('JWT_SECRET environment variable not set');
     });
 
+    it('should add the session ID for session tokens', () => {
+      (jwt.sign as jest.Mock).mockReturnValue('mock.access.token');
+
+      generateAccessToken({ ...testPayload, sessionId: 'session-123' });
+
+      expect(jwt.sign).toHaveBeenCalledWith(
+        { sub: testPayload.userId, email: testPayload.email, role: testPayload.role, sid: 'session-123' },
+        'test-access-secret',
+        expect.any(Object)
+      );
+    });
+
+    it('should add the mfa claim for sessions verified with two factors', () => {
+      (jwt.sign as jest.Mock).mockReturnValue('mock.access.token');
+
+      generateAccessToken({ ...testPayload, sessionId: 'session-123', twoFactorVerified: true });
+
+      expect(jwt.sign).toHaveBeenCalledWith(
+        expect.objectContaining({ sid: 'session-123', mfa: true }),
+        'test-access-secret',
+        expect.any(Object)
+      );
+    });
+
     it('should use custom expiration time from environment variable', () => {
       process.env['JWT_ACCESS_EXPIRES_IN'] = '30m';
       const mockToken = 'mock.access.token';
@@ -130,6 +155,17 @@ describe('Auth Utilities', () => {
       expect(() => generateRefreshToken(testPayload)).toThrow('JWT_REFRESH_SECRET environment variable not set');
     });
 
+    it('should add the session ID and a unique token ID for session tokens', () => {
+      (jwt.sign as jest.Mock).mockReturnValue('mock.refresh.token');
+
+      generateRefreshToken({ ...testPayload, sessionId: 'session-123' });
+      generateRefreshToken({ ...testPayload, sessionId: 'session-123' });
+
+      const [[first], [second]] = (jwt.sign as jest.Mock).mock.calls;
+      expect(first).toMatchObject({ sub: testPayload.userId, sid: 'session-123', jti: expect.any(String) });
+      expect(first.jti).not.toBe(second.jti);
+    });
+
     it('should use custom expiration time from environment variable', () => {
       process.env['JWT_REFRESH_EXPIRES_IN'] = '14d';
       const mockToken = 'mock.refresh.token';
@@ -433,6 +469,19 @@ describe('Auth Utilities', () => {
     });
   });
 
+  describe('hashToken', () => {
+    it('should return the hex SHA-256 digest of the token', () => {
+      expect(hashToken('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+
+    it('should not contain the token', () => {
+      const token = 'eyJhbGciOiJIUzI1NiJ9.payload.signature';
+
+      expect(hashToken(token)).toMatch(/^[0-9a-f]{64}$/);
+      expect(hashToken(token)).not.toContain(token);
+    });
+  });
+
   describe('Interface Compliance', () => {
     it('should ensure TokenPayload interface compliance', () => {
       const payload: TokenPayload = {
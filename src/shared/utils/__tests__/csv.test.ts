@@ -0,0 +1,61 @@
+import { DELIMITERS, parseDelimited, toDelimited } from '../csv';
+
+describe('csv', () => {
+  describe('parseDelimited', () => {
+    it('should split records and fields', () => {
+      expect(parseDelimited('left,right\ndog,perro\r\ncat,gato\n')).toEqual([
+        ['left', 'right'],
+        ['dog', 'perro'],
+        ['cat', 'gato'],
+      ]);
+    });
+
+    it('should read quoted fields with delimiters, line breaks and escaped quotes', () => {
+      expect(parseDelimited('"a, b","line 1\nline 2","say ""hola"""\n"",x')).toEqual([
+        ['a, b', 'line 1\nline 2', 'say "hola"'],
+        ['', 'x'],
+      ]);
+    });
+
+    it('should keep empty fields and blank lines', () => {
+      expect(parseDelimited('a,,c\n\n,b,')).toEqual([
+        ['a', '', 'c'],
+        [''],
+        ['', 'b', ''],
+      ]);
+    });
+
+    it('should split tab-separated text', () => {
+      expect(parseDelimited('\uFEFFsource\ttarget\nHello, friend\t"Hola,\tamigo"', DELIMITERS.tsv)).toEqual([
+        ['source', 'target'],
+        ['Hello, friend', 'Hola,\tamigo'],
+      ]);
+    });
+
+    it('should keep quotes inside unquoted fields', () => {
+      expect(parseDelimited('5" screen,pantalla')).toEqual([['5" screen', 'pantalla']]);
+    });
+
+    it('should reject unterminated quoted fields', () => {
+      expect(() => parseDelimited('a,b\n"c,d')).toThrow('Unterminated quoted field in record 2');
+    });
+
+    it('should reject text after a closing quote', () => {
+      expect(() => parseDelimited('"a"b,c')).toThrow('Unexpected text after a closing quote in record 1');
+    });
+  });
+
+  describe('toDelimited', () => {
+    it('should quote fields only when needed', () => {
+      expect(toDelimited([['name', 'count', 'note'], ['Greetings, part 1', 12, null], ['say "hola"', 0, 'a\nb']])).toBe(
+        'name,count,note\r\n"Greetings, part 1",12,\r\n"say ""hola""",0,"a\nb"\r\n'
+      );
+    });
+
+    it('should be read back by parseDelimited', () => {
+      const records = [['a\tb', 'c,d'], ['"e"', '']];
+
+      expect(parseDelimited(toDelimited(records, DELIMITERS.tsv), DELIMITERS.tsv)).toEqual(records);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { mkdtemp, readFile, readdir, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ConsoleMailTransport, FileMailTransport, createMailTransport } from '../mailer';
+import { logger } from '../logger';
+
+jest.mock('../logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+describe('Mailer', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('ConsoleMailTransport', () => {
+    it('should log the email without its body', async () => {
+      await new ConsoleMailTransport('WayrApp <test@wayrapp.local>').send({
+        to: 'learner@example.com',
+        subject: 'Reset your password',
+        text: 'https://app.wayrapp.local/reset-password?token=secret-token',
+        html: '<a href="https://app.wayrapp.local/reset-password?token=secret-token">Reset</a>',
+      });
+
+      expect(logger.info).toHaveBeenCalledWith('Email sent (console transport)', {
+        from: 'WayrApp <test@wayrapp.local>',
+        to: 'learner@example.com',
+        subject: 'Reset your password',
+      });
+      expect(JSON.stringify((logger.info as jest.Mock).mock.calls)).not.toContain('secret-token');
+    });
+  });
+
+  describe('FileMailTransport', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = path.join(await mkdtemp(path.join(os.tmpdir(), 'wayrapp-mail-')), 'outbox');
+    });
+
+    afterEach(async () => {
+      await rm(path.dirname(directory), { recursive: true, force: true });
+    });
+
+    it('should write each email as an .eml file, creating the directory', async () => {
+      const transport = new FileMailTransport(directory, 'WayrApp <test@wayrapp.local>');
+
+      await transport.send({ to: 'learner@example.com', subject: 'First', text: 'Plain body' });
+      await transport.send({ to: 'learner@example.com', subject: 'Second', text: 'Text', html: '<p>Html</p>' });
+
+      const files = (await readdir(directory)).sort();
+      expect(files).toHaveLength(2);
+      expect(files.every((file) => file.endsWith('.eml'))).toBe(true);
+
+      const contents = await Promise.all(files.map((file) => readFile(path.join(directory, file), 'utf8')));
+      const first = contents.find((content) => content.includes('Subject: First'))!;
+      const second = contents.find((content) => content.includes('Subject: Second'))!;
+      expect(first).toContain('From: WayrApp <test@wayrapp.local>');
+      expect(first).toContain('To: learner@example.com');
+      expect(first).toContain('\r\n\r\nPlain body');
+      expect(second).toContain('Content-Type: multipart/alternative');
+      expect(second).toContain('<p>Html</p>');
+    });
+  });
+
+  describe('createMailTransport', () => {
+    it('should use the console transport by default', () => {
+      expect(createMailTransport({}).name).toBe('console');
+    });
+
+    it('should refuse to start in production without a delivering transport', () => {
+      expect(() => createMailTransport({ NODE_ENV: 'production' })).toThrow('MAIL_TRANSPORT must be set');
+      expect(() => createMailTransport({ NODE_ENV: 'production', MAIL_TRANSPORT: 'console' })).toThrow();
+      expect(createMailTransport({ NODE_ENV: 'production', MAIL_TRANSPORT: 'file' }).name).toBe('file');
+    });
+
+    it('should create the file transport', () => {
+      expect(createMailTransport({ MAIL_TRANSPORT: 'file', MAIL_OUTPUT_DIR: '/tmp/mail' }).name).toBe('file');
+    });
+
+    it('should reject unknown transports', () => {
+      expect(() => createMailTransport({ MAIL_TRANSPORT: 'carrier-pigeon' })).toThrow(
+        "Unknown MAIL_TRANSPORT 'carrier-pigeon'"
+      );
+    });
+  });
+});
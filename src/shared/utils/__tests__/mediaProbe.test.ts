@@ -0,0 +1,104 @@
+import {
+  normalizeContentType,
+  probeAudioDuration,
+  probeImageSize,
+  readJpegOrientation,
+  sniffContentType,
+} from '../mediaProbe';
+import { mediaFixtures } from '@/shared/test/fixtures/mediaFixtures';
+
+describe('MediaProbe', () => {
+  describe('normalizeContentType', () => {
+    it('should accept supported types, their aliases and parameters', () => {
+      expect(normalizeContentType('image/png')).toBe('image/png');
+      expect(normalizeContentType('IMAGE/JPG')).toBe('image/jpeg');
+      expect(normalizeContentType('audio/mp3')).toBe('audio/mpeg');
+      expect(normalizeContentType('audio/x-wav; codecs=1')).toBe('audio/wav');
+      expect(normalizeContentType('audio/x-m4a')).toBe('audio/mp4');
+    });
+
+    it('should reject other types', () => {
+      expect(normalizeContentType('application/json')).toBeNull();
+      expect(normalizeContentType('video/mp4')).toBeNull();
+      expect(normalizeContentType(undefined)).toBeNull();
+    });
+  });
+
+  describe('sniffContentType', () => {
+    it('should identify files by their signature', () => {
+      expect(sniffContentType(mediaFixtures.png(2, 2))).toBe('image/png');
+      expect(sniffContentType(mediaFixtures.jpegHeader(4, 3))).toBe('image/jpeg');
+      expect(sniffContentType(mediaFixtures.gifHeader(4, 3))).toBe('image/gif');
+      expect(sniffContentType(mediaFixtures.webpHeader(4, 3))).toBe('image/webp');
+      expect(sniffContentType(mediaFixtures.wav(0.1))).toBe('audio/wav');
+      expect(sniffContentType(mediaFixtures.mp3(3))).toBe('audio/mpeg');
+      expect(sniffContentType(mediaFixtures.mp3(3, true))).toBe('audio/mpeg');
+      expect(sniffContentType(mediaFixtures.oggVorbis(1))).toBe('audio/ogg');
+      expect(sniffContentType(mediaFixtures.m4a(1))).toBe('audio/mp4');
+    });
+
+    it('should not identify other files', () => {
+      expect(sniffContentType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"></svg>'))).toBeNull();
+      expect(sniffContentType(Buffer.from('%PDF-1.7'))).toBeNull();
+      expect(sniffContentType(Buffer.alloc(0))).toBeNull();
+    });
+  });
+
+  describe('probeImageSize', () => {
+    it('should read the dimensions of each image format', () => {
+      expect(probeImageSize(mediaFixtures.png(640, 2), 'image/png')).toEqual({ width: 640, height: 2 });
+      expect(probeImageSize(mediaFixtures.jpegHeader(1024, 768), 'image/jpeg')).toEqual({ width: 1024, height: 768 });
+      expect(probeImageSize(mediaFixtures.gifHeader(32, 16), 'image/gif')).toEqual({ width: 32, height: 16 });
+      expect(probeImageSize(mediaFixtures.webpHeader(2000, 1500), 'image/webp')).toEqual({ width: 2000, height: 1500 });
+    });
+
+    it('should swap the dimensions of JPEG images rotated by a quarter turn', () => {
+      const rotated = mediaFixtures.jpegHeader(1024, 768, 6);
+
+      expect(readJpegOrientation(rotated)).toBe(6);
+      expect(probeImageSize(rotated, 'image/jpeg')).toEqual({ width: 768, height: 1024 });
+      expect(probeImageSize(mediaFixtures.jpegHeader(1024, 768, 3), 'image/jpeg')).toEqual({ width: 1024, height: 768 });
+    });
+
+    it('should return null for truncated headers', () => {
+      expect(probeImageSize(Buffer.from([0xff, 0xd8, 0xff, 0xe0]), 'image/jpeg')).toBeNull();
+      expect(probeImageSize(Buffer.from('RIFF'), 'image/webp')).toBeNull();
+    });
+  });
+
+  describe('probeAudioDuration', () => {
+    it('should compute the duration of WAV files from their byte rate', () => {
+      expect(probeAudioDuration(mediaFixtures.wav(1.5), 'audio/wav')).toBe(1.5);
+    });
+
+    it('should add up the frames of constant bitrate MP3 files, after an ID3 tag', () => {
+      // 100 frames of 1152 samples at 44.1 kHz
+      expect(probeAudioDuration(mediaFixtures.mp3(100), 'audio/mpeg')).toBe(2.612);
+      expect(probeAudioDuration(mediaFixtures.mp3(100, true), 'audio/mpeg')).toBe(2.612);
+    });
+
+    it('should read the frame count of the Xing header of VBR MP3 files', () => {
+      const file = mediaFixtures.mp3(2);
+      // The Xing header follows the side information of the first (stereo MPEG-1) frame
+      file.write('Xing', 36, 'latin1');
+      file.writeUInt32BE(0x01, 40);
+      file.writeUInt32BE(500, 44);
+
+      expect(probeAudioDuration(file, 'audio/mpeg')).toBe(13.061);
+    });
+
+    it('should divide the last granule position of Ogg files by the sample rate', () => {
+      expect(probeAudioDuration(mediaFixtures.oggVorbis(3), 'audio/ogg')).toBe(3);
+    });
+
+    it('should read the movie header of M4A files', () => {
+      expect(probeAudioDuration(mediaFixtures.m4a(4.5, 600), 'audio/mp4')).toBe(4.5);
+    });
+
+    it('should return null when the duration cannot be read', () => {
+      expect(probeAudioDuration(Buffer.from('OggS'), 'audio/ogg')).toBeNull();
+      expect(probeAudioDuration(mediaFixtures.m4a(1).subarray(0, 16), 'audio/mp4')).toBeNull();
+      expect(probeAudioDuration(Buffer.from('ID3'), 'audio/mpeg')).toBeNull();
+    });
+  });
+});
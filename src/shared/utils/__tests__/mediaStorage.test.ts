@@ -0,0 +1,139 @@
+import { mkdtemp, rm } from 'fs/promises';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { createMediaStorage, LocalMediaStorage, S3MediaStorage } from '../mediaStorage';
+
+jest.mock('../logger', () => ({
+  logger: {
+    info: jest.fn(),
+  },
+}));
+
+describe('MediaStorage', () => {
+  describe('LocalMediaStorage', () => {
+    let directory: string;
+    let storage: LocalMediaStorage;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(path.join(os.tmpdir(), 'wayrapp-media-'));
+      storage = new LocalMediaStorage(path.join(directory, 'media'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should store, read and delete files, creating directories', async () => {
+      await storage.put('audio/clip.mp3', Buffer.from('sound'), 'audio/mpeg');
+      expect(await storage.get('audio/clip.mp3')).toEqual(Buffer.from('sound'));
+
+      await storage.delete('audio/clip.mp3');
+      expect(await storage.get('audio/clip.mp3')).toBeNull();
+    });
+
+    it('should ignore deletions of missing files', async () => {
+      await expect(storage.delete('image/missing.png')).resolves.toBeUndefined();
+    });
+
+    it('should reject keys outside the storage directory', async () => {
+      await expect(storage.put('../escape.png', Buffer.from('x'), 'image/png')).rejects.toThrow('Invalid media storage key');
+      await expect(storage.get('/etc/passwd')).rejects.toThrow('Invalid media storage key');
+    });
+  });
+
+  describe('S3MediaStorage', () => {
+    const objects = new Map<string, Buffer>();
+    const requests: http.IncomingHttpHeaders[] = [];
+    let server: http.Server;
+    let storage: S3MediaStorage;
+
+    beforeAll(async () => {
+      // Minimal S3-compatible endpoint keeping objects in memory
+      server = http.createServer((req, res) => {
+        requests.push(req.headers);
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => chunks.push(chunk));
+        req.on('end', () => {
+          // The SDK appends the operation as a query parameter (`?x-id=PutObject`)
+          const key = req.url!.split('?')[0]!;
+          if (req.method === 'PUT') {
+            objects.set(key, Buffer.concat(chunks));
+            res.writeHead(200).end();
+          } else if (req.method === 'GET' && objects.has(key)) {
+            res.writeHead(200).end(objects.get(key));
+          } else if (req.method === 'DELETE') {
+            objects.delete(key);
+            res.writeHead(204).end();
+          } else {
+            res.writeHead(404).end();
+          }
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+      storage = new S3MediaStorage({
+        endpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}/`,
+        bucket: 'wayrapp-media',
+        region: 'us-east-1',
+        accessKeyId: 'test-key',
+        secretAccessKey: 'test-secret',
+      });
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should store objects path-style with signed requests', async () => {
+      await storage.put('image/photo.png', Buffer.from('pixels'), 'image/png');
+
+      expect(objects.get('/wayrapp-media/image/photo.png')).toEqual(Buffer.from('pixels'));
+      const headers = requests[requests.length - 1]!;
+      expect(headers['content-type']).toBe('image/png');
+      expect(headers['authorization']).toMatch(
+        /^AWS4-HMAC-SHA256 Credential=test-key\/\d{8}\/us-east-1\/s3\/aws4_request, SignedHeaders=\S*content-type;host;\S*, Signature=[0-9a-f]{64}$/
+      );
+    });
+
+    it('should read objects, returning null for missing keys', async () => {
+      await storage.put('audio/clip.ogg', Buffer.from('sound'), 'audio/ogg');
+
+      expect(await storage.get('audio/clip.ogg')).toEqual(Buffer.from('sound'));
+      expect(await storage.get('audio/missing.ogg')).toBeNull();
+    });
+
+    it('should delete objects', async () => {
+      await storage.put('audio/old.mp3', Buffer.from('sound'), 'audio/mpeg');
+      await storage.delete('audio/old.mp3');
+
+      expect(objects.has('/wayrapp-media/audio/old.mp3')).toBe(false);
+    });
+  });
+
+  describe('createMediaStorage', () => {
+    it('should default to the local driver', () => {
+      expect(createMediaStorage({}).name).toBe('local');
+    });
+
+    it('should create the S3 driver when configured', () => {
+      const storage = createMediaStorage({
+        MEDIA_STORAGE: 's3',
+        MEDIA_S3_ENDPOINT: 'http://localhost:9000',
+        MEDIA_S3_BUCKET: 'media',
+        MEDIA_S3_ACCESS_KEY_ID: 'key',
+        MEDIA_S3_SECRET_ACCESS_KEY: 'secret',
+      });
+
+      expect(storage.name).toBe('s3');
+    });
+
+    it('should reject an incomplete S3 configuration and unknown drivers', () => {
+      expect(() => createMediaStorage({ MEDIA_STORAGE: 's3', MEDIA_S3_ENDPOINT: 'http://localhost:9000' })).toThrow(
+        'MEDIA_STORAGE is s3 but MEDIA_S3_BUCKET, MEDIA_S3_ACCESS_KEY_ID, MEDIA_S3_SECRET_ACCESS_KEY are not set'
+      );
+      expect(() => createMediaStorage({ MEDIA_STORAGE: 'ftp' })).toThrow("Unknown MEDIA_STORAGE 'ftp'");
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { MockIdentityProvider } from '@/shared/test/mockIdentityProvider';
+import { OidcClient, OidcError, createCodeChallenge, loadOidcProviders } from '../oidcClient';
+
+jest.mock('../logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+describe('OidcClient', () => {
+  let idp: MockIdentityProvider;
+  let client: OidcClient;
+
+  const request = { state: 'state-123', nonce: 'nonce-123', codeVerifier: 'verifier-'.padEnd(64, 'x') };
+
+  beforeAll(async () => {
+    idp = new MockIdentityProvider();
+    await idp.start();
+  });
+
+  afterAll(async () => {
+    await idp.stop();
+  });
+
+  beforeEach(() => {
+    client = loadOidcProviders(idp.env()).get('mock')!;
+  });
+
+  describe('getAuthorizationUrl', () => {
+    it('should build an authorization code request with PKCE', async () => {
+      const url = new URL(await client.getAuthorizationUrl(request));
+
+      expect(`${url.origin}${url.pathname}`).toBe(`${idp.issuer}/authorize`);
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        response_type: 'code',
+        client_id: idp.clientId,
+        redirect_uri: idp.redirectUri,
+        scope: 'openid email profile',
+        state: request.state,
+        nonce: request.nonce,
+        code_challenge: createCodeChallenge(request.codeVerifier),
+        code_challenge_method: 'S256',
+      });
+    });
+
+    it('should fail with an OidcError when the provider is unreachable', async () => {
+      const unreachable = new OidcClient({ ...client.config, issuer: 'http://127.0.0.1:1' });
+
+      await expect(unreachable.getAuthorizationUrl(request)).rejects.toBeInstanceOf(OidcError);
+    });
+  });
+
+  describe('exchangeCode', () => {
+    it('should exchange the code and return the validated claims', async () => {
+      const { code } = idp.signIn(await client.getAuthorizationUrl(request), {
+        sub: 'mock-user-1',
+        email: 'learner@example.com',
+        email_verified: 'true',
+      });
+
+      const claims = await client.exchangeCode(code, request.codeVerifier, request.nonce);
+
+      expect(claims).toMatchObject({ sub: 'mock-user-1', email: 'learner@example.com', email_verified: true });
+    });
+
+    it('should reject a code redeemed with the wrong code verifier', async () => {
+      const { code } = idp.signIn(await client.getAuthorizationUrl(request), { sub: 'mock-user-1' });
+
+      await expect(client.exchangeCode(code, 'another-verifier'.padEnd(64, 'y'), request.nonce)).rejects.toBeInstanceOf(OidcError);
+    });
+
+    it('should reject an ID token issued for another login', async () => {
+      const { code } = idp.signIn(await client.getAuthorizationUrl(request), { sub: 'mock-user-1' });
+
+      await expect(client.exchangeCode(code, request.codeVerifier, 'other-nonce')).rejects.toThrow('nonce mismatch');
+    });
+  });
+
+  describe('verifyIdToken', () => {
+    it('should reject tokens issued for another client', async () => {
+      const token = idp.signIdToken({ sub: 'mock-user-1', nonce: 'n' }, { audience: 'another-client' });
+
+      await expect(client.verifyIdToken(token, 'n')).rejects.toThrow('Invalid ID token');
+    });
+
+    it('should reject expired tokens', async () => {
+      const token = idp.signIdToken({ sub: 'mock-user-1', nonce: 'n' }, { expiresIn: -10 });
+
+      await expect(client.verifyIdToken(token, 'n')).rejects.toThrow('Invalid ID token');
+    });
+
+    it('should fetch the provider keys again after a key rotation', async () => {
+      await client.verifyIdToken(idp.signIdToken({ sub: 'mock-user-1', nonce: 'n' }), 'n');
+      const jwksRequests = idp.jwksRequests;
+
+      idp.rotateKeys();
+      const claims = await client.verifyIdToken(idp.signIdToken({ sub: 'mock-user-2', nonce: 'n' }), 'n');
+
+      expect(claims.sub).toBe('mock-user-2');
+      expect(idp.jwksRequests).toBe(jwksRequests + 1);
+    });
+  });
+
+  describe('loadOidcProviders', () => {
+    it('should return no providers by default', () => {
+      expect(loadOidcProviders({}).size).toBe(0);
+    });
+
+    it('should read each listed provider', () => {
+      const providers = loadOidcProviders({
+        OIDC_PROVIDERS: 'google, my-idp',
+        OIDC_GOOGLE_ISSUER: 'https://accounts.google.com',
+        OIDC_GOOGLE_CLIENT_ID: 'google-client',
+        OIDC_GOOGLE_REDIRECT_URI: 'https://app.example.com/callback/google',
+        OIDC_MY_IDP_ISSUER: 'https://idp.example.com',
+        OIDC_MY_IDP_CLIENT_ID: 'client',
+        OIDC_MY_IDP_REDIRECT_URI: 'https://app.example.com/callback/my-idp',
+        OIDC_MY_IDP_SCOPES: 'openid email',
+      });
+
+      expect([...providers.keys()]).toEqual(['google', 'my-idp']);
+      expect(providers.get('my-idp')!.config).toMatchObject({ issuer: 'https://idp.example.com', scopes: 'openid email' });
+    });
+
+    it('should reject incomplete provider settings', () => {
+      expect(() => loadOidcProviders({ OIDC_PROVIDERS: 'google' })).toThrow('OIDC_GOOGLE_ISSUER');
+    });
+  });
+});
@@ -368,8 +368,9 @@ describe('Cache Service Performance', () => {
    */
   it('should perform LRU eviction when cache is full', async () => {
     // Set a small cache size for testing
-    const originalMaxSize = (cacheService as any).maxSize;
-    (cacheService as any).maxSize = 3;
+    const adapter = (cacheService as any).adapter;
+    const originalMaxSize = adapter.maxSize;
+    adapter.maxSize = 3;
 
     try {
       // Fill cache to capacity
@@ -399,7 +400,7 @@ describe('Cache Service Performance', () => {
       expect(evictedCount).toBe(1);
     } finally {
       // Restore original max size
-      (cacheService as any).maxSize = originalMaxSize;
+      adapter.maxSize = originalMaxSize;
     }
   });
 });
\ No newline at end of file
@@ -0,0 +1,272 @@
+import net from 'net';
+import { CacheService, MemoryCacheAdapter, createCacheService } from '../cache';
+import { RedisCacheAdapter, RedisInvalidationBus } from '../redisCache';
+import { RedisClient } from '../redisClient';
+
+type Reply = string | number | null | Reply[] | { error: string } | { status: string };
+
+/**
+ * Local stand-in for a Redis server, implementing the subset of the protocol used by the cache.
+ */
+class RedisStandIn {
+  private server = net.createServer((socket) => this.onConnection(socket));
+  private store = new Map<string, { value: string; expiresAt: number | null }>();
+  private subscribers = new Map<string, Set<net.Socket>>();
+  private sockets = new Set<net.Socket>();
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as net.AddressInfo;
+    return `redis://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    for (const socket of this.sockets) socket.destroy();
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  keys(): string[] {
+    return [...this.store.keys()];
+  }
+
+  private onConnection(socket: net.Socket): void {
+    this.sockets.add(socket);
+    socket.on('close', () => {
+      this.sockets.delete(socket);
+      for (const sockets of this.subscribers.values()) sockets.delete(socket);
+    });
+
+    let buffer = '';
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      let parsed = this.parseCommand(buffer);
+      while (parsed) {
+        buffer = buffer.slice(parsed.length);
+        socket.write(this.encode(this.execute(socket, parsed.args)));
+        if (parsed.args[0]!.toUpperCase() === 'QUIT') socket.end();
+        parsed = this.parseCommand(buffer);
+      }
+    });
+  }
+
+  private execute(socket: net.Socket, [name, ...args]: string[]): Reply {
+    switch (name!.toUpperCase()) {
+      case 'PING':
+      case 'QUIT':
+        return { status: 'OK' };
+      case 'GET': {
+        const entry = this.store.get(args[0]!);
+        if (!entry || (entry.expiresAt !== null && entry.expiresAt <= Date.now())) return null;
+        return entry.value;
+      }
+      case 'SET': {
+        const ttl = args[2]?.toUpperCase() === 'PX' ? Number(args[3]) : null;
+        this.store.set(args[0]!, { value: args[1]!, expiresAt: ttl === null ? null : Date.now() + ttl });
+        return { status: 'OK' };
+      }
+      case 'DEL':
+        return args.filter((key) => this.store.delete(key)).length;
+      case 'SCAN': {
+        const match = args[args.indexOf('MATCH') + 1]!;
+        const prefix = match.slice(0, -1).replace(/\\(.)/g, '$1');
+        return ['0', this.keys().filter((key) => key.startsWith(prefix))];
+      }
+      case 'SUBSCRIBE': {
+        const sockets = this.subscribers.get(args[0]!) ?? new Set();
+        sockets.add(socket);
+        this.subscribers.set(args[0]!, sockets);
+        return ['subscribe', args[0]!, 1];
+      }
+      case 'PUBLISH': {
+        const sockets = this.subscribers.get(args[0]!) ?? new Set();
+        for (const subscriber of sockets) {
+          subscriber.write(this.encode(['message', args[0]!, args[1]!]));
+        }
+        return sockets.size;
+      }
+      default:
+        return { error: `ERR unknown command '${name}'` };
+    }
+  }
+
+  private parseCommand(buffer: string): { args: string[]; length: number } | null {
+    const lines = buffer.split('\r\n');
+    if (!lines[0]?.startsWith('*')) return null;
+
+    const count = Number(lines[0].slice(1));
+    const args: string[] = [];
+    let length = lines[0].length + 2;
+    for (let index = 0; index < count; index++) {
+      const value = lines[1 + index * 2 + 1];
+      if (value === undefined || lines.length <= 1 + index * 2 + 2) return null;
+      args.push(value);
+      length += lines[1 + index * 2]!.length + 2 + value.length + 2;
+    }
+    return { args, length };
+  }
+
+  private encode(reply: Reply): string {
+    if (reply === null) return '$-1\r\n';
+    if (typeof reply === 'number') return `:${reply}\r\n`;
+    if (typeof reply === 'string') return `$${Buffer.byteLength(reply)}\r\n${reply}\r\n`;
+    if (Array.isArray(reply)) return `*${reply.length}\r\n${reply.map((item) => this.encode(item)).join('')}`;
+    if ('error' in reply) return `-${reply.error}\r\n`;
+    return `+${reply.status}\r\n`;
+  }
+}
+
+const waitFor = async (condition: () => Promise<boolean>, timeout = 1000): Promise<void> => {
+  const deadline = Date.now() + timeout;
+  while (!(await condition())) {
+    if (Date.now() > deadline) throw new Error('Condition not met in time');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+describe('Redis cache backend', () => {
+  let standIn: RedisStandIn;
+  let redisUrl: string;
+  const services: CacheService[] = [];
+
+  beforeEach(async () => {
+    standIn = new RedisStandIn();
+    redisUrl = await standIn.start();
+  });
+
+  afterEach(async () => {
+    await Promise.all(services.splice(0).map((service) => service.close()));
+    await standIn.stop();
+  });
+
+  describe('RedisCacheAdapter', () => {
+    const createService = (): CacheService => {
+      const service = new CacheService({ adapter: new RedisCacheAdapter(new RedisClient(redisUrl), 'test:') });
+      services.push(service);
+      return service;
+    };
+
+    it('should store values as JSON under the key prefix', async () => {
+      const cache = createService();
+
+      await cache.set('course:1', { name: 'Spanish', levels: [1, 2] });
+
+      expect(standIn.keys()).toEqual(['test:course:1']);
+      expect(await cache.get('course:1')).toEqual({ name: 'Spanish', levels: [1, 2] });
+      expect(await cache.get('course:2')).toBeNull();
+      expect(cache.getStats()).toMatchObject({ backend: 'redis', totalHits: 1, totalMisses: 1, totalSets: 1 });
+    });
+
+    it('should share entries and deletions between instances', async () => {
+      const first = createService();
+      const second = createService();
+
+      await first.set('packaged_course:1', { revision: 1 });
+      expect(await second.get('packaged_course:1')).toEqual({ revision: 1 });
+
+      await second.delete('packaged_course:1');
+      expect(await first.get('packaged_course:1')).toBeNull();
+    });
+
+    it('should expire entries after their TTL', async () => {
+      const cache = createService();
+
+      await cache.set('short', 'value', 50);
+      await new Promise((resolve) => setTimeout(resolve, 80));
+
+      expect(await cache.get('short')).toBeNull();
+    });
+
+    it('should invalidate keys matching a pattern', async () => {
+      const cache = createService();
+      await cache.set('packaged_course:1', 1);
+      await cache.set('packaged_course:2', 2);
+      await cache.set('course:1', 3);
+
+      expect(await cache.invalidatePattern('^packaged_course:')).toBe(2);
+
+      expect(standIn.keys()).toEqual(['test:course:1']);
+    });
+
+    it('should only clear keys under its prefix', async () => {
+      const cache = createService();
+      const otherClient = new RedisClient(redisUrl);
+      await otherClient.command('SET', 'other:key', 'kept');
+      await cache.set('course:1', 1);
+
+      await cache.clear();
+
+      expect(standIn.keys()).toEqual(['other:key']);
+      await otherClient.quit();
+    });
+
+    it('should treat an unreachable server as a cache miss', async () => {
+      await standIn.stop();
+      const cache = createService();
+
+      await expect(cache.set('course:1', 1)).resolves.toBeUndefined();
+      await expect(cache.get('course:1')).resolves.toBeNull();
+      standIn = new RedisStandIn();
+      await standIn.start();
+    });
+  });
+
+  describe('RedisInvalidationBus', () => {
+    const createService = (instanceId: string): CacheService => {
+      const service = new CacheService({
+        adapter: new MemoryCacheAdapter(),
+        invalidationBus: new RedisInvalidationBus(
+          new RedisClient(redisUrl),
+          new RedisClient(redisUrl),
+          'test:invalidations',
+          instanceId,
+        ),
+      });
+      services.push(service);
+      return service;
+    };
+
+    it('should drop deleted and invalidated entries on other instances', async () => {
+      const first = createService('first');
+      const second = createService('second');
+      // Both subscriptions are active once an invalidation from each side has been delivered
+      await waitFor(async () => {
+        await second.set('probe', true);
+        await first.delete('probe');
+        return (await second.get('probe')) === null;
+      });
+
+      await first.set('packaged_course:1', 'first');
+      await second.set('packaged_course:1', 'second');
+      await second.set('packaged_course:2', 'second');
+      await second.set('course:1', 'second');
+
+      await first.delete('packaged_course:1');
+      await waitFor(async () => (await second.get('packaged_course:1')) === null);
+
+      await first.invalidatePattern('^packaged_course:');
+      await waitFor(async () => (await second.get('packaged_course:2')) === null);
+
+      expect(await second.get('course:1')).toBe('second');
+    });
+  });
+
+  describe('createCacheService', () => {
+    it('should use the in-memory cache by default', () => {
+      expect(createCacheService({}).getStats().backend).toBe('memory');
+    });
+
+    it('should fall back to the in-memory cache when the redis driver has no URL', () => {
+      expect(createCacheService({ CACHE_DRIVER: 'redis' }).getStats().backend).toBe('memory');
+    });
+
+    it('should use the shared cache with the redis driver', async () => {
+      const cache = createCacheService({ CACHE_DRIVER: 'redis', REDIS_URL: redisUrl });
+      services.push(cache);
+
+      await cache.set('course:1', 1);
+
+      expect(cache.getStats().backend).toBe('redis');
+      expect(standIn.keys()).toEqual(['wayrapp:cache:course:1']);
+    });
+  });
+});
@@ -31,6 +31,7 @@ const mockCacheService = {
     warmUp: jest.fn(),
     cleanup: jest.fn(),
     clear: jest.fn(),
+    close: jest.fn(),
     set: jest.fn(),
     get: jest.fn(),
     delete: jest.fn(),
@@ -174,20 +175,20 @@ describe('StartupManager', () => {
 
     describe('shutdown', () => {
         it('should complete shutdown successfully', async () => {
-            mockCacheService.clear.mockResolvedValue(undefined);
+            mockCacheService.close.mockResolvedValue(undefined);
             mockPrisma.$disconnect.mockResolvedValue(undefined);
 
             await startupManagerInstance.shutdown();
 
             expect(mockLogger.info).toHaveBeenCalledWith('Starting graceful shutdown...');
-            expect(mockCacheService.clear).toHaveBeenCalled();
+            expect(mockCacheService.close).toHaveBeenCalled();
             expect(mockPrisma.$disconnect).toHaveBeenCalled();
             expect(mockLogger.info).toHaveBeenCalledWith('Graceful shutdown completed');
         });
 
         it('should handle shutdown errors gracefully', async () => {
             const error = new Error('Shutdown failed');
-            mockCacheService.clear.mockRejectedValue(error);
+            mockCacheService.close.mockRejectedValue(error);
 
             await startupManagerInstance.shutdown();
 
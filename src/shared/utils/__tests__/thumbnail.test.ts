@@ -0,0 +1,42 @@
+import sharp from 'sharp';
+import { createThumbnail, MAX_INPUT_PIXELS } from '../thumbnail';
+import { mediaFixtures } from '@/shared/test/fixtures/mediaFixtures';
+
+describe('Thumbnail', () => {
+  it('should scale images down to fit the size, keeping their aspect ratio', async () => {
+    const thumbnail = (await createThumbnail(mediaFixtures.png(640, 320, [10, 120, 230, 255]), 'image/png', 320))!;
+
+    expect(thumbnail).toMatchObject({ width: 320, height: 160 });
+    const { data, info } = await sharp(thumbnail.data).raw().toBuffer({ resolveWithObject: true });
+    expect(info).toMatchObject({ format: 'raw', width: 320, height: 160 });
+    expect([...data.subarray(0, 3)]).toEqual([10, 120, 230]);
+  });
+
+  it('should turn images upright following their EXIF orientation', async () => {
+    // Orientation 6: the stored image is displayed turned a quarter clockwise
+    const jpeg = await sharp({ create: { width: 800, height: 400, channels: 3, background: '#3366cc' } })
+      .jpeg()
+      .withMetadata({ orientation: 6 })
+      .toBuffer();
+
+    expect(await createThumbnail(jpeg, 'image/jpeg', 320)).toMatchObject({ width: 160, height: 320 });
+  });
+
+  it('should not create thumbnails of images already within the size', async () => {
+    expect(await createThumbnail(mediaFixtures.png(320, 100), 'image/png', 320)).toBeNull();
+  });
+
+  it('should reject images it cannot decode', async () => {
+    await expect(createThumbnail(mediaFixtures.jpegHeader(2000, 1000), 'image/jpeg', 320)).rejects.toThrow();
+  });
+
+  it('should reject images over the pixel limit before decoding them', async () => {
+    // A small JPEG whose frame header claims more pixels than the limit
+    const jpeg = await sharp({ create: { width: 16, height: 16, channels: 3, background: '#000' } }).jpeg().toBuffer();
+    const frame = jpeg.indexOf(Buffer.from([0xff, 0xc0]));
+    jpeg.writeUInt16BE(Math.ceil(MAX_INPUT_PIXELS / 10_000) + 1, frame + 5);
+    jpeg.writeUInt16BE(10_000, frame + 7);
+
+    await expect(createThumbnail(jpeg, 'image/jpeg', 320)).rejects.toThrow(/pixel limit/);
+  });
+});
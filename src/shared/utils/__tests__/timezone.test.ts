@@ -0,0 +1,39 @@
+import { addDays, daysBetween, isValidTimeZone, toLocalDay } from '../timezone';
+
+describe('Timezone utilities', () => {
+  describe('toLocalDay', () => {
+    test('should return the calendar day in the given timezone', () => {
+      const instant = new Date('2025-01-01T03:00:00Z');
+
+      expect(toLocalDay(instant, 'UTC')).toBe('2025-01-01');
+      expect(toLocalDay(instant, 'America/Lima')).toBe('2024-12-31');
+      expect(toLocalDay(instant, 'Asia/Tokyo')).toBe('2025-01-01');
+    });
+
+    test('should fall back to UTC for missing or invalid timezones', () => {
+      const instant = new Date('2025-01-01T03:00:00Z');
+
+      expect(toLocalDay(instant)).toBe('2025-01-01');
+      expect(toLocalDay(instant, 'Not/AZone')).toBe('2025-01-01');
+    });
+  });
+
+  describe('isValidTimeZone', () => {
+    test('should accept IANA timezones and reject unknown ones', () => {
+      expect(isValidTimeZone('Europe/Madrid')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+    });
+  });
+
+  describe('day arithmetic', () => {
+    test('should add days across month and year boundaries', () => {
+      expect(addDays('2024-12-31', 1)).toBe('2025-01-01');
+      expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+    });
+
+    test('should count days between calendar days', () => {
+      expect(daysBetween('2024-12-30', '2025-01-01')).toBe(2);
+      expect(daysBetween('2025-01-01', '2024-12-31')).toBe(-1);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  decryptTotpSecret,
+  encryptTotpSecret,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  verifyTotp,
+} from '../totp';
+
+describe('totp', () => {
+  // Secret of the RFC 6238 test vectors: the ASCII string "12345678901234567890"
+  const rfcSecret = base32Encode(Buffer.from('12345678901234567890'));
+
+  describe('base32', () => {
+    it('should encode the RFC 4648 test vectors without padding', () => {
+      expect(base32Encode(Buffer.from('f'))).toBe('MY');
+      expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+      expect(rfcSecret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    });
+
+    it('should decode ignoring case, spaces and padding', () => {
+      expect(base32Decode('mzxw 6ytb oi======').toString()).toBe('foobar');
+    });
+
+    it('should reject characters outside the alphabet', () => {
+      expect(() => base32Decode('MZXW1')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('generateTotpSecret', () => {
+    it('should generate random 160 bit secrets', () => {
+      const secret = generateTotpSecret();
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(base32Decode(secret)).toHaveLength(20);
+      expect(generateTotpSecret()).not.toBe(secret);
+    });
+  });
+
+  describe('generateTotp', () => {
+    it.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+    ])('should match the RFC 6238 SHA-1 test vector at %i seconds', (seconds, code) => {
+      expect(generateTotp(rfcSecret, getTotpStep(seconds * 1000))).toBe(code);
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const timestamp = 1111111109 * 1000;
+    const step = getTotpStep(timestamp);
+
+    it('should return the time step of a valid code', () => {
+      expect(verifyTotp(rfcSecret, '081804', { timestamp })).toBe(step);
+    });
+
+    it('should accept codes of the neighbouring steps only', () => {
+      expect(verifyTotp(rfcSecret, generateTotp(rfcSecret, step - 1), { timestamp })).toBe(step - 1);
+      expect(verifyTotp(rfcSecret, generateTotp(rfcSecret, step + 1), { timestamp })).toBe(step + 1);
+      expect(verifyTotp(rfcSecret, generateTotp(rfcSecret, step - 2), { timestamp })).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(rfcSecret, '81804', { timestamp })).toBeNull();
+      expect(verifyTotp(rfcSecret, 'abcdef', { timestamp })).toBeNull();
+    });
+  });
+
+  describe('buildOtpauthUri', () => {
+    it('should build a key URI for authenticator apps', () => {
+      const uri = new URL(buildOtpauthUri({ secret: rfcSecret, accountName: 'admin@example.com', issuer: 'WayrApp' }));
+
+      expect(uri.protocol).toBe('otpauth:');
+      expect(uri.host).toBe('totp');
+      expect(decodeURIComponent(uri.pathname)).toBe('/WayrApp:admin@example.com');
+      expect(Object.fromEntries(uri.searchParams)).toEqual({
+        secret: rfcSecret,
+        issuer: 'WayrApp',
+        algorithm: 'SHA1',
+        digits: '6',
+        period: '30',
+      });
+    });
+  });
+
+  describe('encryptTotpSecret', () => {
+    it('should round-trip a secret without storing it in clear', () => {
+      const encrypted = encryptTotpSecret(rfcSecret, 'encryption-key');
+
+      expect(encrypted).not.toContain(rfcSecret);
+      expect(decryptTotpSecret(encrypted, 'encryption-key')).toBe(rfcSecret);
+    });
+
+    it('should fail to decrypt with another key', () => {
+      const encrypted = encryptTotpSecret(rfcSecret, 'encryption-key');
+
+      expect(() => decryptTotpSecret(encrypted, 'other-key')).toThrow();
+    });
+  });
+});
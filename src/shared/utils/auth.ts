@@ -65,6 +65,7 @@
 
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
+import { createHash, randomInt, randomUUID } from 'crypto';
 import { JWTPayload, UserRole } from '@/shared/types';
 import { logger } from './logger';
 
@@ -102,6 +103,9 @@ export interface TokenPair {
  * @property {string} userId - Unique user identifier (UUID) for token subject
  * @property {string} email - User's email address for identification
  * @property {UserRole} role - User's role for authorization ('student' | 'content_creator' | 'admin')
+ * @property {string} [sessionId] - Session the tokens belong to, encoded as the `sid` claim
+ * @property {boolean} [twoFactorVerified] - Whether the session passed two-factor authentication,
+ * encoded as the `mfa` claim of access tokens
  * 
  * @example
  * // Creating token payload for JWT generation
@@ -115,6 +119,8 @@ export interface TokenPayload {
   userId: string;
   email: string;
   role: UserRole;
+  sessionId?: string;
+  twoFactorVerified?: boolean;
 }
 
 /**
@@ -166,7 +172,9 @@ export const generateAccessToken = (payload: TokenPayload): string => {
   const jwtPayload: Omit<JWTPayload, 'iat' | 'exp'> = {
     sub: payload.userId,
     email: payload.email,
-    role: payload.role
+    role: payload.role,
+    ...(payload.sessionId && { sid: payload.sessionId }),
+    ...(payload.twoFactorVerified && { mfa: true })
   };
 
   return jwt.sign(jwtPayload, jwtSecret, {
@@ -215,10 +223,12 @@ export const generateRefreshToken = (payload: TokenPayload): string => {
     throw new Error('JWT_REFRESH_SECRET environment variable not set');
   }
 
+  // Session refresh tokens get a unique ID, so tokens rotated within the same second never collide
   const jwtPayload: Omit<JWTPayload, 'iat' | 'exp'> = {
     sub: payload.userId,
     email: payload.email,
-    role: payload.role
+    role: payload.role,
+    ...(payload.sessionId && { sid: payload.sessionId, jti: randomUUID() })
   };
 
   return jwt.sign(jwtPayload, jwtRefreshSecret, {
@@ -600,8 +610,8 @@ export const getTokenExpiration = (token: string): Date | null => {
  * 
  * Creates a random string of specified length using a secure character set
  * suitable for generating session tokens, API keys, or other security-sensitive
- * identifiers. Uses Math.random() for character selection, which while not
- * cryptographically secure, provides sufficient randomness for most use cases.
+ * identifiers. Characters are selected with crypto.randomInt(), a cryptographically
+ * secure source, so tokens are safe to use for password resets and email verification.
  * 
  * The generated string contains alphanumeric characters (A-Z, a-z, 0-9) and
  * is suitable for use in URLs, headers, and other contexts where special
@@ -630,8 +640,28 @@ export const generateSecureToken = (length: number = 32): string => {
   let result = '';
 
   for (let i = 0; i < length; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
+    result += chars.charAt(randomInt(chars.length));
   }
 
   return result;
-};
\ No newline at end of file
+};
+
+/**
+ * Hash a token for storage
+ * 
+ * Returns the hex-encoded SHA-256 digest of a token, so tokens can be looked up in the
+ * database without storing them: a leaked table does not reveal any usable token. A plain
+ * hash is enough because the tokens hashed here are long and random (or signed), unlike
+ * passwords, which are hashed with bcrypt instead.
+ * 
+ * @param {string} token - Token to hash
+ * @returns {string} 64-character hex digest
+ * 
+ * @example
+ * // Store and look up refresh tokens by hash
+ * await prisma.revokedToken.create({ data: { tokenHash: hashToken(refreshToken), userId, expiresAt } });
+ * const revoked = await prisma.revokedToken.findUnique({ where: { tokenHash: hashToken(refreshToken) } });
+ */
+export const hashToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
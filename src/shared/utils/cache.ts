@@ -1,4 +1,7 @@
+import { randomUUID } from "crypto";
 import { logger } from "./logger";
+import { RedisClient } from "./redisClient";
+import { RedisCacheAdapter, RedisInvalidationBus } from "./redisCache";
 
 interface CacheEntry<T> {
   value: T;
@@ -9,51 +12,81 @@ interface CacheEntry<T> {
   size?: number; // Estimated size in bytes
 }
 
-export interface CacheStats {
+/**
+ * Entry level statistics reported by a cache adapter.
+ */
+export interface CacheEntryStats {
   size: number;
   keys: string[];
-  hitRate: number;
-  totalHits: number;
-  totalMisses: number;
-  totalSets: number;
   memoryUsage: number;
   averageAccessCount: number;
   oldestEntry: number;
   newestEntry: number;
 }
 
-export class CacheService {
+export interface CacheStats extends CacheEntryStats {
+  backend: string;
+  hitRate: number;
+  totalHits: number;
+  totalMisses: number;
+  totalSets: number;
+}
+
+/**
+ * Storage backend behind the CacheService.
+ *
+ * Adapters only store and expire entries; TTL selection, hit statistics, error handling and
+ * cross-instance invalidation are handled by the CacheService.
+ */
+export interface CacheAdapter {
+  /** Name reported in cache statistics */
+  readonly name: string;
+  /** Whether every application instance reads and writes the same entries */
+  readonly shared: boolean;
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, ttl: number): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  deleteMatching(pattern: RegExp): Promise<number>;
+  clear(): Promise<void>;
+  cleanup(): void;
+  getEntryStats(): CacheEntryStats;
+  close(): Promise<void>;
+}
+
+export type CacheInvalidationMessage =
+  | { type: "delete"; key: string }
+  | { type: "pattern"; pattern: string }
+  | { type: "clear" };
+
+/**
+ * Channel used to tell other application instances to drop entries from their local caches.
+ * Implementations must not deliver an instance its own messages.
+ */
+export interface CacheInvalidationBus {
+  publish(message: CacheInvalidationMessage): Promise<void>;
+  subscribe(handler: (message: CacheInvalidationMessage) => void): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Per-process LRU cache adapter. Entries are only visible to the instance that stored them.
+ */
+export class MemoryCacheAdapter implements CacheAdapter {
+  readonly name = "memory";
+  readonly shared = false;
   private cache = new Map<string, CacheEntry<any>>();
-  private defaultTTL = 5 * 60 * 1000; // 5 minutes in milliseconds
-  private maxSize = parseInt(process.env['CACHE_MAX_SIZE'] || '1000'); // Maximum number of entries
-  private totalHits = 0;
-  private totalMisses = 0;
-  private totalSets = 0;
 
-  // TTL configurations for different content types
-  private readonly TTL_CONFIG = {
-    PACKAGED_COURSE: 30 * 60 * 1000, // 30 minutes - courses change infrequently
-    COURSE_LIST: 10 * 60 * 1000, // 10 minutes - course lists change moderately
-    COURSE_DETAIL: 15 * 60 * 1000, // 15 minutes - individual courses
-    USER_PROGRESS: 2 * 60 * 1000, // 2 minutes - progress changes frequently
-    EXERCISE_LIST: 20 * 60 * 1000, // 20 minutes - exercises change infrequently
-    LESSON_DETAIL: 15 * 60 * 1000, // 15 minutes - lessons change moderately
-    HEALTH_CHECK: 30 * 1000, // 30 seconds - health status
-  };
+  constructor(private maxSize = parseInt(process.env['CACHE_MAX_SIZE'] || '1000')) {}
 
   async get<T>(key: string): Promise<T | null> {
     const entry = this.cache.get(key);
-
     if (!entry) {
-      this.totalMisses++;
-      logger.debug(`Cache miss: ${key}`);
       return null;
     }
 
     // Check if entry has expired
     if (Date.now() > entry.expiresAt) {
       this.cache.delete(key);
-      this.totalMisses++;
       logger.debug(`Cache entry expired and removed: ${key}`);
       return null;
     }
@@ -61,62 +94,47 @@ export class CacheService {
     // Update access statistics
     entry.accessCount++;
     entry.lastAccessed = Date.now();
-    this.totalHits++;
 
-    logger.debug(`Cache hit: ${key}`, {
-      accessCount: entry.accessCount,
-      age: Date.now() - entry.createdAt,
-    });
-    
     return entry.value as T;
   }
 
-  async set<T>(key: string, value: T, ttl?: number): Promise<void> {
-    // Determine TTL based on key pattern or use provided/default TTL
-    const timeToLive = ttl || this.getTTLForKey(key) || this.defaultTTL;
+  async set<T>(key: string, value: T, ttl: number): Promise<void> {
     const now = Date.now();
-    const expiresAt = now + timeToLive;
-
-    // Estimate size of the cached value
-    const estimatedSize = this.estimateSize(value);
 
     // Check if we need to evict entries (LRU eviction)
     if (this.cache.size >= this.maxSize && !this.cache.has(key)) {
       this.evictLRU();
     }
 
-    const entry: CacheEntry<T> = {
+    this.cache.set(key, {
       value,
-      expiresAt,
+      expiresAt: now + ttl,
       createdAt: now,
       accessCount: 0,
       lastAccessed: now,
-      size: estimatedSize,
-    };
-
-    this.cache.set(key, entry);
-    this.totalSets++;
-
-    logger.debug(`Cache set: ${key}`, {
-      TTL: `${timeToLive}ms`,
-      estimatedSize: `${estimatedSize} bytes`,
-      totalEntries: this.cache.size,
+      size: this.estimateSize(value),
     });
   }
 
-  async delete(key: string): Promise<void> {
-    const deleted = this.cache.delete(key);
-    if (deleted) {
-      logger.debug(`Cache entry deleted: ${key}`);
+  async delete(key: string): Promise<boolean> {
+    return this.cache.delete(key);
+  }
+
+  async deleteMatching(pattern: RegExp): Promise<number> {
+    let deletedCount = 0;
+
+    for (const key of this.cache.keys()) {
+      if (pattern.test(key)) {
+        this.cache.delete(key);
+        deletedCount++;
+      }
     }
+
+    return deletedCount;
   }
 
   async clear(): Promise<void> {
     this.cache.clear();
-    this.totalHits = 0;
-    this.totalMisses = 0;
-    this.totalSets = 0;
-    logger.debug("Cache cleared");
   }
 
   // Enhanced cleanup with performance metrics
@@ -142,6 +160,39 @@ export class CacheService {
     }
   }
 
+  getEntryStats(): CacheEntryStats {
+    const now = Date.now();
+    let totalMemory = 0;
+    let totalAccessCount = 0;
+    let oldestEntry = now;
+    let newestEntry = 0;
+
+    for (const entry of this.cache.values()) {
+      totalMemory += entry.size || 0;
+      totalAccessCount += entry.accessCount;
+
+      if (entry.createdAt < oldestEntry) {
+        oldestEntry = entry.createdAt;
+      }
+      if (entry.createdAt > newestEntry) {
+        newestEntry = entry.createdAt;
+      }
+    }
+
+    return {
+      size: this.cache.size,
+      keys: Array.from(this.cache.keys()),
+      memoryUsage: totalMemory,
+      averageAccessCount: this.cache.size > 0 ? totalAccessCount / this.cache.size : 0,
+      oldestEntry: oldestEntry === now ? 0 : now - oldestEntry,
+      newestEntry: now - newestEntry,
+    };
+  }
+
+  async close(): Promise<void> {
+    this.cache.clear();
+  }
+
   // LRU eviction strategy
   private evictLRU(): void {
     let oldestKey: string | null = null;
@@ -164,19 +215,6 @@ export class CacheService {
     }
   }
 
-  // Determine TTL based on cache key patterns
-  private getTTLForKey(key: string): number | null {
-    if (key.startsWith('packaged_course:')) return this.TTL_CONFIG.PACKAGED_COURSE;
-    if (key.startsWith('courses:')) return this.TTL_CONFIG.COURSE_LIST;
-    if (key.startsWith('course:')) return this.TTL_CONFIG.COURSE_DETAIL;
-    if (key.startsWith('user_progress:')) return this.TTL_CONFIG.USER_PROGRESS;
-    if (key.startsWith('exercises:')) return this.TTL_CONFIG.EXERCISE_LIST;
-    if (key.startsWith('lesson:')) return this.TTL_CONFIG.LESSON_DETAIL;
-    if (key.startsWith('health:')) return this.TTL_CONFIG.HEALTH_CHECK;
-    
-    return null;
-  }
-
   // Estimate memory usage of cached values
   private estimateSize(value: any): number {
     try {
@@ -185,48 +223,122 @@ export class CacheService {
       return 1000; // Default estimate for non-serializable values
     }
   }
+}
 
-  // Comprehensive cache statistics
-  getStats(): CacheStats {
-    const now = Date.now();
-    let totalMemory = 0;
-    let totalAccessCount = 0;
-    let oldestEntry = now;
-    let newestEntry = 0;
+export interface CacheServiceOptions {
+  adapter?: CacheAdapter;
+  invalidationBus?: CacheInvalidationBus;
+}
 
-    for (const entry of this.cache.values()) {
-      totalMemory += entry.size || 0;
-      totalAccessCount += entry.accessCount;
-      
-      if (entry.createdAt < oldestEntry) {
-        oldestEntry = entry.createdAt;
-      }
-      if (entry.createdAt > newestEntry) {
-        newestEntry = entry.createdAt;
+export class CacheService {
+  private adapter: CacheAdapter;
+  private invalidationBus: CacheInvalidationBus | undefined;
+  private defaultTTL = 5 * 60 * 1000; // 5 minutes in milliseconds
+  private totalHits = 0;
+  private totalMisses = 0;
+  private totalSets = 0;
+
+  // TTL configurations for different content types
+  private readonly TTL_CONFIG = {
+    PACKAGED_COURSE: 30 * 60 * 1000, // 30 minutes - courses change infrequently
+    COURSE_LIST: 10 * 60 * 1000, // 10 minutes - course lists change moderately
+    COURSE_DETAIL: 15 * 60 * 1000, // 15 minutes - individual courses
+    USER_PROGRESS: 2 * 60 * 1000, // 2 minutes - progress changes frequently
+    EXERCISE_LIST: 20 * 60 * 1000, // 20 minutes - exercises change infrequently
+    LESSON_DETAIL: 15 * 60 * 1000, // 15 minutes - lessons change moderately
+    HEALTH_CHECK: 30 * 1000, // 30 seconds - health status
+  };
+
+  constructor(options: CacheServiceOptions = {}) {
+    this.adapter = options.adapter ?? new MemoryCacheAdapter();
+    this.invalidationBus = options.invalidationBus;
+
+    this.invalidationBus
+      ?.subscribe((message) => this.applyInvalidation(message))
+      .catch((error) => logger.warn("Cache invalidation subscription failed", { error }));
+  }
+
+  // Cache failures are logged and treated as misses so they never fail a request
+  async get<T>(key: string): Promise<T | null> {
+    let value: T | null;
+    try {
+      value = await this.adapter.get<T>(key);
+    } catch (error) {
+      logger.warn(`Cache read failed: ${key}`, { error });
+      value = null;
+    }
+
+    if (value === null) {
+      this.totalMisses++;
+      logger.debug(`Cache miss: ${key}`);
+      return null;
+    }
+
+    this.totalHits++;
+    logger.debug(`Cache hit: ${key}`);
+
+    return value;
+  }
+
+  async set<T>(key: string, value: T, ttl?: number): Promise<void> {
+    // Determine TTL based on key pattern or use provided/default TTL
+    const timeToLive = ttl || this.getTTLForKey(key) || this.defaultTTL;
+
+    try {
+      await this.adapter.set(key, value, timeToLive);
+      this.totalSets++;
+      logger.debug(`Cache set: ${key}`, { TTL: `${timeToLive}ms` });
+    } catch (error) {
+      logger.warn(`Cache write failed: ${key}`, { error });
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      const deleted = await this.adapter.delete(key);
+      if (deleted) {
+        logger.debug(`Cache entry deleted: ${key}`);
       }
+    } catch (error) {
+      logger.warn(`Cache delete failed: ${key}`, { error });
     }
 
+    await this.broadcast({ type: "delete", key });
+  }
+
+  async clear(): Promise<void> {
+    await this.adapter.clear();
+    this.totalHits = 0;
+    this.totalMisses = 0;
+    this.totalSets = 0;
+    logger.debug("Cache cleared");
+
+    await this.broadcast({ type: "clear" });
+  }
+
+  cleanup(): void {
+    this.adapter.cleanup();
+  }
+
+  // Comprehensive cache statistics
+  getStats(): CacheStats {
     const totalRequests = this.totalHits + this.totalMisses;
     const hitRate = totalRequests > 0 ? (this.totalHits / totalRequests) * 100 : 0;
 
     return {
-      size: this.cache.size,
-      keys: Array.from(this.cache.keys()),
+      ...this.adapter.getEntryStats(),
+      backend: this.adapter.name,
       hitRate: Math.round(hitRate * 100) / 100,
       totalHits: this.totalHits,
       totalMisses: this.totalMisses,
       totalSets: this.totalSets,
-      memoryUsage: totalMemory,
-      averageAccessCount: this.cache.size > 0 ? totalAccessCount / this.cache.size : 0,
-      oldestEntry: oldestEntry === now ? 0 : now - oldestEntry,
-      newestEntry: now - newestEntry,
     };
   }
 
   // Warm up cache with frequently accessed content
   async warmUp(warmUpData: Array<{ key: string; fetcher: () => Promise<any>; ttl?: number }>): Promise<void> {
     logger.info(`Starting cache warm-up with ${warmUpData.length} entries`);
-    
+
     const promises = warmUpData.map(async ({ key, fetcher, ttl }) => {
       try {
         const data = await fetcher();
@@ -241,16 +353,13 @@ export class CacheService {
     logger.info('Cache warm-up completed');
   }
 
-  // Invalidate cache entries by pattern
+  // Invalidate cache entries by pattern, on every instance
   async invalidatePattern(pattern: string): Promise<number> {
-    const regex = new RegExp(pattern);
     let invalidatedCount = 0;
-
-    for (const key of this.cache.keys()) {
-      if (regex.test(key)) {
-        this.cache.delete(key);
-        invalidatedCount++;
-      }
+    try {
+      invalidatedCount = await this.adapter.deleteMatching(new RegExp(pattern));
+    } catch (error) {
+      logger.warn(`Cache pattern invalidation failed: ${pattern}`, { error });
     }
 
     if (invalidatedCount > 0) {
@@ -259,8 +368,56 @@ export class CacheService {
       });
     }
 
+    await this.broadcast({ type: "pattern", pattern });
+
     return invalidatedCount;
   }
+
+  // Releases the adapter and invalidation bus connections. Shared entries are kept for other instances.
+  async close(): Promise<void> {
+    await this.invalidationBus?.close();
+    await this.adapter.close();
+  }
+
+  // Shared adapters are already consistent across instances; only local caches need the messages
+  private async broadcast(message: CacheInvalidationMessage): Promise<void> {
+    if (!this.invalidationBus || this.adapter.shared) return;
+
+    try {
+      await this.invalidationBus.publish(message);
+    } catch (error) {
+      logger.warn("Cache invalidation broadcast failed", { message, error });
+    }
+  }
+
+  // Applies an invalidation received from another instance without broadcasting it again
+  private async applyInvalidation(message: CacheInvalidationMessage): Promise<void> {
+    try {
+      if (message.type === "delete") {
+        await this.adapter.delete(message.key);
+      } else if (message.type === "pattern") {
+        await this.adapter.deleteMatching(new RegExp(message.pattern));
+      } else {
+        await this.adapter.clear();
+      }
+      logger.debug("Applied remote cache invalidation", { message });
+    } catch (error) {
+      logger.warn("Remote cache invalidation failed", { message, error });
+    }
+  }
+
+  // Determine TTL based on cache key patterns
+  private getTTLForKey(key: string): number | null {
+    if (key.startsWith('packaged_course:')) return this.TTL_CONFIG.PACKAGED_COURSE;
+    if (key.startsWith('courses:')) return this.TTL_CONFIG.COURSE_LIST;
+    if (key.startsWith('course:')) return this.TTL_CONFIG.COURSE_DETAIL;
+    if (key.startsWith('user_progress:')) return this.TTL_CONFIG.USER_PROGRESS;
+    if (key.startsWith('exercises:')) return this.TTL_CONFIG.EXERCISE_LIST;
+    if (key.startsWith('lesson:')) return this.TTL_CONFIG.LESSON_DETAIL;
+    if (key.startsWith('health:')) return this.TTL_CONFIG.HEALTH_CHECK;
+
+    return null;
+  }
 }
 
 // Cache keys constants with comprehensive patterns
@@ -270,34 +427,73 @@ export const CACHE_KEYS = {
   COURSE: (id: string) => `course:${id}`,
   COURSE_LIST: (filters: string) => `courses:${filters}`,
   COURSE_WITH_SUMMARY: (id: string) => `course_summary:${id}`,
-  
+
   // Hierarchical content
   LEVELS_BY_COURSE: (courseId: string) => `levels:course:${courseId}`,
   SECTIONS_BY_LEVEL: (levelId: string) => `sections:level:${levelId}`,
   MODULES_BY_SECTION: (sectionId: string) => `modules:section:${sectionId}`,
   LESSONS_BY_MODULE: (moduleId: string) => `lessons:module:${moduleId}`,
-  
+
   // Exercises and lessons
   LESSON_WITH_EXERCISES: (lessonId: string) => `lesson:${lessonId}:exercises`,
   EXERCISE_LIST: (filters: string) => `exercises:${filters}`,
   EXERCISE: (id: string) => `exercise:${id}`,
-  
+
   // User-specific data (shorter TTL)
   USER_PROGRESS: (userId: string) => `user_progress:${userId}`,
   USER_COMPLETIONS: (userId: string) => `user_completions:${userId}`,
-  
+
   // System health and metrics
   HEALTH_CHECK: () => `health:database`,
   DB_METRICS: () => `metrics:database`,
   CACHE_STATS: () => `stats:cache`,
-  
+
   // Popular/trending content (for performance optimization)
   POPULAR_COURSES: () => `popular:courses`,
   TRENDING_LESSONS: () => `trending:lessons`,
 } as const;
 
+/**
+ * Builds the cache service from the environment.
+ *
+ * - `CACHE_DRIVER=memory` (default): per-process LRU cache. When `REDIS_URL` is set, deletions and
+ *   pattern invalidations are broadcast over Redis pub/sub so every instance drops stale entries.
+ * - `CACHE_DRIVER=redis`: entries are stored in the Redis-compatible server at `REDIS_URL` and
+ *   shared by every instance.
+ */
+export function createCacheService(env: NodeJS.ProcessEnv = process.env): CacheService {
+  const driver = env['CACHE_DRIVER'] || 'memory';
+  const redisUrl = env['REDIS_URL'];
+  const keyPrefix = env['CACHE_KEY_PREFIX'] || 'wayrapp:cache:';
+
+  if (driver !== 'memory' && driver !== 'redis') {
+    logger.warn(`Unknown CACHE_DRIVER '${driver}', falling back to the in-memory cache`);
+  }
+
+  if (driver === 'redis') {
+    if (redisUrl) {
+      return new CacheService({ adapter: new RedisCacheAdapter(new RedisClient(redisUrl), keyPrefix) });
+    }
+    logger.warn('CACHE_DRIVER is redis but REDIS_URL is not set, falling back to the in-memory cache');
+  }
+
+  if (!redisUrl) {
+    return new CacheService();
+  }
+
+  // Publishing and subscribing need separate connections, as a subscribed connection accepts no other commands
+  return new CacheService({
+    invalidationBus: new RedisInvalidationBus(
+      new RedisClient(redisUrl),
+      new RedisClient(redisUrl),
+      `${keyPrefix}invalidations`,
+      randomUUID(),
+    ),
+  });
+}
+
 // Singleton cache instance
-export const cacheService = new CacheService();
+export const cacheService = createCacheService();
 
 // Set up periodic cleanup (every 10 minutes) - only in non-test environments
 if (process.env['NODE_ENV'] !== 'test') {
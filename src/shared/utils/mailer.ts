@@ -0,0 +1,140 @@
+// src/shared/utils/mailer.ts
+
+/**
+ * Pluggable outgoing mail transport for transactional emails.
+ *
+ * Account flows (password reset, email verification) send their emails through the MailTransport
+ * interface and never depend on a concrete provider. A node operator plugs in the transport that
+ * fits their infrastructure by implementing `send()`; the built-in transports cover local
+ * development and self-hosted setups where emails are picked up from disk:
+ *
+ * - `console`: logs the recipient and subject of every email through the application logger. The
+ *   body is never logged because it carries single-use account tokens; use the `file` transport to
+ *   read the emails in development.
+ * - `file`: writes every email as a `.eml` file to `MAIL_OUTPUT_DIR` (default `logs/mail`).
+ *
+ * The transport is selected with `MAIL_TRANSPORT` and emails are sent from `MAIL_FROM`. The console
+ * transport does not deliver anything, so production deployments refuse to start with it.
+ *
+ * @module Mailer
+ * @category Utilities
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * import { mailTransport } from '@/shared/utils/mailer';
+ *
+ * await mailTransport.send({
+ *   to: 'learner@example.com',
+ *   subject: 'Welcome to WayrApp',
+ *   text: 'Your account is ready.'
+ * });
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { logger } from './logger';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  /** Name of the transport, used in logs */
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = 'WayrApp <no-reply@wayrapp.local>';
+
+/**
+ * Development transport that logs emails instead of delivering them, leaving out their body.
+ */
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console';
+
+  constructor(private from: string = DEFAULT_FROM) {}
+
+  async send(message: MailMessage): Promise<void> {
+    logger.info('Email sent (console transport)', {
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+    });
+  }
+}
+
+/**
+ * Transport that writes every email as an RFC 822 `.eml` file, which any mail client can open.
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private directory: string, private from: string = DEFAULT_FROM) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const date = new Date();
+    const boundary = `wayrapp-${randomUUID()}`;
+    const headers = [
+      `From: ${this.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${date.toUTCString()}`,
+      'MIME-Version: 1.0',
+    ];
+    const body = message.html
+      ? [
+          `Content-Type: multipart/alternative; boundary="${boundary}"`,
+          '',
+          `--${boundary}`,
+          'Content-Type: text/plain; charset=utf-8',
+          '',
+          message.text,
+          `--${boundary}`,
+          'Content-Type: text/html; charset=utf-8',
+          '',
+          message.html,
+          `--${boundary}--`,
+        ]
+      : ['Content-Type: text/plain; charset=utf-8', '', message.text];
+
+    await mkdir(this.directory, { recursive: true });
+    const fileName = `${date.toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.eml`;
+    const filePath = path.join(this.directory, fileName);
+    await writeFile(filePath, [...headers, ...body].join('\r\n'), 'utf8');
+
+    logger.info('Email written to file', { to: message.to, subject: message.subject, file: filePath });
+  }
+}
+
+/**
+ * Builds the mail transport configured in the environment.
+ *
+ * @throws {Error} When MAIL_TRANSPORT names an unknown transport
+ * @throws {Error} When NODE_ENV is production and no delivering transport is configured
+ */
+export function createMailTransport(env: NodeJS.ProcessEnv = process.env): MailTransport {
+  const transport = env['MAIL_TRANSPORT'] || 'console';
+  const from = env['MAIL_FROM'] || DEFAULT_FROM;
+
+  switch (transport) {
+    case 'console':
+      if (env['NODE_ENV'] === 'production') {
+        throw new Error(
+          'MAIL_TRANSPORT must be set to a delivering transport in production: the console transport does not send emails'
+        );
+      }
+      return new ConsoleMailTransport(from);
+    case 'file':
+      return new FileMailTransport(env['MAIL_OUTPUT_DIR'] || path.join('logs', 'mail'), from);
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT '${transport}'. Supported transports: console, file`);
+  }
+}
+
+// Singleton mail transport
+export const mailTransport = createMailTransport();
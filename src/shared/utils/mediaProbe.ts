@@ -0,0 +1,423 @@
+// src/shared/utils/mediaProbe.ts
+
+/**
+ * Content type detection and metadata extraction for uploaded media files.
+ *
+ * Uploads declare their content type, which is checked against the file signature ("magic bytes")
+ * so a file cannot be stored as an image or audio clip it is not. Once identified, the file is
+ * probed for the metadata clients need before downloading it:
+ *
+ * - Images (PNG, JPEG, GIF, WebP): width and height in pixels, read from the file header.
+ * - Audio (MP3, WAV, Ogg Vorbis/Opus, M4A): duration in seconds. MP3 files use the Xing/Info or
+ *   VBRI header of VBR encoders and otherwise add up their frames; Ogg files divide the granule
+ *   position of the last page by the sample rate; M4A files read the movie header (`mvhd`).
+ *
+ * Probing never throws on malformed files: unknown values are returned as null.
+ *
+ * @module MediaProbe
+ * @category Utilities
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * import { sniffContentType, probeImageSize, probeAudioDuration } from '@/shared/utils/mediaProbe';
+ *
+ * sniffContentType(buffer); // 'audio/mpeg'
+ * probeAudioDuration(buffer, 'audio/mpeg'); // 3.291
+ * probeImageSize(pngBuffer, 'image/png'); // { width: 640, height: 480 }
+ */
+
+export const IMAGE_CONTENT_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'] as const;
+export const AUDIO_CONTENT_TYPES = ['audio/mpeg', 'audio/wav', 'audio/ogg', 'audio/mp4'] as const;
+
+export type ImageContentType = (typeof IMAGE_CONTENT_TYPES)[number];
+export type AudioContentType = (typeof AUDIO_CONTENT_TYPES)[number];
+export type MediaContentType = ImageContentType | AudioContentType;
+
+/**
+ * Other names clients send for the supported content types
+ */
+const CONTENT_TYPE_ALIASES: Record<string, MediaContentType> = {
+  'image/jpg': 'image/jpeg',
+  'image/pjpeg': 'image/jpeg',
+  'audio/mp3': 'audio/mpeg',
+  'audio/x-wav': 'audio/wav',
+  'audio/wave': 'audio/wav',
+  'audio/vnd.wave': 'audio/wav',
+  'audio/x-m4a': 'audio/mp4',
+  'audio/m4a': 'audio/mp4',
+  'audio/opus': 'audio/ogg',
+};
+
+/**
+ * Normalizes a Content-Type header value to one of the supported media types.
+ *
+ * @param {string | undefined} contentType - Header value, parameters such as `; charset` are ignored
+ * @returns {MediaContentType | null} The supported type, or null when the type is not supported
+ */
+export function normalizeContentType(contentType: string | undefined): MediaContentType | null {
+  const type = (contentType ?? '').split(';')[0]!.trim().toLowerCase();
+  if ((IMAGE_CONTENT_TYPES as readonly string[]).includes(type) || (AUDIO_CONTENT_TYPES as readonly string[]).includes(type)) {
+    return type as MediaContentType;
+  }
+  return CONTENT_TYPE_ALIASES[type] ?? null;
+}
+
+export function isImageContentType(contentType: MediaContentType): contentType is ImageContentType {
+  return (IMAGE_CONTENT_TYPES as readonly string[]).includes(contentType);
+}
+
+const startsWith = (buffer: Buffer, signature: string, offset = 0): boolean =>
+  buffer.length >= offset + signature.length && buffer.toString('latin1', offset, offset + signature.length) === signature;
+
+/**
+ * Identifies a media file from its signature.
+ *
+ * @param {Buffer} buffer - File contents
+ * @returns {MediaContentType | null} The detected type, or null when the file is not a supported image or audio file
+ */
+export function sniffContentType(buffer: Buffer): MediaContentType | null {
+  if (startsWith(buffer, '\x89PNG\r\n\x1a\n')) return 'image/png';
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'image/jpeg';
+  if (startsWith(buffer, 'GIF87a') || startsWith(buffer, 'GIF89a')) return 'image/gif';
+  if (startsWith(buffer, 'RIFF') && startsWith(buffer, 'WEBP', 8)) return 'image/webp';
+  if (startsWith(buffer, 'RIFF') && startsWith(buffer, 'WAVE', 8)) return 'audio/wav';
+  if (startsWith(buffer, 'OggS')) return 'audio/ogg';
+  if (startsWith(buffer, 'ftyp', 4)) return 'audio/mp4';
+  if (startsWith(buffer, 'ID3') || findMp3Frame(buffer, 0) === 0) return 'audio/mpeg';
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Images
+// ---------------------------------------------------------------------------
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Reads the dimensions of an image from its header.
+ *
+ * @param {Buffer} buffer - Image contents
+ * @param {ImageContentType} contentType - Detected image type
+ * @returns {ImageSize | null} Width and height in pixels, or null when the header cannot be read
+ */
+export function probeImageSize(buffer: Buffer, contentType: ImageContentType): ImageSize | null {
+  try {
+    switch (contentType) {
+      case 'image/png':
+        return buffer.length >= 24 ? { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) } : null;
+      case 'image/gif':
+        return buffer.length >= 10 ? { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) } : null;
+      case 'image/jpeg':
+        return probeJpegSize(buffer);
+      case 'image/webp':
+        return probeWebpSize(buffer);
+    }
+  } catch {
+    return null;
+  }
+}
+
+function probeJpegSize(buffer: Buffer): ImageSize | null {
+  const size = readJpegFrameSize(buffer);
+  // Orientations 5 to 8 rotate the image by a quarter turn when it is displayed
+  return size && readJpegOrientation(buffer) >= 5 ? { width: size.height, height: size.width } : size;
+}
+
+function readJpegFrameSize(buffer: Buffer): ImageSize | null {
+  let offset = 2;
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) return null;
+    const marker = buffer[offset + 1]!;
+    // Fill bytes and markers without a length
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    // Start of frame markers, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: buffer.readUInt16BE(offset + 5), width: buffer.readUInt16BE(offset + 7) };
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+/**
+ * Reads the EXIF orientation of a JPEG file, which cameras set instead of rotating the pixels.
+ *
+ * @param {Buffer} buffer - JPEG contents
+ * @returns {number} Orientation from 1 to 8, where 1 (the default) needs no transformation
+ */
+export function readJpegOrientation(buffer: Buffer): number {
+  try {
+    let offset = 2;
+    while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+      const marker = buffer[offset + 1]!;
+      const length = buffer.readUInt16BE(offset + 2);
+      if (marker === 0xda) break;
+      if (marker === 0xe1 && startsWith(buffer, 'Exif\0\0', offset + 4)) {
+        const tiff = offset + 10;
+        const littleEndian = buffer.toString('latin1', tiff, tiff + 2) === 'II';
+        const read16 = (at: number) => (littleEndian ? buffer.readUInt16LE(at) : buffer.readUInt16BE(at));
+        const read32 = (at: number) => (littleEndian ? buffer.readUInt32LE(at) : buffer.readUInt32BE(at));
+        const directory = tiff + read32(tiff + 4);
+        const entries = read16(directory);
+        for (let i = 0; i < entries; i++) {
+          const entry = directory + 2 + i * 12;
+          if (read16(entry) === 0x0112) {
+            const orientation = read16(entry + 8);
+            return orientation >= 1 && orientation <= 8 ? orientation : 1;
+          }
+        }
+        return 1;
+      }
+      offset += 2 + length;
+    }
+  } catch {
+    // Malformed EXIF data: leave the image as stored
+  }
+  return 1;
+}
+
+function probeWebpSize(buffer: Buffer): ImageSize | null {
+  const chunk = buffer.toString('latin1', 12, 16);
+  if (chunk === 'VP8 ' && buffer.length >= 30) {
+    return { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+  }
+  if (chunk === 'VP8L' && buffer.length >= 25) {
+    const bits = buffer.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === 'VP8X' && buffer.length >= 30) {
+    return { width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 };
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Audio
+// ---------------------------------------------------------------------------
+
+/**
+ * Reads the duration of an audio file.
+ *
+ * @param {Buffer} buffer - Audio contents
+ * @param {AudioContentType} contentType - Detected audio type
+ * @returns {number | null} Duration in seconds rounded to milliseconds, or null when it cannot be determined
+ */
+export function probeAudioDuration(buffer: Buffer, contentType: AudioContentType): number | null {
+  let seconds: number | null;
+  try {
+    switch (contentType) {
+      case 'audio/wav':
+        seconds = probeWavDuration(buffer);
+        break;
+      case 'audio/mpeg':
+        seconds = probeMp3Duration(buffer);
+        break;
+      case 'audio/ogg':
+        seconds = probeOggDuration(buffer);
+        break;
+      case 'audio/mp4':
+        seconds = probeMp4Duration(buffer);
+        break;
+    }
+  } catch {
+    return null;
+  }
+  return seconds !== null && Number.isFinite(seconds) && seconds >= 0 ? Math.round(seconds * 1000) / 1000 : null;
+}
+
+function probeWavDuration(buffer: Buffer): number | null {
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString('latin1', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    if (id === 'fmt ') {
+      byteRate = buffer.readUInt32LE(offset + 16);
+    } else if (id === 'data') {
+      // Streaming encoders leave the size unset; the data then runs to the end of the file
+      const dataSize = Math.min(size, buffer.length - offset - 8);
+      return byteRate > 0 ? dataSize / byteRate : null;
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+// Bitrates in kbps by [MPEG-1, MPEG-2/2.5][layer 1, 2, 3][index]
+const MP3_BITRATES = [
+  [
+    [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  ],
+  [
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  ],
+];
+const MP3_SAMPLE_RATES = [44100, 48000, 32000];
+
+interface Mp3FrameHeader {
+  /** 1 for MPEG-1, 2 for MPEG-2, 2.5 for MPEG-2.5 */
+  version: number;
+  layer: number;
+  sampleRate: number;
+  samples: number;
+  length: number;
+  mono: boolean;
+}
+
+function parseMp3FrameHeader(buffer: Buffer, offset: number): Mp3FrameHeader | null {
+  if (offset + 4 > buffer.length || buffer[offset] !== 0xff || (buffer[offset + 1]! & 0xe0) !== 0xe0) {
+    return null;
+  }
+  const b1 = buffer[offset + 1]!;
+  const b2 = buffer[offset + 2]!;
+  const versionBits = (b1 >> 3) & 0x03;
+  const layerBits = (b1 >> 1) & 0x03;
+  const bitrateIndex = b2 >> 4;
+  const sampleRateIndex = (b2 >> 2) & 0x03;
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const version = versionBits === 3 ? 1 : versionBits === 2 ? 2 : 2.5;
+  const layer = 4 - layerBits;
+  const bitrate = MP3_BITRATES[version === 1 ? 0 : 1]![layer - 1]![bitrateIndex]! * 1000;
+  const sampleRate = MP3_SAMPLE_RATES[sampleRateIndex]! / (version === 1 ? 1 : version === 2 ? 2 : 4);
+  const padding = (b2 >> 1) & 0x01;
+  const samples = layer === 1 ? 384 : layer === 3 && version !== 1 ? 576 : 1152;
+  const length = layer === 1
+    ? (Math.floor((12 * bitrate) / sampleRate) + padding) * 4
+    : Math.floor(((samples / 8) * bitrate) / sampleRate) + padding;
+
+  return { version, layer, sampleRate, samples, length, mono: buffer[offset + 3]! >> 6 === 3 };
+}
+
+/**
+ * Finds the first MP3 frame at or after an offset, confirmed by the header of the frame that follows
+ */
+function findMp3Frame(buffer: Buffer, from: number): number | null {
+  const limit = Math.min(buffer.length, from + 64 * 1024);
+  for (let offset = from; offset + 4 <= limit; offset++) {
+    const header = parseMp3FrameHeader(buffer, offset);
+    if (header && header.length > 0) {
+      const next = offset + header.length;
+      if (next + 4 > buffer.length || parseMp3FrameHeader(buffer, next)) {
+        return offset;
+      }
+    }
+  }
+  return null;
+}
+
+function probeMp3Duration(buffer: Buffer): number | null {
+  let start = 0;
+  if (startsWith(buffer, 'ID3') && buffer.length >= 10) {
+    // Tag size is a 28-bit synchsafe integer, followed by an optional 10 byte footer
+    const size = ((buffer[6]! & 0x7f) << 21) | ((buffer[7]! & 0x7f) << 14) | ((buffer[8]! & 0x7f) << 7) | (buffer[9]! & 0x7f);
+    start = 10 + size + (buffer[5]! & 0x10 ? 10 : 0);
+  }
+
+  const first = findMp3Frame(buffer, start);
+  if (first === null) return null;
+  const header = parseMp3FrameHeader(buffer, first)!;
+
+  // VBR encoders store the frame count in a Xing/Info header after the side information
+  const sideInfo = header.version === 1 ? (header.mono ? 17 : 32) : header.mono ? 9 : 17;
+  const xing = first + 4 + sideInfo;
+  if (startsWith(buffer, 'Xing', xing) || startsWith(buffer, 'Info', xing)) {
+    const flags = buffer.readUInt32BE(xing + 4);
+    if (flags & 0x01) {
+      return (buffer.readUInt32BE(xing + 8) * header.samples) / header.sampleRate;
+    }
+  }
+  if (startsWith(buffer, 'VBRI', first + 36)) {
+    return (buffer.readUInt32BE(first + 36 + 14) * header.samples) / header.sampleRate;
+  }
+
+  // Constant bitrate files, and VBR files without a header: add up the frames
+  let seconds = 0;
+  let offset = first;
+  let frame: Mp3FrameHeader | null = header;
+  while (frame && frame.length > 0) {
+    seconds += frame.samples / frame.sampleRate;
+    offset += frame.length;
+    frame = parseMp3FrameHeader(buffer, offset);
+  }
+  return seconds;
+}
+
+function probeOggDuration(buffer: Buffer): number | null {
+  // The identification header is the first packet, on the first page after the segment table
+  const segments = buffer[26]!;
+  const packet = 27 + segments;
+  let sampleRate: number;
+  let preSkip = 0;
+  if (startsWith(buffer, '\x01vorbis', packet)) {
+    sampleRate = buffer.readUInt32LE(packet + 12);
+  } else if (startsWith(buffer, 'OpusHead', packet)) {
+    // Opus granule positions always count 48 kHz samples
+    sampleRate = 48000;
+    preSkip = buffer.readUInt16LE(packet + 10);
+  } else {
+    return null;
+  }
+
+  // The granule position of the last page is the number of samples in the stream
+  for (let offset = buffer.lastIndexOf('OggS'); offset >= 0; offset = buffer.lastIndexOf('OggS', offset - 1)) {
+    if (offset + 14 <= buffer.length) {
+      const granule = Number(buffer.readBigInt64LE(offset + 6));
+      if (granule > 0) {
+        return sampleRate > 0 ? Math.max(0, granule - preSkip) / sampleRate : null;
+      }
+    }
+    if (offset === 0) break;
+  }
+  return null;
+}
+
+function probeMp4Duration(buffer: Buffer): number | null {
+  const findBox = (type: string, start: number, end: number): { start: number; end: number } | null => {
+    let offset = start;
+    while (offset + 8 <= end) {
+      let size = buffer.readUInt32BE(offset);
+      let header = 8;
+      if (size === 1) {
+        size = Number(buffer.readBigUInt64BE(offset + 8));
+        header = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+      if (size < header) return null;
+      if (buffer.toString('latin1', offset + 4, offset + 8) === type) {
+        return { start: offset + header, end: Math.min(end, offset + size) };
+      }
+      offset += size;
+    }
+    return null;
+  };
+
+  const moov = findBox('moov', 0, buffer.length);
+  const mvhd = moov && findBox('mvhd', moov.start, moov.end);
+  if (!mvhd) return null;
+
+  const version = buffer[mvhd.start]!;
+  const timescale = buffer.readUInt32BE(mvhd.start + (version === 1 ? 20 : 12));
+  const duration = version === 1
+    ? Number(buffer.readBigUInt64BE(mvhd.start + 24))
+    : buffer.readUInt32BE(mvhd.start + 16);
+  return timescale > 0 ? duration / timescale : null;
+}
@@ -0,0 +1,174 @@
+// src/shared/utils/mediaStorage.ts
+
+/**
+ * Pluggable storage for uploaded media files (images, audio clips and their thumbnails).
+ *
+ * The media module stores and reads files through the MediaStorage interface and never depends
+ * on where they live. Files are addressed by keys such as `image/<id>.png`. Two drivers are built in:
+ *
+ * - `local` (default): files under `MEDIA_STORAGE_DIR` (default `uploads/media`) on the server's disk.
+ * - `s3`: any S3-compatible object store (AWS S3, MinIO, Cloudflare R2, ...), configured with
+ *   `MEDIA_S3_ENDPOINT`, `MEDIA_S3_BUCKET`, `MEDIA_S3_REGION`, `MEDIA_S3_ACCESS_KEY_ID` and
+ *   `MEDIA_S3_SECRET_ACCESS_KEY`. Requests go through the AWS SDK, addressing objects path-style
+ *   (`<endpoint>/<bucket>/<key>`).
+ *
+ * The driver is selected with `MEDIA_STORAGE`. Files are always served through the API, so the
+ * bucket can stay private.
+ *
+ * @module MediaStorage
+ * @category Utilities
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * import { mediaStorage } from '@/shared/utils/mediaStorage';
+ *
+ * await mediaStorage.put('audio/4f6c.mp3', buffer, 'audio/mpeg');
+ * const file = await mediaStorage.get('audio/4f6c.mp3'); // Buffer, or null when missing
+ * await mediaStorage.delete('audio/4f6c.mp3');
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+  S3ServiceException,
+} from '@aws-sdk/client-s3';
+import { logger } from './logger';
+
+export interface MediaStorage {
+  /** Name of the driver, used in logs */
+  readonly name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  /** Returns null when no file is stored under the key */
+  get(key: string): Promise<Buffer | null>;
+  /** Deleting a missing file is not an error */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Driver that keeps files on the local filesystem.
+ */
+export class LocalMediaStorage implements MediaStorage {
+  readonly name = 'local';
+
+  constructor(private directory: string) {}
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string): string {
+    const root = path.resolve(this.directory);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid media storage key '${key}'`);
+    }
+    return filePath;
+  }
+}
+
+export interface S3StorageOptions {
+  /** Base URL of the S3 API, e.g. `https://s3.us-east-1.amazonaws.com` or `http://localhost:9000` */
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+/**
+ * Driver that keeps files in an S3-compatible bucket, through the AWS SDK.
+ */
+export class S3MediaStorage implements MediaStorage {
+  readonly name = 's3';
+  private client: S3Client;
+
+  constructor(private options: S3StorageOptions) {
+    this.client = new S3Client({
+      endpoint: options.endpoint,
+      region: options.region,
+      credentials: { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey },
+      forcePathStyle: true,
+      // Checksums only where S3 requires them, which every S3-compatible store supports
+      requestChecksumCalculation: 'WHEN_REQUIRED',
+      responseChecksumValidation: 'WHEN_REQUIRED',
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({ Bucket: this.options.bucket, Key: key, Body: data, ContentType: contentType })
+    );
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: this.options.bucket, Key: key }));
+      return response.Body ? Buffer.from(await response.Body.transformToByteArray()) : Buffer.alloc(0);
+    } catch (error) {
+      if (error instanceof S3ServiceException && error.$metadata.httpStatusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.options.bucket, Key: key }));
+  }
+}
+
+/**
+ * Builds the media storage driver configured in the environment.
+ *
+ * @throws {Error} When MEDIA_STORAGE names an unknown driver or the S3 driver is missing settings
+ */
+export function createMediaStorage(env: NodeJS.ProcessEnv = process.env): MediaStorage {
+  const driver = env['MEDIA_STORAGE'] || 'local';
+
+  switch (driver) {
+    case 'local':
+      return new LocalMediaStorage(env['MEDIA_STORAGE_DIR'] || path.join('uploads', 'media'));
+    case 's3': {
+      const settings = ['MEDIA_S3_ENDPOINT', 'MEDIA_S3_BUCKET', 'MEDIA_S3_ACCESS_KEY_ID', 'MEDIA_S3_SECRET_ACCESS_KEY'];
+      const missing = settings.filter((name) => !env[name]);
+      if (missing.length > 0) {
+        throw new Error(`MEDIA_STORAGE is s3 but ${missing.join(', ')} ${missing.length === 1 ? 'is' : 'are'} not set`);
+      }
+      logger.info('Media files are stored in S3', { endpoint: env['MEDIA_S3_ENDPOINT'], bucket: env['MEDIA_S3_BUCKET'] });
+      return new S3MediaStorage({
+        endpoint: env['MEDIA_S3_ENDPOINT']!,
+        bucket: env['MEDIA_S3_BUCKET']!,
+        region: env['MEDIA_S3_REGION'] || 'us-east-1',
+        accessKeyId: env['MEDIA_S3_ACCESS_KEY_ID']!,
+        secretAccessKey: env['MEDIA_S3_SECRET_ACCESS_KEY']!,
+      });
+    }
+    default:
+      throw new Error(`Unknown MEDIA_STORAGE '${driver}'. Supported drivers: local, s3`);
+  }
+}
+
+// Singleton media storage
+export const mediaStorage = createMediaStorage();
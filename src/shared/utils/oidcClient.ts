@@ -0,0 +1,308 @@
+// src/shared/utils/oidcClient.ts
+
+/**
+ * Minimal OpenID Connect relying party client for social login.
+ *
+ * Implements the parts of the OpenID Connect protocol needed to sign users in with any compliant
+ * identity provider using the authorization code flow with PKCE:
+ *
+ * - provider metadata discovery from `{issuer}/.well-known/openid-configuration`;
+ * - authorization URLs with `state`, `nonce` and an S256 PKCE code challenge;
+ * - authorization code exchange at the token endpoint;
+ * - ID token validation: signature against the provider JWKS, issuer, audience, expiry and nonce.
+ *
+ * Providers are configured through the environment and identified by a short name:
+ *
+ * ```
+ * OIDC_PROVIDERS=google,keycloak
+ * OIDC_GOOGLE_ISSUER=https://accounts.google.com
+ * OIDC_GOOGLE_CLIENT_ID=...
+ * OIDC_GOOGLE_CLIENT_SECRET=...
+ * OIDC_GOOGLE_REDIRECT_URI=https://app.wayrapp.com/auth/callback/google
+ * OIDC_GOOGLE_SCOPES="openid email profile"   # optional
+ * ```
+ *
+ * @module OidcClient
+ * @category Utilities
+ * @category Auth
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ */
+
+import { createHash, createPublicKey, JsonWebKey, KeyObject } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { logger } from './logger';
+
+const REQUEST_TIMEOUT_MS = 10000;
+const DEFAULT_SCOPES = 'openid email profile';
+const SUPPORTED_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+/**
+ * Error raised when the identity provider cannot be reached or returns an invalid response.
+ */
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+export interface OidcProviderConfig {
+  /** Short provider name used in URLs and stored with linked identities */
+  name: string;
+  issuer: string;
+  clientId: string;
+  /** Omitted for public clients, which rely on PKCE only */
+  clientSecret?: string | undefined;
+  redirectUri: string;
+  scopes?: string | undefined;
+}
+
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+export interface OidcAuthorizationRequest {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+/** Validated ID token claims identifying the user at the provider */
+export interface OidcIdTokenClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  picture?: string;
+  [claim: string]: unknown;
+}
+
+/**
+ * Computes the S256 PKCE code challenge for a code verifier.
+ */
+export function createCodeChallenge(codeVerifier: string): string {
+  return createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+export class OidcClient {
+  private metadata: Promise<OidcProviderMetadata> | null = null;
+  private keys = new Map<string, KeyObject>();
+
+  constructor(readonly config: OidcProviderConfig) {}
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  /**
+   * Builds the URL the user is sent to in order to sign in at the provider.
+   */
+  async getAuthorizationUrl({ state, nonce, codeVerifier }: OidcAuthorizationRequest): Promise<string> {
+    const metadata = await this.getMetadata();
+    const url = new URL(metadata.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', this.config.clientId);
+    url.searchParams.set('redirect_uri', this.config.redirectUri);
+    url.searchParams.set('scope', this.config.scopes || DEFAULT_SCOPES);
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', nonce);
+    url.searchParams.set('code_challenge', createCodeChallenge(codeVerifier));
+    url.searchParams.set('code_challenge_method', 'S256');
+    return url.toString();
+  }
+
+  /**
+   * Exchanges an authorization code for tokens and returns the validated ID token claims.
+   *
+   * @throws {OidcError} When the exchange fails or the ID token is invalid
+   */
+  async exchangeCode(code: string, codeVerifier: string, nonce: string): Promise<OidcIdTokenClaims> {
+    const metadata = await this.getMetadata();
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.config.redirectUri,
+      client_id: this.config.clientId,
+      code_verifier: codeVerifier,
+    });
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+
+    if (this.config.clientSecret) {
+      // client_secret_basic is the default authentication method when the provider does not list any
+      const methods = metadata.token_endpoint_auth_methods_supported ?? ['client_secret_basic'];
+      if (methods.includes('client_secret_basic')) {
+        const credentials = `${encodeURIComponent(this.config.clientId)}:${encodeURIComponent(this.config.clientSecret)}`;
+        headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+      } else {
+        body.set('client_secret', this.config.clientSecret);
+      }
+    }
+
+    const tokens = await this.request(metadata.token_endpoint, { method: 'POST', headers, body: body.toString() });
+    if (typeof tokens['id_token'] !== 'string') {
+      throw new OidcError(`Provider '${this.name}' did not return an ID token`);
+    }
+
+    return this.verifyIdToken(tokens['id_token'], nonce);
+  }
+
+  /**
+   * Validates an ID token and returns its claims.
+   *
+   * @throws {OidcError} When the signature, issuer, audience, expiry or nonce is invalid
+   */
+  async verifyIdToken(idToken: string, nonce: string): Promise<OidcIdTokenClaims> {
+    const metadata = await this.getMetadata();
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new OidcError('Malformed ID token');
+    }
+
+    const key = await this.getSigningKey(decoded.header.kid);
+    let claims: OidcIdTokenClaims;
+    try {
+      claims = jwt.verify(idToken, key, {
+        algorithms: SUPPORTED_ALGORITHMS,
+        issuer: metadata.issuer,
+        audience: this.config.clientId,
+      }) as OidcIdTokenClaims;
+    } catch (error) {
+      throw new OidcError(`Invalid ID token: ${(error as Error).message}`);
+    }
+
+    if (claims['nonce'] !== nonce) {
+      throw new OidcError('Invalid ID token: nonce mismatch');
+    }
+    if (typeof claims.sub !== 'string' || claims.sub.length === 0) {
+      throw new OidcError('Invalid ID token: missing subject');
+    }
+
+    // Some providers send email_verified as a string
+    const emailVerified = claims['email_verified'] as unknown;
+    claims.email_verified = emailVerified === true || emailVerified === 'true';
+    return claims;
+  }
+
+  private getMetadata(): Promise<OidcProviderMetadata> {
+    if (!this.metadata) {
+      const issuer = this.config.issuer.replace(/\/+$/, '');
+      this.metadata = this.request(`${issuer}/.well-known/openid-configuration`).then((metadata) => {
+        for (const field of ['issuer', 'authorization_endpoint', 'token_endpoint', 'jwks_uri']) {
+          if (typeof metadata[field] !== 'string') {
+            throw new OidcError(`Provider '${this.name}' metadata is missing ${field}`);
+          }
+        }
+        if ((metadata['issuer'] as string).replace(/\/+$/, '') !== issuer) {
+          throw new OidcError(`Provider '${this.name}' metadata issuer does not match the configured issuer`);
+        }
+        return metadata as unknown as OidcProviderMetadata;
+      });
+      // Retry discovery on the next login instead of caching the failure
+      this.metadata.catch(() => {
+        this.metadata = null;
+      });
+    }
+    return this.metadata;
+  }
+
+  private async getSigningKey(kid: string | undefined): Promise<KeyObject> {
+    const cacheKey = kid ?? '';
+    let key = this.keys.get(cacheKey);
+    if (!key) {
+      // Unknown key: the provider may have rotated its keys since they were last fetched
+      await this.loadKeys();
+      key = this.keys.get(cacheKey);
+    }
+    if (!key) {
+      throw new OidcError(`Provider '${this.name}' has no signing key '${cacheKey}'`);
+    }
+    return key;
+  }
+
+  private async loadKeys(): Promise<void> {
+    const metadata = await this.getMetadata();
+    const jwks = await this.request(metadata.jwks_uri);
+    if (!Array.isArray(jwks['keys'])) {
+      throw new OidcError(`Provider '${this.name}' returned an invalid JWKS`);
+    }
+
+    const keys = new Map<string, KeyObject>();
+    for (const jwk of jwks['keys'] as (JsonWebKey & { kid?: string; use?: string })[]) {
+      if (jwk.use && jwk.use !== 'sig') continue;
+      try {
+        const key = createPublicKey({ key: jwk, format: 'jwk' });
+        keys.set(jwk.kid ?? '', key);
+      } catch (error) {
+        logger.warn('Ignoring unsupported OIDC signing key', { provider: this.name, kid: jwk.kid, error });
+      }
+    }
+    this.keys = keys;
+  }
+
+  private async request(url: string, init: RequestInit = {}): Promise<Record<string, unknown>> {
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    } catch (error) {
+      throw new OidcError(`Provider '${this.name}' is unreachable: ${(error as Error).message}`);
+    }
+
+    const text = await response.text();
+    if (!response.ok) {
+      logger.warn('OIDC provider request failed', { provider: this.name, url, status: response.status, body: text });
+      throw new OidcError(`Provider '${this.name}' responded with status ${response.status}`);
+    }
+
+    try {
+      return JSON.parse(text) as Record<string, unknown>;
+    } catch {
+      throw new OidcError(`Provider '${this.name}' returned invalid JSON`);
+    }
+  }
+}
+
+/**
+ * Reads the OpenID Connect providers configured in the environment.
+ *
+ * @throws {Error} When a listed provider is missing required settings
+ */
+export function loadOidcProviders(env: NodeJS.ProcessEnv = process.env): Map<string, OidcClient> {
+  const providers = new Map<string, OidcClient>();
+  const names = (env['OIDC_PROVIDERS'] || '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  for (const name of names) {
+    if (!/^[a-z0-9][a-z0-9_-]{0,49}$/.test(name)) {
+      throw new Error(`Invalid OIDC provider name '${name}'`);
+    }
+
+    const prefix = `OIDC_${name.toUpperCase().replace(/-/g, '_')}_`;
+    const issuer = env[`${prefix}ISSUER`];
+    const clientId = env[`${prefix}CLIENT_ID`];
+    const redirectUri = env[`${prefix}REDIRECT_URI`];
+    if (!issuer || !clientId || !redirectUri) {
+      throw new Error(`OIDC provider '${name}' requires ${prefix}ISSUER, ${prefix}CLIENT_ID and ${prefix}REDIRECT_URI`);
+    }
+
+    providers.set(name, new OidcClient({
+      name,
+      issuer,
+      clientId,
+      clientSecret: env[`${prefix}CLIENT_SECRET`],
+      redirectUri,
+      scopes: env[`${prefix}SCOPES`],
+    }));
+  }
+
+  return providers;
+}
@@ -0,0 +1,156 @@
+// src/shared/utils/redisCache.ts
+
+/**
+ * Redis-backed implementations of the cache adapter and cache invalidation bus.
+ *
+ * The RedisCacheAdapter stores entries in a Redis-compatible server so every application instance
+ * (including short-lived serverless instances) reads the same cache and a single invalidation is
+ * immediately visible everywhere. Values are stored as JSON under a key prefix and expire through
+ * Redis TTLs. Pattern invalidation uses the same regular expressions as the in-memory cache: keys
+ * under the prefix are listed with SCAN and matched in the application.
+ *
+ * The RedisInvalidationBus keeps per-process in-memory caches consistent instead: deletions and
+ * pattern invalidations are published on a pub/sub channel and applied by every other instance.
+ *
+ * @module RedisCache
+ * @category Utilities
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * // Shared cache
+ * const cache = new CacheService({ adapter: new RedisCacheAdapter(new RedisClient(url)) });
+ *
+ * // Local caches kept consistent across instances
+ * const cache = new CacheService({
+ *   invalidationBus: new RedisInvalidationBus(new RedisClient(url), new RedisClient(url), 'cache:invalidations', instanceId),
+ * });
+ */
+
+import type { CacheAdapter, CacheEntryStats, CacheInvalidationBus, CacheInvalidationMessage } from './cache';
+import type { RedisClient } from './redisClient';
+import { logger } from './logger';
+
+const SCAN_BATCH_SIZE = 500;
+const DELETE_BATCH_SIZE = 100;
+
+// Escapes glob special characters so the prefix is matched literally by SCAN
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+export class RedisCacheAdapter implements CacheAdapter {
+  readonly name = 'redis';
+  readonly shared = true;
+
+  constructor(private client: RedisClient, private keyPrefix = 'wayrapp:cache:') {}
+
+  async get<T>(key: string): Promise<T | null> {
+    const value = await this.client.command('GET', this.keyPrefix + key);
+    return typeof value === 'string' ? (JSON.parse(value) as T) : null;
+  }
+
+  async set<T>(key: string, value: T, ttl: number): Promise<void> {
+    await this.client.command('SET', this.keyPrefix + key, JSON.stringify(value), 'PX', Math.max(1, Math.round(ttl)));
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const deleted = await this.client.command('DEL', this.keyPrefix + key);
+    return Number(deleted) > 0;
+  }
+
+  async deleteMatching(pattern: RegExp): Promise<number> {
+    const keys = (await this.scanKeys()).filter((key) => pattern.test(key.slice(this.keyPrefix.length)));
+    return await this.deleteKeys(keys);
+  }
+
+  async clear(): Promise<void> {
+    await this.deleteKeys(await this.scanKeys());
+  }
+
+  // Redis expires entries on its own
+  cleanup(): void {}
+
+  // Entries live on the server and are shared with other instances, so there are no local entry statistics
+  getEntryStats(): CacheEntryStats {
+    return {
+      size: 0,
+      keys: [],
+      memoryUsage: 0,
+      averageAccessCount: 0,
+      oldestEntry: 0,
+      newestEntry: 0,
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.client.quit();
+  }
+
+  private async scanKeys(): Promise<string[]> {
+    const keys: string[] = [];
+    const match = `${escapeGlob(this.keyPrefix)}*`;
+    let cursor = '0';
+
+    do {
+      const reply = await this.client.command('SCAN', cursor, 'MATCH', match, 'COUNT', SCAN_BATCH_SIZE);
+      if (!Array.isArray(reply) || reply.length !== 2 || !Array.isArray(reply[1])) {
+        throw new Error('Unexpected SCAN reply from Redis');
+      }
+      cursor = String(reply[0]);
+      keys.push(...reply[1].map(String));
+    } while (cursor !== '0');
+
+    // SCAN may return a key more than once
+    return [...new Set(keys)];
+  }
+
+  private async deleteKeys(keys: string[]): Promise<number> {
+    let deletedCount = 0;
+    for (let index = 0; index < keys.length; index += DELETE_BATCH_SIZE) {
+      const deleted = await this.client.command('DEL', ...keys.slice(index, index + DELETE_BATCH_SIZE));
+      deletedCount += Number(deleted);
+    }
+    return deletedCount;
+  }
+}
+
+export class RedisInvalidationBus implements CacheInvalidationBus {
+  /**
+   * @param publisher - Connection used to publish messages
+   * @param subscriber - Dedicated connection for the subscription
+   * @param channel - Pub/sub channel shared by all instances
+   * @param instanceId - Identifier of this instance, used to ignore its own messages
+   */
+  constructor(
+    private publisher: RedisClient,
+    private subscriber: RedisClient,
+    private channel: string,
+    private instanceId: string,
+  ) {}
+
+  async publish(message: CacheInvalidationMessage): Promise<void> {
+    await this.publisher.command('PUBLISH', this.channel, JSON.stringify({ ...message, origin: this.instanceId }));
+  }
+
+  async subscribe(handler: (message: CacheInvalidationMessage) => void): Promise<void> {
+    await this.subscriber.subscribe(this.channel, (payload) => {
+      let message: CacheInvalidationMessage & { origin?: string };
+      try {
+        message = JSON.parse(payload);
+      } catch {
+        logger.warn('Ignoring malformed cache invalidation message', { payload });
+        return;
+      }
+
+      if (message.origin === this.instanceId) return;
+
+      const { origin: _origin, ...invalidation } = message;
+      handler(invalidation as CacheInvalidationMessage);
+    });
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([this.publisher.quit(), this.subscriber.quit()]);
+  }
+}
@@ -0,0 +1,303 @@
+// src/shared/utils/redisClient.ts
+
+/**
+ * Minimal Redis protocol (RESP) client used by the distributed cache backend.
+ *
+ * The cache only needs a handful of commands (GET, SET, DEL, SCAN, PUBLISH, SUBSCRIBE), so this
+ * client speaks RESP directly over a TCP or TLS socket instead of pulling in a full Redis driver.
+ * It works against Redis and any server implementing the same protocol (Valkey, KeyDB, Dragonfly,
+ * managed Redis offerings or a local stand-in during tests).
+ *
+ * Connections are opened lazily on the first command and re-opened on the next command after a
+ * disconnect. Every command has a timeout so a slow or unreachable server can never stall a request.
+ * A client that subscribes to a channel switches to subscriber mode, as in Redis, and re-subscribes
+ * automatically after reconnecting.
+ *
+ * @module RedisClient
+ * @category Utilities
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * const client = new RedisClient('redis://:secret@localhost:6379/0');
+ * await client.command('SET', 'greeting', 'hello', 'PX', 60000);
+ * const value = await client.command('GET', 'greeting'); // 'hello'
+ *
+ * const subscriber = new RedisClient(process.env['REDIS_URL']!);
+ * await subscriber.subscribe('events', (message) => console.log(message));
+ */
+
+import net from 'net';
+import tls from 'tls';
+import { logger } from './logger';
+
+export type RedisReply = string | number | null | RedisReply[];
+
+export interface RedisClientOptions {
+  /** Milliseconds to wait for a reply before failing a command (default 2000) */
+  commandTimeout?: number;
+  /** Milliseconds to wait before re-connecting a subscriber after a disconnect (default 1000) */
+  reconnectDelay?: number;
+}
+
+interface PendingCommand {
+  resolve: (reply: RedisReply) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Error replied by the server for a command (RESP simple error).
+ */
+export class RedisReplyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedisReplyError';
+  }
+}
+
+// Parsed value and the offset right after it, or null when the buffer holds an incomplete reply
+type ParseResult = { value: RedisReply | RedisReplyError; offset: number } | null;
+
+function parseReply(buffer: Buffer, offset: number): ParseResult {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[offset]!);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new RedisReplyError(line), offset: next };
+    case ':':
+      return { value: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return { value: null, offset: next };
+      if (buffer.length < next + length + 2) return null;
+      return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) return { value: null, offset: next };
+      const items: RedisReply[] = [];
+      let position = next;
+      for (let index = 0; index < count; index++) {
+        const item = parseReply(buffer, position);
+        if (!item) return null;
+        items.push(item.value instanceof RedisReplyError ? item.value.message : item.value);
+        position = item.offset;
+      }
+      return { value: items, offset: position };
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type '${type}'`);
+  }
+}
+
+function encodeCommand(args: Array<string | number>): Buffer {
+  const parts = [`*${args.length}\r\n`];
+  for (const arg of args) {
+    const value = String(arg);
+    parts.push(`$${Buffer.byteLength(value)}\r\n${value}\r\n`);
+  }
+  return Buffer.from(parts.join(''));
+}
+
+export class RedisClient {
+  private readonly url: URL;
+  private readonly commandTimeout: number;
+  private readonly reconnectDelay: number;
+  private socket: net.Socket | null = null;
+  private connecting: Promise<net.Socket> | null = null;
+  private buffer = Buffer.alloc(0);
+  private pending: PendingCommand[] = [];
+  private subscriptions = new Map<string, (message: string) => void>();
+  private closed = false;
+
+  constructor(url: string, options: RedisClientOptions = {}) {
+    this.url = new URL(url);
+    if (this.url.protocol !== 'redis:' && this.url.protocol !== 'rediss:') {
+      throw new Error(`Unsupported Redis URL protocol '${this.url.protocol}'`);
+    }
+    this.commandTimeout = options.commandTimeout ?? 2000;
+    this.reconnectDelay = options.reconnectDelay ?? 1000;
+  }
+
+  /**
+   * Sends a command and resolves with its reply.
+   *
+   * @throws {RedisReplyError} When the server replies with an error
+   * @throws {Error} When the connection fails or the command times out
+   */
+  async command(...args: Array<string | number>): Promise<RedisReply> {
+    const socket = await this.connect();
+    return await this.send(socket, args);
+  }
+
+  /**
+   * Subscribes to a channel. Messages are delivered to the handler until the client is closed.
+   * Once subscribed, the client only accepts subscriber commands.
+   */
+  async subscribe(channel: string, handler: (message: string) => void): Promise<void> {
+    const socket = await this.connect();
+    this.subscriptions.set(channel, handler);
+    await this.send(socket, ['SUBSCRIBE', channel]);
+  }
+
+  /**
+   * Closes the connection and stops re-connecting.
+   */
+  async quit(): Promise<void> {
+    this.closed = true;
+    const socket = this.socket;
+    if (!socket) return;
+
+    try {
+      await this.send(socket, ['QUIT']);
+    } catch {
+      // The connection is going away either way
+    }
+    socket.destroy();
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.closed) return Promise.reject(new Error('Redis client is closed'));
+    if (this.socket) return Promise.resolve(this.socket);
+    if (this.connecting) return this.connecting;
+
+    this.connecting = new Promise<net.Socket>((resolve, reject) => {
+      const port = Number(this.url.port || 6379);
+      const host = this.url.hostname;
+      const onConnect = (): void => {
+        socket.setTimeout(0);
+        resolve(socket);
+      };
+      const socket = this.url.protocol === 'rediss:'
+        ? tls.connect({ host, port, servername: host }, onConnect)
+        : net.connect({ host, port }, onConnect);
+
+      socket.setTimeout(this.commandTimeout, () => {
+        socket.destroy(new Error(`Timed out connecting to Redis at ${host}:${port}`));
+      });
+      socket.once('error', reject);
+      socket.on('data', (chunk: Buffer) => this.onData(chunk));
+      socket.on('close', () => this.onClose(socket));
+    })
+      .then(async (socket) => {
+        socket.removeAllListeners('error');
+        socket.on('error', (error) => logger.warn('Redis connection error', { error: error.message }));
+        // An idle cache connection should never keep the process alive on its own
+        socket.unref();
+        this.socket = socket;
+        try {
+          await this.prepare(socket);
+        } catch (error) {
+          socket.destroy();
+          throw error;
+        }
+        return socket;
+      })
+      .finally(() => {
+        this.connecting = null;
+      });
+
+    return this.connecting;
+  }
+
+  // Authenticates, selects the database and restores subscriptions on a new connection
+  private async prepare(socket: net.Socket): Promise<void> {
+    const password = decodeURIComponent(this.url.password);
+    const username = decodeURIComponent(this.url.username);
+    if (password) {
+      await this.send(socket, username ? ['AUTH', username, password] : ['AUTH', password]);
+    }
+
+    const database = this.url.pathname.slice(1);
+    if (database) {
+      await this.send(socket, ['SELECT', database]);
+    }
+
+    for (const channel of this.subscriptions.keys()) {
+      await this.send(socket, ['SUBSCRIBE', channel]);
+    }
+  }
+
+  private send(socket: net.Socket, args: Array<string | number>): Promise<RedisReply> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        // Replies are matched by order, so a late reply would be handed to the wrong command
+        socket.destroy(new Error(`Redis command '${args[0]}' timed out`));
+      }, this.commandTimeout);
+
+      this.pending.push({ resolve, reject, timer });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    let offset = 0;
+    let result = parseReply(this.buffer, offset);
+    while (result) {
+      this.dispatch(result.value);
+      offset = result.offset;
+      if (offset >= this.buffer.length) break;
+      result = parseReply(this.buffer, offset);
+    }
+
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private dispatch(reply: RedisReply | RedisReplyError): void {
+    // Published messages are pushed to subscribers without a matching command
+    if (Array.isArray(reply) && reply[0] === 'message' && this.subscriptions.size > 0) {
+      const handler = this.subscriptions.get(String(reply[1]));
+      if (handler) {
+        try {
+          handler(String(reply[2]));
+        } catch (error) {
+          logger.warn('Redis subscription handler failed', { channel: reply[1], error });
+        }
+      }
+      return;
+    }
+
+    const command = this.pending.shift();
+    if (!command) return;
+
+    clearTimeout(command.timer);
+    if (reply instanceof RedisReplyError) {
+      command.reject(reply);
+    } else {
+      command.resolve(reply);
+    }
+  }
+
+  private onClose(socket: net.Socket): void {
+    if (this.socket !== socket && this.socket !== null) return;
+
+    this.socket = null;
+    this.buffer = Buffer.alloc(0);
+    const pending = this.pending;
+    this.pending = [];
+    for (const command of pending) {
+      clearTimeout(command.timer);
+      command.reject(new Error('Redis connection closed'));
+    }
+
+    // Subscribers have no next command to trigger a reconnect, so they reconnect on their own
+    if (!this.closed && this.subscriptions.size > 0) {
+      // A failed attempt closes its socket, which schedules the next attempt
+      setTimeout(() => {
+        this.connect().catch((error) => {
+          logger.warn('Redis subscriber reconnect failed', { error: error.message });
+        });
+      }, this.reconnectDelay).unref();
+    }
+  }
+}
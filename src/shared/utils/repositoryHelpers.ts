@@ -268,8 +268,9 @@ export const sanitizePage = (page: number | undefined): number => {
 
 /**
  * Build optimized include for child counts
+ * When a where condition is given, only the children matching it are counted
  */
-export const buildChildCountInclude = (childRelations: string[]): any => {
+export const buildChildCountInclude = (childRelations: string[], where?: Record<string, any>): any => {
   const include: any = {
     _count: {
       select: {}
@@ -277,7 +278,7 @@ export const buildChildCountInclude = (childRelations: string[]): any => {
   };
 
   childRelations.forEach(relation => {
-    include._count.select[relation] = true;
+    include._count.select[relation] = where ? { where } : true;
   });
 
   return include;
@@ -248,7 +248,7 @@ export class StartupManager {
   /**
    * Graceful shutdown cleanup for application termination.
    * 
-   * Performs orderly cleanup of resources including cache clearing and database
+   * Performs orderly cleanup of resources including cache connections and database
    * disconnection. This method should be called during application shutdown to
    * ensure proper resource cleanup and prevent data corruption.
    * 
@@ -266,8 +266,8 @@ export class StartupManager {
     logger.info('Starting graceful shutdown...');
 
     try {
-      // Clear cache
-      await cacheService.clear();
+      // Release cache connections (shared cache entries are kept for other instances)
+      await cacheService.close();
 
       // Disconnect from database
       await prisma.$disconnect();
@@ -0,0 +1,67 @@
+// src/shared/utils/thumbnail.ts
+
+/**
+ * Thumbnail generation for uploaded images.
+ *
+ * Images are decoded by sharp (libvips), which runs on the libuv thread pool so decoding an upload
+ * does not block the event loop. The image is turned upright following its EXIF orientation,
+ * scaled down so its longest side fits the thumbnail size, and encoded as PNG. Images already
+ * within the thumbnail size get no thumbnail: clients display the original instead. Images larger
+ * than MAX_INPUT_PIXELS are rejected before their pixels are decoded.
+ *
+ * @module Thumbnail
+ * @category Utilities
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * import { createThumbnail } from '@/shared/utils/thumbnail';
+ *
+ * const thumbnail = await createThumbnail(buffer, 'image/jpeg', 320);
+ * if (thumbnail) {
+ *   await storage.put(`${key}-thumb.png`, thumbnail.data, 'image/png');
+ * }
+ */
+
+import sharp from 'sharp';
+import { ImageContentType, probeImageSize } from './mediaProbe';
+
+/**
+ * Largest image, in pixels, that is decoded (a 40 megapixel photo)
+ */
+export const MAX_INPUT_PIXELS = 40_000_000;
+
+export interface Thumbnail {
+  /** PNG file contents */
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * Creates a PNG thumbnail of an image.
+ *
+ * @param {Buffer} buffer - Image contents
+ * @param {ImageContentType} contentType - Detected image type
+ * @param {number} maxSize - Longest side of the thumbnail in pixels
+ * @returns {Promise<Thumbnail | null>} The thumbnail, or null when the image already fits the size
+ * @throws {Error} When the image cannot be decoded or exceeds MAX_INPUT_PIXELS
+ */
+export async function createThumbnail(
+  buffer: Buffer,
+  contentType: ImageContentType,
+  maxSize: number
+): Promise<Thumbnail | null> {
+  const size = probeImageSize(buffer, contentType);
+  if (size && Math.max(size.width, size.height) <= maxSize) {
+    return null;
+  }
+
+  const { data, info } = await sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS })
+    .rotate()
+    .resize({ width: maxSize, height: maxSize, fit: 'inside', withoutEnlargement: true })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+
+  return { data, width: info.width, height: info.height };
+}
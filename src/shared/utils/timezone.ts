@@ -0,0 +1,105 @@
+/**
+ * Calendar day utilities for learner-local dates.
+ *
+ * Daily features such as streaks are counted on calendar days in the learner's own timezone
+ * rather than on 24-hour intervals. This module converts instants into local calendar days
+ * (`YYYY-MM-DD` strings) for an IANA timezone and performs day arithmetic on those strings,
+ * which are independent of the server timezone and of daylight saving transitions.
+ *
+ * @module Timezone
+ * @category Utils
+ * @author Exequiel Trujillo
+ * @since 1.0.0
+ *
+ * @example
+ * // 2025-01-01T03:00:00Z is still New Year's Eve in Lima
+ * toLocalDay(new Date('2025-01-01T03:00:00Z'), 'America/Lima'); // "2024-12-31"
+ *
+ * addDays('2024-12-31', 1);            // "2025-01-01"
+ * daysBetween('2024-12-30', '2025-01-01'); // 2
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Timezone used when a learner has not configured one or the stored value is invalid.
+ */
+export const DEFAULT_TIMEZONE = 'UTC';
+
+/**
+ * Checks whether a string is an IANA timezone supported by the runtime.
+ *
+ * @param {string} timeZone - Timezone identifier such as "America/Lima"
+ * @returns {boolean} True when the timezone can be used for date formatting
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the calendar day of an instant in the given timezone.
+ *
+ * Falls back to UTC when the timezone is missing or not supported.
+ *
+ * @param {Date} date - The instant to convert
+ * @param {string | null} [timeZone] - IANA timezone identifier
+ * @returns {string} Local calendar day in `YYYY-MM-DD` format
+ */
+export function toLocalDay(date: Date, timeZone?: string | null): string {
+  const zone = timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+
+  // The en-CA locale formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: zone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+}
+
+/**
+ * Converts a calendar day to the Date stored in `@db.Date` columns (midnight UTC).
+ *
+ * @param {string} day - Calendar day in `YYYY-MM-DD` format
+ * @returns {Date} Date at 00:00 UTC of that day
+ */
+export function dayToDate(day: string): Date {
+  return new Date(`${day}T00:00:00.000Z`);
+}
+
+/**
+ * Converts a Date read from a `@db.Date` column back to a calendar day.
+ *
+ * @param {Date} date - Date at 00:00 UTC
+ * @returns {string} Calendar day in `YYYY-MM-DD` format
+ */
+export function dateToDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Adds a number of days to a calendar day.
+ *
+ * @param {string} day - Calendar day in `YYYY-MM-DD` format
+ * @param {number} days - Number of days to add (may be negative)
+ * @returns {string} Resulting calendar day
+ */
+export function addDays(day: string, days: number): string {
+  return dateToDay(new Date(dayToDate(day).getTime() + days * DAY_MS));
+}
+
+/**
+ * Counts the calendar days from one day to another.
+ *
+ * @param {string} from - Start day in `YYYY-MM-DD` format
+ * @param {string} to - End day in `YYYY-MM-DD` format
+ * @returns {number} Number of days, negative when `to` is before `from`
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((dayToDate(to).getTime() - dayToDate(from).getTime()) / DAY_MS);
+}